@@ -11,9 +11,14 @@ const menuItems = [
     { key: 'dashboard', label: 'Dashboard', icon: 'view-dashboard' as const, path: '/(admin)/dashboard' },
     { key: 'users', label: 'Users', icon: 'account-group' as const, path: '/(admin)/users' },
     { key: 'inventory', label: 'Inventory', icon: 'package-variant-closed' as const, path: '/(admin)/inventory' },
+    { key: 'warehouses', label: 'Gudang', icon: 'warehouse' as const, path: '/(admin)/warehouses' },
+    { key: 'purchasing', label: 'Purchasing', icon: 'file-document-outline' as const, path: '/(admin)/purchasing' },
+    { key: 'opname', label: 'Opname', icon: 'clipboard-check-outline' as const, path: '/(admin)/opname' },
     { key: 'review', label: 'Review', icon: 'clock-outline' as const, path: '/(admin)/review' },
     { key: 'approved', label: 'Approved', icon: 'check-circle-outline' as const, path: '/(admin)/approved' },
     { key: 'reports', label: 'Reports', icon: 'chart-bar' as const, path: '/(admin)/reports' },
+    { key: 'anomali', label: 'Anomali', icon: 'shield-alert-outline' as const, path: '/(admin)/anomali' },
+    { key: 'sla', label: 'SLA', icon: 'timer-alert-outline' as const, path: '/(admin)/sla' },
     { key: 'analitik', label: 'Analitik', icon: 'chart-line-variant' as const, path: '/(admin)/analitik' },
     { key: 'broadcast', label: 'Broadcast', icon: 'bullhorn-outline' as const, path: '/(admin)/broadcast' },
     { key: 'akun', label: 'Akun', icon: 'account' as const, path: '/(admin)/admin-akun' },
@@ -5,6 +5,8 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import { useAuthStore } from '../../src/stores/authStore';
 import { syncPushIdentity } from '../../src/config/onesignal';
+import NotificationPreferencesCard from '../../src/components/NotificationPreferencesCard';
+import DigestSettingsCard from '../../src/components/DigestSettingsCard';
 
 export default function AdminAkunPage() {
     const { user, signOut } = useAuthStore();
@@ -137,6 +139,9 @@ export default function AdminAkunPage() {
                     </View>
                 )}
 
+                <NotificationPreferencesCard />
+                <DigestSettingsCard />
+
                 <Pressable style={styles.actionCard} onPress={signOut}>
                     <View style={[styles.actionIcon, { backgroundColor: Colors.danger + '20' }]}>
                         <MaterialCommunityIcons name="logout" size={22} color={Colors.danger} />
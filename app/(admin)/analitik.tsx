@@ -42,6 +42,20 @@ type TopEngineerUsage = {
     report_count: number;
 };
 
+type DefectAnalyticsRow = {
+    part_id: string;
+    part_name: string | null;
+    quantity: number;
+};
+
+type PartDefectRate = {
+    part_id: string;
+    part_name: string;
+    defective: number;
+    total_used: number;
+    rate: number;
+};
+
 type RequestStatusSummary = {
     status: string;
     count: number;
@@ -319,24 +333,66 @@ const buildTopEngineerMonthlyUsage = (
         .slice(0, 10);
 };
 
+// Defective qty over installed qty per part, across the same usage history as the rankings.
+const buildPartDefectRates = (
+    rows: UsageReportAnalyticsRow[],
+    defects: DefectAnalyticsRow[]
+): PartDefectRate[] => {
+    const usedMap = new Map<string, { name: string; qty: number }>();
+    for (const row of rows) {
+        for (const item of parseUsageItems(row.items)) {
+            const existing = usedMap.get(item.partId) || { name: item.partName || item.partId, qty: 0 };
+            existing.qty += item.quantity;
+            usedMap.set(item.partId, existing);
+        }
+    }
+
+    const defectMap = new Map<string, PartDefectRate>();
+    for (const defect of defects) {
+        const used = usedMap.get(defect.part_id);
+        const existing = defectMap.get(defect.part_id) || {
+            part_id: defect.part_id,
+            part_name: defect.part_name || used?.name || defect.part_id,
+            defective: 0,
+            total_used: used?.qty || 0,
+            rate: 0,
+        };
+        existing.defective += Number(defect.quantity) || 0;
+        defectMap.set(defect.part_id, existing);
+    }
+
+    return [...defectMap.values()]
+        .map((part) => ({
+            ...part,
+            rate: part.total_used > 0 ? Math.min(1, part.defective / part.total_used) : 1,
+        }))
+        .sort((a, b) => b.rate - a.rate || b.defective - a.defective || a.part_name.localeCompare(b.part_name))
+        .slice(0, 10);
+};
+
+const formatDefectRate = (rate: number) => `${Number((rate * 100).toFixed(1))}%`;
+
 type AnalitikData = {
     requestStatus: RequestStatusSummary[];
     engineers: EngineerProfileRow[];
     usageRows: UsageReportAnalyticsRow[];
+    defectRows: DefectAnalyticsRow[];
 };
 
 const fetchAnalitikData = async (): Promise<AnalitikData> => {
-    const [statusSummary, usageRowsRes, engineersRes] = await Promise.all([
+    const [statusSummary, usageRowsRes, engineersRes, defectsRes] = await Promise.all([
         fetchRequestStatusSummary(),
         supabase
             .from('usage_reports')
             .select('engineer_id, items, date')
             .order('date', { ascending: false }),
         supabase.from('profiles').select('id, name, employee_id').eq('role', 'engineer'),
+        supabase.from('defective_parts').select('part_id, part_name, quantity'),
     ]);
 
     if (usageRowsRes.error) throw usageRowsRes.error;
     if (engineersRes.error) throw engineersRes.error;
+    if (defectsRes.error) throw defectsRes.error;
 
     const rawUsageRows = Array.isArray(usageRowsRes.data) ? usageRowsRes.data : [];
     const mappedUsageRows: UsageReportAnalyticsRow[] = rawUsageRows.map((r: any) => ({
@@ -350,6 +406,7 @@ const fetchAnalitikData = async (): Promise<AnalitikData> => {
         requestStatus: statusSummary,
         engineers,
         usageRows: mappedUsageRows,
+        defectRows: (defectsRes.data || []) as DefectAnalyticsRow[],
     };
 };
 
@@ -367,7 +424,9 @@ export default function AnalitikPage() {
     const requestStatus = analitikQuery.data?.requestStatus || [];
     const engineers = analitikQuery.data?.engineers || [];
     const usageRows = analitikQuery.data?.usageRows || [];
+    const defectRows = analitikQuery.data?.defectRows || [];
     const topUsage = useMemo(() => buildTopPartsByUsage(usageRows), [usageRows]);
+    const defectRates = useMemo(() => buildPartDefectRates(usageRows, defectRows), [usageRows, defectRows]);
     const topEngineersMonthly = useMemo(
         () => buildTopEngineerMonthlyUsage(usageRows, engineers),
         [usageRows, engineers],
@@ -393,7 +452,7 @@ export default function AnalitikPage() {
     }, [analitikQuery.error]);
 
     useSupabaseRealtimeRefresh(
-        ['usage_reports', 'monthly_requests', 'profiles'],
+        ['usage_reports', 'monthly_requests', 'profiles', 'defective_parts'],
         () => {
             void analitikQuery.refetch();
         },
@@ -594,6 +653,19 @@ export default function AnalitikPage() {
                 ]))
             );
 
+            pushSection(
+                'SECTION: DEFECT RATE PER PART',
+                ['Rank', 'Part ID', 'Part Name', 'Qty Cacat', 'Total Used', 'Defect Rate'],
+                defectRates.map((part, idx) => ([
+                    idx + 1,
+                    part.part_id,
+                    part.part_name,
+                    part.defective,
+                    part.total_used,
+                    formatDefectRate(part.rate),
+                ]))
+            );
+
             pushSection(
                 'SECTION: TREND HARIAN PART (14 HARI)',
                 ['Date', 'Part ID', 'Part Name', 'Qty Used'],
@@ -638,7 +710,7 @@ export default function AnalitikPage() {
         } finally {
             setExportingCsv(false);
         }
-    }, [dailyPartChart, engineers, exportingCsv, requestStatus, topEngineersMonthly, topUsage, totalRequestStatusCount, usageRows]);
+    }, [dailyPartChart, defectRates, engineers, exportingCsv, requestStatus, topEngineersMonthly, topUsage, totalRequestStatusCount, usageRows]);
 
     return (
         <ScrollView
@@ -867,6 +939,39 @@ export default function AnalitikPage() {
                 </View>
             </View>
 
+            <View style={[styles.section, { marginTop: 24 }]}>
+                <View style={styles.rankingHeader}>
+                    <Text style={styles.sectionTitle}>Defect Rate per Part</Text>
+                    <Text style={styles.sectionHint}>Qty part cacat (RMA) dibanding total pemakaian part tersebut</Text>
+                </View>
+                <View style={styles.topList}>
+                    {defectRates.length === 0 ? (
+                        <View style={[adminStyles.card, styles.topCard]}>
+                            <Text style={styles.emptyText}>Belum ada part yang dilaporkan cacat.</Text>
+                        </View>
+                    ) : (
+                        defectRates.map((p) => {
+                            const color = p.rate >= 0.1 ? Colors.danger : p.rate >= 0.03 ? Colors.accent : Colors.success;
+                            return (
+                                <View key={p.part_id} style={[adminStyles.card, styles.topCard]}>
+                                    <View style={adminStyles.cardHeader}>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.topName}>{p.part_name || 'Unknown Part'}</Text>
+                                            <Text style={styles.topId}>{p.part_id}</Text>
+                                        </View>
+                                        <View style={{ alignItems: 'flex-end' }}>
+                                            <Text style={[styles.topVal, { color }]}>{formatDefectRate(p.rate)}</Text>
+                                            <Text style={styles.topLabel}>defect rate</Text>
+                                            <Text style={styles.topMeta}>{p.defective} cacat / {p.total_used} pcs</Text>
+                                        </View>
+                                    </View>
+                                </View>
+                            );
+                        })
+                    )}
+                </View>
+            </View>
+
             <AppSnackbar
                 visible={!!error}
                 onDismiss={() => setError('')}
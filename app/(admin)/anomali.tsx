@@ -0,0 +1,587 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-native';
+import { Text, Portal, Modal, TextInput, Button, Chip } from 'react-native-paper';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import { supabase } from '../../src/config/supabase';
+import {
+    MonthlyRequest,
+    StockAdjustment,
+    StockAnomaly,
+    StockAnomalyKind,
+    StockAnomalyStatus,
+    UsageReport,
+    ScanStockAnomaliesResult,
+    ReviewStockAnomalyResult,
+} from '../../src/types';
+import { adminStyles } from '../../src/styles/adminStyles';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import {
+    STOCK_ANOMALY_KIND_META,
+    STOCK_ANOMALY_STATUS_META,
+    getAnomalyScoreColor,
+} from '../../src/utils/stockAnomalies';
+
+type AnomalyDecision = 'confirm' | 'dismiss' | 'reopen';
+type KindFilter = StockAnomalyKind | 'all';
+
+type AnomalyEvidenceRows = {
+    adjustments: StockAdjustment[];
+    usageReports: UsageReport[];
+    requests: MonthlyRequest[];
+};
+
+const ANOMALY_LIMIT = 100;
+const SCAN_DAYS = 30;
+
+const fetchAnomalies = async (status: StockAnomalyStatus): Promise<StockAnomaly[]> => {
+    const { data, error } = await supabase
+        .from('stock_anomalies')
+        .select('*')
+        .eq('status', status)
+        .order('score', { ascending: false })
+        .order('occurred_at', { ascending: false })
+        .limit(ANOMALY_LIMIT);
+    if (error) throw error;
+    return (data || []) as StockAnomaly[];
+};
+
+const fetchEvidenceRows = async (anomaly: StockAnomaly): Promise<AnomalyEvidenceRows> => {
+    const adjustmentIds = anomaly.evidence?.adjustment_ids || [];
+    const usageReportIds = anomaly.evidence?.usage_report_ids || [];
+    const requestIds = anomaly.evidence?.request_ids || [];
+
+    const [adjRes, usageRes, requestRes] = await Promise.all([
+        adjustmentIds.length > 0
+            ? supabase.from('stock_adjustments').select('*').in('id', adjustmentIds).order('timestamp')
+            : null,
+        usageReportIds.length > 0
+            ? supabase.from('usage_reports').select('id, engineer_id, so_number, description, items, date').in('id', usageReportIds).order('date')
+            : null,
+        requestIds.length > 0
+            ? supabase
+                .from('monthly_requests')
+                .select('id, engineer_id, month, items, status, submitted_at, delivered_at, delivered_items, confirmed_at')
+                .in('id', requestIds)
+            : null,
+    ]);
+
+    const firstError = [adjRes?.error, usageRes?.error, requestRes?.error].find(Boolean);
+    if (firstError) throw firstError;
+
+    return {
+        adjustments: (adjRes?.data || []) as StockAdjustment[],
+        usageReports: (usageRes?.data || []) as UsageReport[],
+        requests: (requestRes?.data || []) as MonthlyRequest[],
+    };
+};
+
+const formatDateTime = (value?: string | null) => (
+    value
+        ? new Date(value).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+        : '-'
+);
+
+const formatItems = (items?: { partId: string; partName?: string; quantity: number }[] | null) => (
+    (items || []).map((item) => `${item.partName || item.partId} x${item.quantity}`).join(', ') || '-'
+);
+
+export default function AnomalyReviewPage() {
+    const [statusFilter, setStatusFilter] = useState<StockAnomalyStatus>('open');
+    const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+    const [refreshing, setRefreshing] = useState(false);
+    const [scanning, setScanning] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const [detailId, setDetailId] = useState<string | null>(null);
+    const [reviewNote, setReviewNote] = useState('');
+    const [reviewing, setReviewing] = useState<AnomalyDecision | null>(null);
+
+    const anomaliesQuery = useQuery({
+        queryKey: ['admin', 'anomalies', statusFilter],
+        queryFn: () => fetchAnomalies(statusFilter),
+    });
+    const anomalies = anomaliesQuery.data || [];
+    const visibleAnomalies = useMemo(
+        () => (kindFilter === 'all' ? anomalies : anomalies.filter((anomaly) => anomaly.kind === kindFilter)),
+        [anomalies, kindFilter]
+    );
+    const kindCounts = useMemo(() => {
+        const counts: Partial<Record<StockAnomalyKind, number>> = {};
+        for (const anomaly of anomalies) counts[anomaly.kind] = (counts[anomaly.kind] || 0) + 1;
+        return counts;
+    }, [anomalies]);
+
+    const detailAnomaly = anomalies.find((anomaly) => anomaly.id === detailId) || null;
+    const evidenceQuery = useQuery({
+        queryKey: ['admin', 'anomalies', 'evidence', detailAnomaly?.id, detailAnomaly?.updated_at],
+        queryFn: () => fetchEvidenceRows(detailAnomaly!),
+        enabled: !!detailAnomaly,
+    });
+    const evidence = evidenceQuery.data;
+
+    useSupabaseRealtimeRefresh(
+        ['stock_anomalies'],
+        () => {
+            void anomaliesQuery.refetch();
+        },
+    );
+
+    useEffect(() => {
+        const sourceError = anomaliesQuery.error || evidenceQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat anomali.';
+        setError(message);
+    }, [anomaliesQuery.error, evidenceQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await anomaliesQuery.refetch();
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const runScan = async () => {
+        if (scanning) return;
+        setScanning(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('scan_stock_anomalies', { p_days: SCAN_DAYS });
+            if (rpcError) throw rpcError;
+
+            const result = data as ScanStockAnomaliesResult | null;
+            const flagged = result?.flagged ?? 0;
+            const updated = result?.updated ?? 0;
+            setSuccess(flagged + updated > 0
+                ? `${flagged} anomali baru, ${updated} diperbarui.`
+                : 'Tidak ada anomali baru.');
+            await anomaliesQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menjalankan deteksi anomali.';
+            setError(message);
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const closeDetail = () => {
+        setDetailId(null);
+        setReviewNote('');
+    };
+
+    const reviewAnomaly = async (decision: AnomalyDecision) => {
+        if (!detailAnomaly || reviewing) return;
+        setReviewing(decision);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('review_stock_anomaly', {
+                p_anomaly_id: detailAnomaly.id,
+                p_decision: decision,
+                p_note: reviewNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReviewStockAnomalyResult | null;
+            if (!result?.ok) {
+                await anomaliesQuery.refetch();
+                if (result?.code === 'invalid_status') {
+                    throw new Error('Anomali sudah direview admin lain.');
+                }
+                throw new Error('Anomali tidak ditemukan.');
+            }
+
+            closeDetail();
+            setSuccess(
+                decision === 'confirm'
+                    ? 'Anomali dikonfirmasi.'
+                    : decision === 'dismiss' ? 'Anomali diabaikan.' : 'Anomali dibuka lagi.'
+            );
+            await anomaliesQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal mereview anomali.';
+            setError(message);
+        } finally {
+            setReviewing(null);
+        }
+    };
+
+    const renderAnomaly = (anomaly: StockAnomaly) => {
+        const kindMeta = STOCK_ANOMALY_KIND_META[anomaly.kind];
+        const scoreColor = getAnomalyScoreColor(anomaly.score);
+
+        return (
+            <Pressable
+                key={anomaly.id}
+                style={[adminStyles.card, styles.anomalyCard]}
+                onPress={() => {
+                    setDetailId(anomaly.id);
+                    setReviewNote(anomaly.review_note || '');
+                }}
+            >
+                <View style={styles.anomalyHeader}>
+                    <View style={[adminStyles.iconBox, { backgroundColor: scoreColor + '15' }]}>
+                        <MaterialCommunityIcons name={kindMeta.icon as any} size={18} color={scoreColor} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                        <Text style={styles.anomalyTitle}>{kindMeta.label}</Text>
+                        <Text style={styles.meta}>
+                            {anomaly.engineer_name || 'Beberapa engineer'} | {anomaly.area_group || '-'} | {formatDateTime(anomaly.occurred_at)}
+                        </Text>
+                    </View>
+                    <View style={[styles.badge, { borderColor: scoreColor + '55' }]}>
+                        <Text style={[styles.badgeText, { color: scoreColor }]}>Skor {anomaly.score}</Text>
+                    </View>
+                </View>
+                <Text style={styles.summary}>{anomaly.summary}</Text>
+                {anomaly.reviewed_at ? (
+                    <Text style={styles.meta}>
+                        {STOCK_ANOMALY_STATUS_META[anomaly.status].label} oleh {anomaly.reviewed_by_name || 'Admin'} {formatDateTime(anomaly.reviewed_at)}
+                        {anomaly.review_note ? ` | ${anomaly.review_note}` : ''}
+                    </Text>
+                ) : null}
+            </Pressable>
+        );
+    };
+
+    return (
+        <View style={adminStyles.container}>
+            <View style={adminStyles.header}>
+                <View style={{ flex: 1 }}>
+                    <Text style={adminStyles.headerTitle}>Anomali Stok</Text>
+                    <Text style={adminStyles.headerSub}>Pola koreksi dan pemakaian yang perlu dicek</Text>
+                </View>
+                <Button
+                    mode="contained"
+                    onPress={runScan}
+                    icon="radar"
+                    style={styles.primaryBtn}
+                    labelStyle={styles.primaryBtnText}
+                    loading={scanning}
+                    disabled={scanning}
+                    compact
+                >
+                    Pindai Sekarang
+                </Button>
+            </View>
+
+            <View style={styles.filterRow}>
+                {(['open', 'confirmed', 'dismissed'] as StockAnomalyStatus[]).map((status) => (
+                    <Chip
+                        key={status}
+                        compact
+                        mode={statusFilter === status ? 'flat' : 'outlined'}
+                        selected={statusFilter === status}
+                        onPress={() => setStatusFilter(status)}
+                        style={[styles.chip, statusFilter === status && styles.chipActive]}
+                        textStyle={styles.chipText}
+                    >
+                        {STOCK_ANOMALY_STATUS_META[status].label}
+                    </Chip>
+                ))}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow} style={{ flexGrow: 0 }}>
+                {(['all', ...Object.keys(STOCK_ANOMALY_KIND_META)] as KindFilter[]).map((kind) => (
+                    <Chip
+                        key={kind}
+                        compact
+                        mode={kindFilter === kind ? 'flat' : 'outlined'}
+                        selected={kindFilter === kind}
+                        onPress={() => setKindFilter(kind)}
+                        style={[styles.chip, kindFilter === kind && styles.chipActive]}
+                        textStyle={styles.chipText}
+                    >
+                        {kind === 'all'
+                            ? `Semua (${anomalies.length})`
+                            : `${STOCK_ANOMALY_KIND_META[kind].label} (${kindCounts[kind] || 0})`}
+                    </Chip>
+                ))}
+            </ScrollView>
+
+            <ScrollView
+                contentContainerStyle={[adminStyles.scrollContent, { gap: 12 }]}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+            >
+                {visibleAnomalies.length === 0 ? (
+                    <View style={adminStyles.emptyState}>
+                        <MaterialCommunityIcons name="shield-check-outline" size={48} color={Colors.textMuted} />
+                        <Text style={adminStyles.emptyText}>
+                            {anomaliesQuery.isLoading ? 'Memuat anomali...' : 'Tidak ada anomali.'}
+                        </Text>
+                    </View>
+                ) : visibleAnomalies.map(renderAnomaly)}
+            </ScrollView>
+
+            <Portal>
+                <Modal
+                    visible={!!detailAnomaly}
+                    onDismiss={closeDetail}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    {detailAnomaly ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>{STOCK_ANOMALY_KIND_META[detailAnomaly.kind].label}</Text>
+                                <Pressable onPress={closeDetail}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                            <Text style={styles.summary}>{detailAnomaly.summary}</Text>
+                            <Text style={styles.meta}>
+                                {detailAnomaly.engineer_name || 'Beberapa engineer'} | Skor {detailAnomaly.score} | Terdeteksi {formatDateTime(detailAnomaly.detected_at)}
+                            </Text>
+
+                            <ScrollView contentContainerStyle={{ gap: 8 }}>
+                                {evidenceQuery.isLoading ? <Text style={styles.meta}>Memuat data pendukung...</Text> : null}
+
+                                {evidence && evidence.requests.length > 0 ? (
+                                    <>
+                                        <Text style={styles.sectionTitle}>Request</Text>
+                                        {evidence.requests.map((request) => (
+                                            <View key={request.id} style={styles.row}>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.rowTitle}>Request {request.month} ({request.status})</Text>
+                                                    <Text style={styles.meta}>
+                                                        Submit {formatDateTime(request.submitted_at)}
+                                                        {request.confirmed_at ? ` | Diterima ${formatDateTime(request.confirmed_at)}` : ''}
+                                                    </Text>
+                                                    <Text style={styles.meta}>{formatItems(request.delivered_items || request.items)}</Text>
+                                                </View>
+                                            </View>
+                                        ))}
+                                    </>
+                                ) : null}
+
+                                {evidence && evidence.adjustments.length > 0 ? (
+                                    <>
+                                        <Text style={styles.sectionTitle}>Koreksi Stok</Text>
+                                        {evidence.adjustments.map((adjustment) => (
+                                            <View key={adjustment.id} style={styles.row}>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.rowTitle}>{adjustment.part_name || adjustment.part_id}</Text>
+                                                    <Text style={styles.meta}>
+                                                        {formatDateTime(adjustment.timestamp)} | {adjustment.previous_quantity} → {adjustment.new_quantity}
+                                                    </Text>
+                                                    {adjustment.reason ? <Text style={styles.meta}>"{adjustment.reason}"</Text> : null}
+                                                </View>
+                                                <Text style={[styles.delta, { color: adjustment.delta >= 0 ? Colors.success : Colors.danger }]}>
+                                                    {adjustment.delta >= 0 ? '+' : ''}{adjustment.delta}
+                                                </Text>
+                                            </View>
+                                        ))}
+                                    </>
+                                ) : null}
+
+                                {evidence && evidence.usageReports.length > 0 ? (
+                                    <>
+                                        <Text style={styles.sectionTitle}>Laporan Pemakaian</Text>
+                                        {evidence.usageReports.map((report) => (
+                                            <View key={report.id} style={styles.row}>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.rowTitle}>SO {report.so_number}</Text>
+                                                    <Text style={styles.meta}>{formatDateTime(report.date)}</Text>
+                                                    <Text style={styles.meta}>{formatItems(report.items)}</Text>
+                                                    {report.description ? <Text style={styles.meta}>"{report.description}"</Text> : null}
+                                                </View>
+                                            </View>
+                                        ))}
+                                    </>
+                                ) : null}
+                            </ScrollView>
+
+                            <TextInput
+                                label="Catatan review (opsional)"
+                                value={reviewNote}
+                                onChangeText={setReviewNote}
+                                mode="outlined"
+                                dense
+                                style={styles.input}
+                            />
+                            <View style={styles.modalActionRow}>
+                                {detailAnomaly.status === 'open' ? (
+                                    <>
+                                        <Button
+                                            mode="outlined"
+                                            onPress={() => reviewAnomaly('dismiss')}
+                                            style={styles.modalCancelBtn}
+                                            loading={reviewing === 'dismiss'}
+                                            disabled={!!reviewing}
+                                        >
+                                            Abaikan
+                                        </Button>
+                                        <Button
+                                            mode="contained"
+                                            onPress={() => reviewAnomaly('confirm')}
+                                            style={[styles.modalSaveBtn, { backgroundColor: Colors.danger }]}
+                                            loading={reviewing === 'confirm'}
+                                            disabled={!!reviewing}
+                                        >
+                                            Konfirmasi
+                                        </Button>
+                                    </>
+                                ) : (
+                                    <Button
+                                        mode="outlined"
+                                        onPress={() => reviewAnomaly('reopen')}
+                                        style={styles.modalCancelBtn}
+                                        loading={reviewing === 'reopen'}
+                                        disabled={!!reviewing}
+                                    >
+                                        Buka Lagi
+                                    </Button>
+                                )}
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+            </Portal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2000}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    filterRow: {
+        flexDirection: 'row',
+        gap: 8,
+        paddingHorizontal: 20,
+        paddingBottom: 8,
+    },
+    anomalyCard: {
+        gap: 8,
+    },
+    anomalyHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    anomalyTitle: {
+        fontSize: 15,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    summary: {
+        fontSize: 13,
+        color: Colors.text,
+    },
+    meta: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    badge: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    badgeText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    sectionTitle: {
+        marginTop: 6,
+        fontSize: 15,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    rowTitle: {
+        flexShrink: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    delta: {
+        minWidth: 36,
+        textAlign: 'right',
+        fontSize: 15,
+        fontWeight: '800',
+    },
+    primaryBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    primaryBtnText: {
+        color: '#08362E',
+        fontWeight: '700',
+        fontSize: 12,
+    },
+    chip: {
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    chipActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    chipText: {
+        color: Colors.text,
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    modal: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 14,
+        width: '100%',
+        maxWidth: 560,
+        alignSelf: 'center',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    modalTitle: {
+        flex: 1,
+        fontSize: 20,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    input: {
+        backgroundColor: Colors.surface,
+    },
+    modalActionRow: {
+        flexDirection: 'row',
+        gap: 10,
+        marginTop: 4,
+    },
+    modalCancelBtn: {
+        flex: 1,
+        borderRadius: 12,
+    },
+    modalSaveBtn: {
+        flex: 1,
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+});
@@ -5,13 +5,17 @@ import { useQuery } from '@tanstack/react-query';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import AppSnackbar from '../../src/components/AppSnackbar';
+import RequestStatusTimeline from '../../src/components/RequestStatusTimeline';
+import RequestCommentThread from '../../src/components/RequestCommentThread';
 import { useAuthStore } from '../../src/stores/authStore';
 import { supabase } from '../../src/config/supabase';
-import { MonthlyRequest, RequestItem, Profile } from '../../src/types';
+import { MonthlyRequest, RequestItem, Profile, StockShortage, DeliverRequestResult, CloseBackorderResult, PartSerial, Warehouse } from '../../src/types';
 import { adminStyles } from '../../src/styles/adminStyles';
 import { NotificationService } from '../../src/services/NotificationService';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
 import { normalizeArea } from '../../src/utils/normalizeArea';
+import { formatSerialIssues } from '../../src/utils/partSerials';
+import { formatWarehouseName, resolveAreaWarehouse } from '../../src/utils/warehouses';
 
 type DeliveryAdjustment = {
     partId: string;
@@ -24,6 +28,13 @@ type InventoryMeta = {
     total_stock: number;
 };
 
+type SerialPickItem = {
+    partId: string;
+    partName: string;
+    deliverQty: number;
+    options: PartSerial[];
+};
+
 type ApprovedAreaGroup = {
     area: string;
     requests: (MonthlyRequest & { engineer?: Profile })[];
@@ -105,19 +116,76 @@ function areAdjustmentMapsEqual(
     return true;
 }
 
+function isBackorderRequest(request: MonthlyRequest) {
+    return request.status !== 'approved' && !!request.has_backorder;
+}
+
+// What is still owed: the full request while approved, the open backorder afterwards.
+function getOutstandingItems(request: MonthlyRequest) {
+    if (isBackorderRequest(request)) return (request.backorder_items as RequestItem[]) || [];
+    return (request.items as RequestItem[]) || [];
+}
+
 function toDeliveredItems(items: DeliveryAdjustment[]) {
     return items
         .filter((item) => item.deliverQty > 0)
         .map((item) => ({ partId: item.partId, quantity: item.deliverQty }));
 }
 
+// Serialized parts in the shipment with the serials held by the sending warehouse; every unit
+// shipped needs one serial.
+const fetchSerialPickItems = async (items: RequestItem[], warehouseId?: string): Promise<SerialPickItem[]> => {
+    const { data: parts, error: partsError } = await supabase
+        .from('inventory')
+        .select('id, part_name')
+        .eq('is_serialized', true)
+        .in('id', items.map((item) => item.partId));
+    if (partsError) throw partsError;
+    if (!parts || parts.length === 0) return [];
+
+    let serialsQuery = supabase
+        .from('part_serials')
+        .select('*')
+        .eq('status', 'in_warehouse')
+        .in('part_id', parts.map((part) => part.id));
+    if (warehouseId) serialsQuery = serialsQuery.eq('warehouse_id', warehouseId);
+    const { data: serials, error: serialsError } = await serialsQuery
+        .order('received_at', { ascending: true })
+        .order('serial_number', { ascending: true });
+    if (serialsError) throw serialsError;
+
+    return parts
+        .map((part) => {
+            const options = ((serials || []) as PartSerial[]).filter((serial) => serial.part_id === part.id);
+            const deliverQty = items.find((item) => item.partId === part.id)?.quantity || 0;
+            return {
+                partId: part.id,
+                partName: part.part_name,
+                deliverQty,
+                options,
+            };
+        })
+        .filter((item) => item.deliverQty > 0);
+};
+
+const fetchWarehouses = async (): Promise<Warehouse[]> => {
+    const { data, error } = await supabase
+        .from('warehouses')
+        .select('*')
+        .eq('is_active', true)
+        .order('is_default', { ascending: false })
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Warehouse[];
+};
+
 const EMPTY_APPROVED_REQUESTS: (MonthlyRequest & { engineer?: Profile })[] = [];
 
 const fetchApprovedRequests = async (): Promise<(MonthlyRequest & { engineer?: Profile })[]> => {
     const { data, error } = await supabase
         .from('monthly_requests')
         .select('*, engineer:profiles!monthly_requests_engineer_id_fkey(*)')
-        .eq('status', 'approved')
+        .or('status.eq.approved,has_backorder.eq.true')
         .order('reviewed_at', { ascending: false });
     if (error) throw error;
     return data || [];
@@ -130,11 +198,19 @@ export default function ApprovedPage() {
     const [success, setSuccess] = useState('');
     const [error, setError] = useState('');
     const [deliveringId, setDeliveringId] = useState<string | null>(null);
+    const [historyRequestId, setHistoryRequestId] = useState<string | null>(null);
+    const [threadRequestId, setThreadRequestId] = useState<string | null>(null);
+    const [closingBackorderId, setClosingBackorderId] = useState<string | null>(null);
     const [adjustmentsByRequest, setAdjustmentsByRequest] = useState<Record<string, DeliveryAdjustment[]>>({});
     const [adjustingRequest, setAdjustingRequest] = useState<(MonthlyRequest & { engineer?: Profile }) | null>(null);
     const [adjustingItems, setAdjustingItems] = useState<DeliveryAdjustment[]>([]);
     const [adjustInventory, setAdjustInventory] = useState<Record<string, InventoryMeta>>({});
     const [adjustLoading, setAdjustLoading] = useState(false);
+    const [shortagesByRequest, setShortagesByRequest] = useState<Record<string, StockShortage[]>>({});
+    const [warehouseByRequest, setWarehouseByRequest] = useState<Record<string, string>>({});
+    const [serialRequest, setSerialRequest] = useState<(MonthlyRequest & { engineer?: Profile }) | null>(null);
+    const [serialPickItems, setSerialPickItems] = useState<SerialPickItem[]>([]);
+    const [serialPicks, setSerialPicks] = useState<Record<string, string[]>>({});
 
     const isWide = width >= 900;
     const approvedQuery = useQuery({
@@ -143,6 +219,19 @@ export default function ApprovedPage() {
         enabled: !!user,
     });
     const requests = approvedQuery.data ?? EMPTY_APPROVED_REQUESTS;
+    const warehousesQuery = useQuery({
+        queryKey: ['admin', 'approved', 'warehouses'],
+        queryFn: fetchWarehouses,
+        enabled: !!user,
+    });
+    const warehouses = warehousesQuery.data || [];
+
+    // Ships from the warehouse picked on the card, else the one serving the engineer's area.
+    const getRequestWarehouse = useCallback((request: MonthlyRequest & { engineer?: Profile }) => {
+        const picked = warehouseByRequest[request.id];
+        return warehouses.find((warehouse) => warehouse.id === picked)
+            || resolveAreaWarehouse(warehouses, request.engineer?.location);
+    }, [warehouseByRequest, warehouses]);
 
     const resolveAreaGroup = useCallback((request: MonthlyRequest & { engineer?: Profile }) => {
         const location = request.engineer?.location;
@@ -155,7 +244,7 @@ export default function ApprovedPage() {
             for (const row of requests) {
                 const prevDraft = prev[row.id];
                 if (!prevDraft) continue;
-                const normalized = buildAdjustments((row.items as RequestItem[]) || [], prevDraft);
+                const normalized = buildAdjustments(getOutstandingItems(row), prevDraft);
                 if (hasAdjustedQty(normalized)) next[row.id] = normalized;
             }
             return areAdjustmentMapsEqual(prev, next) ? prev : next;
@@ -175,18 +264,25 @@ export default function ApprovedPage() {
         },
         { enabled: !!user },
     );
+    useSupabaseRealtimeRefresh(
+        ['warehouses'],
+        () => {
+            void warehousesQuery.refetch();
+        },
+        { enabled: !!user },
+    );
 
     const onRefresh = async () => {
         setRefreshing(true);
         try {
-            await approvedQuery.refetch();
+            await Promise.all([approvedQuery.refetch(), warehousesQuery.refetch()]);
         } finally {
             setRefreshing(false);
         }
     };
 
     const getAdjustmentsForRequest = useCallback((request: MonthlyRequest & { engineer?: Profile }) => {
-        return buildAdjustments((request.items as RequestItem[]) || [], adjustmentsByRequest[request.id]);
+        return buildAdjustments(getOutstandingItems(request), adjustmentsByRequest[request.id]);
     }, [adjustmentsByRequest]);
 
     const groupedRequests = useMemo<ApprovedAreaGroup[]>(() => {
@@ -200,12 +296,12 @@ export default function ApprovedPage() {
 
         return Object.entries(grouped)
             .map(([area, areaRequests]) => {
-                const allItems = areaRequests.flatMap((row) => ((row.items as RequestItem[]) || []));
+                const allItems = areaRequests.flatMap((row) => getOutstandingItems(row));
                 const totalItems = allItems.length;
                 const totalQty = allItems.reduce((sum, item) => sum + toSafeQty(item.quantity), 0);
                 const adjustedCount = areaRequests.reduce((sum, row) => {
                     const adjusted = hasAdjustedQty(
-                        buildAdjustments((row.items as RequestItem[]) || [], adjustmentsByRequest[row.id]),
+                        buildAdjustments(getOutstandingItems(row), adjustmentsByRequest[row.id]),
                     );
                     return sum + (adjusted ? 1 : 0);
                 }, 0);
@@ -250,11 +346,24 @@ export default function ApprovedPage() {
 
             if (inventoryError) throw inventoryError;
 
+            // The shipment is checked against the sending warehouse, so show its stock.
+            const warehouse = getRequestWarehouse(request);
+            const warehouseQty = new Map<string, number>();
+            if (warehouse) {
+                const { data: stockRows, error: stockError } = await supabase
+                    .from('warehouse_stock')
+                    .select('part_id, quantity')
+                    .eq('warehouse_id', warehouse.id)
+                    .in('part_id', partIds);
+                if (stockError) throw stockError;
+                for (const row of stockRows || []) warehouseQty.set(row.part_id, row.quantity);
+            }
+
             const inventoryMap: Record<string, InventoryMeta> = {};
             for (const row of data || []) {
                 inventoryMap[row.id] = {
                     part_name: row.part_name,
-                    total_stock: row.total_stock,
+                    total_stock: warehouse ? warehouseQty.get(row.id) || 0 : row.total_stock,
                 };
             }
             setAdjustInventory(inventoryMap);
@@ -264,7 +373,7 @@ export default function ApprovedPage() {
         } finally {
             setAdjustLoading(false);
         }
-    }, [deliveringId, getAdjustmentsForRequest]);
+    }, [deliveringId, getAdjustmentsForRequest, getRequestWarehouse]);
 
     const updateAdjustQty = (partId: string, delta: number) => {
         setAdjustingItems((prev) => prev.map((item) => {
@@ -281,7 +390,7 @@ export default function ApprovedPage() {
     const saveAdjustments = () => {
         if (!adjustingRequest) return;
 
-        const normalized = buildAdjustments((adjustingRequest.items as RequestItem[]) || [], adjustingItems);
+        const normalized = buildAdjustments(getOutstandingItems(adjustingRequest), adjustingItems);
         if (normalized.length === 0) {
             setError('Tidak ada item untuk disimpan.');
             return;
@@ -302,153 +411,122 @@ export default function ApprovedPage() {
         closeAdjustModal();
     };
 
-    const markDelivered = async (request: MonthlyRequest & { engineer?: Profile }) => {
-        const id = request.id;
-        if (!user?.id || deliveringId) return;
-        setDeliveringId(id);
+    const closeSerialModal = () => {
+        setSerialRequest(null);
+        setSerialPickItems([]);
+        setSerialPicks({});
+    };
 
-        const decrementedRows: { partId: string; previousQty: number; nextQty: number }[] = [];
-        const rollbackInventory = async () => {
-            let rollbackFailed = false;
-            for (const row of decrementedRows) {
-                const { data: rollbackRow, error: rollbackError } = await supabase
-                    .from('inventory')
-                    .update({
-                        total_stock: row.previousQty,
-                        last_updated: new Date().toISOString(),
-                    })
-                    .eq('id', row.partId)
-                    .eq('total_stock', row.nextQty)
-                    .select('id')
-                    .maybeSingle();
-
-                if (rollbackError || !rollbackRow) rollbackFailed = true;
+    const toggleSerialPick = (item: SerialPickItem, serialNumber: string) => {
+        setSerialPicks((prev) => {
+            const current = prev[item.partId] || [];
+            if (current.includes(serialNumber)) {
+                return { ...prev, [item.partId]: current.filter((value) => value !== serialNumber) };
             }
+            if (current.length >= item.deliverQty) return prev;
+            return { ...prev, [item.partId]: [...current, serialNumber] };
+        });
+    };
 
-            if (!rollbackFailed) {
-                decrementedRows.length = 0;
-            }
-            return !rollbackFailed;
-        };
+    const markDelivered = async (request: MonthlyRequest & { engineer?: Profile }) => {
+        if (!user?.id || deliveringId) return;
 
-        try {
-            const { data: requestRow, error: requestError } = await supabase
-                .from('monthly_requests')
-                .select('id, status, items')
-                .eq('id', id)
-                .eq('status', 'approved')
-                .maybeSingle();
-
-            if (requestError) throw requestError;
-            if (!requestRow) {
-                throw new Error('Request tidak ditemukan atau sudah diproses.');
-            }
+        const deliveredItems = toDeliveredItems(getAdjustmentsForRequest(request));
+        if (deliveredItems.length === 0) {
+            setError('Semua qty kirim bernilai 0. Ubah penyesuaian item terlebih dulu.');
+            return;
+        }
 
-            const plannedAdjustments = buildAdjustments(
-                (requestRow.items as RequestItem[]) || [],
-                adjustmentsByRequest[id],
-            );
-            const deliveredItems = toDeliveredItems(plannedAdjustments);
-            const isAdjustedDelivery = hasAdjustedQty(plannedAdjustments);
+        setDeliveringId(request.id);
+        let pickItems: SerialPickItem[];
+        try {
+            pickItems = await fetchSerialPickItems(deliveredItems, getRequestWarehouse(request)?.id);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memuat serial number.';
+            setError(message);
+            setDeliveringId(null);
+            return;
+        }
 
-            const qtyByPart = aggregateRequestItems(deliveredItems);
-            const partIds = Array.from(qtyByPart.keys());
-            if (partIds.length === 0) {
-                throw new Error('Semua qty kirim bernilai 0. Ubah penyesuaian item terlebih dulu.');
+        if (pickItems.length > 0) {
+            // Oldest serials first; the admin swaps them for the units actually packed.
+            const defaults: Record<string, string[]> = {};
+            for (const item of pickItems) {
+                defaults[item.partId] = item.options.slice(0, item.deliverQty).map((serial) => serial.serial_number);
             }
+            setSerialRequest(request);
+            setSerialPickItems(pickItems);
+            setSerialPicks(defaults);
+            setDeliveringId(null);
+            return;
+        }
 
-            const { data: inventoryRows, error: inventoryError } = await supabase
-                .from('inventory')
-                .select('id, part_name, total_stock')
-                .in('id', partIds);
+        await deliverRequest(request);
+    };
 
-            if (inventoryError) throw inventoryError;
+    const confirmSerialDelivery = async () => {
+        if (!serialRequest) return;
+        const incomplete = serialPickItems.find((item) => (serialPicks[item.partId] || []).length !== item.deliverQty);
+        if (incomplete) {
+            setError(`Pilih ${incomplete.deliverQty} serial untuk ${incomplete.partName}.`);
+            return;
+        }
 
-            const inventoryMap = new Map<string, InventoryMeta>();
-            for (const row of inventoryRows || []) {
-                inventoryMap.set(row.id, {
-                    part_name: row.part_name,
-                    total_stock: row.total_stock,
-                });
-            }
+        const request = serialRequest;
+        const picks = serialPicks;
+        closeSerialModal();
+        await deliverRequest(request, picks);
+    };
 
-            const missingPartId = partIds.find((partId) => !inventoryMap.has(partId));
-            if (missingPartId) {
-                throw new Error(`Part ${missingPartId} tidak ditemukan di inventory admin.`);
-            }
+    const deliverRequest = async (
+        request: MonthlyRequest & { engineer?: Profile },
+        picks?: Record<string, string[]>,
+    ) => {
+        const id = request.id;
+        const warehouse = getRequestWarehouse(request);
+        setDeliveringId(id);
 
-            const insufficientRows = partIds
-                .map((partId) => {
-                    const available = inventoryMap.get(partId)?.total_stock || 0;
-                    const required = qtyByPart.get(partId) || 0;
-                    return { partId, required, available, partName: inventoryMap.get(partId)?.part_name || partId };
-                })
-                .filter((row) => row.required > row.available);
-
-            if (insufficientRows.length > 0) {
-                const detail = insufficientRows
-                    .map((row) => `${row.partName} (butuh ${row.required}, stok ${row.available})`)
-                    .join(', ');
-                throw new Error(`Stok inventory admin tidak cukup: ${detail}`);
+        try {
+            const plannedAdjustments = getAdjustmentsForRequest(request);
+            const deliveredItems = toDeliveredItems(plannedAdjustments);
+            if (deliveredItems.length === 0) {
+                throw new Error('Semua qty kirim bernilai 0. Ubah penyesuaian item terlebih dulu.');
             }
 
-            for (const partId of partIds) {
-                const partMeta = inventoryMap.get(partId)!;
-                const requiredQty = qtyByPart.get(partId)!;
-                const previousQty = partMeta.total_stock;
-                const nextQty = previousQty - requiredQty;
-
-                const { data: updatedInventoryRow, error: updateInventoryError } = await supabase
-                    .from('inventory')
-                    .update({
-                        total_stock: nextQty,
-                        last_updated: new Date().toISOString(),
-                    })
-                    .eq('id', partId)
-                    .eq('total_stock', previousQty)
-                    .select('id')
-                    .maybeSingle();
-
-                if (updateInventoryError) throw updateInventoryError;
-                if (!updatedInventoryRow) {
-                    throw new Error('Stok inventory berubah saat proses kirim. Muat ulang lalu coba lagi.');
+            const { data, error: rpcError } = await supabase.rpc('deliver_monthly_request', {
+                p_request_id: id,
+                p_items: deliveredItems,
+                p_serials: picks
+                    ? Object.entries(picks).map(([partId, serials]) => ({ partId, serials }))
+                    : null,
+                p_warehouse_id: warehouse?.id ?? null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as DeliverRequestResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    const shortages = result.shortages || [];
+                    setShortagesByRequest((prev) => ({ ...prev, [id]: shortages }));
+                    const detail = shortages
+                        .map((row) => (row.missing
+                            ? `${row.partName} (tidak ada di inventory)`
+                            : `${row.partName} (butuh ${row.required}, stok ${row.available})`))
+                        .join(', ');
+                    throw new Error(`Stok ${formatWarehouseName(warehouse)} tidak cukup: ${detail}`);
                 }
-
-                decrementedRows.push({
-                    partId,
-                    previousQty,
-                    nextQty,
-                });
-            }
-
-            const deliveredAt = new Date().toISOString();
-            const updatePayload: Record<string, any> = {
-                status: 'delivered',
-                delivered_by: user.id,
-                delivered_at: deliveredAt,
-                items: deliveredItems,
-            };
-
-            if (isAdjustedDelivery) {
-                updatePayload.last_edited_by = user.id;
-                updatePayload.last_edited_at = deliveredAt;
-            }
-
-            const { data: deliveredRow, error: deliveryError } = await supabase
-                .from('monthly_requests')
-                .update(updatePayload)
-                .eq('id', id)
-                .eq('status', 'approved')
-                .select('id, status, delivered_at')
-                .maybeSingle();
-
-            if (deliveryError) throw deliveryError;
-            if (!deliveredRow || deliveredRow.status !== 'delivered') {
-                const rollbackSuccess = await rollbackInventory();
-                if (!rollbackSuccess) {
-                    throw new Error('Pengiriman gagal dan rollback stok tidak lengkap. Cek inventory admin.');
+                if (result?.code === 'warehouse_not_found') {
+                    await warehousesQuery.refetch();
+                    throw new Error('Gudang pengirim tidak ditemukan atau sudah nonaktif. Pilih gudang lain.');
+                }
+                if (result?.code === 'empty_delivery') {
+                    throw new Error('Semua qty kirim bernilai 0. Ubah penyesuaian item terlebih dulu.');
+                }
+                if (result?.code === 'serials_required') {
+                    throw new Error(`Serial number tidak sesuai stok gudang: ${formatSerialIssues(result.serial_issues)}. Muat ulang lalu pilih lagi.`);
                 }
-                throw new Error('Pengiriman gagal disimpan. Stok inventory sudah dikembalikan.');
+                await approvedQuery.refetch();
+                throw new Error('Request tidak ditemukan atau sudah diproses.');
             }
 
             setAdjustmentsByRequest((prev) => {
@@ -457,27 +535,35 @@ export default function ApprovedPage() {
                 delete next[id];
                 return next;
             });
+            setShortagesByRequest((prev) => {
+                if (!prev[id]) return prev;
+                const next = { ...prev };
+                delete next[id];
+                return next;
+            });
+
+            const backorderQty = (result.backorder_items || []).reduce((sum, item) => sum + toSafeQty(item.quantity), 0);
 
             // Notify Engineer
             if (request.engineer_id) {
+                const body = result.is_backorder
+                    ? 'Admin telah mengirim sisa backorder request Anda. Konfirmasi jika part sudah diterima.'
+                    : backorderQty > 0
+                        ? `Admin telah mengirim sebagian request Anda. Sisa ${backorderQty} pcs akan dikirim menyusul.`
+                        : 'Admin telah mengirim request Anda. Konfirmasi jika part sudah diterima.';
                 void NotificationService.sendToUser(
                     request.engineer_id,
-                    'Barang Dikirim',
-                    'Admin telah mengirim request Anda. Konfirmasi jika part sudah diterima.',
+                    result.is_backorder ? 'Backorder Dikirim' : 'Barang Dikirim',
+                    body,
                     { request_id: id, status: 'delivered', type: 'request_progress' },
                 ).catch((e) => console.error('[approved.markDelivered] Notification error:', e));
             }
 
-            setSuccess('Pengiriman berhasil. Inventory admin diperbarui.');
+            setSuccess(backorderQty > 0
+                ? `Pengiriman sebagian berhasil. Sisa ${backorderQty} pcs masuk backorder.`
+                : 'Pengiriman berhasil. Inventory admin diperbarui.');
             await approvedQuery.refetch();
         } catch (err) {
-            if (decrementedRows.length > 0) {
-                const rollbackSuccess = await rollbackInventory();
-                if (!rollbackSuccess) {
-                    setError('Pengiriman gagal dan rollback stok tidak lengkap. Cek inventory admin.');
-                    return;
-                }
-            }
             const message = err instanceof Error ? err.message : 'Gagal memproses pengiriman.';
             setError(message);
         } finally {
@@ -485,16 +571,75 @@ export default function ApprovedPage() {
         }
     };
 
+    const closeBackorder = async (request: MonthlyRequest & { engineer?: Profile }) => {
+        const id = request.id;
+        if (closingBackorderId || deliveringId) return;
+        setClosingBackorderId(id);
+
+        try {
+            const { data, error: rpcError } = await supabase.rpc('close_monthly_request_backorder', {
+                p_request_id: id,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CloseBackorderResult | null;
+            if (!result?.ok) {
+                await approvedQuery.refetch();
+                throw new Error('Backorder sudah tidak ada.');
+            }
+
+            setAdjustmentsByRequest((prev) => {
+                if (!prev[id]) return prev;
+                const next = { ...prev };
+                delete next[id];
+                return next;
+            });
+
+            if (request.engineer_id) {
+                void NotificationService.sendToUser(
+                    request.engineer_id,
+                    'Backorder Ditutup',
+                    'Sisa item request Anda tidak akan dikirim. Hubungi admin jika masih dibutuhkan.',
+                    { request_id: id, status: request.status, type: 'request_progress' },
+                ).catch((e) => console.error('[approved.closeBackorder] Notification error:', e));
+            }
+
+            setSuccess('Backorder ditutup.');
+            await approvedQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menutup backorder.';
+            setError(message);
+        } finally {
+            setClosingBackorderId(null);
+        }
+    };
+
     const modalTotalRequested = adjustingItems.reduce((sum, item) => sum + item.requestedQty, 0);
     const modalTotalDeliver = adjustingItems.reduce((sum, item) => sum + item.deliverQty, 0);
     const modalIsAdjusted = hasAdjustedQty(adjustingItems);
 
+    const pickRequestWarehouse = (requestId: string, warehouseId: string) => {
+        setWarehouseByRequest((prev) => ({ ...prev, [requestId]: warehouseId }));
+        setShortagesByRequest((prev) => {
+            if (!prev[requestId]) return prev;
+            const next = { ...prev };
+            delete next[requestId];
+            return next;
+        });
+    };
+
     const renderRequestCard = (r: MonthlyRequest & { engineer?: Profile }, area: string) => {
         const requestAdjustments = getAdjustmentsForRequest(r);
         const deliverItems = requestAdjustments.filter((item) => item.deliverQty > 0);
         const isAdjusted = hasAdjustedQty(requestAdjustments);
         const totalRequested = requestAdjustments.reduce((sum, item) => sum + item.requestedQty, 0);
         const totalDeliver = requestAdjustments.reduce((sum, item) => sum + item.deliverQty, 0);
+        const shortages = shortagesByRequest[r.id] || [];
+        const isBackorder = isBackorderRequest(r);
+        const deliveredSoFar = ((r.delivered_items as RequestItem[]) || []).reduce((sum, item) => sum + toSafeQty(item.quantity), 0);
+        const warehouse = getRequestWarehouse(r);
+        const isHistoryOpen = historyRequestId === r.id;
+        const isThreadOpen = threadRequestId === r.id;
 
         return (
             <View key={r.id} style={[adminStyles.card, styles.reqCard, isWide ? styles.reqCardWide : styles.reqCardFull]}>
@@ -507,10 +652,15 @@ export default function ApprovedPage() {
                             <Text style={styles.name}>{r.engineer?.name || 'Unknown'}</Text>
                             <Text style={styles.date}>{new Date(r.submitted_at).toLocaleDateString()} | {r.month}</Text>
                             <Text style={styles.areaInfo}>Area Group: {area}</Text>
+                            <Text style={styles.areaInfo}>Gudang: {formatWarehouseName(warehouse)}</Text>
                         </View>
                     </View>
                     <View style={styles.headerChips}>
-                        <Chip style={styles.statusChip} textStyle={styles.statusText} icon="check-circle">Approved</Chip>
+                        {isBackorder ? (
+                            <Chip style={styles.backorderChip} textStyle={styles.backorderText} icon="timer-sand">Backorder</Chip>
+                        ) : (
+                            <Chip style={styles.statusChip} textStyle={styles.statusText} icon="check-circle">Approved</Chip>
+                        )}
                         {isAdjusted && <Chip style={styles.adjustedChip} textStyle={styles.adjustedText} icon="tune">Adjusted</Chip>}
                     </View>
                 </View>
@@ -518,7 +668,14 @@ export default function ApprovedPage() {
                 <View style={styles.divider} />
 
                 <View style={styles.itemsContainer}>
-                    <Text style={styles.sectionLabel}>Items to Deliver ({totalDeliver}/{totalRequested} pcs):</Text>
+                    {isBackorder && (
+                        <Text style={styles.backorderInfo}>
+                            Sudah dikirim {deliveredSoFar} pcs{r.delivered_at ? ` (terakhir ${new Date(r.delivered_at).toLocaleDateString()})` : ''}. Sisa di bawah adalah backorder.
+                        </Text>
+                    )}
+                    <Text style={styles.sectionLabel}>
+                        {isBackorder ? 'Backorder to Deliver' : 'Items to Deliver'} ({totalDeliver}/{totalRequested} pcs):
+                    </Text>
                     {deliverItems.length === 0 ? (
                         <Text style={styles.emptyDeliverText}>Belum ada item untuk dikirim. Ubah qty kirim dulu.</Text>
                     ) : (
@@ -545,10 +702,65 @@ export default function ApprovedPage() {
                             ))}
                         </View>
                     )}
+                    {warehouses.length > 1 && (
+                        <View style={styles.serialChipWrap}>
+                            {warehouses.map((option) => {
+                                const selected = warehouse?.id === option.id;
+                                return (
+                                    <Chip
+                                        key={option.id}
+                                        compact
+                                        mode={selected ? 'flat' : 'outlined'}
+                                        selected={selected}
+                                        onPress={() => pickRequestWarehouse(r.id, option.id)}
+                                        disabled={deliveringId !== null}
+                                    >
+                                        {option.code}
+                                    </Chip>
+                                );
+                            })}
+                        </View>
+                    )}
+                    {shortages.length > 0 && (
+                        <View style={styles.shortageBox}>
+                            <Text style={styles.shortageTitle}>Stok {warehouse?.code || 'gudang'} tidak cukup:</Text>
+                            {shortages.map((row) => (
+                                <Text key={row.partId} style={styles.shortageText}>
+                                    {row.partName}: {row.missing ? 'tidak ada di inventory' : `butuh ${row.required}, stok ${row.available}`}
+                                </Text>
+                            ))}
+                        </View>
+                    )}
+                    <Pressable style={styles.historyToggle} onPress={() => setHistoryRequestId(isHistoryOpen ? null : r.id)}>
+                        <MaterialCommunityIcons name="timeline-clock-outline" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.historyToggleText}>Riwayat Status</Text>
+                        <MaterialCommunityIcons name={isHistoryOpen ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+                    </Pressable>
+                    {isHistoryOpen && <RequestStatusTimeline requestId={r.id} />}
+                    <Pressable style={styles.historyToggle} onPress={() => setThreadRequestId(isThreadOpen ? null : r.id)}>
+                        <MaterialCommunityIcons name="comment-text-multiple-outline" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.historyToggleText}>Diskusi dengan Engineer</Text>
+                        <MaterialCommunityIcons name={isThreadOpen ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+                    </Pressable>
+                    {isThreadOpen && <RequestCommentThread requestId={r.id} />}
                 </View>
 
                 <View style={adminStyles.cardFooter}>
                     <View style={styles.footerActions}>
+                        {isBackorder && (
+                            <Button
+                                mode="outlined"
+                                onPress={() => closeBackorder(r)}
+                                style={styles.closeBackorderBtn}
+                                contentStyle={{ height: 44 }}
+                                labelStyle={styles.closeBackorderLabel}
+                                icon="close-circle-outline"
+                                loading={closingBackorderId === r.id}
+                                disabled={deliveringId !== null || closingBackorderId !== null}
+                            >
+                                Tutup
+                            </Button>
+                        )}
                         <Button
                             mode="outlined"
                             onPress={() => openAdjustModal(r)}
@@ -570,7 +782,7 @@ export default function ApprovedPage() {
                             loading={deliveringId === r.id}
                             disabled={deliveringId !== null || deliverItems.length === 0}
                         >
-                            {deliveringId === r.id ? 'Mengirim...' : 'Mark as Delivered'}
+                            {deliveringId === r.id ? 'Mengirim...' : (isBackorder ? 'Kirim Backorder' : 'Mark as Delivered')}
                         </Button>
                     </View>
                 </View>
@@ -583,7 +795,7 @@ export default function ApprovedPage() {
             <View style={adminStyles.header}>
                 <View>
                     <Text style={adminStyles.headerTitle}>Approved Requests</Text>
-                    <Text style={adminStyles.headerSub}>Ready for delivery fulfillment</Text>
+                    <Text style={adminStyles.headerSub}>Ready for delivery fulfillment and open backorders</Text>
                 </View>
                 <View style={styles.countBadge}>
                     <Text style={styles.countText}>{requests.length}</Text>
@@ -659,7 +871,7 @@ export default function ApprovedPage() {
 
                         <Text style={styles.modalHint}>Set qty kirim per item (0 sampai qty request).</Text>
                         {adjustLoading && (
-                            <Text style={styles.modalLoading}>Memuat stok inventory...</Text>
+                            <Text style={styles.modalLoading}>Memuat stok gudang...</Text>
                         )}
 
                         <ScrollView style={styles.modalList} indicatorStyle="black" contentContainerStyle={styles.modalListContent}>
@@ -718,6 +930,83 @@ export default function ApprovedPage() {
                 </Pressable>
             </Modal>
 
+            <Modal
+                visible={!!serialRequest}
+                transparent
+                animationType="fade"
+                onRequestClose={closeSerialModal}
+            >
+                <Pressable style={styles.modalOverlay} onPress={closeSerialModal}>
+                    <Pressable style={styles.modalCard} onPress={(event) => event.stopPropagation()}>
+                        <View style={styles.modalHeader}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.modalTitle}>Pilih Serial Number</Text>
+                                <Text style={styles.modalSub}>
+                                    {(serialRequest?.engineer?.name || 'Engineer')} | {serialRequest?.month || '-'}
+                                </Text>
+                            </View>
+                            <Pressable style={styles.modalCloseBtn} onPress={closeSerialModal}>
+                                <MaterialCommunityIcons name="close" size={20} color={Colors.textSecondary} />
+                            </Pressable>
+                        </View>
+
+                        <Text style={styles.modalHint}>Pilih serial unit yang dikirim ke engineer untuk setiap part serialized.</Text>
+
+                        <ScrollView style={styles.modalList} indicatorStyle="black" contentContainerStyle={styles.modalListContent}>
+                            {serialPickItems.map((item) => {
+                                const picked = serialPicks[item.partId] || [];
+                                return (
+                                    <View key={item.partId} style={styles.serialPickRow}>
+                                        <Text style={styles.modalItemName}>{item.partName}</Text>
+                                        <Text style={styles.modalItemSub}>
+                                            {item.partId} | Kirim {item.deliverQty} pcs | Terpilih {picked.length}/{item.deliverQty}
+                                        </Text>
+                                        {item.options.length < item.deliverQty && (
+                                            <Text style={styles.modalWarn}>
+                                                Serial di gudang hanya {item.options.length} unit. Kurangi qty kirim atau catat serial unit lainnya.
+                                            </Text>
+                                        )}
+                                        <View style={styles.serialChipWrap}>
+                                            {item.options.map((serial) => {
+                                                const selected = picked.includes(serial.serial_number);
+                                                return (
+                                                    <Chip
+                                                        key={serial.id}
+                                                        compact
+                                                        mode={selected ? 'flat' : 'outlined'}
+                                                        selected={selected}
+                                                        onPress={() => toggleSerialPick(item, serial.serial_number)}
+                                                        disabled={!selected && picked.length >= item.deliverQty}
+                                                    >
+                                                        {serial.serial_number}
+                                                    </Chip>
+                                                );
+                                            })}
+                                        </View>
+                                    </View>
+                                );
+                            })}
+                        </ScrollView>
+
+                        <View style={styles.modalFooter}>
+                            <View style={styles.modalFooterActions}>
+                                <Button mode="text" onPress={closeSerialModal}>
+                                    Batal
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={confirmSerialDelivery}
+                                    icon="truck-delivery-outline"
+                                    disabled={serialPickItems.some((item) => (serialPicks[item.partId] || []).length !== item.deliverQty)}
+                                >
+                                    Kirim
+                                </Button>
+                            </View>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
             <AppSnackbar
                 visible={!!error}
                 onDismiss={() => setError('')}
@@ -781,6 +1070,9 @@ const styles = StyleSheet.create({
     statusText: { color: Colors.success, fontSize: 11, fontWeight: '700' },
     adjustedChip: { backgroundColor: Colors.warning + '15', height: 28 },
     adjustedText: { color: Colors.warning, fontSize: 11, fontWeight: '700' },
+    backorderChip: { backgroundColor: Colors.info + '15', height: 28 },
+    backorderText: { color: Colors.info, fontSize: 11, fontWeight: '700' },
+    backorderInfo: { fontSize: 12, color: Colors.info, marginBottom: 8 },
 
     divider: { height: 1, backgroundColor: Colors.border, marginBottom: 16 },
 
@@ -813,11 +1105,26 @@ const styles = StyleSheet.create({
         borderRadius: 6,
     },
     reqQtyText: { color: Colors.warning, fontSize: 10, fontWeight: '700' },
+    shortageBox: {
+        marginTop: 10,
+        padding: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: Colors.danger + '55',
+        backgroundColor: Colors.danger + '12',
+        gap: 2,
+    },
+    shortageTitle: { color: Colors.danger, fontSize: 12, fontWeight: '700' },
+    shortageText: { color: Colors.danger, fontSize: 12 },
+    historyToggle: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 12, paddingVertical: 4 },
+    historyToggleText: { flex: 1, fontSize: 12, fontWeight: '700', color: Colors.textSecondary },
 
     footerActions: { flexDirection: 'row', gap: 10, width: '100%' },
     adjustBtn: { borderRadius: 12, borderColor: Colors.warning + '80', backgroundColor: 'transparent', flex: 1 },
     adjustBtnLabel: { color: Colors.warning, fontWeight: '700', fontSize: 13 },
     deliverBtn: { borderRadius: 12, backgroundColor: Colors.primary, elevation: 0, flex: 1 },
+    closeBackorderBtn: { borderRadius: 12, borderColor: Colors.danger + '80', backgroundColor: 'transparent' },
+    closeBackorderLabel: { color: Colors.danger, fontWeight: '700', fontSize: 13 },
 
     modalOverlay: {
         flex: 1,
@@ -862,6 +1169,15 @@ const styles = StyleSheet.create({
         borderColor: Colors.border,
     },
     modalItemMeta: { flex: 1, gap: 2 },
+    serialPickRow: {
+        backgroundColor: Colors.surface,
+        borderRadius: 12,
+        padding: 10,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        gap: 2,
+    },
+    serialChipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 6 },
     modalItemName: { color: Colors.text, fontSize: 14, fontWeight: '700' },
     modalItemSub: { color: Colors.textSecondary, fontSize: 12 },
     modalWarn: { color: Colors.danger, fontSize: 11, fontWeight: '700', marginTop: 2 },
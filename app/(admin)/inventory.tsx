@@ -6,16 +6,63 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import AppSnackbar from '../../src/components/AppSnackbar';
 import { supabase } from '../../src/config/supabase';
-import { InventoryPart } from '../../src/types';
+import {
+    InventoryPart,
+    InventoryMovement,
+    InventoryMovementType,
+    AdjustInventoryStockResult,
+    InventoryStockAtRow,
+    PartRequestRule,
+    UserRole,
+    StockReturn,
+    ProcessStockReturnResult,
+    PurchaseOrderLine,
+    PartSupplier,
+    Supplier,
+    InventoryOutflowRow,
+    CreatePurchaseOrderResult,
+    Warehouse,
+    WarehouseStock,
+} from '../../src/types';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
 import { adminStyles } from '../../src/styles/adminStyles';
 import { useAdminUiStore, ADMIN_SIDEBAR_WIDTH, ADMIN_SIDEBAR_COLLAPSED_WIDTH } from '../../src/stores/adminUiStore';
 import { useDebounce } from '../../src/hooks/useDebounce';
+import { DEFAULT_MAX_QTY_PER_REQUEST } from '../../src/utils/partRequestRules';
+import { NotificationService } from '../../src/services/NotificationService';
+import { parseSerialInput } from '../../src/utils/partSerials';
+import {
+    OPEN_PURCHASE_ORDER_STATUSES,
+    buildOnOrderByPart,
+    getOutstandingQty,
+    isPurchaseOrderOverdue,
+} from '../../src/utils/purchaseOrders';
+import { REORDER_WINDOW_DAYS, ReorderPlan, buildReorderPlans, listPartsToReorder } from '../../src/utils/reorderPoints';
+import { ALL_WAREHOUSES, buildStockByWarehouse, formatWarehouseName, getDefaultWarehouse } from '../../src/utils/warehouses';
 
 type StockEditorMode = 'adjust' | 'add';
 type SummaryFilter = 'all' | 'low' | 'out';
 
-const EMPTY_FORM = { id: '', part_name: '', total_stock: '0', min_stock: '0' };
+const EMPTY_FORM = { id: '', part_name: '', total_stock: '0', min_stock: '0', unit_price: '', is_serialized: false };
+const MOVEMENT_HISTORY_LIMIT = 100;
+const EMPTY_RULE_FORM = { id: '', area_group: '', max_per_request: String(DEFAULT_MAX_QTY_PER_REQUEST), max_per_month: '', allowed_roles: [] as UserRole[] };
+const EMPTY_SUPPLIER_LINK_FORM = { id: '', supplier_id: '', lead_time_days: '', min_order_qty: '1', is_primary: false };
+const RULE_ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+    { value: 'engineer', label: 'Engineer' },
+    { value: 'admin', label: 'Admin' },
+];
+
+const MOVEMENT_META: Record<InventoryMovementType, { label: string; icon: string; color: string }> = {
+    receipt: { label: 'Penerimaan', icon: 'tray-arrow-down', color: Colors.primary },
+    correction: { label: 'Koreksi', icon: 'pencil-outline', color: Colors.info },
+    delivery: { label: 'Pengiriman', icon: 'truck-delivery-outline', color: Colors.accent },
+    return: { label: 'Retur', icon: 'keyboard-return', color: Colors.success },
+};
+
+const toDateInput = (date: Date) => {
+    const pad = (val: number) => String(val).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
 
 const escapeCsvValue = (value: string | number | null | undefined) => {
     const text = value == null ? '' : String(value);
@@ -25,15 +72,140 @@ const escapeCsvValue = (value: string | number | null | undefined) => {
     return text;
 };
 
+/** Downloads the CSV on web, opens the share sheet elsewhere. Returns true when downloaded. */
+const shareCsv = async (fileName: string, title: string, rows: (string | number | null | undefined)[][]) => {
+    const csvContent = '\uFEFF' + rows
+        .map((row) => row.map((cell) => escapeCsvValue(cell)).join(','))
+        .join('\n');
+
+    if (Platform.OS === 'web') {
+        const scope = globalThis as any;
+        if (!scope?.document || !scope?.URL || !scope?.Blob) {
+            throw new Error('Browser tidak mendukung proses export file.');
+        }
+
+        const blob = new scope.Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+        const url = scope.URL.createObjectURL(blob);
+        const link = scope.document.createElement('a');
+        link.setAttribute('href', url);
+        link.setAttribute('download', fileName);
+        scope.document.body?.appendChild(link);
+        link.click();
+        scope.document.body?.removeChild(link);
+        scope.URL.revokeObjectURL(url);
+        return true;
+    }
+
+    await Share.share({ title, message: csvContent });
+    return false;
+};
+
+const getFileStamp = () => {
+    const now = new Date();
+    const pad = (val: number) => String(val).padStart(2, '0');
+    return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+};
+
 const fetchInventoryParts = async (): Promise<InventoryPart[]> => {
     const { data, error } = await supabase
         .from('inventory')
-        .select('id, part_name, total_stock, min_stock, last_updated')
+        .select('id, part_name, total_stock, min_stock, unit_price, is_serialized, last_updated')
         .order('part_name');
     if (error) throw error;
     return data || [];
 };
 
+const fetchInventoryMovements = async (partId: string, warehouseId: string | null): Promise<InventoryMovement[]> => {
+    let query = supabase
+        .from('inventory_movements')
+        .select('*')
+        .eq('part_id', partId);
+    if (warehouseId) query = query.eq('warehouse_id', warehouseId);
+    const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(MOVEMENT_HISTORY_LIMIT);
+    if (error) throw error;
+    return (data || []) as InventoryMovement[];
+};
+
+const fetchWarehouses = async (): Promise<Warehouse[]> => {
+    const { data, error } = await supabase
+        .from('warehouses')
+        .select('*')
+        .eq('is_active', true)
+        .order('is_default', { ascending: false })
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Warehouse[];
+};
+
+const fetchWarehouseStock = async (): Promise<WarehouseStock[]> => {
+    const { data, error } = await supabase
+        .from('warehouse_stock')
+        .select('*');
+    if (error) throw error;
+    return (data || []) as WarehouseStock[];
+};
+
+const fetchPartRequestRules = async (): Promise<PartRequestRule[]> => {
+    const { data, error } = await supabase
+        .from('part_request_rules')
+        .select('*')
+        .order('part_id')
+        .order('area_group', { ascending: true, nullsFirst: true });
+    if (error) throw error;
+    return (data || []) as PartRequestRule[];
+};
+
+const fetchPendingReturns = async (): Promise<StockReturn[]> => {
+    const { data, error } = await supabase
+        .from('stock_returns')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as StockReturn[];
+};
+
+const fetchOpenPurchaseOrderLines = async (): Promise<PurchaseOrderLine[]> => {
+    const { data, error } = await supabase
+        .from('purchase_order_lines')
+        .select('*, purchase_order:purchase_orders!inner(id, po_number, supplier_name, expected_date, status)')
+        .in('purchase_order.status', OPEN_PURCHASE_ORDER_STATUSES);
+    if (error) throw error;
+    return (data || []) as PurchaseOrderLine[];
+};
+
+const fetchPartSuppliers = async (): Promise<PartSupplier[]> => {
+    const { data, error } = await supabase
+        .from('part_suppliers')
+        .select('*, supplier:suppliers(id, name, lead_time_days, is_active)')
+        .order('part_id');
+    if (error) throw error;
+    return (data || []) as PartSupplier[];
+};
+
+const fetchSupplierOptions = async (): Promise<Supplier[]> => {
+    const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Supplier[];
+};
+
+const fetchInventoryOutflow = async (): Promise<InventoryOutflowRow[]> => {
+    const { data, error } = await supabase.rpc('inventory_outflow_summary', { p_days: REORDER_WINDOW_DAYS });
+    if (error) throw error;
+    return (data || []) as InventoryOutflowRow[];
+};
+
+const formatReturnItems = (items: StockReturn['items']) =>
+    (items || []).map((item) => (
+        `${item.partName || item.partId} x${item.quantity}${item.serials?.length ? ` (SN: ${item.serials.join(', ')})` : ''}`
+    )).join(', ');
+
 export default function InventoryPage() {
     const { width } = useWindowDimensions();
     const [search, setSearch] = useState('');
@@ -46,9 +218,35 @@ export default function InventoryPage() {
     const [stockEditorPart, setStockEditorPart] = useState<InventoryPart | null>(null);
     const [stockEditorMode, setStockEditorMode] = useState<StockEditorMode>('adjust');
     const [stockValue, setStockValue] = useState('');
+    const [stockNote, setStockNote] = useState('');
+    const [stockSerials, setStockSerials] = useState('');
     const [savingStock, setSavingStock] = useState(false);
     const [exportingCsv, setExportingCsv] = useState(false);
     const [summaryFilter, setSummaryFilter] = useState<SummaryFilter>('all');
+    const [warehouseFilter, setWarehouseFilter] = useState<string>(ALL_WAREHOUSES);
+    const [stockWarehouseId, setStockWarehouseId] = useState('');
+
+    const [historyPart, setHistoryPart] = useState<InventoryPart | null>(null);
+    const [stockAtDate, setStockAtDate] = useState('');
+    const [stockAtResult, setStockAtResult] = useState<{ date: string; quantity: number } | null>(null);
+    const [loadingStockAt, setLoadingStockAt] = useState(false);
+
+    const [rulesPart, setRulesPart] = useState<InventoryPart | null>(null);
+    const [ruleForm, setRuleForm] = useState(EMPTY_RULE_FORM);
+    const [savingRule, setSavingRule] = useState(false);
+
+    const [showReorder, setShowReorder] = useState(false);
+    const [reorderSelection, setReorderSelection] = useState<Record<string, string>>({});
+    const [creatingReorderPo, setCreatingReorderPo] = useState(false);
+    const [exportingReorder, setExportingReorder] = useState(false);
+
+    const [supplierLinkPart, setSupplierLinkPart] = useState<InventoryPart | null>(null);
+    const [supplierLinkForm, setSupplierLinkForm] = useState(EMPTY_SUPPLIER_LINK_FORM);
+    const [savingSupplierLink, setSavingSupplierLink] = useState(false);
+
+    const [rejectReturn, setRejectReturn] = useState<StockReturn | null>(null);
+    const [rejectReturnNote, setRejectReturnNote] = useState('');
+    const [processingReturnId, setProcessingReturnId] = useState<string | null>(null);
 
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
@@ -64,13 +262,143 @@ export default function InventoryPage() {
         queryKey: ['admin', 'inventory'],
         queryFn: fetchInventoryParts,
     });
-    const parts = inventoryQuery.data || [];
+    const allParts = inventoryQuery.data || [];
+    const warehousesQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'warehouses'],
+        queryFn: fetchWarehouses,
+    });
+    const warehouses = warehousesQuery.data || [];
+    const warehouseStockQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'warehouse-stock'],
+        queryFn: fetchWarehouseStock,
+    });
+    const stockByWarehouse = useMemo(
+        () => buildStockByWarehouse(warehouseStockQuery.data || []),
+        [warehouseStockQuery.data]
+    );
+    const selectedWarehouse = warehouses.find((warehouse) => warehouse.id === warehouseFilter) || null;
+    const getWarehouseQty = useCallback(
+        (warehouseId: string, partId: string) => stockByWarehouse.get(warehouseId)?.get(partId) || 0,
+        [stockByWarehouse]
+    );
+    // With a warehouse picked, the list shows that warehouse's stock as total_stock.
+    const parts = useMemo(
+        () => (selectedWarehouse
+            ? allParts.map((part) => ({ ...part, total_stock: getWarehouseQty(selectedWarehouse.id, part.id) }))
+            : allParts),
+        [allParts, selectedWarehouse, getWarehouseQty]
+    );
+    const movementsQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'movements', historyPart?.id, selectedWarehouse?.id ?? ALL_WAREHOUSES],
+        queryFn: () => fetchInventoryMovements(historyPart!.id, selectedWarehouse?.id ?? null),
+        enabled: !!historyPart,
+    });
+    const movements = movementsQuery.data || [];
+    const rulesQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'request-rules'],
+        queryFn: fetchPartRequestRules,
+    });
+    const rulesByPart = useMemo(() => {
+        const map = new Map<string, PartRequestRule[]>();
+        for (const rule of rulesQuery.data || []) {
+            map.set(rule.part_id, [...(map.get(rule.part_id) || []), rule]);
+        }
+        return map;
+    }, [rulesQuery.data]);
+    const partRules = rulesPart ? rulesByPart.get(rulesPart.id) || [] : [];
+    const returnsQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'returns'],
+        queryFn: fetchPendingReturns,
+    });
+    const pendingReturns = returnsQuery.data || [];
+    const openOrderLinesQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'open-po-lines'],
+        queryFn: fetchOpenPurchaseOrderLines,
+    });
+    const onOrderByPart = useMemo(
+        () => buildOnOrderByPart(openOrderLinesQuery.data || []),
+        [openOrderLinesQuery.data]
+    );
+    const historyOrderLines = useMemo(
+        () => (historyPart
+            ? (openOrderLinesQuery.data || []).filter((line) => line.part_id === historyPart.id && getOutstandingQty(line) > 0)
+            : []),
+        [openOrderLinesQuery.data, historyPart]
+    );
+
+    const partSuppliersQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'part-suppliers'],
+        queryFn: fetchPartSuppliers,
+    });
+    const supplierOptionsQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'supplier-options'],
+        queryFn: fetchSupplierOptions,
+    });
+    const supplierOptions = supplierOptionsQuery.data || [];
+    const partSupplierLinks = useMemo(
+        () => (supplierLinkPart
+            ? (partSuppliersQuery.data || []).filter((link) => link.part_id === supplierLinkPart.id)
+            : []),
+        [partSuppliersQuery.data, supplierLinkPart]
+    );
+    const outflowQuery = useQuery({
+        queryKey: ['admin', 'inventory', 'outflow', REORDER_WINDOW_DAYS],
+        queryFn: fetchInventoryOutflow,
+    });
+    const reorderPlans = useMemo(
+        () => buildReorderPlans({
+            parts: allParts,
+            outflowByPart: new Map((outflowQuery.data || []).map((row) => [row.part_id, row.quantity])),
+            onOrderByPart,
+            partSuppliers: partSuppliersQuery.data || [],
+        }),
+        [allParts, outflowQuery.data, onOrderByPart, partSuppliersQuery.data]
+    );
+    const partsToReorder = useMemo(() => listPartsToReorder(reorderPlans), [reorderPlans]);
+    const selectedReorderPlans = useMemo(
+        () => partsToReorder.filter((plan) => reorderSelection[plan.partId] !== undefined),
+        [partsToReorder, reorderSelection]
+    );
 
     const sanitizeNumber = (value: string) => value.replace(/[^0-9]/g, '');
     useSupabaseRealtimeRefresh(
         ['inventory'],
         () => {
             void inventoryQuery.refetch();
+            void outflowQuery.refetch();
+            if (historyPart) void movementsQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['warehouses', 'warehouse_stock'],
+        () => {
+            void warehousesQuery.refetch();
+            void warehouseStockQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['suppliers', 'part_suppliers'],
+        () => {
+            void partSuppliersQuery.refetch();
+            void supplierOptionsQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['part_request_rules'],
+        () => {
+            void rulesQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['stock_returns'],
+        () => {
+            void returnsQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['purchase_orders', 'purchase_order_lines'],
+        () => {
+            void openOrderLinesQuery.refetch();
         },
     );
 
@@ -83,7 +411,15 @@ export default function InventoryPage() {
     const onRefresh = async () => {
         setRefreshing(true);
         try {
-            await inventoryQuery.refetch();
+            await Promise.all([
+                inventoryQuery.refetch(),
+                warehousesQuery.refetch(),
+                warehouseStockQuery.refetch(),
+                returnsQuery.refetch(),
+                openOrderLinesQuery.refetch(),
+                outflowQuery.refetch(),
+                partSuppliersQuery.refetch(),
+            ]);
         } finally {
             setRefreshing(false);
         }
@@ -143,49 +479,27 @@ export default function InventoryPage() {
 
         setExportingCsv(true);
         try {
-            const now = new Date();
-            const pad = (val: number) => String(val).padStart(2, '0');
-            const fileStamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
-            const fileName = `inventory_${fileStamp}.csv`;
+            const fileName = `inventory_${selectedWarehouse ? `${selectedWarehouse.code.toLowerCase()}_` : ''}${getFileStamp()}.csv`;
+            const warehouseLabel = selectedWarehouse ? formatWarehouseName(selectedWarehouse) : 'Semua Gudang';
 
-            const headers = ['No', 'Part ID', 'Part Name', 'Total Stock', 'Minimum Stock', 'Status', 'Last Updated'];
+            const headers = ['No', 'Warehouse', 'Part ID', 'Part Name', 'Total Stock', 'On Order', 'Minimum Stock', 'Reorder Point', 'Status', 'Last Updated'];
             const rows = filtered.map((part, index) => ([
                 index + 1,
+                warehouseLabel,
                 part.id,
                 part.part_name,
                 part.total_stock,
+                onOrderByPart.get(part.id) || 0,
                 part.min_stock,
+                reorderPlans.get(part.id)?.reorderPoint ?? '',
                 part.total_stock === 0 ? 'Out of Stock' : (part.total_stock <= part.min_stock ? 'Low Stock' : 'Tersedia'),
                 part.last_updated ? new Date(part.last_updated).toLocaleString('id-ID') : '-',
             ]));
 
-            const csvContent = '\uFEFF' + [headers, ...rows]
-                .map((row) => row.map((cell) => escapeCsvValue(cell)).join(','))
-                .join('\n');
-
-            if (Platform.OS === 'web') {
-                const scope = globalThis as any;
-                if (!scope?.document || !scope?.URL || !scope?.Blob) {
-                    throw new Error('Browser tidak mendukung proses export file.');
-                }
-
-                const blob = new scope.Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-                const url = scope.URL.createObjectURL(blob);
-                const link = scope.document.createElement('a');
-                link.setAttribute('href', url);
-                link.setAttribute('download', fileName);
-                scope.document.body?.appendChild(link);
-                link.click();
-                scope.document.body?.removeChild(link);
-                scope.URL.revokeObjectURL(url);
+            if (await shareCsv(fileName, 'Export Inventory CSV', [headers, ...rows])) {
                 setSuccess(`CSV berhasil diunduh (${filtered.length} baris).`);
                 return;
             }
-
-            await Share.share({
-                title: 'Export Inventory CSV',
-                message: csvContent,
-            });
             setSuccess(`CSV siap dibagikan (${filtered.length} baris).`);
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Gagal export CSV.';
@@ -193,7 +507,7 @@ export default function InventoryPage() {
         } finally {
             setExportingCsv(false);
         }
-    }, [exportingCsv, filtered]);
+    }, [exportingCsv, filtered, onOrderByPart, reorderPlans, selectedWarehouse]);
 
     const openAddPart = () => {
         setEditPart(null);
@@ -208,6 +522,8 @@ export default function InventoryPage() {
             part_name: part.part_name,
             total_stock: String(part.total_stock),
             min_stock: String(part.min_stock),
+            unit_price: part.unit_price != null ? String(part.unit_price) : '',
+            is_serialized: !!part.is_serialized,
         });
         setShowPartModal(true);
     };
@@ -236,18 +552,33 @@ export default function InventoryPage() {
             setError('Minimum stok wajib angka dan tidak boleh kurang dari 0.');
             return;
         }
+        const unitPrice = form.unit_price.trim() ? Number.parseInt(form.unit_price, 10) : null;
+        if (unitPrice !== null && (Number.isNaN(unitPrice) || unitPrice < 0)) {
+            setError('Harga satuan wajib angka dan tidak boleh kurang dari 0.');
+            return;
+        }
+        if (!editPart && form.is_serialized && totalStock > 0) {
+            setError('Part serialized dimulai dari stok 0. Tambahkan stok lewat Add beserta serial number-nya.');
+            return;
+        }
+        if (editPart && form.is_serialized !== !!editPart.is_serialized && editPart.total_stock > 0) {
+            setError('Status serialized hanya bisa diubah saat stok gudang part ini 0.');
+            return;
+        }
 
         const payload = {
             id,
             part_name: partName,
-            total_stock: totalStock,
             min_stock: minStock,
+            unit_price: unitPrice,
+            is_serialized: form.is_serialized,
             last_updated: new Date().toISOString(),
         };
 
+        // Stock of an existing part only changes through Add/Koreksi, which book it per warehouse.
         const { error: saveError } = editPart
             ? await supabase.from('inventory').update(payload).eq('id', editPart.id)
-            : await supabase.from('inventory').insert(payload);
+            : await supabase.from('inventory').insert({ ...payload, total_stock: totalStock });
 
         if (saveError) {
             setError(saveError.message);
@@ -260,6 +591,11 @@ export default function InventoryPage() {
     };
 
     const deletePart = async (id: string) => {
+        const stock = allParts.find((part) => part.id === id)?.total_stock ?? 0;
+        if (stock > 0) {
+            setError(`Part masih punya stok gudang (${stock} pcs). Koreksi stok ke 0 sebelum menghapus part.`);
+            return;
+        }
         const { error: deleteError } = await supabase.from('inventory').delete().eq('id', id);
         if (deleteError) {
             setError(deleteError.message);
@@ -271,22 +607,50 @@ export default function InventoryPage() {
     };
 
     const openStockEditor = (part: InventoryPart, mode: StockEditorMode) => {
+        const warehouseId = selectedWarehouse?.id || getDefaultWarehouse(warehouses)?.id || '';
         setStockEditorPart(part);
         setStockEditorMode(mode);
-        setStockValue(mode === 'add' ? '1' : String(part.total_stock));
+        setStockWarehouseId(warehouseId);
+        setStockValue(mode === 'add' ? '1' : String(getWarehouseQty(warehouseId, part.id)));
+        setStockNote('');
+        setStockSerials('');
+    };
+
+    const pickStockWarehouse = (warehouseId: string) => {
+        setStockWarehouseId(warehouseId);
+        if (stockEditorPart && stockEditorMode === 'adjust') {
+            setStockValue(String(getWarehouseQty(warehouseId, stockEditorPart.id)));
+        }
     };
 
     const closeStockEditor = () => {
         setStockEditorPart(null);
+        setStockWarehouseId('');
         setStockValue('');
+        setStockNote('');
+        setStockSerials('');
         setStockEditorMode('adjust');
         setSavingStock(false);
     };
 
+    const parsedStockValue = Number.parseInt(stockValue, 10);
+    const stockAdjustDifference = stockEditorPart && stockWarehouseId && !Number.isNaN(parsedStockValue)
+        ? parsedStockValue - getWarehouseQty(stockWarehouseId, stockEditorPart.id)
+        : 0;
+
     const saveStock = async () => {
         if (!stockEditorPart || savingStock) return;
 
-        const parsedValue = Number.parseInt(stockValue, 10);
+        // A receipt of a serialized part is counted from the serials entered, one per unit.
+        const receiptSerials = stockEditorMode === 'add' && stockEditorPart.is_serialized
+            ? parseSerialInput(stockSerials)
+            : null;
+        if (receiptSerials && receiptSerials.length === 0) {
+            setError('Isi serial number untuk setiap unit yang diterima.');
+            return;
+        }
+
+        const parsedValue = receiptSerials ? receiptSerials.length : Number.parseInt(stockValue, 10);
         if (Number.isNaN(parsedValue)) {
             setError(stockEditorMode === 'add' ? 'Jumlah tambah wajib diisi.' : 'Stok koreksi wajib diisi.');
             return;
@@ -300,34 +664,71 @@ export default function InventoryPage() {
             return;
         }
 
-        const previousStock = stockEditorPart.total_stock;
+        if (!stockWarehouseId) {
+            setError('Pilih gudang untuk perubahan stok.');
+            return;
+        }
+
+        const previousStock = getWarehouseQty(stockWarehouseId, stockEditorPart.id);
+        const warehouseName = formatWarehouseName(warehouses.find((warehouse) => warehouse.id === stockWarehouseId));
         const nextStock = stockEditorMode === 'add' ? previousStock + parsedValue : parsedValue;
 
+        // A correction of a serialized part names the units it adds or writes off in this warehouse.
+        let serials = receiptSerials;
+        if (stockEditorMode === 'adjust' && stockEditorPart.is_serialized && nextStock !== previousStock) {
+            serials = parseSerialInput(stockSerials);
+            const difference = Math.abs(nextStock - previousStock);
+            if (serials.length !== difference) {
+                setError(nextStock > previousStock
+                    ? `Isi ${difference} serial number untuk unit yang ditambahkan (sekarang ${serials.length}).`
+                    : `Isi ${difference} serial number yang dihapus dari gudang ini (sekarang ${serials.length}).`);
+                return;
+            }
+        }
+
         setSavingStock(true);
         try {
-            const nowIso = new Date().toISOString();
-            const { data: updatedRow, error: updateError } = await supabase
-                .from('inventory')
-                .update({
-                    total_stock: nextStock,
-                    last_updated: nowIso,
-                })
-                .eq('id', stockEditorPart.id)
-                .eq('total_stock', previousStock)
-                .select('id')
-                .maybeSingle();
-
-            if (updateError) throw updateError;
-            if (!updatedRow) {
-                throw new Error('Stok part berubah saat proses berlangsung. Muat ulang lalu coba lagi.');
+            const { data, error: rpcError } = await supabase.rpc('adjust_inventory_stock', {
+                p_part_id: stockEditorPart.id,
+                p_mode: stockEditorMode,
+                p_quantity: parsedValue,
+                p_expected_stock: previousStock,
+                p_note: stockNote.trim() || null,
+                p_serials: serials,
+                p_warehouse_id: stockWarehouseId,
+            });
+
+            if (rpcError) throw rpcError;
+
+            const result = data as AdjustInventoryStockResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'stale_stock') {
+                    throw new Error('Stok part berubah saat proses berlangsung. Muat ulang lalu coba lagi.');
+                }
+                if (result?.code === 'not_found') {
+                    throw new Error('Part tidak ditemukan di inventory.');
+                }
+                if (result?.code === 'warehouse_not_found') {
+                    throw new Error('Gudang tidak ditemukan atau sudah nonaktif.');
+                }
+                if (result?.code === 'serials_required') {
+                    throw new Error(`Jumlah serial (${result.provided ?? 0}) harus sama dengan jumlah unit (${result.required ?? parsedValue}).`);
+                }
+                if (result?.code === 'duplicate_serials') {
+                    throw new Error(`Serial sudah terdaftar: ${(result.serials || []).join(', ')}.`);
+                }
+                if (result?.code === 'unknown_serials') {
+                    throw new Error(`Serial tidak ada di gudang ini: ${(result.serials || []).join(', ')}.`);
+                }
+                throw new Error('Jumlah stok tidak valid.');
             }
 
             closeStockEditor();
-            await inventoryQuery.refetch();
+            await Promise.all([inventoryQuery.refetch(), warehouseStockQuery.refetch()]);
             if (stockEditorMode === 'add') {
-                setSuccess(`Stok ${stockEditorPart.part_name} ditambah ${parsedValue} pcs.`);
+                setSuccess(`Stok ${stockEditorPart.part_name} di ${warehouseName} ditambah ${parsedValue} pcs.`);
             } else {
-                setSuccess(`Stok ${stockEditorPart.part_name} dikoreksi ke ${nextStock} pcs.`);
+                setSuccess(`Stok ${stockEditorPart.part_name} di ${warehouseName} dikoreksi ke ${nextStock} pcs.`);
             }
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Gagal menyimpan perubahan stok.';
@@ -337,14 +738,420 @@ export default function InventoryPage() {
         }
     };
 
+    const openRules = (part: InventoryPart) => {
+        setRulesPart(part);
+        setRuleForm(EMPTY_RULE_FORM);
+    };
+
+    const closeRules = () => {
+        setRulesPart(null);
+        setRuleForm(EMPTY_RULE_FORM);
+        setSavingRule(false);
+    };
+
+    const editRule = (rule: PartRequestRule) => {
+        setRuleForm({
+            id: rule.id,
+            area_group: rule.area_group || '',
+            max_per_request: String(rule.max_per_request),
+            max_per_month: rule.max_per_month == null ? '' : String(rule.max_per_month),
+            allowed_roles: rule.allowed_roles || [],
+        });
+    };
+
+    const toggleRuleRole = (role: UserRole) => {
+        setRuleForm((prev) => ({
+            ...prev,
+            allowed_roles: prev.allowed_roles.includes(role)
+                ? prev.allowed_roles.filter((value) => value !== role)
+                : [...prev.allowed_roles, role],
+        }));
+    };
+
+    const saveRule = async () => {
+        if (!rulesPart || savingRule) return;
+
+        const maxPerRequest = Number.parseInt(ruleForm.max_per_request, 10);
+        const maxPerMonth = ruleForm.max_per_month ? Number.parseInt(ruleForm.max_per_month, 10) : null;
+        if (Number.isNaN(maxPerRequest) || maxPerRequest <= 0) {
+            setError('Maksimal per request wajib lebih dari 0.');
+            return;
+        }
+        if (maxPerMonth !== null && (Number.isNaN(maxPerMonth) || maxPerMonth <= 0)) {
+            setError('Maksimal per bulan wajib lebih dari 0 atau dikosongkan.');
+            return;
+        }
+        if (maxPerMonth !== null && maxPerMonth < maxPerRequest) {
+            setError('Maksimal per bulan tidak boleh lebih kecil dari maksimal per request.');
+            return;
+        }
+
+        const payload = {
+            part_id: rulesPart.id,
+            area_group: ruleForm.area_group.trim() || null,
+            max_per_request: maxPerRequest,
+            max_per_month: maxPerMonth,
+            allowed_roles: ruleForm.allowed_roles.length > 0 ? ruleForm.allowed_roles : null,
+        };
+
+        setSavingRule(true);
+        try {
+            const { error: saveError } = ruleForm.id
+                ? await supabase.from('part_request_rules').update(payload).eq('id', ruleForm.id)
+                : await supabase.from('part_request_rules').insert(payload);
+
+            if (saveError) {
+                if (saveError.code === '23505') {
+                    throw new Error('Aturan untuk area ini sudah ada. Ubah aturan yang ada.');
+                }
+                throw saveError;
+            }
+
+            setRuleForm(EMPTY_RULE_FORM);
+            setSuccess(`Kuota request ${rulesPart.part_name} disimpan.`);
+            await rulesQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan kuota request.';
+            setError(message);
+        } finally {
+            setSavingRule(false);
+        }
+    };
+
+    const deleteRule = async (rule: PartRequestRule) => {
+        const { error: deleteError } = await supabase.from('part_request_rules').delete().eq('id', rule.id);
+        if (deleteError) {
+            setError(deleteError.message);
+            return;
+        }
+        if (ruleForm.id === rule.id) setRuleForm(EMPTY_RULE_FORM);
+        setSuccess('Aturan kuota dihapus.');
+        await rulesQuery.refetch();
+    };
+
+    const openSupplierLinks = (part: InventoryPart) => {
+        setSupplierLinkPart(part);
+        setSupplierLinkForm(EMPTY_SUPPLIER_LINK_FORM);
+    };
+
+    const closeSupplierLinks = () => {
+        setSupplierLinkPart(null);
+        setSupplierLinkForm(EMPTY_SUPPLIER_LINK_FORM);
+        setSavingSupplierLink(false);
+    };
+
+    const editSupplierLink = (link: PartSupplier) => {
+        setSupplierLinkForm({
+            id: link.id,
+            supplier_id: link.supplier_id,
+            lead_time_days: link.lead_time_days == null ? '' : String(link.lead_time_days),
+            min_order_qty: String(link.min_order_qty),
+            is_primary: link.is_primary,
+        });
+    };
+
+    const saveSupplierLink = async () => {
+        if (!supplierLinkPart || savingSupplierLink) return;
+
+        if (!supplierLinkForm.supplier_id) {
+            setError('Pilih supplier terlebih dahulu.');
+            return;
+        }
+        const minOrderQty = Number.parseInt(supplierLinkForm.min_order_qty, 10);
+        if (Number.isNaN(minOrderQty) || minOrderQty <= 0) {
+            setError('Minimum order wajib lebih dari 0.');
+            return;
+        }
+
+        const payload = {
+            part_id: supplierLinkPart.id,
+            supplier_id: supplierLinkForm.supplier_id,
+            lead_time_days: supplierLinkForm.lead_time_days ? Number.parseInt(supplierLinkForm.lead_time_days, 10) : null,
+            min_order_qty: minOrderQty,
+            // The first supplier of a part becomes its primary.
+            is_primary: supplierLinkForm.is_primary || partSupplierLinks.length === 0,
+        };
+
+        setSavingSupplierLink(true);
+        try {
+            const { error: saveError } = supplierLinkForm.id
+                ? await supabase.from('part_suppliers').update(payload).eq('id', supplierLinkForm.id)
+                : await supabase.from('part_suppliers').insert(payload);
+
+            if (saveError) {
+                if (saveError.code === '23505') {
+                    throw new Error('Supplier ini sudah terhubung ke part. Ubah data yang ada.');
+                }
+                throw saveError;
+            }
+
+            setSupplierLinkForm(EMPTY_SUPPLIER_LINK_FORM);
+            setSuccess(`Supplier ${supplierLinkPart.part_name} disimpan.`);
+            await partSuppliersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan supplier part.';
+            setError(message);
+        } finally {
+            setSavingSupplierLink(false);
+        }
+    };
+
+    const deleteSupplierLink = async (link: PartSupplier) => {
+        const { error: deleteError } = await supabase.from('part_suppliers').delete().eq('id', link.id);
+        if (deleteError) {
+            setError(deleteError.message);
+            return;
+        }
+        if (supplierLinkForm.id === link.id) setSupplierLinkForm(EMPTY_SUPPLIER_LINK_FORM);
+        setSuccess('Supplier dilepas dari part.');
+        await partSuppliersQuery.refetch();
+    };
+
+    const openReorder = () => {
+        setReorderSelection(Object.fromEntries(partsToReorder.map((plan) => [plan.partId, String(plan.reorderQty)])));
+        setShowReorder(true);
+    };
+
+    const closeReorder = () => {
+        setShowReorder(false);
+        setReorderSelection({});
+        setCreatingReorderPo(false);
+    };
+
+    const toggleReorderPart = (plan: ReorderPlan) => {
+        setReorderSelection((prev) => {
+            if (prev[plan.partId] === undefined) return { ...prev, [plan.partId]: String(plan.reorderQty) };
+            const next = { ...prev };
+            delete next[plan.partId];
+            return next;
+        });
+    };
+
+    const exportReorderCsv = async () => {
+        if (partsToReorder.length === 0 || exportingReorder) return;
+
+        setExportingReorder(true);
+        try {
+            const headers = ['No', 'Part ID', 'Part Name', 'Stock', 'On Order', 'Reorder Point', 'Reorder Qty', 'Lead Time (hari)', 'Outflow / hari', 'Supplier'];
+            const rows = partsToReorder.map((plan, index) => ([
+                index + 1,
+                plan.partId,
+                plan.partName,
+                plan.stock,
+                plan.onOrder,
+                plan.reorderPoint,
+                reorderSelection[plan.partId] ?? plan.reorderQty,
+                plan.leadTimeDays,
+                plan.avgDailyOutflow.toFixed(2),
+                plan.supplierName || '-',
+            ]));
+
+            if (await shareCsv(`reorder_${getFileStamp()}.csv`, 'Export Reorder CSV', [headers, ...rows])) {
+                setSuccess(`CSV reorder berhasil diunduh (${rows.length} baris).`);
+                return;
+            }
+            setSuccess(`CSV reorder siap dibagikan (${rows.length} baris).`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal export CSV.';
+            setError(message);
+        } finally {
+            setExportingReorder(false);
+        }
+    };
+
+    // One purchase order per supplier; parts without a supplier stay on the list.
+    const createReorderPurchaseOrders = async () => {
+        if (creatingReorderPo) return;
+
+        const groups = new Map<string, { supplierName: string; leadTimeDays: number; items: { partId: string; quantity: number }[] }>();
+        let withoutSupplier = 0;
+        for (const plan of selectedReorderPlans) {
+            const quantity = Number.parseInt(reorderSelection[plan.partId] || '', 10) || 0;
+            if (quantity <= 0) continue;
+            if (!plan.supplierId) {
+                withoutSupplier += 1;
+                continue;
+            }
+            const group = groups.get(plan.supplierId) || { supplierName: plan.supplierName || '', leadTimeDays: 0, items: [] };
+            group.leadTimeDays = Math.max(group.leadTimeDays, plan.leadTimeDays);
+            group.items.push({ partId: plan.partId, quantity });
+            groups.set(plan.supplierId, group);
+        }
+        if (groups.size === 0) {
+            setError(withoutSupplier > 0
+                ? 'Part yang dipilih belum punya supplier. Atur supplier dari tombol Supplier di kartu part.'
+                : 'Pilih minimal 1 part dengan qty lebih dari 0.');
+            return;
+        }
+
+        setCreatingReorderPo(true);
+        const poNumbers: string[] = [];
+        try {
+            for (const [supplierId, group] of groups) {
+                const { data, error: rpcError } = await supabase.rpc('create_purchase_order', {
+                    p_supplier_name: group.supplierName,
+                    p_expected_date: toDateInput(new Date(Date.now() + group.leadTimeDays * 24 * 60 * 60 * 1000)),
+                    p_items: group.items,
+                    p_note: 'Dibuat dari daftar reorder.',
+                    p_supplier_id: supplierId,
+                    p_warehouse_id: selectedWarehouse?.id ?? null,
+                });
+                if (rpcError) throw rpcError;
+
+                const result = data as CreatePurchaseOrderResult | null;
+                if (!result?.ok || !result.po_number) {
+                    throw new Error(`Gagal membuat PO untuk ${group.supplierName}.`);
+                }
+                poNumbers.push(result.po_number);
+            }
+
+            closeReorder();
+            setSuccess(`PO dibuat: ${poNumbers.join(', ')}${withoutSupplier > 0 ? ` (${withoutSupplier} part tanpa supplier dilewati)` : ''}.`);
+            await openOrderLinesQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membuat purchase order.';
+            setError(poNumbers.length > 0 ? `${message} PO yang sudah dibuat: ${poNumbers.join(', ')}.` : message);
+            if (poNumbers.length > 0) await openOrderLinesQuery.refetch();
+        } finally {
+            setCreatingReorderPo(false);
+        }
+    };
+
+    const openHistory = (part: InventoryPart) => {
+        setHistoryPart(part);
+        setStockAtDate(toDateInput(new Date()));
+        setStockAtResult(null);
+    };
+
+    const closeHistory = () => {
+        setHistoryPart(null);
+        setStockAtDate('');
+        setStockAtResult(null);
+        setLoadingStockAt(false);
+    };
+
+    const loadStockAtDate = async () => {
+        if (!historyPart || loadingStockAt) return;
+
+        const value = stockAtDate.trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            setError('Format tanggal harus YYYY-MM-DD.');
+            return;
+        }
+        const endOfDay = new Date(`${value}T23:59:59.999`);
+        if (Number.isNaN(endOfDay.getTime())) {
+            setError('Tanggal tidak valid.');
+            return;
+        }
+
+        setLoadingStockAt(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('inventory_stock_at', {
+                p_at: endOfDay.toISOString(),
+                p_part_id: historyPart.id,
+            });
+            if (rpcError) throw rpcError;
+
+            const row = ((data || []) as InventoryStockAtRow[])[0];
+            setStockAtResult({ date: value, quantity: row?.quantity ?? 0 });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menghitung stok pada tanggal tersebut.';
+            setError(message);
+        } finally {
+            setLoadingStockAt(false);
+        }
+    };
+
+    const processReturn = useCallback(async (stockReturn: StockReturn, decision: 'receive' | 'reject', note?: string) => {
+        if (processingReturnId) return;
+        if (decision === 'reject' && !note?.trim()) {
+            setError('Alasan penolakan retur wajib diisi.');
+            return;
+        }
+
+        setProcessingReturnId(stockReturn.id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('process_stock_return', {
+                p_return_id: stockReturn.id,
+                p_decision: decision,
+                p_note: note?.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ProcessStockReturnResult | null;
+            if (result?.code === 'invalid_status') {
+                throw new Error('Retur ini sudah diproses atau dibatalkan.');
+            }
+            if (result?.code === 'not_found') {
+                throw new Error('Retur tidak ditemukan.');
+            }
+            if (result?.code === 'reason_required') {
+                throw new Error('Alasan penolakan retur wajib diisi.');
+            }
+            if (!result?.ok) {
+                throw new Error('Gagal memproses retur.');
+            }
+
+            const received = result.code === 'received';
+            void NotificationService.sendToUser(
+                stockReturn.engineer_id,
+                'Retur Stok',
+                received
+                    ? `Retur ${formatReturnItems(stockReturn.items)} sudah diterima gudang.`
+                    : `Retur ditolak, stok dikembalikan ke kamu. Alasan: ${note?.trim()}`,
+                { return_id: stockReturn.id, status: result.status, type: 'stock_return' },
+            ).catch((e) => console.error('[inventory.processReturn] Notification error:', e));
+
+            setRejectReturn(null);
+            setRejectReturnNote('');
+            setSuccess(received ? 'Retur diterima, stok gudang bertambah.' : 'Retur ditolak, stok engineer dikembalikan.');
+            await Promise.all([inventoryQuery.refetch(), returnsQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memproses retur.';
+            setError(message);
+        } finally {
+            setProcessingReturnId(null);
+        }
+    }, [processingReturnId, inventoryQuery, returnsQuery]);
+
     // Memoized Header Component
     const InventoryHeader = useMemo(() => (
         <View>
             <View style={styles.pageHeader}>
                 <Text style={adminStyles.headerTitle}>Inventory</Text>
-                <Text style={adminStyles.headerSub}>{parts.length} items | {lowCount} low stock | {outOfStockCount} out</Text>
+                <Text style={adminStyles.headerSub}>
+                    {selectedWarehouse ? `${formatWarehouseName(selectedWarehouse)} | ` : ''}{parts.length} items | {lowCount} low stock | {outOfStockCount} out
+                </Text>
             </View>
 
+            {warehouses.length > 1 ? (
+                <View style={styles.quickFilterRow}>
+                    <Chip
+                        compact
+                        mode={!selectedWarehouse ? 'flat' : 'outlined'}
+                        selected={!selectedWarehouse}
+                        onPress={() => setWarehouseFilter(ALL_WAREHOUSES)}
+                        style={[styles.quickChip, !selectedWarehouse && styles.quickChipActive]}
+                        textStyle={styles.quickChipText}
+                    >
+                        Semua Gudang
+                    </Chip>
+                    {warehouses.map((warehouse) => (
+                        <Chip
+                            key={warehouse.id}
+                            compact
+                            mode={selectedWarehouse?.id === warehouse.id ? 'flat' : 'outlined'}
+                            selected={selectedWarehouse?.id === warehouse.id}
+                            onPress={() => setWarehouseFilter(warehouse.id)}
+                            style={[styles.quickChip, selectedWarehouse?.id === warehouse.id && styles.quickChipActive]}
+                            textStyle={styles.quickChipText}
+                        >
+                            {warehouse.name}
+                        </Chip>
+                    ))}
+                </View>
+            ) : null}
+
             <Searchbar
                 placeholder="Cari part atau kode..."
                 value={search}
@@ -374,6 +1181,16 @@ export default function InventoryPage() {
                         >
                             Add Part
                         </Button>
+                        <Button
+                            mode="outlined"
+                            onPress={openReorder}
+                            icon="cart-arrow-down"
+                            style={styles.reorderBtn}
+                            labelStyle={styles.reorderBtnText}
+                            compact
+                        >
+                            Reorder ({partsToReorder.length})
+                        </Button>
                         <Button
                             mode="text"
                             icon="download"
@@ -411,6 +1228,11 @@ export default function InventoryPage() {
                             <Text style={styles.summaryValue}>{outOfStockCount}</Text>
                             <Text style={styles.summaryLabel}>Out of Stock</Text>
                         </View>
+                        <View style={[styles.summaryCard, styles.summaryCardWarning]}>
+                            <MaterialCommunityIcons name="cart-arrow-down" size={16} color={Colors.accent} />
+                            <Text style={styles.summaryValue}>{partsToReorder.length}</Text>
+                            <Text style={styles.summaryLabel}>Perlu Reorder</Text>
+                        </View>
                         <View style={[styles.summaryCard, styles.summaryCardInfo]}>
                             <MaterialCommunityIcons name="heart-pulse" size={16} color={Colors.info} />
                             <Text style={styles.summaryValue}>{stockHealth}%</Text>
@@ -456,16 +1278,70 @@ export default function InventoryPage() {
                     </View>
                 </View>
             </View>
+
+            {pendingReturns.length > 0 ? (
+                <View style={styles.returnPanel}>
+                    <Text style={styles.summaryTitle}>Retur Masuk ({pendingReturns.length})</Text>
+                    <Text style={styles.summarySubtitle}>
+                        Stok retur sudah dipotong dari engineer. Terima untuk menambah stok gudang, tolak untuk mengembalikan ke engineer.
+                    </Text>
+                    {pendingReturns.map((stockReturn) => (
+                        <View key={stockReturn.id} style={styles.movementRow}>
+                            <View style={[styles.movementIcon, { borderColor: Colors.success + '70', backgroundColor: Colors.success + '18' }]}>
+                                <MaterialCommunityIcons name="keyboard-return" size={16} color={Colors.success} />
+                            </View>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.movementTitle}>
+                                    {stockReturn.engineer_name || 'Engineer'}{stockReturn.area_group ? ` | ${stockReturn.area_group}` : ''}
+                                </Text>
+                                <Text style={styles.movementMeta}>{formatReturnItems(stockReturn.items)}</Text>
+                                <Text style={styles.movementMeta}>Alasan: {stockReturn.reason}</Text>
+                                <Text style={styles.movementTime}>
+                                    {new Date(stockReturn.created_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                </Text>
+                            </View>
+                            <View style={styles.returnActions}>
+                                <Button
+                                    mode="contained"
+                                    compact
+                                    onPress={() => processReturn(stockReturn, 'receive')}
+                                    loading={processingReturnId === stockReturn.id}
+                                    disabled={!!processingReturnId}
+                                    style={styles.returnReceiveBtn}
+                                    labelStyle={styles.addBtnText}
+                                >
+                                    Terima
+                                </Button>
+                                <Button
+                                    mode="text"
+                                    compact
+                                    onPress={() => {
+                                        setRejectReturn(stockReturn);
+                                        setRejectReturnNote('');
+                                    }}
+                                    disabled={!!processingReturnId}
+                                    textColor={Colors.danger}
+                                >
+                                    Tolak
+                                </Button>
+                            </View>
+                        </View>
+                    ))}
+                </View>
+            ) : null}
         </View>
     ), [
         parts.length, lowCount, outOfStockCount, search, stockHealth,
         totalStock, exportingCsv, filtered.length, summaryFilter,
-        searchedParts.length, searchedLowCount, searchedOutCount
+        searchedParts.length, searchedLowCount, searchedOutCount,
+        pendingReturns, processingReturnId, processReturn, partsToReorder,
+        warehouses, selectedWarehouse
     ]);
 
     const renderItem = useCallback(({ item: part }: { item: InventoryPart }) => {
         const isOut = part.total_stock === 0;
         const isLow = !isOut && part.total_stock <= part.min_stock;
+        const plan = reorderPlans.get(part.id);
 
         return (
             <View style={[styles.card, { width: isWide ? cardWidth : '100%' }]}>
@@ -479,7 +1355,12 @@ export default function InventoryPage() {
                     </View>
                     <View style={{ flex: 1 }}>
                         <Text style={styles.cardTitle}>{part.part_name}</Text>
-                        <Text style={styles.cardSubtitle}>ID: {part.id}</Text>
+                        <Text style={styles.cardSubtitle}>ID: {part.id}{part.is_serialized ? ' | Serialized' : ''}</Text>
+                        {plan ? (
+                            <Text style={[styles.cardSubtitle, plan.needsReorder && { color: Colors.accent, fontWeight: '700' }]}>
+                                ROP {plan.reorderPoint} | Lead {plan.leadTimeDays} hari{plan.needsReorder ? ` | Reorder ${plan.reorderQty}` : ''}
+                            </Text>
+                        ) : null}
                     </View>
                     <View style={[styles.statusBadge, isOut ? styles.statusBadgeOut : (isLow ? styles.statusBadgeLow : styles.statusBadgeOk)]}>
                         <Text style={[styles.statusText, { color: isOut ? Colors.danger : (isLow ? Colors.accent : Colors.primary) }]}>
@@ -503,6 +1384,13 @@ export default function InventoryPage() {
                             <Text style={styles.infoBoxLabel}>Min</Text>
                         </View>
                     </View>
+                    <View style={[styles.infoBox, styles.infoBoxOrder]}>
+                        <MaterialCommunityIcons name="truck-outline" size={14} color={Colors.info} />
+                        <View>
+                            <Text style={[styles.infoBoxValue, { color: Colors.info }]}>{onOrderByPart.get(part.id) || 0}</Text>
+                            <Text style={styles.infoBoxLabel}>On Order</Text>
+                        </View>
+                    </View>
                 </View>
 
                 <View style={styles.stockActionRow}>
@@ -522,13 +1410,27 @@ export default function InventoryPage() {
                     </Pressable>
                 </View>
 
-                <Pressable style={styles.detailBtn} onPress={() => openEditPart(part)}>
-                    <MaterialCommunityIcons name="cog-outline" size={16} color={Colors.textSecondary} />
-                    <Text style={styles.detailBtnText}>Detail Part</Text>
-                </Pressable>
+                <View style={styles.detailRow}>
+                    <Pressable style={styles.detailBtn} onPress={() => openHistory(part)}>
+                        <MaterialCommunityIcons name="history" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.detailBtnText}>Riwayat</Text>
+                    </Pressable>
+                    <Pressable style={styles.detailBtn} onPress={() => openSupplierLinks(part)}>
+                        <MaterialCommunityIcons name="truck-outline" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.detailBtnText}>Supplier</Text>
+                    </Pressable>
+                    <Pressable style={styles.detailBtn} onPress={() => openRules(part)}>
+                        <MaterialCommunityIcons name="scale-balance" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.detailBtnText}>Kuota</Text>
+                    </Pressable>
+                    <Pressable style={styles.detailBtn} onPress={() => openEditPart(part)}>
+                        <MaterialCommunityIcons name="cog-outline" size={16} color={Colors.textSecondary} />
+                        <Text style={styles.detailBtnText}>Detail Part</Text>
+                    </Pressable>
+                </View>
             </View>
         );
-    }, [isWide, cardWidth]); // openStockEditor and openEditPart are stable refs typically, or need to be included if they change
+    }, [isWide, cardWidth, onOrderByPart, reorderPlans]); // openStockEditor and openEditPart are stable refs typically, or need to be included if they change
 
     return (
         <View style={adminStyles.container}>
@@ -585,11 +1487,12 @@ export default function InventoryPage() {
                         style={styles.input}
                     />
                     <TextInput
-                        label="Total Stock"
+                        label={editPart ? 'Total Stock (ubah lewat Add/Koreksi)' : 'Total Stock (masuk gudang default)'}
                         value={form.total_stock}
                         onChangeText={(value) => setForm((prev) => ({ ...prev, total_stock: sanitizeNumber(value) }))}
                         keyboardType="number-pad"
                         mode="outlined"
+                        disabled={!!editPart}
                         style={styles.input}
                     />
                     <TextInput
@@ -600,6 +1503,28 @@ export default function InventoryPage() {
                         mode="outlined"
                         style={styles.input}
                     />
+                    <TextInput
+                        label="Harga Satuan (Rp, opsional)"
+                        value={form.unit_price}
+                        onChangeText={(value) => setForm((prev) => ({ ...prev, unit_price: sanitizeNumber(value) }))}
+                        keyboardType="number-pad"
+                        mode="outlined"
+                        style={styles.input}
+                    />
+                    <View style={styles.serialToggleRow}>
+                        <Chip
+                            compact
+                            icon="barcode"
+                            mode={form.is_serialized ? 'flat' : 'outlined'}
+                            selected={form.is_serialized}
+                            onPress={() => setForm((prev) => ({ ...prev, is_serialized: !prev.is_serialized }))}
+                            style={[styles.quickChip, form.is_serialized && styles.quickChipActive]}
+                            textStyle={styles.quickChipText}
+                        >
+                            Serialized
+                        </Chip>
+                        <Text style={styles.modalCaption}>Serial number dicatat per unit dari penerimaan sampai terpasang.</Text>
+                    </View>
 
                     <View style={styles.modalActionRow}>
                         <Button mode="outlined" onPress={closePartModal} style={styles.modalCancelBtn}>
@@ -640,13 +1565,76 @@ export default function InventoryPage() {
 
                             <Text style={styles.modalSubTitle}>{stockEditorPart.part_name}</Text>
                             <Text style={styles.modalCaption}>ID: {stockEditorPart.id}</Text>
-                            <Text style={styles.modalCaption}>Stok saat ini: {stockEditorPart.total_stock} pcs</Text>
+                            {warehouses.length > 1 ? (
+                                <View style={styles.quickFilterRow}>
+                                    {warehouses.map((warehouse) => (
+                                        <Chip
+                                            key={warehouse.id}
+                                            compact
+                                            mode={stockWarehouseId === warehouse.id ? 'flat' : 'outlined'}
+                                            selected={stockWarehouseId === warehouse.id}
+                                            onPress={() => pickStockWarehouse(warehouse.id)}
+                                            style={[styles.quickChip, stockWarehouseId === warehouse.id && styles.quickChipActive]}
+                                            textStyle={styles.quickChipText}
+                                        >
+                                            {warehouse.code}
+                                        </Chip>
+                                    ))}
+                                </View>
+                            ) : null}
+                            <Text style={styles.modalCaption}>
+                                Stok saat ini di {formatWarehouseName(warehouses.find((warehouse) => warehouse.id === stockWarehouseId))}: {getWarehouseQty(stockWarehouseId, stockEditorPart.id)} pcs
+                            </Text>
 
+                            {stockEditorMode === 'add' && stockEditorPart.is_serialized ? (
+                                <>
+                                    <TextInput
+                                        label="Serial Number (satu per baris)"
+                                        value={stockSerials}
+                                        onChangeText={setStockSerials}
+                                        mode="outlined"
+                                        multiline
+                                        numberOfLines={5}
+                                        autoCapitalize="characters"
+                                        style={styles.input}
+                                    />
+                                    <Text style={styles.modalCaption}>
+                                        Jumlah tambah: {parseSerialInput(stockSerials).length} pcs
+                                    </Text>
+                                </>
+                            ) : (
+                                <TextInput
+                                    label={stockEditorMode === 'add' ? 'Jumlah Tambah' : 'Stok Baru'}
+                                    value={stockValue}
+                                    onChangeText={(value) => setStockValue(sanitizeNumber(value))}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    style={styles.input}
+                                />
+                            )}
+                            {stockEditorMode === 'adjust' && stockEditorPart.is_serialized && stockAdjustDifference !== 0 ? (
+                                <>
+                                    <TextInput
+                                        label={stockAdjustDifference > 0
+                                            ? 'Serial Unit Ditambahkan (satu per baris)'
+                                            : 'Serial Unit Dihapus (satu per baris)'}
+                                        value={stockSerials}
+                                        onChangeText={setStockSerials}
+                                        mode="outlined"
+                                        multiline
+                                        numberOfLines={4}
+                                        autoCapitalize="characters"
+                                        style={styles.input}
+                                    />
+                                    <Text style={styles.modalCaption}>
+                                        {parseSerialInput(stockSerials).length} dari {Math.abs(stockAdjustDifference)} serial diisi
+                                    </Text>
+                                </>
+                            ) : null}
                             <TextInput
-                                label={stockEditorMode === 'add' ? 'Jumlah Tambah' : 'Stok Baru'}
-                                value={stockValue}
-                                onChangeText={(value) => setStockValue(sanitizeNumber(value))}
-                                keyboardType="number-pad"
+                                label={stockEditorMode === 'add' ? 'Catatan (mis. no. surat jalan)' : 'Alasan koreksi'}
+                                value={stockNote}
+                                onChangeText={setStockNote}
                                 mode="outlined"
                                 style={styles.input}
                             />
@@ -668,6 +1656,480 @@ export default function InventoryPage() {
                         </>
                     ) : null}
                 </Modal>
+
+                <Modal
+                    visible={!!historyPart}
+                    onDismiss={closeHistory}
+                    contentContainerStyle={[styles.historyDrawer, isWide && styles.historyDrawerWide]}
+                >
+                    {historyPart ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Riwayat Stok</Text>
+                                <Pressable onPress={closeHistory}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+
+                            <Text style={styles.modalSubTitle}>{historyPart.part_name}</Text>
+                            <Text style={styles.modalCaption}>
+                                ID: {historyPart.id} | Stok saat ini{selectedWarehouse ? ` di ${selectedWarehouse.code}` : ''}: {historyPart.total_stock} pcs
+                            </Text>
+
+                            <View style={styles.stockAtRow}>
+                                <TextInput
+                                    label="Stok pada tanggal (YYYY-MM-DD)"
+                                    value={stockAtDate}
+                                    onChangeText={(value) => {
+                                        setStockAtDate(value);
+                                        setStockAtResult(null);
+                                    }}
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, { flex: 1 }]}
+                                />
+                                <Button
+                                    mode="contained"
+                                    onPress={loadStockAtDate}
+                                    loading={loadingStockAt}
+                                    disabled={loadingStockAt}
+                                    style={styles.stockAtBtn}
+                                    compact
+                                >
+                                    Hitung
+                                </Button>
+                            </View>
+                            {stockAtResult ? (
+                                <Text style={styles.stockAtResult}>
+                                    Stok akhir {stockAtResult.date}: {stockAtResult.quantity} pcs
+                                </Text>
+                            ) : null}
+
+                            {historyOrderLines.length > 0 ? (
+                                <View style={styles.orderPanel}>
+                                    <Text style={styles.orderPanelTitle}>
+                                        PO Terbuka ({onOrderByPart.get(historyPart.id) || 0} pcs on order)
+                                    </Text>
+                                    {historyOrderLines.map((line) => {
+                                        const order = line.purchase_order;
+                                        const overdue = !!order && isPurchaseOrderOverdue(order.expected_date, order.status);
+                                        return (
+                                            <Text key={line.id} style={[styles.movementMeta, overdue && { color: Colors.danger }]}>
+                                                {order?.po_number || '-'} | {order?.supplier_name || '-'} | {line.quantity_received}/{line.quantity_ordered} diterima
+                                                {order?.expected_date ? ` | ETA ${order.expected_date}${overdue ? ' (terlambat)' : ''}` : ''}
+                                            </Text>
+                                        );
+                                    })}
+                                </View>
+                            ) : null}
+
+                            <ScrollView style={styles.historyList} contentContainerStyle={{ gap: 8 }}>
+                                {movementsQuery.isLoading ? (
+                                    <Text style={styles.modalCaption}>Memuat riwayat...</Text>
+                                ) : movements.length === 0 ? (
+                                    <Text style={styles.modalCaption}>Belum ada pergerakan stok untuk part ini.</Text>
+                                ) : movements.map((movement) => {
+                                    const meta = MOVEMENT_META[movement.movement_type] || MOVEMENT_META.correction;
+                                    return (
+                                        <View key={movement.id} style={styles.movementRow}>
+                                            <View style={[styles.movementIcon, { borderColor: meta.color + '70', backgroundColor: meta.color + '18' }]}>
+                                                <MaterialCommunityIcons name={meta.icon as any} size={16} color={meta.color} />
+                                            </View>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.movementTitle}>
+                                                    {meta.label} {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                                                </Text>
+                                                <Text style={styles.movementMeta}>
+                                                    {movement.quantity_before} → {movement.quantity_after} pcs | {movement.actor_name || 'Sistem'}
+                                                    {movement.warehouse_id && warehouses.length > 1
+                                                        ? ` | ${warehouses.find((warehouse) => warehouse.id === movement.warehouse_id)?.code || 'Gudang nonaktif'}`
+                                                        : ''}
+                                                </Text>
+                                                {movement.note ? <Text style={styles.movementMeta}>{movement.note}</Text> : null}
+                                                {movement.request_id ? (
+                                                    <Text style={styles.movementMeta}>Request #{movement.request_id.slice(0, 8)}</Text>
+                                                ) : null}
+                                                {movement.return_id ? (
+                                                    <Text style={styles.movementMeta}>Retur #{movement.return_id.slice(0, 8)}</Text>
+                                                ) : null}
+                                                {movement.purchase_order_id ? (
+                                                    <Text style={styles.movementMeta}>PO #{movement.purchase_order_id.slice(0, 8)}</Text>
+                                                ) : null}
+                                            </View>
+                                            <Text style={styles.movementTime}>
+                                                {new Date(movement.created_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                            </Text>
+                                        </View>
+                                    );
+                                })}
+                            </ScrollView>
+                        </>
+                    ) : null}
+                </Modal>
+
+                <Modal
+                    visible={!!rulesPart}
+                    onDismiss={closeRules}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    {rulesPart ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Kuota Request</Text>
+                                <Pressable onPress={closeRules}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+
+                            <Text style={styles.modalSubTitle}>{rulesPart.part_name}</Text>
+                            <Text style={styles.modalCaption}>
+                                Tanpa aturan, engineer bisa request maksimal {DEFAULT_MAX_QTY_PER_REQUEST} pcs per request.
+                                Aturan per area menggantikan aturan semua area untuk engineer di area tersebut.
+                            </Text>
+
+                            <ScrollView style={styles.historyList} contentContainerStyle={{ gap: 8 }}>
+                                {partRules.length === 0 ? (
+                                    <Text style={styles.modalCaption}>Belum ada aturan kuota untuk part ini.</Text>
+                                ) : partRules.map((rule) => (
+                                    <View key={rule.id} style={[styles.movementRow, ruleForm.id === rule.id && styles.ruleRowActive]}>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.movementTitle}>{rule.area_group || 'Semua area'}</Text>
+                                            <Text style={styles.movementMeta}>
+                                                Maks {rule.max_per_request} pcs/request
+                                                {rule.max_per_month != null ? ` | ${rule.max_per_month} pcs/bulan` : ''}
+                                            </Text>
+                                            <Text style={styles.movementMeta}>
+                                                Role: {rule.allowed_roles?.length ? rule.allowed_roles.join(', ') : 'semua'}
+                                            </Text>
+                                        </View>
+                                        <Pressable onPress={() => editRule(rule)} hitSlop={8}>
+                                            <MaterialCommunityIcons name="pencil-outline" size={18} color={Colors.textSecondary} />
+                                        </Pressable>
+                                        <Pressable onPress={() => deleteRule(rule)} hitSlop={8}>
+                                            <MaterialCommunityIcons name="delete-outline" size={18} color={Colors.danger} />
+                                        </Pressable>
+                                    </View>
+                                ))}
+                            </ScrollView>
+
+                            <Text style={styles.modalCaption}>{ruleForm.id ? 'Ubah aturan' : 'Tambah aturan'}</Text>
+                            <TextInput
+                                label="Area (kosongkan untuk semua area)"
+                                value={ruleForm.area_group}
+                                onChangeText={(value) => setRuleForm((prev) => ({ ...prev, area_group: value }))}
+                                mode="outlined"
+                                dense
+                                autoCapitalize="characters"
+                                style={styles.input}
+                            />
+                            <View style={styles.stockAtRow}>
+                                <TextInput
+                                    label="Maks / request"
+                                    value={ruleForm.max_per_request}
+                                    onChangeText={(value) => setRuleForm((prev) => ({ ...prev, max_per_request: sanitizeNumber(value) }))}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, { flex: 1 }]}
+                                />
+                                <TextInput
+                                    label="Maks / bulan (opsional)"
+                                    value={ruleForm.max_per_month}
+                                    onChangeText={(value) => setRuleForm((prev) => ({ ...prev, max_per_month: sanitizeNumber(value) }))}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, { flex: 1 }]}
+                                />
+                            </View>
+                            <View style={styles.ruleRoleRow}>
+                                <Text style={styles.modalCaption}>Role yang boleh request:</Text>
+                                {RULE_ROLE_OPTIONS.map((option) => {
+                                    const selected = ruleForm.allowed_roles.includes(option.value);
+                                    return (
+                                        <Chip
+                                            key={option.value}
+                                            compact
+                                            mode={selected ? 'flat' : 'outlined'}
+                                            selected={selected}
+                                            onPress={() => toggleRuleRole(option.value)}
+                                            style={[styles.quickChip, selected && styles.quickChipActive]}
+                                            textStyle={styles.quickChipText}
+                                        >
+                                            {option.label}
+                                        </Chip>
+                                    );
+                                })}
+                            </View>
+                            {ruleForm.allowed_roles.length === 0 ? (
+                                <Text style={styles.modalCaption}>Tidak ada yang dipilih = semua role boleh request.</Text>
+                            ) : null}
+
+                            <View style={styles.modalActionRow}>
+                                <Button
+                                    mode="outlined"
+                                    onPress={() => (ruleForm.id ? setRuleForm(EMPTY_RULE_FORM) : closeRules())}
+                                    style={styles.modalCancelBtn}
+                                >
+                                    {ruleForm.id ? 'Batal Ubah' : 'Tutup'}
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={saveRule}
+                                    style={styles.modalSaveBtn}
+                                    loading={savingRule}
+                                    disabled={savingRule}
+                                >
+                                    Simpan
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+
+                <Modal
+                    visible={!!supplierLinkPart}
+                    onDismiss={closeSupplierLinks}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    {supplierLinkPart ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Supplier Part</Text>
+                                <Pressable onPress={closeSupplierLinks}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+
+                            <Text style={styles.modalSubTitle}>{supplierLinkPart.part_name}</Text>
+                            <Text style={styles.modalCaption}>
+                                Supplier utama dipakai untuk reorder. Lead time kosong = lead time default supplier.
+                            </Text>
+
+                            <ScrollView style={styles.historyList} contentContainerStyle={{ gap: 8 }}>
+                                {partSupplierLinks.length === 0 ? (
+                                    <Text style={styles.modalCaption}>Belum ada supplier untuk part ini.</Text>
+                                ) : partSupplierLinks.map((link) => (
+                                    <View key={link.id} style={[styles.movementRow, supplierLinkForm.id === link.id && styles.ruleRowActive]}>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.movementTitle}>
+                                                {link.supplier?.name || 'Supplier'}{link.is_primary ? ' (utama)' : ''}
+                                            </Text>
+                                            <Text style={styles.movementMeta}>
+                                                Lead time {link.lead_time_days ?? link.supplier?.lead_time_days ?? '-'} hari | Min order {link.min_order_qty} pcs
+                                            </Text>
+                                            {link.supplier?.is_active === false ? (
+                                                <Text style={[styles.movementMeta, { color: Colors.danger }]}>Supplier nonaktif</Text>
+                                            ) : null}
+                                        </View>
+                                        <Pressable onPress={() => editSupplierLink(link)} hitSlop={8}>
+                                            <MaterialCommunityIcons name="pencil-outline" size={18} color={Colors.textSecondary} />
+                                        </Pressable>
+                                        <Pressable onPress={() => deleteSupplierLink(link)} hitSlop={8}>
+                                            <MaterialCommunityIcons name="delete-outline" size={18} color={Colors.danger} />
+                                        </Pressable>
+                                    </View>
+                                ))}
+                            </ScrollView>
+
+                            <Text style={styles.modalCaption}>{supplierLinkForm.id ? 'Ubah supplier' : 'Tambah supplier'}</Text>
+                            {supplierOptions.length === 0 ? (
+                                <Text style={styles.modalCaption}>Belum ada supplier aktif. Tambahkan dari menu Purchasing.</Text>
+                            ) : (
+                                <View style={styles.ruleRoleRow}>
+                                    {supplierOptions.map((supplier) => {
+                                        const selected = supplierLinkForm.supplier_id === supplier.id;
+                                        return (
+                                            <Chip
+                                                key={supplier.id}
+                                                compact
+                                                mode={selected ? 'flat' : 'outlined'}
+                                                selected={selected}
+                                                onPress={() => setSupplierLinkForm((prev) => ({ ...prev, supplier_id: supplier.id }))}
+                                                style={[styles.quickChip, selected && styles.quickChipActive]}
+                                                textStyle={styles.quickChipText}
+                                            >
+                                                {supplier.name}
+                                            </Chip>
+                                        );
+                                    })}
+                                </View>
+                            )}
+                            <View style={styles.stockAtRow}>
+                                <TextInput
+                                    label="Lead time (hari, opsional)"
+                                    value={supplierLinkForm.lead_time_days}
+                                    onChangeText={(value) => setSupplierLinkForm((prev) => ({ ...prev, lead_time_days: sanitizeNumber(value) }))}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, { flex: 1 }]}
+                                />
+                                <TextInput
+                                    label="Min order (pcs)"
+                                    value={supplierLinkForm.min_order_qty}
+                                    onChangeText={(value) => setSupplierLinkForm((prev) => ({ ...prev, min_order_qty: sanitizeNumber(value) }))}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, { flex: 1 }]}
+                                />
+                            </View>
+                            <View style={styles.ruleRoleRow}>
+                                <Chip
+                                    compact
+                                    mode={supplierLinkForm.is_primary ? 'flat' : 'outlined'}
+                                    selected={supplierLinkForm.is_primary}
+                                    onPress={() => setSupplierLinkForm((prev) => ({ ...prev, is_primary: !prev.is_primary }))}
+                                    style={[styles.quickChip, supplierLinkForm.is_primary && styles.quickChipActive]}
+                                    textStyle={styles.quickChipText}
+                                >
+                                    Supplier utama
+                                </Chip>
+                            </View>
+
+                            <View style={styles.modalActionRow}>
+                                <Button
+                                    mode="outlined"
+                                    onPress={() => (supplierLinkForm.id ? setSupplierLinkForm(EMPTY_SUPPLIER_LINK_FORM) : closeSupplierLinks())}
+                                    style={styles.modalCancelBtn}
+                                >
+                                    {supplierLinkForm.id ? 'Batal Ubah' : 'Tutup'}
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={saveSupplierLink}
+                                    style={styles.modalSaveBtn}
+                                    loading={savingSupplierLink}
+                                    disabled={savingSupplierLink}
+                                >
+                                    Simpan
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+
+                <Modal
+                    visible={showReorder}
+                    onDismiss={closeReorder}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Part Perlu Reorder</Text>
+                        <Pressable onPress={closeReorder}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+                    <Text style={styles.modalCaption}>
+                        Reorder point = rata-rata keluar gudang {REORDER_WINDOW_DAYS} hari terakhir x lead time + minimum stok.
+                        Stok + on order di bawah titik itu masuk daftar ini.
+                    </Text>
+
+                    <ScrollView style={styles.reorderList} contentContainerStyle={{ gap: 8 }}>
+                        {partsToReorder.length === 0 ? (
+                            <Text style={styles.modalCaption}>Semua part masih di atas reorder point.</Text>
+                        ) : partsToReorder.map((plan) => {
+                            const selected = reorderSelection[plan.partId] !== undefined;
+                            return (
+                                <View key={plan.partId} style={[styles.movementRow, selected && styles.ruleRowActive]}>
+                                    <Pressable onPress={() => toggleReorderPart(plan)} hitSlop={8}>
+                                        <MaterialCommunityIcons
+                                            name={selected ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                                            size={20}
+                                            color={selected ? Colors.primary : Colors.textMuted}
+                                        />
+                                    </Pressable>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.movementTitle}>{plan.partName}</Text>
+                                        <Text style={styles.movementMeta}>
+                                            Stok {plan.stock} | On order {plan.onOrder} | ROP {plan.reorderPoint}
+                                        </Text>
+                                        <Text style={[styles.movementMeta, !plan.supplierName && { color: Colors.danger }]}>
+                                            {plan.supplierName
+                                                ? `${plan.supplierName} | lead ${plan.leadTimeDays} hari | min order ${plan.minOrderQty}`
+                                                : 'Belum ada supplier'}
+                                        </Text>
+                                    </View>
+                                    <TextInput
+                                        label="Qty"
+                                        value={reorderSelection[plan.partId] ?? String(plan.reorderQty)}
+                                        onChangeText={(value) => setReorderSelection((prev) => ({ ...prev, [plan.partId]: sanitizeNumber(value) }))}
+                                        keyboardType="number-pad"
+                                        mode="outlined"
+                                        dense
+                                        disabled={!selected}
+                                        style={[styles.input, styles.reorderQtyInput]}
+                                    />
+                                </View>
+                            );
+                        })}
+                    </ScrollView>
+
+                    <View style={styles.modalActionRow}>
+                        <Button
+                            mode="outlined"
+                            icon="download"
+                            onPress={exportReorderCsv}
+                            style={styles.modalCancelBtn}
+                            loading={exportingReorder}
+                            disabled={exportingReorder || partsToReorder.length === 0}
+                        >
+                            Export CSV
+                        </Button>
+                        <Button
+                            mode="contained"
+                            icon="file-document-outline"
+                            onPress={createReorderPurchaseOrders}
+                            style={styles.modalSaveBtn}
+                            loading={creatingReorderPo}
+                            disabled={creatingReorderPo || selectedReorderPlans.length === 0}
+                        >
+                            Buat PO ({selectedReorderPlans.length})
+                        </Button>
+                    </View>
+                </Modal>
+
+                <Modal
+                    visible={!!rejectReturn}
+                    onDismiss={() => setRejectReturn(null)}
+                    contentContainerStyle={styles.modal}
+                >
+                    {rejectReturn ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Tolak Retur</Text>
+                                <Pressable onPress={() => setRejectReturn(null)}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                            <Text style={styles.modalSubTitle}>{rejectReturn.engineer_name || 'Engineer'}</Text>
+                            <Text style={styles.modalCaption}>{formatReturnItems(rejectReturn.items)}</Text>
+                            <TextInput
+                                label="Alasan penolakan"
+                                value={rejectReturnNote}
+                                onChangeText={setRejectReturnNote}
+                                mode="outlined"
+                                multiline
+                                style={styles.input}
+                            />
+                            <View style={styles.modalActionRow}>
+                                <Button mode="outlined" onPress={() => setRejectReturn(null)} style={styles.modalCancelBtn}>
+                                    Batal
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={() => processReturn(rejectReturn, 'reject', rejectReturnNote)}
+                                    style={[styles.modalSaveBtn, { backgroundColor: Colors.danger }]}
+                                    loading={processingReturnId === rejectReturn.id}
+                                    disabled={!!processingReturnId || !rejectReturnNote.trim()}
+                                >
+                                    Tolak Retur
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
             </Portal>
 
             <AppSnackbar
@@ -742,6 +2204,16 @@ const styles = StyleSheet.create({
     exportBtn: {
         borderRadius: 12,
     },
+    reorderBtn: {
+        borderRadius: 12,
+        height: 38,
+        borderColor: Colors.accent + '70',
+    },
+    reorderBtnText: {
+        color: Colors.accent,
+        fontWeight: '700',
+        fontSize: 12,
+    },
     exportLabel: {
         color: Colors.primary,
         fontWeight: '700',
@@ -816,6 +2288,11 @@ const styles = StyleSheet.create({
         fontSize: 10,
         fontWeight: '600',
     },
+    serialToggleRow: {
+        gap: 6,
+        marginBottom: 12,
+        alignItems: 'flex-start',
+    },
     quickBadge: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -916,6 +2393,10 @@ const styles = StyleSheet.create({
         borderColor: Colors.accent + '40',
         backgroundColor: Colors.accent + '10',
     },
+    infoBoxOrder: {
+        borderColor: Colors.info + '40',
+        backgroundColor: Colors.info + '10',
+    },
     infoBoxValue: {
         fontSize: 13,
         fontWeight: '700',
@@ -959,9 +2440,14 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         fontSize: 13,
     },
-    detailBtn: {
+    detailRow: {
         marginTop: 10,
         flexDirection: 'row',
+        gap: 8,
+    },
+    detailBtn: {
+        flex: 1,
+        flexDirection: 'row',
         alignItems: 'center',
         justifyContent: 'center',
         gap: 6,
@@ -1025,4 +2511,118 @@ const styles = StyleSheet.create({
     deleteBtn: {
         alignSelf: 'flex-start',
     },
+    historyDrawer: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 12,
+        width: '100%',
+        maxWidth: 560,
+        maxHeight: '90%',
+        alignSelf: 'center',
+    },
+    historyDrawerWide: {
+        alignSelf: 'flex-end',
+        height: '100%',
+        maxHeight: '100%',
+        margin: 0,
+        borderTopRightRadius: 0,
+        borderBottomRightRadius: 0,
+        maxWidth: 460,
+    },
+    stockAtRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    stockAtBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    stockAtResult: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: Colors.primary,
+    },
+    orderPanel: {
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.info + '40',
+        backgroundColor: Colors.info + '10',
+        gap: 4,
+    },
+    orderPanelTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: Colors.info,
+    },
+    historyList: {
+        flexGrow: 0,
+    },
+    movementRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 10,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    movementIcon: {
+        width: 30,
+        height: 30,
+        borderRadius: 10,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    movementTitle: {
+        fontSize: 13,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    movementMeta: {
+        fontSize: 11,
+        color: Colors.textSecondary,
+        marginTop: 1,
+    },
+    returnPanel: {
+        marginBottom: 12,
+        padding: 14,
+        borderRadius: 18,
+        backgroundColor: '#0A121D',
+        borderWidth: 1,
+        borderColor: Colors.success + '50',
+        gap: 8,
+    },
+    returnActions: {
+        alignItems: 'flex-end',
+        gap: 4,
+    },
+    returnReceiveBtn: {
+        borderRadius: 10,
+        backgroundColor: Colors.success,
+    },
+    ruleRowActive: {
+        borderColor: Colors.primary,
+    },
+    reorderList: {
+        maxHeight: 420,
+    },
+    reorderQtyInput: {
+        width: 90,
+    },
+    ruleRoleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    movementTime: {
+        fontSize: 10,
+        color: Colors.textMuted,
+    },
 });
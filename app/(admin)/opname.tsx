@@ -0,0 +1,862 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-native';
+import { Text, Portal, Modal, TextInput, Button, Chip } from 'react-native-paper';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import { supabase } from '../../src/config/supabase';
+import {
+    InventoryPart,
+    StockCountCampaign,
+    StockCountTask,
+    StockCountLine,
+    CreateStockCountCampaignResult,
+    ReviewStockCountLinesResult,
+    CloseStockCountCampaignResult,
+} from '../../src/types';
+import { adminStyles } from '../../src/styles/adminStyles';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import { NotificationService } from '../../src/services/NotificationService';
+import { normalizeArea } from '../../src/utils/normalizeArea';
+import {
+    STOCK_COUNT_TASK_STATUS_META,
+    buildStockCountProgress,
+    isPastStockCountDeadline,
+} from '../../src/utils/stockCounts';
+
+type CampaignFilter = 'open' | 'all';
+
+const CAMPAIGN_LIMIT = 50;
+const PART_SUGGESTION_LIMIT = 6;
+const DEFAULT_COUNT_DAYS = 7;
+const EMPTY_CAMPAIGN_FORM = { title: '', deadline: '', area: '', note: '' };
+
+const toDateInput = (date: Date) => {
+    const pad = (val: number) => String(val).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fetchCampaigns = async (filter: CampaignFilter): Promise<StockCountCampaign[]> => {
+    let query = supabase
+        .from('stock_count_campaigns')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(CAMPAIGN_LIMIT);
+    if (filter === 'open') {
+        query = query.eq('status', 'open');
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as StockCountCampaign[];
+};
+
+const fetchCampaignTasks = async (campaignIds: string[]): Promise<StockCountTask[]> => {
+    const { data, error } = await supabase
+        .from('stock_count_tasks')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .order('engineer_name');
+    if (error) throw error;
+    return (data || []) as StockCountTask[];
+};
+
+const fetchCampaignLines = async (campaignIds: string[]): Promise<StockCountLine[]> => {
+    const { data, error } = await supabase
+        .from('stock_count_lines')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .order('part_id');
+    if (error) throw error;
+    return (data || []) as StockCountLine[];
+};
+
+const fetchPartNames = async (): Promise<Pick<InventoryPart, 'id' | 'part_name'>[]> => {
+    const { data, error } = await supabase
+        .from('inventory')
+        .select('id, part_name')
+        .order('part_name');
+    if (error) throw error;
+    return data || [];
+};
+
+const fetchEngineerAreas = async (): Promise<string[]> => {
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('location')
+        .eq('role', 'engineer');
+    if (error) throw error;
+    const areas = new Set((data || []).map((row) => normalizeArea(row.location || '')).filter(Boolean));
+    return Array.from(areas).sort();
+};
+
+const formatVariance = (variance: number) => (variance > 0 ? `+${variance}` : String(variance));
+
+export default function StockOpnamePage() {
+    const [filter, setFilter] = useState<CampaignFilter>('open');
+    const [refreshing, setRefreshing] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const [showCreate, setShowCreate] = useState(false);
+    const [campaignForm, setCampaignForm] = useState(EMPTY_CAMPAIGN_FORM);
+    const [campaignParts, setCampaignParts] = useState<Pick<InventoryPart, 'id' | 'part_name'>[]>([]);
+    const [partSearch, setPartSearch] = useState('');
+    const [savingCampaign, setSavingCampaign] = useState(false);
+
+    const [detailCampaignId, setDetailCampaignId] = useState<string | null>(null);
+    const [reviewNote, setReviewNote] = useState('');
+    const [reviewingKey, setReviewingKey] = useState<string | null>(null);
+    const [closingId, setClosingId] = useState<string | null>(null);
+
+    const campaignsQuery = useQuery({
+        queryKey: ['admin', 'stock-counts', filter],
+        queryFn: () => fetchCampaigns(filter),
+    });
+    const campaigns = campaignsQuery.data || [];
+    const campaignIds = useMemo(() => campaigns.map((campaign) => campaign.id), [campaigns]);
+    const tasksQuery = useQuery({
+        queryKey: ['admin', 'stock-counts', 'tasks', campaignIds],
+        queryFn: () => fetchCampaignTasks(campaignIds),
+        enabled: campaignIds.length > 0,
+    });
+    const linesQuery = useQuery({
+        queryKey: ['admin', 'stock-counts', 'lines', campaignIds],
+        queryFn: () => fetchCampaignLines(campaignIds),
+        enabled: campaignIds.length > 0,
+    });
+    const partsQuery = useQuery({
+        queryKey: ['admin', 'stock-counts', 'parts'],
+        queryFn: fetchPartNames,
+    });
+    const areasQuery = useQuery({
+        queryKey: ['admin', 'stock-counts', 'areas'],
+        queryFn: fetchEngineerAreas,
+    });
+    const areas = areasQuery.data || [];
+
+    const tasksByCampaign = useMemo(() => {
+        const map = new Map<string, StockCountTask[]>();
+        for (const task of tasksQuery.data || []) {
+            map.set(task.campaign_id, [...(map.get(task.campaign_id) || []), task]);
+        }
+        return map;
+    }, [tasksQuery.data]);
+    const linesByCampaign = useMemo(() => {
+        const map = new Map<string, StockCountLine[]>();
+        for (const line of linesQuery.data || []) {
+            map.set(line.campaign_id, [...(map.get(line.campaign_id) || []), line]);
+        }
+        return map;
+    }, [linesQuery.data]);
+
+    const detailCampaign = campaigns.find((campaign) => campaign.id === detailCampaignId) || null;
+    const detailTasks = detailCampaign ? tasksByCampaign.get(detailCampaign.id) || [] : [];
+    const detailLines = detailCampaign ? linesByCampaign.get(detailCampaign.id) || [] : [];
+    const pendingDetailLines = detailLines.filter((line) => line.status === 'pending');
+    const settledVarianceLines = detailLines.filter((line) => line.status !== 'pending' && line.variance !== 0);
+
+    useSupabaseRealtimeRefresh(
+        ['stock_count_campaigns', 'stock_count_tasks', 'stock_count_lines'],
+        () => {
+            void campaignsQuery.refetch();
+            void tasksQuery.refetch();
+            void linesQuery.refetch();
+        },
+    );
+
+    useEffect(() => {
+        const sourceError = campaignsQuery.error || tasksQuery.error || linesQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat stock opname.';
+        setError(message);
+    }, [campaignsQuery.error, tasksQuery.error, linesQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await Promise.all([campaignsQuery.refetch(), tasksQuery.refetch(), linesQuery.refetch(), areasQuery.refetch()]);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const partSuggestions = useMemo(() => {
+        const keyword = partSearch.trim().toLowerCase();
+        if (!keyword) return [];
+        const picked = new Set(campaignParts.map((part) => part.id));
+        return (partsQuery.data || [])
+            .filter((part) => !picked.has(part.id))
+            .filter((part) => part.part_name.toLowerCase().includes(keyword) || part.id.toLowerCase().includes(keyword))
+            .slice(0, PART_SUGGESTION_LIMIT);
+    }, [partsQuery.data, partSearch, campaignParts]);
+
+    const openCreate = () => {
+        setCampaignForm({
+            ...EMPTY_CAMPAIGN_FORM,
+            deadline: toDateInput(new Date(Date.now() + DEFAULT_COUNT_DAYS * 24 * 60 * 60 * 1000)),
+        });
+        setCampaignParts([]);
+        setPartSearch('');
+        setShowCreate(true);
+    };
+
+    const closeCreate = () => {
+        setShowCreate(false);
+        setCampaignForm(EMPTY_CAMPAIGN_FORM);
+        setCampaignParts([]);
+        setPartSearch('');
+        setSavingCampaign(false);
+    };
+
+    const saveCampaign = async () => {
+        if (savingCampaign) return;
+
+        const title = campaignForm.title.trim();
+        const deadline = campaignForm.deadline.trim();
+        if (!title) {
+            setError('Judul stock opname wajib diisi.');
+            return;
+        }
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(deadline)) {
+            setError('Format deadline harus YYYY-MM-DD.');
+            return;
+        }
+
+        setSavingCampaign(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('create_stock_count_campaign', {
+                p_title: title,
+                p_deadline: deadline,
+                p_area_group: campaignForm.area || null,
+                p_part_ids: campaignParts.length > 0 ? campaignParts.map((part) => part.id) : null,
+                p_note: campaignForm.note.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CreateStockCountCampaignResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'invalid_deadline') {
+                    throw new Error('Deadline tidak boleh sebelum hari ini.');
+                }
+                if (result?.code === 'no_engineers') {
+                    throw new Error('Tidak ada engineer aktif di area yang dipilih.');
+                }
+                if (result?.code === 'unknown_parts') {
+                    throw new Error(`Part tidak ditemukan di inventory: ${(result.part_ids || []).join(', ')}.`);
+                }
+                throw new Error('Judul stock opname wajib diisi.');
+            }
+
+            const engineerIds = result.engineer_ids || [];
+            void NotificationService.sendToUsers(
+                engineerIds,
+                'Stock Opname',
+                `${title}: hitung stok Anda di menu Opname sebelum ${deadline}.`,
+                { type: 'stock_count', campaign_id: result.campaign_id },
+            ).catch((e) => console.error('[opname.create] Notification error:', e));
+
+            closeCreate();
+            setSuccess(`Stock opname dibuat untuk ${engineerIds.length} engineer.`);
+            await campaignsQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membuat stock opname.';
+            setError(message);
+        } finally {
+            setSavingCampaign(false);
+        }
+    };
+
+    const reviewLines = async (lineIds: string[], decision: 'approve' | 'reject', key: string) => {
+        if (reviewingKey || lineIds.length === 0) return;
+
+        setReviewingKey(key);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('review_stock_count_lines', {
+                p_line_ids: lineIds,
+                p_decision: decision,
+                p_note: reviewNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReviewStockCountLinesResult | null;
+            if (!result?.ok) {
+                throw new Error('Pilih minimal 1 selisih untuk direview.');
+            }
+
+            const serializedCount = result.serialized_line_ids?.length ?? 0;
+            setSuccess(decision === 'approve'
+                ? `${result.reviewed ?? 0} selisih disetujui dan diposting ke stok engineer.${serializedCount > 0
+                    ? ` ${serializedCount} selisih part serialized dilewati; tolak lalu selesaikan lewat retur atau part cacat per serial.`
+                    : ''}`
+                : `${result.reviewed ?? 0} selisih ditolak.`);
+            await Promise.all([linesQuery.refetch(), tasksQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal mereview selisih.';
+            setError(message);
+        } finally {
+            setReviewingKey(null);
+        }
+    };
+
+    const closeCampaign = async (campaign: StockCountCampaign) => {
+        if (closingId) return;
+
+        setClosingId(campaign.id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('close_stock_count_campaign', {
+                p_campaign_id: campaign.id,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CloseStockCountCampaignResult | null;
+            if (!result?.ok) {
+                await campaignsQuery.refetch();
+                throw new Error(result?.code === 'already_closed'
+                    ? 'Stock opname sudah ditutup.'
+                    : 'Stock opname tidak ditemukan.');
+            }
+
+            setSuccess(`${campaign.title} ditutup.`);
+            await campaignsQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menutup stock opname.';
+            setError(message);
+        } finally {
+            setClosingId(null);
+        }
+    };
+
+    const renderCampaign = (campaign: StockCountCampaign) => {
+        const tasks = tasksByCampaign.get(campaign.id) || [];
+        const progress = buildStockCountProgress(campaign.deadline, tasks, linesByCampaign.get(campaign.id) || []);
+        const overdue = campaign.status === 'open' && isPastStockCountDeadline(campaign.deadline);
+        const isOpen = campaign.status === 'open';
+
+        return (
+            <View key={campaign.id} style={[adminStyles.card, styles.campaignCard, !isOpen && { opacity: 0.75 }]}>
+                <View style={styles.campaignHeader}>
+                    <View style={[adminStyles.iconBox, { backgroundColor: Colors.info + '15' }]}>
+                        <MaterialCommunityIcons name="clipboard-check-outline" size={18} color={Colors.info} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                        <Text style={styles.campaignTitle}>{campaign.title}</Text>
+                        <Text style={styles.meta}>
+                            {campaign.area_group || 'Semua area'} | {campaign.part_ids?.length ? `${campaign.part_ids.length} part` : 'Semua part yang dipegang'}
+                        </Text>
+                    </View>
+                    <View style={[styles.badge, { borderColor: (isOpen ? Colors.info : Colors.textMuted) + '55' }]}>
+                        <Text style={[styles.badgeText, { color: isOpen ? Colors.info : Colors.textMuted }]}>
+                            {isOpen ? 'Berjalan' : 'Ditutup'}
+                        </Text>
+                    </View>
+                </View>
+
+                <Text style={[styles.meta, overdue && { color: Colors.danger, fontWeight: '700' }]}>
+                    Deadline: {campaign.deadline}{overdue ? ' (lewat)' : ''} | Dibuat {new Date(campaign.created_at).toLocaleDateString('id-ID')}
+                    {campaign.created_by_name ? ` oleh ${campaign.created_by_name}` : ''}
+                </Text>
+                {campaign.note ? <Text style={styles.meta}>{campaign.note}</Text> : null}
+
+                <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${progress.percent}%` }]} />
+                </View>
+                <Text style={styles.meta}>
+                    Submit {progress.submitted}/{progress.total} engineer ({progress.percent}%)
+                    {progress.late > 0 ? ` | ${progress.late} terlambat` : ''}
+                    {progress.pendingVariances > 0 ? ` | ${progress.pendingVariances} selisih menunggu review` : ''}
+                </Text>
+
+                <View style={styles.cardActions}>
+                    {isOpen ? (
+                        <Button
+                            mode="text"
+                            compact
+                            icon="lock-outline"
+                            textColor={Colors.danger}
+                            onPress={() => closeCampaign(campaign)}
+                            loading={closingId === campaign.id}
+                            disabled={!!closingId}
+                        >
+                            Tutup
+                        </Button>
+                    ) : null}
+                    <Button
+                        mode="text"
+                        compact
+                        icon="format-list-checks"
+                        onPress={() => {
+                            setDetailCampaignId(campaign.id);
+                            setReviewNote('');
+                        }}
+                    >
+                        Detail
+                    </Button>
+                </View>
+            </View>
+        );
+    };
+
+    return (
+        <View style={adminStyles.container}>
+            <View style={adminStyles.header}>
+                <View style={{ flex: 1 }}>
+                    <Text style={adminStyles.headerTitle}>Stock Opname</Text>
+                    <Text style={adminStyles.headerSub}>Hitung ulang stok engineer, review selisih dan pantau progres</Text>
+                </View>
+                <Button
+                    mode="contained"
+                    onPress={openCreate}
+                    icon="plus"
+                    style={styles.primaryBtn}
+                    labelStyle={styles.primaryBtnText}
+                    compact
+                >
+                    Buat Opname
+                </Button>
+            </View>
+
+            <View style={styles.filterRow}>
+                {([
+                    { key: 'open', label: 'Berjalan' },
+                    { key: 'all', label: 'Semua' },
+                ] as { key: CampaignFilter; label: string }[]).map((option) => (
+                    <Chip
+                        key={option.key}
+                        compact
+                        mode={filter === option.key ? 'flat' : 'outlined'}
+                        selected={filter === option.key}
+                        onPress={() => setFilter(option.key)}
+                        style={[styles.chip, filter === option.key && styles.chipActive]}
+                        textStyle={styles.chipText}
+                    >
+                        {option.label}
+                    </Chip>
+                ))}
+            </View>
+
+            <ScrollView
+                contentContainerStyle={[adminStyles.scrollContent, { gap: 12 }]}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+            >
+                {campaigns.length === 0 ? (
+                    <View style={adminStyles.emptyState}>
+                        <MaterialCommunityIcons name="clipboard-check-outline" size={48} color={Colors.textMuted} />
+                        <Text style={adminStyles.emptyText}>
+                            {campaignsQuery.isLoading ? 'Memuat stock opname...' : 'Belum ada stock opname.'}
+                        </Text>
+                    </View>
+                ) : campaigns.map(renderCampaign)}
+            </ScrollView>
+
+            <Portal>
+                <Modal
+                    visible={showCreate}
+                    onDismiss={closeCreate}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Buat Stock Opname</Text>
+                        <Pressable onPress={closeCreate}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+
+                    <ScrollView contentContainerStyle={{ gap: 12 }} keyboardShouldPersistTaps="handled">
+                        <TextInput
+                            label="Judul (mis. Opname Kuartal 4)"
+                            value={campaignForm.title}
+                            onChangeText={(value) => setCampaignForm((prev) => ({ ...prev, title: value }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+                        <TextInput
+                            label="Deadline (YYYY-MM-DD)"
+                            value={campaignForm.deadline}
+                            onChangeText={(value) => setCampaignForm((prev) => ({ ...prev, deadline: value }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+
+                        <Text style={styles.meta}>Area engineer</Text>
+                        <View style={styles.chipRow}>
+                            {['', ...areas].map((area) => {
+                                const selected = campaignForm.area === area;
+                                return (
+                                    <Chip
+                                        key={area || 'all'}
+                                        compact
+                                        mode={selected ? 'flat' : 'outlined'}
+                                        selected={selected}
+                                        onPress={() => setCampaignForm((prev) => ({ ...prev, area }))}
+                                        style={[styles.chip, selected && styles.chipActive]}
+                                        textStyle={styles.chipText}
+                                    >
+                                        {area || 'Semua area'}
+                                    </Chip>
+                                );
+                            })}
+                        </View>
+
+                        <TextInput
+                            label="Batasi ke part tertentu (opsional)"
+                            value={partSearch}
+                            onChangeText={setPartSearch}
+                            mode="outlined"
+                            dense
+                            style={styles.input}
+                        />
+                        {partSuggestions.map((part) => (
+                            <Pressable
+                                key={part.id}
+                                style={styles.suggestionRow}
+                                onPress={() => {
+                                    setCampaignParts((prev) => [...prev, part]);
+                                    setPartSearch('');
+                                }}
+                            >
+                                <MaterialCommunityIcons name="plus-circle-outline" size={18} color={Colors.primary} />
+                                <Text style={styles.rowTitle}>{part.part_name}</Text>
+                                <Text style={styles.meta}>{part.id}</Text>
+                            </Pressable>
+                        ))}
+                        {campaignParts.length === 0 ? (
+                            <Text style={styles.meta}>Tanpa pilihan part, engineer menghitung semua part yang sedang dipegang.</Text>
+                        ) : (
+                            <View style={styles.chipRow}>
+                                {campaignParts.map((part) => (
+                                    <Chip
+                                        key={part.id}
+                                        compact
+                                        onClose={() => setCampaignParts((prev) => prev.filter((row) => row.id !== part.id))}
+                                        style={styles.chip}
+                                        textStyle={styles.chipText}
+                                    >
+                                        {part.part_name}
+                                    </Chip>
+                                ))}
+                            </View>
+                        )}
+
+                        <TextInput
+                            label="Catatan untuk engineer (opsional)"
+                            value={campaignForm.note}
+                            onChangeText={(value) => setCampaignForm((prev) => ({ ...prev, note: value }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+                    </ScrollView>
+
+                    <View style={styles.modalActionRow}>
+                        <Button mode="outlined" onPress={closeCreate} style={styles.modalCancelBtn}>
+                            Batal
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={saveCampaign}
+                            style={styles.modalSaveBtn}
+                            loading={savingCampaign}
+                            disabled={savingCampaign}
+                        >
+                            Mulai
+                        </Button>
+                    </View>
+                </Modal>
+
+                <Modal
+                    visible={!!detailCampaign}
+                    onDismiss={() => setDetailCampaignId(null)}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    {detailCampaign ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>{detailCampaign.title}</Text>
+                                <Pressable onPress={() => setDetailCampaignId(null)}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+
+                            <ScrollView contentContainerStyle={{ gap: 10 }} keyboardShouldPersistTaps="handled">
+                                <Text style={styles.sectionTitle}>Selisih Menunggu Review ({pendingDetailLines.length})</Text>
+                                {pendingDetailLines.length === 0 ? (
+                                    <Text style={styles.meta}>Tidak ada selisih yang menunggu review.</Text>
+                                ) : (
+                                    <>
+                                        <TextInput
+                                            label="Catatan review (opsional)"
+                                            value={reviewNote}
+                                            onChangeText={setReviewNote}
+                                            mode="outlined"
+                                            dense
+                                            style={styles.input}
+                                        />
+                                        {pendingDetailLines.map((line) => {
+                                            const task = detailTasks.find((row) => row.id === line.task_id);
+                                            return (
+                                                <View key={line.id} style={styles.row}>
+                                                    <View style={{ flex: 1 }}>
+                                                        <Text style={styles.rowTitle}>{line.part_name || line.part_id}</Text>
+                                                        <Text style={styles.meta}>
+                                                            {task?.engineer_name || 'Engineer'} | Hitung {line.counted_qty}, sistem {line.system_qty}
+                                                        </Text>
+                                                    </View>
+                                                    <Text style={[styles.variance, { color: line.variance > 0 ? Colors.success : Colors.danger }]}>
+                                                        {formatVariance(line.variance)}
+                                                    </Text>
+                                                    <Button
+                                                        mode="text"
+                                                        compact
+                                                        textColor={Colors.danger}
+                                                        onPress={() => reviewLines([line.id], 'reject', `reject:${line.id}`)}
+                                                        loading={reviewingKey === `reject:${line.id}`}
+                                                        disabled={!!reviewingKey}
+                                                    >
+                                                        Tolak
+                                                    </Button>
+                                                    <Button
+                                                        mode="text"
+                                                        compact
+                                                        onPress={() => reviewLines([line.id], 'approve', `approve:${line.id}`)}
+                                                        loading={reviewingKey === `approve:${line.id}`}
+                                                        disabled={!!reviewingKey}
+                                                    >
+                                                        Setujui
+                                                    </Button>
+                                                </View>
+                                            );
+                                        })}
+                                        <Button
+                                            mode="contained"
+                                            icon="check-all"
+                                            onPress={() => reviewLines(pendingDetailLines.map((line) => line.id), 'approve', 'approve:all')}
+                                            loading={reviewingKey === 'approve:all'}
+                                            disabled={!!reviewingKey}
+                                            style={styles.primaryBtn}
+                                        >
+                                            Setujui Semua ({pendingDetailLines.length})
+                                        </Button>
+                                    </>
+                                )}
+
+                                <Text style={styles.sectionTitle}>Progres Engineer</Text>
+                                {detailTasks.length === 0 ? (
+                                    <Text style={styles.meta}>Belum ada engineer pada stock opname ini.</Text>
+                                ) : detailTasks.map((task) => {
+                                    const meta = STOCK_COUNT_TASK_STATUS_META[task.status];
+                                    const late = !!task.submitted_at && isPastStockCountDeadline(detailCampaign.deadline, task.submitted_at);
+                                    const taskLines = detailLines.filter((line) => line.task_id === task.id);
+                                    const varianceCount = taskLines.filter((line) => line.variance !== 0).length;
+                                    return (
+                                        <View key={task.id} style={styles.row}>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.rowTitle}>{task.engineer_name || 'Engineer'}</Text>
+                                                <Text style={styles.meta}>
+                                                    {task.area_group || '-'} | {task.part_ids.length} part
+                                                    {task.submitted_at
+                                                        ? ` | Submit ${new Date(task.submitted_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}${late ? ' (terlambat)' : ''}`
+                                                        : ''}
+                                                    {task.status !== 'pending' ? ` | ${varianceCount} selisih` : ''}
+                                                </Text>
+                                            </View>
+                                            <View style={[styles.badge, { borderColor: meta.color + '55' }]}>
+                                                <Text style={[styles.badgeText, { color: meta.color }]}>{meta.label}</Text>
+                                            </View>
+                                        </View>
+                                    );
+                                })}
+
+                                {settledVarianceLines.length > 0 ? (
+                                    <>
+                                        <Text style={styles.sectionTitle}>Selisih Direview</Text>
+                                        {settledVarianceLines.map((line) => (
+                                            <View key={line.id} style={styles.row}>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.rowTitle}>{line.part_name || line.part_id}</Text>
+                                                    <Text style={styles.meta}>
+                                                        {detailTasks.find((task) => task.id === line.task_id)?.engineer_name || 'Engineer'}
+                                                        {' | '}{line.status === 'approved' ? 'Diposting' : 'Ditolak'}
+                                                        {line.review_note ? ` | ${line.review_note}` : ''}
+                                                    </Text>
+                                                </View>
+                                                <Text style={[styles.variance, { color: Colors.textMuted }]}>{formatVariance(line.variance)}</Text>
+                                            </View>
+                                        ))}
+                                    </>
+                                ) : null}
+                            </ScrollView>
+                        </>
+                    ) : null}
+                </Modal>
+            </Portal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2000}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    filterRow: {
+        flexDirection: 'row',
+        gap: 8,
+        paddingHorizontal: 20,
+        paddingBottom: 8,
+    },
+    campaignCard: {
+        gap: 8,
+    },
+    campaignHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    campaignTitle: {
+        fontSize: 15,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    meta: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    badge: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    badgeText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    progressTrack: {
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: Colors.border,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: Colors.primary,
+    },
+    cardActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 4,
+    },
+    sectionTitle: {
+        marginTop: 6,
+        fontSize: 15,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    rowTitle: {
+        flexShrink: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    variance: {
+        minWidth: 36,
+        textAlign: 'right',
+        fontSize: 15,
+        fontWeight: '800',
+    },
+    primaryBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    primaryBtnText: {
+        color: '#08362E',
+        fontWeight: '700',
+        fontSize: 12,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    chipActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    chipText: {
+        color: Colors.text,
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    suggestionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 6,
+    },
+    modal: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 14,
+        width: '100%',
+        maxWidth: 560,
+        alignSelf: 'center',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    modalTitle: {
+        flex: 1,
+        fontSize: 20,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    input: {
+        backgroundColor: Colors.surface,
+    },
+    modalActionRow: {
+        flexDirection: 'row',
+        gap: 10,
+        marginTop: 4,
+    },
+    modalCancelBtn: {
+        flex: 1,
+        borderRadius: 12,
+    },
+    modalSaveBtn: {
+        flex: 1,
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+});
@@ -0,0 +1,1178 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl, Pressable, ScrollView } from 'react-native';
+import { Text, Portal, Modal, TextInput, Button, Chip } from 'react-native-paper';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import { supabase } from '../../src/config/supabase';
+import {
+    InventoryPart,
+    PurchaseOrder,
+    PurchaseOrderLine,
+    CreatePurchaseOrderResult,
+    ReceivePurchaseOrderResult,
+    CancelPurchaseOrderResult,
+    Supplier,
+    Warehouse,
+} from '../../src/types';
+import { adminStyles } from '../../src/styles/adminStyles';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import { parseSerialInput, formatSerialIssues } from '../../src/utils/partSerials';
+import {
+    PURCHASE_ORDER_STATUS_META,
+    OPEN_PURCHASE_ORDER_STATUSES,
+    getOutstandingQty,
+    isPurchaseOrderOverdue,
+} from '../../src/utils/purchaseOrders';
+import { formatWarehouseName, getDefaultWarehouse } from '../../src/utils/warehouses';
+
+type OrderFilter = 'open' | 'all';
+type DraftLine = { partId: string; partName: string; quantity: string };
+type ReceiptDraft = { quantity: string; serials: string };
+type OrderPart = Pick<InventoryPart, 'id' | 'part_name' | 'is_serialized'>;
+
+const PURCHASE_ORDER_LIMIT = 100;
+const PART_SUGGESTION_LIMIT = 6;
+const EMPTY_ORDER_FORM = { supplier: '', supplierId: '', warehouseId: '', expectedDate: '', note: '' };
+const EMPTY_SUPPLIER_FORM = { id: '', name: '', contact_name: '', phone: '', email: '', lead_time_days: '7', note: '', is_active: true };
+
+const toDateInput = (date: Date) => {
+    const pad = (val: number) => String(val).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fetchPurchaseOrders = async (filter: OrderFilter): Promise<PurchaseOrder[]> => {
+    let query = supabase
+        .from('purchase_orders')
+        .select('*, lines:purchase_order_lines(*)')
+        .order('created_at', { ascending: false })
+        .limit(PURCHASE_ORDER_LIMIT);
+    if (filter === 'open') {
+        query = query.in('status', OPEN_PURCHASE_ORDER_STATUSES);
+    }
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as PurchaseOrder[];
+};
+
+const fetchOrderParts = async (): Promise<OrderPart[]> => {
+    const { data, error } = await supabase
+        .from('inventory')
+        .select('id, part_name, is_serialized')
+        .order('part_name');
+    if (error) throw error;
+    return (data || []) as OrderPart[];
+};
+
+const fetchSuppliers = async (): Promise<Supplier[]> => {
+    const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Supplier[];
+};
+
+const fetchWarehouses = async (): Promise<Warehouse[]> => {
+    const { data, error } = await supabase
+        .from('warehouses')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Warehouse[];
+};
+
+const sanitizeNumber = (value: string) => value.replace(/[^0-9]/g, '');
+
+export default function PurchasingPage() {
+    const [filter, setFilter] = useState<OrderFilter>('open');
+    const [refreshing, setRefreshing] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const [createOpen, setCreateOpen] = useState(false);
+    const [orderForm, setOrderForm] = useState(EMPTY_ORDER_FORM);
+    const [draftLines, setDraftLines] = useState<DraftLine[]>([]);
+    const [partSearch, setPartSearch] = useState('');
+    const [savingOrder, setSavingOrder] = useState(false);
+
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [receiptDrafts, setReceiptDrafts] = useState<Record<string, ReceiptDraft>>({});
+    const [receiptNote, setReceiptNote] = useState('');
+    const [savingReceipt, setSavingReceipt] = useState(false);
+
+    const [showSuppliers, setShowSuppliers] = useState(false);
+    const [supplierForm, setSupplierForm] = useState(EMPTY_SUPPLIER_FORM);
+    const [savingSupplier, setSavingSupplier] = useState(false);
+
+    const [cancellingOrder, setCancellingOrder] = useState<PurchaseOrder | null>(null);
+    const [cancelNote, setCancelNote] = useState('');
+    const [savingCancel, setSavingCancel] = useState(false);
+
+    const ordersQuery = useQuery({
+        queryKey: ['admin', 'purchase-orders', filter],
+        queryFn: () => fetchPurchaseOrders(filter),
+    });
+    const partsQuery = useQuery({
+        queryKey: ['admin', 'purchase-orders', 'parts'],
+        queryFn: fetchOrderParts,
+    });
+    const suppliersQuery = useQuery({
+        queryKey: ['admin', 'purchase-orders', 'suppliers'],
+        queryFn: fetchSuppliers,
+    });
+    const warehousesQuery = useQuery({
+        queryKey: ['admin', 'purchase-orders', 'warehouses'],
+        queryFn: fetchWarehouses,
+    });
+    const orders = ordersQuery.data || [];
+    const suppliers = suppliersQuery.data || [];
+    const warehouses = warehousesQuery.data || [];
+    const activeWarehouses = useMemo(() => warehouses.filter((warehouse) => warehouse.is_active), [warehouses]);
+    const warehouseById = useMemo(() => new Map(warehouses.map((warehouse) => [warehouse.id, warehouse])), [warehouses]);
+    const activeSuppliers = useMemo(() => suppliers.filter((supplier) => supplier.is_active), [suppliers]);
+    const parts = partsQuery.data || [];
+    const partById = useMemo(() => new Map(parts.map((part) => [part.id, part])), [parts]);
+
+    useSupabaseRealtimeRefresh(
+        ['purchase_orders', 'purchase_order_lines'],
+        () => {
+            void ordersQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['inventory'],
+        () => {
+            void partsQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['suppliers'],
+        () => {
+            void suppliersQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['warehouses'],
+        () => {
+            void warehousesQuery.refetch();
+        },
+    );
+
+    useEffect(() => {
+        const sourceError = ordersQuery.error || partsQuery.error || suppliersQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat purchase order.';
+        setError(message);
+    }, [ordersQuery.error, partsQuery.error, suppliersQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await Promise.all([ordersQuery.refetch(), partsQuery.refetch(), suppliersQuery.refetch(), warehousesQuery.refetch()]);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const partSuggestions = useMemo(() => {
+        const keyword = partSearch.trim().toLowerCase();
+        if (!keyword) return [];
+        const picked = new Set(draftLines.map((line) => line.partId));
+        return parts
+            .filter((part) => !picked.has(part.id))
+            .filter((part) => part.part_name.toLowerCase().includes(keyword) || part.id.toLowerCase().includes(keyword))
+            .slice(0, PART_SUGGESTION_LIMIT);
+    }, [parts, partSearch, draftLines]);
+
+    const openCreate = () => {
+        setOrderForm({ ...EMPTY_ORDER_FORM, warehouseId: getDefaultWarehouse(warehouses)?.id || '' });
+        setDraftLines([]);
+        setPartSearch('');
+        setCreateOpen(true);
+    };
+
+    const closeCreate = () => {
+        setCreateOpen(false);
+        setOrderForm(EMPTY_ORDER_FORM);
+        setDraftLines([]);
+        setPartSearch('');
+        setSavingOrder(false);
+    };
+
+    // Picking a supplier fills its name and, when still empty, the ETA from its lead time.
+    const pickOrderSupplier = (supplier: Supplier) => {
+        setOrderForm((prev) => (prev.supplierId === supplier.id
+            ? { ...prev, supplier: '', supplierId: '' }
+            : {
+                ...prev,
+                supplier: supplier.name,
+                supplierId: supplier.id,
+                expectedDate: prev.expectedDate || toDateInput(new Date(Date.now() + supplier.lead_time_days * 24 * 60 * 60 * 1000)),
+            }));
+    };
+
+    const addDraftLine = (part: OrderPart) => {
+        setDraftLines((prev) => [...prev, { partId: part.id, partName: part.part_name, quantity: '1' }]);
+        setPartSearch('');
+    };
+
+    const updateDraftQty = (partId: string, value: string) => {
+        setDraftLines((prev) => prev.map((line) => (
+            line.partId === partId ? { ...line, quantity: sanitizeNumber(value) } : line
+        )));
+    };
+
+    const removeDraftLine = (partId: string) => {
+        setDraftLines((prev) => prev.filter((line) => line.partId !== partId));
+    };
+
+    const saveOrder = async () => {
+        if (savingOrder) return;
+
+        const supplier = orderForm.supplier.trim();
+        if (!supplier) {
+            setError('Nama supplier wajib diisi.');
+            return;
+        }
+        const expectedDate = orderForm.expectedDate.trim();
+        if (expectedDate && (!/^\d{4}-\d{2}-\d{2}$/.test(expectedDate) || Number.isNaN(new Date(`${expectedDate}T00:00:00`).getTime()))) {
+            setError('Format tanggal harus YYYY-MM-DD.');
+            return;
+        }
+        const items = draftLines
+            .map((line) => ({ partId: line.partId, quantity: Number.parseInt(line.quantity, 10) || 0 }))
+            .filter((item) => item.quantity > 0);
+        if (items.length === 0) {
+            setError('Tambahkan minimal 1 part dengan qty lebih dari 0.');
+            return;
+        }
+
+        setSavingOrder(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('create_purchase_order', {
+                p_supplier_name: supplier,
+                p_expected_date: expectedDate || null,
+                p_items: items,
+                p_note: orderForm.note.trim() || null,
+                p_supplier_id: orderForm.supplierId || null,
+                p_warehouse_id: orderForm.warehouseId || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CreatePurchaseOrderResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'unknown_parts') {
+                    throw new Error(`Part tidak ditemukan di inventory: ${(result.part_ids || []).join(', ')}.`);
+                }
+                if (result?.code === 'supplier_required') {
+                    throw new Error('Nama supplier wajib diisi.');
+                }
+                if (result?.code === 'supplier_not_found') {
+                    await suppliersQuery.refetch();
+                    throw new Error('Supplier tidak ditemukan. Pilih ulang supplier.');
+                }
+                if (result?.code === 'warehouse_not_found') {
+                    await warehousesQuery.refetch();
+                    throw new Error('Gudang tujuan tidak ditemukan atau sudah nonaktif. Pilih ulang gudang.');
+                }
+                throw new Error('Tambahkan minimal 1 part dengan qty lebih dari 0.');
+            }
+
+            closeCreate();
+            setSuccess(`Purchase order ${result.po_number} dibuat.`);
+            await ordersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membuat purchase order.';
+            setError(message);
+        } finally {
+            setSavingOrder(false);
+        }
+    };
+
+    const openReceive = (order: PurchaseOrder) => {
+        const drafts: Record<string, ReceiptDraft> = {};
+        for (const line of order.lines || []) {
+            const outstanding = getOutstandingQty(line);
+            if (outstanding <= 0) continue;
+            drafts[line.part_id] = { quantity: String(outstanding), serials: '' };
+        }
+        setReceivingOrder(order);
+        setReceiptDrafts(drafts);
+        setReceiptNote('');
+    };
+
+    const closeReceive = () => {
+        setReceivingOrder(null);
+        setReceiptDrafts({});
+        setReceiptNote('');
+        setSavingReceipt(false);
+    };
+
+    const updateReceiptDraft = (partId: string, patch: Partial<ReceiptDraft>) => {
+        setReceiptDrafts((prev) => ({ ...prev, [partId]: { ...prev[partId], ...patch } }));
+    };
+
+    // Serialized parts are counted from the serials entered, one per unit.
+    const getReceiptQty = (line: PurchaseOrderLine) => {
+        const draft = receiptDrafts[line.part_id];
+        if (!draft) return 0;
+        if (partById.get(line.part_id)?.is_serialized) return parseSerialInput(draft.serials).length;
+        return Number.parseInt(draft.quantity, 10) || 0;
+    };
+
+    const saveReceipt = async () => {
+        if (!receivingOrder || savingReceipt) return;
+
+        const lines = (receivingOrder.lines || []).filter((line) => getOutstandingQty(line) > 0);
+        const items = lines
+            .map((line) => ({ partId: line.part_id, quantity: getReceiptQty(line) }))
+            .filter((item) => item.quantity > 0);
+        if (items.length === 0) {
+            setError('Isi qty barang yang diterima.');
+            return;
+        }
+        const overLine = lines.find((line) => getReceiptQty(line) > getOutstandingQty(line));
+        if (overLine) {
+            setError(`${overLine.part_name || overLine.part_id} melebihi sisa PO (${getOutstandingQty(overLine)} pcs).`);
+            return;
+        }
+        const serials = lines
+            .filter((line) => partById.get(line.part_id)?.is_serialized)
+            .map((line) => ({ partId: line.part_id, serials: parseSerialInput(receiptDrafts[line.part_id]?.serials || '') }))
+            .filter((entry) => entry.serials.length > 0);
+
+        setSavingReceipt(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('receive_purchase_order', {
+                p_purchase_order_id: receivingOrder.id,
+                p_items: items,
+                p_note: receiptNote.trim() || null,
+                p_serials: serials.length > 0 ? serials : null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReceivePurchaseOrderResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'quantity_exceeded') {
+                    const detail = (result.lines || [])
+                        .map((row) => `${row.partName} (sisa ${row.outstanding} pcs)`)
+                        .join(', ');
+                    throw new Error(`Qty melebihi sisa PO: ${detail}`);
+                }
+                if (result?.code === 'serials_required') {
+                    throw new Error(`Jumlah serial harus sama dengan qty diterima: ${formatSerialIssues(result.serial_issues)}.`);
+                }
+                if (result?.code === 'duplicate_serials') {
+                    throw new Error(`Serial sudah terdaftar: ${(result.serials || []).join(', ')}.`);
+                }
+                if (result?.code === 'empty_items') {
+                    throw new Error('Isi qty barang yang diterima.');
+                }
+                await ordersQuery.refetch();
+                throw new Error('Purchase order tidak ditemukan atau sudah ditutup.');
+            }
+
+            const totalQty = (result.items || []).reduce((sum, item) => sum + item.quantity, 0);
+            closeReceive();
+            setSuccess(result.status === 'received'
+                ? `Barang diterima (${totalQty} pcs). PO ${receivingOrder.po_number} selesai.`
+                : `Barang diterima sebagian (${totalQty} pcs). Sisa PO tetap terbuka.`);
+            await ordersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menerima barang.';
+            setError(message);
+        } finally {
+            setSavingReceipt(false);
+        }
+    };
+
+    const closeSuppliers = () => {
+        setShowSuppliers(false);
+        setSupplierForm(EMPTY_SUPPLIER_FORM);
+        setSavingSupplier(false);
+    };
+
+    const editSupplier = (supplier: Supplier) => {
+        setSupplierForm({
+            id: supplier.id,
+            name: supplier.name,
+            contact_name: supplier.contact_name || '',
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            lead_time_days: String(supplier.lead_time_days),
+            note: supplier.note || '',
+            is_active: supplier.is_active,
+        });
+    };
+
+    const saveSupplier = async () => {
+        if (savingSupplier) return;
+
+        const name = supplierForm.name.trim();
+        if (!name) {
+            setError('Nama supplier wajib diisi.');
+            return;
+        }
+        const leadTimeDays = Number.parseInt(supplierForm.lead_time_days, 10);
+        if (Number.isNaN(leadTimeDays)) {
+            setError('Lead time wajib diisi (hari).');
+            return;
+        }
+
+        const payload = {
+            name,
+            contact_name: supplierForm.contact_name.trim() || null,
+            phone: supplierForm.phone.trim() || null,
+            email: supplierForm.email.trim() || null,
+            lead_time_days: leadTimeDays,
+            note: supplierForm.note.trim() || null,
+            is_active: supplierForm.is_active,
+        };
+
+        setSavingSupplier(true);
+        try {
+            const { error: saveError } = supplierForm.id
+                ? await supabase.from('suppliers').update(payload).eq('id', supplierForm.id)
+                : await supabase.from('suppliers').insert(payload);
+
+            if (saveError) {
+                if (saveError.code === '23505') {
+                    throw new Error('Nama supplier sudah terdaftar.');
+                }
+                throw saveError;
+            }
+
+            setSupplierForm(EMPTY_SUPPLIER_FORM);
+            setSuccess(`Supplier ${name} disimpan.`);
+            await suppliersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan supplier.';
+            setError(message);
+        } finally {
+            setSavingSupplier(false);
+        }
+    };
+
+    const closeCancel = () => {
+        setCancellingOrder(null);
+        setCancelNote('');
+        setSavingCancel(false);
+    };
+
+    const confirmCancel = async () => {
+        if (!cancellingOrder || savingCancel) return;
+        setSavingCancel(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('cancel_purchase_order', {
+                p_purchase_order_id: cancellingOrder.id,
+                p_note: cancelNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CancelPurchaseOrderResult | null;
+            if (!result?.ok) {
+                await ordersQuery.refetch();
+                throw new Error('Purchase order tidak ditemukan atau sudah ditutup.');
+            }
+
+            closeCancel();
+            setSuccess(`Purchase order ${cancellingOrder.po_number} dibatalkan.`);
+            await ordersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membatalkan purchase order.';
+            setError(message);
+        } finally {
+            setSavingCancel(false);
+        }
+    };
+
+    const renderOrder = ({ item: order }: { item: PurchaseOrder }) => {
+        const meta = PURCHASE_ORDER_STATUS_META[order.status];
+        const isOpen = OPEN_PURCHASE_ORDER_STATUSES.includes(order.status);
+        const overdue = isPurchaseOrderOverdue(order.expected_date, order.status);
+
+        return (
+            <View style={[adminStyles.card, styles.orderCard]}>
+                <View style={styles.orderHeader}>
+                    <View style={[adminStyles.iconBox, { backgroundColor: meta.color + '15' }]}>
+                        <MaterialCommunityIcons name="file-document-outline" size={18} color={meta.color} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                        <Text style={styles.orderNumber}>{order.po_number}</Text>
+                        <Text style={styles.orderMeta}>{order.supplier_name}</Text>
+                        {order.warehouse_id && warehouses.length > 1 ? (
+                            <Text style={styles.orderMeta}>Gudang: {formatWarehouseName(warehouseById.get(order.warehouse_id))}</Text>
+                        ) : null}
+                    </View>
+                    <View style={[styles.statusBadge, { borderColor: meta.color + '55', backgroundColor: meta.color + '15' }]}>
+                        <Text style={[styles.statusText, { color: meta.color }]}>{meta.label}</Text>
+                    </View>
+                </View>
+
+                <Text style={[styles.orderMeta, overdue && { color: Colors.danger, fontWeight: '700' }]}>
+                    ETA: {order.expected_date || '-'}{overdue ? ' (terlambat)' : ''} | Dibuat {new Date(order.created_at).toLocaleDateString('id-ID')}
+                    {order.created_by_name ? ` oleh ${order.created_by_name}` : ''}
+                </Text>
+                {order.note ? <Text style={styles.orderMeta}>{order.note}</Text> : null}
+
+                <View style={styles.lineList}>
+                    {(order.lines || []).map((line) => (
+                        <View key={line.id} style={styles.lineRow}>
+                            <Text style={styles.lineName}>{line.part_name || line.part_id}</Text>
+                            <Text style={[styles.lineQty, line.quantity_received >= line.quantity_ordered && { color: Colors.success }]}>
+                                {line.quantity_received}/{line.quantity_ordered} pcs
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+
+                {isOpen ? (
+                    <View style={styles.orderActions}>
+                        <Button
+                            mode="text"
+                            onPress={() => setCancellingOrder(order)}
+                            textColor={Colors.danger}
+                            compact
+                        >
+                            Batalkan
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={() => openReceive(order)}
+                            icon="tray-arrow-down"
+                            style={styles.receiveBtn}
+                            labelStyle={styles.receiveBtnText}
+                            compact
+                        >
+                            Terima Barang
+                        </Button>
+                    </View>
+                ) : null}
+            </View>
+        );
+    };
+
+    const receivingLines = (receivingOrder?.lines || []).filter((line) => getOutstandingQty(line) > 0);
+
+    return (
+        <View style={adminStyles.container}>
+            <View style={adminStyles.header}>
+                <View style={{ flex: 1 }}>
+                    <Text style={adminStyles.headerTitle}>Purchase Orders</Text>
+                    <Text style={adminStyles.headerSub}>Pesanan ke supplier dan penerimaan barang gudang</Text>
+                </View>
+                <Button
+                    mode="text"
+                    onPress={() => setShowSuppliers(true)}
+                    icon="truck-outline"
+                    textColor={Colors.primary}
+                    compact
+                >
+                    Supplier
+                </Button>
+                <Button
+                    mode="contained"
+                    onPress={openCreate}
+                    icon="plus"
+                    style={styles.receiveBtn}
+                    labelStyle={styles.receiveBtnText}
+                    compact
+                >
+                    Buat PO
+                </Button>
+            </View>
+
+            <View style={styles.filterRow}>
+                {(['open', 'all'] as OrderFilter[]).map((value) => (
+                    <Chip
+                        key={value}
+                        compact
+                        mode={filter === value ? 'flat' : 'outlined'}
+                        selected={filter === value}
+                        onPress={() => setFilter(value)}
+                        style={[styles.filterChip, filter === value && styles.filterChipActive]}
+                        textStyle={styles.filterChipText}
+                    >
+                        {value === 'open' ? 'Terbuka' : 'Semua'}
+                    </Chip>
+                ))}
+            </View>
+
+            <FlatList
+                data={orders}
+                keyExtractor={(order) => order.id}
+                renderItem={renderOrder}
+                contentContainerStyle={[adminStyles.scrollContent, { gap: 12 }]}
+                indicatorStyle="black"
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+                ListEmptyComponent={
+                    <View style={adminStyles.emptyState}>
+                        <MaterialCommunityIcons name="file-document-outline" size={48} color={Colors.textMuted} />
+                        <Text style={adminStyles.emptyText}>
+                            {ordersQuery.isLoading ? 'Memuat purchase order...' : 'Belum ada purchase order.'}
+                        </Text>
+                    </View>
+                }
+            />
+
+            <Portal>
+                <Modal
+                    visible={createOpen}
+                    onDismiss={closeCreate}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Buat Purchase Order</Text>
+                        <Pressable onPress={closeCreate}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+
+                    <ScrollView contentContainerStyle={{ gap: 12 }} keyboardShouldPersistTaps="handled">
+                        {activeSuppliers.length > 0 ? (
+                            <View style={styles.supplierChipRow}>
+                                {activeSuppliers.map((supplier) => {
+                                    const selected = orderForm.supplierId === supplier.id;
+                                    return (
+                                        <Chip
+                                            key={supplier.id}
+                                            compact
+                                            mode={selected ? 'flat' : 'outlined'}
+                                            selected={selected}
+                                            onPress={() => pickOrderSupplier(supplier)}
+                                            style={[styles.filterChip, selected && styles.filterChipActive]}
+                                            textStyle={styles.filterChipText}
+                                        >
+                                            {supplier.name}
+                                        </Chip>
+                                    );
+                                })}
+                            </View>
+                        ) : null}
+                        <TextInput
+                            label="Supplier"
+                            value={orderForm.supplier}
+                            onChangeText={(value) => setOrderForm((prev) => ({ ...prev, supplier: value, supplierId: '' }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+                        {activeWarehouses.length > 1 ? (
+                            <View style={styles.supplierChipRow}>
+                                {activeWarehouses.map((warehouse) => {
+                                    const selected = orderForm.warehouseId === warehouse.id;
+                                    return (
+                                        <Chip
+                                            key={warehouse.id}
+                                            compact
+                                            icon="warehouse"
+                                            mode={selected ? 'flat' : 'outlined'}
+                                            selected={selected}
+                                            onPress={() => setOrderForm((prev) => ({ ...prev, warehouseId: warehouse.id }))}
+                                            style={[styles.filterChip, selected && styles.filterChipActive]}
+                                            textStyle={styles.filterChipText}
+                                        >
+                                            {warehouse.name}
+                                        </Chip>
+                                    );
+                                })}
+                            </View>
+                        ) : null}
+                        <TextInput
+                            label="Perkiraan tiba (YYYY-MM-DD)"
+                            value={orderForm.expectedDate}
+                            onChangeText={(value) => setOrderForm((prev) => ({ ...prev, expectedDate: value }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+                        <TextInput
+                            label="Catatan (opsional)"
+                            value={orderForm.note}
+                            onChangeText={(value) => setOrderForm((prev) => ({ ...prev, note: value }))}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+
+                        <TextInput
+                            label="Cari part untuk ditambahkan"
+                            value={partSearch}
+                            onChangeText={setPartSearch}
+                            mode="outlined"
+                            dense
+                            style={styles.input}
+                        />
+                        {partSuggestions.map((part) => (
+                            <Pressable key={part.id} style={styles.suggestionRow} onPress={() => addDraftLine(part)}>
+                                <MaterialCommunityIcons name="plus-circle-outline" size={18} color={Colors.primary} />
+                                <Text style={styles.lineName}>{part.part_name}</Text>
+                                <Text style={styles.orderMeta}>{part.id}</Text>
+                            </Pressable>
+                        ))}
+
+                        {draftLines.length === 0 ? (
+                            <Text style={styles.orderMeta}>Belum ada part di PO ini.</Text>
+                        ) : draftLines.map((line) => (
+                            <View key={line.partId} style={styles.draftLineRow}>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.lineName}>{line.partName}</Text>
+                                    <Text style={styles.orderMeta}>{line.partId}</Text>
+                                </View>
+                                <TextInput
+                                    label="Qty"
+                                    value={line.quantity}
+                                    onChangeText={(value) => updateDraftQty(line.partId, value)}
+                                    keyboardType="number-pad"
+                                    mode="outlined"
+                                    dense
+                                    style={[styles.input, styles.qtyInput]}
+                                />
+                                <Pressable onPress={() => removeDraftLine(line.partId)} hitSlop={6}>
+                                    <MaterialCommunityIcons name="close" size={18} color={Colors.danger} />
+                                </Pressable>
+                            </View>
+                        ))}
+                    </ScrollView>
+
+                    <View style={styles.modalActionRow}>
+                        <Button mode="outlined" onPress={closeCreate} style={styles.modalCancelBtn}>
+                            Batal
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={saveOrder}
+                            style={styles.modalSaveBtn}
+                            loading={savingOrder}
+                            disabled={savingOrder}
+                        >
+                            Simpan PO
+                        </Button>
+                    </View>
+                </Modal>
+
+                <Modal
+                    visible={!!receivingOrder}
+                    onDismiss={closeReceive}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    {receivingOrder ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Terima Barang</Text>
+                                <Pressable onPress={closeReceive}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                            <Text style={styles.orderMeta}>
+                                {receivingOrder.po_number} | {receivingOrder.supplier_name}
+                            </Text>
+
+                            <ScrollView contentContainerStyle={{ gap: 12 }} keyboardShouldPersistTaps="handled">
+                                {receivingLines.map((line) => {
+                                    const outstanding = getOutstandingQty(line);
+                                    const draft = receiptDrafts[line.part_id] || { quantity: '', serials: '' };
+                                    const serialized = !!partById.get(line.part_id)?.is_serialized;
+                                    return (
+                                        <View key={line.id} style={styles.receiptLine}>
+                                            <Text style={styles.lineName}>{line.part_name || line.part_id}</Text>
+                                            <Text style={styles.orderMeta}>
+                                                Sisa {outstanding} dari {line.quantity_ordered} pcs
+                                            </Text>
+                                            {serialized ? (
+                                                <>
+                                                    <TextInput
+                                                        label="Serial Number (satu per baris)"
+                                                        value={draft.serials}
+                                                        onChangeText={(value) => updateReceiptDraft(line.part_id, { serials: value })}
+                                                        mode="outlined"
+                                                        multiline
+                                                        numberOfLines={4}
+                                                        autoCapitalize="characters"
+                                                        style={styles.input}
+                                                    />
+                                                    <Text style={styles.orderMeta}>Diterima: {getReceiptQty(line)} pcs</Text>
+                                                </>
+                                            ) : (
+                                                <TextInput
+                                                    label="Qty diterima"
+                                                    value={draft.quantity}
+                                                    onChangeText={(value) => updateReceiptDraft(line.part_id, { quantity: sanitizeNumber(value) })}
+                                                    keyboardType="number-pad"
+                                                    mode="outlined"
+                                                    dense
+                                                    style={styles.input}
+                                                />
+                                            )}
+                                        </View>
+                                    );
+                                })}
+
+                                <TextInput
+                                    label="Catatan (mis. no. surat jalan)"
+                                    value={receiptNote}
+                                    onChangeText={setReceiptNote}
+                                    mode="outlined"
+                                    style={styles.input}
+                                />
+                            </ScrollView>
+
+                            <View style={styles.modalActionRow}>
+                                <Button mode="outlined" onPress={closeReceive} style={styles.modalCancelBtn}>
+                                    Batal
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={saveReceipt}
+                                    style={styles.modalSaveBtn}
+                                    loading={savingReceipt}
+                                    disabled={savingReceipt}
+                                >
+                                    Terima
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+
+                <Modal
+                    visible={showSuppliers}
+                    onDismiss={closeSuppliers}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Supplier</Text>
+                        <Pressable onPress={closeSuppliers}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+                    <Text style={styles.orderMeta}>
+                        Lead time dipakai untuk ETA PO dan reorder point. Part dihubungkan ke supplier dari menu Inventory.
+                    </Text>
+
+                    <ScrollView style={styles.supplierList} contentContainerStyle={{ gap: 8 }}>
+                        {suppliers.length === 0 ? (
+                            <Text style={styles.orderMeta}>Belum ada supplier.</Text>
+                        ) : suppliers.map((supplier) => (
+                            <View key={supplier.id} style={[styles.receiptLine, styles.supplierRow, supplierForm.id === supplier.id && styles.supplierRowActive]}>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={[styles.lineName, !supplier.is_active && { color: Colors.textMuted }]}>
+                                        {supplier.name}{supplier.is_active ? '' : ' (nonaktif)'}
+                                    </Text>
+                                    <Text style={styles.orderMeta}>
+                                        Lead time {supplier.lead_time_days} hari
+                                        {supplier.contact_name ? ` | ${supplier.contact_name}` : ''}
+                                        {supplier.phone ? ` | ${supplier.phone}` : ''}
+                                    </Text>
+                                </View>
+                                <Pressable onPress={() => editSupplier(supplier)} hitSlop={8}>
+                                    <MaterialCommunityIcons name="pencil-outline" size={18} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                        ))}
+                    </ScrollView>
+
+                    <Text style={styles.orderMeta}>{supplierForm.id ? 'Ubah supplier' : 'Tambah supplier'}</Text>
+                    <TextInput
+                        label="Nama supplier"
+                        value={supplierForm.name}
+                        onChangeText={(value) => setSupplierForm((prev) => ({ ...prev, name: value }))}
+                        mode="outlined"
+                        dense
+                        style={styles.input}
+                    />
+                    <View style={styles.draftLineRow}>
+                        <TextInput
+                            label="Kontak"
+                            value={supplierForm.contact_name}
+                            onChangeText={(value) => setSupplierForm((prev) => ({ ...prev, contact_name: value }))}
+                            mode="outlined"
+                            dense
+                            style={[styles.input, { flex: 1 }]}
+                        />
+                        <TextInput
+                            label="Telepon"
+                            value={supplierForm.phone}
+                            onChangeText={(value) => setSupplierForm((prev) => ({ ...prev, phone: value }))}
+                            keyboardType="phone-pad"
+                            mode="outlined"
+                            dense
+                            style={[styles.input, { flex: 1 }]}
+                        />
+                    </View>
+                    <View style={styles.draftLineRow}>
+                        <TextInput
+                            label="Email"
+                            value={supplierForm.email}
+                            onChangeText={(value) => setSupplierForm((prev) => ({ ...prev, email: value }))}
+                            keyboardType="email-address"
+                            autoCapitalize="none"
+                            mode="outlined"
+                            dense
+                            style={[styles.input, { flex: 1 }]}
+                        />
+                        <TextInput
+                            label="Lead time (hari)"
+                            value={supplierForm.lead_time_days}
+                            onChangeText={(value) => setSupplierForm((prev) => ({ ...prev, lead_time_days: sanitizeNumber(value) }))}
+                            keyboardType="number-pad"
+                            mode="outlined"
+                            dense
+                            style={[styles.input, styles.qtyInput]}
+                        />
+                    </View>
+                    <View style={styles.supplierChipRow}>
+                        <Chip
+                            compact
+                            mode={supplierForm.is_active ? 'flat' : 'outlined'}
+                            selected={supplierForm.is_active}
+                            onPress={() => setSupplierForm((prev) => ({ ...prev, is_active: !prev.is_active }))}
+                            style={[styles.filterChip, supplierForm.is_active && styles.filterChipActive]}
+                            textStyle={styles.filterChipText}
+                        >
+                            Aktif
+                        </Chip>
+                    </View>
+
+                    <View style={styles.modalActionRow}>
+                        <Button
+                            mode="outlined"
+                            onPress={() => (supplierForm.id ? setSupplierForm(EMPTY_SUPPLIER_FORM) : closeSuppliers())}
+                            style={styles.modalCancelBtn}
+                        >
+                            {supplierForm.id ? 'Batal Ubah' : 'Tutup'}
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={saveSupplier}
+                            style={styles.modalSaveBtn}
+                            loading={savingSupplier}
+                            disabled={savingSupplier}
+                        >
+                            Simpan
+                        </Button>
+                    </View>
+                </Modal>
+
+                <Modal
+                    visible={!!cancellingOrder}
+                    onDismiss={closeCancel}
+                    contentContainerStyle={styles.modal}
+                >
+                    {cancellingOrder ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>Batalkan PO</Text>
+                                <Pressable onPress={closeCancel}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                            <Text style={styles.orderMeta}>
+                                Sisa barang di {cancellingOrder.po_number} tidak lagi dihitung on order. Barang yang sudah diterima tetap di stok.
+                            </Text>
+                            <TextInput
+                                label="Alasan (opsional)"
+                                value={cancelNote}
+                                onChangeText={setCancelNote}
+                                mode="outlined"
+                                style={styles.input}
+                            />
+                            <View style={styles.modalActionRow}>
+                                <Button mode="outlined" onPress={closeCancel} style={styles.modalCancelBtn}>
+                                    Kembali
+                                </Button>
+                                <Button
+                                    mode="contained"
+                                    onPress={confirmCancel}
+                                    style={[styles.modalSaveBtn, { backgroundColor: Colors.danger }]}
+                                    loading={savingCancel}
+                                    disabled={savingCancel}
+                                >
+                                    Batalkan PO
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+            </Portal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2000}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    filterRow: {
+        flexDirection: 'row',
+        gap: 8,
+        paddingHorizontal: 20,
+        marginBottom: 12,
+    },
+    filterChip: {
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    filterChipActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    filterChipText: {
+        color: Colors.text,
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    orderCard: {
+        gap: 8,
+    },
+    orderHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    orderNumber: {
+        fontSize: 15,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    orderMeta: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    statusBadge: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    statusText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    lineList: {
+        gap: 4,
+        paddingTop: 6,
+        borderTopWidth: 1,
+        borderTopColor: Colors.border,
+    },
+    lineRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 8,
+    },
+    lineName: {
+        flexShrink: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    lineQty: {
+        fontSize: 12,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    orderActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+        gap: 8,
+    },
+    receiveBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    receiveBtnText: {
+        color: '#08362E',
+        fontWeight: '700',
+        fontSize: 12,
+    },
+    modal: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 14,
+        width: '100%',
+        maxWidth: 520,
+        alignSelf: 'center',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    input: {
+        backgroundColor: Colors.surface,
+    },
+    qtyInput: {
+        width: 90,
+    },
+    suggestionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 6,
+    },
+    draftLineRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    supplierChipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    supplierList: {
+        maxHeight: 260,
+    },
+    supplierRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    supplierRowActive: {
+        borderColor: Colors.primary,
+    },
+    receiptLine: {
+        gap: 6,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    modalActionRow: {
+        flexDirection: 'row',
+        gap: 10,
+        marginTop: 4,
+    },
+    modalCancelBtn: {
+        flex: 1,
+        borderRadius: 12,
+    },
+    modalSaveBtn: {
+        flex: 1,
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+});
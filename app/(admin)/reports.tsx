@@ -1,26 +1,44 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl, Pressable, useWindowDimensions, Platform, UIManager, Modal, Share, FlatList, Alert } from 'react-native';
-import { Text, Chip, Searchbar, Button, SegmentedButtons } from 'react-native-paper';
+import { Text, Chip, Searchbar, Button, SegmentedButtons, TextInput } from 'react-native-paper';
 import { useQuery } from '@tanstack/react-query';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import AppSnackbar from '../../src/components/AppSnackbar';
+import RequestStatusTimeline from '../../src/components/RequestStatusTimeline';
 import { supabase } from '../../src/config/supabase';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
-import { Profile, EngineerStock, InventoryPart } from '../../src/types';
+import {
+    Profile,
+    EngineerStock,
+    InventoryPart,
+    StockTransfer,
+    StockTransferStatus,
+    DefectivePart,
+    DefectivePartStatus,
+    UpdateDefectivePartStatusResult,
+    StockCorrectionRequest,
+    StockCorrectionSettings,
+    ReviewStockCorrectionResult,
+} from '../../src/types';
 import { adminStyles } from '../../src/styles/adminStyles';
 import { normalizeArea } from '../../src/utils/normalizeArea';
 import { useDebounce } from '../../src/hooks/useDebounce';
+import { NotificationService } from '../../src/services/NotificationService';
+import { DEFECT_STATUS_META, DEFECT_CLOSED_STATUSES, getAdminDefectTransitions } from '../../src/utils/defectiveParts';
+import { formatExceededThresholds } from '../../src/utils/stockCorrections';
 
 const isAndroidFabric = Platform.OS === 'android' && !!(globalThis as any)?.nativeFabricUIManager;
 if (Platform.OS === 'android' && !isAndroidFabric && UIManager.setLayoutAnimationEnabledExperimental) {
     UIManager.setLayoutAnimationEnabledExperimental(true);
 }
 
-type Tab = 'monitor' | 'pengiriman' | 'koreksi';
+type Tab = 'monitor' | 'pengiriman' | 'koreksi' | 'transfer' | 'rma';
+type RmaFilter = 'open' | 'closed';
 type MonitorWindow = '24h' | '7d' | '14d';
 type AlertSeverity = 'critical' | 'warning' | 'info';
 type EngineerAlertFilter = 'all' | 'empty' | 'low';
+type CorrectionDecision = 'approve' | 'reject';
 
 type MonitorRequestRow = {
     id: string;
@@ -53,6 +71,13 @@ type RiskPartRow = {
     daysToStockout: number;
 };
 
+const TRANSFER_STATUS_META: Record<StockTransferStatus, { label: string; color: string }> = {
+    pending: { label: 'Menunggu', color: Colors.accent },
+    accepted: { label: 'Diterima', color: Colors.success },
+    rejected: { label: 'Ditolak', color: Colors.danger },
+    cancelled: { label: 'Dibatalkan', color: Colors.textMuted },
+};
+
 const MONITOR_WINDOW_OPTIONS: { value: MonitorWindow; label: string }[] = [
     { value: '24h', label: '24 jam' },
     { value: '7d', label: '7 hari' },
@@ -239,7 +264,7 @@ const fetchReportsData = async (): Promise<ReportsData> => {
         supabase.from('inventory').select('id, part_name, total_stock, min_stock'),
         supabase
             .from('monthly_requests')
-            .select('id, submitted_at, delivered_at, confirmed_at, items, engineer:profiles!monthly_requests_engineer_id_fkey(name, employee_id, location)')
+            .select('id, submitted_at, delivered_at, confirmed_at, items, delivered_items, engineer:profiles!monthly_requests_engineer_id_fkey(name, employee_id, location)')
             .in('status', ['delivered', 'completed'])
             .order('delivered_at', { ascending: false })
             .limit(50),
@@ -294,6 +319,49 @@ const fetchReportsData = async (): Promise<ReportsData> => {
     };
 };
 
+const fetchStockTransfers = async (): Promise<StockTransfer[]> => {
+    const { data, error } = await supabase
+        .from('stock_transfers')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+    if (error) throw error;
+    return (data || []) as StockTransfer[];
+};
+
+const fetchDefectiveParts = async (): Promise<DefectivePart[]> => {
+    const { data, error } = await supabase
+        .from('defective_parts')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+    if (error) throw error;
+    return (data || []) as DefectivePart[];
+};
+
+const fetchPendingCorrections = async (): Promise<StockCorrectionRequest[]> => {
+    const { data, error } = await supabase
+        .from('stock_correction_requests')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as StockCorrectionRequest[];
+};
+
+const fetchCorrectionSettings = async (): Promise<StockCorrectionSettings | null> => {
+    const { data, error } = await supabase
+        .from('stock_correction_settings')
+        .select('*')
+        .maybeSingle();
+    if (error) throw error;
+    return (data || null) as StockCorrectionSettings | null;
+};
+
+const EMPTY_THRESHOLD_FORM = { max_delta: '', max_percent: '', max_value: '' };
+
+const formatRupiah = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
 /* ─── Custom Dropdown ─── */
 function Dropdown({ label, icon, value, options, onChange }: {
     label: string; icon: string; value: string; options: string[];
@@ -390,6 +458,7 @@ export default function ReportsPage() {
     const [monitorWindow, setMonitorWindow] = useState<MonitorWindow>('7d');
     const [refreshing, setRefreshing] = useState(false);
     const [search, setSearch] = useState('');
+    const [historyRequestId, setHistoryRequestId] = useState<string | null>(null);
     const debouncedSearch = useDebounce(search, 300);
     const [filterArea, setFilterArea] = useState('Semua Area');
     const [engineerAlertFilter, setEngineerAlertFilter] = useState<EngineerAlertFilter>('all');
@@ -401,6 +470,47 @@ export default function ReportsPage() {
         queryKey: ['admin', 'reports'],
         queryFn: fetchReportsData,
     });
+    const transfersQuery = useQuery({
+        queryKey: ['admin', 'reports', 'transfers'],
+        queryFn: fetchStockTransfers,
+        enabled: tab === 'transfer',
+    });
+    const transfers = transfersQuery.data || [];
+    const [rmaFilter, setRmaFilter] = useState<RmaFilter>('open');
+    const [rmaAction, setRmaAction] = useState<{ defect: DefectivePart; status: DefectivePartStatus } | null>(null);
+    const [rmaNote, setRmaNote] = useState('');
+    const [savingRma, setSavingRma] = useState(false);
+    const defectsQuery = useQuery({
+        queryKey: ['admin', 'reports', 'defective-parts'],
+        queryFn: fetchDefectiveParts,
+        enabled: tab === 'rma',
+    });
+    const visibleDefects = useMemo(
+        () => (defectsQuery.data || []).filter((defect) => (
+            rmaFilter === 'closed'
+                ? DEFECT_CLOSED_STATUSES.includes(defect.status)
+                : !DEFECT_CLOSED_STATUSES.includes(defect.status)
+        )),
+        [defectsQuery.data, rmaFilter]
+    );
+    const [correctionAction, setCorrectionAction] = useState<{ correction: StockCorrectionRequest; decision: CorrectionDecision } | null>(null);
+    const [correctionNote, setCorrectionNote] = useState('');
+    const [savingCorrection, setSavingCorrection] = useState(false);
+    const [thresholdFormOpen, setThresholdFormOpen] = useState(false);
+    const [thresholdForm, setThresholdForm] = useState(EMPTY_THRESHOLD_FORM);
+    const [savingThresholds, setSavingThresholds] = useState(false);
+    const correctionsQuery = useQuery({
+        queryKey: ['admin', 'reports', 'stock-corrections'],
+        queryFn: fetchPendingCorrections,
+        enabled: tab === 'koreksi',
+    });
+    const pendingCorrections = correctionsQuery.data || [];
+    const correctionSettingsQuery = useQuery({
+        queryKey: ['admin', 'reports', 'stock-correction-settings'],
+        queryFn: fetchCorrectionSettings,
+        enabled: tab === 'koreksi',
+    });
+    const correctionSettings = correctionSettingsQuery.data || null;
     const lastUpdatedAt = reportsQuery.data?.fetchedAt || null;
     const profiles = reportsQuery.data?.profiles || [];
     const engineerStocks = reportsQuery.data?.engineerStocks || [];
@@ -413,10 +523,12 @@ export default function ReportsPage() {
     const isWide = width >= 768;
 
     useEffect(() => {
-        if (!reportsQuery.error) return;
-        const message = reportsQuery.error instanceof Error ? reportsQuery.error.message : 'Gagal memuat data reports.';
+        const sourceError = reportsQuery.error || transfersQuery.error || defectsQuery.error
+            || correctionsQuery.error || correctionSettingsQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data reports.';
         setError(message);
-    }, [reportsQuery.error]);
+    }, [reportsQuery.error, transfersQuery.error, defectsQuery.error, correctionsQuery.error, correctionSettingsQuery.error]);
 
     useSupabaseRealtimeRefresh(
         ['profiles', 'engineer_stock', 'inventory', 'stock_adjustments', 'monthly_requests', 'usage_reports'],
@@ -424,11 +536,39 @@ export default function ReportsPage() {
             void reportsQuery.refetch();
         },
     );
+    useSupabaseRealtimeRefresh(
+        ['stock_transfers'],
+        () => {
+            void transfersQuery.refetch();
+        },
+        { enabled: tab === 'transfer' },
+    );
+    useSupabaseRealtimeRefresh(
+        ['defective_parts'],
+        () => {
+            void defectsQuery.refetch();
+        },
+        { enabled: tab === 'rma' },
+    );
+    useSupabaseRealtimeRefresh(
+        ['stock_correction_requests', 'stock_correction_settings'],
+        () => {
+            void correctionsQuery.refetch();
+            void correctionSettingsQuery.refetch();
+        },
+        { enabled: tab === 'koreksi' },
+    );
 
     const onRefresh = async () => {
         setRefreshing(true);
         try {
-            await reportsQuery.refetch();
+            await Promise.all([
+                reportsQuery.refetch(),
+                tab === 'transfer' ? transfersQuery.refetch() : null,
+                tab === 'rma' ? defectsQuery.refetch() : null,
+                tab === 'koreksi' ? correctionsQuery.refetch() : null,
+                tab === 'koreksi' ? correctionSettingsQuery.refetch() : null,
+            ]);
         } finally {
             setRefreshing(false);
         }
@@ -505,6 +645,167 @@ export default function ReportsPage() {
         );
     }, [deleteEngineerAccount]);
 
+    const closeRmaAction = () => {
+        setRmaAction(null);
+        setRmaNote('');
+    };
+
+    const submitRmaAction = async () => {
+        if (!rmaAction || savingRma) return;
+        const { defect, status } = rmaAction;
+
+        setSavingRma(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('update_defective_part_status', {
+                p_defect_id: defect.id,
+                p_status: status,
+                p_note: rmaNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as UpdateDefectivePartStatusResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'invalid_transition') {
+                    throw new Error('Status RMA sudah berubah. Muat ulang data.');
+                }
+                throw new Error('Part cacat tidak ditemukan.');
+            }
+
+            const label = DEFECT_STATUS_META[status].label;
+            void NotificationService.sendToUser(
+                defect.engineer_id,
+                'Status RMA',
+                `${defect.part_name || defect.part_id} x${defect.quantity} (SO ${defect.so_number}): ${label}.`,
+                { defect_id: defect.id, status, type: 'defective_part' },
+            ).catch((e) => console.error('[reports.submitRmaAction] Notification error:', e));
+
+            closeRmaAction();
+            setSuccess(`Status RMA diubah ke ${label}.`);
+            await defectsQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal mengubah status RMA.';
+            setError(message);
+        } finally {
+            setSavingRma(false);
+        }
+    };
+
+    const closeCorrectionAction = () => {
+        setCorrectionAction(null);
+        setCorrectionNote('');
+    };
+
+    const submitCorrectionAction = async () => {
+        if (!correctionAction || savingCorrection) return;
+        const { correction, decision } = correctionAction;
+        if (decision === 'reject' && !correctionNote.trim()) {
+            setError('Alasan penolakan wajib diisi.');
+            return;
+        }
+
+        setSavingCorrection(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('review_stock_correction', {
+                p_correction_id: correction.id,
+                p_decision: decision,
+                p_note: correctionNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReviewStockCorrectionResult | null;
+            if (!result?.ok) {
+                await correctionsQuery.refetch();
+                if (result?.code === 'invalid_status') {
+                    throw new Error('Koreksi sudah diproses admin lain.');
+                }
+                throw new Error('Koreksi stok tidak ditemukan.');
+            }
+
+            const partName = correction.part_name || correction.part_id;
+            const body = decision === 'approve'
+                ? `Koreksi ${partName} disetujui. Stok sekarang ${result.new_quantity ?? correction.requested_quantity}.`
+                : `Koreksi ${partName} (${correction.previous_quantity} → ${correction.requested_quantity}) ditolak: ${correctionNote.trim()}`;
+            void NotificationService.sendToUser(
+                correction.engineer_id,
+                'Koreksi Stok',
+                body,
+                { correction_id: correction.id, status: result.code, type: 'stock_correction' },
+            ).catch((e) => console.error('[reports.submitCorrectionAction] Notification error:', e));
+
+            closeCorrectionAction();
+            setSuccess(decision === 'approve' ? 'Koreksi disetujui. Stok engineer diperbarui.' : 'Koreksi ditolak.');
+            await Promise.all([correctionsQuery.refetch(), reportsQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memproses koreksi.';
+            setError(message);
+        } finally {
+            setSavingCorrection(false);
+        }
+    };
+
+    const openThresholdForm = () => {
+        setThresholdForm({
+            max_delta: correctionSettings?.max_delta != null ? String(correctionSettings.max_delta) : '',
+            max_percent: correctionSettings?.max_percent != null ? String(correctionSettings.max_percent) : '',
+            max_value: correctionSettings?.max_value != null ? String(correctionSettings.max_value) : '',
+        });
+        setThresholdFormOpen(true);
+    };
+
+    const closeThresholdForm = () => {
+        setThresholdFormOpen(false);
+        setThresholdForm(EMPTY_THRESHOLD_FORM);
+    };
+
+    const saveThresholds = async () => {
+        if (savingThresholds) return;
+        const parseThreshold = (value: string) => {
+            const trimmed = value.trim().replace(',', '.');
+            if (!trimmed) return null;
+            const parsed = Number(trimmed);
+            return Number.isFinite(parsed) && parsed > 0 ? parsed : NaN;
+        };
+        const maxDelta = parseThreshold(thresholdForm.max_delta);
+        const maxPercent = parseThreshold(thresholdForm.max_percent);
+        const maxValue = parseThreshold(thresholdForm.max_value);
+        if ([maxDelta, maxPercent, maxValue].some((value) => value !== null && Number.isNaN(value))) {
+            setError('Batas harus angka lebih dari 0, atau kosong untuk menonaktifkan.');
+            return;
+        }
+
+        setSavingThresholds(true);
+        try {
+            const { error: saveError } = await supabase
+                .from('stock_correction_settings')
+                .upsert({
+                    id: true,
+                    max_delta: maxDelta === null ? null : Math.floor(maxDelta),
+                    max_percent: maxPercent,
+                    max_value: maxValue,
+                });
+            if (saveError) throw saveError;
+
+            closeThresholdForm();
+            setSuccess('Batas persetujuan koreksi disimpan.');
+            await correctionSettingsQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan batas koreksi.';
+            setError(message);
+        } finally {
+            setSavingThresholds(false);
+        }
+    };
+
+    const thresholdSummary = useMemo(() => {
+        const parts: string[] = [];
+        if (correctionSettings?.max_delta != null) parts.push(`selisih > ${correctionSettings.max_delta} unit`);
+        if (correctionSettings?.max_percent != null) parts.push(`> ${correctionSettings.max_percent}% stok`);
+        if (correctionSettings?.max_value != null) parts.push(`nilai > ${formatRupiah(Number(correctionSettings.max_value))}`);
+        return parts.length > 0
+            ? `Butuh persetujuan jika ${parts.join(' atau ')}.`
+            : 'Tidak ada batas. Semua koreksi langsung diterapkan.';
+    }, [correctionSettings]);
+
     // Build part name lookup
     const partNameMap = useMemo(() => {
         const map: Record<string, string> = {};
@@ -1061,7 +1362,7 @@ export default function ReportsPage() {
                 deliveries.forEach(d => {
                     const engName = (d.engineer as any)?.name || 'Unknown';
                     const date = d.delivered_at ? new Date(d.delivered_at).toLocaleString('id-ID') : '-';
-                    const items = (d.items as any[]) || [];
+                    const items = ((d.delivered_items || d.items) as any[]) || [];
                     const itemDetails = items.map(i => `${i.partId} (x${i.quantity})`).join('; ');
 
                     pushRow([
@@ -1235,19 +1536,25 @@ export default function ReportsPage() {
                         <Text style={styles.logTime}>{d.delivered_at ? new Date(d.delivered_at).toLocaleDateString() : '-'} • {d.delivered_at ? new Date(d.delivered_at).toLocaleTimeString() : '-'}</Text>
                     </View>
                 </View>
-                <Chip textStyle={{ fontSize: 10, fontWeight: '700' }} style={{ height: 24 }}>{(d.items as any[])?.length || 0} Items</Chip>
+                <Chip textStyle={{ fontSize: 10, fontWeight: '700' }} style={{ height: 24 }}>{((d.delivered_items || d.items) as any[])?.length || 0} Items</Chip>
             </View>
             <View style={adminStyles.cardBody}>
                 <View style={styles.listItems}>
-                    {((d.items || []) as any[]).map((item: any, idx: number) => (
+                    {((d.delivered_items || d.items || []) as any[]).map((item: any, idx: number) => (
                         <View key={idx} style={styles.itemChip}>
                             <Text style={styles.itemText}>{item.partId} <Text style={{ fontWeight: '700' }}>x{item.quantity}</Text></Text>
                         </View>
                     ))}
                 </View>
+                <Pressable style={styles.historyToggle} onPress={() => setHistoryRequestId(historyRequestId === d.id ? null : d.id)}>
+                    <MaterialCommunityIcons name="timeline-clock-outline" size={16} color={Colors.textSecondary} />
+                    <Text style={styles.historyToggleText}>Riwayat Status</Text>
+                    <MaterialCommunityIcons name={historyRequestId === d.id ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+                </Pressable>
+                {historyRequestId === d.id && <RequestStatusTimeline requestId={d.id} />}
             </View>
         </View>
-    ), []);
+    ), [historyRequestId]);
 
     const renderLogItem = useCallback(({ item: log }: { item: any }) => (
         <View style={adminStyles.card}>
@@ -1282,6 +1589,95 @@ export default function ReportsPage() {
         </View>
     ), []);
 
+    const renderTransferItem = useCallback(({ item: transfer }: { item: StockTransfer }) => {
+        const meta = TRANSFER_STATUS_META[transfer.status] || TRANSFER_STATUS_META.pending;
+        return (
+            <View style={adminStyles.card}>
+                <View style={adminStyles.cardHeader}>
+                    <View style={styles.logIconInfo}>
+                        <View style={[adminStyles.iconBox, { backgroundColor: Colors.info + '15' }]}>
+                            <MaterialCommunityIcons name="swap-horizontal" size={20} color={Colors.info} />
+                        </View>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.logTitle}>
+                                {transfer.from_engineer_name || '-'} → {transfer.to_engineer_name || '-'}
+                            </Text>
+                            <Text style={styles.logTime}>
+                                {new Date(transfer.created_at).toLocaleString('id-ID')} • {transfer.area_group || '-'} • {transfer.kind === 'offer' ? 'Ditawarkan' : 'Diminta'}
+                            </Text>
+                        </View>
+                    </View>
+                    <Text style={{ fontWeight: '700', fontSize: 13, color: meta.color }}>{meta.label}</Text>
+                </View>
+
+                <View style={[adminStyles.cardBody, { marginBottom: 0, paddingBottom: 0 }]}>
+                    {(transfer.items || []).map((item) => (
+                        <Text key={item.partId} style={styles.metaLabel}>
+                            {item.partName || item.partId} ({item.partId}): <Text style={styles.metaValue}>{item.quantity}</Text>
+                        </Text>
+                    ))}
+                    {transfer.note ? <Text style={styles.notes}>"{transfer.note}"</Text> : null}
+                    {transfer.response_note ? <Text style={styles.notes}>Respon: "{transfer.response_note}"</Text> : null}
+                </View>
+
+                {transfer.responded_at ? (
+                    <View style={[adminStyles.cardFooter, { marginTop: 8 }]}>
+                        <Text style={styles.logTime}>Diproses {new Date(transfer.responded_at).toLocaleString('id-ID')}</Text>
+                    </View>
+                ) : null}
+            </View>
+        );
+    }, []);
+
+    const renderDefectItem = useCallback(({ item: defect }: { item: DefectivePart }) => {
+        const meta = DEFECT_STATUS_META[defect.status] || DEFECT_STATUS_META.awaiting_return;
+        const transitions = getAdminDefectTransitions(defect.status);
+        return (
+            <View style={adminStyles.card}>
+                <View style={adminStyles.cardHeader}>
+                    <View style={styles.logIconInfo}>
+                        <View style={[adminStyles.iconBox, { backgroundColor: meta.color + '15' }]}>
+                            <MaterialCommunityIcons name="alert-octagon-outline" size={20} color={meta.color} />
+                        </View>
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.logTitle}>
+                                {defect.part_name || defect.part_id} x{defect.quantity}
+                            </Text>
+                            <Text style={styles.logTime}>
+                                SO {defect.so_number} • {defect.engineer_name || '-'} • {defect.area_group || '-'}
+                            </Text>
+                        </View>
+                    </View>
+                    <Text style={{ fontWeight: '700', fontSize: 13, color: meta.color }}>{meta.label}</Text>
+                </View>
+
+                <View style={[adminStyles.cardBody, { marginBottom: 0, paddingBottom: 0 }]}>
+                    <Text style={styles.notes}>"{defect.symptom}"</Text>
+                    {defect.shipment_note ? <Text style={styles.metaLabel}>Pengiriman: <Text style={styles.metaValue}>{defect.shipment_note}</Text></Text> : null}
+                    {defect.vendor_note ? <Text style={styles.metaLabel}>Vendor: <Text style={styles.metaValue}>{defect.vendor_note}</Text></Text> : null}
+                </View>
+
+                <View style={[adminStyles.cardFooter, styles.rmaFooter]}>
+                    <Text style={[styles.logTime, { flex: 1 }]}>
+                        Dilaporkan {new Date(defect.created_at).toLocaleString('id-ID')}
+                        {defect.status_updated_at ? ` • Update ${new Date(defect.status_updated_at).toLocaleString('id-ID')}` : ''}
+                    </Text>
+                    {transitions.map((status) => (
+                        <Button
+                            key={status}
+                            mode={status === 'scrapped' ? 'text' : 'contained-tonal'}
+                            compact
+                            textColor={status === 'scrapped' ? Colors.danger : undefined}
+                            onPress={() => setRmaAction({ defect, status })}
+                        >
+                            {DEFECT_STATUS_META[status].label}
+                        </Button>
+                    ))}
+                </View>
+            </View>
+        );
+    }, []);
+
     return (
         <View style={styles.container}>
             <View style={[styles.header, styles.screenGutter, !isWide && styles.headerCompact]}>
@@ -1316,6 +1712,8 @@ export default function ReportsPage() {
                         { value: 'monitor', label: 'Monitor', icon: 'chart-box-outline' },
                         { value: 'pengiriman', label: 'Delivery', icon: 'truck-delivery-outline' },
                         { value: 'koreksi', label: 'Logs', icon: 'history' },
+                        { value: 'transfer', label: 'Transfer', icon: 'swap-horizontal' },
+                        { value: 'rma', label: 'RMA', icon: 'alert-octagon-outline' },
                     ]}
                     style={styles.segmentedBtn}
                     theme={{ colors: { secondaryContainer: Colors.primary + '20', onSecondaryContainer: Colors.primary } }}
@@ -1608,12 +2006,250 @@ export default function ReportsPage() {
                     keyboardShouldPersistTaps="handled"
                     contentContainerStyle={styles.defaultListContent}
                     refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+                    ListHeaderComponent={
+                        <View style={styles.correctionSection}>
+                            <View style={[adminStyles.card, styles.correctionThresholdCard]}>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.logTitle}>Batas Persetujuan Koreksi</Text>
+                                    <Text style={styles.logTime}>{thresholdSummary}</Text>
+                                </View>
+                                <Button mode="contained-tonal" compact icon="tune-variant" onPress={openThresholdForm}>
+                                    Ubah
+                                </Button>
+                            </View>
+
+                            {pendingCorrections.length > 0 ? (
+                                <Text style={styles.correctionSectionTitle}>
+                                    {pendingCorrections.length} koreksi menunggu persetujuan
+                                </Text>
+                            ) : null}
+                            {pendingCorrections.map((correction) => (
+                                <View key={correction.id} style={[adminStyles.card, styles.correctionCard]}>
+                                    <View style={adminStyles.cardHeader}>
+                                        <View style={styles.logIconInfo}>
+                                            <View style={[adminStyles.iconBox, { backgroundColor: Colors.accent + '15' }]}>
+                                                <MaterialCommunityIcons name="shield-alert-outline" size={20} color={Colors.accent} />
+                                            </View>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.logTitle}>{correction.part_name || correction.part_id} ({correction.part_id})</Text>
+                                                <Text style={styles.logTime}>
+                                                    {new Date(correction.created_at).toLocaleString('id-ID')} • {correction.engineer_name || '-'} • {correction.area_group || '-'}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                        <Text style={{ fontWeight: '700', fontSize: 16, color: correction.delta >= 0 ? Colors.success : Colors.danger }}>
+                                            {correction.delta >= 0 ? '+' : ''}{correction.delta}
+                                        </Text>
+                                    </View>
+                                    <View style={[adminStyles.cardBody, { marginBottom: 0, paddingBottom: 0 }]}>
+                                        <Text style={styles.notes}>"{correction.reason}"</Text>
+                                        <Text style={styles.metaLabel}>
+                                            Melebihi: <Text style={styles.metaValue}>{formatExceededThresholds(correction.exceeded) || '-'}</Text>
+                                        </Text>
+                                    </View>
+                                    <View style={[adminStyles.cardFooter, styles.rmaFooter]}>
+                                        <View style={[styles.metaRow, { flex: 1 }]}>
+                                            <Text style={styles.metaLabel}>Before: <Text style={styles.metaValue}>{correction.previous_quantity}</Text></Text>
+                                            <MaterialCommunityIcons name="arrow-right" size={14} color={Colors.textMuted} style={{ marginHorizontal: 8 }} />
+                                            <Text style={styles.metaLabel}>After: <Text style={styles.metaValue}>{correction.requested_quantity}</Text></Text>
+                                        </View>
+                                        <Button
+                                            mode="text"
+                                            compact
+                                            textColor={Colors.danger}
+                                            onPress={() => setCorrectionAction({ correction, decision: 'reject' })}
+                                        >
+                                            Tolak
+                                        </Button>
+                                        <Button
+                                            mode="contained-tonal"
+                                            compact
+                                            onPress={() => setCorrectionAction({ correction, decision: 'approve' })}
+                                        >
+                                            Setujui
+                                        </Button>
+                                    </View>
+                                </View>
+                            ))}
+
+                            <Text style={styles.correctionSectionTitle}>Riwayat Koreksi</Text>
+                        </View>
+                    }
                     ListEmptyComponent={
                         <Text style={{ textAlign: 'center', color: Colors.textMuted, marginTop: 20 }}>No adjustments found.</Text>
                     }
                 />
             )}
 
+            {/* ═══ Transfer Tab ═══ */}
+            {tab === 'transfer' && (
+                <FlatList
+                    style={styles.listViewport}
+                    data={transfers}
+                    keyExtractor={(item) => item.id}
+                    renderItem={renderTransferItem}
+                    keyboardShouldPersistTaps="handled"
+                    contentContainerStyle={styles.defaultListContent}
+                    refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+                    ListEmptyComponent={
+                        <Text style={{ textAlign: 'center', color: Colors.textMuted, marginTop: 20 }}>
+                            {transfersQuery.isLoading ? 'Loading transfers...' : 'No transfers found.'}
+                        </Text>
+                    }
+                />
+            )}
+
+            {/* ═══ RMA Tab ═══ */}
+            {tab === 'rma' && (
+                <FlatList
+                    style={styles.listViewport}
+                    data={visibleDefects}
+                    keyExtractor={(item) => item.id}
+                    renderItem={renderDefectItem}
+                    keyboardShouldPersistTaps="handled"
+                    contentContainerStyle={styles.defaultListContent}
+                    refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+                    ListHeaderComponent={
+                        <View style={styles.rmaFilterRow}>
+                            <Chip
+                                selected={rmaFilter === 'open'}
+                                onPress={() => setRmaFilter('open')}
+                                style={[styles.rmaFilterChip, rmaFilter === 'open' && styles.rmaFilterChipActive]}
+                            >
+                                Dalam Proses
+                            </Chip>
+                            <Chip
+                                selected={rmaFilter === 'closed'}
+                                onPress={() => setRmaFilter('closed')}
+                                style={[styles.rmaFilterChip, rmaFilter === 'closed' && styles.rmaFilterChipActive]}
+                            >
+                                Selesai
+                            </Chip>
+                        </View>
+                    }
+                    ListEmptyComponent={
+                        <Text style={{ textAlign: 'center', color: Colors.textMuted, marginTop: 20 }}>
+                            {defectsQuery.isLoading ? 'Loading RMA...' : 'No defective parts found.'}
+                        </Text>
+                    }
+                />
+            )}
+
+            <Modal visible={!!rmaAction} transparent animationType="fade" onRequestClose={closeRmaAction}>
+                <Pressable style={ddStyles.overlay} onPress={closeRmaAction}>
+                    <Pressable style={[ddStyles.menu, styles.rmaModal]} onPress={() => {}}>
+                        {rmaAction ? (
+                            <>
+                                <Text style={styles.logTitle}>Ubah ke {DEFECT_STATUS_META[rmaAction.status].label}</Text>
+                                <Text style={styles.logTime}>
+                                    {rmaAction.defect.part_name || rmaAction.defect.part_id} x{rmaAction.defect.quantity} • SO {rmaAction.defect.so_number}
+                                </Text>
+                                <TextInput
+                                    label={rmaAction.status === 'sent_to_vendor' ? 'No. RMA / catatan vendor (opsional)' : 'Catatan (opsional)'}
+                                    value={rmaNote}
+                                    onChangeText={setRmaNote}
+                                    mode="outlined"
+                                    dense
+                                    style={{ backgroundColor: Colors.surface }}
+                                />
+                                <View style={styles.rmaModalActions}>
+                                    <Button mode="text" onPress={closeRmaAction} disabled={savingRma}>Batal</Button>
+                                    <Button mode="contained" onPress={submitRmaAction} loading={savingRma} disabled={savingRma}>
+                                        Simpan
+                                    </Button>
+                                </View>
+                            </>
+                        ) : null}
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
+            <Modal visible={!!correctionAction} transparent animationType="fade" onRequestClose={closeCorrectionAction}>
+                <Pressable style={ddStyles.overlay} onPress={closeCorrectionAction}>
+                    <Pressable style={[ddStyles.menu, styles.rmaModal]} onPress={() => {}}>
+                        {correctionAction ? (
+                            <>
+                                <Text style={styles.logTitle}>
+                                    {correctionAction.decision === 'approve' ? 'Setujui Koreksi' : 'Tolak Koreksi'}
+                                </Text>
+                                <Text style={styles.logTime}>
+                                    {correctionAction.correction.engineer_name || '-'} • {correctionAction.correction.part_name || correctionAction.correction.part_id}: {correctionAction.correction.previous_quantity} → {correctionAction.correction.requested_quantity}
+                                </Text>
+                                {correctionAction.decision === 'approve' ? (
+                                    <Text style={styles.logTime}>
+                                        Selisih {correctionAction.correction.delta >= 0 ? '+' : ''}{correctionAction.correction.delta} diterapkan ke stok engineer saat ini.
+                                    </Text>
+                                ) : null}
+                                <TextInput
+                                    label={correctionAction.decision === 'reject' ? 'Alasan penolakan' : 'Catatan (opsional)'}
+                                    value={correctionNote}
+                                    onChangeText={setCorrectionNote}
+                                    mode="outlined"
+                                    dense
+                                    style={{ backgroundColor: Colors.surface }}
+                                />
+                                <View style={styles.rmaModalActions}>
+                                    <Button mode="text" onPress={closeCorrectionAction} disabled={savingCorrection}>Batal</Button>
+                                    <Button
+                                        mode="contained"
+                                        buttonColor={correctionAction.decision === 'reject' ? Colors.danger : undefined}
+                                        onPress={submitCorrectionAction}
+                                        loading={savingCorrection}
+                                        disabled={savingCorrection}
+                                    >
+                                        {correctionAction.decision === 'approve' ? 'Setujui' : 'Tolak'}
+                                    </Button>
+                                </View>
+                            </>
+                        ) : null}
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
+            <Modal visible={thresholdFormOpen} transparent animationType="fade" onRequestClose={closeThresholdForm}>
+                <Pressable style={ddStyles.overlay} onPress={closeThresholdForm}>
+                    <Pressable style={[ddStyles.menu, styles.rmaModal]} onPress={() => {}}>
+                        <Text style={styles.logTitle}>Batas Persetujuan Koreksi</Text>
+                        <Text style={styles.logTime}>
+                            Koreksi engineer yang melebihi salah satu batas menunggu persetujuan admin. Kosongkan untuk menonaktifkan.
+                        </Text>
+                        <TextInput
+                            label="Selisih qty maksimum (unit)"
+                            value={thresholdForm.max_delta}
+                            onChangeText={(value) => setThresholdForm((prev) => ({ ...prev, max_delta: value.replace(/[^0-9]/g, '') }))}
+                            keyboardType="number-pad"
+                            mode="outlined"
+                            dense
+                            style={{ backgroundColor: Colors.surface }}
+                        />
+                        <TextInput
+                            label="Persentase maksimum dari stok (%)"
+                            value={thresholdForm.max_percent}
+                            onChangeText={(value) => setThresholdForm((prev) => ({ ...prev, max_percent: value.replace(/[^0-9.,]/g, '') }))}
+                            keyboardType="decimal-pad"
+                            mode="outlined"
+                            dense
+                            style={{ backgroundColor: Colors.surface }}
+                        />
+                        <TextInput
+                            label="Nilai maksimum (Rp, dari harga satuan part)"
+                            value={thresholdForm.max_value}
+                            onChangeText={(value) => setThresholdForm((prev) => ({ ...prev, max_value: value.replace(/[^0-9]/g, '') }))}
+                            keyboardType="number-pad"
+                            mode="outlined"
+                            dense
+                            style={{ backgroundColor: Colors.surface }}
+                        />
+                        <View style={styles.rmaModalActions}>
+                            <Button mode="text" onPress={closeThresholdForm} disabled={savingThresholds}>Batal</Button>
+                            <Button mode="contained" onPress={saveThresholds} loading={savingThresholds} disabled={savingThresholds}>
+                                Simpan
+                            </Button>
+                        </View>
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
             <AppSnackbar visible={!!error} onDismiss={() => setError('')} duration={3200} style={{ backgroundColor: Colors.danger }}>
                 {error}
             </AppSnackbar>
@@ -1856,10 +2492,22 @@ const styles = StyleSheet.create({
     logTitle: { fontSize: 14, fontWeight: '700', color: Colors.text },
     logTime: { fontSize: 12, color: Colors.textSecondary },
     listItems: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+    historyToggle: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 12, paddingVertical: 4 },
+    historyToggleText: { flex: 1, fontSize: 12, fontWeight: '700', color: Colors.textSecondary },
     itemChip: { backgroundColor: Colors.surface, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 6, borderWidth: 1, borderColor: Colors.border },
     itemText: { fontSize: 12, color: Colors.textSecondary },
+    rmaFooter: { marginTop: 8, flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 6 },
+    rmaFilterRow: { flexDirection: 'row', gap: 8 },
+    rmaFilterChip: { backgroundColor: Colors.surface },
+    rmaFilterChipActive: { backgroundColor: Colors.primary + '20' },
+    rmaModal: { padding: 16, gap: 10 },
+    rmaModalActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8 },
     notes: { fontSize: 12, fontStyle: 'italic', color: Colors.textMuted },
     metaRow: { flexDirection: 'row', alignItems: 'center' },
+    correctionSection: { gap: 12 },
+    correctionSectionTitle: { fontSize: 13, fontWeight: '700', color: Colors.textSecondary, textTransform: 'uppercase', letterSpacing: 0.5 },
+    correctionThresholdCard: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    correctionCard: { borderColor: Colors.accent + '55' },
     metaLabel: { fontSize: 12, color: Colors.textMuted },
     metaValue: { fontSize: 13, fontWeight: '700', color: Colors.text },
 });
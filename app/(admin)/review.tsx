@@ -1,19 +1,51 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl, useWindowDimensions, Pressable, Modal } from 'react-native';
-import { Text, Button } from 'react-native-paper';
+import { Text, Button, TextInput } from 'react-native-paper';
 import { useQuery } from '@tanstack/react-query';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import AppSnackbar from '../../src/components/AppSnackbar';
+import RequestCommentThread from '../../src/components/RequestCommentThread';
 import { useAuthStore } from '../../src/stores/authStore';
 import { supabase } from '../../src/config/supabase';
-import { MonthlyRequest, RequestItem, Profile, EngineerStock } from '../../src/types';
+import {
+    MonthlyRequest,
+    RequestItem,
+    Profile,
+    EngineerStock,
+    InventoryPart,
+    ReviewRequestResult,
+    BulkApprovalResult,
+} from '../../src/types';
 import { adminStyles } from '../../src/styles/adminStyles';
 import { normalizeArea } from '../../src/utils/normalizeArea';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
 import { NotificationService } from '../../src/services/NotificationService';
+import { summarizeReviewDecisions } from '../../src/utils/reviewDecisions';
 
 type UrgencyLevel = 'Kritis' | 'Tinggi' | 'Normal';
+type ReviewMode = 'approve' | 'reject';
+
+type ReviewLineDraft = {
+    partId: string;
+    requestedQty: number;
+    approvedQty: number;
+    reason: string;
+};
+
+function buildReviewLines(items: RequestItem[]): ReviewLineDraft[] {
+    const qtyByPart = new Map<string, number>();
+    for (const item of items || []) {
+        if (!item?.partId) continue;
+        qtyByPart.set(item.partId, (qtyByPart.get(item.partId) || 0) + Math.max(0, Math.floor(item.quantity || 0)));
+    }
+    return Array.from(qtyByPart.entries()).map(([partId, requestedQty]) => ({
+        partId,
+        requestedQty,
+        approvedQty: requestedQty,
+        reason: '',
+    }));
+}
 
 interface AreaGroup {
     area: string;
@@ -30,6 +62,8 @@ const URGENCY_CONFIG: Record<UrgencyLevel, { color: string; icon: string; label:
     Normal: { color: Colors.primary, icon: 'check-circle', label: 'STOCK AVAILABLE' },
 };
 
+const URGENCY_RANK: Record<UrgencyLevel, number> = { Kritis: 0, Tinggi: 1, Normal: 2 };
+
 function getUrgency(pct: number): UrgencyLevel {
     if (pct >= 70) return 'Kritis';
     if (pct >= 40) return 'Tinggi';
@@ -40,10 +74,11 @@ type ReviewData = {
     requests: (MonthlyRequest & { engineer?: Profile })[];
     allProfiles: Profile[];
     engineerStocks: EngineerStock[];
+    partNames: Pick<InventoryPart, 'id' | 'part_name'>[];
 };
 
 const fetchReviewData = async (): Promise<ReviewData> => {
-    const [reqRes, profilesRes, stockRes] = await Promise.all([
+    const [reqRes, profilesRes, stockRes, partsRes] = await Promise.all([
         supabase
             .from('monthly_requests')
             .select('*, engineer:profiles!monthly_requests_engineer_id_fkey(*)')
@@ -51,16 +86,19 @@ const fetchReviewData = async (): Promise<ReviewData> => {
             .order('submitted_at', { ascending: false }),
         supabase.from('profiles').select('*').eq('role', 'engineer'),
         supabase.from('engineer_stock').select('*'),
+        supabase.from('inventory').select('id, part_name'),
     ]);
 
     if (reqRes.error) throw reqRes.error;
     if (profilesRes.error) throw profilesRes.error;
     if (stockRes.error) throw stockRes.error;
+    if (partsRes.error) throw partsRes.error;
 
     return {
         requests: reqRes.data || [],
         allProfiles: profilesRes.data || [],
         engineerStocks: stockRes.data || [],
+        partNames: partsRes.data || [],
     };
 };
 
@@ -133,6 +171,15 @@ export default function ReviewPage() {
     const [error, setError] = useState('');
     const [filterArea, setFilterArea] = useState('Semua Area');
     const [filterUrgency, setFilterUrgency] = useState('Semua Urgensi');
+    const [reviewingRequest, setReviewingRequest] = useState<(MonthlyRequest & { engineer?: Profile }) | null>(null);
+    const [reviewMode, setReviewMode] = useState<ReviewMode>('approve');
+    const [reviewLines, setReviewLines] = useState<ReviewLineDraft[]>([]);
+    const [rejectReason, setRejectReason] = useState('');
+    const [submittingReviewId, setSubmittingReviewId] = useState<string | null>(null);
+    const [threadRequestId, setThreadRequestId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [bulkPreview, setBulkPreview] = useState<{ ids: string[]; label: string; result: BulkApprovalResult } | null>(null);
+    const [bulkLoading, setBulkLoading] = useState(false);
     const [selectedEngineer, setSelectedEngineer] = useState<(Profile & { stocks: { part_id: string; quantity: number }[] }) | null>(null);
 
     const isWide = width >= 900;
@@ -147,6 +194,10 @@ export default function ReviewPage() {
     const requests = reviewQuery.data?.requests || [];
     const allProfiles = reviewQuery.data?.allProfiles || [];
     const engineerStocks = reviewQuery.data?.engineerStocks || [];
+    const partNameById = useMemo(
+        () => new Map((reviewQuery.data?.partNames || []).map((part) => [part.id, part.part_name])),
+        [reviewQuery.data?.partNames]
+    );
 
     useSupabaseRealtimeRefresh(
         ['monthly_requests', 'engineer_stock', 'profiles'],
@@ -171,77 +222,187 @@ export default function ReviewPage() {
         }
     };
 
-    const approve = async (request: MonthlyRequest & { engineer?: Profile }) => {
+    const submitReview = async (
+        request: MonthlyRequest & { engineer?: Profile },
+        decision: ReviewMode,
+        lines?: ReviewLineDraft[],
+        reason?: string,
+    ) => {
         if (!user?.id) {
             setError('Session admin tidak valid.');
-            return;
+            return false;
         }
+        if (submittingReviewId) return false;
+
         const id = request.id;
-        const reviewedAt = new Date().toISOString();
-        const { data: updatedRow, error: err } = await supabase
-            .from('monthly_requests')
-            .update({
-                status: 'approved',
-                reviewed_by: user.id,
-                reviewed_at: reviewedAt,
-            })
-            .eq('id', id)
-            .eq('status', 'pending')
-            .select('id')
-            .maybeSingle();
-        if (err) { setError(err.message); return; }
-        if (!updatedRow) {
-            setError('Request sudah diproses admin lain. Muat ulang data.');
+        setSubmittingReviewId(id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('review_monthly_request', {
+                p_request_id: id,
+                p_decision: decision,
+                p_items: lines
+                    ? lines.map((line) => ({
+                        partId: line.partId,
+                        quantity: line.approvedQty,
+                        reason: line.reason.trim() || null,
+                    }))
+                    : null,
+                p_reason: reason?.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReviewRequestResult | null;
+            if (!result?.ok) {
+                switch (result?.code) {
+                    case 'reason_required':
+                        setError('Alasan penolakan wajib diisi.');
+                        return false;
+                    case 'line_reason_required':
+                        setError(`Isi alasan untuk item yang dikurangi: ${(result.part_ids || []).join(', ')}`);
+                        return false;
+                    case 'empty_approval':
+                        setError('Semua qty disetujui 0. Gunakan Reject untuk menolak request.');
+                        return false;
+                    default:
+                        setError('Request sudah diproses admin lain. Muat ulang data.');
+                        await reviewQuery.refetch();
+                        return false;
+                }
+            }
+
+            if (request.engineer_id) {
+                const summary = summarizeReviewDecisions(
+                    result.decisions,
+                    (partId) => partNameById.get(partId) || partId,
+                );
+                const title = decision === 'approve' ? 'Request Disetujui' : 'Request Ditolak';
+                const body = decision === 'reject'
+                    ? `Request Anda ditolak admin: ${reason?.trim()}`
+                    : summary
+                        ? `Request Anda disetujui dengan penyesuaian: ${summary}`
+                        : 'Request Anda telah disetujui admin.';
+                void NotificationService.sendToUser(
+                    request.engineer_id,
+                    title,
+                    body,
+                    { request_id: id, status: decision === 'approve' ? 'approved' : 'rejected', type: 'request_progress' },
+                ).catch((e) => console.error('[review.submitReview] Notification error:', e));
+            }
+
+            setSuccess(decision === 'approve'
+                ? (result.adjusted ? 'Request approved dengan penyesuaian' : 'Request approved')
+                : 'Request rejected');
             await reviewQuery.refetch();
-            return;
-        }
-        if (request.engineer_id) {
-            void NotificationService.sendToUser(
-                request.engineer_id,
-                'Request Disetujui',
-                'Request Anda telah disetujui admin.',
-                { request_id: id, status: 'approved', type: 'request_progress' },
-            ).catch((e) => console.error('[review.approve] Notification error:', e));
+            return true;
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan review.';
+            setError(message);
+            return false;
+        } finally {
+            setSubmittingReviewId(null);
         }
-        setSuccess('Request approved');
-        await reviewQuery.refetch();
     };
 
-    const reject = async (request: MonthlyRequest & { engineer?: Profile }) => {
-        if (!user?.id) {
-            setError('Session admin tidak valid.');
-            return;
+    const approve = (request: MonthlyRequest & { engineer?: Profile }) => submitReview(request, 'approve');
+
+    const openReviewModal = (request: MonthlyRequest & { engineer?: Profile }, mode: ReviewMode) => {
+        setReviewingRequest(request);
+        setReviewMode(mode);
+        setReviewLines(buildReviewLines(request.items as RequestItem[]));
+        setRejectReason('');
+    };
+
+    const closeReviewModal = () => {
+        setReviewingRequest(null);
+        setReviewLines([]);
+        setRejectReason('');
+    };
+
+    const updateReviewLine = (partId: string, patch: Partial<ReviewLineDraft>) => {
+        setReviewLines((prev) => prev.map((line) => {
+            if (line.partId !== partId) return line;
+            const next = { ...line, ...patch };
+            next.approvedQty = Math.min(next.requestedQty, Math.max(0, next.approvedQty));
+            return next;
+        }));
+    };
+
+    const saveReviewModal = async () => {
+        if (!reviewingRequest) return;
+        const done = reviewMode === 'approve'
+            ? await submitReview(reviewingRequest, 'approve', reviewLines)
+            : await submitReview(reviewingRequest, 'reject', undefined, rejectReason);
+        if (done) closeReviewModal();
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((row) => row !== id) : [...prev, id]));
+    };
+
+    const openBulkPreview = async (ids: string[], label: string) => {
+        if (ids.length === 0 || bulkLoading) return;
+        setBulkLoading(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('approve_monthly_requests_bulk', {
+                p_request_ids: ids,
+                p_dry_run: true,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as BulkApprovalResult | null;
+            if (!result?.ok) throw new Error('Tidak ada request yang dipilih.');
+            setBulkPreview({ ids, label, result });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memuat preview approval.';
+            setError(message);
+        } finally {
+            setBulkLoading(false);
         }
-        const id = request.id;
-        const reviewedAt = new Date().toISOString();
-        const { data: updatedRow, error: err } = await supabase
-            .from('monthly_requests')
-            .update({
-                status: 'rejected',
-                reviewed_by: user.id,
-                reviewed_at: reviewedAt,
-                rejection_reason: 'Ditolak oleh admin',
-            })
-            .eq('id', id)
-            .eq('status', 'pending')
-            .select('id')
-            .maybeSingle();
-        if (err) { setError(err.message); return; }
-        if (!updatedRow) {
-            setError('Request sudah diproses admin lain. Muat ulang data.');
+    };
+
+    const runBulkApprove = async () => {
+        if (!bulkPreview || bulkLoading) return;
+        setBulkLoading(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('approve_monthly_requests_bulk', {
+                p_request_ids: bulkPreview.ids,
+                p_dry_run: false,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as BulkApprovalResult | null;
+            if (!result?.ok) throw new Error('Tidak ada request yang dipilih.');
+
+            // One notification per engineer, however many of their requests were approved.
+            const approvedByEngineer = new Map<string, string[]>();
+            for (const row of result.results || []) {
+                if (row.code !== 'approved' || !row.engineerId) continue;
+                approvedByEngineer.set(row.engineerId, [...(approvedByEngineer.get(row.engineerId) || []), row.requestId]);
+            }
+            for (const [engineerId, requestIds] of approvedByEngineer) {
+                void NotificationService.sendToUser(
+                    engineerId,
+                    'Request Disetujui',
+                    requestIds.length === 1
+                        ? 'Request Anda telah disetujui admin.'
+                        : `${requestIds.length} request Anda telah disetujui admin.`,
+                    { request_id: requestIds[0], request_ids: requestIds, status: 'approved', type: 'request_progress' },
+                ).catch((e) => console.error('[review.runBulkApprove] Notification error:', e));
+            }
+
+            const skipped = result.skipped || 0;
+            setSuccess(skipped > 0
+                ? `${result.approved || 0} request approved, ${skipped} dilewati (sudah diproses).`
+                : `${result.approved || 0} request approved.`);
+            setSelectedIds((prev) => prev.filter((id) => !bulkPreview.ids.includes(id)));
+            setBulkPreview(null);
             await reviewQuery.refetch();
-            return;
-        }
-        if (request.engineer_id) {
-            void NotificationService.sendToUser(
-                request.engineer_id,
-                'Request Ditolak',
-                'Request Anda ditolak admin. Silakan cek detail request.',
-                { request_id: id, status: 'rejected', type: 'request_progress' },
-            ).catch((e) => console.error('[review.reject] Notification error:', e));
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal approve massal.';
+            setError(message);
+        } finally {
+            setBulkLoading(false);
         }
-        setSuccess('Request rejected');
-        await reviewQuery.refetch();
     };
 
     // Area stock lookup: area -> partId -> total qty of that part across all engineers in area
@@ -319,6 +480,37 @@ export default function ReviewPage() {
         return getUrgency(pct);
     }, [areaStockMap]);
 
+    // Most urgent first, then oldest first.
+    const sortByPriority = useCallback((rows: (MonthlyRequest & { engineer?: Profile })[]) => (
+        rows.slice().sort((a, b) => (
+            URGENCY_RANK[getReqUrgency(a)] - URGENCY_RANK[getReqUrgency(b)] ||
+            new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()
+        ))
+    ), [getReqUrgency]);
+
+    const visibleRequestIds = useMemo(
+        () => filteredGroups.flatMap((group) => group.requests.map((r) => r.id)),
+        [filteredGroups]
+    );
+
+    // Visible requests per urgency level, most urgent first; empty levels are left out.
+    const urgencyBuckets = useMemo(() => {
+        const visible = filteredGroups.flatMap((group) => group.requests);
+        return (Object.keys(URGENCY_RANK) as UrgencyLevel[])
+            .sort((a, b) => URGENCY_RANK[a] - URGENCY_RANK[b])
+            .map((level) => ({ level, ids: visible.filter((r) => getReqUrgency(r) === level).map((r) => r.id) }))
+            .filter((bucket) => bucket.ids.length > 0);
+    }, [filteredGroups, getReqUrgency]);
+
+    useEffect(() => {
+        // Drop selections that left the pending list (processed elsewhere or filtered by realtime refresh).
+        setSelectedIds((prev) => {
+            const pendingIds = new Set(requests.map((r) => r.id));
+            const next = prev.filter((id) => pendingIds.has(id));
+            return next.length === prev.length ? prev : next;
+        });
+    }, [requests]);
+
     const openEngineerStock = useCallback((engineer: Profile) => {
         const stocks = engineerStocks
             .filter(s => s.engineer_id === engineer.id && s.quantity > 0)
@@ -384,7 +576,51 @@ export default function ReviewPage() {
             {/* ═══ Section 3: Daftar Request ═══ */}
             <View style={[adminStyles.card, styles.section, isCompact && styles.sectionCompact]}>
                 <Text style={styles.sectionTitle}>Daftar Request Pending</Text>
-                <Text style={[styles.sectionSub, { marginBottom: 14 }]}>Menampilkan {filteredReqCount} request sesuai filter.</Text>
+                <Text style={[styles.sectionSub, { marginBottom: 14 }]}>Menampilkan {filteredReqCount} request sesuai filter, diurutkan dari yang paling mendesak.</Text>
+
+                {visibleRequestIds.length > 0 && (
+                    <View style={styles.bulkBar}>
+                        <Button
+                            mode="text"
+                            compact
+                            icon={selectedIds.length > 0 ? 'checkbox-blank-off-outline' : 'checkbox-multiple-marked-outline'}
+                            onPress={() => setSelectedIds(selectedIds.length > 0 ? [] : visibleRequestIds)}
+                            textColor={Colors.textSecondary}
+                        >
+                            {selectedIds.length > 0 ? 'Hapus Pilihan' : `Pilih Semua (${visibleRequestIds.length})`}
+                        </Button>
+                        <Button
+                            mode="contained"
+                            compact
+                            icon="check-all"
+                            onPress={() => openBulkPreview(selectedIds, `${selectedIds.length} request terpilih`)}
+                            disabled={selectedIds.length === 0 || bulkLoading}
+                            loading={bulkLoading && !bulkPreview}
+                            buttonColor={Colors.primary}
+                        >
+                            Approve Terpilih ({selectedIds.length})
+                        </Button>
+                    </View>
+                )}
+
+                {urgencyBuckets.length > 0 && (
+                    <View style={styles.bulkBar}>
+                        {urgencyBuckets.map(({ level, ids }) => (
+                            <Button
+                                key={level}
+                                mode="outlined"
+                                compact
+                                icon={URGENCY_CONFIG[level].icon}
+                                onPress={() => openBulkPreview(ids, `Urgensi ${level}`)}
+                                disabled={bulkLoading}
+                                textColor={URGENCY_CONFIG[level].color}
+                                style={[styles.areaApproveBtn, { borderColor: URGENCY_CONFIG[level].color + '60' }]}
+                            >
+                                Approve {level} ({ids.length})
+                            </Button>
+                        ))}
+                    </View>
+                )}
 
                 {filteredGroups.length === 0 ? (
                     <View style={styles.empty}>
@@ -418,12 +654,24 @@ export default function ReviewPage() {
                                                 </View>
                                             </View>
                                         </View>
+                                        <Button
+                                            mode="outlined"
+                                            compact
+                                            icon="check-all"
+                                            onPress={() => openBulkPreview(group.requests.map((r) => r.id), `Area ${group.area}`)}
+                                            disabled={bulkLoading}
+                                            textColor={Colors.primary}
+                                            style={styles.areaApproveBtn}
+                                        >
+                                            Approve Area
+                                        </Button>
                                     </View>
 
                                     {/* 2-Column Grid of Request Cards */}
                                     <View style={[styles.reqGrid, !isWide && styles.reqGridStack]}>
-                                        {group.requests.map(r => {
+                                        {sortByPriority(group.requests).map(r => {
                                             const items = r.items as RequestItem[];
+                                            const isSelected = selectedIds.includes(r.id);
                                             const reqUrg = getReqUrgency(r);
                                             const reqUrgCfg = URGENCY_CONFIG[reqUrg];
                                             const submittedDate = new Date(r.submitted_at);
@@ -431,10 +679,17 @@ export default function ReviewPage() {
                                             const timeStr = submittedDate.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
 
                                             return (
-                                                <View key={r.id} style={[styles.reqCard, isWide ? styles.reqCardWide : styles.reqCardFull]}>
+                                                <View key={r.id} style={[styles.reqCard, isWide ? styles.reqCardWide : styles.reqCardFull, isSelected && styles.reqCardSelected]}>
                                                     <View style={{ flex: 1 }}>
                                                         {/* Card Header */}
                                                         <View style={styles.reqCardHeader}>
+                                                            <Pressable onPress={() => toggleSelected(r.id)} hitSlop={8} style={styles.selectBox}>
+                                                                <MaterialCommunityIcons
+                                                                    name={isSelected ? 'checkbox-marked' : 'checkbox-blank-outline'}
+                                                                    size={20}
+                                                                    color={isSelected ? Colors.primary : Colors.textMuted}
+                                                                />
+                                                            </Pressable>
                                                             <View style={{ flex: 1 }}>
                                                                 <Pressable style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }} onPress={() => r.engineer && openEngineerStock(r.engineer)}>
                                                                     <MaterialCommunityIcons name="account-outline" size={16} color={Colors.textSecondary} />
@@ -486,14 +741,29 @@ export default function ReviewPage() {
                                                             })}
                                                         </View>
 
+                                                        {/* Comment thread */}
+                                                        <Pressable style={styles.threadToggle} onPress={() => setThreadRequestId(threadRequestId === r.id ? null : r.id)}>
+                                                            <MaterialCommunityIcons name="comment-text-multiple-outline" size={14} color={Colors.textSecondary} />
+                                                            <Text style={styles.threadToggleText}>Diskusi dengan Engineer</Text>
+                                                            <MaterialCommunityIcons name={threadRequestId === r.id ? 'chevron-up' : 'chevron-down'} size={14} color={Colors.textSecondary} />
+                                                        </Pressable>
+                                                        {threadRequestId === r.id && (
+                                                            <View style={styles.threadPanel}>
+                                                                <RequestCommentThread requestId={r.id} />
+                                                            </View>
+                                                        )}
                                                     </View>
                                                     {/* Actions */}
                                                     <View style={styles.reqActions}>
-                                                        <Pressable style={styles.btnReject} onPress={() => reject(r)}>
+                                                        <Pressable style={styles.btnReject} onPress={() => openReviewModal(r, 'reject')} disabled={submittingReviewId !== null}>
                                                             <MaterialCommunityIcons name="close-circle-outline" size={16} color={Colors.danger} />
                                                             <Text style={styles.btnRejectText}>Reject</Text>
                                                         </Pressable>
-                                                        <Pressable style={styles.btnApprove} onPress={() => approve(r)}>
+                                                        <Pressable style={styles.btnEdit} onPress={() => openReviewModal(r, 'approve')} disabled={submittingReviewId !== null}>
+                                                            <MaterialCommunityIcons name="tune" size={16} color={Colors.warning} />
+                                                            <Text style={styles.btnEditText}>Ubah Qty</Text>
+                                                        </Pressable>
+                                                        <Pressable style={[styles.btnApprove, submittingReviewId === r.id && { opacity: 0.7 }]} onPress={() => approve(r)} disabled={submittingReviewId !== null}>
                                                             <MaterialCommunityIcons name="check-circle-outline" size={16} color="#fff" />
                                                             <Text style={styles.btnApproveText}>Approve</Text>
                                                         </Pressable>
@@ -509,6 +779,180 @@ export default function ReviewPage() {
                 )}
             </View>
 
+            {/* ═══ Review Modal ═══ */}
+            <Modal visible={!!reviewingRequest} transparent animationType="fade" onRequestClose={closeReviewModal}>
+                <Pressable style={ddStyles.overlay} onPress={closeReviewModal}>
+                    <Pressable style={styles.stockModal} onPress={e => e.stopPropagation()}>
+                        {reviewingRequest && (
+                            <>
+                                <View style={styles.stockModalHeader}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.stockModalTitle}>
+                                            {reviewMode === 'approve' ? 'Approve dengan Penyesuaian' : 'Tolak Request'}
+                                        </Text>
+                                        <Text style={styles.stockModalSub}>
+                                            {(reviewingRequest.engineer as any)?.name || 'Unknown'} • {reviewingRequest.month}
+                                        </Text>
+                                    </View>
+                                    <Pressable onPress={closeReviewModal} style={styles.stockModalClose}>
+                                        <MaterialCommunityIcons name="close" size={20} color={Colors.textSecondary} />
+                                    </Pressable>
+                                </View>
+
+                                {reviewMode === 'approve' ? (
+                                    <ScrollView style={{ maxHeight: 380 }} indicatorStyle="black" contentContainerStyle={styles.reviewList}>
+                                        <Text style={styles.stockModalSub}>Kurangi atau nolkan qty per item. Item yang dikurangi wajib diberi alasan.</Text>
+                                        {reviewLines.map((line) => {
+                                            const reduced = line.approvedQty < line.requestedQty;
+                                            return (
+                                                <View key={line.partId} style={[styles.reviewLine, reduced && styles.reviewLineReduced]}>
+                                                    <View style={styles.reviewLineHeader}>
+                                                        <View style={{ flex: 1 }}>
+                                                            <Text style={styles.stockModalPartId}>{line.partId}</Text>
+                                                            <Text style={styles.reqDate}>Request {line.requestedQty} pcs</Text>
+                                                        </View>
+                                                        <View style={styles.qtyControl}>
+                                                            <Pressable
+                                                                style={styles.qtyControlBtn}
+                                                                onPress={() => updateReviewLine(line.partId, { approvedQty: line.approvedQty - 1 })}
+                                                                disabled={line.approvedQty <= 0}
+                                                            >
+                                                                <MaterialCommunityIcons name="minus" size={16} color={line.approvedQty <= 0 ? Colors.textMuted : Colors.primary} />
+                                                            </Pressable>
+                                                            <Text style={styles.qtyControlValue}>{line.approvedQty}</Text>
+                                                            <Pressable
+                                                                style={styles.qtyControlBtn}
+                                                                onPress={() => updateReviewLine(line.partId, { approvedQty: line.approvedQty + 1 })}
+                                                                disabled={line.approvedQty >= line.requestedQty}
+                                                            >
+                                                                <MaterialCommunityIcons name="plus" size={16} color={line.approvedQty >= line.requestedQty ? Colors.textMuted : Colors.primary} />
+                                                            </Pressable>
+                                                        </View>
+                                                    </View>
+                                                    {reduced && (
+                                                        <TextInput
+                                                            mode="outlined"
+                                                            dense
+                                                            label={line.approvedQty === 0 ? 'Alasan item ditolak' : 'Alasan pengurangan'}
+                                                            value={line.reason}
+                                                            onChangeText={(value) => updateReviewLine(line.partId, { reason: value })}
+                                                            style={styles.reviewInput}
+                                                        />
+                                                    )}
+                                                </View>
+                                            );
+                                        })}
+                                    </ScrollView>
+                                ) : (
+                                    <View style={styles.reviewList}>
+                                        <TextInput
+                                            mode="outlined"
+                                            label="Alasan penolakan"
+                                            value={rejectReason}
+                                            onChangeText={setRejectReason}
+                                            multiline
+                                            numberOfLines={3}
+                                            style={styles.reviewInput}
+                                        />
+                                    </View>
+                                )}
+
+                                <View style={styles.reviewFooter}>
+                                    <Button mode="text" onPress={closeReviewModal}>Batal</Button>
+                                    <Button
+                                        mode="contained"
+                                        onPress={saveReviewModal}
+                                        loading={submittingReviewId === reviewingRequest.id}
+                                        disabled={submittingReviewId !== null || (reviewMode === 'reject' && !rejectReason.trim())}
+                                        buttonColor={reviewMode === 'approve' ? Colors.primary : Colors.danger}
+                                    >
+                                        {reviewMode === 'approve' ? 'Approve' : 'Reject'}
+                                    </Button>
+                                </View>
+                            </>
+                        )}
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
+            {/* ═══ Bulk Approval Preview ═══ */}
+            <Modal visible={!!bulkPreview} transparent animationType="fade" onRequestClose={() => setBulkPreview(null)}>
+                <Pressable style={ddStyles.overlay} onPress={() => setBulkPreview(null)}>
+                    <Pressable style={styles.stockModal} onPress={e => e.stopPropagation()}>
+                        {bulkPreview && (
+                            <>
+                                <View style={styles.stockModalHeader}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.stockModalTitle}>Approve Massal</Text>
+                                        <Text style={styles.stockModalSub}>{bulkPreview.label}</Text>
+                                    </View>
+                                    <Pressable onPress={() => setBulkPreview(null)} style={styles.stockModalClose}>
+                                        <MaterialCommunityIcons name="close" size={20} color={Colors.textSecondary} />
+                                    </Pressable>
+                                </View>
+
+                                <ScrollView style={{ maxHeight: 360 }} indicatorStyle="black" contentContainerStyle={styles.reviewList}>
+                                    <View style={styles.stockModalSummary}>
+                                        <MaterialCommunityIcons name="check-circle-outline" size={18} color={Colors.primary} />
+                                        <Text style={styles.stockModalSummaryText}>
+                                            {bulkPreview.result.approved || 0} request akan di-approve
+                                        </Text>
+                                    </View>
+                                    {(bulkPreview.result.skipped || 0) > 0 && (
+                                        <Text style={styles.stockModalSub}>
+                                            {bulkPreview.result.skipped} request dilewati karena sudah diproses admin lain.
+                                        </Text>
+                                    )}
+                                    {(bulkPreview.result.shortages || []).length > 0 && (
+                                        <View style={styles.bulkShortageBox}>
+                                            <Text style={styles.bulkShortageTitle}>Stok gudang belum cukup untuk dikirim:</Text>
+                                            {(bulkPreview.result.shortages || []).map((row) => (
+                                                <Text key={row.partId} style={styles.bulkShortageText}>
+                                                    {row.partName}: {row.missing ? 'tidak ada di inventory' : `butuh ${row.required}, stok ${row.available}`}
+                                                </Text>
+                                            ))}
+                                        </View>
+                                    )}
+                                    {(bulkPreview.result.results || [])
+                                        .filter((outcome) => outcome.code === 'would_approve')
+                                        .map((outcome) => {
+                                            const request = requests.find((r) => r.id === outcome.requestId);
+                                            const shortages = outcome.shortages || [];
+                                            return (
+                                                <View key={outcome.requestId} style={styles.bulkRequestRow}>
+                                                    <Text style={styles.bulkRequestName} numberOfLines={1}>
+                                                        {request?.engineer?.name || 'Engineer'}{request?.month ? ` • ${request.month}` : ''}
+                                                    </Text>
+                                                    {shortages.length === 0 ? (
+                                                        <Text style={styles.bulkRequestOk}>Stok cukup</Text>
+                                                    ) : shortages.map((row) => (
+                                                        <Text key={row.partId} style={styles.bulkShortageText}>
+                                                            {row.partName}: minta {row.requested}, {row.missing ? 'tidak ada di inventory' : `total butuh ${row.required}, stok ${row.available}`}
+                                                        </Text>
+                                                    ))}
+                                                </View>
+                                            );
+                                        })}
+                                </ScrollView>
+
+                                <View style={styles.reviewFooter}>
+                                    <Button mode="text" onPress={() => setBulkPreview(null)}>Batal</Button>
+                                    <Button
+                                        mode="contained"
+                                        onPress={runBulkApprove}
+                                        loading={bulkLoading}
+                                        disabled={bulkLoading || (bulkPreview.result.approved || 0) === 0}
+                                        buttonColor={Colors.primary}
+                                    >
+                                        Approve {bulkPreview.result.approved || 0}
+                                    </Button>
+                                </View>
+                            </>
+                        )}
+                    </Pressable>
+                </Pressable>
+            </Modal>
+
             {/* ═══ Engineer Stock Modal ═══ */}
             <Modal visible={!!selectedEngineer} transparent animationType="fade" onRequestClose={() => setSelectedEngineer(null)}>
                 <Pressable style={ddStyles.overlay} onPress={() => setSelectedEngineer(null)}>
@@ -578,6 +1022,25 @@ const styles = StyleSheet.create({
 
     filterRow: { flexDirection: 'row', gap: 12 },
 
+    // Bulk actions
+    bulkBar: {
+        flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8,
+        marginBottom: 14, flexWrap: 'wrap',
+    },
+    areaApproveBtn: { borderRadius: 10, borderColor: Colors.primary + '60' },
+    bulkShortageBox: {
+        padding: 10, borderRadius: 10, borderWidth: 1, gap: 2,
+        borderColor: Colors.accent + '55', backgroundColor: Colors.accent + '12',
+    },
+    bulkShortageTitle: { fontSize: 12, fontWeight: '700', color: Colors.accent },
+    bulkShortageText: { fontSize: 12, color: Colors.text },
+    bulkRequestRow: {
+        paddingVertical: 8, gap: 2,
+        borderBottomWidth: 1, borderBottomColor: Colors.border,
+    },
+    bulkRequestName: { fontSize: 13, fontWeight: '700', color: Colors.text },
+    bulkRequestOk: { fontSize: 12, color: Colors.success },
+
     // Area card
     areaCard: {
         backgroundColor: Colors.surface, borderRadius: 16, padding: 16,
@@ -607,6 +1070,8 @@ const styles = StyleSheet.create({
         flexDirection: 'column',
     },
     reqCardWide: { width: '48.5%' },
+    reqCardSelected: { borderColor: Colors.primary + '80', backgroundColor: Colors.primary + '08' },
+    selectBox: { marginRight: 8, paddingTop: 1 },
     reqCardFull: { width: '100%' },
     reqCardHeader: {
         flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 10,
@@ -643,6 +1108,9 @@ const styles = StyleSheet.create({
     stockTagText: { fontSize: 10, fontWeight: '700' },
 
     // Actions
+    threadToggle: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 10, paddingVertical: 4 },
+    threadToggleText: { flex: 1, fontSize: 12, fontWeight: '700', color: Colors.textSecondary },
+    threadPanel: { marginTop: 6 },
     reqActions: { flexDirection: 'row', gap: 8, marginTop: 14 },
     btnReject: {
         flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6,
@@ -650,6 +1118,12 @@ const styles = StyleSheet.create({
         borderWidth: 1, borderColor: Colors.border, backgroundColor: Colors.surface,
     },
     btnRejectText: { fontSize: 13, fontWeight: '700', color: Colors.danger },
+    btnEdit: {
+        flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6,
+        paddingVertical: 10, borderRadius: 10,
+        borderWidth: 1, borderColor: Colors.warning + '60', backgroundColor: Colors.surface,
+    },
+    btnEditText: { fontSize: 13, fontWeight: '700', color: Colors.warning },
     btnApprove: {
         flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6,
         paddingVertical: 10, borderRadius: 10,
@@ -691,4 +1165,25 @@ const styles = StyleSheet.create({
         borderRadius: 6,
     },
     stockModalQtyText: { fontSize: 12, fontWeight: '800', color: Colors.primary },
+
+    // Review Modal
+    reviewList: { padding: 18, gap: 10 },
+    reviewLine: {
+        borderWidth: 1, borderColor: Colors.border, borderRadius: 10, padding: 10, gap: 8,
+        backgroundColor: Colors.surface,
+    },
+    reviewLineReduced: { borderColor: Colors.warning + '60', backgroundColor: Colors.warning + '10' },
+    reviewLineHeader: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    reviewInput: { backgroundColor: Colors.surface },
+    reviewFooter: {
+        flexDirection: 'row', justifyContent: 'flex-end', gap: 8,
+        paddingHorizontal: 18, paddingVertical: 12,
+        borderTopWidth: 1, borderTopColor: Colors.border,
+    },
+    qtyControl: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    qtyControlBtn: {
+        width: 30, height: 30, borderRadius: 8, borderWidth: 1, borderColor: Colors.border,
+        alignItems: 'center', justifyContent: 'center', backgroundColor: Colors.card,
+    },
+    qtyControlValue: { minWidth: 24, textAlign: 'center', fontSize: 15, fontWeight: '800', color: Colors.text },
 });
@@ -0,0 +1,496 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-native';
+import { Text, Portal, Modal, TextInput, Button, Chip } from 'react-native-paper';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import { supabase } from '../../src/config/supabase';
+import {
+    RequestSlaAreaCompliance,
+    RequestSlaComplianceResult,
+    RequestSlaEvent,
+    RequestSlaPolicy,
+    RequestSlaStage,
+    RunSlaEngineResult,
+} from '../../src/types';
+import { adminStyles } from '../../src/styles/adminStyles';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import { normalizeArea } from '../../src/utils/normalizeArea';
+import { REQUEST_SLA_STAGE_META, getSlaComplianceColor, getSlaComplianceRate } from '../../src/utils/requestSla';
+
+const WINDOW_OPTIONS = [7, 30, 90] as const;
+const OPEN_BREACH_LIMIT = 50;
+const STAGE_ORDER: RequestSlaStage[] = ['pending', 'approved', 'delivered'];
+
+const fetchPolicies = async (): Promise<RequestSlaPolicy[]> => {
+    const { data, error } = await supabase.from('request_sla_policies').select('*');
+    if (error) throw error;
+    return ((data || []) as RequestSlaPolicy[])
+        .sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage));
+};
+
+const fetchOpenBreaches = async (): Promise<RequestSlaEvent[]> => {
+    const { data, error } = await supabase
+        .from('request_sla_events')
+        .select('*')
+        .eq('kind', 'breach')
+        .is('resolved_at', null)
+        .order('stage_started_at', { ascending: true })
+        .limit(OPEN_BREACH_LIMIT);
+    if (error) throw error;
+    return (data || []) as RequestSlaEvent[];
+};
+
+const fetchCompliance = async (days: number): Promise<RequestSlaComplianceResult> => {
+    const { data, error } = await supabase.rpc('request_sla_compliance', { p_days: days });
+    if (error) throw error;
+    return data as RequestSlaComplianceResult;
+};
+
+const formatDateTime = (value?: string | null) => (
+    value
+        ? new Date(value).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+        : '-'
+);
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate}%`);
+
+export default function SlaPage() {
+    const [windowDays, setWindowDays] = useState<number>(30);
+    const [refreshing, setRefreshing] = useState(false);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const [editingStage, setEditingStage] = useState<RequestSlaStage | null>(null);
+    const [reminderInput, setReminderInput] = useState('');
+    const [breachInput, setBreachInput] = useState('');
+    const [savingPolicy, setSavingPolicy] = useState(false);
+
+    const policiesQuery = useQuery({
+        queryKey: ['admin', 'sla', 'policies'],
+        queryFn: fetchPolicies,
+    });
+    const breachesQuery = useQuery({
+        queryKey: ['admin', 'sla', 'openBreaches'],
+        queryFn: fetchOpenBreaches,
+    });
+    const complianceQuery = useQuery({
+        queryKey: ['admin', 'sla', 'compliance', windowDays],
+        queryFn: () => fetchCompliance(windowDays),
+    });
+
+    const policies = policiesQuery.data || [];
+    const openBreaches = breachesQuery.data || [];
+    const adminRows = complianceQuery.data?.by_admin || [];
+
+    // Profile locations are free text; merge rows that normalize to the same area group.
+    const areaRows = useMemo(() => {
+        const byArea = new Map<string, RequestSlaAreaCompliance>();
+        for (const row of complianceQuery.data?.by_area || []) {
+            const area = normalizeArea(row.area);
+            const current = byArea.get(area) || { area, handled: 0, breached: 0, openBreaches: 0 };
+            current.handled += row.handled;
+            current.breached += row.breached;
+            current.openBreaches += row.openBreaches;
+            byArea.set(area, current);
+        }
+        return Array.from(byArea.values())
+            .sort((a, b) => (b.breached + b.openBreaches) - (a.breached + a.openBreaches) || b.handled - a.handled);
+    }, [complianceQuery.data]);
+
+    const totals = useMemo(() => {
+        const handled = areaRows.reduce((sum, row) => sum + row.handled, 0);
+        const breached = areaRows.reduce((sum, row) => sum + row.breached, 0);
+        return { handled, breached, rate: getSlaComplianceRate(handled, breached) };
+    }, [areaRows]);
+
+    useSupabaseRealtimeRefresh(
+        ['request_sla_events', 'request_sla_policies'],
+        () => {
+            void policiesQuery.refetch();
+            void breachesQuery.refetch();
+            void complianceQuery.refetch();
+        },
+    );
+
+    useEffect(() => {
+        const sourceError = policiesQuery.error || breachesQuery.error || complianceQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data SLA.';
+        setError(message);
+    }, [policiesQuery.error, breachesQuery.error, complianceQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await Promise.all([policiesQuery.refetch(), breachesQuery.refetch(), complianceQuery.refetch()]);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const runEngine = async () => {
+        if (running) return;
+        setRunning(true);
+        try {
+            const { data, error: invokeError } = await supabase.functions.invoke('sla-engine', { body: {} });
+            if (invokeError) throw new Error(invokeError.message || 'Gagal menjalankan evaluasi SLA.');
+
+            const result = (data || {}) as RunSlaEngineResult;
+            if (!result.ok) throw new Error(result.error || 'Gagal menjalankan evaluasi SLA.');
+
+            setSuccess((result.events ?? 0) > 0
+                ? `${result.events} pengingat/eskalasi baru, ${result.notified ?? 0} terkirim.`
+                : 'Tidak ada pengingat atau eskalasi baru.');
+            await Promise.all([breachesQuery.refetch(), complianceQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menjalankan evaluasi SLA.';
+            setError(message);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const openPolicyEditor = (policy: RequestSlaPolicy) => {
+        setEditingStage(policy.stage);
+        setReminderInput(String(policy.reminder_hours));
+        setBreachInput(String(policy.breach_hours));
+    };
+
+    const savePolicy = async () => {
+        if (!editingStage || savingPolicy) return;
+        const reminderHours = Number(reminderInput);
+        const breachHours = Number(breachInput);
+        if (!Number.isInteger(reminderHours) || reminderHours <= 0 || !Number.isInteger(breachHours)) {
+            setError('Isi jam pengingat dan batas SLA dengan angka bulat.');
+            return;
+        }
+        if (breachHours <= reminderHours) {
+            setError('Batas SLA harus lebih besar dari jam pengingat.');
+            return;
+        }
+
+        setSavingPolicy(true);
+        try {
+            const { error: updateError } = await supabase
+                .from('request_sla_policies')
+                .update({ reminder_hours: reminderHours, breach_hours: breachHours })
+                .eq('stage', editingStage);
+            if (updateError) throw updateError;
+
+            setEditingStage(null);
+            setSuccess(`SLA ${REQUEST_SLA_STAGE_META[editingStage].label} diperbarui.`);
+            await Promise.all([policiesQuery.refetch(), complianceQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan SLA.';
+            setError(message);
+        } finally {
+            setSavingPolicy(false);
+        }
+    };
+
+    const renderRate = (handled: number, breached: number) => {
+        const rate = getSlaComplianceRate(handled, breached);
+        const color = getSlaComplianceColor(rate);
+        return (
+            <View style={[styles.badge, { borderColor: color + '55' }]}>
+                <Text style={[styles.badgeText, { color }]}>{formatRate(rate)}</Text>
+            </View>
+        );
+    };
+
+    return (
+        <View style={adminStyles.container}>
+            <View style={adminStyles.header}>
+                <View style={{ flex: 1 }}>
+                    <Text style={adminStyles.headerTitle}>SLA Request</Text>
+                    <Text style={adminStyles.headerSub}>Pengingat, eskalasi, dan kepatuhan per tahap</Text>
+                </View>
+                <Button
+                    mode="contained"
+                    onPress={runEngine}
+                    icon="timer-alert-outline"
+                    style={styles.primaryBtn}
+                    labelStyle={styles.primaryBtnText}
+                    loading={running}
+                    disabled={running}
+                    compact
+                >
+                    Evaluasi Sekarang
+                </Button>
+            </View>
+
+            <ScrollView
+                contentContainerStyle={[adminStyles.scrollContent, { gap: 12 }]}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+            >
+                <View style={[adminStyles.card, styles.section]}>
+                    <Text style={styles.sectionTitle}>Batas SLA per Tahap</Text>
+                    <Text style={styles.meta}>Dihitung sejak request masuk ke status tersebut.</Text>
+                    {policies.map((policy) => {
+                        const meta = REQUEST_SLA_STAGE_META[policy.stage];
+                        return (
+                            <View key={policy.stage} style={styles.row}>
+                                <View style={[styles.dot, { backgroundColor: meta.color }]} />
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowTitle}>{meta.label}</Text>
+                                    <Text style={styles.meta}>
+                                        Pengingat {policy.reminder_hours} jam | Eskalasi {policy.breach_hours} jam
+                                    </Text>
+                                </View>
+                                <Button compact mode="text" onPress={() => openPolicyEditor(policy)}>
+                                    Ubah
+                                </Button>
+                            </View>
+                        );
+                    })}
+                </View>
+
+                <View style={[adminStyles.card, styles.section]}>
+                    <Text style={styles.sectionTitle}>Pelanggaran Terbuka ({openBreaches.length})</Text>
+                    {openBreaches.length === 0 ? (
+                        <Text style={styles.meta}>
+                            {breachesQuery.isLoading ? 'Memuat pelanggaran...' : 'Tidak ada request yang melewati SLA.'}
+                        </Text>
+                    ) : openBreaches.map((event) => {
+                        const meta = REQUEST_SLA_STAGE_META[event.stage];
+                        return (
+                            <View key={event.id} style={styles.row}>
+                                <MaterialCommunityIcons name="timer-alert-outline" size={18} color={Colors.danger} />
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowTitle}>{event.engineer_name || 'Engineer'}</Text>
+                                    <Text style={styles.meta}>
+                                        {meta.label} sejak {formatDateTime(event.stage_started_at)} | {event.area_group ? normalizeArea(event.area_group) : '-'}
+                                    </Text>
+                                </View>
+                                <View style={[styles.badge, { borderColor: meta.color + '55' }]}>
+                                    <Text style={[styles.badgeText, { color: meta.color }]}>{Math.round(event.hours_open)} jam</Text>
+                                </View>
+                            </View>
+                        );
+                    })}
+                </View>
+
+                <View style={styles.filterRow}>
+                    {WINDOW_OPTIONS.map((days) => (
+                        <Chip
+                            key={days}
+                            compact
+                            mode={windowDays === days ? 'flat' : 'outlined'}
+                            selected={windowDays === days}
+                            onPress={() => setWindowDays(days)}
+                            style={[styles.chip, windowDays === days && styles.chipActive]}
+                            textStyle={styles.chipText}
+                        >
+                            {days} hari
+                        </Chip>
+                    ))}
+                    <Text style={[styles.meta, { marginLeft: 'auto' }]}>
+                        Total {totals.handled} tahap | Kepatuhan {formatRate(totals.rate)}
+                    </Text>
+                </View>
+
+                <View style={[adminStyles.card, styles.section]}>
+                    <Text style={styles.sectionTitle}>Kepatuhan per Admin</Text>
+                    <Text style={styles.meta}>Tahap review dan pengiriman yang diselesaikan admin.</Text>
+                    {adminRows.length === 0 ? (
+                        <Text style={styles.meta}>{complianceQuery.isLoading ? 'Memuat...' : 'Belum ada data.'}</Text>
+                    ) : adminRows.map((row) => (
+                        <View key={row.adminId} style={styles.row}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.rowTitle}>{row.adminName}</Text>
+                                <Text style={styles.meta}>
+                                    {row.handled} tahap | {row.breached} lewat SLA | rata-rata {row.avgHours ?? '-'} jam
+                                </Text>
+                            </View>
+                            {renderRate(row.handled, row.breached)}
+                        </View>
+                    ))}
+                </View>
+
+                <View style={[adminStyles.card, styles.section]}>
+                    <Text style={styles.sectionTitle}>Kepatuhan per Area</Text>
+                    <Text style={styles.meta}>Semua tahap, termasuk konfirmasi terima oleh engineer.</Text>
+                    {areaRows.length === 0 ? (
+                        <Text style={styles.meta}>{complianceQuery.isLoading ? 'Memuat...' : 'Belum ada data.'}</Text>
+                    ) : areaRows.map((row) => (
+                        <View key={row.area} style={styles.row}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.rowTitle}>{row.area}</Text>
+                                <Text style={styles.meta}>
+                                    {row.handled} tahap | {row.breached} lewat SLA
+                                    {row.openBreaches > 0 ? ` | ${row.openBreaches} masih terbuka` : ''}
+                                </Text>
+                            </View>
+                            {renderRate(row.handled, row.breached)}
+                        </View>
+                    ))}
+                </View>
+            </ScrollView>
+
+            <Portal>
+                <Modal
+                    visible={!!editingStage}
+                    onDismiss={() => setEditingStage(null)}
+                    contentContainerStyle={styles.modal}
+                >
+                    {editingStage ? (
+                        <>
+                            <View style={styles.modalHeader}>
+                                <Text style={styles.modalTitle}>SLA {REQUEST_SLA_STAGE_META[editingStage].label}</Text>
+                                <Pressable onPress={() => setEditingStage(null)}>
+                                    <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                                </Pressable>
+                            </View>
+                            <TextInput
+                                label="Pengingat setelah (jam)"
+                                value={reminderInput}
+                                onChangeText={setReminderInput}
+                                keyboardType="number-pad"
+                                mode="outlined"
+                                dense
+                            />
+                            <TextInput
+                                label="Eskalasi / lewat SLA setelah (jam)"
+                                value={breachInput}
+                                onChangeText={setBreachInput}
+                                keyboardType="number-pad"
+                                mode="outlined"
+                                dense
+                            />
+                            <View style={styles.modalActionRow}>
+                                <Button mode="outlined" onPress={() => setEditingStage(null)} style={styles.modalBtn} disabled={savingPolicy}>
+                                    Batal
+                                </Button>
+                                <Button mode="contained" onPress={savePolicy} style={styles.modalBtn} loading={savingPolicy} disabled={savingPolicy}>
+                                    Simpan
+                                </Button>
+                            </View>
+                        </>
+                    ) : null}
+                </Modal>
+            </Portal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2000}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    section: {
+        gap: 8,
+    },
+    sectionTitle: {
+        fontSize: 15,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    filterRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    rowTitle: {
+        flexShrink: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    meta: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    dot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    badge: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    badgeText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    primaryBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    primaryBtnText: {
+        color: '#08362E',
+        fontWeight: '700',
+        fontSize: 12,
+    },
+    chip: {
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    chipActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    chipText: {
+        color: Colors.text,
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    modal: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 14,
+        width: '100%',
+        maxWidth: 440,
+        alignSelf: 'center',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    modalTitle: {
+        fontSize: 17,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    modalActionRow: {
+        flexDirection: 'row',
+        gap: 10,
+    },
+    modalBtn: {
+        flex: 1,
+        borderRadius: 12,
+    },
+});
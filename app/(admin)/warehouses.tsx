@@ -0,0 +1,862 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, Pressable } from 'react-native';
+import { Text, Portal, Modal, TextInput, Button, Chip } from 'react-native-paper';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import { supabase } from '../../src/config/supabase';
+import {
+    InventoryPart,
+    PartSerial,
+    Warehouse,
+    WarehouseStock,
+    WarehouseTransfer,
+    TransferWarehouseStockResult,
+} from '../../src/types';
+import { adminStyles } from '../../src/styles/adminStyles';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import { buildStockByWarehouse, formatWarehouseName, parseAreaInput } from '../../src/utils/warehouses';
+import { formatSerialIssues } from '../../src/utils/partSerials';
+
+type TransferLine = { partId: string; partName: string; quantity: string; serials: string[] };
+
+const TRANSFER_HISTORY_LIMIT = 30;
+const PART_SUGGESTION_LIMIT = 6;
+const EMPTY_WAREHOUSE_FORM = { id: '', code: '', name: '', areas: '', is_default: false, is_active: true };
+
+const fetchWarehouses = async (): Promise<Warehouse[]> => {
+    const { data, error } = await supabase
+        .from('warehouses')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('name');
+    if (error) throw error;
+    return (data || []) as Warehouse[];
+};
+
+const fetchWarehouseStock = async (): Promise<WarehouseStock[]> => {
+    const { data, error } = await supabase
+        .from('warehouse_stock')
+        .select('warehouse_id, part_id, quantity')
+        .gt('quantity', 0);
+    if (error) throw error;
+    return (data || []) as WarehouseStock[];
+};
+
+const fetchWarehouseTransfers = async (): Promise<WarehouseTransfer[]> => {
+    const { data, error } = await supabase
+        .from('warehouse_transfers')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(TRANSFER_HISTORY_LIMIT);
+    if (error) throw error;
+    return (data || []) as WarehouseTransfer[];
+};
+
+const fetchPartNames = async (): Promise<Pick<InventoryPart, 'id' | 'part_name' | 'is_serialized'>[]> => {
+    const { data, error } = await supabase
+        .from('inventory')
+        .select('id, part_name, is_serialized')
+        .order('part_name');
+    if (error) throw error;
+    return data || [];
+};
+
+const fetchWarehouseSerials = async (warehouseId: string): Promise<PartSerial[]> => {
+    const { data, error } = await supabase
+        .from('part_serials')
+        .select('*')
+        .eq('warehouse_id', warehouseId)
+        .eq('status', 'in_warehouse')
+        .order('part_id', { ascending: true })
+        .order('serial_number', { ascending: true });
+    if (error) throw error;
+    return (data || []) as PartSerial[];
+};
+
+const sanitizeNumber = (value: string) => value.replace(/[^0-9]/g, '');
+
+export default function WarehousesPage() {
+    const [refreshing, setRefreshing] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const [showWarehouseModal, setShowWarehouseModal] = useState(false);
+    const [warehouseForm, setWarehouseForm] = useState(EMPTY_WAREHOUSE_FORM);
+    const [savingWarehouse, setSavingWarehouse] = useState(false);
+
+    const [showTransfer, setShowTransfer] = useState(false);
+    const [fromWarehouseId, setFromWarehouseId] = useState('');
+    const [toWarehouseId, setToWarehouseId] = useState('');
+    const [transferLines, setTransferLines] = useState<TransferLine[]>([]);
+    const [transferNote, setTransferNote] = useState('');
+    const [partSearch, setPartSearch] = useState('');
+    const [savingTransfer, setSavingTransfer] = useState(false);
+
+    const warehousesQuery = useQuery({
+        queryKey: ['admin', 'warehouses'],
+        queryFn: fetchWarehouses,
+    });
+    const stockQuery = useQuery({
+        queryKey: ['admin', 'warehouses', 'stock'],
+        queryFn: fetchWarehouseStock,
+    });
+    const transfersQuery = useQuery({
+        queryKey: ['admin', 'warehouses', 'transfers'],
+        queryFn: fetchWarehouseTransfers,
+    });
+    const partsQuery = useQuery({
+        queryKey: ['admin', 'warehouses', 'parts'],
+        queryFn: fetchPartNames,
+    });
+    const fromSerialsQuery = useQuery({
+        queryKey: ['admin', 'warehouses', 'serials', fromWarehouseId],
+        queryFn: () => fetchWarehouseSerials(fromWarehouseId),
+        enabled: showTransfer && !!fromWarehouseId,
+    });
+    const warehouses = warehousesQuery.data || [];
+    const activeWarehouses = useMemo(() => warehouses.filter((warehouse) => warehouse.is_active), [warehouses]);
+    const warehouseById = useMemo(() => new Map(warehouses.map((warehouse) => [warehouse.id, warehouse])), [warehouses]);
+    const stockByWarehouse = useMemo(() => buildStockByWarehouse(stockQuery.data || []), [stockQuery.data]);
+    const partNameById = useMemo(() => new Map((partsQuery.data || []).map((part) => [part.id, part.part_name])), [partsQuery.data]);
+    const serializedPartIds = useMemo(
+        () => new Set((partsQuery.data || []).filter((part) => part.is_serialized).map((part) => part.id)),
+        [partsQuery.data],
+    );
+    const fromSerialsByPart = useMemo(() => {
+        const map = new Map<string, string[]>();
+        for (const serial of fromSerialsQuery.data || []) {
+            map.set(serial.part_id, [...(map.get(serial.part_id) || []), serial.serial_number]);
+        }
+        return map;
+    }, [fromSerialsQuery.data]);
+    const fromStock = stockByWarehouse.get(fromWarehouseId) || new Map<string, number>();
+
+    useSupabaseRealtimeRefresh(
+        ['warehouses', 'warehouse_stock', 'warehouse_transfers'],
+        () => {
+            void warehousesQuery.refetch();
+            void stockQuery.refetch();
+            void transfersQuery.refetch();
+        },
+    );
+    useSupabaseRealtimeRefresh(
+        ['part_serials'],
+        () => {
+            void fromSerialsQuery.refetch();
+        },
+        { enabled: showTransfer && !!fromWarehouseId },
+    );
+
+    useEffect(() => {
+        const sourceError = warehousesQuery.error || stockQuery.error || transfersQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data gudang.';
+        setError(message);
+    }, [warehousesQuery.error, stockQuery.error, transfersQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await Promise.all([warehousesQuery.refetch(), stockQuery.refetch(), transfersQuery.refetch(), partsQuery.refetch()]);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const partSuggestions = useMemo(() => {
+        const keyword = partSearch.trim().toLowerCase();
+        if (!keyword) return [];
+        const picked = new Set(transferLines.map((line) => line.partId));
+        return Array.from(fromStock.entries())
+            .filter(([partId]) => !picked.has(partId))
+            .map(([partId, quantity]) => ({ partId, partName: partNameById.get(partId) || partId, quantity }))
+            .filter((part) => part.partName.toLowerCase().includes(keyword) || part.partId.toLowerCase().includes(keyword))
+            .slice(0, PART_SUGGESTION_LIMIT);
+    }, [partSearch, transferLines, fromStock, partNameById]);
+
+    const openAddWarehouse = () => {
+        setWarehouseForm(EMPTY_WAREHOUSE_FORM);
+        setShowWarehouseModal(true);
+    };
+
+    const openEditWarehouse = (warehouse: Warehouse) => {
+        setWarehouseForm({
+            id: warehouse.id,
+            code: warehouse.code,
+            name: warehouse.name,
+            areas: warehouse.area_groups.join(', '),
+            is_default: warehouse.is_default,
+            is_active: warehouse.is_active,
+        });
+        setShowWarehouseModal(true);
+    };
+
+    const closeWarehouseModal = () => {
+        setShowWarehouseModal(false);
+        setWarehouseForm(EMPTY_WAREHOUSE_FORM);
+        setSavingWarehouse(false);
+    };
+
+    const saveWarehouse = async () => {
+        if (savingWarehouse) return;
+
+        const code = warehouseForm.code.trim();
+        const name = warehouseForm.name.trim();
+        if (!code || !name) {
+            setError('Kode dan nama gudang wajib diisi.');
+            return;
+        }
+        if (warehouseForm.is_default && !warehouseForm.is_active) {
+            setError('Gudang default harus aktif.');
+            return;
+        }
+
+        const payload = {
+            code,
+            name,
+            area_groups: parseAreaInput(warehouseForm.areas),
+            is_default: warehouseForm.is_default,
+            is_active: warehouseForm.is_active,
+        };
+
+        setSavingWarehouse(true);
+        try {
+            const { error: saveError } = warehouseForm.id
+                ? await supabase.from('warehouses').update(payload).eq('id', warehouseForm.id)
+                : await supabase.from('warehouses').insert(payload);
+
+            if (saveError) {
+                if (saveError.code === '23505') {
+                    throw new Error('Kode gudang sudah dipakai.');
+                }
+                throw saveError;
+            }
+
+            closeWarehouseModal();
+            setSuccess(`Gudang ${name} disimpan.`);
+            await warehousesQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menyimpan gudang.';
+            setError(message);
+        } finally {
+            setSavingWarehouse(false);
+        }
+    };
+
+    const openTransfer = (fromId?: string) => {
+        setFromWarehouseId(fromId || activeWarehouses[0]?.id || '');
+        setToWarehouseId('');
+        setTransferLines([]);
+        setTransferNote('');
+        setPartSearch('');
+        setShowTransfer(true);
+    };
+
+    const closeTransfer = () => {
+        setShowTransfer(false);
+        setTransferLines([]);
+        setTransferNote('');
+        setPartSearch('');
+        setSavingTransfer(false);
+    };
+
+    const pickFromWarehouse = (warehouseId: string) => {
+        setFromWarehouseId(warehouseId);
+        setTransferLines([]);
+        if (toWarehouseId === warehouseId) setToWarehouseId('');
+    };
+
+    const toggleLineSerial = (partId: string, serialNumber: string) => {
+        setTransferLines((prev) => prev.map((row) => {
+            if (row.partId !== partId) return row;
+            if (row.serials.includes(serialNumber)) {
+                return { ...row, serials: row.serials.filter((value) => value !== serialNumber) };
+            }
+            if (row.serials.length >= (Number.parseInt(row.quantity, 10) || 0)) return row;
+            return { ...row, serials: [...row.serials, serialNumber] };
+        }));
+    };
+
+    const saveTransfer = async () => {
+        if (savingTransfer) return;
+
+        if (!fromWarehouseId || !toWarehouseId) {
+            setError('Pilih gudang asal dan tujuan.');
+            return;
+        }
+        const items = transferLines
+            .map((line) => ({
+                partId: line.partId,
+                quantity: Number.parseInt(line.quantity, 10) || 0,
+                serials: serializedPartIds.has(line.partId) ? line.serials : undefined,
+            }))
+            .filter((item) => item.quantity > 0);
+        if (items.length === 0) {
+            setError('Tambahkan minimal 1 part dengan qty lebih dari 0.');
+            return;
+        }
+        const overLine = transferLines.find((line) => (Number.parseInt(line.quantity, 10) || 0) > (fromStock.get(line.partId) || 0));
+        if (overLine) {
+            setError(`${overLine.partName} melebihi stok gudang asal (${fromStock.get(overLine.partId) || 0} pcs).`);
+            return;
+        }
+        const serialLine = items.find((item) => item.serials && item.serials.length !== item.quantity);
+        if (serialLine) {
+            setError(`Pilih ${serialLine.quantity} serial untuk ${partNameById.get(serialLine.partId) || serialLine.partId}.`);
+            return;
+        }
+
+        setSavingTransfer(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('transfer_warehouse_stock', {
+                p_from_warehouse_id: fromWarehouseId,
+                p_to_warehouse_id: toWarehouseId,
+                p_items: items,
+                p_note: transferNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as TransferWarehouseStockResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    const detail = (result.shortages || [])
+                        .map((row) => `${row.partName} (butuh ${row.required}, stok ${row.available})`)
+                        .join(', ');
+                    await stockQuery.refetch();
+                    throw new Error(`Stok gudang asal tidak cukup: ${detail}`);
+                }
+                if (result?.code === 'same_warehouse') {
+                    throw new Error('Gudang asal dan tujuan harus berbeda.');
+                }
+                if (result?.code === 'warehouse_not_found') {
+                    await warehousesQuery.refetch();
+                    throw new Error('Gudang tidak ditemukan atau sudah nonaktif.');
+                }
+                if (result?.code === 'unknown_parts') {
+                    throw new Error(`Part tidak ditemukan di inventory: ${(result.part_ids || []).join(', ')}.`);
+                }
+                if (result?.code === 'serials_required') {
+                    await fromSerialsQuery.refetch();
+                    throw new Error(`Serial number tidak sesuai: ${formatSerialIssues(result.serial_issues)}.`);
+                }
+                throw new Error('Tambahkan minimal 1 part dengan qty lebih dari 0.');
+            }
+
+            const totalQty = items.reduce((sum, item) => sum + item.quantity, 0);
+            closeTransfer();
+            setSuccess(`${totalQty} pcs dipindah ke ${warehouseById.get(toWarehouseId)?.name || 'gudang tujuan'}.`);
+            await Promise.all([stockQuery.refetch(), transfersQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memindahkan stok.';
+            setError(message);
+        } finally {
+            setSavingTransfer(false);
+        }
+    };
+
+    const renderWarehouseChips = (selectedId: string, onPick: (id: string) => void, excludeId?: string) => (
+        <View style={styles.chipRow}>
+            {activeWarehouses
+                .filter((warehouse) => warehouse.id !== excludeId)
+                .map((warehouse) => {
+                    const selected = selectedId === warehouse.id;
+                    return (
+                        <Chip
+                            key={warehouse.id}
+                            compact
+                            mode={selected ? 'flat' : 'outlined'}
+                            selected={selected}
+                            onPress={() => onPick(warehouse.id)}
+                            style={[styles.chip, selected && styles.chipActive]}
+                            textStyle={styles.chipText}
+                        >
+                            {warehouse.code}
+                        </Chip>
+                    );
+                })}
+        </View>
+    );
+
+    return (
+        <View style={adminStyles.container}>
+            <View style={adminStyles.header}>
+                <View style={{ flex: 1 }}>
+                    <Text style={adminStyles.headerTitle}>Gudang</Text>
+                    <Text style={adminStyles.headerSub}>Depot regional, area layanan dan transfer stok antar gudang</Text>
+                </View>
+                <Button
+                    mode="text"
+                    onPress={() => openTransfer()}
+                    icon="swap-horizontal"
+                    textColor={Colors.primary}
+                    disabled={activeWarehouses.length < 2}
+                    compact
+                >
+                    Transfer Stok
+                </Button>
+                <Button
+                    mode="contained"
+                    onPress={openAddWarehouse}
+                    icon="plus"
+                    style={styles.primaryBtn}
+                    labelStyle={styles.primaryBtnText}
+                    compact
+                >
+                    Tambah Gudang
+                </Button>
+            </View>
+
+            <ScrollView
+                contentContainerStyle={[adminStyles.scrollContent, { gap: 12 }]}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+            >
+                {warehouses.length === 0 ? (
+                    <View style={adminStyles.emptyState}>
+                        <MaterialCommunityIcons name="warehouse" size={48} color={Colors.textMuted} />
+                        <Text style={adminStyles.emptyText}>
+                            {warehousesQuery.isLoading ? 'Memuat gudang...' : 'Belum ada gudang.'}
+                        </Text>
+                    </View>
+                ) : warehouses.map((warehouse) => {
+                    const stock = stockByWarehouse.get(warehouse.id) || new Map<string, number>();
+                    const units = Array.from(stock.values()).reduce((sum, qty) => sum + qty, 0);
+                    return (
+                        <View key={warehouse.id} style={[adminStyles.card, styles.warehouseCard, !warehouse.is_active && { opacity: 0.6 }]}>
+                            <View style={styles.warehouseHeader}>
+                                <View style={[adminStyles.iconBox, { backgroundColor: Colors.primary + '15' }]}>
+                                    <MaterialCommunityIcons name="warehouse" size={18} color={Colors.primary} />
+                                </View>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.warehouseName}>{formatWarehouseName(warehouse)}</Text>
+                                    <Text style={styles.meta}>{stock.size} part | {units} pcs</Text>
+                                </View>
+                                {warehouse.is_default ? (
+                                    <View style={[styles.badge, { borderColor: Colors.primary + '55' }]}>
+                                        <Text style={[styles.badgeText, { color: Colors.primary }]}>Default</Text>
+                                    </View>
+                                ) : null}
+                                {!warehouse.is_active ? (
+                                    <View style={[styles.badge, { borderColor: Colors.textMuted + '55' }]}>
+                                        <Text style={[styles.badgeText, { color: Colors.textMuted }]}>Nonaktif</Text>
+                                    </View>
+                                ) : null}
+                            </View>
+                            <Text style={styles.meta}>
+                                Area: {warehouse.area_groups.length > 0
+                                    ? warehouse.area_groups.join(', ')
+                                    : (warehouse.is_default ? 'semua area lain' : '-')}
+                            </Text>
+                            <View style={styles.cardActions}>
+                                {warehouse.is_active && activeWarehouses.length > 1 ? (
+                                    <Button mode="text" compact icon="swap-horizontal" onPress={() => openTransfer(warehouse.id)}>
+                                        Transfer
+                                    </Button>
+                                ) : null}
+                                <Button mode="text" compact icon="pencil-outline" onPress={() => openEditWarehouse(warehouse)}>
+                                    Ubah
+                                </Button>
+                            </View>
+                        </View>
+                    );
+                })}
+
+                <Text style={styles.sectionTitle}>Transfer Terakhir</Text>
+                {(transfersQuery.data || []).length === 0 ? (
+                    <Text style={styles.meta}>Belum ada transfer antar gudang.</Text>
+                ) : (transfersQuery.data || []).map((transfer) => (
+                    <View key={transfer.id} style={styles.transferRow}>
+                        <MaterialCommunityIcons name="swap-horizontal" size={16} color={Colors.info} />
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.transferTitle}>
+                                {warehouseById.get(transfer.from_warehouse_id)?.code || '-'} → {warehouseById.get(transfer.to_warehouse_id)?.code || '-'}
+                            </Text>
+                            <Text style={styles.meta}>
+                                {(transfer.items || []).map((item) => (
+                                    `${item.partName || item.partId} x${item.quantity}${item.serials?.length ? ` (SN: ${item.serials.join(', ')})` : ''}`
+                                )).join(', ')}
+                            </Text>
+                            {transfer.note ? <Text style={styles.meta}>{transfer.note}</Text> : null}
+                            <Text style={styles.time}>
+                                {new Date(transfer.created_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                {transfer.created_by_name ? ` | ${transfer.created_by_name}` : ''}
+                            </Text>
+                        </View>
+                    </View>
+                ))}
+            </ScrollView>
+
+            <Portal>
+                <Modal
+                    visible={showWarehouseModal}
+                    onDismiss={closeWarehouseModal}
+                    contentContainerStyle={styles.modal}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>{warehouseForm.id ? 'Ubah Gudang' : 'Tambah Gudang'}</Text>
+                        <Pressable onPress={closeWarehouseModal}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+                    <View style={styles.formRow}>
+                        <TextInput
+                            label="Kode"
+                            value={warehouseForm.code}
+                            onChangeText={(value) => setWarehouseForm((prev) => ({ ...prev, code: value }))}
+                            autoCapitalize="characters"
+                            mode="outlined"
+                            dense
+                            style={[styles.input, styles.codeInput]}
+                        />
+                        <TextInput
+                            label="Nama gudang"
+                            value={warehouseForm.name}
+                            onChangeText={(value) => setWarehouseForm((prev) => ({ ...prev, name: value }))}
+                            mode="outlined"
+                            dense
+                            style={[styles.input, { flex: 1 }]}
+                        />
+                    </View>
+                    <TextInput
+                        label="Area layanan (pisahkan dengan koma)"
+                        value={warehouseForm.areas}
+                        onChangeText={(value) => setWarehouseForm((prev) => ({ ...prev, areas: value }))}
+                        autoCapitalize="characters"
+                        mode="outlined"
+                        multiline
+                        style={styles.input}
+                    />
+                    <Text style={styles.meta}>
+                        Pengiriman ke engineer di area ini diambil dari gudang ini. Area tanpa gudang dilayani gudang default.
+                    </Text>
+                    <View style={styles.chipRow}>
+                        <Chip
+                            compact
+                            mode={warehouseForm.is_default ? 'flat' : 'outlined'}
+                            selected={warehouseForm.is_default}
+                            onPress={() => setWarehouseForm((prev) => ({ ...prev, is_default: !prev.is_default }))}
+                            style={[styles.chip, warehouseForm.is_default && styles.chipActive]}
+                            textStyle={styles.chipText}
+                        >
+                            Default
+                        </Chip>
+                        <Chip
+                            compact
+                            mode={warehouseForm.is_active ? 'flat' : 'outlined'}
+                            selected={warehouseForm.is_active}
+                            onPress={() => setWarehouseForm((prev) => ({ ...prev, is_active: !prev.is_active }))}
+                            style={[styles.chip, warehouseForm.is_active && styles.chipActive]}
+                            textStyle={styles.chipText}
+                        >
+                            Aktif
+                        </Chip>
+                    </View>
+                    <View style={styles.modalActionRow}>
+                        <Button mode="outlined" onPress={closeWarehouseModal} style={styles.modalCancelBtn}>
+                            Batal
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={saveWarehouse}
+                            style={styles.modalSaveBtn}
+                            loading={savingWarehouse}
+                            disabled={savingWarehouse}
+                        >
+                            Simpan
+                        </Button>
+                    </View>
+                </Modal>
+
+                <Modal
+                    visible={showTransfer}
+                    onDismiss={closeTransfer}
+                    contentContainerStyle={[styles.modal, { maxHeight: '90%' }]}
+                >
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Transfer Stok</Text>
+                        <Pressable onPress={closeTransfer}>
+                            <MaterialCommunityIcons name="close" size={22} color={Colors.textSecondary} />
+                        </Pressable>
+                    </View>
+
+                    <ScrollView contentContainerStyle={{ gap: 12 }} keyboardShouldPersistTaps="handled">
+                        <Text style={styles.meta}>Dari gudang</Text>
+                        {renderWarehouseChips(fromWarehouseId, pickFromWarehouse)}
+                        <Text style={styles.meta}>Ke gudang</Text>
+                        {renderWarehouseChips(toWarehouseId, setToWarehouseId, fromWarehouseId)}
+
+                        <TextInput
+                            label="Cari part di gudang asal"
+                            value={partSearch}
+                            onChangeText={setPartSearch}
+                            mode="outlined"
+                            dense
+                            style={styles.input}
+                        />
+                        {partSuggestions.map((part) => (
+                            <Pressable
+                                key={part.partId}
+                                style={styles.suggestionRow}
+                                onPress={() => {
+                                    setTransferLines((prev) => [...prev, { partId: part.partId, partName: part.partName, quantity: '1', serials: [] }]);
+                                    setPartSearch('');
+                                }}
+                            >
+                                <MaterialCommunityIcons name="plus-circle-outline" size={18} color={Colors.primary} />
+                                <Text style={styles.transferTitle}>{part.partName}</Text>
+                                <Text style={styles.meta}>stok {part.quantity}</Text>
+                            </Pressable>
+                        ))}
+
+                        {transferLines.length === 0 ? (
+                            <Text style={styles.meta}>Belum ada part dipilih.</Text>
+                        ) : transferLines.map((line) => {
+                            const qty = Number.parseInt(line.quantity, 10) || 0;
+                            const serialOptions = fromSerialsByPart.get(line.partId) || [];
+                            return (
+                                <View key={line.partId} style={{ gap: 6 }}>
+                                    <View style={styles.formRow}>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.transferTitle}>{line.partName}</Text>
+                                            <Text style={styles.meta}>Stok asal {fromStock.get(line.partId) || 0} pcs</Text>
+                                        </View>
+                                        <TextInput
+                                            label="Qty"
+                                            value={line.quantity}
+                                            onChangeText={(value) => setTransferLines((prev) => prev.map((row) => {
+                                                if (row.partId !== line.partId) return row;
+                                                const quantity = sanitizeNumber(value);
+                                                return { ...row, quantity, serials: row.serials.slice(0, Number.parseInt(quantity, 10) || 0) };
+                                            }))}
+                                            keyboardType="number-pad"
+                                            mode="outlined"
+                                            dense
+                                            style={[styles.input, styles.qtyInput]}
+                                        />
+                                        <Pressable
+                                            onPress={() => setTransferLines((prev) => prev.filter((row) => row.partId !== line.partId))}
+                                            hitSlop={6}
+                                        >
+                                            <MaterialCommunityIcons name="close" size={18} color={Colors.danger} />
+                                        </Pressable>
+                                    </View>
+                                    {serializedPartIds.has(line.partId) ? (
+                                        <>
+                                            <Text style={styles.meta}>Serial dipindah: {line.serials.length}/{qty}</Text>
+                                            {serialOptions.length === 0 ? (
+                                                <Text style={styles.meta}>Tidak ada serial number tercatat di gudang asal.</Text>
+                                            ) : (
+                                                <View style={styles.chipRow}>
+                                                    {serialOptions.map((serialNumber) => {
+                                                        const selected = line.serials.includes(serialNumber);
+                                                        return (
+                                                            <Chip
+                                                                key={serialNumber}
+                                                                compact
+                                                                mode={selected ? 'flat' : 'outlined'}
+                                                                selected={selected}
+                                                                onPress={() => toggleLineSerial(line.partId, serialNumber)}
+                                                                disabled={!selected && line.serials.length >= qty}
+                                                                style={[styles.chip, selected && styles.chipActive]}
+                                                                textStyle={styles.chipText}
+                                                            >
+                                                                {serialNumber}
+                                                            </Chip>
+                                                        );
+                                                    })}
+                                                </View>
+                                            )}
+                                        </>
+                                    ) : null}
+                                </View>
+                            );
+                        })}
+
+                        <TextInput
+                            label="Catatan (opsional)"
+                            value={transferNote}
+                            onChangeText={setTransferNote}
+                            mode="outlined"
+                            style={styles.input}
+                        />
+                    </ScrollView>
+
+                    <View style={styles.modalActionRow}>
+                        <Button mode="outlined" onPress={closeTransfer} style={styles.modalCancelBtn}>
+                            Batal
+                        </Button>
+                        <Button
+                            mode="contained"
+                            onPress={saveTransfer}
+                            style={styles.modalSaveBtn}
+                            loading={savingTransfer}
+                            disabled={savingTransfer}
+                        >
+                            Transfer
+                        </Button>
+                    </View>
+                </Modal>
+            </Portal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2000}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    warehouseCard: {
+        gap: 8,
+    },
+    warehouseHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    warehouseName: {
+        fontSize: 15,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    meta: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    time: {
+        fontSize: 10,
+        color: Colors.textMuted,
+    },
+    badge: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    badgeText: {
+        fontSize: 11,
+        fontWeight: '700',
+    },
+    cardActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 4,
+    },
+    sectionTitle: {
+        marginTop: 8,
+        fontSize: 16,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    transferRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 10,
+        padding: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    transferTitle: {
+        flexShrink: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    primaryBtn: {
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+    primaryBtnText: {
+        color: '#08362E',
+        fontWeight: '700',
+        fontSize: 12,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    chip: {
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    chipActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    chipText: {
+        color: Colors.text,
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    formRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    suggestionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 6,
+    },
+    modal: {
+        backgroundColor: Colors.card,
+        margin: 20,
+        borderRadius: 20,
+        padding: 20,
+        gap: 14,
+        width: '100%',
+        maxWidth: 520,
+        alignSelf: 'center',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    input: {
+        backgroundColor: Colors.surface,
+    },
+    codeInput: {
+        width: 110,
+    },
+    qtyInput: {
+        width: 90,
+    },
+    modalActionRow: {
+        flexDirection: 'row',
+        gap: 10,
+        marginTop: 4,
+    },
+    modalCancelBtn: {
+        flex: 1,
+        borderRadius: 12,
+    },
+    modalSaveBtn: {
+        flex: 1,
+        borderRadius: 12,
+        backgroundColor: Colors.primary,
+    },
+});
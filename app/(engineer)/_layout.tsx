@@ -3,12 +3,17 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Platform } from 'react-native';
 import { Colors } from '../../src/config/theme';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useAuthStore } from '../../src/stores/authStore';
+import { useOutboxSync } from '../../src/hooks/useOutboxSync';
 
 export default function EngineerLayout() {
     const insets = useSafeAreaInsets();
+    const { user } = useAuthStore();
     const tabBottomPadding = Math.max(insets.bottom, 10);
     const tabHeight = 56 + tabBottomPadding;
 
+    useOutboxSync(user?.id);
+
     return (
         <Tabs
             backBehavior="none"
@@ -41,6 +46,10 @@ export default function EngineerLayout() {
                 title: 'Pemakaian',
                 tabBarIcon: ({ color, size }) => <MaterialCommunityIcons name="file-document-edit" size={size} color={color} />,
             }} />
+            <Tabs.Screen name="opname" options={{
+                title: 'Opname',
+                tabBarIcon: ({ color, size }) => <MaterialCommunityIcons name="clipboard-check-outline" size={size} color={color} />,
+            }} />
             <Tabs.Screen name="akun" options={{
                 title: 'Akun',
                 tabBarIcon: ({ color, size }) => <MaterialCommunityIcons name="account" size={size} color={color} />,
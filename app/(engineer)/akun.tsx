@@ -6,6 +6,8 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Colors } from '../../src/config/theme';
 import { useAuthStore } from '../../src/stores/authStore';
 import { syncPushIdentity } from '../../src/config/onesignal';
+import NotificationPreferencesCard from '../../src/components/NotificationPreferencesCard';
+import DigestSettingsCard from '../../src/components/DigestSettingsCard';
 
 export default function AkunPage() {
     const { user, signOut } = useAuthStore();
@@ -150,6 +152,9 @@ export default function AkunPage() {
                     </View>
                 )}
 
+                <NotificationPreferencesCard />
+                <DigestSettingsCard />
+
                 <Pressable style={styles.actionCard} onPress={signOut}>
                     <View style={[styles.actionIcon, { backgroundColor: Colors.danger + '20' }]}>
                         <MaterialCommunityIcons name="logout" size={22} color={Colors.danger} />
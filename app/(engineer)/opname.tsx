@@ -0,0 +1,584 @@
+import { useState, useMemo, useEffect } from 'react';
+import { View, StyleSheet, FlatList, RefreshControl, Pressable, TextInput, Modal as RNModal, Platform, ScrollView } from 'react-native';
+import { Text } from 'react-native-paper';
+import { useNavigation } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useQuery } from '@tanstack/react-query';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Colors } from '../../src/config/theme';
+import AppSnackbar from '../../src/components/AppSnackbar';
+import NotificationBell from '../../src/components/NotificationBell';
+import { useUnreadCount } from '../../src/hooks/useUnreadCount';
+import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
+import { useAuthStore } from '../../src/stores/authStore';
+import { supabase } from '../../src/config/supabase';
+import { InventoryPart, StockCountTask, SubmitStockCountResult } from '../../src/types';
+import { STOCK_COUNT_TASK_STATUS_META, isPastStockCountDeadline } from '../../src/utils/stockCounts';
+
+type CountLine = { partId: string; partName: string; quantity: string; extra: boolean };
+
+const TASK_HISTORY_LIMIT = 20;
+const PART_SUGGESTION_LIMIT = 5;
+
+const fetchMyCountTasks = async (engineerId: string): Promise<StockCountTask[]> => {
+    const { data, error } = await supabase
+        .from('stock_count_tasks')
+        .select('*, campaign:stock_count_campaigns(*)')
+        .eq('engineer_id', engineerId)
+        .order('created_at', { ascending: false })
+        .limit(TASK_HISTORY_LIMIT);
+    if (error) throw error;
+    return (data || []) as StockCountTask[];
+};
+
+const fetchPartNames = async (): Promise<Pick<InventoryPart, 'id' | 'part_name'>[]> => {
+    const { data, error } = await supabase
+        .from('inventory')
+        .select('id, part_name')
+        .order('part_name');
+    if (error) throw error;
+    return data || [];
+};
+
+const sanitizeNumber = (value: string) => value.replace(/[^0-9]/g, '');
+
+export default function OpnamePage() {
+    const { user } = useAuthStore();
+    const insets = useSafeAreaInsets();
+    const navigation = useNavigation<any>();
+    const unreadCount = useUnreadCount();
+
+    const [refreshing, setRefreshing] = useState(false);
+    const [countTask, setCountTask] = useState<StockCountTask | null>(null);
+    const [countLines, setCountLines] = useState<CountLine[]>([]);
+    const [partSearch, setPartSearch] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const tasksQuery = useQuery({
+        queryKey: ['engineer', 'stock-counts', user?.id],
+        queryFn: () => fetchMyCountTasks(user!.id),
+        enabled: !!user?.id,
+    });
+    const partsQuery = useQuery({
+        queryKey: ['engineer', 'stock-counts', 'parts'],
+        queryFn: fetchPartNames,
+        enabled: !!user?.id,
+    });
+    const partNameById = useMemo(
+        () => new Map((partsQuery.data || []).map((part) => [part.id, part.part_name])),
+        [partsQuery.data]
+    );
+
+    const tasks = tasksQuery.data || [];
+    const openTasks = useMemo(
+        () => tasks.filter((task) => task.status === 'pending' && task.campaign?.status === 'open'),
+        [tasks]
+    );
+    const pastTasks = useMemo(
+        () => tasks.filter((task) => !(task.status === 'pending' && task.campaign?.status === 'open')),
+        [tasks]
+    );
+
+    useSupabaseRealtimeRefresh(
+        ['stock_count_tasks', 'stock_count_campaigns'],
+        () => {
+            void tasksQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+
+    useEffect(() => {
+        if (!tasksQuery.error) return;
+        const message = tasksQuery.error instanceof Error ? tasksQuery.error.message : 'Gagal memuat stock opname.';
+        setError(message);
+    }, [tasksQuery.error]);
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        try {
+            await Promise.all([tasksQuery.refetch(), partsQuery.refetch()]);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    const partSuggestions = useMemo(() => {
+        const keyword = partSearch.trim().toLowerCase();
+        if (!keyword) return [];
+        const picked = new Set(countLines.map((line) => line.partId));
+        return (partsQuery.data || [])
+            .filter((part) => !picked.has(part.id))
+            .filter((part) => part.part_name.toLowerCase().includes(keyword) || part.id.toLowerCase().includes(keyword))
+            .slice(0, PART_SUGGESTION_LIMIT);
+    }, [partsQuery.data, partSearch, countLines]);
+
+    // Quantities start empty: the count is blind, the system stock is not shown.
+    const openCount = (task: StockCountTask) => {
+        setCountTask(task);
+        setCountLines(task.part_ids.map((partId) => ({
+            partId,
+            partName: partNameById.get(partId) || partId,
+            quantity: '',
+            extra: false,
+        })));
+        setPartSearch('');
+    };
+
+    const closeCount = () => {
+        setCountTask(null);
+        setCountLines([]);
+        setPartSearch('');
+        setSubmitting(false);
+    };
+
+    const submitCount = async () => {
+        if (!countTask || submitting) return;
+
+        const empty = countLines.find((line) => line.quantity === '');
+        if (empty) {
+            setError(`Isi jumlah hitung untuk ${empty.partName} (0 jika tidak ada).`);
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('submit_stock_count', {
+                p_task_id: countTask.id,
+                p_counts: countLines.map((line) => ({ partId: line.partId, quantity: Number.parseInt(line.quantity, 10) || 0 })),
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as SubmitStockCountResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'missing_counts') {
+                    throw new Error(`Part belum dihitung: ${(result.part_ids || []).join(', ')}.`);
+                }
+                if (result?.code === 'unknown_parts') {
+                    throw new Error(`Part tidak ditemukan di inventory: ${(result.part_ids || []).join(', ')}.`);
+                }
+                if (result?.code === 'campaign_closed') {
+                    await tasksQuery.refetch();
+                    throw new Error('Stock opname sudah ditutup admin.');
+                }
+                await tasksQuery.refetch();
+                throw new Error('Hitungan untuk stock opname ini sudah dikirim.');
+            }
+
+            closeCount();
+            setSuccess(`Hitungan ${result.line_count ?? countLines.length} part terkirim. Admin akan mereview selisihnya.`);
+            await tasksQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal mengirim hitungan.';
+            setError(message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const renderTask = ({ item: task }: { item: StockCountTask }) => {
+        const campaign = task.campaign;
+        const isOpen = task.status === 'pending' && campaign?.status === 'open';
+        const overdue = isOpen && !!campaign && isPastStockCountDeadline(campaign.deadline);
+        const meta = task.status === 'pending' && !isOpen
+            ? { label: 'Terlewat', color: Colors.textMuted }
+            : STOCK_COUNT_TASK_STATUS_META[task.status];
+
+        return (
+            <View style={styles.card}>
+                <View style={styles.cardHeader}>
+                    <View style={styles.dateIcon}>
+                        <MaterialCommunityIcons name="clipboard-check-outline" size={18} color={Colors.primary} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                        <Text style={styles.cardTitle}>{campaign?.title || 'Stock Opname'}</Text>
+                        <Text style={[styles.cardSubtitle, overdue && { color: Colors.danger }]}>
+                            Deadline {campaign?.deadline || '-'}{overdue ? ' (lewat)' : ''} | {task.part_ids.length} part
+                        </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { borderColor: meta.color + '70', backgroundColor: meta.color + '20' }]}>
+                        <Text style={[styles.statusText, { color: meta.color }]}>{meta.label}</Text>
+                    </View>
+                </View>
+                {campaign?.note ? <Text style={styles.cardNote}>{campaign.note}</Text> : null}
+                {task.submitted_at ? (
+                    <Text style={styles.cardSubtitle}>Dikirim {new Date(task.submitted_at).toLocaleString('id-ID')}</Text>
+                ) : null}
+                {isOpen ? (
+                    <Pressable
+                        style={({ pressed }) => [styles.countBtn, pressed && { opacity: 0.88 }]}
+                        onPress={() => openCount(task)}
+                    >
+                        <MaterialCommunityIcons name="counter" size={18} color="#08362E" />
+                        <Text style={styles.countBtnText}>Mulai Hitung</Text>
+                    </Pressable>
+                ) : null}
+            </View>
+        );
+    };
+
+    return (
+        <View style={[styles.container, { paddingTop: insets.top + 12 }]}>
+            <FlatList
+                data={[...openTasks, ...pastTasks]}
+                keyExtractor={(item) => item.id}
+                renderItem={renderTask}
+                refreshControl={Platform.OS === 'web' ? undefined : <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={Colors.primary} />}
+                contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 86, 110), gap: 12 }}
+                ListHeaderComponent={
+                    <>
+                        <View style={styles.header}>
+                            <View style={styles.headerSpacer} />
+                            <Text style={styles.pageTitle}>Opname</Text>
+                            <NotificationBell unreadCount={unreadCount} onPress={() => navigation.navigate('notifications' as never)} />
+                        </View>
+                        <Text style={styles.sectionTitle}>Stock Opname</Text>
+                        <Text style={styles.sectionSub}>
+                            {openTasks.length > 0
+                                ? `${openTasks.length} hitungan menunggu. Hitung fisik stok yang Anda pegang lalu kirim.`
+                                : 'Tidak ada hitungan yang menunggu.'}
+                        </Text>
+                    </>
+                }
+                ListEmptyComponent={
+                    <View style={styles.empty}>
+                        <MaterialCommunityIcons name="clipboard-check-outline" size={48} color={Colors.textMuted} />
+                        <Text style={styles.emptyText}>
+                            {tasksQuery.isLoading ? 'Memuat stock opname...' : 'Belum ada stock opname'}
+                        </Text>
+                    </View>
+                }
+            />
+
+            <RNModal
+                visible={!!countTask}
+                transparent
+                animationType="slide"
+                onRequestClose={closeCount}
+            >
+                {countTask ? (
+                    <View style={styles.sheetModalContainer}>
+                        <Pressable style={styles.sheetBackdrop} onPress={closeCount} />
+                        <View style={[styles.sheetModalCard, { paddingBottom: Math.max(insets.bottom, 10) }]}>
+                            <View style={styles.sheetHandleIndicator} />
+                            <Text style={styles.sheetTitle}>{countTask.campaign?.title || 'Stock Opname'}</Text>
+                            <Text style={styles.sheetNote}>
+                                Isi jumlah fisik setiap part (0 jika tidak ada). Part lain yang Anda pegang bisa ditambahkan.
+                            </Text>
+
+                            <ScrollView style={styles.countList} contentContainerStyle={{ gap: 8 }} keyboardShouldPersistTaps="handled">
+                                {countLines.map((line) => (
+                                    <View key={line.partId} style={styles.countRow}>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.cardTitle}>{line.partName}</Text>
+                                            <Text style={styles.cardSubtitle}>ID: {line.partId}</Text>
+                                        </View>
+                                        <TextInput
+                                            value={line.quantity}
+                                            onChangeText={(value) => setCountLines((prev) => prev.map((row) => (
+                                                row.partId === line.partId ? { ...row, quantity: sanitizeNumber(value) } : row
+                                            )))}
+                                            keyboardType="number-pad"
+                                            placeholder="Qty"
+                                            placeholderTextColor="#8A93A2"
+                                            style={styles.qtyInput}
+                                        />
+                                        {line.extra ? (
+                                            <Pressable
+                                                onPress={() => setCountLines((prev) => prev.filter((row) => row.partId !== line.partId))}
+                                                hitSlop={6}
+                                            >
+                                                <MaterialCommunityIcons name="close" size={18} color={Colors.danger} />
+                                            </Pressable>
+                                        ) : null}
+                                    </View>
+                                ))}
+
+                                <View style={styles.searchWrap}>
+                                    <MaterialCommunityIcons name="plus" size={20} color={Colors.primary} />
+                                    <TextInput
+                                        value={partSearch}
+                                        onChangeText={setPartSearch}
+                                        placeholder="Tambah part lain..."
+                                        placeholderTextColor="#8A93A2"
+                                        style={styles.searchInput}
+                                    />
+                                </View>
+                                {partSuggestions.map((part) => (
+                                    <Pressable
+                                        key={part.id}
+                                        style={styles.suggestionRow}
+                                        onPress={() => {
+                                            setCountLines((prev) => [...prev, { partId: part.id, partName: part.part_name, quantity: '', extra: true }]);
+                                            setPartSearch('');
+                                        }}
+                                    >
+                                        <MaterialCommunityIcons name="plus-circle-outline" size={18} color={Colors.primary} />
+                                        <Text style={styles.cardTitle}>{part.part_name}</Text>
+                                        <Text style={styles.cardSubtitle}>{part.id}</Text>
+                                    </Pressable>
+                                ))}
+                            </ScrollView>
+
+                            <View style={styles.actionRow}>
+                                <Pressable style={styles.cancelBtn} onPress={closeCount}>
+                                    <Text style={styles.cancelBtnText}>Batal</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[styles.saveBtn, (submitting || countLines.length === 0) && styles.btnDisabled]}
+                                    onPress={submitCount}
+                                    disabled={submitting || countLines.length === 0}
+                                >
+                                    <MaterialCommunityIcons name="send" size={18} color="#08362E" />
+                                    <Text style={styles.saveBtnText}>{submitting ? 'Mengirim...' : 'Kirim'}</Text>
+                                </Pressable>
+                            </View>
+                        </View>
+                    </View>
+                ) : null}
+            </RNModal>
+
+            <AppSnackbar
+                visible={!!error}
+                onDismiss={() => setError('')}
+                duration={3200}
+                style={{ backgroundColor: Colors.danger }}
+            >
+                {error}
+            </AppSnackbar>
+            <AppSnackbar
+                visible={!!success}
+                onDismiss={() => setSuccess('')}
+                duration={2200}
+                style={{ backgroundColor: Colors.success }}
+            >
+                {success}
+            </AppSnackbar>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: Colors.bg,
+        paddingHorizontal: 16,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    headerSpacer: {
+        width: 48,
+    },
+    pageTitle: {
+        flex: 1,
+        textAlign: 'center',
+        fontSize: 18,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    sectionTitle: {
+        marginTop: 10,
+        fontSize: 24,
+        color: Colors.text,
+        fontWeight: '700',
+    },
+    sectionSub: {
+        marginTop: 4,
+        marginBottom: 12,
+        color: '#A2ACBA',
+        fontSize: 13,
+    },
+    card: {
+        backgroundColor: '#111827',
+        borderRadius: 16,
+        padding: 12,
+        borderWidth: 1,
+        borderColor: '#1F2937',
+        gap: 8,
+    },
+    cardHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    dateIcon: {
+        width: 38,
+        height: 38,
+        borderRadius: 11,
+        backgroundColor: '#0D3D30',
+        justifyContent: 'center',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderColor: Colors.primary,
+    },
+    cardTitle: {
+        flexShrink: 1,
+        fontSize: 14,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    cardSubtitle: {
+        fontSize: 11,
+        color: Colors.textMuted,
+        marginTop: 1,
+    },
+    cardNote: {
+        color: '#B1BBCB',
+        fontSize: 13,
+    },
+    statusBadge: {
+        paddingHorizontal: 9,
+        paddingVertical: 4,
+        borderRadius: 10,
+        borderWidth: 1,
+    },
+    statusText: {
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    countBtn: {
+        height: 44,
+        borderRadius: 14,
+        backgroundColor: Colors.primary,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+    },
+    countBtnText: {
+        color: '#08362E',
+        fontSize: 15,
+        fontWeight: '700',
+    },
+    empty: {
+        alignItems: 'center',
+        marginTop: 40,
+        gap: 12,
+    },
+    emptyText: {
+        color: Colors.textMuted,
+        fontSize: 16,
+    },
+    sheetModalContainer: {
+        flex: 1,
+        justifyContent: 'flex-end',
+    },
+    sheetBackdrop: {
+        ...StyleSheet.absoluteFillObject,
+        backgroundColor: 'rgba(0,0,0,0.58)',
+    },
+    sheetModalCard: {
+        width: '100%',
+        maxHeight: '90%',
+        backgroundColor: '#0A0F18',
+        borderTopLeftRadius: 28,
+        borderTopRightRadius: 28,
+        paddingTop: 10,
+        paddingHorizontal: 18,
+        gap: 12,
+    },
+    sheetHandleIndicator: {
+        width: 44,
+        height: 5,
+        borderRadius: 999,
+        backgroundColor: '#D8E0EC',
+        alignSelf: 'center',
+    },
+    sheetTitle: {
+        color: Colors.text,
+        fontSize: 22,
+        fontWeight: '700',
+    },
+    sheetNote: {
+        color: '#B1BBCB',
+        fontSize: 14,
+        lineHeight: 20,
+    },
+    countList: {
+        flexGrow: 0,
+    },
+    countRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        padding: 10,
+        borderRadius: 14,
+        backgroundColor: '#111827',
+        borderWidth: 1,
+        borderColor: '#1F2937',
+    },
+    qtyInput: {
+        width: 72,
+        height: 42,
+        borderRadius: 12,
+        backgroundColor: '#1B2430',
+        color: Colors.text,
+        fontSize: 16,
+        textAlign: 'center',
+    },
+    searchWrap: {
+        height: 46,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#313443',
+        backgroundColor: '#1A1D25',
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        gap: 10,
+    },
+    searchInput: {
+        flex: 1,
+        color: Colors.text,
+        fontSize: 14,
+        paddingVertical: 0,
+    },
+    suggestionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 6,
+    },
+    actionRow: {
+        flexDirection: 'row',
+        gap: 12,
+        marginTop: 2,
+    },
+    cancelBtn: {
+        flex: 1,
+        height: 52,
+        borderRadius: 18,
+        borderWidth: 1,
+        borderColor: '#7A8496',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'transparent',
+    },
+    cancelBtnText: {
+        color: Colors.primary,
+        fontSize: 17,
+        fontWeight: '700',
+    },
+    saveBtn: {
+        flex: 1,
+        height: 52,
+        borderRadius: 18,
+        backgroundColor: Colors.primary,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+    },
+    saveBtnText: {
+        color: '#08362E',
+        fontSize: 17,
+        fontWeight: '700',
+    },
+    btnDisabled: {
+        opacity: 0.64,
+    },
+});
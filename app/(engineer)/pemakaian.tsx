@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { View, StyleSheet, FlatList, RefreshControl, Pressable, BackHandler, Platform } from 'react-native';
-import { Text, TextInput, IconButton, Searchbar } from 'react-native-paper';
+import { Text, TextInput, IconButton, Searchbar, Chip } from 'react-native-paper';
 import { useFocusEffect, useNavigation } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useQuery } from '@tanstack/react-query';
@@ -15,15 +15,31 @@ import { useWebPullToRefresh } from '../../src/hooks/useWebPullToRefresh';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
 import { useAuthStore } from '../../src/stores/authStore';
 import { supabase } from '../../src/config/supabase';
-import { UsageReport, UsageItem, EngineerStock } from '../../src/types';
+import { useOutboxStore, createClientRef, isNetworkError } from '../../src/stores/outboxStore';
+import {
+    UsageReport,
+    UsageItem,
+    EngineerStock,
+    SubmitUsageReportResult,
+    OutboxEntry,
+    DefectivePart,
+    ReportDefectivePartResult,
+    UpdateDefectivePartStatusResult,
+    PartSerial,
+} from '../../src/types';
+import { NotificationService } from '../../src/services/NotificationService';
+import { DEFECT_STATUS_META, DEFECT_CLOSED_STATUSES } from '../../src/utils/defectiveParts';
+import { formatSerialIssues } from '../../src/utils/partSerials';
 
-type StockWithName = EngineerStock & { part_name?: string };
+type StockWithName = EngineerStock & { part_name?: string; is_serialized?: boolean };
+type DefectTarget = { report: UsageReport; item: UsageItem; remaining: number; serialOptions: string[] };
 const SO_NUMBER_MIN_DIGIT_LENGTH = 8; // YYYYMMDD
 const SO_NUMBER_MAX_DIGIT_LENGTH = 20;
 const USAGE_HISTORY_LIMIT = 5;
 const SO_NUMBER_PATTERN = new RegExp(`^\\d{${SO_NUMBER_MIN_DIGIT_LENGTH},${SO_NUMBER_MAX_DIGIT_LENGTH}}$`);
 const STOCK_PAGE_SIZE = 1000;
 const STOCK_MAX_PAGES = 200;
+const DEFECT_HISTORY_LIMIT = 50;
 
 const fetchEngineerUsageReports = async (engineerId: string): Promise<UsageReport[]> => {
     let response: any = await supabase
@@ -68,19 +84,19 @@ const fetchEngineerUsageStocks = async (engineerId: string): Promise<StockWithNa
             throw new Error(`Data engineer_stock melebihi batas ${STOCK_PAGE_SIZE * STOCK_MAX_PAGES} row.`);
         })(),
         (async () => {
-            const rows: { id: string; part_name: string }[] = [];
+            const rows: { id: string; part_name: string; is_serialized: boolean }[] = [];
             for (let page = 0; page < STOCK_MAX_PAGES; page += 1) {
                 const from = page * STOCK_PAGE_SIZE;
                 const to = from + STOCK_PAGE_SIZE - 1;
                 const res = await supabase
                     .from('inventory')
-                    .select('id, part_name')
+                    .select('id, part_name, is_serialized')
                     .order('id', { ascending: true })
                     .range(from, to);
 
                 if (res.error) throw res.error;
 
-                const chunk = (res.data || []) as { id: string; part_name: string }[];
+                const chunk = (res.data || []) as { id: string; part_name: string; is_serialized: boolean }[];
                 rows.push(...chunk);
                 if (chunk.length < STOCK_PAGE_SIZE) return rows;
             }
@@ -89,10 +105,37 @@ const fetchEngineerUsageStocks = async (engineerId: string): Promise<StockWithNa
         })(),
     ]);
 
-    const partsMap: Record<string, string> = {};
-    partRows.forEach((p) => { partsMap[p.id] = p.part_name; });
+    const partsMap: Record<string, { part_name: string; is_serialized: boolean }> = {};
+    partRows.forEach((p) => { partsMap[p.id] = p; });
 
-    return stockRows.map((s) => ({ ...s, part_name: partsMap[s.part_id] || s.part_id }));
+    return stockRows.map((s) => ({
+        ...s,
+        part_name: partsMap[s.part_id]?.part_name || s.part_id,
+        is_serialized: !!partsMap[s.part_id]?.is_serialized,
+    }));
+};
+
+const fetchEngineerDefectiveParts = async (engineerId: string): Promise<DefectivePart[]> => {
+    const { data, error } = await supabase
+        .from('defective_parts')
+        .select('*')
+        .eq('engineer_id', engineerId)
+        .order('created_at', { ascending: false })
+        .limit(DEFECT_HISTORY_LIMIT);
+    if (error) throw error;
+    return (data || []) as DefectivePart[];
+};
+
+const fetchEngineerHeldSerials = async (engineerId: string): Promise<PartSerial[]> => {
+    const { data, error } = await supabase
+        .from('part_serials')
+        .select('*')
+        .eq('engineer_id', engineerId)
+        .eq('status', 'with_engineer')
+        .order('part_id', { ascending: true })
+        .order('serial_number', { ascending: true });
+    if (error) throw error;
+    return (data || []) as PartSerial[];
 };
 
 const hasValidSoDatePrefix = (value: string): boolean => {
@@ -121,16 +164,49 @@ export default function PemakaianPage() {
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
     const [sending, setSending] = useState(false);
-    const [step, setStep] = useState<'summary' | 'select' | 'quantity'>('summary');
+    const [step, setStep] = useState<'summary' | 'select' | 'quantity' | 'defect'>('summary');
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedStock, setSelectedStock] = useState<StockWithName | null>(null);
     const [qty, setQty] = useState(1);
+    const [pickedSerials, setPickedSerials] = useState<string[]>([]);
+    const [defectTarget, setDefectTarget] = useState<DefectTarget | null>(null);
+    const [defectQty, setDefectQty] = useState(1);
+    const [defectSymptom, setDefectSymptom] = useState('');
+    const [defectSerials, setDefectSerials] = useState<string[]>([]);
+    const [savingDefect, setSavingDefect] = useState(false);
+    const [updatingDefectId, setUpdatingDefectId] = useState<string | null>(null);
 
     const selectSnapPoints = useMemo(() => ['78%'], []);
     const qtySnapPoints = useMemo(() => ['44%'], []);
+    const serialQtySnapPoints = useMemo(() => ['66%'], []);
+    const defectSnapPoints = useMemo(() => ['62%'], []);
+    const defectSerialSnapPoints = useMemo(() => ['74%'], []);
+    const heldSerialsQuery = useQuery({
+        queryKey: ['engineer', 'heldSerials', user?.id],
+        queryFn: () => fetchEngineerHeldSerials(user!.id),
+        enabled: !!user?.id,
+    });
+    const heldSerialsByPart = useMemo(() => {
+        const map = new Map<string, PartSerial[]>();
+        for (const serial of heldSerialsQuery.data || []) {
+            const list = map.get(serial.part_id) || [];
+            list.push(serial);
+            map.set(serial.part_id, list);
+        }
+        return map;
+    }, [heldSerialsQuery.data]);
+    const selectedSerialOptions = selectedStock ? heldSerialsByPart.get(selectedStock.part_id) || [] : [];
+    const isSelectedSerialized = !!selectedStock?.is_serialized;
+    // One serial per unit of a serialized part, out of the serials the engineer holds.
+    const requiredSerialCount = isSelectedSerialized ? qty : 0;
+    const defectSerialCount = defectTarget?.serialOptions.length ? defectQty : 0;
     const activeSnapPoints = useMemo(
-        () => (step === 'select' ? selectSnapPoints : qtySnapPoints),
-        [step, selectSnapPoints, qtySnapPoints]
+        () => (step === 'select'
+            ? selectSnapPoints
+            : step === 'defect'
+                ? defectSerialCount > 0 ? defectSerialSnapPoints : defectSnapPoints
+                : isSelectedSerialized ? serialQtySnapPoints : qtySnapPoints),
+        [step, selectSnapPoints, qtySnapPoints, serialQtySnapPoints, defectSnapPoints, defectSerialSnapPoints, defectSerialCount, isSelectedSerialized]
     );
     const sheetOpen = step !== 'summary';
     const visibleTabStyle = useMemo(() => {
@@ -162,16 +238,45 @@ export default function PemakaianPage() {
         queryFn: () => fetchEngineerUsageStocks(user!.id),
         enabled: !!user?.id,
     });
+    const defectsQuery = useQuery({
+        queryKey: ['engineer', 'defectiveParts', user?.id],
+        queryFn: () => fetchEngineerDefectiveParts(user!.id),
+        enabled: !!user?.id,
+    });
     const reports = useMemo(() => (reportsQuery.data || []).slice(0, USAGE_HISTORY_LIMIT), [reportsQuery.data]);
+    const defects = defectsQuery.data || [];
+    const openDefects = useMemo(
+        () => defects.filter((defect) => !DEFECT_CLOSED_STATUSES.includes(defect.status)),
+        [defects]
+    );
+    const flaggedByReportPart = useMemo(() => {
+        const map = new Map<string, number>();
+        for (const defect of defects) {
+            if (!defect.usage_report_id) continue;
+            const key = `${defect.usage_report_id}|${defect.part_id}`;
+            map.set(key, (map.get(key) || 0) + defect.quantity);
+        }
+        return map;
+    }, [defects]);
+    const outboxEntries = useOutboxStore((state) => state.entries);
+    const outboxSyncing = useOutboxStore((state) => state.syncing);
+    const enqueueOutbox = useOutboxStore((state) => state.enqueue);
+    const retryOutboxEntry = useOutboxStore((state) => state.retry);
+    const removeOutboxEntry = useOutboxStore((state) => state.remove);
+    const queuedReports = useMemo(
+        () => outboxEntries.filter((entry) => entry.payload.kind === 'usage_report'),
+        [outboxEntries]
+    );
+    const queuedReportCount = queuedReports.length;
     const stocks = stocksQuery.data || [];
     const loadingStocks = stocksQuery.isFetching;
 
     useEffect(() => {
-        const sourceError = reportsQuery.error || stocksQuery.error;
+        const sourceError = reportsQuery.error || stocksQuery.error || defectsQuery.error || heldSerialsQuery.error;
         if (!sourceError) return;
         const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data pemakaian.';
         setError(message);
-    }, [reportsQuery.error, stocksQuery.error]);
+    }, [reportsQuery.error, stocksQuery.error, defectsQuery.error, heldSerialsQuery.error]);
 
     useSupabaseRealtimeRefresh(
         ['usage_reports'],
@@ -187,8 +292,36 @@ export default function PemakaianPage() {
         },
         { enabled: !!user?.id },
     );
+    useSupabaseRealtimeRefresh(
+        ['defective_parts'],
+        () => {
+            void defectsQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+    useSupabaseRealtimeRefresh(
+        ['part_serials'],
+        () => {
+            void heldSerialsQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+    const refetchReports = reportsQuery.refetch;
+    const refetchStocks = stocksQuery.refetch;
+    const refetchHeldSerials = heldSerialsQuery.refetch;
+    useEffect(() => {
+        // A queued report left the outbox (synced or discarded): pull fresh history and stock.
+        if (!user?.id) return;
+        void refetchReports();
+        void refetchStocks();
+        void refetchHeldSerials();
+    }, [queuedReportCount, refetchHeldSerials, refetchReports, refetchStocks, user?.id]);
     useFocusEffect(useCallback(() => {
         const onBackPress = () => {
+            if (step === 'defect') {
+                closeDefectSheet();
+                return true;
+            }
             if (step === 'quantity') {
                 setStep('select');
                 return true;
@@ -222,7 +355,7 @@ export default function PemakaianPage() {
     const onRefresh = async () => {
         setRefreshing(true);
         try {
-            await Promise.all([reportsQuery.refetch(), stocksQuery.refetch()]);
+            await Promise.all([reportsQuery.refetch(), stocksQuery.refetch(), defectsQuery.refetch(), heldSerialsQuery.refetch()]);
         } finally {
             setRefreshing(false);
         }
@@ -244,31 +377,188 @@ export default function PemakaianPage() {
     const openQuantitySheet = (stock: StockWithName) => {
         const existing = items.find(i => i.partId === stock.part_id);
         const initialQty = existing ? Math.min(existing.quantity, stock.quantity) : 1;
+        const heldSerials = new Set((heldSerialsByPart.get(stock.part_id) || []).map((serial) => serial.serial_number));
         setSelectedStock(stock);
         setQty(Math.max(1, initialQty));
+        setPickedSerials((existing?.serials || []).filter((serial) => heldSerials.has(serial)));
         setStep('quantity');
     };
 
+    const changeQty = (nextQty: number) => {
+        setQty(nextQty);
+        setPickedSerials((prev) => prev.slice(0, nextQty));
+    };
+
+    const toggleSerial = (serialNumber: string) => {
+        setPickedSerials((prev) => {
+            if (prev.includes(serialNumber)) return prev.filter((value) => value !== serialNumber);
+            if (prev.length >= requiredSerialCount) return prev;
+            return [...prev, serialNumber];
+        });
+    };
+
     const confirmQuantity = () => {
         if (!selectedStock) return;
         const safeQty = Math.max(1, Math.min(qty, selectedStock.quantity));
+        if (pickedSerials.length !== requiredSerialCount) {
+            setError(`Pilih ${requiredSerialCount} serial number yang dipasang.`);
+            return;
+        }
+        const serials = isSelectedSerialized ? pickedSerials : undefined;
 
         setItems(prev => {
             const exists = prev.find(i => i.partId === selectedStock.part_id);
             if (exists) {
                 return prev.map(i => i.partId === selectedStock.part_id
-                    ? { ...i, partName: selectedStock.part_name || selectedStock.part_id, quantity: safeQty }
+                    ? { ...i, partName: selectedStock.part_name || selectedStock.part_id, quantity: safeQty, serials }
                     : i
                 );
             }
-            return [...prev, { partId: selectedStock.part_id, partName: selectedStock.part_name || selectedStock.part_id, quantity: safeQty }];
+            return [...prev, { partId: selectedStock.part_id, partName: selectedStock.part_name || selectedStock.part_id, quantity: safeQty, serials }];
         });
 
         setSelectedStock(null);
         setQty(1);
+        setPickedSerials([]);
         setStep('summary');
     };
 
+    const openDefectSheet = (report: UsageReport, item: UsageItem) => {
+        const flagged = flaggedByReportPart.get(`${report.id}|${item.partId}`) || 0;
+        const remaining = item.quantity - flagged;
+        if (remaining <= 0) {
+            setError('Semua unit part ini sudah ditandai cacat.');
+            return;
+        }
+        // Serials installed on this line that are not flagged yet.
+        const flaggedSerials = new Set(defects
+            .filter((defect) => defect.usage_report_id === report.id && defect.part_id === item.partId)
+            .flatMap((defect) => defect.serials || []));
+        const serialOptions = (item.serials || []).filter((serial) => !flaggedSerials.has(serial));
+        setDefectTarget({ report, item, remaining, serialOptions });
+        setDefectQty(1);
+        setDefectSymptom('');
+        setDefectSerials([]);
+        setStep('defect');
+    };
+
+    const closeDefectSheet = () => {
+        setDefectTarget(null);
+        setDefectQty(1);
+        setDefectSymptom('');
+        setDefectSerials([]);
+        setStep('summary');
+    };
+
+    const changeDefectQty = (nextQty: number) => {
+        setDefectQty(nextQty);
+        setDefectSerials((prev) => prev.slice(0, nextQty));
+    };
+
+    const toggleDefectSerial = (serialNumber: string) => {
+        setDefectSerials((prev) => {
+            if (prev.includes(serialNumber)) return prev.filter((value) => value !== serialNumber);
+            if (prev.length >= defectSerialCount) return prev;
+            return [...prev, serialNumber];
+        });
+    };
+
+    const submitDefect = async () => {
+        if (!user || !defectTarget || savingDefect) return;
+        if (!defectSymptom.trim()) {
+            setError('Gejala kerusakan wajib diisi.');
+            return;
+        }
+        if (defectSerials.length !== defectSerialCount) {
+            setError(`Pilih ${defectSerialCount} serial number part yang cacat.`);
+            return;
+        }
+
+        const { report, item } = defectTarget;
+        const partName = item.partName || partNameById.get(item.partId) || item.partId;
+        setSavingDefect(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('report_defective_part', {
+                p_usage_report_id: report.id,
+                p_part_id: item.partId,
+                p_quantity: defectQty,
+                p_symptom: defectSymptom.trim(),
+                p_serials: defectSerialCount > 0 ? defectSerials : null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ReportDefectivePartResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'quantity_exceeded') {
+                    throw new Error(`Jumlah melebihi pemakaian. Dipakai ${result.used} pcs, sudah ditandai ${result.flagged} pcs.`);
+                }
+                if (result?.code === 'part_not_in_report' || result?.code === 'not_found') {
+                    throw new Error('Part tidak ditemukan di laporan pemakaian ini.');
+                }
+                if (result?.code === 'symptom_required') {
+                    throw new Error('Gejala kerusakan wajib diisi.');
+                }
+                if (result?.code === 'serials_required') {
+                    throw new Error(`Serial number tidak sesuai: ${formatSerialIssues(result.serial_issues)}. Pilih serial yang terpasang di SO ini.`);
+                }
+                throw new Error('Jumlah part cacat tidak valid.');
+            }
+
+            void NotificationService.sendToRole(
+                'admin',
+                'Part Cacat',
+                `${user.name} menandai ${partName} x${defectQty} cacat (SO ${report.so_number}).`,
+                { defect_id: result.defect_id, so_number: report.so_number, type: 'defective_part' },
+            ).catch((e) => console.error('[pemakaian.submitDefect] Notification error:', e));
+
+            closeDefectSheet();
+            setSuccess('Part ditandai cacat. Kirim part ke gudang untuk proses RMA.');
+            await defectsQuery.refetch();
+        } catch (e: any) {
+            setError(e.message || 'Gagal menandai part cacat');
+        } finally {
+            setSavingDefect(false);
+        }
+    };
+
+    const updateDefect = async (defect: DefectivePart, status: 'shipped' | 'withdrawn') => {
+        if (!user || updatingDefectId) return;
+        setUpdatingDefectId(defect.id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('update_defective_part_status', {
+                p_defect_id: defect.id,
+                p_status: status,
+                p_note: null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as UpdateDefectivePartStatusResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'invalid_transition') {
+                    throw new Error('Status part cacat sudah berubah. Muat ulang data.');
+                }
+                throw new Error('Part cacat tidak ditemukan.');
+            }
+
+            if (status === 'shipped') {
+                void NotificationService.sendToRole(
+                    'admin',
+                    'Part Cacat Dikirim',
+                    `${user.name} mengirim ${defect.part_name || defect.part_id} x${defect.quantity} ke gudang (SO ${defect.so_number}).`,
+                    { defect_id: defect.id, so_number: defect.so_number, type: 'defective_part' },
+                ).catch((e) => console.error('[pemakaian.updateDefect] Notification error:', e));
+            }
+
+            setSuccess(status === 'shipped' ? 'Part cacat ditandai sudah dikirim ke gudang.' : 'Tanda cacat dibatalkan.');
+            await defectsQuery.refetch();
+        } catch (e: any) {
+            setError(e.message || 'Gagal memperbarui part cacat');
+            void defectsQuery.refetch();
+        } finally {
+            setUpdatingDefectId(null);
+        }
+    };
+
     const removeUsageItem = (partId: string) => {
         setItems(prev => prev.filter(i => i.partId !== partId));
     };
@@ -293,6 +583,30 @@ export default function PemakaianPage() {
         setSoNumber(numericOnly);
     };
 
+    const resetForm = () => {
+        setSoNumber('');
+        setDescription('');
+        setItems([]);
+        setStep('summary');
+        setSelectedStock(null);
+        setQty(1);
+        setPickedSerials([]);
+    };
+
+    const runOutboxAction = (action: () => Promise<void>) => {
+        void action().catch((e: any) => setError(e?.message || 'Gagal memperbarui antrean offline.'));
+    };
+
+    const editQueuedReport = async (entry: OutboxEntry) => {
+        if (entry.payload.kind !== 'usage_report') return;
+        setSoNumber(entry.payload.soNumber);
+        setDescription(entry.payload.description || '');
+        setItems(entry.payload.items);
+        await removeOutboxEntry(entry.id);
+        await stocksQuery.refetch();
+        setSuccess('Laporan dimuat ke form. Sesuaikan lalu kirim ulang.');
+    };
+
     const submitReport = async () => {
         if (!user) return;
         const normalizedSoNumber = soNumber.trim();
@@ -307,63 +621,66 @@ export default function PemakaianPage() {
         }
         if (items.length === 0) { setError('Tambahkan minimal 1 barang'); return; }
         setSending(true);
+        const clientRef = createClientRef();
+        const reportItems = items.map(item => ({
+            ...item,
+            partName: item.partName || partNameById.get(item.partId) || item.partId,
+        }));
         try {
-            const partIds = Array.from(new Set(items.map(item => item.partId)));
-            const { data: currentStocks, error: stockError } = await supabase
-                .from('engineer_stock')
-                .select('part_id, quantity')
-                .eq('engineer_id', user.id)
-                .in('part_id', partIds);
-            if (stockError) throw stockError;
-
-            const stockMap = new Map<string, number>();
-            for (const stock of currentStocks || []) stockMap.set(stock.part_id, stock.quantity);
-
-            const invalidItem = items.find(item => item.quantity > (stockMap.get(item.partId) || 0));
-            if (invalidItem) {
-                const available = stockMap.get(invalidItem.partId) || 0;
-                const itemName = invalidItem.partName || partNameById.get(invalidItem.partId) || invalidItem.partId;
-                setError(`Stok ${itemName} tidak cukup. Tersedia ${available} pcs.`);
-                await stocksQuery.refetch();
+            const { data, error: rpcError } = await supabase.rpc('submit_usage_report', {
+                p_so_number: normalizedSoNumber,
+                p_description: description.trim() || null,
+                p_items: reportItems,
+                p_client_ref: clientRef,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as SubmitUsageReportResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    const detail = (result.shortages || [])
+                        .map((row) => `${row.partName} (tersedia ${row.available} pcs)`)
+                        .join(', ');
+                    setError(`Stok tidak cukup: ${detail}`);
+                    await stocksQuery.refetch();
+                    return;
+                }
+                if (result?.code === 'invalid_so_number') {
+                    setError('Nomor SO / Tiket minimal 8 digit angka (contoh: 20260217).');
+                    return;
+                }
+                if (result?.code === 'serials_required') {
+                    setError(`Serial number tidak sesuai: ${formatSerialIssues(result.serial_issues)}. Pilih ulang serial yang dipasang.`);
+                    await heldSerialsQuery.refetch();
+                    return;
+                }
+                setError('Tambahkan minimal 1 barang');
                 return;
             }
 
-            const reportItems = items.map(item => ({
-                ...item,
-                partName: item.partName || partNameById.get(item.partId) || item.partId,
-            }));
-
-            // Insert usage report
-            const { error: err } = await supabase.from('usage_reports').insert({
-                engineer_id: user.id,
-                so_number: normalizedSoNumber,
-                description: description.trim() || null,
-                items: reportItems,
-            });
-            if (err) throw err;
-
-            // Decrement engineer stock
-            const nowIso = new Date().toISOString();
-            const updateResults = await Promise.all(reportItems.map(item => {
-                const currentQty = stockMap.get(item.partId) || 0;
-                const newQty = Math.max(0, currentQty - item.quantity);
-                return supabase.from('engineer_stock')
-                    .update({ quantity: newQty, last_sync: nowIso })
-                    .eq('engineer_id', user.id)
-                    .eq('part_id', item.partId);
-            }));
-            const stockUpdateError = updateResults.find(r => r.error)?.error;
-            if (stockUpdateError) throw stockUpdateError;
-
-            setSoNumber('');
-            setDescription('');
-            setItems([]);
-            setStep('summary');
-            setSelectedStock(null);
-            setQty(1);
+            resetForm();
             setSuccess('Laporan pemakaian berhasil dikirim!');
-            await Promise.all([reportsQuery.refetch(), stocksQuery.refetch()]);
+            await Promise.all([reportsQuery.refetch(), stocksQuery.refetch(), heldSerialsQuery.refetch()]);
         } catch (e: any) {
+            if (isNetworkError(e)) {
+                try {
+                    const queued = await enqueueOutbox({
+                        kind: 'usage_report',
+                        soNumber: normalizedSoNumber,
+                        description: description.trim() || null,
+                        items: reportItems,
+                    }, clientRef);
+                    if (queued) {
+                        resetForm();
+                        setSuccess('Tidak ada koneksi. Laporan disimpan dan akan dikirim otomatis.');
+                        return;
+                    }
+                } catch (persistError) {
+                    console.error('[pemakaian.submitReport] Outbox persist failed:', persistError);
+                    setError('Tidak ada koneksi dan laporan gagal disimpan di perangkat. Coba kirim lagi.');
+                    return;
+                }
+            }
             setError(e.message || 'Gagal mengirim laporan');
         } finally {
             setSending(false);
@@ -458,6 +775,9 @@ export default function PemakaianPage() {
                                             <View style={{ flex: 1 }}>
                                                 <Text style={styles.selectedItemName}>{item.partName || item.partId}</Text>
                                                 <Text style={styles.selectedItemStock}>Dipakai: {item.quantity} pcs</Text>
+                                                {item.serials?.length ? (
+                                                    <Text style={styles.selectedItemStock}>SN: {item.serials.join(', ')}</Text>
+                                                ) : null}
                                             </View>
                                             <Pressable
                                                 style={styles.selectedItemQtyPill}
@@ -485,11 +805,100 @@ export default function PemakaianPage() {
                                 <Text style={styles.submitButtonText}>{sending ? 'Mengirim...' : 'Tambahkan ke Laporan'}</Text>
                             </Pressable>
 
+                            {openDefects.length > 0 ? (
+                                <>
+                                    <View style={styles.historyHeader}>
+                                        <Text style={styles.historyTitle}>Part Cacat</Text>
+                                    </View>
+                                    {openDefects.map((defect) => {
+                                        const meta = DEFECT_STATUS_META[defect.status];
+                                        const busy = updatingDefectId === defect.id;
+                                        return (
+                                            <View key={defect.id} style={[styles.historyCard, styles.queuedCard, { borderColor: meta.color + '55' }]}>
+                                                <View style={styles.historyRow}>
+                                                    <MaterialCommunityIcons name="alert-octagon-outline" size={18} color={meta.color} />
+                                                    <Text style={styles.historySo}>{defect.part_name || defect.part_id} x{defect.quantity}</Text>
+                                                    <View style={[styles.queuedBadge, { borderColor: meta.color + '55' }]}>
+                                                        <Text style={[styles.queuedBadgeText, { color: meta.color }]}>{meta.label}</Text>
+                                                    </View>
+                                                </View>
+                                                <Text style={styles.historyLabel}>SO {defect.so_number} • {defect.symptom}</Text>
+                                                {defect.serials?.length ? (
+                                                    <Text style={styles.historyLabel}>SN: {defect.serials.join(', ')}</Text>
+                                                ) : null}
+                                                {defect.status === 'awaiting_return' ? (
+                                                    <View style={styles.queuedActions}>
+                                                        <Pressable style={styles.queuedActionBtn} onPress={() => void updateDefect(defect, 'withdrawn')} disabled={busy}>
+                                                            <Text style={[styles.queuedActionText, { color: Colors.danger }]}>Batalkan</Text>
+                                                        </Pressable>
+                                                        <Pressable style={styles.queuedActionBtn} onPress={() => void updateDefect(defect, 'shipped')} disabled={busy}>
+                                                            <Text style={[styles.queuedActionText, { color: Colors.primary }]}>
+                                                                {busy ? 'Memproses...' : 'Sudah Dikirim'}
+                                                            </Text>
+                                                        </Pressable>
+                                                    </View>
+                                                ) : null}
+                                            </View>
+                                        );
+                                    })}
+                                </>
+                            ) : null}
+
                             {/* History */}
                             <View style={styles.historyHeader}>
                                 <Text style={styles.historyTitle}>Riwayat Pemakaian</Text>
                                 <IconButton icon="refresh" size={20} iconColor={Colors.textSecondary} onPress={() => void reportsQuery.refetch()} />
                             </View>
+
+                            {queuedReports.map((entry) => {
+                                if (entry.payload.kind !== 'usage_report') return null;
+                                const isConflict = entry.status === 'conflict';
+                                const badgeColor = isConflict ? Colors.danger : Colors.accent;
+                                return (
+                                    <View key={entry.id} style={[styles.historyCard, styles.queuedCard, { borderColor: badgeColor + '55' }]}>
+                                        <View style={styles.historyRow}>
+                                            <MaterialCommunityIcons name={isConflict ? 'alert-circle-outline' : 'cloud-upload-outline'} size={18} color={badgeColor} />
+                                            <Text style={styles.historySo}>{entry.payload.soNumber}</Text>
+                                            <View style={[styles.queuedBadge, { borderColor: badgeColor, backgroundColor: badgeColor + '20' }]}>
+                                                <Text style={[styles.queuedBadgeText, { color: badgeColor }]}>
+                                                    {isConflict ? 'Konflik' : outboxSyncing ? 'Menyinkronkan...' : 'Menunggu sinkron'}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                        <Text style={styles.historyDate}>{new Date(entry.createdAt).toLocaleString('id-ID')}</Text>
+                                        {entry.payload.items.map((item, idx) => (
+                                            <View key={idx} style={styles.historyItem}>
+                                                <MaterialCommunityIcons name="timer-sand" size={14} color={Colors.textMuted} />
+                                                <Text style={styles.historyItemName}>{item.partName || item.partId}</Text>
+                                                <View style={styles.historyItemQty}>
+                                                    <Text style={styles.historyItemQtyText}>{item.quantity} pcs</Text>
+                                                </View>
+                                            </View>
+                                        ))}
+                                        {isConflict && (
+                                            <>
+                                                <Text style={styles.queuedError}>{entry.lastError || 'Gagal sinkron.'}</Text>
+                                                {(entry.shortages || []).map((row) => (
+                                                    <Text key={row.partId} style={styles.queuedError}>
+                                                        {row.partName}: butuh {row.required}, tersedia {row.available}
+                                                    </Text>
+                                                ))}
+                                                <View style={styles.queuedActions}>
+                                                    <Pressable style={styles.queuedActionBtn} onPress={() => runOutboxAction(() => removeOutboxEntry(entry.id))}>
+                                                        <Text style={[styles.queuedActionText, { color: Colors.danger }]}>Hapus</Text>
+                                                    </Pressable>
+                                                    <Pressable style={styles.queuedActionBtn} onPress={() => runOutboxAction(() => editQueuedReport(entry))}>
+                                                        <Text style={styles.queuedActionText}>Ubah</Text>
+                                                    </Pressable>
+                                                    <Pressable style={styles.queuedActionBtn} onPress={() => runOutboxAction(() => retryOutboxEntry(entry.id))}>
+                                                        <Text style={[styles.queuedActionText, { color: Colors.primary }]}>Coba Lagi</Text>
+                                                    </Pressable>
+                                                </View>
+                                            </>
+                                        )}
+                                    </View>
+                                );
+                            })}
                         </View>
                     </>
                 }
@@ -502,15 +911,31 @@ export default function PemakaianPage() {
                             <Text style={styles.historyDate}>{new Date(r.date).toLocaleString('id-ID')}</Text>
                         </View>
                         <Text style={styles.historyLabel}>Barang Digunakan:</Text>
-                        {(r.items as UsageItem[]).map((item, idx) => (
-                            <View key={idx} style={styles.historyItem}>
-                                <MaterialCommunityIcons name="check-decagram" size={14} color={Colors.success} />
-                                <Text style={styles.historyItemName}>{item.partName || item.partId}</Text>
-                                <View style={styles.historyItemQty}>
-                                    <Text style={styles.historyItemQtyText}>{item.quantity} pcs</Text>
+                        {(r.items as UsageItem[]).map((item, idx) => {
+                            const flagged = flaggedByReportPart.get(`${r.id}|${item.partId}`) || 0;
+                            return (
+                                <View key={idx} style={styles.historyItem}>
+                                    <MaterialCommunityIcons
+                                        name={flagged > 0 ? 'alert-octagon-outline' : 'check-decagram'}
+                                        size={14}
+                                        color={flagged > 0 ? Colors.danger : Colors.success}
+                                    />
+                                    <Text style={styles.historyItemName}>
+                                        {item.partName || item.partId}
+                                        {flagged > 0 ? ` (${flagged} cacat)` : ''}
+                                        {item.serials?.length ? `\nSN: ${item.serials.join(', ')}` : ''}
+                                    </Text>
+                                    <View style={styles.historyItemQty}>
+                                        <Text style={styles.historyItemQtyText}>{item.quantity} pcs</Text>
+                                    </View>
+                                    {flagged < item.quantity ? (
+                                        <Pressable style={styles.defectFlagButton} onPress={() => openDefectSheet(r, item)} hitSlop={6}>
+                                            <Text style={styles.defectFlagText}>Cacat</Text>
+                                        </Pressable>
+                                    ) : null}
                                 </View>
-                            </View>
-                        ))}
+                            );
+                        })}
                     </View>
                 )}
                 ListEmptyComponent={null}
@@ -525,6 +950,8 @@ export default function PemakaianPage() {
                         setStep('summary');
                         setSelectedStock(null);
                         setQty(1);
+                        setPickedSerials([]);
+                        setDefectTarget(null);
                     }}
                     backdropComponent={renderSheetBackdrop}
                     backgroundStyle={styles.sheetBackground}
@@ -570,6 +997,81 @@ export default function PemakaianPage() {
                                 }
                             />
                         </View>
+                    ) : step === 'defect' && defectTarget ? (
+                        <View style={[styles.bottomSheetQtyContent, { paddingBottom: Math.max(insets.bottom, 12) }]}>
+                            <View style={styles.qtyHeaderRow}>
+                                <Pressable style={styles.qtyBackButton} onPress={closeDefectSheet}>
+                                    <MaterialCommunityIcons name="arrow-left" size={22} color={Colors.text} />
+                                </Pressable>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.qtyLabel}>Tandai Part Cacat • SO {defectTarget.report.so_number}</Text>
+                                    <Text style={styles.qtyPartName}>{defectTarget.item.partName || defectTarget.item.partId}</Text>
+                                </View>
+                            </View>
+
+                            <View style={styles.qtyPill}>
+                                <Pressable
+                                    style={[styles.qtyActionButton, defectQty <= 1 && styles.qtyActionButtonDisabled]}
+                                    onPress={() => changeDefectQty(Math.max(1, defectQty - 1))}
+                                    disabled={defectQty <= 1}
+                                >
+                                    <MaterialCommunityIcons name="minus" size={30} color={defectQty <= 1 ? Colors.textMuted : Colors.primary} />
+                                </Pressable>
+                                <Text style={styles.qtyValue}>{defectQty}</Text>
+                                <Pressable
+                                    style={[styles.qtyActionButton, defectQty >= defectTarget.remaining && styles.qtyActionButtonDisabled]}
+                                    onPress={() => changeDefectQty(Math.min(defectTarget.remaining, defectQty + 1))}
+                                    disabled={defectQty >= defectTarget.remaining}
+                                >
+                                    <MaterialCommunityIcons name="plus" size={30} color={defectQty >= defectTarget.remaining ? Colors.textMuted : Colors.primary} />
+                                </Pressable>
+                            </View>
+
+                            <Text style={styles.qtyStockInfo}>Bisa ditandai: {defectTarget.remaining} pcs</Text>
+
+                            {defectSerialCount > 0 ? (
+                                <>
+                                    <Text style={styles.qtyStockInfo}>
+                                        Serial cacat: {defectSerials.length}/{defectSerialCount}
+                                    </Text>
+                                    <View style={styles.serialChipWrap}>
+                                        {defectTarget.serialOptions.map((serial) => {
+                                            const selected = defectSerials.includes(serial);
+                                            return (
+                                                <Chip
+                                                    key={serial}
+                                                    compact
+                                                    mode={selected ? 'flat' : 'outlined'}
+                                                    selected={selected}
+                                                    onPress={() => toggleDefectSerial(serial)}
+                                                    disabled={!selected && defectSerials.length >= defectSerialCount}
+                                                >
+                                                    {serial}
+                                                </Chip>
+                                            );
+                                        })}
+                                    </View>
+                                </>
+                            ) : null}
+
+                            <TextInput
+                                label="Gejala kerusakan"
+                                value={defectSymptom}
+                                onChangeText={setDefectSymptom}
+                                mode="outlined"
+                                multiline
+                                style={styles.input}
+                            />
+
+                            <Pressable
+                                style={[styles.addToReportButton, savingDefect && { opacity: 0.72 }]}
+                                onPress={submitDefect}
+                                disabled={savingDefect}
+                            >
+                                <MaterialCommunityIcons name="alert-octagon-outline" size={18} color={Colors.bg} />
+                                <Text style={styles.addToReportText}>{savingDefect ? 'Mengirim...' : 'Tandai Cacat'}</Text>
+                            </Pressable>
+                        </View>
                     ) : (
                         <View style={[styles.bottomSheetQtyContent, { paddingBottom: Math.max(insets.bottom, 12) }]}>
                             <View style={styles.qtyHeaderRow}>
@@ -585,7 +1087,7 @@ export default function PemakaianPage() {
                             <View style={styles.qtyPill}>
                                 <Pressable
                                     style={[styles.qtyActionButton, qty <= 1 && styles.qtyActionButtonDisabled]}
-                                    onPress={() => setQty(prev => Math.max(1, prev - 1))}
+                                    onPress={() => changeQty(Math.max(1, qty - 1))}
                                     disabled={qty <= 1}
                                 >
                                     <MaterialCommunityIcons name="minus" size={30} color={qty <= 1 ? Colors.textMuted : Colors.primary} />
@@ -598,7 +1100,7 @@ export default function PemakaianPage() {
                                     ]}
                                     onPress={() => {
                                         if (!selectedStock) return;
-                                        setQty(prev => Math.min(selectedStock.quantity, prev + 1));
+                                        changeQty(Math.min(selectedStock.quantity, qty + 1));
                                     }}
                                     disabled={qty >= (selectedStock?.quantity || 0)}
                                 >
@@ -608,6 +1110,36 @@ export default function PemakaianPage() {
 
                             <Text style={styles.qtyStockInfo}>Tersedia: {selectedStock?.quantity || 0} pcs</Text>
 
+                            {isSelectedSerialized ? (
+                                <>
+                                    <Text style={styles.qtyStockInfo}>
+                                        Serial terpasang: {pickedSerials.length}/{requiredSerialCount}
+                                    </Text>
+                                    {selectedSerialOptions.length < requiredSerialCount ? (
+                                        <Text style={styles.qtyStockInfo}>
+                                            Serial yang Anda pegang untuk part ini hanya {selectedSerialOptions.length}.
+                                        </Text>
+                                    ) : null}
+                                    <View style={styles.serialChipWrap}>
+                                        {selectedSerialOptions.map((serial) => {
+                                            const selected = pickedSerials.includes(serial.serial_number);
+                                            return (
+                                                <Chip
+                                                    key={serial.id}
+                                                    compact
+                                                    mode={selected ? 'flat' : 'outlined'}
+                                                    selected={selected}
+                                                    onPress={() => toggleSerial(serial.serial_number)}
+                                                    disabled={!selected && pickedSerials.length >= requiredSerialCount}
+                                                >
+                                                    {serial.serial_number}
+                                                </Chip>
+                                            );
+                                        })}
+                                    </View>
+                                </>
+                            ) : null}
+
                             <Pressable style={styles.addToReportButton} onPress={confirmQuantity}>
                                 <MaterialCommunityIcons name="check" size={18} color={Colors.bg} />
                                 <Text style={styles.addToReportText}>Tambahkan ke Laporan</Text>
@@ -736,6 +1268,29 @@ const styles = StyleSheet.create({
     historyItemName: { flex: 1, fontSize: 13, color: Colors.textSecondary },
     historyItemQty: { backgroundColor: Colors.primary + '20', paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
     historyItemQtyText: { fontSize: 11, color: Colors.primary, fontWeight: '600' },
+    defectFlagButton: {
+        borderWidth: 1,
+        borderColor: Colors.danger + '45',
+        backgroundColor: Colors.danger + '12',
+        borderRadius: 6,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    defectFlagText: { fontSize: 11, color: Colors.danger, fontWeight: '700' },
+    queuedCard: { marginBottom: 8 },
+    queuedBadge: { borderWidth: 1, borderRadius: 8, paddingHorizontal: 8, paddingVertical: 2 },
+    queuedBadgeText: { fontSize: 10, fontWeight: '700' },
+    queuedError: { fontSize: 12, color: Colors.danger, marginTop: 6 },
+    queuedActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 10 },
+    queuedActionBtn: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    queuedActionText: { fontSize: 12, fontWeight: '700', color: Colors.text },
     sheetBackground: {
         backgroundColor: '#0D0E13',
         borderTopLeftRadius: 24,
@@ -881,6 +1436,12 @@ const styles = StyleSheet.create({
         color: Colors.textSecondary,
         textAlign: 'center',
     },
+    serialChipWrap: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: 6,
+    },
     addToReportButton: {
         height: 56,
         borderRadius: 16,
@@ -16,33 +16,27 @@ import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeR
 import styles from '../../src/styles/requestStyles';
 import { useAuthStore } from '../../src/stores/authStore';
 import { supabase } from '../../src/config/supabase';
-import { MonthlyRequest, RequestStatus, InventoryPart, RequestItem } from '../../src/types';
+import {
+    MonthlyRequest,
+    RequestStatus,
+    InventoryPart,
+    RequestItem,
+    ConfirmReceiptResult,
+    PartRequestRule,
+    UsageReport,
+    EngineerStock,
+    MonthlyRequestShipment,
+} from '../../src/types';
 import { NotificationService } from '../../src/services/NotificationService';
+import { getChangedDecisions } from '../../src/utils/reviewDecisions';
+import { getPartRequestLimit, resolvePartRequestRule } from '../../src/utils/partRequestRules';
+import { buildRequestSuggestions, sumIncomingByPart, SUGGESTION_WINDOW_MONTHS } from '../../src/utils/requestSuggestions';
+import { REQUEST_STATUS_META } from '../../src/utils/requestStatus';
+import RequestStatusTimeline from '../../src/components/RequestStatusTimeline';
+import RequestCommentThread from '../../src/components/RequestCommentThread';
 
-const LOOPSHEET_MAX_QTY = 20;
-const DEFAULT_MAX_QTY = 10;
 const REQUEST_PAGE_SIZE = 5;
 
-const normalizePartToken = (value?: string) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
-const isLoopSheetPart = (partName?: string, partId?: string) => {
-    const nameToken = normalizePartToken(partName);
-    const idToken = normalizePartToken(partId);
-    return nameToken.includes('loopsheet') || nameToken.includes('loopshet') || idToken.includes('loopsheet') || idToken.includes('loopshet');
-};
-const getMaxQtyForPart = (partName?: string, partId?: string) => (
-    isLoopSheetPart(partName, partId) ? LOOPSHEET_MAX_QTY : DEFAULT_MAX_QTY
-);
-const normalizeRequestStatus = (status: string) => {
-    const normalized = status.toLowerCase();
-    if (normalized === 'reject') return 'rejected';
-    if (normalized === 'complete') return 'completed';
-    return normalized;
-};
-const formatStatusLabel = (status: string) => {
-    const normalized = normalizeRequestStatus(status);
-    return normalized.charAt(0).toUpperCase() + normalized.slice(1);
-};
-
 type RequestListPage = {
     rows: MonthlyRequest[];
     total: number;
@@ -112,6 +106,77 @@ const fetchInventoryParts = async (): Promise<InventoryPart[]> => {
     return data || [];
 };
 
+const fetchPartRequestRules = async (): Promise<PartRequestRule[]> => {
+    const { data, error } = await supabase
+        .from('part_request_rules')
+        .select('id, part_id, area_group, max_per_request, max_per_month, allowed_roles');
+    if (error) throw error;
+    return (data || []) as PartRequestRule[];
+};
+
+// Requests of the period that count toward monthly quotas.
+const fetchPeriodRequests = async (
+    engineerId: string,
+    month: string,
+): Promise<Pick<MonthlyRequest, 'id' | 'items' | 'status' | 'backorder_items'>[]> => {
+    const { data, error } = await supabase
+        .from('monthly_requests')
+        .select('id, items, status, backorder_items')
+        .eq('engineer_id', engineerId)
+        .eq('month', month)
+        .not('status', 'in', '(rejected,cancelled)');
+    if (error) throw error;
+    return data || [];
+};
+
+const fetchSuggestionSources = async (engineerId: string) => {
+    const since = new Date();
+    since.setMonth(since.getMonth() - SUGGESTION_WINDOW_MONTHS);
+
+    const [usageRes, stockRes, openRes] = await Promise.all([
+        supabase
+            .from('usage_reports')
+            .select('items, date')
+            .eq('engineer_id', engineerId)
+            .gte('date', since.toISOString()),
+        supabase
+            .from('engineer_stock')
+            .select('part_id, quantity, min_stock')
+            .eq('engineer_id', engineerId),
+        // Any month: requests still in progress and open backorders.
+        supabase
+            .from('monthly_requests')
+            .select('id, items, status, backorder_items, delivered_items')
+            .eq('engineer_id', engineerId)
+            .not('status', 'in', '(rejected,cancelled)')
+            .or('status.in.(pending,approved,delivered),backorder_items.not.is.null'),
+    ]);
+
+    if (usageRes.error) throw usageRes.error;
+    if (stockRes.error) throw stockRes.error;
+    if (openRes.error) throw openRes.error;
+
+    const openRequests = (openRes.data || []) as Pick<MonthlyRequest, 'id' | 'items' | 'status' | 'backorder_items' | 'delivered_items'>[];
+    const deliveredIds = openRequests.filter((row) => row.status === 'delivered').map((row) => row.id);
+    let unconfirmedShipments: Pick<MonthlyRequestShipment, 'request_id' | 'items'>[] = [];
+    if (deliveredIds.length > 0) {
+        const { data, error } = await supabase
+            .from('monthly_request_shipments')
+            .select('request_id, items')
+            .in('request_id', deliveredIds)
+            .is('confirmed_at', null);
+        if (error) throw error;
+        unconfirmedShipments = data || [];
+    }
+
+    return {
+        usageReports: (usageRes.data || []) as Pick<UsageReport, 'items' | 'date'>[],
+        stocks: (stockRes.data || []) as Pick<EngineerStock, 'part_id' | 'quantity' | 'min_stock'>[],
+        openRequests,
+        unconfirmedShipments,
+    };
+};
+
 export default function RequestPage() {
     const { user } = useAuthStore();
     const insets = useSafeAreaInsets();
@@ -126,6 +191,8 @@ export default function RequestPage() {
     const [step, setStep] = useState<'summary' | 'select' | 'quantity'>('summary');
 
     const [selectedItems, setSelectedItems] = useState<RequestItem[]>([]);
+    const [suggestionNotes, setSuggestionNotes] = useState<Record<string, string>>({});
+    const [suggesting, setSuggesting] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
@@ -135,6 +202,8 @@ export default function RequestPage() {
     const [qty, setQty] = useState(1);
     const [confirmingId, setConfirmingId] = useState<string | null>(null);
     const [confirmReceiveRequestId, setConfirmReceiveRequestId] = useState<string | null>(null);
+    const [historyRequestId, setHistoryRequestId] = useState<string | null>(null);
+    const [threadRequestId, setThreadRequestId] = useState<string | null>(null);
     const periodCode = useMemo(() => {
         const now = new Date();
         return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
@@ -191,8 +260,19 @@ export default function RequestPage() {
         queryFn: fetchInventoryParts,
         enabled: !!user?.id,
     });
+    const rulesQuery = useQuery({
+        queryKey: ['inventory', 'request-rules'],
+        queryFn: fetchPartRequestRules,
+        enabled: !!user?.id,
+    });
+    const periodRequestsQuery = useQuery({
+        queryKey: ['engineer', 'period-requests', user?.id, periodCode],
+        queryFn: () => fetchPeriodRequests(user!.id, periodCode),
+        enabled: !!user?.id,
+    });
     const requests = requestsQuery.data?.rows || [];
     const parts = partsQuery.data || [];
+    const partRules = rulesQuery.data || [];
     const total = requestStatsQuery.data?.total || 0;
     const pendingCount = requestStatsQuery.data?.pending || 0;
     const totalFiltered = requestsQuery.data?.total || 0;
@@ -201,11 +281,11 @@ export default function RequestPage() {
     const canGoNext = page < totalPages;
 
     useEffect(() => {
-        const sourceError = requestsQuery.error || requestStatsQuery.error || partsQuery.error;
+        const sourceError = requestsQuery.error || requestStatsQuery.error || partsQuery.error || rulesQuery.error || periodRequestsQuery.error;
         if (!sourceError) return;
         const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data request.';
         setError(message);
-    }, [partsQuery.error, requestStatsQuery.error, requestsQuery.error]);
+    }, [partsQuery.error, requestStatsQuery.error, requestsQuery.error, rulesQuery.error, periodRequestsQuery.error]);
 
     useEffect(() => {
         if (page > totalPages) {
@@ -218,13 +298,15 @@ export default function RequestPage() {
         () => {
             void requestsQuery.refetch();
             void requestStatsQuery.refetch();
+            void periodRequestsQuery.refetch();
         },
         { enabled: !!user?.id },
     );
     useSupabaseRealtimeRefresh(
-        ['inventory'],
+        ['inventory', 'part_request_rules'],
         () => {
             void partsQuery.refetch();
+            void rulesQuery.refetch();
         },
         { enabled: !!user?.id },
     );
@@ -276,12 +358,31 @@ export default function RequestPage() {
     }, [showCreate, step]));
 
     const refetchRequestData = async () => {
-        await Promise.all([requestsQuery.refetch(), requestStatsQuery.refetch()]);
+        await Promise.all([requestsQuery.refetch(), requestStatsQuery.refetch(), periodRequestsQuery.refetch()]);
     };
 
+    // Qty of each part already requested this period, not counting the request being edited.
+    const monthUsageByPart = useMemo(() => {
+        const map = new Map<string, number>();
+        for (const row of periodRequestsQuery.data || []) {
+            if (row.id === editingId) continue;
+            for (const item of (row.items || []) as RequestItem[]) {
+                map.set(item.partId, (map.get(item.partId) || 0) + (Number(item.quantity) || 0));
+            }
+        }
+        return map;
+    }, [periodRequestsQuery.data, editingId]);
+
+    const getPartLimit = useCallback((partId: string) => getPartRequestLimit(
+        resolvePartRequestRule(partRules, partId, user?.location),
+        user?.role,
+        monthUsageByPart.get(partId) || 0,
+    ), [partRules, user?.location, user?.role, monthUsageByPart]);
+
     const openCreate = async () => {
-        await partsQuery.refetch();
+        await Promise.all([partsQuery.refetch(), rulesQuery.refetch(), periodRequestsQuery.refetch()]);
         setSelectedItems([]);
+        setSuggestionNotes({});
         setSearchQuery('');
         setSelectedPart(null);
         setQty(1);
@@ -291,8 +392,9 @@ export default function RequestPage() {
     };
 
     const handleEdit = async (request: MonthlyRequest) => {
-        await partsQuery.refetch();
+        await Promise.all([partsQuery.refetch(), rulesQuery.refetch(), periodRequestsQuery.refetch()]);
         setSelectedItems(request.items as RequestItem[]);
+        setSuggestionNotes({});
         setSearchQuery('');
         setSelectedPart(null);
         setQty(1);
@@ -308,7 +410,16 @@ export default function RequestPage() {
 
     const handleSelectPart = (part: InventoryPart) => {
         const existing = selectedItems.find(i => i.partId === part.id);
-        const maxQty = getMaxQtyForPart(part.part_name, part.id);
+        const limit = getPartLimit(part.id);
+        if (!limit.allowed) {
+            setError(`${part.part_name} tidak bisa di-request oleh akun ini.`);
+            return;
+        }
+        if (limit.maxQty <= 0) {
+            setError(`Kuota ${part.part_name} bulan ini sudah habis (${limit.maxPerMonth} pcs).`);
+            return;
+        }
+        const maxQty = limit.maxQty;
         setSelectedPart(part);
         setQty(existing ? Math.max(1, Math.min(existing.quantity, maxQty)) : 1);
         setStep('quantity');
@@ -316,7 +427,7 @@ export default function RequestPage() {
 
     const confirmQuantity = () => {
         if (!selectedPart) return;
-        const maxQty = getMaxQtyForPart(selectedPart.part_name, selectedPart.id);
+        const maxQty = getPartLimit(selectedPart.id).maxQty;
         const safeQty = Math.max(1, Math.min(qty, maxQty));
         setSelectedItems(prev => {
             const exists = prev.find(i => i.partId === selectedPart.id);
@@ -330,21 +441,69 @@ export default function RequestPage() {
         setStep('summary');
     };
 
+    const suggestRequest = async () => {
+        if (!user?.id || suggesting) return;
+        setSuggesting(true);
+        try {
+            const { usageReports, stocks, openRequests, unconfirmedShipments } = await fetchSuggestionSources(user.id);
+
+            // The request being edited is what the suggestion replaces, so it is not incoming.
+            const incoming = sumIncomingByPart(
+                openRequests.filter((row) => row.id !== editingId),
+                unconfirmedShipments,
+            );
+
+            const suggestions = buildRequestSuggestions({
+                usageReports,
+                stocks,
+                incoming,
+                getLimit: getPartLimit,
+            }).filter((row) => partById.has(row.partId));
+
+            if (suggestions.length === 0) {
+                setSuccess('Stok Anda masih cukup. Tidak ada saran request.');
+                return;
+            }
+
+            setSelectedItems(prev => {
+                const suggested = new Map(suggestions.map((row) => [row.partId, row.quantity]));
+                const kept = prev.filter((item) => !suggested.has(item.partId));
+                return [...kept, ...suggestions.map((row) => ({ partId: row.partId, quantity: row.quantity }))];
+            });
+            setSuggestionNotes(prev => ({
+                ...prev,
+                ...Object.fromEntries(suggestions.map((row) => [row.partId, row.note])),
+            }));
+            setSuccess(`${suggestions.length} item disarankan. Cek dan sesuaikan sebelum kirim.`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal menghitung saran request.';
+            setError(message);
+        } finally {
+            setSuggesting(false);
+        }
+    };
+
     const removeItem = (partId: string) => {
+        setSuggestionNotes(prev => {
+            const { [partId]: _removed, ...rest } = prev;
+            return rest;
+        });
         setSelectedItems(prev => prev.filter(i => i.partId !== partId));
     };
 
     const submitRequest = async () => {
         if (selectedItems.length === 0) { setError('Tambahkan minimal 1 item'); return; }
-        const invalidItem = selectedItems.find((item) => {
-            const part = partById.get(item.partId);
-            return item.quantity > getMaxQtyForPart(part?.part_name, item.partId);
-        });
+        const invalidItem = selectedItems.find((item) => item.quantity > getPartLimit(item.partId).maxQty);
         if (invalidItem) {
-            const part = partById.get(invalidItem.partId);
-            const partName = part?.part_name || invalidItem.partId;
-            const maxQty = getMaxQtyForPart(part?.part_name, invalidItem.partId);
-            setError(`${partName} maksimal ${maxQty} pcs per request.`);
+            const partName = partById.get(invalidItem.partId)?.part_name || invalidItem.partId;
+            const limit = getPartLimit(invalidItem.partId);
+            if (!limit.allowed) {
+                setError(`${partName} tidak bisa di-request oleh akun ini.`);
+            } else if (invalidItem.quantity > limit.maxPerRequest) {
+                setError(`${partName} maksimal ${limit.maxPerRequest} pcs per request.`);
+            } else {
+                setError(`${partName} maksimal ${limit.maxPerMonth} pcs per bulan (sisa ${limit.maxQty} pcs).`);
+            }
             return;
         }
 
@@ -401,20 +560,8 @@ export default function RequestPage() {
 
     const cancelRequest = async (id: string) => {
         if (!user?.id) return;
-        // Prefer hard delete. If no row deleted (RLS/no match), fallback to soft-cancel.
-        const { data: deletedRows, error: deleteError } = await supabase
-            .from('monthly_requests')
-            .delete()
-            .eq('id', id)
-            .eq('engineer_id', user.id)
-            .select('id');
-
-        if (!deleteError && deletedRows && deletedRows.length > 0) {
-            setSuccess('Request dibatalkan');
-            await refetchRequestData();
-            return;
-        }
-
+        // Cancelled, never deleted: only pending -> cancelled is open to engineers, and the status
+        // history keeps the cancellation.
         const { data: updatedRows, error: softCancelError } = await supabase
             .from('monthly_requests')
             .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
@@ -464,89 +611,21 @@ export default function RequestPage() {
         if (!user?.id) return;
 
         setConfirmingId(id);
-        let markedCompleted = false;
-        let confirmedAtValue: string | null = null;
-
         try {
-            const confirmedAt = new Date().toISOString();
-            const { data: completedRow, error: completeError } = await supabase
-                .from('monthly_requests')
-                .update({ status: 'completed', confirmed_at: confirmedAt })
-                .eq('id', id)
-                .eq('engineer_id', user.id)
-                .eq('status', 'delivered')
-                .select('id, status, confirmed_at, items')
-                .maybeSingle();
-            if (completeError) throw completeError;
-            if (!completedRow || completedRow.status !== 'completed') {
-                setError('Request belum berstatus delivered.');
-                return;
-            }
-            markedCompleted = true;
-            confirmedAtValue = confirmedAt;
-
-            const deliveredItems = ((completedRow.items as RequestItem[]) || []).filter(i => i.quantity > 0);
-            const qtyByPart = new Map<string, number>();
-            for (const item of deliveredItems) {
-                qtyByPart.set(item.partId, (qtyByPart.get(item.partId) || 0) + item.quantity);
-            }
-
-            if (qtyByPart.size > 0) {
-                const partIds = Array.from(qtyByPart.keys());
-                const [{ data: existingStocks, error: stockError }, { data: inventoryRows, error: inventoryError }] = await Promise.all([
-                    supabase
-                        .from('engineer_stock')
-                        .select('part_id, quantity')
-                        .eq('engineer_id', user.id)
-                        .in('part_id', partIds),
-                    supabase.from('inventory').select('id, part_name').in('id', partIds),
-                ]);
-                if (stockError) throw stockError;
-                if (inventoryError) throw inventoryError;
-
-                const currentQtyMap = new Map<string, number>();
-                for (const row of existingStocks || []) currentQtyMap.set(row.part_id, row.quantity);
-
-                const partNameMap = new Map<string, string>();
-                for (const row of inventoryRows || []) partNameMap.set(row.id, row.part_name);
-
-                const nowIso = new Date().toISOString();
-                const upsertRows = partIds.map((partId) => {
-                    const previousQty = currentQtyMap.get(partId) || 0;
-                    const delta = qtyByPart.get(partId) || 0;
-                    return {
-                        engineer_id: user.id,
-                        part_id: partId,
-                        quantity: previousQty + delta,
-                        last_sync: nowIso,
-                    };
-                });
-
-                const { error: upsertError } = await supabase
-                    .from('engineer_stock')
-                    .upsert(upsertRows, { onConflict: 'engineer_id,part_id' });
-                if (upsertError) throw upsertError;
-
-                const adjustmentRows = partIds.map((partId) => {
-                    const previousQty = currentQtyMap.get(partId) || 0;
-                    const delta = qtyByPart.get(partId) || 0;
-                    return {
-                        engineer_id: user.id,
-                        engineer_name: user.name || '',
-                        part_id: partId,
-                        part_name: partNameMap.get(partId) || partId,
-                        previous_quantity: previousQty,
-                        new_quantity: previousQty + delta,
-                        delta,
-                        reason: 'Konfirmasi terima request bulanan',
-                        area_group: user.location || null,
-                        timestamp: nowIso,
-                    };
-                });
-                const { error: adjustmentError } = await supabase.from('stock_adjustments').insert(adjustmentRows);
-                if (adjustmentError) {
-                    console.warn('Failed to insert stock adjustment logs:', adjustmentError.message);
+            const { data, error: rpcError } = await supabase.rpc('confirm_monthly_request_receipt', {
+                p_request_id: id,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ConfirmReceiptResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'already_completed') {
+                    setSuccess('Penerimaan sudah dikonfirmasi sebelumnya.');
+                } else {
+                    setError('Request belum berstatus delivered.');
                 }
+                await refetchRequestData();
+                return;
             }
 
             setSuccess('Penerimaan dikonfirmasi. Stok berhasil ditambahkan.');
@@ -558,21 +637,6 @@ export default function RequestPage() {
             ).catch((e) => console.error('[request.confirmDelivery] Notification error:', e));
             await refetchRequestData();
         } catch (e: any) {
-            if (markedCompleted && confirmedAtValue) {
-                const { error: rollbackError } = await supabase
-                    .from('monthly_requests')
-                    .update({ status: 'delivered', confirmed_at: null })
-                    .eq('id', id)
-                    .eq('engineer_id', user.id)
-                    .eq('status', 'completed')
-                    .eq('confirmed_at', confirmedAtValue);
-
-                if (rollbackError) {
-                    console.error('[request.confirmDelivery] rollback failed:', rollbackError.message);
-                    setError('Gagal konfirmasi dan rollback status gagal. Cek data request dengan admin.');
-                    return;
-                }
-            }
             setError(e?.message || 'Gagal konfirmasi penerimaan.');
         } finally {
             setConfirmingId(null);
@@ -586,19 +650,7 @@ export default function RequestPage() {
         await confirmDelivery(requestId);
     };
 
-    const statusColor = (status: string) => {
-        switch (normalizeRequestStatus(status)) {
-            case 'pending': return Colors.accent;
-            case 'approved': return Colors.info;
-            case 'delivered': return Colors.primary;
-            case 'completed': return Colors.success;
-            case 'rejected': return Colors.danger;
-            case 'cancelled': return Colors.textMuted;
-            default: return Colors.textSecondary;
-        }
-    };
-
-    const filteredParts = parts.filter(p =>
+    const filteredParts = parts.filter(p => getPartLimit(p.id).allowed).filter(p =>
         p.part_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         p.id.toLowerCase().includes(searchQuery.toLowerCase())
     );
@@ -614,9 +666,10 @@ export default function RequestPage() {
         for (const part of parts) map.set(part.id, part.part_name);
         return map;
     }, [parts]);
-    const selectedPartMaxQty = useMemo(() => (
-        selectedPart ? getMaxQtyForPart(selectedPart.part_name, selectedPart.id) : DEFAULT_MAX_QTY
-    ), [selectedPart]);
+    const selectedPartLimit = useMemo(() => (
+        selectedPart ? getPartLimit(selectedPart.id) : null
+    ), [selectedPart, getPartLimit]);
+    const selectedPartMaxQty = Math.max(1, selectedPartLimit?.maxQty ?? 1);
 
     return (
         <View style={[styles.container, { paddingTop: insets.top + 12 }]}>
@@ -686,9 +739,21 @@ export default function RequestPage() {
                     </>
                 }
                 renderItem={({ item: r }) => {
-                    const currentStatus = normalizeRequestStatus(r.status);
-                    const currentStatusColor = statusColor(currentStatus);
-                    const currentStatusLabel = formatStatusLabel(currentStatus);
+                    const currentStatus = r.status;
+                    const currentStatusColor = REQUEST_STATUS_META[currentStatus]?.color || Colors.textSecondary;
+                    const isPartiallyDelivered = !!r.has_backorder && (currentStatus === 'delivered' || currentStatus === 'completed');
+                    const currentStatusLabel = isPartiallyDelivered ? 'Sebagian Dikirim' : (REQUEST_STATUS_META[currentStatus]?.label || currentStatus);
+                    const isHistoryOpen = historyRequestId === r.id;
+                    const isThreadOpen = threadRequestId === r.id;
+                    const deliveredByPart = new Map<string, number>();
+                    for (const item of (r.delivered_items as RequestItem[]) || []) {
+                        deliveredByPart.set(item.partId, (deliveredByPart.get(item.partId) || 0) + item.quantity);
+                    }
+                    const backorderByPart = new Map<string, number>();
+                    for (const item of (r.backorder_items as RequestItem[]) || []) {
+                        backorderByPart.set(item.partId, (backorderByPart.get(item.partId) || 0) + item.quantity);
+                    }
+                    const changedDecisions = getChangedDecisions(r.review_decisions);
                     return (
                         <View style={styles.card}>
                         {/* Card Header & Content - SAME AS BEFORE */}
@@ -731,15 +796,73 @@ export default function RequestPage() {
                         <View style={styles.itemsRow}>
                             {(r.items as RequestItem[]).map((item, idx) => {
                                 const itemName = partNameById.get(item.partId) || item.partId;
+                                const backorderQty = backorderByPart.get(item.partId) || 0;
                                 return (
                                     <View key={`${item.partId}-${idx}`} style={styles.itemRow}>
-                                        <Text style={styles.itemText} numberOfLines={1}>{itemName}</Text>
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={styles.itemText} numberOfLines={1}>{itemName}</Text>
+                                            {r.delivered_items && (
+                                                <Text style={[styles.itemSubText, backorderQty > 0 && styles.itemBackorderText]}>
+                                                    Dikirim {deliveredByPart.get(item.partId) || 0}/{item.quantity}
+                                                    {backorderQty > 0 ? ` | Backorder ${backorderQty}` : ''}
+                                                </Text>
+                                            )}
+                                        </View>
                                         <Text style={styles.itemQtyText}>Qty: {item.quantity}</Text>
                                     </View>
                                 );
                             })}
                         </View>
 
+                        {/* Review outcome */}
+                        {currentStatus === 'rejected' && r.rejection_reason ? (
+                            <View style={[styles.reviewNote, styles.reviewNoteRejected]}>
+                                <Text style={[styles.reviewNoteTitle, { color: Colors.danger }]}>Alasan ditolak</Text>
+                                <Text style={styles.reviewNoteText}>{r.rejection_reason}</Text>
+                            </View>
+                        ) : null}
+                        {currentStatus !== 'rejected' && changedDecisions.length > 0 ? (
+                            <View style={styles.reviewNote}>
+                                <Text style={styles.reviewNoteTitle}>Penyesuaian admin</Text>
+                                {changedDecisions.map((row) => (
+                                    <Text key={row.partId} style={styles.reviewNoteText}>
+                                        {partNameById.get(row.partId) || row.partId}: {row.approvedQty === 0 ? 'ditolak' : `${row.requestedQty} → ${row.approvedQty}`}
+                                        {row.reason ? ` (${row.reason})` : ''}
+                                    </Text>
+                                ))}
+                            </View>
+                        ) : null}
+
+                        {/* Status history */}
+                        <Pressable
+                            style={styles.historyToggle}
+                            onPress={() => setHistoryRequestId(isHistoryOpen ? null : r.id)}
+                        >
+                            <MaterialCommunityIcons name="timeline-clock-outline" size={16} color={Colors.textSecondary} />
+                            <Text style={styles.historyToggleText}>Riwayat Status</Text>
+                            <MaterialCommunityIcons name={isHistoryOpen ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+                        </Pressable>
+                        {isHistoryOpen && (
+                            <View style={styles.historyPanel}>
+                                <RequestStatusTimeline requestId={r.id} />
+                            </View>
+                        )}
+
+                        {/* Comment thread */}
+                        <Pressable
+                            style={styles.historyToggle}
+                            onPress={() => setThreadRequestId(isThreadOpen ? null : r.id)}
+                        >
+                            <MaterialCommunityIcons name="comment-text-multiple-outline" size={16} color={Colors.textSecondary} />
+                            <Text style={styles.historyToggleText}>Diskusi dengan Admin</Text>
+                            <MaterialCommunityIcons name={isThreadOpen ? 'chevron-up' : 'chevron-down'} size={16} color={Colors.textSecondary} />
+                        </Pressable>
+                        {isThreadOpen && (
+                            <View style={styles.historyPanel}>
+                                <RequestCommentThread requestId={r.id} />
+                            </View>
+                        )}
+
                         {/* Actions */}
                         <View style={styles.actionRow}>
                             {r.status === 'pending' && (
@@ -838,10 +961,22 @@ export default function RequestPage() {
                                     <Text style={styles.createSectionTitle}>Daftar Barang</Text>
                                 </View>
 
-                                <Pressable style={styles.addButton} onPress={openSelectSheet}>
-                                    <MaterialCommunityIcons name="plus" size={20} color={Colors.text} />
-                                    <Text style={styles.addButtonText}>Tambah</Text>
-                                </Pressable>
+                                <View style={styles.itemsHeaderActions}>
+                                    <Pressable
+                                        style={[styles.addButton, styles.suggestButton, suggesting && { opacity: 0.6 }]}
+                                        onPress={suggestRequest}
+                                        disabled={suggesting}
+                                    >
+                                        <MaterialCommunityIcons name="auto-fix" size={20} color={Colors.primary} />
+                                        <Text style={[styles.addButtonText, { color: Colors.primary }]}>
+                                            {suggesting ? 'Menghitung...' : 'Sarankan'}
+                                        </Text>
+                                    </Pressable>
+                                    <Pressable style={styles.addButton} onPress={openSelectSheet}>
+                                        <MaterialCommunityIcons name="plus" size={20} color={Colors.text} />
+                                        <Text style={styles.addButtonText}>Tambah</Text>
+                                    </Pressable>
+                                </View>
                             </View>
 
                             {selectedItems.length === 0 ? (
@@ -865,6 +1000,9 @@ export default function RequestPage() {
                                                 <View style={{ flex: 1 }}>
                                                     <Text style={styles.selectedItemName}>{itemName}</Text>
                                                     <Text style={styles.selectedItemQty}>Qty: {item.quantity} pcs</Text>
+                                                    {suggestionNotes[item.partId] ? (
+                                                        <Text style={styles.selectedItemNote}>{suggestionNotes[item.partId]}</Text>
+                                                    ) : null}
                                                 </View>
                                                 <Pressable style={styles.deleteItemButton} onPress={() => removeItem(item.partId)}>
                                                     <MaterialCommunityIcons name="trash-can-outline" size={22} color={Colors.danger} />
@@ -964,7 +1102,10 @@ export default function RequestPage() {
                                             </Pressable>
                                         </View>
                                         <Text style={styles.qtyLimitText}>
-                                            Maksimal: {selectedPartMaxQty} pcs ({isLoopSheetPart(selectedPart?.part_name, selectedPart?.id) ? 'LoopSheet' : 'Part lainnya'})
+                                            Maksimal: {selectedPartLimit?.maxPerRequest ?? selectedPartMaxQty} pcs per request
+                                            {selectedPartLimit?.maxPerMonth != null
+                                                ? ` | Sisa kuota bulan ini: ${selectedPartLimit.maxQty} dari ${selectedPartLimit.maxPerMonth} pcs`
+                                                : ''}
                                         </Text>
 
                                         <Pressable style={styles.addToRequestButton} onPress={confirmQuantity}>
@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { View, StyleSheet, FlatList, RefreshControl, Pressable, TextInput, Modal as RNModal, Platform, useWindowDimensions } from 'react-native';
-import { Text, IconButton } from 'react-native-paper';
+import { View, StyleSheet, FlatList, RefreshControl, Pressable, TextInput, Modal as RNModal, Platform, useWindowDimensions, ScrollView } from 'react-native';
+import { Text, IconButton, Chip } from 'react-native-paper';
 import { useNavigation } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useQuery } from '@tanstack/react-query';
@@ -13,8 +13,25 @@ import { useUnreadCount } from '../../src/hooks/useUnreadCount';
 import { useWebPullToRefresh } from '../../src/hooks/useWebPullToRefresh';
 import { useSupabaseRealtimeRefresh } from '../../src/hooks/useSupabaseRealtimeRefresh';
 import { useAuthStore } from '../../src/stores/authStore';
+import { useOutboxStore, createClientRef, isNetworkError } from '../../src/stores/outboxStore';
 import { supabase } from '../../src/config/supabase';
-import { EngineerStock, InventoryPart } from '../../src/types';
+import {
+    EngineerStock,
+    InventoryPart,
+    SubmitStockCorrectionResult,
+    StockTransfer,
+    StockTransferKind,
+    TransferPeer,
+    CreateStockTransferResult,
+    RespondStockTransferResult,
+    StockReturn,
+    SubmitStockReturnResult,
+    ProcessStockReturnResult,
+    StockCorrectionRequest,
+    PartSerial,
+} from '../../src/types';
+import { NotificationService } from '../../src/services/NotificationService';
+import { formatSerialIssues } from '../../src/utils/partSerials';
 
 interface StockItem extends EngineerStock {
     part_name?: string;
@@ -30,6 +47,7 @@ type EngineerStockData = {
 
 const ENGINEER_STOCK_PAGE_SIZE = 1000;
 const ENGINEER_STOCK_MAX_PAGES = 200;
+const SERIALIZED_CORRECTION_MESSAGE = 'Stok part serialized tidak bisa dikoreksi langsung. Gunakan retur atau laporan part cacat per serial.';
 
 const fetchAllEngineerStockRows = async (engineerId: string): Promise<EngineerStock[]> => {
     const rows: EngineerStock[] = [];
@@ -64,7 +82,7 @@ const fetchAllInventoryRows = async (): Promise<InventoryPart[]> => {
         const to = from + ENGINEER_STOCK_PAGE_SIZE - 1;
         const res = await supabase
             .from('inventory')
-            .select('id, part_name, total_stock, min_stock')
+            .select('id, part_name, total_stock, min_stock, is_serialized')
             .order('id', { ascending: true })
             .range(from, to);
 
@@ -92,6 +110,61 @@ const fetchEngineerStockData = async (engineerId: string): Promise<EngineerStock
     };
 };
 
+const fetchPendingTransfers = async (engineerId: string): Promise<StockTransfer[]> => {
+    const { data, error } = await supabase
+        .from('stock_transfers')
+        .select('*')
+        .eq('status', 'pending')
+        .or(`from_engineer_id.eq.${engineerId},to_engineer_id.eq.${engineerId}`)
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as StockTransfer[];
+};
+
+const fetchTransferPeers = async (partId: string): Promise<TransferPeer[]> => {
+    const { data, error } = await supabase.rpc('list_area_transfer_peers', { p_part_id: partId });
+    if (error) throw error;
+    return (data || []) as TransferPeer[];
+};
+
+const fetchHeldSerials = async (engineerId: string): Promise<PartSerial[]> => {
+    const { data, error } = await supabase
+        .from('part_serials')
+        .select('*')
+        .eq('engineer_id', engineerId)
+        .eq('status', 'with_engineer')
+        .order('part_id', { ascending: true })
+        .order('serial_number', { ascending: true });
+    if (error) throw error;
+    return (data || []) as PartSerial[];
+};
+
+const formatTransferItems = (transfer: Pick<StockTransfer, 'items'>) => (
+    (transfer.items || []).map((item) => `${item.partName || item.partId} x${item.quantity}`).join(', ')
+);
+
+const fetchPendingReturns = async (engineerId: string): Promise<StockReturn[]> => {
+    const { data, error } = await supabase
+        .from('stock_returns')
+        .select('*')
+        .eq('engineer_id', engineerId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as StockReturn[];
+};
+
+const fetchPendingCorrections = async (engineerId: string): Promise<StockCorrectionRequest[]> => {
+    const { data, error } = await supabase
+        .from('stock_correction_requests')
+        .select('*')
+        .eq('engineer_id', engineerId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as StockCorrectionRequest[];
+};
+
 export default function StokPage() {
     const { user } = useAuthStore();
     const insets = useSafeAreaInsets();
@@ -114,10 +187,39 @@ export default function StokPage() {
     const [reasonInvalid, setReasonInvalid] = useState(false);
     const [saving, setSaving] = useState(false);
 
+    const [transferStock, setTransferStock] = useState<StockItem | null>(null);
+    const [transferKind, setTransferKind] = useState<StockTransferKind>('offer');
+    const [transferPeerId, setTransferPeerId] = useState<string | null>(null);
+    const [transferQty, setTransferQty] = useState('');
+    const [transferNote, setTransferNote] = useState('');
+    const [transferSerials, setTransferSerials] = useState<string[]>([]);
+    const [savingTransfer, setSavingTransfer] = useState(false);
+    const [respondingTransferId, setRespondingTransferId] = useState<string | null>(null);
+    // Serials picked when accepting a request, keyed by `${transferId}|${partId}`.
+    const [acceptSerials, setAcceptSerials] = useState<Record<string, string[]>>({});
+
+    const [returnOpen, setReturnOpen] = useState(false);
+    const [returnQty, setReturnQty] = useState<Record<string, number>>({});
+    const [returnSerials, setReturnSerials] = useState<Record<string, string[]>>({});
+    const [returnReason, setReturnReason] = useState('');
+    const [savingReturn, setSavingReturn] = useState(false);
+    const [cancellingReturnId, setCancellingReturnId] = useState<string | null>(null);
+
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
 
-    const editorOpen = selectedStock !== null;
+    const editorOpen = selectedStock !== null || transferStock !== null || returnOpen;
+
+    const outboxEntries = useOutboxStore((state) => state.entries);
+    const outboxSyncing = useOutboxStore((state) => state.syncing);
+    const enqueueOutbox = useOutboxStore((state) => state.enqueue);
+    const retryOutboxEntry = useOutboxStore((state) => state.retry);
+    const removeOutboxEntry = useOutboxStore((state) => state.remove);
+    const queuedCorrections = useMemo(
+        () => outboxEntries.filter((entry) => entry.payload.kind === 'stock_correction'),
+        [outboxEntries]
+    );
+    const queuedCorrectionCount = queuedCorrections.length;
 
     const visibleTabStyle = useMemo(() => {
         const tabBottomPadding = Math.max(insets.bottom, 10);
@@ -145,6 +247,53 @@ export default function StokPage() {
         queryFn: () => fetchEngineerStockData(user!.id),
         enabled: !!user?.id,
     });
+    const transfersQuery = useQuery({
+        queryKey: ['engineer', 'stock-transfers', user?.id],
+        queryFn: () => fetchPendingTransfers(user!.id),
+        enabled: !!user?.id,
+    });
+    const pendingTransfers = transfersQuery.data || [];
+    const peersQuery = useQuery({
+        queryKey: ['engineer', 'transfer-peers', user?.id, transferStock?.part_id],
+        queryFn: () => fetchTransferPeers(transferStock!.part_id),
+        enabled: !!user?.id && !!transferStock,
+    });
+    const peers = peersQuery.data || [];
+    const returnsQuery = useQuery({
+        queryKey: ['engineer', 'stock-returns', user?.id],
+        queryFn: () => fetchPendingReturns(user!.id),
+        enabled: !!user?.id,
+    });
+    const pendingReturns = returnsQuery.data || [];
+    const correctionsQuery = useQuery({
+        queryKey: ['engineer', 'stock-corrections', user?.id],
+        queryFn: () => fetchPendingCorrections(user!.id),
+        enabled: !!user?.id,
+    });
+    const pendingCorrections = correctionsQuery.data || [];
+    const heldSerialsQuery = useQuery({
+        queryKey: ['engineer', 'heldSerials', user?.id],
+        queryFn: () => fetchHeldSerials(user!.id),
+        enabled: !!user?.id,
+    });
+    const heldSerialsByPart = useMemo(() => {
+        const map = new Map<string, PartSerial[]>();
+        for (const serial of heldSerialsQuery.data || []) {
+            const list = map.get(serial.part_id) || [];
+            list.push(serial);
+            map.set(serial.part_id, list);
+        }
+        return map;
+    }, [heldSerialsQuery.data]);
+
+    const refetchStock = stockQuery.refetch;
+    const refetchCorrections = correctionsQuery.refetch;
+    useEffect(() => {
+        // A queued correction left the outbox (synced, sent for approval or discarded): reload stock.
+        if (!user?.id) return;
+        void refetchStock();
+        void refetchCorrections();
+    }, [queuedCorrectionCount, refetchCorrections, refetchStock, user?.id]);
 
     const { stocks, parts, lastSync } = useMemo(() => {
         const partsRows = stockQuery.data?.partsRows || [];
@@ -222,11 +371,64 @@ export default function StokPage() {
         },
         { enabled: !!user?.id },
     );
+    useSupabaseRealtimeRefresh(
+        ['stock_transfers'],
+        () => {
+            void transfersQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+    useSupabaseRealtimeRefresh(
+        ['stock_returns'],
+        () => {
+            void returnsQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+    useSupabaseRealtimeRefresh(
+        ['stock_correction_requests'],
+        () => {
+            void correctionsQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+    useSupabaseRealtimeRefresh(
+        ['part_serials'],
+        () => {
+            void heldSerialsQuery.refetch();
+        },
+        { enabled: !!user?.id },
+    );
+
+    useEffect(() => {
+        const sourceError = transfersQuery.error || peersQuery.error;
+        if (!sourceError) return;
+        const message = sourceError instanceof Error ? sourceError.message : 'Gagal memuat data transfer.';
+        setError(message);
+    }, [transfersQuery.error, peersQuery.error]);
+
+    useEffect(() => {
+        if (!heldSerialsQuery.error) return;
+        const message = heldSerialsQuery.error instanceof Error ? heldSerialsQuery.error.message : 'Gagal memuat serial number.';
+        setError(message);
+    }, [heldSerialsQuery.error]);
+
+    useEffect(() => {
+        if (!returnsQuery.error) return;
+        const message = returnsQuery.error instanceof Error ? returnsQuery.error.message : 'Gagal memuat data retur.';
+        setError(message);
+    }, [returnsQuery.error]);
 
     const onRefresh = async () => {
         setRefreshing(true);
         try {
-            await stockQuery.refetch();
+            await Promise.all([
+                stockQuery.refetch(),
+                transfersQuery.refetch(),
+                returnsQuery.refetch(),
+                correctionsQuery.refetch(),
+                heldSerialsQuery.refetch(),
+            ]);
         } finally {
             setRefreshing(false);
         }
@@ -268,6 +470,10 @@ export default function StokPage() {
         setReason('');
     };
 
+    const runOutboxAction = (action: () => Promise<void>) => {
+        void action().catch((e: any) => setError(e?.message || 'Gagal memperbarui antrean offline.'));
+    };
+
     const closeEditor = () => {
         onEditorClosed();
     };
@@ -285,6 +491,351 @@ export default function StokPage() {
 
     const sanitizeNumber = (value: string) => value.replace(/[^0-9]/g, '');
 
+    const isSerialized = (partId: string) => !!parts[partId]?.is_serialized;
+
+    // Adds the serial unless `limit` serials are already picked; picking it again removes it.
+    const toggleSerial = (current: string[], serialNumber: string, limit: number) => {
+        if (current.includes(serialNumber)) return current.filter((value) => value !== serialNumber);
+        if (current.length >= limit) return current;
+        return [...current, serialNumber];
+    };
+
+    const openTransfer = (item: StockItem) => {
+        setTransferStock(item);
+        setTransferKind(item.quantity > 0 ? 'offer' : 'request');
+        setTransferPeerId(null);
+        setTransferQty('1');
+        setTransferNote('');
+        setTransferSerials([]);
+    };
+
+    const closeTransfer = () => {
+        setTransferStock(null);
+        setTransferPeerId(null);
+        setTransferQty('');
+        setTransferNote('');
+        setTransferSerials([]);
+        setSavingTransfer(false);
+    };
+
+    const handleCreateTransfer = async () => {
+        if (!user?.id || !transferStock || savingTransfer) return;
+
+        const quantity = Number.parseInt(transferQty, 10);
+        const peer = peers.find((row) => row.engineer_id === transferPeerId);
+        if (!peer) {
+            setError('Pilih rekan engineer terlebih dahulu.');
+            return;
+        }
+        if (Number.isNaN(quantity) || quantity <= 0) {
+            setError('Jumlah transfer harus lebih dari 0.');
+            return;
+        }
+        if (transferKind === 'offer' && quantity > transferStock.quantity) {
+            setError(`Stok Anda hanya ${transferStock.quantity} pcs.`);
+            return;
+        }
+        if (transferKind === 'request' && quantity > peer.quantity) {
+            setError(`Stok ${peer.name} hanya ${peer.quantity} pcs.`);
+            return;
+        }
+        // An offer of a serialized part names the units sent; on a request the peer picks them.
+        const offersSerials = transferKind === 'offer' && isSerialized(transferStock.part_id);
+        if (offersSerials && transferSerials.length !== quantity) {
+            setError(`Pilih ${quantity} serial number yang dikirim.`);
+            return;
+        }
+
+        setSavingTransfer(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('create_stock_transfer', {
+                p_peer_id: peer.engineer_id,
+                p_kind: transferKind,
+                p_items: [{ partId: transferStock.part_id, quantity, serials: offersSerials ? transferSerials : undefined }],
+                p_note: transferNote.trim() || null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as CreateStockTransferResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    const shortage = result.shortages?.[0];
+                    throw new Error(`Stok tidak cukup (tersedia ${shortage?.available ?? 0} pcs).`);
+                }
+                if (result?.code === 'different_area') {
+                    throw new Error('Transfer hanya bisa dengan engineer di area yang sama.');
+                }
+                if (result?.code === 'invalid_peer') {
+                    throw new Error('Rekan engineer tidak valid atau tidak aktif.');
+                }
+                if (result?.code === 'serials_required') {
+                    void heldSerialsQuery.refetch();
+                    throw new Error(`Serial number tidak sesuai: ${formatSerialIssues(result.serial_issues)}. Pilih ulang serial yang dikirim.`);
+                }
+                throw new Error('Jumlah transfer tidak valid.');
+            }
+
+            const partLabel = `${transferStock.part_name || transferStock.part_id} x${quantity}`;
+            void NotificationService.sendToUser(
+                peer.engineer_id,
+                'Transfer Stok',
+                transferKind === 'offer'
+                    ? `${user.name} menawarkan ${partLabel} untuk Anda.`
+                    : `${user.name} meminta ${partLabel} dari stok Anda.`,
+                { transfer_id: result.transfer_id, type: 'stock_transfer' },
+            ).catch((e) => console.error('[stok.createTransfer] Notification error:', e));
+
+            closeTransfer();
+            setSuccess(`Transfer dikirim. Menunggu konfirmasi ${peer.name}.`);
+            await transfersQuery.refetch();
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membuat transfer.';
+            setError(message);
+        } finally {
+            setSavingTransfer(false);
+        }
+    };
+
+    // Serialized items of a request the user has to send, with the serials picked so far.
+    const getAcceptSerialItems = (transfer: StockTransfer) => (
+        transfer.kind === 'request' && transfer.from_engineer_id === user?.id
+            ? transfer.items
+                .filter((item) => isSerialized(item.partId))
+                .map((item) => ({ ...item, picked: acceptSerials[`${transfer.id}|${item.partId}`] || [] }))
+            : []
+    );
+
+    const toggleAcceptSerial = (transferId: string, partId: string, serialNumber: string, limit: number) => {
+        const key = `${transferId}|${partId}`;
+        setAcceptSerials((prev) => ({ ...prev, [key]: toggleSerial(prev[key] || [], serialNumber, limit) }));
+    };
+
+    const renderSerialChips = (partId: string, picked: string[], limit: number, onToggle: (serialNumber: string) => void) => {
+        const held = heldSerialsByPart.get(partId) || [];
+        if (held.length === 0) {
+            return <Text style={styles.outboxMeta}>Tidak ada serial number yang tercatat atas nama Anda untuk part ini.</Text>;
+        }
+        return (
+            <View style={styles.serialChipWrap}>
+                {held.map((serial) => {
+                    const selected = picked.includes(serial.serial_number);
+                    return (
+                        <Chip
+                            key={serial.id}
+                            compact
+                            mode={selected ? 'flat' : 'outlined'}
+                            selected={selected}
+                            onPress={() => onToggle(serial.serial_number)}
+                            disabled={!selected && picked.length >= limit}
+                        >
+                            {serial.serial_number}
+                        </Chip>
+                    );
+                })}
+            </View>
+        );
+    };
+
+    const respondTransfer = async (transfer: StockTransfer, decision: 'accept' | 'reject' | 'cancel') => {
+        if (!user?.id || respondingTransferId) return;
+        const serialItems = decision === 'accept' ? getAcceptSerialItems(transfer) : [];
+        const incomplete = serialItems.find((item) => item.picked.length !== item.quantity);
+        if (incomplete) {
+            setError(`Pilih ${incomplete.quantity} serial untuk ${incomplete.partName || incomplete.partId}.`);
+            return;
+        }
+        setRespondingTransferId(transfer.id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('respond_stock_transfer', {
+                p_transfer_id: transfer.id,
+                p_decision: decision,
+                p_note: null,
+                p_serials: serialItems.length > 0
+                    ? serialItems.map((item) => ({ partId: item.partId, serials: item.picked }))
+                    : null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as RespondStockTransferResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    throw new Error('Stok pengirim sudah tidak cukup untuk transfer ini.');
+                }
+                if (result?.code === 'serials_required') {
+                    void heldSerialsQuery.refetch();
+                    throw new Error(`Serial number pengirim tidak sesuai: ${formatSerialIssues(result.serial_issues)}.`);
+                }
+                if (result?.code === 'invalid_status' || result?.code === 'not_found') {
+                    throw new Error('Transfer sudah diproses atau dibatalkan.');
+                }
+                if (result?.code === 'different_area') {
+                    throw new Error('Engineer ini sudah tidak satu area. Tolak atau batalkan transfer.');
+                }
+                throw new Error('Anda tidak bisa memproses transfer ini.');
+            }
+
+            const counterpartId = transfer.from_engineer_id === user.id ? transfer.to_engineer_id : transfer.from_engineer_id;
+            const verb = decision === 'accept' ? 'menerima' : decision === 'reject' ? 'menolak' : 'membatalkan';
+            void NotificationService.sendToUser(
+                counterpartId,
+                'Transfer Stok',
+                `${user.name} ${verb} transfer ${formatTransferItems(transfer)}.`,
+                { transfer_id: transfer.id, type: 'stock_transfer' },
+            ).catch((e) => console.error('[stok.respondTransfer] Notification error:', e));
+
+            setSuccess(
+                decision === 'accept'
+                    ? 'Transfer diterima. Stok sudah diperbarui.'
+                    : decision === 'reject' ? 'Transfer ditolak.' : 'Transfer dibatalkan.'
+            );
+            setAcceptSerials((prev) => Object.fromEntries(
+                Object.entries(prev).filter(([key]) => !key.startsWith(`${transfer.id}|`))
+            ));
+            await Promise.all([transfersQuery.refetch(), stockQuery.refetch(), heldSerialsQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal memproses transfer.';
+            setError(message);
+            void transfersQuery.refetch();
+        } finally {
+            setRespondingTransferId(null);
+        }
+    };
+
+    const returnableStocks = useMemo(() => stocks.filter((item) => item.quantity > 0), [stocks]);
+    const returnTotal = useMemo(
+        () => Object.values(returnQty).reduce((sum, qty) => sum + qty, 0),
+        [returnQty]
+    );
+
+    const openReturn = () => {
+        setReturnQty({});
+        setReturnSerials({});
+        setReturnReason('');
+        setReturnOpen(true);
+    };
+
+    const closeReturn = () => {
+        setReturnOpen(false);
+        setReturnQty({});
+        setReturnSerials({});
+        setReturnReason('');
+        setSavingReturn(false);
+    };
+
+    const changeReturnQty = (item: StockItem, delta: number) => {
+        const next = Math.min(item.quantity, Math.max(0, (returnQty[item.part_id] || 0) + delta));
+        setReturnQty((prev) => {
+            const { [item.part_id]: _removed, ...rest } = prev;
+            return next > 0 ? { ...rest, [item.part_id]: next } : rest;
+        });
+        setReturnSerials((prev) => ({ ...prev, [item.part_id]: (prev[item.part_id] || []).slice(0, next) }));
+    };
+
+    const toggleReturnSerial = (partId: string, serialNumber: string) => {
+        setReturnSerials((prev) => ({
+            ...prev,
+            [partId]: toggleSerial(prev[partId] || [], serialNumber, returnQty[partId] || 0),
+        }));
+    };
+
+    const handleSubmitReturn = async () => {
+        if (!user?.id || savingReturn) return;
+
+        const items = Object.entries(returnQty)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([partId, quantity]) => ({
+                partId,
+                quantity,
+                serials: isSerialized(partId) ? returnSerials[partId] || [] : undefined,
+            }));
+        if (items.length === 0) {
+            setError('Pilih minimal satu part untuk diretur.');
+            return;
+        }
+        const missingSerials = items.find((item) => item.serials && item.serials.length !== item.quantity);
+        if (missingSerials) {
+            setError(`Pilih ${missingSerials.quantity} serial untuk ${parts[missingSerials.partId]?.part_name || missingSerials.partId}.`);
+            return;
+        }
+        if (!returnReason.trim()) {
+            setError('Alasan retur wajib diisi.');
+            return;
+        }
+
+        setSavingReturn(true);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('submit_stock_return', {
+                p_items: items,
+                p_reason: returnReason.trim(),
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as SubmitStockReturnResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'insufficient_stock') {
+                    const detail = (result.shortages || [])
+                        .map((row) => `${row.partName}: stok ${row.available}, retur ${row.required}`)
+                        .join('; ');
+                    throw new Error(`Stok tidak cukup untuk retur. ${detail}`);
+                }
+                if (result?.code === 'reason_required') {
+                    throw new Error('Alasan retur wajib diisi.');
+                }
+                if (result?.code === 'serials_required') {
+                    void heldSerialsQuery.refetch();
+                    throw new Error(`Serial number tidak sesuai: ${formatSerialIssues(result.serial_issues)}. Pilih ulang serial yang diretur.`);
+                }
+                throw new Error('Item retur tidak valid.');
+            }
+
+            void NotificationService.sendToRole(
+                'admin',
+                'Retur Stok',
+                `${user.name} mengajukan retur ${formatTransferItems({ items: result.items || items })}.`,
+                { return_id: result.return_id, type: 'stock_return' },
+            ).catch((e) => console.error('[stok.submitReturn] Notification error:', e));
+
+            closeReturn();
+            setSuccess('Retur dikirim. Stok dipotong sampai gudang menerima barang.');
+            await Promise.all([returnsQuery.refetch(), stockQuery.refetch(), heldSerialsQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal mengirim retur.';
+            setError(message);
+        } finally {
+            setSavingReturn(false);
+        }
+    };
+
+    const cancelReturn = async (stockReturn: StockReturn) => {
+        if (!user?.id || cancellingReturnId) return;
+        setCancellingReturnId(stockReturn.id);
+        try {
+            const { data, error: rpcError } = await supabase.rpc('process_stock_return', {
+                p_return_id: stockReturn.id,
+                p_decision: 'cancel',
+                p_note: null,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as ProcessStockReturnResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'invalid_status' || result?.code === 'not_found') {
+                    throw new Error('Retur sudah diproses gudang.');
+                }
+                throw new Error('Anda tidak bisa membatalkan retur ini.');
+            }
+
+            setSuccess('Retur dibatalkan. Stok dikembalikan.');
+            await Promise.all([returnsQuery.refetch(), stockQuery.refetch(), heldSerialsQuery.refetch()]);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Gagal membatalkan retur.';
+            setError(message);
+            void returnsQuery.refetch();
+        } finally {
+            setCancellingReturnId(null);
+        }
+    };
+
     const handleSaveAdjustment = async () => {
         if (!selectedStock || saving) return;
         if (!user?.id) {
@@ -292,6 +843,11 @@ export default function StokPage() {
             return;
         }
 
+        if (isSerialized(selectedStock.part_id) && Number.parseInt(newStockValue, 10) !== selectedStock.quantity) {
+            setError(SERIALIZED_CORRECTION_MESSAGE);
+            return;
+        }
+
         const parsedStock = Number.parseInt(newStockValue, 10);
         if (Number.isNaN(parsedStock)) {
             setError('Stok baru wajib diisi.');
@@ -308,41 +864,81 @@ export default function StokPage() {
         }
 
         setSaving(true);
+        const clientRef = createClientRef();
         try {
-            const nowIso = new Date().toISOString();
-            const { error: updateError } = await supabase
-                .from('engineer_stock')
-                .upsert({
-                    engineer_id: user.id,
-                    part_id: selectedStock.part_id,
-                    quantity: parsedStock,
-                    min_stock: selectedStock.min_stock ?? null,
-                    last_sync: nowIso,
-                }, { onConflict: 'engineer_id,part_id' });
+            const { data, error: rpcError } = await supabase.rpc('submit_stock_correction', {
+                p_part_id: selectedStock.part_id,
+                p_new_quantity: parsedStock,
+                p_reason: reason.trim(),
+                p_expected_quantity: selectedStock.quantity,
+                p_client_ref: clientRef,
+            });
 
-            if (updateError) throw updateError;
+            if (rpcError) throw rpcError;
 
-            const delta = parsedStock - selectedStock.quantity;
-            const { error: insertError } = await supabase
-                .from('stock_adjustments')
-                .insert({
-                    engineer_id: selectedStock.engineer_id,
-                    engineer_name: user?.name || '',
-                    part_id: selectedStock.part_id,
-                    part_name: selectedStock.part_name || selectedStock.part_id,
-                    previous_quantity: selectedStock.quantity,
-                    new_quantity: parsedStock,
-                    delta,
-                    reason: reason.trim(),
-                    area_group: user?.location || null,
-                });
-
-            if (insertError) throw insertError;
+            const result = data as SubmitStockCorrectionResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'stale_quantity') {
+                    await stockQuery.refetch();
+                    setError(`Stok berubah menjadi ${result.current_quantity ?? 0}. Periksa ulang sebelum menyimpan.`);
+                    return;
+                }
+                if (result?.code === 'reason_required') {
+                    setReasonInvalid(true);
+                    setReasonWarningVisible(true);
+                    return;
+                }
+                if (result?.code === 'pending_exists') {
+                    await correctionsQuery.refetch();
+                    throw new Error('Masih ada koreksi part ini yang menunggu persetujuan admin.');
+                }
+                if (result?.code === 'serialized_part') {
+                    throw new Error(SERIALIZED_CORRECTION_MESSAGE);
+                }
+                throw new Error('Koreksi stok tidak valid.');
+            }
+
+            if (result.code === 'pending_approval') {
+                const partName = selectedStock.part_name || selectedStock.part_id;
+                void NotificationService.sendToRole(
+                    'admin',
+                    'Koreksi Stok Perlu Persetujuan',
+                    `${user.name} mengoreksi ${partName}: ${selectedStock.quantity} → ${parsedStock}.`,
+                    { correction_id: result.correction_id, type: 'stock_correction' },
+                ).catch((e) => console.error('[stok.saveAdjustment] Notification error:', e));
+
+                closeEditor();
+                await correctionsQuery.refetch();
+                setSuccess('Koreksi melebihi batas. Stok berubah setelah disetujui admin.');
+                return;
+            }
 
             closeEditor();
             await stockQuery.refetch();
             setSuccess('Koreksi stok berhasil disimpan.');
         } catch (err) {
+            if (isNetworkError(err)) {
+                try {
+                    const queued = await enqueueOutbox({
+                        kind: 'stock_correction',
+                        partId: selectedStock.part_id,
+                        partName: selectedStock.part_name || selectedStock.part_id,
+                        previousQuantity: selectedStock.quantity,
+                        newQuantity: parsedStock,
+                        reason: reason.trim(),
+                        engineerName: user.name,
+                    }, clientRef);
+                    if (queued) {
+                        closeEditor();
+                        setSuccess('Tidak ada koneksi. Koreksi disimpan dan akan dikirim otomatis.');
+                        return;
+                    }
+                } catch (persistError) {
+                    console.error('[stok.saveAdjustment] Outbox persist failed:', persistError);
+                    setError('Tidak ada koneksi dan koreksi gagal disimpan di perangkat. Coba simpan lagi.');
+                    return;
+                }
+            }
             const message = err instanceof Error ? err.message : 'Gagal menyimpan koreksi stok.';
             setError(message);
         } finally {
@@ -369,18 +965,18 @@ export default function StokPage() {
 
         setSaving(true);
         try {
-            const nowIso = new Date().toISOString();
-            const { error: updateError } = await supabase
+            // Only min_stock is writable here; quantities change through the stock RPCs.
+            const { data: updatedRows, error: updateError } = await supabase
                 .from('engineer_stock')
-                .upsert({
-                    engineer_id: user.id,
-                    part_id: selectedStock.part_id,
-                    quantity: selectedStock.quantity,
-                    min_stock: parsedMin,
-                    last_sync: nowIso,
-                }, { onConflict: 'engineer_id,part_id' });
+                .update({ min_stock: parsedMin })
+                .eq('engineer_id', user.id)
+                .eq('part_id', selectedStock.part_id)
+                .select('part_id');
 
             if (updateError) throw updateError;
+            if (!updatedRows || updatedRows.length === 0) {
+                throw new Error('Stok part ini tidak ditemukan. Muat ulang lalu coba lagi.');
+            }
 
             closeEditor();
             await stockQuery.refetch();
@@ -452,6 +1048,171 @@ export default function StokPage() {
                             </View>
                         </View>
 
+                        {queuedCorrections.length > 0 ? (
+                            <View style={styles.outboxPanel}>
+                                <View style={styles.outboxHeader}>
+                                    <MaterialCommunityIcons name="cloud-upload-outline" size={18} color={Colors.accent} />
+                                    <Text style={styles.outboxTitle}>
+                                        {outboxSyncing ? 'Menyinkronkan koreksi...' : `${queuedCorrections.length} koreksi menunggu sinkron`}
+                                    </Text>
+                                </View>
+                                {queuedCorrections.map((entry) => {
+                                    if (entry.payload.kind !== 'stock_correction') return null;
+                                    const isConflict = entry.status === 'conflict';
+                                    return (
+                                        <View key={entry.id} style={styles.outboxRow}>
+                                            <Text style={styles.outboxPart} numberOfLines={1}>
+                                                {entry.payload.partName}: {entry.payload.previousQuantity} → {entry.payload.newQuantity}
+                                            </Text>
+                                            {isConflict ? (
+                                                <>
+                                                    <Text style={styles.outboxError}>{entry.lastError || 'Gagal sinkron.'}</Text>
+                                                    <View style={styles.outboxActions}>
+                                                        <Pressable style={styles.outboxActionBtn} onPress={() => runOutboxAction(() => removeOutboxEntry(entry.id))}>
+                                                            <Text style={[styles.outboxActionText, { color: Colors.danger }]}>Hapus</Text>
+                                                        </Pressable>
+                                                        <Pressable style={styles.outboxActionBtn} onPress={() => runOutboxAction(() => retryOutboxEntry(entry.id))}>
+                                                            <Text style={styles.outboxActionText}>Coba Lagi</Text>
+                                                        </Pressable>
+                                                        {entry.currentQuantity !== undefined ? (
+                                                            <Pressable style={styles.outboxActionBtn} onPress={() => runOutboxAction(() => retryOutboxEntry(entry.id, { force: true }))}>
+                                                                <Text style={[styles.outboxActionText, { color: Colors.primary }]}>Tetap Terapkan</Text>
+                                                            </Pressable>
+                                                        ) : null}
+                                                    </View>
+                                                </>
+                                            ) : (
+                                                <Text style={styles.outboxMeta}>{new Date(entry.createdAt).toLocaleString('id-ID')}</Text>
+                                            )}
+                                        </View>
+                                    );
+                                })}
+                            </View>
+                        ) : null}
+
+                        {pendingCorrections.length > 0 ? (
+                            <View style={styles.outboxPanel}>
+                                <View style={styles.outboxHeader}>
+                                    <MaterialCommunityIcons name="shield-check-outline" size={18} color={Colors.accent} />
+                                    <Text style={styles.outboxTitle}>
+                                        {pendingCorrections.length} koreksi menunggu persetujuan admin
+                                    </Text>
+                                </View>
+                                {pendingCorrections.map((correction) => (
+                                    <View key={correction.id} style={styles.outboxRow}>
+                                        <Text style={styles.outboxPart} numberOfLines={1}>
+                                            {correction.part_name || correction.part_id}: {correction.previous_quantity} → {correction.requested_quantity}
+                                        </Text>
+                                        <Text style={styles.outboxMeta}>
+                                            {correction.reason} • {new Date(correction.created_at).toLocaleString('id-ID')}
+                                        </Text>
+                                    </View>
+                                ))}
+                            </View>
+                        ) : null}
+
+                        {pendingTransfers.length > 0 ? (
+                            <View style={styles.transferPanel}>
+                                <View style={styles.outboxHeader}>
+                                    <MaterialCommunityIcons name="swap-horizontal" size={18} color={Colors.info} />
+                                    <Text style={styles.transferTitle}>{pendingTransfers.length} transfer menunggu</Text>
+                                </View>
+                                {pendingTransfers.map((transfer) => {
+                                    const needsMyAnswer = transfer.initiated_by !== user?.id;
+                                    const busy = respondingTransferId === transfer.id;
+                                    const heading = needsMyAnswer
+                                        ? (transfer.kind === 'offer'
+                                            ? `${transfer.from_engineer_name || 'Rekan'} menawarkan`
+                                            : `${transfer.to_engineer_name || 'Rekan'} meminta`)
+                                        : (transfer.kind === 'offer'
+                                            ? `Tawaran ke ${transfer.to_engineer_name || 'rekan'}`
+                                            : `Permintaan ke ${transfer.from_engineer_name || 'rekan'}`);
+                                    return (
+                                        <View key={transfer.id} style={styles.outboxRow}>
+                                            <Text style={styles.outboxPart} numberOfLines={2}>
+                                                {heading}: {formatTransferItems(transfer)}
+                                            </Text>
+                                            {transfer.note ? <Text style={styles.outboxMeta}>{transfer.note}</Text> : null}
+                                            {needsMyAnswer && getAcceptSerialItems(transfer).map((item) => (
+                                                <View key={item.partId} style={styles.serialPickBlock}>
+                                                    <Text style={styles.outboxMeta}>
+                                                        Serial {item.partName || item.partId}: {item.picked.length}/{item.quantity}
+                                                    </Text>
+                                                    {renderSerialChips(
+                                                        item.partId,
+                                                        item.picked,
+                                                        item.quantity,
+                                                        (serialNumber) => toggleAcceptSerial(transfer.id, item.partId, serialNumber, item.quantity),
+                                                    )}
+                                                </View>
+                                            ))}
+                                            <View style={styles.outboxActions}>
+                                                {needsMyAnswer ? (
+                                                    <>
+                                                        <Pressable style={styles.outboxActionBtn} onPress={() => void respondTransfer(transfer, 'reject')} disabled={busy}>
+                                                            <Text style={[styles.outboxActionText, { color: Colors.danger }]}>Tolak</Text>
+                                                        </Pressable>
+                                                        <Pressable style={styles.outboxActionBtn} onPress={() => void respondTransfer(transfer, 'accept')} disabled={busy}>
+                                                            <Text style={[styles.outboxActionText, { color: Colors.primary }]}>
+                                                                {busy ? 'Memproses...' : 'Terima'}
+                                                            </Text>
+                                                        </Pressable>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <Text style={[styles.outboxMeta, { flex: 1 }]}>Menunggu respon</Text>
+                                                        <Pressable style={styles.outboxActionBtn} onPress={() => void respondTransfer(transfer, 'cancel')} disabled={busy}>
+                                                            <Text style={[styles.outboxActionText, { color: Colors.danger }]}>Batalkan</Text>
+                                                        </Pressable>
+                                                    </>
+                                                )}
+                                            </View>
+                                        </View>
+                                    );
+                                })}
+                            </View>
+                        ) : null}
+
+                        {pendingReturns.length > 0 ? (
+                            <View style={styles.returnPanel}>
+                                <View style={styles.outboxHeader}>
+                                    <MaterialCommunityIcons name="keyboard-return" size={18} color={Colors.success} />
+                                    <Text style={styles.returnTitle}>{pendingReturns.length} retur menunggu gudang</Text>
+                                </View>
+                                {pendingReturns.map((stockReturn) => (
+                                    <View key={stockReturn.id} style={styles.outboxRow}>
+                                        <Text style={styles.outboxPart} numberOfLines={2}>
+                                            {formatTransferItems(stockReturn)}
+                                        </Text>
+                                        <Text style={styles.outboxMeta}>{stockReturn.reason}</Text>
+                                        <View style={styles.outboxActions}>
+                                            <Text style={[styles.outboxMeta, { flex: 1 }]}>
+                                                {new Date(stockReturn.created_at).toLocaleString('id-ID')}
+                                            </Text>
+                                            <Pressable
+                                                style={styles.outboxActionBtn}
+                                                onPress={() => void cancelReturn(stockReturn)}
+                                                disabled={cancellingReturnId === stockReturn.id}
+                                            >
+                                                <Text style={[styles.outboxActionText, { color: Colors.danger }]}>
+                                                    {cancellingReturnId === stockReturn.id ? 'Memproses...' : 'Batalkan'}
+                                                </Text>
+                                            </Pressable>
+                                        </View>
+                                    </View>
+                                ))}
+                            </View>
+                        ) : null}
+
+                        <Pressable
+                            style={[styles.returnOpenBtn, returnableStocks.length === 0 && styles.btnDisabled]}
+                            onPress={openReturn}
+                            disabled={returnableStocks.length === 0}
+                        >
+                            <MaterialCommunityIcons name="keyboard-return" size={18} color={Colors.success} />
+                            <Text style={styles.returnOpenBtnText}>Retur ke Gudang</Text>
+                        </Pressable>
+
                         <View style={styles.searchPanel}>
                             <View style={styles.searchWrap}>
                                 <MaterialCommunityIcons name="magnify" size={24} color={Colors.primary} />
@@ -543,6 +1304,14 @@ export default function StokPage() {
                                     <MaterialCommunityIcons name="pencil-outline" size={18} color="#FFF" />
                                     <Text style={styles.stockAdjustBtnText}>Koreksi</Text>
                                 </Pressable>
+                                <Pressable
+                                    style={({ pressed }) => [styles.stockAdjustBtn, styles.stockTransferBtn, pressed && { opacity: 0.88 }]}
+                                    onPress={() => openTransfer(item)}
+                                    hitSlop={6}
+                                >
+                                    <MaterialCommunityIcons name="swap-horizontal" size={18} color={Colors.info} />
+                                    <Text style={[styles.stockAdjustBtnText, { color: Colors.info }]}>Transfer</Text>
+                                </Pressable>
                             </View>
                         </View>
                     );
@@ -694,6 +1463,229 @@ export default function StokPage() {
                 ) : null}
             </RNModal>
 
+            <RNModal
+                visible={!!transferStock}
+                transparent
+                animationType="slide"
+                onRequestClose={closeTransfer}
+            >
+                {transferStock ? (
+                    <View style={styles.sheetModalContainer}>
+                        <Pressable style={styles.sheetBackdrop} onPress={closeTransfer} />
+                        <View style={[styles.sheetModalCard, { paddingBottom: Math.max(insets.bottom, 10) }]}>
+                            <View style={styles.sheetHandleIndicator} />
+
+                            <View style={styles.sheetBody}>
+                                <View style={styles.modeSwitch}>
+                                    <Pressable
+                                        style={[styles.modeBtn, styles.modeBtnLeft, transferKind === 'offer' && styles.modeBtnActive]}
+                                        onPress={() => setTransferKind('offer')}
+                                    >
+                                        <MaterialCommunityIcons
+                                            name="upload-outline"
+                                            size={18}
+                                            color={transferKind === 'offer' ? '#DDF7F0' : '#E4EAF4'}
+                                        />
+                                        <Text style={[styles.modeBtnText, transferKind === 'offer' && styles.modeBtnTextActive]}>
+                                            Kirim ke Rekan
+                                        </Text>
+                                    </Pressable>
+
+                                    <Pressable
+                                        style={[styles.modeBtn, styles.modeBtnRight, transferKind === 'request' && styles.modeBtnActive]}
+                                        onPress={() => setTransferKind('request')}
+                                    >
+                                        <MaterialCommunityIcons
+                                            name="download-outline"
+                                            size={18}
+                                            color={transferKind === 'request' ? '#DDF7F0' : '#E4EAF4'}
+                                        />
+                                        <Text style={[styles.modeBtnText, transferKind === 'request' && styles.modeBtnTextActive]}>
+                                            Minta dari Rekan
+                                        </Text>
+                                    </Pressable>
+                                </View>
+
+                                <Text style={[styles.sheetPartName, isSmallWebViewport && styles.sheetPartNameCompact]}>{transferStock.part_name}</Text>
+                                <Text style={styles.sheetPartId}>ID: {transferStock.part_id} | Stok Anda: {transferStock.quantity}</Text>
+
+                                <Text style={styles.inputCaption}>Rekan di area yang sama</Text>
+                                <ScrollView style={{ maxHeight: 220 }} contentContainerStyle={styles.peerList}>
+                                    {peersQuery.isLoading ? (
+                                        <Text style={styles.sheetNote}>Memuat rekan...</Text>
+                                    ) : peers.length === 0 ? (
+                                        <Text style={styles.sheetNote}>Tidak ada engineer lain di area Anda.</Text>
+                                    ) : peers.map((peer) => {
+                                        const active = transferPeerId === peer.engineer_id;
+                                        return (
+                                            <Pressable
+                                                key={peer.engineer_id}
+                                                style={[styles.peerRow, active && styles.peerRowActive]}
+                                                onPress={() => setTransferPeerId(peer.engineer_id)}
+                                            >
+                                                <MaterialCommunityIcons
+                                                    name={active ? 'radiobox-marked' : 'radiobox-blank'}
+                                                    size={18}
+                                                    color={active ? Colors.primary : Colors.textMuted}
+                                                />
+                                                <Text style={styles.peerName} numberOfLines={1}>{peer.name}</Text>
+                                                <Text style={styles.peerMeta}>Stok: {peer.quantity}</Text>
+                                            </Pressable>
+                                        );
+                                    })}
+                                </ScrollView>
+
+                                <View style={styles.inputContainer}>
+                                    <MaterialCommunityIcons name="pound" size={28} color="#E7EDF6" />
+                                    <TextInput
+                                        value={transferQty}
+                                        onChangeText={(value) => {
+                                            const next = sanitizeNumber(value);
+                                            setTransferQty(next);
+                                            setTransferSerials((prev) => prev.slice(0, Number(next) || 0));
+                                        }}
+                                        keyboardType="number-pad"
+                                        placeholder="Jumlah"
+                                        placeholderTextColor="#99A2B0"
+                                        style={styles.inputText}
+                                        underlineColorAndroid="transparent"
+                                    />
+                                </View>
+                                {transferKind === 'offer' && isSerialized(transferStock.part_id) ? (
+                                    <View style={styles.serialPickBlock}>
+                                        <Text style={styles.inputCaption}>
+                                            Serial dikirim: {transferSerials.length}/{Number(transferQty) || 0}
+                                        </Text>
+                                        {renderSerialChips(
+                                            transferStock.part_id,
+                                            transferSerials,
+                                            Number(transferQty) || 0,
+                                            (serialNumber) => setTransferSerials((prev) => toggleSerial(prev, serialNumber, Number(transferQty) || 0)),
+                                        )}
+                                    </View>
+                                ) : null}
+                                <View style={styles.inputContainer}>
+                                    <MaterialCommunityIcons name="text-box-edit-outline" size={25} color="#E7EDF6" />
+                                    <TextInput
+                                        value={transferNote}
+                                        onChangeText={setTransferNote}
+                                        placeholder="Catatan (opsional)"
+                                        placeholderTextColor="#99A2B0"
+                                        style={styles.inputText}
+                                        underlineColorAndroid="transparent"
+                                    />
+                                </View>
+                                <Text style={styles.sheetNote}>
+                                    Stok baru berpindah setelah rekan Anda menerima transfer.
+                                </Text>
+
+                                <View style={styles.actionRow}>
+                                    <Pressable style={styles.cancelBtn} onPress={closeTransfer}>
+                                        <Text style={styles.cancelBtnText}>Batal</Text>
+                                    </Pressable>
+                                    <Pressable
+                                        style={[styles.saveBtn, savingTransfer && styles.btnDisabled]}
+                                        onPress={handleCreateTransfer}
+                                        disabled={savingTransfer}
+                                    >
+                                        <MaterialCommunityIcons name="send-outline" size={21} color="#08362E" />
+                                        <Text style={styles.saveBtnText}>{savingTransfer ? 'Mengirim...' : 'Kirim'}</Text>
+                                    </Pressable>
+                                </View>
+                            </View>
+                        </View>
+                    </View>
+                ) : null}
+            </RNModal>
+
+            <RNModal
+                visible={returnOpen}
+                transparent
+                animationType="slide"
+                onRequestClose={closeReturn}
+            >
+                <View style={styles.sheetModalContainer}>
+                    <Pressable style={styles.sheetBackdrop} onPress={closeReturn} />
+                    <View style={[styles.sheetModalCard, { paddingBottom: Math.max(insets.bottom, 10) }]}>
+                        <View style={styles.sheetHandleIndicator} />
+
+                        <View style={styles.sheetBody}>
+                            <Text style={[styles.sheetPartName, isSmallWebViewport && styles.sheetPartNameCompact]}>Retur ke Gudang</Text>
+                            <Text style={styles.sheetPartId}>Pilih part dan jumlah yang dikembalikan.</Text>
+
+                            <ScrollView style={{ maxHeight: 280 }} contentContainerStyle={styles.peerList}>
+                                {returnableStocks.map((item) => {
+                                    const qty = returnQty[item.part_id] || 0;
+                                    const picked = returnSerials[item.part_id] || [];
+                                    return (
+                                        <View key={item.part_id} style={styles.serialPickBlock}>
+                                            <View style={[styles.peerRow, qty > 0 && styles.peerRowActive]}>
+                                                <View style={{ flex: 1 }}>
+                                                    <Text style={styles.peerName} numberOfLines={1}>{item.part_name}</Text>
+                                                    <Text style={styles.peerMeta}>Stok: {item.quantity}</Text>
+                                                </View>
+                                                <IconButton
+                                                    icon="minus"
+                                                    size={16}
+                                                    iconColor={Colors.textSecondary}
+                                                    onPress={() => changeReturnQty(item, -1)}
+                                                    disabled={qty === 0}
+                                                />
+                                                <Text style={styles.returnQtyText}>{qty}</Text>
+                                                <IconButton
+                                                    icon="plus"
+                                                    size={16}
+                                                    iconColor={Colors.primary}
+                                                    onPress={() => changeReturnQty(item, 1)}
+                                                    disabled={qty >= item.quantity}
+                                                />
+                                            </View>
+                                            {qty > 0 && isSerialized(item.part_id) ? (
+                                                <>
+                                                    <Text style={styles.outboxMeta}>Serial diretur: {picked.length}/{qty}</Text>
+                                                    {renderSerialChips(item.part_id, picked, qty, (serialNumber) => toggleReturnSerial(item.part_id, serialNumber))}
+                                                </>
+                                            ) : null}
+                                        </View>
+                                    );
+                                })}
+                            </ScrollView>
+
+                            <View style={styles.inputContainer}>
+                                <MaterialCommunityIcons name="text-box-edit-outline" size={25} color="#E7EDF6" />
+                                <TextInput
+                                    value={returnReason}
+                                    onChangeText={setReturnReason}
+                                    placeholder="Alasan retur (wajib)"
+                                    placeholderTextColor="#99A2B0"
+                                    style={styles.inputText}
+                                    underlineColorAndroid="transparent"
+                                />
+                            </View>
+                            <Text style={styles.sheetNote}>
+                                Stok langsung dipotong saat retur dikirim dan masuk ke gudang setelah admin menerima barang.
+                            </Text>
+
+                            <View style={styles.actionRow}>
+                                <Pressable style={styles.cancelBtn} onPress={closeReturn}>
+                                    <Text style={styles.cancelBtnText}>Batal</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[styles.saveBtn, (savingReturn || returnTotal === 0) && styles.btnDisabled]}
+                                    onPress={handleSubmitReturn}
+                                    disabled={savingReturn || returnTotal === 0}
+                                >
+                                    <MaterialCommunityIcons name="send-outline" size={21} color="#08362E" />
+                                    <Text style={styles.saveBtnText}>
+                                        {savingReturn ? 'Mengirim...' : `Kirim (${returnTotal})`}
+                                    </Text>
+                                </Pressable>
+                            </View>
+                        </View>
+                    </View>
+                </View>
+            </RNModal>
+
             <AppSnackbar visible={!!error} onDismiss={() => setError('')} duration={3000}>
                 {error}
             </AppSnackbar>
@@ -805,6 +1797,110 @@ const styles = StyleSheet.create({
         color: '#7BC8C6',
         fontSize: 11,
     },
+    outboxPanel: {
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: '#5C441E',
+        backgroundColor: '#2A2113',
+        gap: 8,
+    },
+    outboxHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    outboxTitle: {
+        color: Colors.accent,
+        fontSize: 13,
+        fontWeight: '700',
+    },
+    outboxRow: {
+        gap: 4,
+    },
+    outboxPart: {
+        color: Colors.text,
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    outboxMeta: {
+        color: Colors.textMuted,
+        fontSize: 11,
+    },
+    outboxError: {
+        color: Colors.danger,
+        fontSize: 12,
+    },
+    outboxActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 8,
+    },
+    outboxActionBtn: {
+        paddingHorizontal: 10,
+        paddingVertical: 5,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    outboxActionText: {
+        color: Colors.text,
+        fontSize: 12,
+        fontWeight: '700',
+    },
+    transferPanel: {
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: Colors.info + '55',
+        backgroundColor: Colors.info + '14',
+        gap: 8,
+    },
+    transferTitle: {
+        color: Colors.info,
+        fontSize: 13,
+        fontWeight: '700',
+    },
+    returnPanel: {
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: Colors.success + '55',
+        backgroundColor: Colors.success + '14',
+        gap: 8,
+    },
+    returnTitle: {
+        color: Colors.success,
+        fontSize: 13,
+        fontWeight: '700',
+    },
+    returnOpenBtn: {
+        marginTop: 12,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 10,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: Colors.success + '55',
+    },
+    returnOpenBtnText: {
+        color: Colors.success,
+        fontSize: 14,
+        fontWeight: '700',
+    },
+    returnQtyText: {
+        minWidth: 24,
+        textAlign: 'center',
+        color: Colors.text,
+        fontSize: 15,
+        fontWeight: '700',
+    },
     searchPanel: {
         marginTop: 12,
         gap: 10,
@@ -955,6 +2051,46 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         fontSize: 13,
     },
+    stockTransferBtn: {
+        backgroundColor: Colors.info + '1A',
+        borderWidth: 1,
+        borderColor: Colors.info + '55',
+    },
+    peerList: {
+        gap: 6,
+    },
+    peerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: '#1B2430',
+    },
+    serialPickBlock: {
+        gap: 6,
+    },
+    serialChipWrap: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+    },
+    peerRowActive: {
+        borderColor: Colors.primary,
+    },
+    peerName: {
+        flex: 1,
+        color: Colors.text,
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    peerMeta: {
+        color: Colors.textSecondary,
+        fontSize: 12,
+    },
     empty: {
         alignItems: 'center',
         marginTop: 40,
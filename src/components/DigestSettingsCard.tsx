@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { Colors } from '../config/theme';
+import { supabase } from '../config/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { DigestFrequency, DigestTimezone, NotificationDigestSettings } from '../types';
+import {
+    DIGEST_FREQUENCY_META,
+    DIGEST_TIMEZONE_META,
+    DIGEST_WEEKDAY_LABELS,
+    getDefaultDigestTimezone,
+    parseTimeOfDay,
+} from '../utils/notificationDigest';
+
+const FREQUENCIES = Object.keys(DIGEST_FREQUENCY_META) as DigestFrequency[];
+const TIMEZONES = Object.keys(DIGEST_TIMEZONE_META) as DigestTimezone[];
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const fetchDigestSettings = async (userId: string): Promise<NotificationDigestSettings | null> => {
+    const { data, error } = await supabase
+        .from('notification_digest_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (error) throw error;
+    return (data as NotificationDigestSettings | null) ?? null;
+};
+
+export default function DigestSettingsCard() {
+    const { user } = useAuthStore();
+    const [frequency, setFrequency] = useState<DigestFrequency>('off');
+    const [timeInput, setTimeInput] = useState('07:00');
+    const [weekday, setWeekday] = useState(1);
+    const [timezone, setTimezone] = useState<DigestTimezone>(getDefaultDigestTimezone);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const settingsQuery = useQuery({
+        queryKey: ['notificationDigestSettings', user?.id],
+        queryFn: () => fetchDigestSettings(user!.id),
+        enabled: !!user?.id,
+    });
+
+    useEffect(() => {
+        const settings = settingsQuery.data;
+        if (!settings) return;
+        setFrequency(settings.frequency);
+        setTimeInput(settings.send_time.slice(0, 5));
+        setWeekday(settings.weekday);
+        setTimezone(settings.timezone);
+    }, [settingsQuery.data]);
+
+    const save = async () => {
+        if (!user?.id || saving) return;
+        const sendTime = parseTimeOfDay(timeInput);
+        if (!sendTime) {
+            setMessage({ text: 'Format jam tidak valid. Gunakan HH:MM, misalnya 07:30.', isError: true });
+            return;
+        }
+
+        setSaving(true);
+        setMessage(null);
+        try {
+            const { error } = await supabase
+                .from('notification_digest_settings')
+                .upsert({
+                    user_id: user.id,
+                    frequency,
+                    send_time: sendTime,
+                    weekday,
+                    timezone,
+                }, { onConflict: 'user_id' });
+            if (error) throw error;
+
+            setTimeInput(sendTime);
+            setMessage({
+                text: frequency === 'off' ? 'Ringkasan dinonaktifkan.' : 'Pengaturan ringkasan disimpan.',
+                isError: false,
+            });
+            void settingsQuery.refetch();
+        } catch (e: any) {
+            setMessage({ text: e?.message || 'Gagal menyimpan pengaturan ringkasan.', isError: true });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const renderOption = (key: string, label: string, active: boolean, onPress: () => void) => (
+        <Pressable key={key} style={[styles.option, active && styles.optionActive]} onPress={onPress} disabled={saving}>
+            <Text style={[styles.optionText, active && styles.optionTextActive]}>{label}</Text>
+        </Pressable>
+    );
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.header}>
+                <View style={styles.icon}>
+                    <MaterialCommunityIcons name="email-newsletter" size={22} color={Colors.accent} />
+                </View>
+                <View style={{ flex: 1 }}>
+                    <Text style={styles.title}>Ringkasan Notifikasi</Text>
+                    <Text style={styles.desc}>
+                        {user?.role === 'admin'
+                            ? 'Request menunggu review, pengiriman belum dikonfirmasi, dan stok gudang menipis.'
+                            : 'Stok Anda yang menipis dan request yang masih berjalan.'}
+                    </Text>
+                </View>
+                {settingsQuery.isLoading && <ActivityIndicator size="small" color={Colors.textMuted} />}
+            </View>
+
+            <View style={styles.optionRow}>
+                {FREQUENCIES.map((item) => renderOption(item, DIGEST_FREQUENCY_META[item].label, frequency === item, () => setFrequency(item)))}
+            </View>
+
+            {frequency !== 'off' && (
+                <>
+                    {frequency === 'weekly' && (
+                        <View style={styles.optionRow}>
+                            {WEEKDAYS.map((day) => renderOption(String(day), DIGEST_WEEKDAY_LABELS[day], weekday === day, () => setWeekday(day)))}
+                        </View>
+                    )}
+                    <View style={styles.timeRow}>
+                        <Text style={styles.label}>Jam kirim</Text>
+                        <TextInput
+                            value={timeInput}
+                            onChangeText={setTimeInput}
+                            placeholder="07:00"
+                            placeholderTextColor={Colors.textMuted}
+                            style={styles.timeInput}
+                            keyboardType="numbers-and-punctuation"
+                            maxLength={5}
+                            editable={!saving}
+                        />
+                        <View style={styles.optionRow}>
+                            {TIMEZONES.map((zone) => renderOption(zone, DIGEST_TIMEZONE_META[zone].label, timezone === zone, () => setTimezone(zone)))}
+                        </View>
+                    </View>
+                </>
+            )}
+
+            {!!message && (
+                <Text style={[styles.message, { color: message.isError ? Colors.danger : Colors.success }]}>{message.text}</Text>
+            )}
+
+            <Pressable style={[styles.saveBtn, saving && { opacity: 0.6 }]} onPress={() => void save()} disabled={saving || !user?.id}>
+                {saving
+                    ? <ActivityIndicator size="small" color="#FFF" />
+                    : <Text style={styles.saveText}>Simpan</Text>}
+            </Pressable>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.card,
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        gap: 12,
+    },
+    header: { flexDirection: 'row', alignItems: 'center', gap: 14 },
+    icon: {
+        width: 44,
+        height: 44,
+        borderRadius: 12,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: Colors.accent + '20',
+    },
+    title: { fontSize: 15, fontWeight: '600', color: Colors.text },
+    desc: { fontSize: 12, color: Colors.textMuted, marginTop: 2 },
+    optionRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+    option: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    optionActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    optionText: { fontSize: 12, fontWeight: '600', color: Colors.textSecondary },
+    optionTextActive: { color: Colors.primary },
+    timeRow: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 8 },
+    label: { fontSize: 13, color: Colors.textSecondary, fontWeight: '500' },
+    timeInput: {
+        width: 72,
+        height: 34,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.bg,
+        color: Colors.text,
+        fontSize: 13,
+        textAlign: 'center',
+    },
+    message: { fontSize: 12 },
+    saveBtn: {
+        height: 38,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: Colors.primary,
+    },
+    saveText: { fontSize: 13, fontWeight: '700', color: '#FFF' },
+});
@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Switch, TextInput, View } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { Colors } from '../config/theme';
+import { supabase } from '../config/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { DigestTimezone, NotificationChannel, NotificationPreference, NotificationQuietHours } from '../types';
+import { DIGEST_TIMEZONE_META, getDefaultDigestTimezone, parseTimeOfDay } from '../utils/notificationDigest';
+import {
+    ConfigurableNotificationType,
+    NOTIFICATION_CHANNEL_META,
+    NOTIFICATION_TYPE_META,
+} from '../utils/notificationPreferences';
+
+const CHANNELS = Object.keys(NOTIFICATION_CHANNEL_META) as NotificationChannel[];
+const TIMEZONES = Object.keys(DIGEST_TIMEZONE_META) as DigestTimezone[];
+
+const fetchNotificationSettings = async (userId: string) => {
+    const [preferencesRes, quietHoursRes] = await Promise.all([
+        supabase.from('notification_preferences').select('*').eq('user_id', userId),
+        supabase.from('notification_quiet_hours').select('*').eq('user_id', userId).maybeSingle(),
+    ]);
+    if (preferencesRes.error) throw preferencesRes.error;
+    if (quietHoursRes.error) throw quietHoursRes.error;
+    return {
+        preferences: (preferencesRes.data || []) as NotificationPreference[],
+        quietHours: (quietHoursRes.data as NotificationQuietHours | null) ?? null,
+    };
+};
+
+export default function NotificationPreferencesCard() {
+    const { user } = useAuthStore();
+    const [channels, setChannels] = useState<Partial<Record<ConfigurableNotificationType, NotificationChannel>>>({});
+    const [savingType, setSavingType] = useState<ConfigurableNotificationType | null>(null);
+    const [quietEnabled, setQuietEnabled] = useState(false);
+    const [quietStart, setQuietStart] = useState('22:00');
+    const [quietEnd, setQuietEnd] = useState('06:00');
+    const [timezone, setTimezone] = useState<DigestTimezone>(getDefaultDigestTimezone);
+    const [savingQuiet, setSavingQuiet] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const settingsQuery = useQuery({
+        queryKey: ['notificationPreferences', user?.id],
+        queryFn: () => fetchNotificationSettings(user!.id),
+        enabled: !!user?.id,
+    });
+
+    const types = useMemo(
+        () => (Object.keys(NOTIFICATION_TYPE_META) as ConfigurableNotificationType[])
+            .filter((type) => !!user?.role && NOTIFICATION_TYPE_META[type].roles.includes(user.role)),
+        [user?.role],
+    );
+
+    useEffect(() => {
+        const settings = settingsQuery.data;
+        if (!settings) return;
+        setChannels(Object.fromEntries(settings.preferences.map((row) => [row.type, row.channel])));
+        if (settings.quietHours) {
+            setQuietEnabled(settings.quietHours.is_enabled);
+            setQuietStart(settings.quietHours.start_time.slice(0, 5));
+            setQuietEnd(settings.quietHours.end_time.slice(0, 5));
+            setTimezone(settings.quietHours.timezone);
+        }
+    }, [settingsQuery.data]);
+
+    const saveChannel = async (type: ConfigurableNotificationType, channel: NotificationChannel) => {
+        if (!user?.id || savingType) return;
+        const previous = channels[type];
+        setChannels((current) => ({ ...current, [type]: channel }));
+        setSavingType(type);
+        setMessage(null);
+        try {
+            const { error } = await supabase
+                .from('notification_preferences')
+                .upsert({ user_id: user.id, type, channel }, { onConflict: 'user_id,type' });
+            if (error) throw error;
+        } catch (e: any) {
+            setChannels((current) => ({ ...current, [type]: previous }));
+            setMessage({ text: e?.message || 'Gagal menyimpan preferensi notifikasi.', isError: true });
+        } finally {
+            setSavingType(null);
+        }
+    };
+
+    const saveQuietHours = async () => {
+        if (!user?.id || savingQuiet) return;
+        const startTime = parseTimeOfDay(quietStart);
+        const endTime = parseTimeOfDay(quietEnd);
+        if (!startTime || !endTime) {
+            setMessage({ text: 'Format jam tidak valid. Gunakan HH:MM, misalnya 22:00.', isError: true });
+            return;
+        }
+        if (startTime === endTime) {
+            setMessage({ text: 'Jam mulai dan selesai tidak boleh sama.', isError: true });
+            return;
+        }
+
+        setSavingQuiet(true);
+        setMessage(null);
+        try {
+            const { error } = await supabase
+                .from('notification_quiet_hours')
+                .upsert({
+                    user_id: user.id,
+                    is_enabled: quietEnabled,
+                    start_time: startTime,
+                    end_time: endTime,
+                    timezone,
+                }, { onConflict: 'user_id' });
+            if (error) throw error;
+
+            setQuietStart(startTime);
+            setQuietEnd(endTime);
+            setMessage({
+                text: quietEnabled ? `Jam tenang ${startTime} - ${endTime} disimpan.` : 'Jam tenang dinonaktifkan.',
+                isError: false,
+            });
+            void settingsQuery.refetch();
+        } catch (e: any) {
+            setMessage({ text: e?.message || 'Gagal menyimpan jam tenang.', isError: true });
+        } finally {
+            setSavingQuiet(false);
+        }
+    };
+
+    const renderOption = (key: string, label: string, active: boolean, onPress: () => void, disabled: boolean) => (
+        <Pressable key={key} style={[styles.option, active && styles.optionActive]} onPress={onPress} disabled={disabled}>
+            <Text style={[styles.optionText, active && styles.optionTextActive]}>{label}</Text>
+        </Pressable>
+    );
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.header}>
+                <View style={styles.icon}>
+                    <MaterialCommunityIcons name="bell-cog-outline" size={22} color={Colors.primary} />
+                </View>
+                <View style={{ flex: 1 }}>
+                    <Text style={styles.title}>Preferensi Notifikasi</Text>
+                    <Text style={styles.desc}>Pilih saluran per jenis notifikasi: in-app, push, keduanya, atau mati.</Text>
+                </View>
+                {settingsQuery.isLoading && <ActivityIndicator size="small" color={Colors.textMuted} />}
+            </View>
+
+            {types.map((type) => {
+                const current = channels[type] || 'all';
+                return (
+                    <View key={type} style={styles.typeRow}>
+                        <View style={styles.typeLabelRow}>
+                            <Text style={styles.label}>{NOTIFICATION_TYPE_META[type].label}</Text>
+                            {savingType === type && <ActivityIndicator size="small" color={Colors.textMuted} />}
+                        </View>
+                        <View style={styles.optionRow}>
+                            {CHANNELS.map((channel) => renderOption(
+                                channel,
+                                NOTIFICATION_CHANNEL_META[channel].label,
+                                current === channel,
+                                () => void saveChannel(type, channel),
+                                !!savingType,
+                            ))}
+                        </View>
+                    </View>
+                );
+            })}
+
+            <View style={styles.divider} />
+
+            <View style={styles.quietHeader}>
+                <View style={{ flex: 1 }}>
+                    <Text style={styles.label}>Jam Tenang</Text>
+                    <Text style={styles.desc}>Push ditahan di rentang ini; notifikasi tetap masuk ke daftar in-app.</Text>
+                </View>
+                <Switch
+                    value={quietEnabled}
+                    onValueChange={setQuietEnabled}
+                    disabled={savingQuiet}
+                    trackColor={{ true: Colors.primary + '80', false: Colors.border }}
+                    thumbColor={quietEnabled ? Colors.primary : Colors.textMuted}
+                />
+            </View>
+
+            {quietEnabled && (
+                <View style={styles.timeRow}>
+                    <TextInput
+                        value={quietStart}
+                        onChangeText={setQuietStart}
+                        placeholder="22:00"
+                        placeholderTextColor={Colors.textMuted}
+                        style={styles.timeInput}
+                        keyboardType="numbers-and-punctuation"
+                        maxLength={5}
+                        editable={!savingQuiet}
+                    />
+                    <Text style={styles.label}>-</Text>
+                    <TextInput
+                        value={quietEnd}
+                        onChangeText={setQuietEnd}
+                        placeholder="06:00"
+                        placeholderTextColor={Colors.textMuted}
+                        style={styles.timeInput}
+                        keyboardType="numbers-and-punctuation"
+                        maxLength={5}
+                        editable={!savingQuiet}
+                    />
+                    <View style={styles.optionRow}>
+                        {TIMEZONES.map((zone) => renderOption(
+                            zone,
+                            DIGEST_TIMEZONE_META[zone].label,
+                            timezone === zone,
+                            () => setTimezone(zone),
+                            savingQuiet,
+                        ))}
+                    </View>
+                </View>
+            )}
+
+            {!!message && (
+                <Text style={[styles.message, { color: message.isError ? Colors.danger : Colors.success }]}>{message.text}</Text>
+            )}
+
+            <Pressable style={[styles.saveBtn, savingQuiet && { opacity: 0.6 }]} onPress={() => void saveQuietHours()} disabled={savingQuiet || !user?.id}>
+                {savingQuiet
+                    ? <ActivityIndicator size="small" color="#FFF" />
+                    : <Text style={styles.saveText}>Simpan Jam Tenang</Text>}
+            </Pressable>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.card,
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        gap: 12,
+    },
+    header: { flexDirection: 'row', alignItems: 'center', gap: 14 },
+    icon: {
+        width: 44,
+        height: 44,
+        borderRadius: 12,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: Colors.primary + '20',
+    },
+    title: { fontSize: 15, fontWeight: '600', color: Colors.text },
+    desc: { fontSize: 12, color: Colors.textMuted, marginTop: 2 },
+    typeRow: { gap: 6 },
+    typeLabelRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    optionRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+    option: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
+    optionActive: {
+        borderColor: Colors.primary + '55',
+        backgroundColor: Colors.primary + '20',
+    },
+    optionText: { fontSize: 12, fontWeight: '600', color: Colors.textSecondary },
+    optionTextActive: { color: Colors.primary },
+    divider: { height: 1, backgroundColor: Colors.border },
+    quietHeader: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    timeRow: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 8 },
+    label: { fontSize: 13, color: Colors.textSecondary, fontWeight: '500' },
+    timeInput: {
+        width: 72,
+        height: 34,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.bg,
+        color: Colors.text,
+        fontSize: 13,
+        textAlign: 'center',
+    },
+    message: { fontSize: 12 },
+    saveBtn: {
+        height: 38,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: Colors.primary,
+    },
+    saveText: { fontSize: 13, fontWeight: '700', color: '#FFF' },
+});
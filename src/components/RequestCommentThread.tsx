@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { ActivityIndicator, Image, Linking, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import * as ImagePicker from 'expo-image-picker';
+import { Colors } from '../config/theme';
+import { supabase } from '../config/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { useRequestComments } from '../hooks/useRequestComments';
+import { NotificationService } from '../services/NotificationService';
+import { PostRequestCommentResult } from '../types';
+
+const PHOTO_BUCKET = 'request-comment-photos';
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+interface Props {
+    requestId: string;
+}
+
+type PickedPhoto = {
+    uri: string;
+    mimeType: string;
+    extension: string;
+};
+
+function CommentPhoto({ path }: { path: string }) {
+    const urlQuery = useQuery({
+        queryKey: ['requestCommentPhoto', path],
+        queryFn: async () => {
+            const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrl(path, PHOTO_URL_TTL_SECONDS);
+            if (error) throw error;
+            return data.signedUrl;
+        },
+        staleTime: (PHOTO_URL_TTL_SECONDS - 300) * 1000,
+    });
+
+    if (!urlQuery.data) {
+        return (
+            <View style={[styles.photo, styles.photoPlaceholder]}>
+                {urlQuery.error
+                    ? <MaterialCommunityIcons name="image-broken-variant" size={20} color={Colors.textMuted} />
+                    : <ActivityIndicator size="small" color={Colors.textMuted} />}
+            </View>
+        );
+    }
+
+    return (
+        <Pressable onPress={() => void Linking.openURL(urlQuery.data)}>
+            <Image source={{ uri: urlQuery.data }} style={styles.photo} resizeMode="cover" />
+        </Pressable>
+    );
+}
+
+export default function RequestCommentThread({ requestId }: Props) {
+    const { user } = useAuthStore();
+    const commentsQuery = useRequestComments(requestId);
+    const comments = commentsQuery.data || [];
+    const [body, setBody] = useState('');
+    const [photo, setPhoto] = useState<PickedPhoto | null>(null);
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState('');
+
+    const pickPhoto = async () => {
+        setError('');
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes: ['images'],
+            quality: 0.6,
+        });
+        if (result.canceled || result.assets.length === 0) return;
+
+        const asset = result.assets[0];
+        const mimeType = asset.mimeType || 'image/jpeg';
+        const extension = (asset.fileName?.split('.').pop() || mimeType.split('/')[1] || 'jpg').toLowerCase();
+        setPhoto({ uri: asset.uri, mimeType, extension });
+    };
+
+    const send = async () => {
+        if (!user?.id || sending) return;
+        const text = body.trim();
+        if (!text && !photo) return;
+
+        setSending(true);
+        setError('');
+        try {
+            let photoPath: string | null = null;
+            if (photo) {
+                photoPath = `${requestId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${photo.extension}`;
+                const file = await (await fetch(photo.uri)).arrayBuffer();
+                const { error: uploadError } = await supabase.storage
+                    .from(PHOTO_BUCKET)
+                    .upload(photoPath, file, { contentType: photo.mimeType });
+                if (uploadError) throw uploadError;
+            }
+
+            const { data, error: rpcError } = await supabase.rpc('post_request_comment', {
+                p_request_id: requestId,
+                p_body: text,
+                p_photo_path: photoPath,
+            });
+            if (rpcError) throw rpcError;
+
+            const result = data as PostRequestCommentResult | null;
+            if (!result?.ok) {
+                if (result?.code === 'not_found') throw new Error('Request tidak ditemukan.');
+                if (result?.code === 'empty_comment') throw new Error('Tulis komentar atau lampirkan foto.');
+                throw new Error('Foto tidak valid untuk request ini.');
+            }
+
+            setBody('');
+            setPhoto(null);
+            void commentsQuery.refetch();
+
+            const preview = text || 'Mengirim foto.';
+            const notifyData = { request_id: requestId, type: 'comment' };
+            if (user.role === 'admin') {
+                if (result.engineer_id) {
+                    void NotificationService.sendToUser(
+                        result.engineer_id,
+                        'Komentar Baru',
+                        `${user.name}: ${preview}`,
+                        notifyData,
+                    ).catch((e) => console.error('[requestComment] Notification error:', e));
+                }
+            } else {
+                void NotificationService.sendToRole(
+                    'admin',
+                    'Komentar Baru',
+                    `${user.name}: ${preview}`,
+                    notifyData,
+                ).catch((e) => console.error('[requestComment] Notification error:', e));
+            }
+        } catch (e: any) {
+            setError(e?.message || 'Gagal mengirim komentar.');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            {commentsQuery.isLoading ? (
+                <View style={styles.stateRow}>
+                    <ActivityIndicator size="small" color={Colors.primary} />
+                    <Text style={styles.stateText}>Memuat diskusi...</Text>
+                </View>
+            ) : commentsQuery.error ? (
+                <Text style={[styles.stateText, { color: Colors.danger }]}>Gagal memuat diskusi.</Text>
+            ) : comments.length === 0 ? (
+                <Text style={styles.stateText}>Belum ada komentar.</Text>
+            ) : (
+                comments.map((comment) => {
+                    const isMine = comment.author_id === user?.id;
+                    return (
+                        <View key={comment.id} style={[styles.bubble, isMine && styles.bubbleMine]}>
+                            <Text style={styles.author}>
+                                {comment.author_name || 'Pengguna'}
+                                {comment.author_role === 'admin' ? ' (Admin)' : ''}
+                            </Text>
+                            {!!comment.body && <Text style={styles.body}>{comment.body}</Text>}
+                            {!!comment.photo_path && <CommentPhoto path={comment.photo_path} />}
+                            <Text style={styles.time}>
+                                {new Date(comment.created_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                            </Text>
+                        </View>
+                    );
+                })
+            )}
+
+            {photo && (
+                <View style={styles.attachment}>
+                    <Image source={{ uri: photo.uri }} style={styles.attachmentThumb} />
+                    <Text style={styles.attachmentText}>Foto terlampir</Text>
+                    <Pressable onPress={() => setPhoto(null)} hitSlop={8} disabled={sending}>
+                        <MaterialCommunityIcons name="close" size={16} color={Colors.textSecondary} />
+                    </Pressable>
+                </View>
+            )}
+            {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+            <View style={styles.composer}>
+                <Pressable style={styles.iconBtn} onPress={() => void pickPhoto()} disabled={sending}>
+                    <MaterialCommunityIcons name="image-plus" size={20} color={Colors.textSecondary} />
+                </Pressable>
+                <TextInput
+                    value={body}
+                    onChangeText={setBody}
+                    placeholder="Tulis komentar..."
+                    placeholderTextColor={Colors.textMuted}
+                    style={styles.input}
+                    multiline
+                    editable={!sending}
+                />
+                <Pressable
+                    style={[styles.iconBtn, styles.sendBtn, (sending || (!body.trim() && !photo)) && { opacity: 0.5 }]}
+                    onPress={() => void send()}
+                    disabled={sending || (!body.trim() && !photo)}
+                >
+                    {sending
+                        ? <ActivityIndicator size="small" color="#FFF" />
+                        : <MaterialCommunityIcons name="send" size={18} color="#FFF" />}
+                </Pressable>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: 8,
+    },
+    bubble: {
+        alignSelf: 'flex-start',
+        maxWidth: '90%',
+        padding: 8,
+        borderRadius: 10,
+        backgroundColor: Colors.surface,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        gap: 4,
+    },
+    bubbleMine: {
+        alignSelf: 'flex-end',
+        backgroundColor: Colors.primary + '18',
+        borderColor: Colors.primary + '40',
+    },
+    author: {
+        fontSize: 11,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    body: {
+        fontSize: 13,
+        color: Colors.text,
+    },
+    time: {
+        fontSize: 10,
+        color: Colors.textMuted,
+        alignSelf: 'flex-end',
+    },
+    photo: {
+        width: 160,
+        height: 120,
+        borderRadius: 8,
+    },
+    photoPlaceholder: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: Colors.bg,
+    },
+    attachment: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    attachmentThumb: {
+        width: 36,
+        height: 36,
+        borderRadius: 6,
+    },
+    attachmentText: {
+        flex: 1,
+        fontSize: 12,
+        color: Colors.textSecondary,
+    },
+    composer: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        gap: 6,
+    },
+    input: {
+        flex: 1,
+        minHeight: 38,
+        maxHeight: 96,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.bg,
+        color: Colors.text,
+        fontSize: 13,
+    },
+    iconBtn: {
+        width: 38,
+        height: 38,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: Colors.surface,
+    },
+    sendBtn: {
+        backgroundColor: Colors.primary,
+    },
+    errorText: {
+        fontSize: 12,
+        color: Colors.danger,
+    },
+    stateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 4,
+    },
+    stateText: {
+        fontSize: 12,
+        color: Colors.textMuted,
+    },
+});
@@ -0,0 +1,113 @@
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { Colors } from '../config/theme';
+import { useRequestStatusHistory } from '../hooks/useRequestStatusHistory';
+import { REQUEST_STATUS_META } from '../utils/requestStatus';
+
+interface Props {
+    requestId: string;
+}
+
+export default function RequestStatusTimeline({ requestId }: Props) {
+    const historyQuery = useRequestStatusHistory(requestId);
+    const entries = historyQuery.data || [];
+
+    if (historyQuery.isLoading) {
+        return (
+            <View style={styles.stateRow}>
+                <ActivityIndicator size="small" color={Colors.primary} />
+                <Text style={styles.stateText}>Memuat riwayat status...</Text>
+            </View>
+        );
+    }
+
+    if (historyQuery.error) {
+        return <Text style={[styles.stateText, { color: Colors.danger }]}>Gagal memuat riwayat status.</Text>;
+    }
+
+    if (entries.length === 0) {
+        return <Text style={styles.stateText}>Belum ada riwayat status.</Text>;
+    }
+
+    return (
+        <View style={styles.container}>
+            {entries.map((entry, index) => {
+                const meta = REQUEST_STATUS_META[entry.to_status];
+                const color = meta?.color || Colors.textSecondary;
+                const isLast = index === entries.length - 1;
+                return (
+                    <View key={entry.id} style={styles.row}>
+                        <View style={styles.rail}>
+                            <View style={[styles.dot, { backgroundColor: color }]} />
+                            {!isLast && <View style={styles.line} />}
+                        </View>
+                        <View style={styles.body}>
+                            <Text style={[styles.status, { color }]}>
+                                {entry.from_status
+                                    ? `${REQUEST_STATUS_META[entry.from_status]?.label || entry.from_status} → ${meta?.label || entry.to_status}`
+                                    : `Dibuat (${meta?.label || entry.to_status})`}
+                            </Text>
+                            <Text style={styles.meta}>
+                                {new Date(entry.created_at).toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })} | {entry.actor_name || 'Sistem'}
+                            </Text>
+                            {!!entry.note && <Text style={styles.note}>{entry.note}</Text>}
+                        </View>
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        paddingTop: 4,
+    },
+    row: {
+        flexDirection: 'row',
+    },
+    rail: {
+        width: 16,
+        alignItems: 'center',
+    },
+    dot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+        marginTop: 4,
+    },
+    line: {
+        flex: 1,
+        width: 2,
+        backgroundColor: Colors.border,
+        marginVertical: 2,
+    },
+    body: {
+        flex: 1,
+        paddingLeft: 8,
+        paddingBottom: 12,
+    },
+    status: {
+        fontSize: 13,
+        fontWeight: '700',
+    },
+    meta: {
+        fontSize: 11,
+        color: Colors.textMuted,
+        marginTop: 2,
+    },
+    note: {
+        fontSize: 12,
+        color: Colors.textSecondary,
+        marginTop: 4,
+    },
+    stateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 4,
+    },
+    stateText: {
+        fontSize: 12,
+        color: Colors.textMuted,
+    },
+});
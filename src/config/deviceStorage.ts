@@ -0,0 +1,58 @@
+import * as SecureStore from 'expo-secure-store';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+
+type DeviceStorage = {
+    getItem: (key: string) => string | null | Promise<string | null>;
+    setItem: (key: string, val: string) => void | Promise<void>;
+    removeItem: (key: string) => void | Promise<void>;
+};
+
+const webStorage: DeviceStorage = {
+    getItem: (key: string) => {
+        const val = localStorage.getItem(key);
+        return val;
+    },
+    setItem: (key: string, val: string) => {
+        localStorage.setItem(key, val);
+    },
+    removeItem: (key: string) => {
+        localStorage.removeItem(key);
+    },
+};
+
+const nativeStorage: DeviceStorage = {
+    getItem: (key: string) => SecureStore.getItemAsync(key),
+    setItem: (key: string, val: string) => SecureStore.setItemAsync(key, val),
+    removeItem: (key: string) => SecureStore.deleteItemAsync(key),
+};
+
+const documentFile = (key: string) => new File(Paths.document, `${key}.json`);
+
+const nativeFileStorage: DeviceStorage = {
+    getItem: async (key: string) => {
+        const file = documentFile(key);
+        return file.exists ? file.text() : null;
+    },
+    setItem: (key: string, val: string) => {
+        const file = documentFile(key);
+        if (!file.exists) file.create();
+        file.write(val);
+    },
+    removeItem: (key: string) => {
+        const file = documentFile(key);
+        if (file.exists) file.delete();
+    },
+};
+
+/**
+ * Key-value storage persisted on the device: localStorage on web, SecureStore on native.
+ * Keys must only contain alphanumerics, ".", "-" and "_" (SecureStore restriction).
+ */
+export const deviceStorage = Platform.OS === 'web' ? webStorage : nativeStorage;
+
+/**
+ * Same interface for values that can outgrow SecureStore's 2048-byte limit: localStorage on
+ * web, one file per key in the app's document directory on native. Not encrypted.
+ */
+export const deviceFileStorage = Platform.OS === 'web' ? webStorage : nativeFileStorage;
@@ -1,6 +1,7 @@
 import { LogLevel, OneSignal } from 'react-native-onesignal';
 import { Platform } from 'react-native';
 import { supabase } from './supabase';
+import { NotificationType } from '../types';
 
 // Replace with your OneSignal App ID
 const ONESIGNAL_APP_ID = 'e71e2327-736b-4a58-a55f-c3d4f7358018';
@@ -356,6 +357,7 @@ interface NotificationPayload {
     target_channel?: 'push';
     included_segments?: string[];
     data?: unknown;
+    notification_type?: NotificationType;
 }
 
 const parseJsonSafe = (text: string) => {
@@ -371,7 +373,8 @@ export const sendNotification = async (
     title: string,
     body: string,
     target: { externalIds?: string[]; playerIds?: string[]; segments?: string[] },
-    data?: unknown
+    data?: unknown,
+    notificationType: NotificationType = 'system'
 ) => {
     if (PUSH_GATEWAY_URLS.length === 0) {
         throw new Error('Push gateway belum dikonfigurasi. Set EXPO_PUBLIC_PUSH_GATEWAY_URL terlebih dulu.');
@@ -382,6 +385,7 @@ export const sendNotification = async (
         body,
         appId: ONESIGNAL_APP_ID,
         data,
+        notification_type: notificationType,
     };
 
     if (target.externalIds && target.externalIds.length > 0) {
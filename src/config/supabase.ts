@@ -1,6 +1,6 @@
 import { createClient, processLock } from '@supabase/supabase-js';
-import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
+import { deviceStorage } from './deviceStorage';
 
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL ?? '';
 const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ?? '';
@@ -12,25 +12,6 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
     );
 }
 
-const webStorage = {
-    getItem: (key: string) => {
-        const val = localStorage.getItem(key);
-        return val;
-    },
-    setItem: (key: string, val: string) => {
-        localStorage.setItem(key, val);
-    },
-    removeItem: (key: string) => {
-        localStorage.removeItem(key);
-    },
-};
-
-const nativeStorage = {
-    getItem: (key: string) => SecureStore.getItemAsync(key),
-    setItem: (key: string, val: string) => SecureStore.setItemAsync(key, val),
-    removeItem: (key: string) => SecureStore.deleteItemAsync(key),
-};
-
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 const retryingFetch: typeof fetch = async (input, init) => {
@@ -59,7 +40,7 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
         fetch: retryingFetch,
     },
     auth: {
-        storage: Platform.OS === 'web' ? webStorage : nativeStorage,
+        storage: deviceStorage,
         autoRefreshToken: true,
         persistSession: true,
         detectSessionInUrl: Platform.OS === 'web', // Must be true on web for password reset/email confirm links
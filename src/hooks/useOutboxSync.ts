@@ -0,0 +1,59 @@
+import { useCallback, useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import { useOutboxStore } from '../stores/outboxStore';
+
+type UseOutboxSyncOptions = {
+    enabled?: boolean;
+    intervalMs?: number;
+};
+
+/**
+ * Loads the persisted outbox for the signed-in engineer and replays pending entries
+ * on mount, when the app returns to foreground, when the browser comes back online,
+ * and periodically while anything is still pending.
+ */
+export function useOutboxSync(userId: string | null | undefined, options: UseOutboxSyncOptions = {}) {
+    const { enabled = true, intervalMs = 30000 } = options;
+    const hydrate = useOutboxStore((state) => state.hydrate);
+    const replay = useOutboxStore((state) => state.replay);
+    const hasPending = useOutboxStore((state) => state.entries.some((entry) => entry.status === 'pending'));
+    // Background runs have no screen to report to; a failed persist leaves the entry queued for the next run.
+    const replaySafely = useCallback(() => {
+        void replay().catch((error) => console.error('[outbox] Replay failed:', error));
+    }, [replay]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        void hydrate(userId ?? null).then(() => {
+            if (userId) replaySafely();
+        });
+    }, [enabled, hydrate, replaySafely, userId]);
+
+    useEffect(() => {
+        if (!enabled || !userId) return;
+
+        const run = replaySafely;
+
+        const appStateSubscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') run();
+        });
+
+        const listensOnline = Platform.OS === 'web' && typeof window !== 'undefined';
+        if (listensOnline) {
+            window.addEventListener('online', run);
+        }
+
+        return () => {
+            appStateSubscription.remove();
+            if (listensOnline) {
+                window.removeEventListener('online', run);
+            }
+        };
+    }, [enabled, replaySafely, userId]);
+
+    useEffect(() => {
+        if (!enabled || !userId || !hasPending) return;
+        const intervalId = setInterval(replaySafely, intervalMs);
+        return () => clearInterval(intervalId);
+    }, [enabled, hasPending, intervalMs, replaySafely, userId]);
+}
@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../config/supabase';
+import { RequestComment } from '../types';
+import { useSupabaseRealtimeRefresh } from './useSupabaseRealtimeRefresh';
+
+const fetchRequestComments = async (requestId: string): Promise<RequestComment[]> => {
+    const { data, error } = await supabase
+        .from('request_comments')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as RequestComment[];
+};
+
+/**
+ * Hook to fetch the comment thread of one request, oldest first.
+ */
+export function useRequestComments(requestId: string) {
+    const commentsQuery = useQuery({
+        queryKey: ['requestComments', requestId],
+        queryFn: () => fetchRequestComments(requestId),
+        enabled: !!requestId,
+    });
+
+    useSupabaseRealtimeRefresh(
+        ['request_comments'],
+        () => {
+            void commentsQuery.refetch();
+        },
+        { enabled: !!requestId },
+    );
+
+    return commentsQuery;
+}
@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../config/supabase';
+import { RequestStatusHistoryEntry } from '../types';
+import { useSupabaseRealtimeRefresh } from './useSupabaseRealtimeRefresh';
+
+const fetchRequestStatusHistory = async (requestId: string): Promise<RequestStatusHistoryEntry[]> => {
+    const { data, error } = await supabase
+        .from('request_status_history')
+        .select('*')
+        .eq('request_id', requestId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as RequestStatusHistoryEntry[];
+};
+
+/**
+ * Hook to fetch the status transitions of one request, oldest first.
+ */
+export function useRequestStatusHistory(requestId: string) {
+    const historyQuery = useQuery({
+        queryKey: ['requestStatusHistory', requestId],
+        queryFn: () => fetchRequestStatusHistory(requestId),
+        enabled: !!requestId,
+    });
+
+    useSupabaseRealtimeRefresh(
+        ['request_status_history'],
+        () => {
+            void historyQuery.refetch();
+        },
+        { enabled: !!requestId },
+    );
+
+    return historyQuery;
+}
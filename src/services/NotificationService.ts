@@ -1,5 +1,7 @@
 import { supabase } from '../config/supabase';
 import { sendNotification } from '../config/onesignal';
+import { NotificationType } from '../types';
+import { resolveNotificationType } from '../utils/notificationPreferences';
 
 export const NotificationService = {
     /**
@@ -56,9 +58,9 @@ export const NotificationService = {
         if (target === 'all') {
             if (userIds.length === 0) return null;
             // Avoid dependency on OneSignal dashboard segment names.
-            return await dispatchNotification(userIds, title, body, { externalIds: userIds }, undefined, 'broadcast');
+            return await dispatchNotification(userIds, title, body, { externalIds: userIds }, { type: 'broadcast' }, 'broadcast');
         } else {
-            return await NotificationService.sendToRole(target, title, body);
+            return await NotificationService.sendToRole(target, title, body, { type: 'broadcast' });
         }
     },
 
@@ -79,9 +81,12 @@ async function dispatchNotification(
     data?: any,
     source: string = 'notification'
 ) {
+    // data.type picks the notification type; recipients' preferences for it are applied
+    // server-side (notifications insert trigger and push-gateway).
+    const type = resolveNotificationType(data);
     const [logResult, pushResult] = await Promise.allSettled([
-        logNotification(userIds, title, body, data),
-        sendNotification(title, body, pushTarget, data),
+        logNotification(userIds, title, body, type, data),
+        sendNotification(title, body, pushTarget, data, type),
     ]);
 
     if (logResult.status === 'rejected') {
@@ -99,14 +104,14 @@ async function dispatchNotification(
  * Optional: Log notifications to a Supabase table 'notifications' if it exists.
  * If not, this will fail silently/log error but not stop execution.
  */
-async function logNotification(userIds: string[], title: string, body: string, data?: any) {
+async function logNotification(userIds: string[], title: string, body: string, type: NotificationType, data?: any) {
     const rows = userIds.map(uid => ({
         user_id: uid,
         title,
         body,
         data: data || {},
         is_read: false,
-        type: 'system'
+        type
     }));
 
     const { error } = await supabase.from('notifications').insert(rows);
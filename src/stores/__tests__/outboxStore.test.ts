@@ -0,0 +1,178 @@
+import { OutboxPayload } from '../../types';
+
+const mockRpc = jest.fn();
+const mockSendToRole = jest.fn();
+const mockFiles = new Map<string, string>();
+
+jest.mock('../../config/supabase', () => ({
+    supabase: { rpc: (...args: unknown[]) => mockRpc(...args) },
+}));
+
+jest.mock('../../config/deviceStorage', () => {
+    const storage = {
+        getItem: (key: string) => mockFiles.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            mockFiles.set(key, value);
+        },
+        removeItem: (key: string) => {
+            mockFiles.delete(key);
+        },
+    };
+    return { deviceStorage: storage, deviceFileStorage: storage };
+});
+
+jest.mock('../../services/NotificationService', () => ({
+    NotificationService: { sendToRole: (...args: unknown[]) => mockSendToRole(...args) },
+}));
+
+import { isNetworkError, useOutboxStore } from '../outboxStore';
+
+const USER_ID = 'engineer-1';
+
+const correction: OutboxPayload = {
+    kind: 'stock_correction',
+    partId: 'PART-A',
+    partName: 'LoopSheet',
+    previousQuantity: 5,
+    newQuantity: 2,
+    reason: 'Hilang',
+    engineerName: 'Budi',
+};
+
+const usageReport: OutboxPayload = {
+    kind: 'usage_report',
+    soNumber: 'SO-1',
+    description: null,
+    items: [{ partId: 'PART-A', quantity: 1 }],
+};
+
+const resetStore = async () => {
+    mockFiles.clear();
+    useOutboxStore.setState({ userId: null, entries: [], hydrated: false, syncing: false });
+    await useOutboxStore.getState().hydrate(USER_ID);
+};
+
+beforeEach(async () => {
+    mockRpc.mockReset();
+    mockSendToRole.mockReset();
+    mockSendToRole.mockResolvedValue(undefined);
+    await resetStore();
+});
+
+describe('isNetworkError', () => {
+    it('recognizes failures that never reached the server', () => {
+        expect(isNetworkError(new Error('TypeError: Failed to fetch'))).toBe(true);
+        expect(isNetworkError({ message: 'Network request failed' })).toBe(true);
+        expect(isNetworkError('Request timed out')).toBe(true);
+    });
+
+    it('does not treat server errors as offline', () => {
+        expect(isNetworkError(new Error('permission denied for table engineer_stock'))).toBe(false);
+        expect(isNetworkError(null)).toBe(false);
+    });
+});
+
+describe('outbox replay', () => {
+    it('persists queued entries for the user', async () => {
+        const entry = await useOutboxStore.getState().enqueue(usageReport, 'ref-1');
+
+        expect(entry).toMatchObject({ id: 'ref-1', status: 'pending', attempts: 0 });
+        expect(JSON.parse(mockFiles.get(`babypart_outbox_${USER_ID}`) || '[]')).toHaveLength(1);
+    });
+
+    it('sends entries oldest first with their id as client ref, and drops them once sent', async () => {
+        await useOutboxStore.getState().enqueue(usageReport, 'ref-report');
+        await useOutboxStore.getState().enqueue(correction, 'ref-correction');
+        useOutboxStore.setState({
+            entries: useOutboxStore.getState().entries.map((entry) => ({
+                ...entry,
+                createdAt: entry.id === 'ref-correction' ? '2026-10-01T00:00:00.000Z' : '2026-10-02T00:00:00.000Z',
+            })),
+        });
+        mockRpc.mockResolvedValue({ data: { ok: true, code: 'applied' }, error: null });
+
+        const result = await useOutboxStore.getState().replay();
+
+        expect(result).toEqual({ sent: 2, awaitingApproval: 0, conflicts: 0 });
+        expect(mockRpc.mock.calls.map(([name, params]) => [name, params.p_client_ref])).toEqual([
+            ['submit_stock_correction', 'ref-correction'],
+            ['submit_usage_report', 'ref-report'],
+        ]);
+        expect(useOutboxStore.getState().entries).toEqual([]);
+        expect(mockFiles.has(`babypart_outbox_${USER_ID}`)).toBe(false);
+    });
+
+    it('keeps the entry and stops at the first network failure', async () => {
+        await useOutboxStore.getState().enqueue(usageReport, 'ref-1');
+        await useOutboxStore.getState().enqueue(usageReport, 'ref-2');
+        mockRpc.mockRejectedValue(new Error('Network request failed'));
+
+        const result = await useOutboxStore.getState().replay();
+
+        expect(result).toEqual({ sent: 0, awaitingApproval: 0, conflicts: 0 });
+        expect(mockRpc).toHaveBeenCalledTimes(1);
+        const entries = useOutboxStore.getState().entries;
+        expect(entries.map((entry) => [entry.status, entry.attempts])).toEqual([['pending', 1], ['pending', 0]]);
+    });
+
+    it('marks insufficient stock as a conflict with the shortages', async () => {
+        await useOutboxStore.getState().enqueue(usageReport, 'ref-1');
+        const shortages = [{ partId: 'PART-A', partName: 'LoopSheet', required: 1, available: 0 }];
+        mockRpc.mockResolvedValue({ data: { ok: false, code: 'insufficient_stock', shortages }, error: null });
+
+        const result = await useOutboxStore.getState().replay();
+
+        expect(result.conflicts).toBe(1);
+        expect(useOutboxStore.getState().entries[0]).toMatchObject({
+            status: 'conflict',
+            attempts: 1,
+            lastError: 'Stok tidak cukup saat sinkron.',
+            shortages,
+        });
+    });
+
+    it('keeps the current quantity of a stale correction and can force it on retry', async () => {
+        await useOutboxStore.getState().enqueue(correction, 'ref-1');
+        mockRpc.mockResolvedValueOnce({ data: { ok: false, code: 'stale_quantity', current_quantity: 4 }, error: null });
+
+        await useOutboxStore.getState().replay();
+
+        expect(useOutboxStore.getState().entries[0]).toMatchObject({ status: 'conflict', currentQuantity: 4 });
+        expect(mockRpc.mock.calls[0][1].p_expected_quantity).toBe(5);
+
+        mockRpc.mockResolvedValueOnce({ data: { ok: true, code: 'applied' }, error: null });
+        await useOutboxStore.getState().retry('ref-1', { force: true });
+
+        expect(mockRpc.mock.calls[1][1].p_expected_quantity).toBeNull();
+        expect(useOutboxStore.getState().entries).toEqual([]);
+    });
+
+    it('notifies admins and leaves the queue when a correction needs approval', async () => {
+        await useOutboxStore.getState().enqueue(correction, 'ref-1');
+        mockRpc.mockResolvedValue({
+            data: { ok: true, code: 'pending_approval', correction_id: 'correction-1' },
+            error: null,
+        });
+
+        const result = await useOutboxStore.getState().replay();
+
+        expect(result).toEqual({ sent: 0, awaitingApproval: 1, conflicts: 0 });
+        expect(useOutboxStore.getState().entries).toEqual([]);
+        expect(mockSendToRole).toHaveBeenCalledWith(
+            'admin',
+            'Koreksi Stok Perlu Persetujuan',
+            'Budi mengoreksi LoopSheet: 5 → 2.',
+            { correction_id: 'correction-1', type: 'stock_correction' },
+        );
+    });
+
+    it('rejects serialized corrections as a conflict', async () => {
+        await useOutboxStore.getState().enqueue(correction, 'ref-1');
+        mockRpc.mockResolvedValue({ data: { ok: false, code: 'serialized_part' }, error: null });
+
+        await useOutboxStore.getState().replay();
+
+        expect(useOutboxStore.getState().entries[0].status).toBe('conflict');
+        expect(mockSendToRole).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,300 @@
+import { create } from 'zustand';
+import { supabase } from '../config/supabase';
+import { deviceFileStorage, deviceStorage } from '../config/deviceStorage';
+import { NotificationService } from '../services/NotificationService';
+import {
+    OutboxEntry,
+    OutboxPayload,
+    SubmitStockCorrectionResult,
+    SubmitUsageReportResult,
+} from '../types';
+
+const OUTBOX_STORAGE_PREFIX = 'babypart_outbox_';
+
+type ReplayOutcome =
+    | { status: 'sent' }
+    | { status: 'awaiting_approval' }
+    | { status: 'offline'; message: string }
+    | { status: 'conflict'; message: string; patch?: Partial<OutboxEntry> };
+
+export const createClientRef = () => (
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 6)}`
+);
+
+/**
+ * True when the call failed before reaching Supabase (no signal, DNS, timeout),
+ * i.e. the request can be queued and replayed later without side effects.
+ */
+export const isNetworkError = (error: unknown) => {
+    const message =
+        error instanceof Error
+            ? error.message
+            : typeof error === 'object' && error && 'message' in error
+                ? String((error as { message?: unknown }).message || '')
+                : typeof error === 'string'
+                    ? error
+                    : '';
+
+    const normalized = message.toLowerCase();
+    return (
+        normalized.includes('failed to fetch') ||
+        normalized.includes('network request failed') ||
+        normalized.includes('networkerror') ||
+        normalized.includes('load failed') ||
+        normalized.includes('aborterror') ||
+        normalized.includes('timeout') ||
+        normalized.includes('timed out')
+    );
+};
+
+const storageKey = (userId: string) => `${OUTBOX_STORAGE_PREFIX}${userId.replace(/[^a-zA-Z0-9._-]/g, '')}`;
+
+// Entries used to live in SecureStore; move them over to the file storage on first read.
+const readLegacyEntries = async (key: string) => {
+    if (deviceFileStorage === deviceStorage) return null;
+    const raw = await deviceStorage.getItem(key);
+    if (!raw) return null;
+    await deviceFileStorage.setItem(key, raw);
+    await deviceStorage.removeItem(key);
+    return raw;
+};
+
+const readEntries = async (userId: string): Promise<OutboxEntry[]> => {
+    try {
+        const key = storageKey(userId);
+        const raw = (await deviceFileStorage.getItem(key)) ?? (await readLegacyEntries(key));
+        if (!raw) return [];
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+    } catch (error) {
+        console.warn('[outbox] Failed to read persisted entries:', error);
+        return [];
+    }
+};
+
+/** Rejects when the entries could not be stored, so callers never report a queued entry that is lost. */
+const writeEntries = async (userId: string, entries: OutboxEntry[]) => {
+    if (entries.length === 0) {
+        await deviceFileStorage.removeItem(storageKey(userId));
+        return;
+    }
+    await deviceFileStorage.setItem(storageKey(userId), JSON.stringify(entries));
+};
+
+const sendEntry = async (entry: OutboxEntry): Promise<ReplayOutcome> => {
+    const { payload } = entry;
+
+    try {
+        if (payload.kind === 'usage_report') {
+            const { data, error } = await supabase.rpc('submit_usage_report', {
+                p_so_number: payload.soNumber,
+                p_description: payload.description,
+                p_items: payload.items,
+                p_client_ref: entry.id,
+            });
+            if (error) throw error;
+
+            const result = data as SubmitUsageReportResult | null;
+            if (result?.ok) return { status: 'sent' };
+            if (result?.code === 'insufficient_stock') {
+                return {
+                    status: 'conflict',
+                    message: 'Stok tidak cukup saat sinkron.',
+                    patch: { shortages: result.shortages || [] },
+                };
+            }
+            if (result?.code === 'invalid_so_number') {
+                return { status: 'conflict', message: 'Nomor SO / Tiket tidak valid.' };
+            }
+            if (result?.code === 'serials_required') {
+                return { status: 'conflict', message: 'Serial number sudah tidak dipegang. Ubah laporan lalu pilih ulang serial.' };
+            }
+            return { status: 'conflict', message: 'Laporan tidak memiliki item.' };
+        }
+
+        const { data, error } = await supabase.rpc('submit_stock_correction', {
+            p_part_id: payload.partId,
+            p_new_quantity: payload.newQuantity,
+            p_reason: payload.reason,
+            p_expected_quantity: payload.force ? null : payload.previousQuantity,
+            p_client_ref: entry.id,
+        });
+        if (error) throw error;
+
+        const result = data as SubmitStockCorrectionResult | null;
+        // Over the thresholds the correction becomes a request for the admin; it leaves the queue
+        // and shows up with the engineer's pending corrections. A duplicate of such a request
+        // comes back with its correction_id, so a lost first response still notifies the admin.
+        if (result?.ok && result.correction_id) {
+            void NotificationService.sendToRole(
+                'admin',
+                'Koreksi Stok Perlu Persetujuan',
+                `${payload.engineerName || 'Engineer'} mengoreksi ${payload.partName}: ${payload.previousQuantity} → ${payload.newQuantity}.`,
+                { correction_id: result.correction_id, type: 'stock_correction' },
+            ).catch((e) => console.error('[outbox.replay] Notification error:', e));
+            return { status: 'awaiting_approval' };
+        }
+        if (result?.ok) return { status: 'sent' };
+        if (result?.code === 'stale_quantity') {
+            return {
+                status: 'conflict',
+                message: `Stok berubah sejak koreksi dibuat (sekarang ${result.current_quantity ?? 0}).`,
+                patch: { currentQuantity: result.current_quantity ?? null },
+            };
+        }
+        if (result?.code === 'pending_exists') {
+            return { status: 'conflict', message: 'Masih ada koreksi part ini yang menunggu persetujuan admin.' };
+        }
+        if (result?.code === 'serialized_part') {
+            return { status: 'conflict', message: 'Part serialized tidak bisa dikoreksi langsung. Gunakan retur atau laporan part cacat.' };
+        }
+        return { status: 'conflict', message: 'Koreksi stok tidak valid.' };
+    } catch (error) {
+        if (isNetworkError(error)) {
+            return { status: 'offline', message: error instanceof Error ? error.message : 'Offline' };
+        }
+        const message = error instanceof Error ? error.message : 'Gagal sinkron.';
+        return { status: 'conflict', message };
+    }
+};
+
+interface OutboxState {
+    userId: string | null;
+    entries: OutboxEntry[];
+    hydrated: boolean;
+    syncing: boolean;
+    hydrate: (userId: string | null) => Promise<void>;
+    enqueue: (payload: OutboxPayload, clientRef?: string) => Promise<OutboxEntry | null>;
+    replay: () => Promise<{ sent: number; awaitingApproval: number; conflicts: number }>;
+    retry: (id: string, options?: { force?: boolean }) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+let replayPromise: Promise<{ sent: number; awaitingApproval: number; conflicts: number }> | null = null;
+
+export const useOutboxStore = create<OutboxState>((set, get) => {
+    // Persist first: on failure the in-memory queue stays as it was and the caller gets the error.
+    const commit = async (entries: OutboxEntry[]) => {
+        const userId = get().userId;
+        if (userId) await writeEntries(userId, entries);
+        set({ entries });
+    };
+
+    return {
+        userId: null,
+        entries: [],
+        hydrated: false,
+        syncing: false,
+
+        hydrate: async (userId) => {
+            if (!userId) {
+                set({ userId: null, entries: [], hydrated: false });
+                return;
+            }
+            if (get().userId === userId && get().hydrated) return;
+
+            set({ userId, entries: [], hydrated: false });
+            const entries = await readEntries(userId);
+            if (get().userId !== userId) return;
+            set({ entries, hydrated: true });
+        },
+
+        enqueue: async (payload, clientRef) => {
+            const userId = get().userId;
+            if (!userId) return null;
+
+            const entry: OutboxEntry = {
+                id: clientRef || createClientRef(),
+                userId,
+                createdAt: new Date().toISOString(),
+                status: 'pending',
+                attempts: 0,
+                lastError: null,
+                payload,
+            };
+            const existing = get().entries.filter((item) => item.id !== entry.id);
+            await commit([...existing, entry]);
+            return entry;
+        },
+
+        replay: async () => {
+            if (replayPromise) return replayPromise;
+
+            replayPromise = (async () => {
+                let sent = 0;
+                let awaitingApproval = 0;
+                let conflicts = 0;
+                set({ syncing: true });
+
+                try {
+                    // Oldest first, so a correction queued before a usage report is applied before it.
+                    const queue = get().entries
+                        .filter((entry) => entry.status === 'pending')
+                        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+                    for (const entry of queue) {
+                        const outcome = await sendEntry(entry);
+                        if (outcome.status === 'offline') {
+                            await commit(get().entries.map((item) => (
+                                item.id === entry.id
+                                    ? { ...item, attempts: item.attempts + 1, lastError: outcome.message }
+                                    : item
+                            )));
+                            break;
+                        }
+
+                        if (outcome.status === 'sent' || outcome.status === 'awaiting_approval') {
+                            if (outcome.status === 'sent') sent += 1;
+                            else awaitingApproval += 1;
+                            await commit(get().entries.filter((item) => item.id !== entry.id));
+                            continue;
+                        }
+
+                        conflicts += 1;
+                        await commit(get().entries.map((item) => (
+                            item.id === entry.id
+                                ? {
+                                    ...item,
+                                    ...outcome.patch,
+                                    status: 'conflict',
+                                    attempts: item.attempts + 1,
+                                    lastError: outcome.message,
+                                }
+                                : item
+                        )));
+                    }
+                } finally {
+                    set({ syncing: false });
+                }
+
+                return { sent, awaitingApproval, conflicts };
+            })().finally(() => {
+                replayPromise = null;
+            });
+
+            return replayPromise;
+        },
+
+        retry: async (id, options) => {
+            await commit(get().entries.map((item) => {
+                if (item.id !== id) return item;
+                const payload = item.payload.kind === 'stock_correction' && options?.force
+                    ? { ...item.payload, force: true }
+                    : item.payload;
+                return {
+                    ...item,
+                    payload,
+                    status: 'pending',
+                    lastError: null,
+                    shortages: undefined,
+                    currentQuantity: undefined,
+                };
+            }));
+            await get().replay();
+        },
+
+        remove: async (id) => {
+            await commit(get().entries.filter((item) => item.id !== id));
+        },
+    };
+});
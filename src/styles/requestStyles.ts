@@ -80,6 +80,59 @@ const styles = StyleSheet.create({
         color: Colors.primary,
         fontWeight: '800',
     },
+    itemSubText: {
+        fontSize: 11,
+        color: Colors.textMuted,
+        marginTop: 2,
+    },
+    itemBackorderText: {
+        color: Colors.info,
+    },
+    reviewNote: {
+        marginBottom: 12,
+        padding: 10,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: Colors.warning + '55',
+        backgroundColor: Colors.warning + '12',
+        gap: 3,
+    },
+    reviewNoteRejected: {
+        borderColor: Colors.danger + '55',
+        backgroundColor: Colors.danger + '12',
+    },
+    reviewNoteTitle: {
+        fontSize: 11,
+        fontWeight: '800',
+        color: Colors.warning,
+        textTransform: 'uppercase',
+        letterSpacing: 0.4,
+    },
+    reviewNoteText: {
+        fontSize: 12,
+        color: Colors.text,
+    },
+    historyToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        marginBottom: 8,
+    },
+    historyToggleText: {
+        flex: 1,
+        fontSize: 12,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    historyPanel: {
+        marginBottom: 12,
+        padding: 10,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.surface,
+    },
     paginationRow: {
         marginTop: 2,
         marginBottom: 6,
@@ -289,6 +342,16 @@ const styles = StyleSheet.create({
         color: Colors.text,
         fontWeight: '600',
     },
+    itemsHeaderActions: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    suggestButton: {
+        minWidth: 0,
+        backgroundColor: Colors.primary + '18',
+        borderWidth: 1,
+        borderColor: Colors.primary + '55',
+    },
     emptyItemsCard: {
         borderRadius: 16,
         borderWidth: 1,
@@ -340,6 +403,11 @@ const styles = StyleSheet.create({
         color: Colors.textSecondary,
         marginTop: 1,
     },
+    selectedItemNote: {
+        fontSize: 10,
+        color: Colors.textMuted,
+        marginTop: 2,
+    },
     deleteItemButton: {
         width: 30,
         height: 28,
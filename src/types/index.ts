@@ -20,11 +20,251 @@ export interface InventoryPart {
     part_name: string;
     total_stock: number;
     min_stock: number;
+    is_serialized?: boolean;
+    unit_price?: number | null;
     last_updated?: string;
     created_at?: string;
     updated_at?: string;
 }
 
+// ─── Part Serials (units of a serialized part) ───
+export type PartSerialStatus = 'in_warehouse' | 'with_engineer' | 'returning' | 'installed' | 'defective' | 'written_off';
+
+export interface PartSerial {
+    id: string;
+    part_id: string;
+    serial_number: string;
+    status: PartSerialStatus;
+    engineer_id?: string | null;
+    request_id?: string | null;
+    shipment_id?: string | null;
+    purchase_order_id?: string | null;
+    /** Warehouse holding the serial; set only while it is in_warehouse. */
+    warehouse_id?: string | null;
+    transfer_id?: string | null;
+    return_id?: string | null;
+    usage_report_id?: string | null;
+    defective_part_id?: string | null;
+    so_number?: string | null;
+    received_by?: string | null;
+    received_at: string;
+    delivered_at?: string | null;
+    installed_at?: string | null;
+}
+
+// Serials checked per part by the RPCs that move serialized units
+export interface SerialIssue {
+    partId: string;
+    partName: string;
+    required: number;
+    valid: number;
+}
+
+// ─── Inventory Movements (warehouse ledger) ───
+export type InventoryMovementType = 'receipt' | 'correction' | 'delivery' | 'return';
+
+export interface InventoryMovement {
+    id: string;
+    part_id: string;
+    part_name?: string | null;
+    movement_type: InventoryMovementType;
+    quantity_before: number;
+    quantity_after: number;
+    delta: number;
+    actor_id?: string | null;
+    actor_name?: string | null;
+    request_id?: string | null;
+    return_id?: string | null;
+    purchase_order_id?: string | null;
+    warehouse_id?: string | null;
+    note?: string | null;
+    created_at: string;
+}
+
+// adjust_inventory_stock
+export interface AdjustInventoryStockResult {
+    ok: boolean;
+    code: 'applied' | 'invalid_quantity' | 'not_found' | 'stale_stock' | 'serials_required' | 'duplicate_serials' | 'unknown_serials' | 'warehouse_not_found';
+    warehouse_id?: string;
+    previous_stock?: number;
+    new_stock?: number;
+    current_stock?: number;
+    required?: number;
+    provided?: number;
+    serials?: string[];
+}
+
+// inventory_stock_at
+export interface InventoryStockAtRow {
+    part_id: string;
+    part_name: string | null;
+    quantity: number;
+}
+
+// ─── Purchase Orders (warehouse goods receipt) ───
+export type PurchaseOrderStatus = 'open' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+    id: string;
+    purchase_order_id: string;
+    part_id: string;
+    part_name?: string | null;
+    quantity_ordered: number;
+    quantity_received: number;
+    // Joined fields
+    purchase_order?: Pick<PurchaseOrder, 'id' | 'po_number' | 'supplier_name' | 'expected_date' | 'status'>;
+}
+
+export interface PurchaseOrder {
+    id: string;
+    po_number: string;
+    supplier_id?: string | null;
+    supplier_name: string;
+    warehouse_id?: string | null;
+    expected_date?: string | null;
+    status: PurchaseOrderStatus;
+    note?: string | null;
+    created_by?: string | null;
+    created_by_name?: string | null;
+    created_at: string;
+    updated_at?: string;
+    closed_at?: string | null;
+    // Joined fields
+    lines?: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderReceiptItem {
+    partId: string;
+    partName?: string;
+    quantity: number;
+    serials?: string[];
+}
+
+// create_purchase_order
+export interface CreatePurchaseOrderResult {
+    ok: boolean;
+    code: 'created' | 'supplier_required' | 'supplier_not_found' | 'warehouse_not_found' | 'empty_items' | 'unknown_parts';
+    purchase_order_id?: string;
+    po_number?: string;
+    part_ids?: string[];
+}
+
+// receive_purchase_order
+export interface ReceivePurchaseOrderResult {
+    ok: boolean;
+    code: 'received' | 'not_found' | 'invalid_status' | 'empty_items' | 'quantity_exceeded' | 'serials_required' | 'duplicate_serials';
+    status?: PurchaseOrderStatus;
+    receipt_id?: string;
+    items?: PurchaseOrderReceiptItem[];
+    lines?: { partId: string; partName: string; quantity: number; outstanding: number }[];
+    serial_issues?: SerialIssue[];
+    serials?: string[];
+}
+
+// cancel_purchase_order
+export interface CancelPurchaseOrderResult {
+    ok: boolean;
+    code: 'cancelled' | 'not_found' | 'invalid_status';
+    status?: PurchaseOrderStatus;
+}
+
+// ─── Warehouses (regional depots) ───
+export interface Warehouse {
+    id: string;
+    code: string;
+    name: string;
+    /** Areas (profiles.location, upper-cased) this warehouse delivers to. */
+    area_groups: string[];
+    is_default: boolean;
+    is_active: boolean;
+    updated_by?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface WarehouseStock {
+    warehouse_id: string;
+    part_id: string;
+    quantity: number;
+    updated_at?: string;
+}
+
+export interface WarehouseTransfer {
+    id: string;
+    from_warehouse_id: string;
+    to_warehouse_id: string;
+    items: { partId: string; partName?: string; quantity: number; serials?: string[] }[];
+    note?: string | null;
+    created_by?: string | null;
+    created_by_name?: string | null;
+    created_at: string;
+}
+
+// transfer_warehouse_stock
+export interface TransferWarehouseStockResult {
+    ok: boolean;
+    code:
+        | 'transferred'
+        | 'same_warehouse'
+        | 'warehouse_not_found'
+        | 'unknown_parts'
+        | 'empty_items'
+        | 'insufficient_stock'
+        | 'serials_required';
+    transfer_id?: string;
+    part_ids?: string[];
+    shortages?: Omit<StockShortage, 'missing'>[];
+    serial_issues?: SerialIssue[];
+}
+
+// ─── Suppliers (warehouse purchasing master) ───
+export interface Supplier {
+    id: string;
+    name: string;
+    contact_name?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    lead_time_days: number;
+    is_active: boolean;
+    note?: string | null;
+    updated_by?: string | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface PartSupplier {
+    id: string;
+    part_id: string;
+    supplier_id: string;
+    /** Overrides the supplier's lead time for this part when set. */
+    lead_time_days: number | null;
+    min_order_qty: number;
+    is_primary: boolean;
+    updated_by?: string | null;
+    created_at?: string;
+    updated_at?: string;
+    // Joined fields
+    supplier?: Pick<Supplier, 'id' | 'name' | 'lead_time_days' | 'is_active'>;
+}
+
+// inventory_outflow_summary
+export interface InventoryOutflowRow {
+    part_id: string;
+    quantity: number;
+}
+
+// ─── Part Request Rules (quota per part, optional area override) ───
+export interface PartRequestRule {
+    id: string;
+    part_id: string;
+    area_group: string | null;
+    max_per_request: number;
+    max_per_month: number | null;
+    allowed_roles: UserRole[] | null;
+    updated_by?: string | null;
+    updated_at?: string;
+}
+
 // ─── Engineer Stock ───
 export interface EngineerStock {
     engineer_id: string;
@@ -55,9 +295,13 @@ export interface MonthlyRequest {
     reviewed_by?: string | null;
     reviewed_at?: string | null;
     rejection_reason?: string | null;
+    review_decisions?: ReviewDecision[] | null;
     cancelled_at?: string | null;
     delivered_at?: string | null;
     delivered_by?: string | null;
+    delivered_items?: RequestItem[] | null;
+    backorder_items?: RequestItem[] | null;
+    has_backorder?: boolean;
     confirmed_at?: string | null;
     last_edited_by?: string | null;
     last_edited_at?: string | null;
@@ -65,6 +309,205 @@ export interface MonthlyRequest {
     engineer?: Profile;
 }
 
+// ─── Review decision per line (monthly_requests.review_decisions jsonb) ───
+export interface ReviewDecision {
+    partId: string;
+    requestedQty: number;
+    approvedQty: number;
+    reason?: string | null;
+}
+
+// review_monthly_request
+export interface ReviewRequestResult {
+    ok: boolean;
+    code: 'approved' | 'rejected' | 'invalid_status' | 'reason_required' | 'line_reason_required' | 'empty_approval';
+    status?: RequestStatus | null;
+    reviewed_at?: string;
+    decisions?: ReviewDecision[];
+    part_ids?: string[];
+    adjusted?: boolean;
+}
+
+// approve_monthly_requests_bulk
+export interface BulkApprovalOutcome {
+    requestId: string;
+    engineerId?: string;
+    code: 'approved' | 'would_approve' | 'already_processed' | 'not_found' | 'empty_approval';
+    status?: RequestStatus | null;
+    // Dry run only: short parts of this request, with its own quantity as requested.
+    shortages?: (StockShortage & { requested: number })[];
+}
+
+export interface BulkApprovalResult {
+    ok: boolean;
+    code: 'preview' | 'processed' | 'empty_selection';
+    approved?: number;
+    skipped?: number;
+    results?: BulkApprovalOutcome[];
+    shortages?: StockShortage[];
+}
+
+// ─── Request Shipments (one row per delivery, incl. backorder follow-ups) ───
+export interface MonthlyRequestShipment {
+    id: string;
+    request_id: string;
+    items: RequestItem[];
+    is_backorder: boolean;
+    warehouse_id?: string | null;
+    delivered_by?: string | null;
+    delivered_at: string;
+    confirmed_at?: string | null;
+}
+
+// ─── Request Status History (written by trigger on monthly_requests.status) ───
+export interface RequestStatusHistoryEntry {
+    id: string;
+    request_id: string;
+    from_status: RequestStatus | null;
+    to_status: RequestStatus;
+    actor_id?: string | null;
+    actor_name?: string | null;
+    note?: string | null;
+    created_at: string;
+}
+
+// ─── Request Comments (thread per monthly request) ───
+export interface RequestComment {
+    id: string;
+    request_id: string;
+    author_id?: string | null;
+    author_name?: string | null;
+    author_role?: UserRole | null;
+    body?: string | null;
+    photo_path?: string | null;
+    created_at: string;
+}
+
+// post_request_comment
+export interface PostRequestCommentResult {
+    ok: boolean;
+    code: 'posted' | 'not_found' | 'empty_comment' | 'invalid_photo';
+    comment_id?: string;
+    engineer_id?: string;
+}
+
+// ─── Request SLA (per-stage limits, reminder/escalation events, compliance) ───
+export type RequestSlaStage = 'pending' | 'approved' | 'delivered';
+
+export interface RequestSlaPolicy {
+    stage: RequestSlaStage;
+    reminder_hours: number;
+    breach_hours: number;
+    updated_by?: string | null;
+    updated_at?: string;
+}
+
+export interface RequestSlaEvent {
+    id: string;
+    request_id: string;
+    stage: RequestSlaStage;
+    kind: 'reminder' | 'breach';
+    stage_started_at: string;
+    hours_open: number;
+    engineer_id?: string | null;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    responsible_admin_id?: string | null;
+    notified_at?: string | null;
+    resolved_at?: string | null;
+    created_at: string;
+}
+
+export interface RequestSlaAdminCompliance {
+    adminId: string;
+    adminName: string;
+    handled: number;
+    breached: number;
+    avgHours: number | null;
+}
+
+export interface RequestSlaAreaCompliance {
+    area: string;
+    handled: number;
+    breached: number;
+    openBreaches: number;
+}
+
+// request_sla_compliance
+export interface RequestSlaComplianceResult {
+    ok: boolean;
+    code: 'report';
+    days: number;
+    by_admin: RequestSlaAdminCompliance[];
+    by_area: RequestSlaAreaCompliance[];
+}
+
+// sla-engine edge function
+export interface RunSlaEngineResult {
+    ok: boolean;
+    resolved?: number;
+    events?: number;
+    notified?: number;
+    error?: string;
+}
+
+// ─── Notification digests ───
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+export type DigestTimezone = 'Asia/Jakarta' | 'Asia/Makassar' | 'Asia/Jayapura';
+
+export interface NotificationDigestSettings {
+    user_id: string;
+    frequency: DigestFrequency;
+    /** Local time "HH:MM:SS" in the user's time zone. */
+    send_time: string;
+    /** ISO weekday (1 = Monday), used when frequency is weekly. */
+    weekday: number;
+    timezone: DigestTimezone;
+    last_sent_at?: string | null;
+    updated_at?: string;
+}
+
+// ─── Stock RPC results ───
+export interface StockShortage {
+    partId: string;
+    partName: string;
+    required: number;
+    available: number;
+    missing: boolean;
+}
+
+// deliver_monthly_request
+export interface DeliverRequestResult {
+    ok: boolean;
+    code: 'delivered' | 'invalid_status' | 'empty_delivery' | 'insufficient_stock' | 'serials_required' | 'warehouse_not_found';
+    status?: RequestStatus | null;
+    warehouse_id?: string;
+    shortages?: StockShortage[];
+    serial_issues?: SerialIssue[];
+    delivered_at?: string;
+    shipment_id?: string;
+    items?: RequestItem[];
+    backorder_items?: RequestItem[];
+    is_backorder?: boolean;
+    adjusted?: boolean;
+}
+
+// close_monthly_request_backorder
+export interface CloseBackorderResult {
+    ok: boolean;
+    code: 'closed' | 'no_backorder';
+    backorder_items?: RequestItem[];
+}
+
+// confirm_monthly_request_receipt
+export interface ConfirmReceiptResult {
+    ok: boolean;
+    code: 'completed' | 'already_completed' | 'invalid_status' | 'not_found';
+    status?: RequestStatus | null;
+    confirmed_at?: string | null;
+    items?: { partId: string; quantity: number; newQuantity: number }[];
+}
+
 // ─── Stock Adjustments ───
 export interface StockAdjustment {
     id: string;
@@ -78,9 +521,282 @@ export interface StockAdjustment {
     reason?: string | null;
     timestamp: string;
     area_group?: string | null;
+    request_id?: string | null;
+    usage_report_id?: string | null;
+    transfer_id?: string | null;
+    return_id?: string | null;
+    campaign_id?: string | null;
+    correction_request_id?: string | null;
     engineer?: { name: string };
 }
 
+// ─── Stock Correction Approvals (corrections above thresholds) ───
+export type StockCorrectionThreshold = 'delta' | 'percent' | 'value';
+export type StockCorrectionRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface StockCorrectionSettings {
+    id: boolean;
+    max_delta: number | null;
+    max_percent: number | null;
+    max_value: number | null;
+    updated_by?: string | null;
+    updated_at?: string;
+}
+
+export interface StockCorrectionRequest {
+    id: string;
+    engineer_id: string;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    part_id: string;
+    part_name?: string | null;
+    previous_quantity: number;
+    requested_quantity: number;
+    delta: number;
+    reason: string;
+    exceeded: StockCorrectionThreshold[];
+    status: StockCorrectionRequestStatus;
+    client_ref?: string | null;
+    adjustment_id?: string | null;
+    review_note?: string | null;
+    reviewed_by?: string | null;
+    reviewed_by_name?: string | null;
+    reviewed_at?: string | null;
+    created_at: string;
+}
+
+// review_stock_correction
+export interface ReviewStockCorrectionResult {
+    ok: boolean;
+    code: 'approved' | 'rejected' | 'not_found' | 'invalid_status';
+    adjustment_id?: string;
+    previous_quantity?: number;
+    new_quantity?: number;
+    status?: StockCorrectionRequestStatus;
+}
+
+// ─── Stock Anomalies (flags from scan_stock_anomalies) ───
+export type StockAnomalyKind = 'correction_before_request' | 'usage_spike' | 'correction_after_confirmation' | 'so_reused';
+export type StockAnomalyStatus = 'open' | 'confirmed' | 'dismissed';
+
+export interface StockAnomalyEvidence {
+    adjustment_ids?: string[];
+    usage_report_ids?: string[];
+    request_ids?: string[];
+}
+
+export interface StockAnomaly {
+    id: string;
+    kind: StockAnomalyKind;
+    fingerprint: string;
+    engineer_id?: string | null;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    score: number;
+    summary: string;
+    evidence: StockAnomalyEvidence;
+    occurred_at: string;
+    status: StockAnomalyStatus;
+    review_note?: string | null;
+    reviewed_by?: string | null;
+    reviewed_by_name?: string | null;
+    reviewed_at?: string | null;
+    detected_at: string;
+    updated_at: string;
+}
+
+// scan_stock_anomalies
+export interface ScanStockAnomaliesResult {
+    ok: boolean;
+    code: 'scanned';
+    flagged?: number;
+    updated?: number;
+}
+
+// review_stock_anomaly
+export interface ReviewStockAnomalyResult {
+    ok: boolean;
+    code: 'reviewed' | 'not_found' | 'invalid_status';
+    status?: StockAnomalyStatus;
+}
+
+// ─── Stock Opname (cycle count campaigns) ───
+export type StockCountCampaignStatus = 'open' | 'closed';
+export type StockCountTaskStatus = 'pending' | 'submitted' | 'reviewed';
+export type StockCountLineStatus = 'pending' | 'approved' | 'rejected';
+
+export interface StockCountCampaign {
+    id: string;
+    title: string;
+    /** null: every area. */
+    area_group?: string | null;
+    /** null: the parts each engineer held at launch. */
+    part_ids?: string[] | null;
+    deadline: string;
+    note?: string | null;
+    status: StockCountCampaignStatus;
+    created_by?: string | null;
+    created_by_name?: string | null;
+    created_at: string;
+    closed_at?: string | null;
+}
+
+export interface StockCountTask {
+    id: string;
+    campaign_id: string;
+    engineer_id: string;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    part_ids: string[];
+    status: StockCountTaskStatus;
+    submitted_at?: string | null;
+    reviewed_at?: string | null;
+    created_at: string;
+    campaign?: StockCountCampaign;
+}
+
+/** Admin-only: the system quantity is snapshotted when the count is submitted. */
+export interface StockCountLine {
+    id: string;
+    task_id: string;
+    campaign_id: string;
+    engineer_id: string;
+    part_id: string;
+    part_name?: string | null;
+    counted_qty: number;
+    system_qty: number;
+    variance: number;
+    status: StockCountLineStatus;
+    adjustment_id?: string | null;
+    review_note?: string | null;
+    reviewed_by?: string | null;
+    reviewed_at?: string | null;
+    created_at: string;
+}
+
+// create_stock_count_campaign
+export interface CreateStockCountCampaignResult {
+    ok: boolean;
+    code: 'created' | 'title_required' | 'invalid_deadline' | 'unknown_parts' | 'no_engineers';
+    campaign_id?: string;
+    engineer_ids?: string[];
+    part_ids?: string[];
+}
+
+// submit_stock_count
+export interface SubmitStockCountResult {
+    ok: boolean;
+    code: 'submitted' | 'not_found' | 'already_submitted' | 'campaign_closed' | 'unknown_parts' | 'missing_counts';
+    line_count?: number;
+    part_ids?: string[];
+}
+
+// review_stock_count_lines
+export interface ReviewStockCountLinesResult {
+    ok: boolean;
+    code: 'reviewed' | 'empty_selection';
+    reviewed?: number;
+    skipped?: number;
+    serialized_line_ids?: string[];
+}
+
+// close_stock_count_campaign
+export interface CloseStockCountCampaignResult {
+    ok: boolean;
+    code: 'closed' | 'not_found' | 'already_closed';
+}
+
+// ─── Stock Transfers (engineer to engineer, same area) ───
+export type StockTransferKind = 'offer' | 'request';
+export type StockTransferStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled';
+
+export interface StockTransferItem {
+    partId: string;
+    partName?: string;
+    quantity: number;
+    serials?: string[];
+}
+
+export interface StockTransfer {
+    id: string;
+    kind: StockTransferKind;
+    from_engineer_id: string;
+    from_engineer_name?: string | null;
+    to_engineer_id: string;
+    to_engineer_name?: string | null;
+    initiated_by: string;
+    area_group?: string | null;
+    items: StockTransferItem[];
+    note?: string | null;
+    status: StockTransferStatus;
+    response_note?: string | null;
+    responded_by?: string | null;
+    responded_at?: string | null;
+    created_at: string;
+}
+
+// list_area_transfer_peers
+export interface TransferPeer {
+    engineer_id: string;
+    name: string;
+    quantity: number;
+}
+
+// create_stock_transfer
+export interface CreateStockTransferResult {
+    ok: boolean;
+    code: 'created' | 'invalid_peer' | 'different_area' | 'empty_items' | 'insufficient_stock' | 'serials_required';
+    transfer_id?: string;
+    items?: StockTransferItem[];
+    shortages?: StockShortage[];
+    serial_issues?: SerialIssue[];
+}
+
+// respond_stock_transfer
+export interface RespondStockTransferResult {
+    ok: boolean;
+    code: 'accepted' | 'rejected' | 'cancelled' | 'not_found' | 'invalid_status' | 'not_allowed' | 'different_area' | 'insufficient_stock' | 'serials_required';
+    status?: StockTransferStatus;
+    items?: StockTransferItem[];
+    shortages?: StockShortage[];
+    serial_issues?: SerialIssue[];
+}
+
+// ─── Stock Returns (engineer back to warehouse) ───
+export type StockReturnStatus = 'pending' | 'received' | 'rejected' | 'cancelled';
+
+export interface StockReturn {
+    id: string;
+    engineer_id: string;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    items: StockTransferItem[];
+    reason: string;
+    status: StockReturnStatus;
+    admin_note?: string | null;
+    processed_by?: string | null;
+    processed_at?: string | null;
+    created_at: string;
+}
+
+// submit_stock_return
+export interface SubmitStockReturnResult {
+    ok: boolean;
+    code: 'submitted' | 'reason_required' | 'empty_items' | 'insufficient_stock' | 'serials_required';
+    return_id?: string;
+    items?: StockTransferItem[];
+    shortages?: StockShortage[];
+    serial_issues?: SerialIssue[];
+}
+
+// process_stock_return
+export interface ProcessStockReturnResult {
+    ok: boolean;
+    code: 'received' | 'rejected' | 'cancelled' | 'not_found' | 'not_allowed' | 'invalid_status' | 'reason_required';
+    status?: StockReturnStatus;
+    items?: StockTransferItem[];
+}
+
 // ─── Usage Reports ───
 export interface UsageReport {
     id: string;
@@ -95,15 +811,148 @@ export interface UsageItem {
     partId: string;
     partName?: string;
     quantity: number;
+    serials?: string[];
+}
+
+// submit_usage_report
+export interface SubmitUsageReportResult {
+    ok: boolean;
+    code: 'submitted' | 'duplicate' | 'invalid_so_number' | 'empty_items' | 'insufficient_stock' | 'serials_required';
+    report_id?: string;
+    shortages?: StockShortage[];
+    serial_issues?: SerialIssue[];
+}
+
+// ─── Defective Parts / RMA (flagged from a usage report line) ───
+export type DefectivePartStatus = 'awaiting_return' | 'shipped' | 'received' | 'sent_to_vendor' | 'replaced' | 'scrapped';
+
+export interface DefectivePart {
+    id: string;
+    usage_report_id?: string | null;
+    so_number: string;
+    engineer_id: string;
+    engineer_name?: string | null;
+    area_group?: string | null;
+    part_id: string;
+    part_name?: string | null;
+    quantity: number;
+    serials?: string[];
+    symptom: string;
+    status: DefectivePartStatus;
+    shipment_note?: string | null;
+    shipped_at?: string | null;
+    received_at?: string | null;
+    vendor_note?: string | null;
+    status_updated_by?: string | null;
+    status_updated_at?: string | null;
+    created_at: string;
+}
+
+// report_defective_part
+export interface ReportDefectivePartResult {
+    ok: boolean;
+    code: 'reported' | 'invalid_quantity' | 'symptom_required' | 'not_found' | 'part_not_in_report' | 'quantity_exceeded' | 'serials_required';
+    defect_id?: string;
+    status?: DefectivePartStatus;
+    used?: number;
+    flagged?: number;
+    serial_issues?: SerialIssue[];
+}
+
+// update_defective_part_status
+export interface UpdateDefectivePartStatusResult {
+    ok: boolean;
+    code: 'updated' | 'withdrawn' | 'not_found' | 'not_allowed' | 'invalid_transition';
+    status?: DefectivePartStatus;
+    previous_status?: DefectivePartStatus;
+}
+
+// submit_stock_correction
+export interface SubmitStockCorrectionResult {
+    ok: boolean;
+    code: 'applied' | 'pending_approval' | 'duplicate' | 'invalid_quantity' | 'reason_required' | 'stale_quantity' | 'pending_exists' | 'serialized_part';
+    adjustment_id?: string;
+    correction_id?: string;
+    exceeded?: StockCorrectionThreshold[];
+    previous_quantity?: number;
+    new_quantity?: number;
+    current_quantity?: number;
+    expected_quantity?: number;
+}
+
+// ─── Offline Outbox (queued on device, replayed on reconnect) ───
+export type OutboxPayload =
+    | {
+        kind: 'usage_report';
+        soNumber: string;
+        description: string | null;
+        items: UsageItem[];
+    }
+    | {
+        kind: 'stock_correction';
+        partId: string;
+        partName: string;
+        previousQuantity: number;
+        newQuantity: number;
+        reason: string;
+        engineerName?: string;
+        force?: boolean;
+    };
+
+export type OutboxEntryStatus = 'pending' | 'conflict';
+
+export interface OutboxEntry {
+    id: string; // client_ref sent to the RPC as idempotency key
+    userId: string;
+    createdAt: string;
+    status: OutboxEntryStatus;
+    attempts: number;
+    lastError?: string | null;
+    shortages?: StockShortage[];
+    currentQuantity?: number | null;
+    payload: OutboxPayload;
 }
 
 // ─── Notifications ───
+export type NotificationType =
+    | 'system'
+    | 'broadcast'
+    | 'request_progress'
+    | 'comment'
+    | 'sla'
+    | 'digest'
+    | 'stock_transfer'
+    | 'stock_return'
+    | 'stock_correction'
+    | 'stock_count'
+    | 'defective_part';
+
+/** How a user wants one notification type delivered; no row means 'all'. */
+export type NotificationChannel = 'all' | 'in_app' | 'push' | 'muted';
+
+export interface NotificationPreference {
+    user_id: string;
+    type: Exclude<NotificationType, 'system'>;
+    channel: NotificationChannel;
+    updated_at?: string;
+}
+
+export interface NotificationQuietHours {
+    user_id: string;
+    is_enabled: boolean;
+    /** Local times "HH:MM:SS"; start after end means the window runs past midnight. */
+    start_time: string;
+    end_time: string;
+    timezone: DigestTimezone;
+    updated_at?: string;
+}
+
 export interface AppNotification {
     id: string;
     user_id: string;
     title: string;
     body: string;
-    type: string;
+    type: NotificationType;
     data?: Record<string, any> | null;
     is_read: boolean;
     created_at: string;
@@ -0,0 +1,12 @@
+import { normalizeArea } from '../normalizeArea';
+
+describe('normalizeArea', () => {
+    it('trims and upper-cases the area', () => {
+        expect(normalizeArea('  bekasi ')).toBe('BEKASI');
+        expect(normalizeArea('Bengkulu')).toBe('BENGKULU');
+    });
+
+    it('keeps an empty area empty', () => {
+        expect(normalizeArea('   ')).toBe('');
+    });
+});
@@ -0,0 +1,59 @@
+import { PartRequestRule } from '../../types';
+import { DEFAULT_MAX_QTY_PER_REQUEST, getPartRequestLimit, resolvePartRequestRule } from '../partRequestRules';
+
+const rule = (overrides: Partial<PartRequestRule>): PartRequestRule => ({
+    id: 'rule',
+    part_id: 'PART-A',
+    area_group: null,
+    max_per_request: 10,
+    max_per_month: null,
+    allowed_roles: null,
+    ...overrides,
+});
+
+describe('resolvePartRequestRule', () => {
+    const partDefault = rule({ id: 'default', max_per_request: 5 });
+    const bekasi = rule({ id: 'bekasi', area_group: 'BEKASI', max_per_request: 8 });
+    const otherPart = rule({ id: 'other', part_id: 'PART-B' });
+    const rules = [bekasi, partDefault, otherPart];
+
+    it('prefers the override for the area, whatever its case', () => {
+        expect(resolvePartRequestRule(rules, 'PART-A', ' bekasi ')).toBe(bekasi);
+    });
+
+    it('falls back to the part default for other areas or no area', () => {
+        expect(resolvePartRequestRule(rules, 'PART-A', 'BOGOR')).toBe(partDefault);
+        expect(resolvePartRequestRule(rules, 'PART-A', null)).toBe(partDefault);
+    });
+
+    it('returns null for parts without a rule', () => {
+        expect(resolvePartRequestRule(rules, 'PART-C', 'BEKASI')).toBeNull();
+        expect(resolvePartRequestRule([bekasi], 'PART-A', 'BOGOR')).toBeNull();
+    });
+});
+
+describe('getPartRequestLimit', () => {
+    it('uses the default cap without a rule', () => {
+        expect(getPartRequestLimit(null, 'engineer')).toEqual({
+            allowed: true,
+            maxPerRequest: DEFAULT_MAX_QTY_PER_REQUEST,
+            maxPerMonth: null,
+            maxQty: DEFAULT_MAX_QTY_PER_REQUEST,
+            rule: null,
+        });
+    });
+
+    it('caps by what is left of the monthly quota', () => {
+        const monthly = rule({ max_per_request: 10, max_per_month: 12 });
+        expect(getPartRequestLimit(monthly, 'engineer', 4).maxQty).toBe(8);
+        expect(getPartRequestLimit(monthly, 'engineer', 1).maxQty).toBe(10);
+        expect(getPartRequestLimit(monthly, 'engineer', 20).maxQty).toBe(0);
+    });
+
+    it('blocks roles outside allowed_roles', () => {
+        const adminOnly = rule({ allowed_roles: ['admin'] });
+        expect(getPartRequestLimit(adminOnly, 'engineer')).toMatchObject({ allowed: false, maxQty: 0 });
+        expect(getPartRequestLimit(adminOnly, null)).toMatchObject({ allowed: false, maxQty: 0 });
+        expect(getPartRequestLimit(adminOnly, 'admin')).toMatchObject({ allowed: true, maxQty: 10 });
+    });
+});
@@ -0,0 +1,106 @@
+import { DEFAULT_MAX_QTY_PER_REQUEST, PartRequestLimit } from '../partRequestRules';
+import { buildRequestSuggestions, sumIncomingByPart } from '../requestSuggestions';
+
+const limit = (maxQty: number, allowed = true): PartRequestLimit => ({
+    allowed,
+    maxPerRequest: maxQty,
+    maxPerMonth: null,
+    maxQty,
+    rule: null,
+});
+const defaultLimit = () => limit(DEFAULT_MAX_QTY_PER_REQUEST);
+
+describe('sumIncomingByPart', () => {
+    it('counts open requests, backorders and unconfirmed shipments', () => {
+        const incoming = sumIncomingByPart(
+            [
+                { id: 'pending', status: 'pending', items: [{ partId: 'A', quantity: 2 }] },
+                { id: 'approved', status: 'approved', items: [{ partId: 'A', quantity: 1 }, { partId: 'B', quantity: 4 }] },
+                {
+                    id: 'shipped',
+                    status: 'delivered',
+                    items: [{ partId: 'B', quantity: 9 }],
+                    backorder_items: [{ partId: 'B', quantity: 3 }],
+                },
+                { id: 'completed', status: 'completed', items: [{ partId: 'C', quantity: 5 }], backorder_items: [{ partId: 'C', quantity: 1 }] },
+                { id: 'rejected', status: 'rejected', items: [{ partId: 'A', quantity: 7 }] },
+            ],
+            [{ request_id: 'shipped', items: [{ partId: 'B', quantity: 6 }] }],
+        );
+
+        expect(Object.fromEntries(incoming)).toEqual({ A: 3, B: 13, C: 1 });
+    });
+
+    it('counts delivered items of delivered requests without shipment rows', () => {
+        const incoming = sumIncomingByPart(
+            [
+                { id: 'legacy', status: 'delivered', items: [{ partId: 'A', quantity: 5 }], delivered_items: [{ partId: 'A', quantity: 4 }] },
+                { id: 'older', status: 'delivered', items: [{ partId: 'B', quantity: 2 }] },
+            ],
+            [],
+        );
+
+        expect(Object.fromEntries(incoming)).toEqual({ A: 4, B: 2 });
+    });
+});
+
+describe('buildRequestSuggestions', () => {
+    it('covers a month of average usage plus min stock, minus stock on hand and incoming', () => {
+        const suggestions = buildRequestSuggestions({
+            usageReports: [
+                { date: '2026-08-01', items: [{ partId: 'A', quantity: 6 }] },
+                { date: '2026-09-01', items: [{ partId: 'A', quantity: 3 }] },
+            ],
+            stocks: [{ part_id: 'A', quantity: 1, min_stock: 2 }],
+            incoming: new Map([['A', 1]]),
+            getLimit: defaultLimit,
+        });
+
+        expect(suggestions).toEqual([
+            { partId: 'A', quantity: 3, note: 'Rata-rata pakai 3/bln, stok 1, min 2, dalam proses 1' },
+        ]);
+    });
+
+    it('suggests min stock for unused parts and skips parts that are covered', () => {
+        const suggestions = buildRequestSuggestions({
+            usageReports: [],
+            stocks: [
+                { part_id: 'A', quantity: 0, min_stock: 2 },
+                { part_id: 'B', quantity: 5, min_stock: 2 },
+                { part_id: 'C', quantity: 0, min_stock: 0 },
+            ],
+            incoming: new Map(),
+            getLimit: defaultLimit,
+        });
+
+        expect(suggestions.map((row) => [row.partId, row.quantity])).toEqual([['A', 2]]);
+    });
+
+    it('caps by quota and leaves out parts the engineer cannot request', () => {
+        const suggestions = buildRequestSuggestions({
+            usageReports: [{ date: '2026-09-01', items: [{ partId: 'A', quantity: 30 }, { partId: 'B', quantity: 30 }] }],
+            stocks: [],
+            incoming: new Map(),
+            getLimit: (partId) => (partId === 'A' ? limit(4) : limit(10, false)),
+        });
+
+        expect(suggestions).toEqual([
+            { partId: 'A', quantity: 4, note: 'Rata-rata pakai 10/bln, stok 0, min 0, dibatasi kuota 4' },
+        ]);
+    });
+
+    it('sorts by quantity, then part id', () => {
+        const suggestions = buildRequestSuggestions({
+            usageReports: [],
+            stocks: [
+                { part_id: 'B', quantity: 0, min_stock: 1 },
+                { part_id: 'A', quantity: 0, min_stock: 1 },
+                { part_id: 'C', quantity: 0, min_stock: 3 },
+            ],
+            incoming: new Map(),
+            getLimit: defaultLimit,
+        });
+
+        expect(suggestions.map((row) => row.partId)).toEqual(['C', 'A', 'B']);
+    });
+});
@@ -0,0 +1,42 @@
+import { ReviewDecision } from '../../types';
+import { getChangedDecisions, summarizeReviewDecisions } from '../reviewDecisions';
+
+const decisions: ReviewDecision[] = [
+    { partId: 'PART-A', requestedQty: 5, approvedQty: 3, reason: 'stok terbatas' },
+    { partId: 'PART-B', requestedQty: 2, approvedQty: 0, reason: 'tidak ada di katalog' },
+    { partId: 'PART-C', requestedQty: 4, approvedQty: 4 },
+];
+
+describe('getChangedDecisions', () => {
+    it('keeps only reduced or rejected lines', () => {
+        expect(getChangedDecisions(decisions).map((row) => row.partId)).toEqual(['PART-A', 'PART-B']);
+    });
+
+    it('treats missing decisions as no changes', () => {
+        expect(getChangedDecisions(null)).toEqual([]);
+        expect(getChangedDecisions(undefined)).toEqual([]);
+    });
+});
+
+describe('summarizeReviewDecisions', () => {
+    it('describes each changed line with its reason', () => {
+        expect(summarizeReviewDecisions(decisions)).toBe(
+            'PART-A 5→3 (stok terbatas); PART-B ditolak (tidak ada di katalog)'
+        );
+    });
+
+    it('uses the resolved part names', () => {
+        const names: Record<string, string> = { 'PART-A': 'LoopSheet', 'PART-B': 'Kabel' };
+        expect(summarizeReviewDecisions(decisions, (partId) => names[partId] || partId)).toBe(
+            'LoopSheet 5→3 (stok terbatas); Kabel ditolak (tidak ada di katalog)'
+        );
+    });
+
+    it('leaves out the reason when there is none', () => {
+        expect(summarizeReviewDecisions([{ partId: 'PART-A', requestedQty: 5, approvedQty: 2 }])).toBe('PART-A 5→2');
+    });
+
+    it('is empty when nothing changed', () => {
+        expect(summarizeReviewDecisions([decisions[2]])).toBe('');
+    });
+});
@@ -0,0 +1,31 @@
+import { Colors } from '../config/theme';
+import { DefectivePartStatus } from '../types';
+
+export const DEFECT_STATUS_META: Record<DefectivePartStatus, { label: string; color: string }> = {
+    awaiting_return: { label: 'Menunggu Dikirim', color: Colors.accent },
+    shipped: { label: 'Dalam Pengiriman', color: Colors.info },
+    received: { label: 'Diterima Gudang', color: Colors.primary },
+    sent_to_vendor: { label: 'Dikirim ke Vendor', color: Colors.info },
+    replaced: { label: 'Diganti Vendor', color: Colors.success },
+    scrapped: { label: 'Dibuang', color: Colors.textMuted },
+};
+
+/** RMA is finished; nothing else can happen to the part. */
+export const DEFECT_CLOSED_STATUSES: DefectivePartStatus[] = ['replaced', 'scrapped'];
+
+/**
+ * Next steps the admin can take from a status (mirrors update_defective_part_status).
+ */
+export function getAdminDefectTransitions(status: DefectivePartStatus): DefectivePartStatus[] {
+    switch (status) {
+        case 'awaiting_return':
+        case 'shipped':
+            return ['received'];
+        case 'received':
+            return ['sent_to_vendor', 'scrapped'];
+        case 'sent_to_vendor':
+            return ['replaced', 'scrapped'];
+        default:
+            return [];
+    }
+}
@@ -0,0 +1,40 @@
+import { DigestFrequency, DigestTimezone } from '../types';
+
+export const DIGEST_FREQUENCY_META: Record<DigestFrequency, { label: string }> = {
+    off: { label: 'Nonaktif' },
+    daily: { label: 'Harian' },
+    weekly: { label: 'Mingguan' },
+};
+
+export const DIGEST_TIMEZONE_META: Record<DigestTimezone, { label: string }> = {
+    'Asia/Jakarta': { label: 'WIB' },
+    'Asia/Makassar': { label: 'WITA' },
+    'Asia/Jayapura': { label: 'WIT' },
+};
+
+/** Indexed by ISO weekday (1 = Monday). */
+export const DIGEST_WEEKDAY_LABELS: Record<number, string> = {
+    1: 'Sen',
+    2: 'Sel',
+    3: 'Rab',
+    4: 'Kam',
+    5: 'Jum',
+    6: 'Sab',
+    7: 'Min',
+};
+
+/** Device time zone when it is one of the supported Indonesian zones, else WIB. */
+export function getDefaultDigestTimezone(): DigestTimezone {
+    const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return deviceZone in DIGEST_TIMEZONE_META ? (deviceZone as DigestTimezone) : 'Asia/Jakarta';
+}
+
+/** Normalizes "7:30" / "07.30" to "07:30"; null when the input is not a valid time of day. */
+export function parseTimeOfDay(input: string): string | null {
+    const match = input.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
@@ -0,0 +1,30 @@
+import { NotificationChannel, NotificationType, UserRole } from '../types';
+
+export type ConfigurableNotificationType = Exclude<NotificationType, 'system'>;
+
+/** Types a user can configure, in display order, with the roles that actually receive them. */
+export const NOTIFICATION_TYPE_META: Record<ConfigurableNotificationType, { label: string; roles: UserRole[] }> = {
+    request_progress: { label: 'Progres Request', roles: ['admin', 'engineer'] },
+    comment: { label: 'Komentar Request', roles: ['admin', 'engineer'] },
+    sla: { label: 'Pengingat & Eskalasi SLA', roles: ['admin', 'engineer'] },
+    digest: { label: 'Ringkasan Harian/Mingguan', roles: ['admin', 'engineer'] },
+    stock_transfer: { label: 'Transfer Stok', roles: ['engineer'] },
+    stock_return: { label: 'Retur Stok', roles: ['admin', 'engineer'] },
+    stock_correction: { label: 'Koreksi Stok', roles: ['admin', 'engineer'] },
+    stock_count: { label: 'Stock Opname', roles: ['engineer'] },
+    defective_part: { label: 'Part Cacat / RMA', roles: ['admin', 'engineer'] },
+    broadcast: { label: 'Broadcast', roles: ['admin', 'engineer'] },
+};
+
+export const NOTIFICATION_CHANNEL_META: Record<NotificationChannel, { label: string }> = {
+    all: { label: 'Semua' },
+    in_app: { label: 'In-app' },
+    push: { label: 'Push' },
+    muted: { label: 'Mati' },
+};
+
+/** notifications.type for a message, taken from its data.type; anything unknown is 'system'. */
+export function resolveNotificationType(data?: { type?: unknown } | null): NotificationType {
+    const type = data?.type;
+    return typeof type === 'string' && type in NOTIFICATION_TYPE_META ? (type as NotificationType) : 'system';
+}
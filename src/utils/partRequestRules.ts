@@ -0,0 +1,54 @@
+import { PartRequestRule, UserRole } from '../types';
+import { normalizeArea } from './normalizeArea';
+
+/** Per-request cap for parts without a rule (mirrors enforce_part_request_rules). */
+export const DEFAULT_MAX_QTY_PER_REQUEST = 10;
+
+export type PartRequestLimit = {
+    allowed: boolean;
+    maxPerRequest: number;
+    maxPerMonth: number | null;
+    /** What can still be requested in this request, after this month's other requests. */
+    maxQty: number;
+    rule: PartRequestRule | null;
+};
+
+/**
+ * Rule that applies to a part for an area: the area override if any, else the part default.
+ */
+export function resolvePartRequestRule(
+    rules: PartRequestRule[],
+    partId: string,
+    area?: string | null,
+): PartRequestRule | null {
+    const areaKey = area ? normalizeArea(area) : '';
+    let fallback: PartRequestRule | null = null;
+    for (const rule of rules) {
+        if (rule.part_id !== partId) continue;
+        if (!rule.area_group) {
+            fallback = rule;
+            continue;
+        }
+        if (areaKey && normalizeArea(rule.area_group) === areaKey) return rule;
+    }
+    return fallback;
+}
+
+export function getPartRequestLimit(
+    rule: PartRequestRule | null,
+    role?: UserRole | null,
+    usedThisMonth = 0,
+): PartRequestLimit {
+    const maxPerRequest = rule?.max_per_request ?? DEFAULT_MAX_QTY_PER_REQUEST;
+    const maxPerMonth = rule?.max_per_month ?? null;
+    const allowed = !rule?.allowed_roles || (!!role && rule.allowed_roles.includes(role));
+    const monthRemaining = maxPerMonth == null ? maxPerRequest : Math.max(0, maxPerMonth - usedThisMonth);
+
+    return {
+        allowed,
+        maxPerRequest,
+        maxPerMonth,
+        maxQty: allowed ? Math.min(maxPerRequest, monthRemaining) : 0,
+        rule,
+    };
+}
@@ -0,0 +1,30 @@
+import { Colors } from '../config/theme';
+import { PartSerialStatus, SerialIssue } from '../types';
+
+export const SERIAL_STATUS_META: Record<PartSerialStatus, { label: string; color: string }> = {
+    in_warehouse: { label: 'Di Gudang', color: Colors.primary },
+    with_engineer: { label: 'Di Engineer', color: Colors.info },
+    returning: { label: 'Diretur', color: Colors.warning },
+    installed: { label: 'Terpasang', color: Colors.success },
+    defective: { label: 'Cacat / RMA', color: Colors.danger },
+    written_off: { label: 'Dihapus (Koreksi)', color: Colors.textMuted },
+};
+
+/**
+ * Parse serials typed one per line (or comma separated), stored the same way the RPCs
+ * store them: trimmed, upper-cased and without duplicates.
+ */
+export function parseSerialInput(input: string): string[] {
+    const seen = new Set<string>();
+    input.split(/[\n,;]+/).forEach((value) => {
+        const serial = value.trim().toUpperCase();
+        if (serial) seen.add(serial);
+    });
+    return Array.from(seen);
+}
+
+export function formatSerialIssues(issues: SerialIssue[] | undefined): string {
+    return (issues || [])
+        .map((issue) => `${issue.partName || issue.partId} (${issue.valid}/${issue.required} serial)`)
+        .join(', ');
+}
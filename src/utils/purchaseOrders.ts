@@ -0,0 +1,34 @@
+import { Colors } from '../config/theme';
+import { PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+
+export const PURCHASE_ORDER_STATUS_META: Record<PurchaseOrderStatus, { label: string; color: string }> = {
+    open: { label: 'Open', color: Colors.info },
+    partially_received: { label: 'Diterima Sebagian', color: Colors.accent },
+    received: { label: 'Diterima', color: Colors.success },
+    cancelled: { label: 'Dibatalkan', color: Colors.textMuted },
+};
+
+/** Orders that can still receive goods; their outstanding qty counts as "on order". */
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['open', 'partially_received'];
+
+export function getOutstandingQty(line: Pick<PurchaseOrderLine, 'quantity_ordered' | 'quantity_received'>): number {
+    return Math.max(0, line.quantity_ordered - line.quantity_received);
+}
+
+/** Total outstanding qty per part over the given open order lines. */
+export function buildOnOrderByPart(lines: PurchaseOrderLine[]): Map<string, number> {
+    const map = new Map<string, number>();
+    for (const line of lines) {
+        const outstanding = getOutstandingQty(line);
+        if (outstanding <= 0) continue;
+        map.set(line.part_id, (map.get(line.part_id) || 0) + outstanding);
+    }
+    return map;
+}
+
+/** A PO is overdue once its expected date has passed while goods are still outstanding. */
+export function isPurchaseOrderOverdue(expectedDate: string | null | undefined, status: PurchaseOrderStatus): boolean {
+    if (!expectedDate || !OPEN_PURCHASE_ORDER_STATUSES.includes(status)) return false;
+    const endOfDay = new Date(`${expectedDate}T23:59:59.999`);
+    return !Number.isNaN(endOfDay.getTime()) && endOfDay.getTime() < Date.now();
+}
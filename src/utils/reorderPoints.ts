@@ -0,0 +1,101 @@
+import { InventoryPart, PartSupplier } from '../types';
+
+/** Days of warehouse outflow used to estimate daily demand. */
+export const REORDER_WINDOW_DAYS = 90;
+/** Lead time assumed for parts without a supplier. */
+export const DEFAULT_LEAD_TIME_DAYS = 14;
+/** Days of demand a reorder should cover beyond the reorder point. */
+export const REORDER_COVER_DAYS = 30;
+
+export type ReorderPlan = {
+    partId: string;
+    partName: string;
+    stock: number;
+    onOrder: number;
+    avgDailyOutflow: number;
+    leadTimeDays: number;
+    safetyStock: number;
+    reorderPoint: number;
+    reorderQty: number;
+    minOrderQty: number;
+    supplierId: string | null;
+    supplierName: string | null;
+    needsReorder: boolean;
+};
+
+type BuildReorderPlansInput = {
+    parts: Pick<InventoryPart, 'id' | 'part_name' | 'total_stock' | 'min_stock'>[];
+    /** Net outflow per part over the window (inventory_outflow_summary). */
+    outflowByPart: Map<string, number>;
+    onOrderByPart: Map<string, number>;
+    partSuppliers: PartSupplier[];
+    windowDays?: number;
+};
+
+/**
+ * Supplier link used for reordering a part: its primary active supplier, else the first active one.
+ */
+export function resolvePartSupplier(partSuppliers: PartSupplier[], partId: string): PartSupplier | null {
+    let fallback: PartSupplier | null = null;
+    for (const link of partSuppliers) {
+        if (link.part_id !== partId || link.supplier?.is_active === false) continue;
+        if (link.is_primary) return link;
+        if (!fallback) fallback = link;
+    }
+    return fallback;
+}
+
+/**
+ * Reorder point per part: average daily outflow over the supplier lead time, plus min_stock as
+ * safety stock. A part needs reordering once stock plus what is on order drops to that point;
+ * the quantity then tops it up to cover REORDER_COVER_DAYS more, at least the minimum order.
+ */
+export function buildReorderPlans({
+    parts,
+    outflowByPart,
+    onOrderByPart,
+    partSuppliers,
+    windowDays = REORDER_WINDOW_DAYS,
+}: BuildReorderPlansInput): Map<string, ReorderPlan> {
+    const plans = new Map<string, ReorderPlan>();
+    for (const part of parts) {
+        const link = resolvePartSupplier(partSuppliers, part.id);
+        const avgDailyOutflow = (outflowByPart.get(part.id) || 0) / windowDays;
+        const leadTimeDays = link?.lead_time_days ?? link?.supplier?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+        const safetyStock = part.min_stock || 0;
+        const onOrder = onOrderByPart.get(part.id) || 0;
+        const minOrderQty = link?.min_order_qty || 1;
+
+        const reorderPoint = Math.ceil(avgDailyOutflow * leadTimeDays) + safetyStock;
+        const position = part.total_stock + onOrder;
+        const needsReorder = (avgDailyOutflow > 0 || safetyStock > 0) && position <= reorderPoint;
+        const orderUpTo = reorderPoint + Math.ceil(avgDailyOutflow * REORDER_COVER_DAYS);
+
+        plans.set(part.id, {
+            partId: part.id,
+            partName: part.part_name,
+            stock: part.total_stock,
+            onOrder,
+            avgDailyOutflow,
+            leadTimeDays,
+            safetyStock,
+            reorderPoint,
+            reorderQty: needsReorder ? Math.max(orderUpTo - position, minOrderQty, 1) : 0,
+            minOrderQty,
+            supplierId: link?.supplier_id ?? null,
+            supplierName: link?.supplier?.name ?? null,
+            needsReorder,
+        });
+    }
+    return plans;
+}
+
+/** Parts to reorder, most urgent (furthest below their reorder point) first. */
+export function listPartsToReorder(plans: Map<string, ReorderPlan>): ReorderPlan[] {
+    return Array.from(plans.values())
+        .filter((plan) => plan.needsReorder)
+        .sort((a, b) =>
+            (a.stock + a.onOrder - a.reorderPoint) - (b.stock + b.onOrder - b.reorderPoint) ||
+            a.partName.localeCompare(b.partName)
+        );
+}
@@ -0,0 +1,22 @@
+import { Colors } from '../config/theme';
+import { RequestSlaStage } from '../types';
+
+export const REQUEST_SLA_STAGE_META: Record<RequestSlaStage, { label: string; color: string }> = {
+    pending: { label: 'Menunggu Review', color: Colors.accent },
+    approved: { label: 'Menunggu Pengiriman', color: Colors.info },
+    delivered: { label: 'Menunggu Konfirmasi', color: Colors.primary },
+};
+
+/** Share of handled stages closed within breach_hours, 0-100; null when nothing was handled. */
+export function getSlaComplianceRate(handled: number, breached: number): number | null {
+    if (handled <= 0) return null;
+    return Math.round(((handled - breached) / handled) * 100);
+}
+
+/** Rate bands used for the compliance colour: >= 90 good, >= 75 warning. */
+export function getSlaComplianceColor(rate: number | null): string {
+    if (rate === null) return Colors.textMuted;
+    if (rate >= 90) return Colors.success;
+    if (rate >= 75) return Colors.accent;
+    return Colors.danger;
+}
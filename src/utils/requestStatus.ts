@@ -0,0 +1,11 @@
+import { Colors } from '../config/theme';
+import { RequestStatus } from '../types';
+
+export const REQUEST_STATUS_META: Record<RequestStatus, { label: string; color: string }> = {
+    pending: { label: 'Pending', color: Colors.accent },
+    approved: { label: 'Approved', color: Colors.info },
+    rejected: { label: 'Rejected', color: Colors.danger },
+    delivered: { label: 'Delivered', color: Colors.primary },
+    completed: { label: 'Completed', color: Colors.success },
+    cancelled: { label: 'Cancelled', color: Colors.textMuted },
+};
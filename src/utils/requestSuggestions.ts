@@ -0,0 +1,99 @@
+import { EngineerStock, MonthlyRequest, MonthlyRequestShipment, RequestItem, UsageReport } from '../types';
+import { PartRequestLimit } from './partRequestRules';
+
+/** Months of usage history used to estimate monthly consumption. */
+export const SUGGESTION_WINDOW_MONTHS = 3;
+
+export type RequestSuggestion = {
+    partId: string;
+    quantity: number;
+    note: string;
+};
+
+type BuildRequestSuggestionsInput = {
+    usageReports: Pick<UsageReport, 'items' | 'date'>[];
+    stocks: Pick<EngineerStock, 'part_id' | 'quantity' | 'min_stock'>[];
+    /** Qty still on its way to the engineer, per part (see sumIncomingByPart). */
+    incoming: Map<string, number>;
+    getLimit: (partId: string) => PartRequestLimit;
+    windowMonths?: number;
+};
+
+/**
+ * Qty per part that has not reached the engineer's stock yet, across all months: lines of
+ * pending and approved requests, open backorders, and shipments delivered but not confirmed.
+ * Delivered requests without shipment rows count their delivered items.
+ */
+export function sumIncomingByPart(
+    requests: Pick<MonthlyRequest, 'id' | 'status' | 'items' | 'backorder_items' | 'delivered_items'>[],
+    unconfirmedShipments: Pick<MonthlyRequestShipment, 'request_id' | 'items'>[],
+): Map<string, number> {
+    const incoming = new Map<string, number>();
+    const add = (lines: RequestItem[] | null | undefined) => {
+        for (const item of lines || []) {
+            if (!item.partId) continue;
+            incoming.set(item.partId, (incoming.get(item.partId) || 0) + (Number(item.quantity) || 0));
+        }
+    };
+
+    const shippedRequestIds = new Set(unconfirmedShipments.map((shipment) => shipment.request_id));
+    for (const shipment of unconfirmedShipments) add(shipment.items);
+
+    for (const row of requests) {
+        if (row.status === 'pending' || row.status === 'approved') {
+            add(row.items);
+            continue;
+        }
+        if (row.status === 'delivered' && !shippedRequestIds.has(row.id)) {
+            add(row.delivered_items || row.items);
+        }
+        add(row.backorder_items);
+    }
+
+    return incoming;
+}
+
+/**
+ * Suggested request per part: enough to cover a month of average usage on top of the
+ * engineer's minimum stock, minus what is on hand and still incoming, capped by quota.
+ */
+export function buildRequestSuggestions({
+    usageReports,
+    stocks,
+    incoming,
+    getLimit,
+    windowMonths = SUGGESTION_WINDOW_MONTHS,
+}: BuildRequestSuggestionsInput): RequestSuggestion[] {
+    const usedByPart = new Map<string, number>();
+    for (const report of usageReports) {
+        for (const item of report.items || []) {
+            if (!item.partId) continue;
+            usedByPart.set(item.partId, (usedByPart.get(item.partId) || 0) + (Number(item.quantity) || 0));
+        }
+    }
+
+    const stockByPart = new Map(stocks.map((row) => [row.part_id, row]));
+    const partIds = new Set<string>([...usedByPart.keys(), ...stocks.filter((row) => (row.min_stock || 0) > 0).map((row) => row.part_id)]);
+
+    const suggestions: RequestSuggestion[] = [];
+    for (const partId of partIds) {
+        const avgMonthly = Math.ceil((usedByPart.get(partId) || 0) / windowMonths);
+        const onHand = stockByPart.get(partId)?.quantity || 0;
+        const minStock = stockByPart.get(partId)?.min_stock || 0;
+        const pending = incoming.get(partId) || 0;
+        const needed = avgMonthly + minStock - onHand - pending;
+        if (needed <= 0) continue;
+
+        const limit = getLimit(partId);
+        if (!limit.allowed || limit.maxQty <= 0) continue;
+
+        const quantity = Math.min(needed, limit.maxQty);
+        const parts = [`Rata-rata pakai ${avgMonthly}/bln`, `stok ${onHand}`, `min ${minStock}`];
+        if (pending > 0) parts.push(`dalam proses ${pending}`);
+        if (quantity < needed) parts.push(`dibatasi kuota ${limit.maxQty}`);
+
+        suggestions.push({ partId, quantity, note: parts.join(', ') });
+    }
+
+    return suggestions.sort((a, b) => b.quantity - a.quantity || a.partId.localeCompare(b.partId));
+}
@@ -0,0 +1,25 @@
+import { ReviewDecision } from '../types';
+
+/**
+ * Lines the admin changed during review (reduced or zeroed).
+ */
+export function getChangedDecisions(decisions?: ReviewDecision[] | null): ReviewDecision[] {
+    return (decisions || []).filter((row) => row.approvedQty !== row.requestedQty);
+}
+
+/**
+ * One-line summary of the review diff for notification bodies.
+ * e.g. "PART-A 5→3 (stok terbatas); PART-B ditolak (tidak ada di katalog)"
+ */
+export function summarizeReviewDecisions(
+    decisions: ReviewDecision[] | null | undefined,
+    resolveName: (partId: string) => string = (partId) => partId,
+): string {
+    return getChangedDecisions(decisions)
+        .map((row) => {
+            const name = resolveName(row.partId);
+            const change = row.approvedQty === 0 ? `${name} ditolak` : `${name} ${row.requestedQty}→${row.approvedQty}`;
+            return row.reason ? `${change} (${row.reason})` : change;
+        })
+        .join('; ');
+}
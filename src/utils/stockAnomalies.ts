@@ -0,0 +1,22 @@
+import { Colors } from '../config/theme';
+import { StockAnomalyKind, StockAnomalyStatus } from '../types';
+
+export const STOCK_ANOMALY_KIND_META: Record<StockAnomalyKind, { label: string; icon: string }> = {
+    correction_before_request: { label: 'Koreksi sebelum request', icon: 'trending-up' },
+    usage_spike: { label: 'Pemakaian tidak wajar', icon: 'chart-bell-curve-cumulative' },
+    correction_after_confirmation: { label: 'Koreksi setelah terima', icon: 'package-variant-closed-check' },
+    so_reused: { label: 'SO dipakai ulang', icon: 'content-duplicate' },
+};
+
+export const STOCK_ANOMALY_STATUS_META: Record<StockAnomalyStatus, { label: string; color: string }> = {
+    open: { label: 'Perlu Review', color: Colors.accent },
+    confirmed: { label: 'Terkonfirmasi', color: Colors.danger },
+    dismissed: { label: 'Diabaikan', color: Colors.textMuted },
+};
+
+/** Score bands used for the badge colour: >= 70 high, >= 50 medium. */
+export function getAnomalyScoreColor(score: number): string {
+    if (score >= 70) return Colors.danger;
+    if (score >= 50) return Colors.accent;
+    return Colors.info;
+}
@@ -0,0 +1,19 @@
+import { Colors } from '../config/theme';
+import { StockCorrectionRequestStatus, StockCorrectionThreshold } from '../types';
+
+export const STOCK_CORRECTION_STATUS_META: Record<StockCorrectionRequestStatus, { label: string; color: string }> = {
+    pending: { label: 'Menunggu Persetujuan', color: Colors.accent },
+    approved: { label: 'Disetujui', color: Colors.success },
+    rejected: { label: 'Ditolak', color: Colors.danger },
+};
+
+export const STOCK_CORRECTION_THRESHOLD_LABEL: Record<StockCorrectionThreshold, string> = {
+    delta: 'Selisih qty',
+    percent: 'Persentase',
+    value: 'Nilai',
+};
+
+/** "Selisih qty, Nilai" for the thresholds a correction exceeded. */
+export function formatExceededThresholds(exceeded: StockCorrectionThreshold[] | null | undefined): string {
+    return (exceeded || []).map((key) => STOCK_CORRECTION_THRESHOLD_LABEL[key] || key).join(', ');
+}
@@ -0,0 +1,38 @@
+import { Colors } from '../config/theme';
+import { StockCountLine, StockCountTask, StockCountTaskStatus } from '../types';
+
+export const STOCK_COUNT_TASK_STATUS_META: Record<StockCountTaskStatus, { label: string; color: string }> = {
+    pending: { label: 'Belum Hitung', color: Colors.accent },
+    submitted: { label: 'Menunggu Review', color: Colors.info },
+    reviewed: { label: 'Selesai', color: Colors.success },
+};
+
+export type StockCountProgress = {
+    total: number;
+    submitted: number;
+    late: number;
+    pendingVariances: number;
+    percent: number;
+};
+
+/** Counts are due by the end of the deadline day. */
+export function isPastStockCountDeadline(deadline: string, at: string | number = Date.now()): boolean {
+    const endOfDay = new Date(`${deadline}T23:59:59.999`);
+    return !Number.isNaN(endOfDay.getTime()) && endOfDay.getTime() < new Date(at).getTime();
+}
+
+/** Completion of one campaign: submitted tasks, late submissions and variances still to review. */
+export function buildStockCountProgress(
+    deadline: string,
+    tasks: Pick<StockCountTask, 'status' | 'submitted_at'>[],
+    lines: Pick<StockCountLine, 'status'>[],
+): StockCountProgress {
+    const submittedTasks = tasks.filter((task) => task.status !== 'pending');
+    return {
+        total: tasks.length,
+        submitted: submittedTasks.length,
+        late: submittedTasks.filter((task) => task.submitted_at && isPastStockCountDeadline(deadline, task.submitted_at)).length,
+        pendingVariances: lines.filter((line) => line.status === 'pending').length,
+        percent: tasks.length > 0 ? Math.round((submittedTasks.length / tasks.length) * 100) : 0,
+    };
+}
@@ -0,0 +1,44 @@
+import { Warehouse, WarehouseStock } from '../types';
+import { normalizeArea } from './normalizeArea';
+
+/** Inventory filter value for the sum over every warehouse. */
+export const ALL_WAREHOUSES = 'all';
+
+export function getDefaultWarehouse(warehouses: Warehouse[]): Warehouse | null {
+    return warehouses.find((warehouse) => warehouse.is_default) || null;
+}
+
+/**
+ * Warehouse that delivers to an area: the active warehouse listing it, else the default
+ * warehouse (mirrors resolve_area_warehouse).
+ */
+export function resolveAreaWarehouse(warehouses: Warehouse[], area?: string | null): Warehouse | null {
+    const areaKey = area ? normalizeArea(area) : '';
+    if (areaKey) {
+        const matches = warehouses
+            .filter((warehouse) => warehouse.is_active && warehouse.area_groups.includes(areaKey))
+            .sort((a, b) => Number(b.is_default) - Number(a.is_default) || a.name.localeCompare(b.name));
+        if (matches.length > 0) return matches[0];
+    }
+    return getDefaultWarehouse(warehouses);
+}
+
+/** Stock per warehouse, then per part. Parts without a row hold 0 in that warehouse. */
+export function buildStockByWarehouse(rows: WarehouseStock[]): Map<string, Map<string, number>> {
+    const map = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+        const parts = map.get(row.warehouse_id) || new Map<string, number>();
+        parts.set(row.part_id, row.quantity);
+        map.set(row.warehouse_id, parts);
+    }
+    return map;
+}
+
+export function formatWarehouseName(warehouse: Pick<Warehouse, 'code' | 'name'> | null | undefined): string {
+    return warehouse ? `${warehouse.name} (${warehouse.code})` : '-';
+}
+
+/** Parse areas typed comma or newline separated, stored like profiles are compared. */
+export function parseAreaInput(input: string): string[] {
+    return Array.from(new Set(input.split(/[\n,;]+/).map(normalizeArea).filter(Boolean)));
+}
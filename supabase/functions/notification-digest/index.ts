@@ -0,0 +1,201 @@
+/// <reference path="./types.d.ts" />
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type Digest = {
+    userId: string;
+    role: 'admin' | 'engineer';
+    frequency: 'daily' | 'weekly';
+    pendingReviews?: number;
+    awaitingConfirmation?: number;
+    openRequests?: number;
+    lowStockCount?: number;
+    lowStockParts?: string[];
+};
+
+type CollectResult = {
+    ok: boolean;
+    code: 'collected';
+    digests?: Digest[];
+};
+
+const TITLE: Record<Digest['frequency'], string> = {
+    daily: 'Ringkasan Harian',
+    weekly: 'Ringkasan Mingguan',
+};
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers',
+};
+
+const json = (status: number, payload: Record<string, unknown>) =>
+    new Response(JSON.stringify(payload), {
+        status,
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+        },
+    });
+
+const describeLowStock = (count: number, parts: string[], label: string) => {
+    const sample = parts.length > 0 ? ` (${parts.join(', ')}${count > parts.length ? ', ...' : ''})` : '';
+    return `${count} ${label}${sample}`;
+};
+
+/** One line per non-empty item; an empty list means there is nothing worth sending. */
+const buildDigestLines = (digest: Digest): string[] => {
+    const lines: string[] = [];
+    const lowStockCount = Number(digest.lowStockCount) || 0;
+    const lowStockParts = digest.lowStockParts || [];
+
+    if (digest.role === 'admin') {
+        if (digest.pendingReviews) lines.push(`${digest.pendingReviews} request menunggu review`);
+        if (digest.awaitingConfirmation) lines.push(`${digest.awaitingConfirmation} pengiriman menunggu konfirmasi engineer`);
+        if (lowStockCount > 0) lines.push(describeLowStock(lowStockCount, lowStockParts, 'part gudang di batas minimum'));
+        return lines;
+    }
+
+    if (lowStockCount > 0) lines.push(describeLowStock(lowStockCount, lowStockParts, 'part Anda di batas minimum'));
+    if (digest.openRequests) lines.push(`${digest.openRequests} request masih berjalan`);
+    return lines;
+};
+
+Deno.serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+        return json(405, { ok: false, error: 'Method not allowed' });
+    }
+
+    try {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL');
+        const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+        const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+        if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceRoleKey) {
+            return json(500, { ok: false, error: 'Secret function belum lengkap di environment.' });
+        }
+
+        const authHeader = req.headers.get('Authorization') ?? '';
+        if (!authHeader.toLowerCase().startsWith('bearer ')) {
+            return json(401, { ok: false, error: 'Missing bearer token.' });
+        }
+
+        const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+        const isSystemCall = authHeader.slice(7).trim() === supabaseServiceRoleKey;
+        if (!isSystemCall) {
+            const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+                global: { headers: { Authorization: authHeader } },
+            });
+
+            const {
+                data: { user },
+                error: userError,
+            } = await userClient.auth.getUser();
+
+            if (userError || !user) {
+                return json(401, { ok: false, error: 'Token tidak valid.' });
+            }
+
+            const { data: profile } = await serviceClient
+                .from('profiles')
+                .select('role')
+                .eq('id', user.id)
+                .maybeSingle();
+
+            if (profile?.role !== 'admin') {
+                return json(403, { ok: false, error: 'Hanya admin yang boleh menjalankan digest.' });
+            }
+        }
+
+        const { data: collected, error: collectError } = await serviceClient.rpc('collect_due_digests');
+        if (collectError) {
+            console.error('[notification-digest] collect_due_digests failed:', collectError);
+            return json(500, { ok: false, error: 'Gagal menyusun digest.' });
+        }
+
+        const digests = (collected as CollectResult | null)?.digests || [];
+        const handledUserIds: string[] = [];
+        let sent = 0;
+
+        for (const digest of digests) {
+            const lines = buildDigestLines(digest);
+            if (lines.length === 0) {
+                // Nothing to report today; still counts as this period's digest.
+                handledUserIds.push(digest.userId);
+                continue;
+            }
+
+            const title = TITLE[digest.frequency];
+            const body = lines.join('\n');
+            const data = { type: 'digest', frequency: digest.frequency };
+
+            const { error: logError } = await serviceClient.from('notifications').insert({
+                user_id: digest.userId,
+                title,
+                body,
+                data,
+                is_read: false,
+                type: 'digest',
+            });
+            if (logError) {
+                console.error('[notification-digest] Notification log failed:', logError);
+            }
+
+            const pushRes = await fetch(`${supabaseUrl}/functions/v1/push-gateway`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${supabaseServiceRoleKey}`,
+                },
+                body: JSON.stringify({
+                    title,
+                    body,
+                    include_aliases: { external_id: [digest.userId] },
+                    target_channel: 'push',
+                    data,
+                    notification_type: 'digest',
+                }),
+            }).catch((error) => {
+                console.error('[notification-digest] Push gateway unreachable:', error);
+                return null;
+            });
+
+            if (pushRes && !pushRes.ok) {
+                console.error('[notification-digest] Push gateway error:', pushRes.status, await pushRes.text());
+            }
+
+            // Retry on the next run only when neither channel got through.
+            if (!logError || pushRes?.ok) {
+                handledUserIds.push(digest.userId);
+                sent += 1;
+            }
+        }
+
+        if (handledUserIds.length > 0) {
+            const { error: markError } = await serviceClient.rpc('mark_digests_sent', {
+                p_user_ids: handledUserIds,
+            });
+            if (markError) {
+                console.error('[notification-digest] mark_digests_sent failed:', markError);
+            }
+        }
+
+        return json(200, {
+            ok: true,
+            due: digests.length,
+            sent,
+            skipped: handledUserIds.length - sent,
+        });
+    } catch (error) {
+        console.error('[notification-digest] Unexpected error:', error);
+        return json(500, { ok: false, error: 'Unexpected digest error.' });
+    }
+});
@@ -11,6 +11,8 @@ type PushRequest = {
     included_segments?: string[];
     target_channel?: 'push';
     data?: unknown;
+    /** notifications.type of this message; recipients' preferences for it decide who gets the push. */
+    notification_type?: string;
 };
 
 type OneSignalPayload = {
@@ -152,39 +154,56 @@ Deno.serve(async (req: Request) => {
             return json(401, { error: 'Missing bearer token.' });
         }
 
-        const userClient = createClient(supabaseUrl, supabaseAnonKey, {
-            global: { headers: { Authorization: authHeader } },
-        });
+        // Server-side callers (scheduled functions) authenticate with the service role key.
+        const isSystemCall = authHeader.slice(7).trim() === supabaseServiceRoleKey;
+        const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+        let senderId = 'system';
+        let isAdmin = isSystemCall;
 
-        const {
-            data: { user },
-            error: userError,
-        } = await userClient.auth.getUser();
+        if (!isSystemCall) {
+            const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+                global: { headers: { Authorization: authHeader } },
+            });
 
-        if (userError || !user) {
-            return json(401, { error: 'Token tidak valid.' });
+            const {
+                data: { user },
+                error: userError,
+            } = await userClient.auth.getUser();
+
+            if (userError || !user) {
+                return json(401, { error: 'Token tidak valid.' });
+            }
+
+            const { data: profile } = await serviceClient
+                .from('profiles')
+                .select('role')
+                .eq('id', user.id)
+                .maybeSingle();
+
+            senderId = user.id;
+            isAdmin = profile?.role === 'admin';
         }
 
         let payload: OneSignalPayload;
+        let notificationType = 'system';
         try {
             const body = (await req.json()) as PushRequest;
             payload = buildOneSignalPayload(body, oneSignalAppId, oneSignalLargeIconUrl);
+            notificationType = normalizeText(body.notification_type, 40) || 'system';
         } catch (error) {
             return json(400, { error: error instanceof Error ? error.message : 'Payload tidak valid.' });
         }
 
-        const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey);
-        const { data: profile } = await serviceClient
-            .from('profiles')
-            .select('role')
-            .eq('id', user.id)
-            .maybeSingle();
-
-        const isAdmin = profile?.role === 'admin';
         const targetExternalIds = sanitizeIds(payload.include_aliases?.external_id, 2000);
         const hasSegments = Array.isArray(payload.included_segments) && payload.included_segments.length > 0;
         const hasPlayerIds = Array.isArray(payload.include_player_ids) && payload.include_player_ids.length > 0;
 
+        // Segments and player ids cannot be matched to users, so their preferences and quiet hours
+        // cannot be applied; they are only accepted for 'system' messages, which users cannot configure.
+        if ((hasSegments || hasPlayerIds) && notificationType !== 'system') {
+            return json(400, { error: 'Notifikasi per tipe hanya bisa dikirim ke external_id.' });
+        }
+
         if (!isAdmin) {
             if (hasSegments || hasPlayerIds) {
                 return json(403, { error: 'Hanya admin yang boleh kirim ke segments/player_ids.' });
@@ -198,7 +217,7 @@ Deno.serve(async (req: Request) => {
                 return json(403, { error: 'Maksimal 20 penerima untuk non-admin.' });
             }
 
-            const sendingToSelfOnly = targetExternalIds.length === 1 && targetExternalIds[0] === user.id;
+            const sendingToSelfOnly = targetExternalIds.length === 1 && targetExternalIds[0] === senderId;
             if (!sendingToSelfOnly) {
                 const { data: targetProfiles, error: targetProfilesError } = await serviceClient
                     .from('profiles')
@@ -217,6 +236,25 @@ Deno.serve(async (req: Request) => {
             }
         }
 
+        // Drop recipients who turned push off for this type or are inside their quiet hours.
+        if (targetExternalIds.length > 0) {
+            const { data: recipients, error: recipientsError } = await serviceClient.rpc('notification_push_recipients', {
+                p_user_ids: targetExternalIds,
+                p_type: notificationType,
+            });
+
+            if (recipientsError) {
+                console.error('[push-gateway] notification_push_recipients failed:', recipientsError);
+                return json(500, { error: 'Gagal membaca preferensi notifikasi.' });
+            }
+
+            const allowedIds = (recipients as string[] | null) || [];
+            if (allowedIds.length === 0) {
+                return json(200, { ok: true, sender: senderId, skipped: true });
+            }
+            payload.include_aliases = { external_id: allowedIds };
+        }
+
         const oneSignalRes = await fetch('https://api.onesignal.com/notifications?c=push', {
             method: 'POST',
             headers: {
@@ -236,7 +274,7 @@ Deno.serve(async (req: Request) => {
 
         return json(200, {
             ok: true,
-            sender: user.id,
+            sender: senderId,
             result: oneSignalBody,
         });
     } catch (error) {
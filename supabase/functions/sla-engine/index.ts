@@ -0,0 +1,246 @@
+/// <reference path="./types.d.ts" />
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type SlaStage = 'pending' | 'approved' | 'delivered';
+
+type SlaEvent = {
+    eventId: string;
+    requestId: string;
+    stage: SlaStage;
+    kind: 'reminder' | 'breach';
+    hoursOpen: number;
+    engineerId?: string | null;
+    engineerName?: string | null;
+    areaGroup?: string | null;
+    responsibleAdminId?: string | null;
+};
+
+type EvaluateResult = {
+    ok: boolean;
+    code: 'evaluated';
+    resolved?: number;
+    events?: SlaEvent[];
+};
+
+type OutgoingNotification = {
+    eventId: string;
+    userIds: string[];
+    title: string;
+    body: string;
+    data: Record<string, unknown>;
+};
+
+const STAGE_LABEL: Record<SlaStage, string> = {
+    pending: 'menunggu review',
+    approved: 'menunggu pengiriman',
+    delivered: 'menunggu konfirmasi terima',
+};
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers',
+};
+
+const json = (status: number, payload: Record<string, unknown>) =>
+    new Response(JSON.stringify(payload), {
+        status,
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+        },
+    });
+
+const unique = (ids: (string | null | undefined)[]) =>
+    Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+
+/**
+ * Reminders go to whoever has to act next; breaches escalate to every admin
+ * (and, for unconfirmed deliveries, to the engineer as well).
+ */
+const buildNotification = (event: SlaEvent, adminIds: string[]): OutgoingNotification => {
+    const hours = Math.round(Number(event.hoursOpen) || 0);
+    const who = `${event.engineerName || 'Engineer'}${event.areaGroup ? ` (${event.areaGroup})` : ''}`;
+    const data = {
+        request_id: event.requestId,
+        stage: event.stage,
+        sla: event.kind,
+        type: 'sla',
+    };
+
+    if (event.kind === 'reminder') {
+        if (event.stage === 'delivered') {
+            return {
+                eventId: event.eventId,
+                userIds: unique([event.engineerId]),
+                title: 'Pengingat Konfirmasi Barang',
+                body: `Barang request Anda sudah dikirim ${hours} jam lalu. Mohon konfirmasi penerimaan.`,
+                data,
+            };
+        }
+        return {
+            eventId: event.eventId,
+            userIds: event.stage === 'approved' && event.responsibleAdminId ? [event.responsibleAdminId] : adminIds,
+            title: 'Pengingat SLA Request',
+            body: `Request ${who} ${STAGE_LABEL[event.stage]} sudah ${hours} jam.`,
+            data,
+        };
+    }
+
+    return {
+        eventId: event.eventId,
+        userIds: unique([...adminIds, event.stage === 'delivered' ? event.engineerId : null]),
+        title: 'Eskalasi SLA Request',
+        body: `SLA terlewati: request ${who} ${STAGE_LABEL[event.stage]} ${hours} jam.`,
+        data,
+    };
+};
+
+Deno.serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+        return json(405, { ok: false, error: 'Method not allowed' });
+    }
+
+    try {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL');
+        const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+        const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+        if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceRoleKey) {
+            return json(500, { ok: false, error: 'Secret function belum lengkap di environment.' });
+        }
+
+        const authHeader = req.headers.get('Authorization') ?? '';
+        if (!authHeader.toLowerCase().startsWith('bearer ')) {
+            return json(401, { ok: false, error: 'Missing bearer token.' });
+        }
+
+        const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+        // Scheduler calls with the service role key; admins may also trigger a run from the app.
+        const isSystemCall = authHeader.slice(7).trim() === supabaseServiceRoleKey;
+        if (!isSystemCall) {
+            const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+                global: { headers: { Authorization: authHeader } },
+            });
+
+            const {
+                data: { user },
+                error: userError,
+            } = await userClient.auth.getUser();
+
+            if (userError || !user) {
+                return json(401, { ok: false, error: 'Token tidak valid.' });
+            }
+
+            const { data: profile } = await serviceClient
+                .from('profiles')
+                .select('role')
+                .eq('id', user.id)
+                .maybeSingle();
+
+            if (profile?.role !== 'admin') {
+                return json(403, { ok: false, error: 'Hanya admin yang boleh menjalankan evaluasi SLA.' });
+            }
+        }
+
+        const { data: evaluated, error: evaluateError } = await serviceClient.rpc('evaluate_request_slas');
+        if (evaluateError) {
+            console.error('[sla-engine] evaluate_request_slas failed:', evaluateError);
+            return json(500, { ok: false, error: 'Evaluasi SLA gagal.' });
+        }
+
+        const result = evaluated as EvaluateResult | null;
+        const events = result?.events || [];
+        if (events.length === 0) {
+            return json(200, { ok: true, resolved: result?.resolved || 0, events: 0, notified: 0 });
+        }
+
+        const { data: admins, error: adminsError } = await serviceClient
+            .from('profiles')
+            .select('id')
+            .eq('role', 'admin')
+            .eq('is_active', true);
+
+        if (adminsError) {
+            console.error('[sla-engine] Failed to load admins:', adminsError);
+            return json(500, { ok: false, error: 'Gagal memuat daftar admin.' });
+        }
+
+        const adminIds = unique((admins || []).map((row) => row.id));
+        const outgoing = events
+            .map((event) => buildNotification(event, adminIds))
+            .filter((item) => item.userIds.length > 0);
+
+        const notifiedEventIds: string[] = [];
+        for (const item of outgoing) {
+            const { error: logError } = await serviceClient.from('notifications').insert(
+                item.userIds.map((userId) => ({
+                    user_id: userId,
+                    title: item.title,
+                    body: item.body,
+                    data: item.data,
+                    is_read: false,
+                    type: 'sla',
+                })),
+            );
+            if (logError) {
+                console.error('[sla-engine] Notification log failed:', logError);
+            }
+
+            const pushRes = await fetch(`${supabaseUrl}/functions/v1/push-gateway`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${supabaseServiceRoleKey}`,
+                },
+                body: JSON.stringify({
+                    title: item.title,
+                    body: item.body,
+                    include_aliases: { external_id: item.userIds },
+                    target_channel: 'push',
+                    data: item.data,
+                    notification_type: 'sla',
+                }),
+            }).catch((error) => {
+                console.error('[sla-engine] Push gateway unreachable:', error);
+                return null;
+            });
+
+            if (pushRes && !pushRes.ok) {
+                console.error('[sla-engine] Push gateway error:', pushRes.status, await pushRes.text());
+            }
+
+            // The in-app notification is enough to count the event as delivered.
+            if (!logError || pushRes?.ok) {
+                notifiedEventIds.push(item.eventId);
+            }
+        }
+
+        if (notifiedEventIds.length > 0) {
+            const { error: markError } = await serviceClient.rpc('mark_request_sla_events_notified', {
+                p_event_ids: notifiedEventIds,
+            });
+            if (markError) {
+                console.error('[sla-engine] mark_request_sla_events_notified failed:', markError);
+            }
+        }
+
+        return json(200, {
+            ok: true,
+            resolved: result?.resolved || 0,
+            events: events.length,
+            notified: notifiedEventIds.length,
+        });
+    } catch (error) {
+        console.error('[sla-engine] Unexpected error:', error);
+        return json(500, { ok: false, error: 'Unexpected SLA engine error.' });
+    }
+});
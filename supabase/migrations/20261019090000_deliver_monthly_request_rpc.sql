@@ -0,0 +1,150 @@
+-- Atomic delivery of an approved monthly request.
+-- Replaces the client-side inventory loop in approved.tsx: validates status, checks
+-- warehouse availability, decrements every part and flips the request to delivered
+-- in a single transaction. Shortages are returned per part instead of raising so the
+-- admin screen can show which part blocks the delivery.
+
+ALTER TABLE public.monthly_requests
+  ADD COLUMN IF NOT EXISTS delivered_items jsonb;
+
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_is_adjusted boolean;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'approved' THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  -- Requested qty per part, capped delivery qty from the admin adjustment (if any).
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(COALESCE(v_request.items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(i.total_stock, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR i.total_stock < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_delivered_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      items = v_delivered_items,
+      delivered_items = v_delivered_items,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'items', v_delivered_items,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb) TO authenticated, service_role;
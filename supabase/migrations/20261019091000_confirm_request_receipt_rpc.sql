@@ -0,0 +1,122 @@
+-- Transactional confirm-receipt for engineers.
+-- Flips a delivered request to completed, credits engineer_stock additively and writes
+-- one stock_adjustments row per part in the same transaction. The request row is locked
+-- first, so a double tap or a second device sees the completed status and is a no-op.
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS request_id uuid REFERENCES public.monthly_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_request_id_idx
+  ON public.stock_adjustments (request_id);
+
+CREATE OR REPLACE FUNCTION public.confirm_monthly_request_receipt(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_request public.monthly_requests%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_now timestamptz := now();
+  v_item record;
+  v_new_qty integer;
+  v_credited jsonb := '[]'::jsonb;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+    AND engineer_id = v_uid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_request.status = 'completed' THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'already_completed',
+      'confirmed_at', v_request.confirmed_at
+    );
+  END IF;
+
+  IF v_request.status <> 'delivered' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_request.status);
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  FOR v_item IN
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(v_request.delivered_items, v_request.items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+    HAVING SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0)) > 0
+    ORDER BY item->>'partId'
+  LOOP
+    INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+    VALUES (v_uid, v_item.part_id, v_item.qty, v_now)
+    ON CONFLICT (engineer_id, part_id) DO UPDATE
+      SET quantity = es.quantity + EXCLUDED.quantity,
+          last_sync = EXCLUDED.last_sync
+    RETURNING es.quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      request_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      COALESCE((SELECT i.part_name FROM public.inventory i WHERE i.id = v_item.part_id), v_item.part_id),
+      v_new_qty - v_item.qty,
+      v_new_qty,
+      v_item.qty,
+      'Konfirmasi terima request bulanan',
+      v_profile.location,
+      p_request_id,
+      v_now
+    );
+
+    v_credited := v_credited || jsonb_build_object(
+      'partId', v_item.part_id,
+      'quantity', v_item.qty,
+      'newQuantity', v_new_qty
+    );
+  END LOOP;
+
+  UPDATE public.monthly_requests
+  SET status = 'completed',
+      confirmed_at = v_now
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'completed',
+    'confirmed_at', v_now,
+    'items', v_credited
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.confirm_monthly_request_receipt(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.confirm_monthly_request_receipt(uuid) TO authenticated, service_role;
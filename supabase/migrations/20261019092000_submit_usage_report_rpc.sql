@@ -0,0 +1,155 @@
+-- Atomic usage-report submission for engineers.
+-- Inserts the usage_reports row, decrements engineer_stock per part and writes one
+-- stock_adjustments row per part linked to the report, all in one transaction. If any
+-- part is short the whole report is rejected and the shortages are returned per part.
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS usage_report_id uuid REFERENCES public.usage_reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_usage_report_id_idx
+  ON public.stock_adjustments (usage_report_id);
+
+CREATE OR REPLACE FUNCTION public.submit_usage_report(
+  p_so_number text,
+  p_description text,
+  p_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_so_number text := btrim(COALESCE(p_so_number, ''));
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_report_id uuid;
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_so_number !~ '^\d{8,20}$' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_so_number');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', grouped.part_id,
+      'part_name', COALESCE(i.part_name, grouped.part_name, grouped.part_id),
+      'qty', grouped.qty
+    ) ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      MAX(item->>'partName') AS part_name,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  -- Lock the engineer's stock rows before checking availability.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id = v_uid
+    AND es.part_id IN (
+      SELECT d.part_id FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+    )
+  ORDER BY es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d.part_id
+  WHERE COALESCE(es.quantity, 0) < d.qty;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.usage_reports (engineer_id, so_number, description, items, date)
+  SELECT
+    v_uid,
+    v_so_number,
+    NULLIF(btrim(COALESCE(p_description, '')), ''),
+    jsonb_agg(jsonb_build_object('partId', d.part_id, 'partName', d.part_name, 'quantity', d.qty) ORDER BY d.part_id),
+    v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  RETURNING id INTO v_report_id;
+
+  FOR v_item IN
+    SELECT d.part_id, d.part_name, d.qty
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_uid
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      usage_report_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      v_item.part_name,
+      v_new_qty + v_item.qty,
+      v_new_qty,
+      -v_item.qty,
+      'Pemakaian SO ' || v_so_number,
+      v_profile.location,
+      v_report_id,
+      v_now
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'report_id', v_report_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_usage_report(text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_usage_report(text, text, jsonb) TO authenticated, service_role;
@@ -0,0 +1,309 @@
+-- Idempotent replay for the engineer offline outbox.
+-- Every queued usage report / stock correction carries a client_ref generated on the
+-- device. Replaying the same entry twice (lost response, app restart mid-sync) returns
+-- the original result instead of applying the stock change again.
+
+ALTER TABLE public.usage_reports
+  ADD COLUMN IF NOT EXISTS client_ref text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS usage_reports_engineer_client_ref_key
+  ON public.usage_reports (engineer_id, client_ref)
+  WHERE client_ref IS NOT NULL;
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS client_ref text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_adjustments_engineer_client_ref_key
+  ON public.stock_adjustments (engineer_id, client_ref)
+  WHERE client_ref IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.submit_usage_report(text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.submit_usage_report(
+  p_so_number text,
+  p_description text,
+  p_items jsonb,
+  p_client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_so_number text := btrim(COALESCE(p_so_number, ''));
+  v_client_ref text := NULLIF(btrim(COALESCE(p_client_ref, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_report_id uuid;
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_client_ref IS NOT NULL THEN
+    -- Serialize replays of the same entry so the duplicate check below is reliable.
+    PERFORM pg_advisory_xact_lock(hashtext(v_uid::text || ':' || v_client_ref));
+
+    SELECT id
+    INTO v_report_id
+    FROM public.usage_reports
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'report_id', v_report_id
+      );
+    END IF;
+  END IF;
+
+  IF v_so_number !~ '^\d{8,20}$' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_so_number');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', grouped.part_id,
+      'part_name', COALESCE(i.part_name, grouped.part_name, grouped.part_id),
+      'qty', grouped.qty
+    ) ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      MAX(item->>'partName') AS part_name,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  -- Lock the engineer's stock rows before checking availability.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id = v_uid
+    AND es.part_id IN (
+      SELECT d.part_id FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+    )
+  ORDER BY es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d.part_id
+  WHERE COALESCE(es.quantity, 0) < d.qty;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.usage_reports (engineer_id, so_number, description, items, date, client_ref)
+  SELECT
+    v_uid,
+    v_so_number,
+    NULLIF(btrim(COALESCE(p_description, '')), ''),
+    jsonb_agg(jsonb_build_object('partId', d.part_id, 'partName', d.part_name, 'quantity', d.qty) ORDER BY d.part_id),
+    v_now,
+    v_client_ref
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  RETURNING id INTO v_report_id;
+
+  FOR v_item IN
+    SELECT d.part_id, d.part_name, d.qty
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_uid
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      usage_report_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      v_item.part_name,
+      v_new_qty + v_item.qty,
+      v_new_qty,
+      -v_item.qty,
+      'Pemakaian SO ' || v_so_number,
+      v_profile.location,
+      v_report_id,
+      v_now
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'report_id', v_report_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_usage_report(text, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_usage_report(text, text, jsonb, text) TO authenticated, service_role;
+
+-- Engineer stock correction (absolute quantity). p_expected_quantity is the quantity the
+-- engineer saw when counting; if stock moved since then (delivery confirmed, usage synced)
+-- the correction is returned as a conflict instead of silently overwriting it.
+CREATE OR REPLACE FUNCTION public.submit_stock_correction(
+  p_part_id text,
+  p_new_quantity integer,
+  p_reason text,
+  p_expected_quantity integer DEFAULT NULL,
+  p_client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_client_ref text := NULLIF(btrim(COALESCE(p_client_ref, '')), '');
+  v_reason text := btrim(COALESCE(p_reason, ''));
+  v_now timestamptz := now();
+  v_current integer;
+  v_adjustment_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_client_ref IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_uid::text || ':' || v_client_ref));
+
+    SELECT id, new_quantity
+    INTO v_adjustment_id, v_current
+    FROM public.stock_adjustments
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'adjustment_id', v_adjustment_id,
+        'new_quantity', v_current
+      );
+    END IF;
+  END IF;
+
+  IF p_new_quantity IS NULL OR p_new_quantity < 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF v_reason = '' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  SELECT quantity
+  INTO v_current
+  FROM public.engineer_stock
+  WHERE engineer_id = v_uid
+    AND part_id = p_part_id
+  FOR UPDATE;
+
+  v_current := COALESCE(v_current, 0);
+
+  IF p_expected_quantity IS NOT NULL AND p_expected_quantity <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_quantity',
+      'current_quantity', v_current,
+      'expected_quantity', p_expected_quantity
+    );
+  END IF;
+
+  INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+  VALUES (v_uid, p_part_id, p_new_quantity, v_now)
+  ON CONFLICT (engineer_id, part_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        last_sync = EXCLUDED.last_sync;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.stock_adjustments (
+    engineer_id,
+    engineer_name,
+    part_id,
+    part_name,
+    previous_quantity,
+    new_quantity,
+    delta,
+    reason,
+    area_group,
+    client_ref,
+    timestamp
+  )
+  VALUES (
+    v_uid,
+    COALESCE(v_profile.name, ''),
+    p_part_id,
+    COALESCE((SELECT i.part_name FROM public.inventory i WHERE i.id = p_part_id), p_part_id),
+    v_current,
+    p_new_quantity,
+    p_new_quantity - v_current,
+    v_reason,
+    v_profile.location,
+    v_client_ref,
+    v_now
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'adjustment_id', v_adjustment_id,
+    'previous_quantity', v_current,
+    'new_quantity', p_new_quantity
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) TO authenticated, service_role;
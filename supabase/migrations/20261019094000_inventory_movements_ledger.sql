@@ -0,0 +1,409 @@
+-- Warehouse stock ledger.
+-- Every change to inventory.total_stock is captured by a trigger into inventory_movements
+-- with before/after quantities and the acting user. Callers that know why stock moves
+-- (delivery RPC, admin receipt/correction RPC) tag the transaction first through
+-- set_inventory_movement_context(); untagged changes are recorded as corrections so a
+-- direct table edit still leaves a trail.
+
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_id text NOT NULL,
+  part_name text,
+  movement_type text NOT NULL CHECK (movement_type IN ('receipt', 'correction', 'delivery', 'rollback')),
+  quantity_before integer NOT NULL,
+  quantity_after integer NOT NULL,
+  delta integer NOT NULL,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_name text,
+  request_id uuid REFERENCES public.monthly_requests(id) ON DELETE SET NULL,
+  note text,
+  -- clock_timestamp keeps several movements of one transaction in order.
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_movements_part_created_idx
+  ON public.inventory_movements (part_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS inventory_movements_request_id_idx
+  ON public.inventory_movements (request_id);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.inventory_movements TO authenticated;
+GRANT ALL ON TABLE public.inventory_movements TO service_role;
+
+-- Read-only for admins; rows are only written by the trigger below.
+DROP POLICY IF EXISTS inventory_movements_select_admin ON public.inventory_movements;
+CREATE POLICY inventory_movements_select_admin
+ON public.inventory_movements
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.set_inventory_movement_context(
+  p_type text,
+  p_request_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT
+    set_config('babypart.movement_type', COALESCE(p_type, ''), true),
+    set_config('babypart.movement_request_id', COALESCE(p_request_id::text, ''), true),
+    set_config('babypart.movement_note', COALESCE(p_note, ''), true);
+$$;
+
+REVOKE ALL ON FUNCTION public.set_inventory_movement_context(text, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_inventory_movement_context(text, uuid, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.capture_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(current_setting('babypart.movement_type', true), '');
+  v_request_id uuid := NULLIF(current_setting('babypart.movement_request_id', true), '')::uuid;
+  v_note text := NULLIF(current_setting('babypart.movement_note', true), '');
+  v_before integer;
+  v_after integer := COALESCE(NEW.total_stock, 0);
+  v_actor_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_before := 0;
+  ELSE
+    v_before := COALESCE(OLD.total_stock, 0);
+  END IF;
+
+  IF v_before = v_after THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_type IS NULL THEN
+    v_type := CASE WHEN TG_OP = 'INSERT' THEN 'receipt' ELSE 'correction' END;
+  END IF;
+
+  SELECT p.name INTO v_actor_name FROM public.profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO public.inventory_movements (
+    part_id,
+    part_name,
+    movement_type,
+    quantity_before,
+    quantity_after,
+    delta,
+    actor_id,
+    actor_name,
+    request_id,
+    note
+  )
+  VALUES (
+    NEW.id,
+    NEW.part_name,
+    v_type,
+    v_before,
+    v_after,
+    v_after - v_before,
+    auth.uid(),
+    v_actor_name,
+    v_request_id,
+    v_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_capture_movement ON public.inventory;
+CREATE TRIGGER inventory_capture_movement
+AFTER INSERT OR UPDATE OF total_stock ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.capture_inventory_movement();
+
+-- Admin add / correct for a single part. p_expected_stock is the stock shown on screen;
+-- if it moved in the meantime the change is rejected instead of overwriting it.
+CREATE OR REPLACE FUNCTION public.adjust_inventory_stock(
+  p_part_id text,
+  p_mode text,
+  p_quantity integer,
+  p_expected_stock integer DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current integer;
+  v_next integer;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mengubah stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode NOT IN ('add', 'adjust') THEN
+    RAISE EXCEPTION 'Mode stok tidak dikenal: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL
+    OR (p_mode = 'add' AND p_quantity <= 0)
+    OR (p_mode = 'adjust' AND p_quantity < 0) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  SELECT total_stock
+  INTO v_current
+  FROM public.inventory
+  WHERE id = p_part_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF p_expected_stock IS NOT NULL AND p_expected_stock <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_stock',
+      'current_stock', v_current
+    );
+  END IF;
+
+  v_next := CASE WHEN p_mode = 'add' THEN v_current + p_quantity ELSE p_quantity END;
+
+  PERFORM public.set_inventory_movement_context(
+    CASE WHEN p_mode = 'add' THEN 'receipt' ELSE 'correction' END,
+    NULL,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  );
+
+  UPDATE public.inventory
+  SET total_stock = v_next,
+      last_updated = now()
+  WHERE id = p_part_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'previous_stock', v_current,
+    'new_stock', v_next
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text) TO authenticated, service_role;
+
+-- Warehouse stock as it was at p_at. The last movement at or before p_at gives the
+-- quantity after it; parts whose first movement is later fall back to that movement's
+-- before quantity, and parts without any movement keep their current stock.
+CREATE OR REPLACE FUNCTION public.inventory_stock_at(
+  p_at timestamptz,
+  p_part_id text DEFAULT NULL
+)
+RETURNS TABLE (part_id text, part_name text, quantity integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh melihat riwayat stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH parts AS (
+    SELECT i.id, i.part_name, i.total_stock
+    FROM public.inventory i
+    WHERE p_part_id IS NULL OR i.id = p_part_id
+    UNION
+    -- Parts deleted from inventory still have a history.
+    SELECT removed.part_id, removed.part_name, NULL::integer
+    FROM (
+      SELECT DISTINCT ON (m.part_id) m.part_id, m.part_name
+      FROM public.inventory_movements m
+      WHERE (p_part_id IS NULL OR m.part_id = p_part_id)
+        AND NOT EXISTS (SELECT 1 FROM public.inventory i WHERE i.id = m.part_id)
+      ORDER BY m.part_id, m.created_at DESC
+    ) AS removed
+  )
+  SELECT
+    parts.id,
+    parts.part_name,
+    COALESCE(
+      (
+        SELECT m.quantity_after
+        FROM public.inventory_movements m
+        WHERE m.part_id = parts.id
+          AND m.created_at <= p_at
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      ),
+      (
+        SELECT m.quantity_before
+        FROM public.inventory_movements m
+        WHERE m.part_id = parts.id
+          AND m.created_at > p_at
+        ORDER BY m.created_at ASC, m.id ASC
+        LIMIT 1
+      ),
+      parts.total_stock,
+      0
+    )::integer
+  FROM parts
+  ORDER BY parts.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_stock_at(timestamptz, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.inventory_stock_at(timestamptz, text) TO authenticated, service_role;
+
+-- Delivery now tags its inventory decrements so the ledger links them to the request.
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_is_adjusted boolean;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'approved' THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  -- Requested qty per part, capped delivery qty from the admin adjustment (if any).
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(COALESCE(v_request.items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(i.total_stock, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR i.total_stock < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  PERFORM public.set_inventory_movement_context('delivery', p_request_id, NULL);
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_delivered_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      items = v_delivered_items,
+      delivered_items = v_delivered_items,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'items', v_delivered_items,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb) TO authenticated, service_role;
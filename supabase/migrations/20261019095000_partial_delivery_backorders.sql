@@ -0,0 +1,399 @@
+-- Partial delivery and backorders for monthly requests.
+-- items now keeps the original request. Every delivery is a row in
+-- monthly_request_shipments, delivered_items is the running total sent so far and
+-- backorder_items holds what is still owed. A request with an open backorder can be
+-- delivered again (follow-up shipment) until the backorder is empty or closed by admin.
+
+ALTER TABLE public.monthly_requests
+  ADD COLUMN IF NOT EXISTS backorder_items jsonb;
+
+ALTER TABLE public.monthly_requests
+  ADD COLUMN IF NOT EXISTS has_backorder boolean
+  GENERATED ALWAYS AS (COALESCE(jsonb_array_length(backorder_items), 0) > 0) STORED;
+
+CREATE INDEX IF NOT EXISTS monthly_requests_has_backorder_idx
+  ON public.monthly_requests (has_backorder)
+  WHERE has_backorder;
+
+CREATE TABLE IF NOT EXISTS public.monthly_request_shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.monthly_requests(id) ON DELETE CASCADE,
+  items jsonb NOT NULL,
+  is_backorder boolean NOT NULL DEFAULT false,
+  delivered_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  delivered_at timestamptz NOT NULL DEFAULT now(),
+  confirmed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS monthly_request_shipments_request_idx
+  ON public.monthly_request_shipments (request_id, delivered_at);
+
+ALTER TABLE public.monthly_request_shipments ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.monthly_request_shipments TO authenticated;
+GRANT ALL ON TABLE public.monthly_request_shipments TO service_role;
+
+DROP POLICY IF EXISTS monthly_request_shipments_select_owner_or_admin ON public.monthly_request_shipments;
+CREATE POLICY monthly_request_shipments_select_owner_or_admin
+ON public.monthly_request_shipments
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR EXISTS (
+    SELECT 1
+    FROM public.monthly_requests mr
+    WHERE mr.id = request_id
+      AND mr.engineer_id = auth.uid()
+  )
+);
+
+-- Delivers an approved request, or the open backorder of a delivered/completed one.
+-- p_items caps the qty per part for this shipment; whatever is left becomes the backorder.
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_is_backorder boolean;
+  v_plan jsonb;
+  v_shipment_items jsonb;
+  v_backorder_items jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_is_adjusted boolean;
+  v_shipment_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  v_is_backorder := FOUND
+    AND v_request.status IN ('delivered', 'completed')
+    AND v_request.has_backorder;
+
+  IF NOT FOUND OR (v_request.status <> 'approved' AND NOT v_is_backorder) THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  -- Owed qty per part (full request or open backorder), capped by the admin adjustment.
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(
+      CASE WHEN v_is_backorder THEN v_request.backorder_items ELSE COALESCE(v_request.items, '[]'::jsonb) END
+    ) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(i.total_stock, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR i.total_stock < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    'delivery',
+    p_request_id,
+    CASE WHEN v_is_backorder THEN 'Backorder' END
+  );
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', requested_qty - deliver_qty) ORDER BY part_id)
+      FILTER (WHERE requested_qty > deliver_qty),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_shipment_items, v_backorder_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('partId', totals.part_id, 'quantity', totals.qty) ORDER BY totals.part_id), '[]'::jsonb)
+  INTO v_delivered_items
+  FROM (
+    SELECT item->>'partId' AS part_id, SUM((item->>'quantity')::int)::int AS qty
+    FROM jsonb_array_elements(COALESCE(v_request.delivered_items, '[]'::jsonb) || v_shipment_items) AS item
+    GROUP BY item->>'partId'
+  ) AS totals;
+
+  INSERT INTO public.monthly_request_shipments (request_id, items, is_backorder, delivered_by, delivered_at)
+  VALUES (p_request_id, v_shipment_items, v_is_backorder, auth.uid(), v_now)
+  RETURNING id INTO v_shipment_id;
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      delivered_items = v_delivered_items,
+      backorder_items = v_backorder_items,
+      confirmed_at = NULL,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'shipment_id', v_shipment_id,
+    'items', v_shipment_items,
+    'backorder_items', COALESCE(v_backorder_items, '[]'::jsonb),
+    'is_backorder', v_is_backorder,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb) TO authenticated, service_role;
+
+-- Admin gives up on the remaining qty (e.g. part discontinued).
+CREATE OR REPLACE FUNCTION public.close_monthly_request_backorder(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menutup backorder.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_request.has_backorder THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'no_backorder');
+  END IF;
+
+  UPDATE public.monthly_requests
+  SET backorder_items = NULL,
+      last_edited_by = auth.uid(),
+      last_edited_at = now()
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'closed',
+    'backorder_items', v_request.backorder_items
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.close_monthly_request_backorder(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.close_monthly_request_backorder(uuid) TO authenticated, service_role;
+
+-- Confirm receipt now credits only the shipments the engineer has not confirmed yet.
+-- Requests delivered before shipments existed fall back to delivered_items / items.
+CREATE OR REPLACE FUNCTION public.confirm_monthly_request_receipt(p_request_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_request public.monthly_requests%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+  v_now timestamptz := now();
+  v_received jsonb;
+  v_item record;
+  v_new_qty integer;
+  v_credited jsonb := '[]'::jsonb;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+    AND engineer_id = v_uid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_request.status = 'completed' THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'already_completed',
+      'confirmed_at', v_request.confirmed_at
+    );
+  END IF;
+
+  IF v_request.status <> 'delivered' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_request.status);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.monthly_request_shipments s WHERE s.request_id = p_request_id) THEN
+    SELECT COALESCE(jsonb_agg(item), '[]'::jsonb)
+    INTO v_received
+    FROM public.monthly_request_shipments s,
+      jsonb_array_elements(s.items) AS item
+    WHERE s.request_id = p_request_id
+      AND s.confirmed_at IS NULL;
+
+    UPDATE public.monthly_request_shipments
+    SET confirmed_at = v_now
+    WHERE request_id = p_request_id
+      AND confirmed_at IS NULL;
+  ELSE
+    v_received := COALESCE(v_request.delivered_items, v_request.items, '[]'::jsonb);
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  FOR v_item IN
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(v_received) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+    HAVING SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0)) > 0
+    ORDER BY item->>'partId'
+  LOOP
+    INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+    VALUES (v_uid, v_item.part_id, v_item.qty, v_now)
+    ON CONFLICT (engineer_id, part_id) DO UPDATE
+      SET quantity = es.quantity + EXCLUDED.quantity,
+          last_sync = EXCLUDED.last_sync
+    RETURNING es.quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      request_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      COALESCE((SELECT i.part_name FROM public.inventory i WHERE i.id = v_item.part_id), v_item.part_id),
+      v_new_qty - v_item.qty,
+      v_new_qty,
+      v_item.qty,
+      'Konfirmasi terima request bulanan',
+      v_profile.location,
+      p_request_id,
+      v_now
+    );
+
+    v_credited := v_credited || jsonb_build_object(
+      'partId', v_item.part_id,
+      'quantity', v_item.qty,
+      'newQuantity', v_new_qty
+    );
+  END LOOP;
+
+  UPDATE public.monthly_requests
+  SET status = 'completed',
+      confirmed_at = v_now
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'completed',
+    'confirmed_at', v_now,
+    'items', v_credited
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.confirm_monthly_request_receipt(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.confirm_monthly_request_receipt(uuid) TO authenticated, service_role;
@@ -0,0 +1,146 @@
+-- Per-line review of monthly requests.
+-- The admin can approve a request with some lines reduced or zeroed (each with a reason)
+-- or reject it with a free-text reason. The decision per line (requested vs approved qty)
+-- is stored in review_decisions so the engineer sees exactly what changed; items is
+-- rewritten to the approved lines so delivery works from what was approved.
+
+ALTER TABLE public.monthly_requests
+  ADD COLUMN IF NOT EXISTS review_decisions jsonb;
+
+CREATE OR REPLACE FUNCTION public.review_monthly_request(
+  p_request_id uuid,
+  p_decision text,
+  p_items jsonb DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_reason text := NULLIF(btrim(COALESCE(p_reason, '')), '');
+  v_decisions jsonb;
+  v_missing_reasons jsonb;
+  v_approved_items jsonb;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mereview request.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Keputusan review tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  IF p_decision = 'reject' AND v_reason IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  -- One decision per requested part. Parts missing from p_items keep the requested qty.
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(COALESCE(v_request.items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  decided AS (
+    SELECT DISTINCT ON (item->>'partId')
+      item->>'partId' AS part_id,
+      GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0)::int AS approved_qty,
+      NULLIF(btrim(COALESCE(item->>'reason', '')), '') AS reason
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    ORDER BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', r.part_id,
+      'requestedQty', r.requested_qty,
+      'approvedQty', CASE
+        WHEN p_decision = 'reject' THEN 0
+        ELSE LEAST(r.requested_qty, COALESCE(d.approved_qty, r.requested_qty))
+      END,
+      'reason', CASE WHEN p_decision = 'reject' THEN v_reason ELSE d.reason END
+    ) ORDER BY r.part_id), '[]'::jsonb)
+  INTO v_decisions
+  FROM requested r
+  LEFT JOIN decided d ON d.part_id = r.part_id;
+
+  IF p_decision = 'approve' THEN
+    SELECT COALESCE(jsonb_agg(dec->'partId'), '[]'::jsonb)
+    INTO v_missing_reasons
+    FROM jsonb_array_elements(v_decisions) AS dec
+    WHERE (dec->>'approvedQty')::int < (dec->>'requestedQty')::int
+      AND dec->>'reason' IS NULL;
+
+    IF jsonb_array_length(v_missing_reasons) > 0 THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'line_reason_required',
+        'part_ids', v_missing_reasons
+      );
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'partId', dec->>'partId',
+        'quantity', (dec->>'approvedQty')::int
+      ) ORDER BY dec->>'partId'), '[]'::jsonb)
+    INTO v_approved_items
+    FROM jsonb_array_elements(v_decisions) AS dec
+    WHERE (dec->>'approvedQty')::int > 0;
+
+    IF jsonb_array_length(v_approved_items) = 0 THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'empty_approval');
+    END IF;
+
+    UPDATE public.monthly_requests
+    SET status = 'approved',
+        reviewed_by = auth.uid(),
+        reviewed_at = v_now,
+        items = v_approved_items,
+        review_decisions = v_decisions,
+        rejection_reason = NULL
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE public.monthly_requests
+    SET status = 'rejected',
+        reviewed_by = auth.uid(),
+        reviewed_at = v_now,
+        review_decisions = v_decisions,
+        rejection_reason = v_reason
+    WHERE id = p_request_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', CASE WHEN p_decision = 'approve' THEN 'approved' ELSE 'rejected' END,
+    'reviewed_at', v_now,
+    'decisions', v_decisions,
+    'adjusted', EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(v_decisions) AS dec
+      WHERE (dec->>'approvedQty')::int <> (dec->>'requestedQty')::int
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_monthly_request(uuid, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_monthly_request(uuid, text, jsonb, text) TO authenticated, service_role;
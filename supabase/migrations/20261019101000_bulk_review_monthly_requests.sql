@@ -0,0 +1,131 @@
+-- Bulk approval for the Review screen.
+-- Approves every pending request in p_request_ids (as requested, no line changes) in one
+-- transaction by reusing review_monthly_request, and reports the outcome per request.
+-- With p_dry_run nothing is written; the caller gets the same per-request outcome plus a
+-- warehouse preview: demand of the selection on top of already-approved, undelivered
+-- requests and open backorders, compared with inventory.total_stock.
+
+CREATE OR REPLACE FUNCTION public.approve_monthly_requests_bulk(
+  p_request_ids uuid[],
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request record;
+  v_review jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_shortages jsonb;
+  v_approved integer := 0;
+  v_skipped integer := 0;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mereview request.' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_request_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_selection');
+  END IF;
+
+  -- Warehouse preview, computed before any status changes.
+  WITH selected_demand AS (
+    SELECT item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM public.monthly_requests mr,
+      jsonb_array_elements(COALESCE(mr.items, '[]'::jsonb)) AS item
+    WHERE mr.id = ANY (p_request_ids)
+      AND mr.status = 'pending'
+      AND COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  committed_demand AS (
+    SELECT item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM public.monthly_requests mr,
+      jsonb_array_elements(
+        CASE WHEN mr.status = 'approved' THEN COALESCE(mr.items, '[]'::jsonb) ELSE mr.backorder_items END
+      ) AS item
+    WHERE (mr.status = 'approved' OR mr.has_backorder)
+      AND NOT (mr.id = ANY (p_request_ids))
+      AND COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', s.part_id,
+      'partName', COALESCE(i.part_name, s.part_id),
+      'required', s.qty + COALESCE(c.qty, 0),
+      'available', COALESCE(i.total_stock, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY s.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM selected_demand s
+  LEFT JOIN committed_demand c ON c.part_id = s.part_id
+  LEFT JOIN public.inventory i ON i.id = s.part_id
+  WHERE i.id IS NULL OR i.total_stock < s.qty + COALESCE(c.qty, 0);
+
+  FOR v_request IN
+    SELECT ids.id, mr.engineer_id, mr.status
+    FROM unnest(p_request_ids) AS ids(id)
+    LEFT JOIN public.monthly_requests mr ON mr.id = ids.id
+    ORDER BY ids.id
+  LOOP
+    IF v_request.engineer_id IS NULL THEN
+      v_results := v_results || jsonb_build_object('requestId', v_request.id, 'code', 'not_found');
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    IF p_dry_run THEN
+      IF v_request.status = 'pending' THEN
+        v_approved := v_approved + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+      v_results := v_results || jsonb_build_object(
+        'requestId', v_request.id,
+        'engineerId', v_request.engineer_id,
+        'code', CASE WHEN v_request.status = 'pending' THEN 'would_approve' ELSE 'already_processed' END,
+        'status', v_request.status
+      );
+      CONTINUE;
+    END IF;
+
+    v_review := public.review_monthly_request(v_request.id, 'approve', NULL, NULL);
+
+    IF COALESCE((v_review->>'ok')::boolean, false) THEN
+      v_approved := v_approved + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'requestId', v_request.id,
+      'engineerId', v_request.engineer_id,
+      'code', CASE
+        WHEN COALESCE((v_review->>'ok')::boolean, false) THEN 'approved'
+        WHEN v_review->>'code' = 'invalid_status' THEN 'already_processed'
+        ELSE v_review->>'code'
+      END,
+      'status', CASE
+        WHEN COALESCE((v_review->>'ok')::boolean, false) THEN 'approved'
+        ELSE v_review->>'status'
+      END
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', CASE WHEN p_dry_run THEN 'preview' ELSE 'processed' END,
+    'approved', v_approved,
+    'skipped', v_skipped,
+    'results', v_results,
+    'shortages', v_shortages
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.approve_monthly_requests_bulk(uuid[], boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.approve_monthly_requests_bulk(uuid[], boolean) TO authenticated, service_role;
@@ -0,0 +1,164 @@
+-- Per-part request quotas, replacing the hardcoded LoopSheet 20 / others 10 limit in the app.
+-- A rule with area_group NULL is the default for the part; a rule with an area_group overrides
+-- it for engineers whose profile location matches (case-insensitive). Parts without a rule keep
+-- the old default of 10 per request and no monthly cap. allowed_roles NULL means every role.
+-- The same limits are enforced by a trigger on monthly_requests so direct API calls can't bypass them.
+
+CREATE TABLE IF NOT EXISTS public.part_request_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_id text NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  area_group text,
+  max_per_request integer NOT NULL CHECK (max_per_request > 0),
+  max_per_month integer CHECK (max_per_month IS NULL OR max_per_month > 0),
+  allowed_roles text[],
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS part_request_rules_part_area_key
+  ON public.part_request_rules (part_id, COALESCE(upper(btrim(area_group)), ''));
+
+ALTER TABLE public.part_request_rules ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.part_request_rules TO authenticated;
+GRANT ALL ON TABLE public.part_request_rules TO service_role;
+
+DROP POLICY IF EXISTS part_request_rules_select_authenticated ON public.part_request_rules;
+CREATE POLICY part_request_rules_select_authenticated
+ON public.part_request_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS part_request_rules_write_admin ON public.part_request_rules;
+CREATE POLICY part_request_rules_write_admin
+ON public.part_request_rules
+FOR ALL
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.part_request_rules_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.area_group := NULLIF(upper(btrim(COALESCE(NEW.area_group, ''))), '');
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_request_rules_touch ON public.part_request_rules;
+CREATE TRIGGER part_request_rules_touch
+BEFORE INSERT OR UPDATE ON public.part_request_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.part_request_rules_touch();
+
+-- Keep the previous behaviour for LoopSheet parts.
+INSERT INTO public.part_request_rules (part_id, max_per_request)
+SELECT i.id, 20
+FROM public.inventory i
+WHERE regexp_replace(lower(i.part_name || ' ' || i.id), '[^a-z0-9]', '', 'g') ~ 'loopshe?et'
+ON CONFLICT DO NOTHING;
+
+-- Validates the items of a pending request against part_request_rules.
+CREATE OR REPLACE FUNCTION public.enforce_part_request_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_area text;
+  v_line record;
+  v_month_used integer;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'pending'
+    AND OLD.items IS NOT DISTINCT FROM NEW.items
+    AND OLD.month IS NOT DISTINCT FROM NEW.month
+    AND OLD.engineer_id IS NOT DISTINCT FROM NEW.engineer_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT *
+  INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.engineer_id;
+
+  v_area := NULLIF(upper(btrim(COALESCE(v_profile.location, ''))), '');
+
+  FOR v_line IN
+    WITH lines AS (
+      SELECT item->>'partId' AS part_id,
+        SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+      FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb)) AS item
+      WHERE COALESCE(item->>'partId', '') <> ''
+      GROUP BY item->>'partId'
+    )
+    SELECT l.part_id,
+      l.qty,
+      COALESCE(i.part_name, l.part_id) AS part_name,
+      COALESCE(r.max_per_request, 10) AS max_per_request,
+      r.max_per_month,
+      r.allowed_roles
+    FROM lines l
+    LEFT JOIN public.inventory i ON i.id = l.part_id
+    LEFT JOIN LATERAL (
+      SELECT pr.*
+      FROM public.part_request_rules pr
+      WHERE pr.part_id = l.part_id
+        AND (pr.area_group IS NULL OR pr.area_group = v_area)
+      ORDER BY pr.area_group IS NULL
+      LIMIT 1
+    ) r ON true
+    ORDER BY l.part_id
+  LOOP
+    IF v_line.allowed_roles IS NOT NULL
+      AND NOT (COALESCE(v_profile.role::text, '') = ANY (v_line.allowed_roles)) THEN
+      RAISE EXCEPTION '% tidak bisa di-request oleh akun ini.', v_line.part_name
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_line.qty > v_line.max_per_request THEN
+      RAISE EXCEPTION '% maksimal % pcs per request.', v_line.part_name, v_line.max_per_request
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_line.max_per_month IS NOT NULL THEN
+      SELECT COALESCE(SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0)), 0)::int
+      INTO v_month_used
+      FROM public.monthly_requests mr,
+        jsonb_array_elements(COALESCE(mr.items, '[]'::jsonb)) AS item
+      WHERE mr.engineer_id = NEW.engineer_id
+        AND mr.month = NEW.month
+        AND mr.id <> NEW.id
+        AND mr.status NOT IN ('rejected', 'cancelled')
+        AND item->>'partId' = v_line.part_id;
+
+      IF v_month_used + v_line.qty > v_line.max_per_month THEN
+        RAISE EXCEPTION '% maksimal % pcs per bulan (sudah di-request % pcs).',
+          v_line.part_name, v_line.max_per_month, v_month_used
+          USING ERRCODE = '23514';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS monthly_requests_enforce_part_rules ON public.monthly_requests;
+CREATE TRIGGER monthly_requests_enforce_part_rules
+BEFORE INSERT OR UPDATE OF items, month, status, engineer_id ON public.monthly_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_part_request_rules();
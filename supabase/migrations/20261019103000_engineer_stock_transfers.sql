@@ -0,0 +1,370 @@
+-- Engineer-to-engineer stock transfers within an area.
+-- The initiator either offers parts to a peer (kind 'offer', initiator sends) or asks a peer
+-- for parts (kind 'request', peer sends). Nothing moves until the other engineer accepts;
+-- accepting moves engineer_stock from sender to receiver and writes one stock_adjustments
+-- row on each side, linked by transfer_id, in the same transaction.
+
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('offer', 'request')),
+  from_engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  from_engineer_name text,
+  to_engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  to_engineer_name text,
+  initiated_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  area_group text,
+  items jsonb NOT NULL,
+  note text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled')),
+  response_note text,
+  responded_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  responded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (from_engineer_id <> to_engineer_id)
+);
+
+CREATE INDEX IF NOT EXISTS stock_transfers_from_idx
+  ON public.stock_transfers (from_engineer_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS stock_transfers_to_idx
+  ON public.stock_transfers (to_engineer_id, status, created_at DESC);
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.stock_transfers TO authenticated;
+GRANT ALL ON TABLE public.stock_transfers TO service_role;
+
+DROP POLICY IF EXISTS stock_transfers_select_party_or_admin ON public.stock_transfers;
+CREATE POLICY stock_transfers_select_party_or_admin
+ON public.stock_transfers
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR from_engineer_id = auth.uid()
+  OR to_engineer_id = auth.uid()
+);
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS transfer_id uuid REFERENCES public.stock_transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_transfer_idx
+  ON public.stock_adjustments (transfer_id)
+  WHERE transfer_id IS NOT NULL;
+
+-- Active engineers in the caller's area, with their stock of p_part_id when given.
+-- Engineers can't read other profiles directly (profiles RLS), so the picker goes through here.
+CREATE OR REPLACE FUNCTION public.list_area_transfer_peers(p_part_id text DEFAULT NULL)
+RETURNS TABLE (engineer_id uuid, name text, quantity integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, COALESCE(es.quantity, 0)::int
+  FROM public.profiles me
+  JOIN public.profiles p
+    ON upper(btrim(COALESCE(p.location, ''))) = upper(btrim(COALESCE(me.location, '')))
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = p.id
+   AND es.part_id = p_part_id
+  WHERE me.id = auth.uid()
+    AND btrim(COALESCE(me.location, '')) <> ''
+    AND p.id <> me.id
+    AND p.role = 'engineer'
+    AND COALESCE(p.is_active, true) = true
+  ORDER BY COALESCE(es.quantity, 0) DESC, p.name;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_area_transfer_peers(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_area_transfer_peers(text) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(
+  p_peer_id uuid,
+  p_kind text,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_me public.profiles%ROWTYPE;
+  v_peer public.profiles%ROWTYPE;
+  v_from_id uuid;
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_transfer_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('offer', 'request') THEN
+    RAISE EXCEPTION 'Jenis transfer tidak dikenal: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_me FROM public.profiles WHERE id = v_uid;
+  SELECT * INTO v_peer FROM public.profiles WHERE id = p_peer_id;
+
+  IF v_peer.id IS NULL OR v_peer.id = v_uid OR v_peer.role <> 'engineer' OR NOT COALESCE(v_peer.is_active, true) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_peer');
+  END IF;
+
+  IF btrim(COALESCE(v_me.location, '')) = ''
+    OR upper(btrim(COALESCE(v_peer.location, ''))) <> upper(btrim(v_me.location)) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'different_area');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', grouped.part_id,
+      'partName', COALESCE(i.part_name, grouped.part_id),
+      'quantity', grouped.qty
+    ) ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  v_from_id := CASE WHEN p_kind = 'offer' THEN v_uid ELSE v_peer.id END;
+
+  -- Early feedback only; stock is checked again (and locked) on accept.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_from_id
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  INSERT INTO public.stock_transfers (
+    kind,
+    from_engineer_id,
+    from_engineer_name,
+    to_engineer_id,
+    to_engineer_name,
+    initiated_by,
+    area_group,
+    items,
+    note
+  )
+  VALUES (
+    p_kind,
+    v_from_id,
+    CASE WHEN p_kind = 'offer' THEN v_me.name ELSE v_peer.name END,
+    CASE WHEN p_kind = 'offer' THEN v_peer.id ELSE v_uid END,
+    CASE WHEN p_kind = 'offer' THEN v_peer.name ELSE v_me.name END,
+    v_uid,
+    v_me.location,
+    v_plan,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  )
+  RETURNING id INTO v_transfer_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'transfer_id', v_transfer_id,
+    'items', v_plan
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_stock_transfer(uuid, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_stock_transfer(uuid, text, jsonb, text) TO authenticated, service_role;
+
+-- accept / reject: the engineer who did not initiate. cancel: the initiator.
+CREATE OR REPLACE FUNCTION public.respond_stock_transfer(
+  p_transfer_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_shortages jsonb;
+  v_item record;
+  v_from_qty integer;
+  v_to_qty integer;
+  v_from_area text;
+  v_to_area text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('accept', 'reject', 'cancel') THEN
+    RAISE EXCEPTION 'Keputusan transfer tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_transfer
+  FROM public.stock_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_transfer.status);
+  END IF;
+
+  IF (p_decision = 'cancel' AND v_transfer.initiated_by <> v_uid)
+    OR (p_decision <> 'cancel' AND (
+      v_transfer.initiated_by = v_uid
+      OR v_uid NOT IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    )) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+  END IF;
+
+  IF p_decision <> 'accept' THEN
+    UPDATE public.stock_transfers
+    SET status = CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END,
+        response_note = v_note,
+        responded_by = v_uid,
+        responded_at = v_now
+    WHERE id = v_transfer.id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'code', CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END
+    );
+  END IF;
+
+  -- Lock both sides in a stable order before checking the sender's stock.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    AND es.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+    )
+  ORDER BY es.engineer_id, es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_transfer.from_engineer_id
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  SELECT location INTO v_from_area FROM public.profiles WHERE id = v_transfer.from_engineer_id;
+  SELECT location INTO v_to_area FROM public.profiles WHERE id = v_transfer.to_engineer_id;
+
+  FOR v_item IN
+    SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+    FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_transfer.from_engineer_id
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_from_qty;
+
+    INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+    VALUES (v_transfer.to_engineer_id, v_item.part_id, v_item.qty, v_now)
+    ON CONFLICT (engineer_id, part_id) DO UPDATE
+      SET quantity = es.quantity + EXCLUDED.quantity,
+          last_sync = EXCLUDED.last_sync
+    RETURNING es.quantity INTO v_to_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      transfer_id,
+      timestamp
+    )
+    VALUES
+      (
+        v_transfer.from_engineer_id,
+        COALESCE(v_transfer.from_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_from_qty + v_item.qty,
+        v_from_qty,
+        -v_item.qty,
+        'Transfer ke ' || COALESCE(v_transfer.to_engineer_name, '-'),
+        v_from_area,
+        v_transfer.id,
+        v_now
+      ),
+      (
+        v_transfer.to_engineer_id,
+        COALESCE(v_transfer.to_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_to_qty - v_item.qty,
+        v_to_qty,
+        v_item.qty,
+        'Transfer dari ' || COALESCE(v_transfer.from_engineer_name, '-'),
+        v_to_area,
+        v_transfer.id,
+        v_now
+      );
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'accepted',
+      response_note = v_note,
+      responded_by = v_uid,
+      responded_at = v_now
+  WHERE id = v_transfer.id;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'accepted', 'items', v_transfer.items);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.respond_stock_transfer(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.respond_stock_transfer(uuid, text, text) TO authenticated, service_role;
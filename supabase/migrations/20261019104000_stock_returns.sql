@@ -0,0 +1,399 @@
+-- Stock returns from engineers back to the warehouse.
+-- Submitting a return takes the parts out of the engineer's stock straight away (they are in
+-- transit) and logs a stock_adjustments row per part. The admin then receives the return,
+-- which credits inventory.total_stock through the movement ledger as type 'return', or
+-- rejects it, which puts the parts back into the engineer's stock. Both ledgers carry
+-- return_id so each side of a return can be traced to the other.
+
+CREATE TABLE IF NOT EXISTS public.stock_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  engineer_name text,
+  area_group text,
+  items jsonb NOT NULL,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'received', 'rejected', 'cancelled')),
+  admin_note text,
+  processed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  processed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_returns_engineer_idx
+  ON public.stock_returns (engineer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS stock_returns_pending_idx
+  ON public.stock_returns (created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.stock_returns ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.stock_returns TO authenticated;
+GRANT ALL ON TABLE public.stock_returns TO service_role;
+
+DROP POLICY IF EXISTS stock_returns_select_owner_or_admin ON public.stock_returns;
+CREATE POLICY stock_returns_select_owner_or_admin
+ON public.stock_returns
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR engineer_id = auth.uid()
+);
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS return_id uuid REFERENCES public.stock_returns(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_movements
+  ADD COLUMN IF NOT EXISTS return_id uuid REFERENCES public.stock_returns(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_movements
+  DROP CONSTRAINT IF EXISTS inventory_movements_movement_type_check;
+
+ALTER TABLE public.inventory_movements
+  ADD CONSTRAINT inventory_movements_movement_type_check
+  CHECK (movement_type IN ('receipt', 'correction', 'delivery', 'rollback', 'return'));
+
+-- Same as before, plus the babypart.movement_return_id context key.
+CREATE OR REPLACE FUNCTION public.capture_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(current_setting('babypart.movement_type', true), '');
+  v_request_id uuid := NULLIF(current_setting('babypart.movement_request_id', true), '')::uuid;
+  v_return_id uuid := NULLIF(current_setting('babypart.movement_return_id', true), '')::uuid;
+  v_note text := NULLIF(current_setting('babypart.movement_note', true), '');
+  v_before integer;
+  v_after integer := COALESCE(NEW.total_stock, 0);
+  v_actor_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_before := 0;
+  ELSE
+    v_before := COALESCE(OLD.total_stock, 0);
+  END IF;
+
+  IF v_before = v_after THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_type IS NULL THEN
+    v_type := CASE WHEN TG_OP = 'INSERT' THEN 'receipt' ELSE 'correction' END;
+  END IF;
+
+  SELECT p.name INTO v_actor_name FROM public.profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO public.inventory_movements (
+    part_id,
+    part_name,
+    movement_type,
+    quantity_before,
+    quantity_after,
+    delta,
+    actor_id,
+    actor_name,
+    request_id,
+    return_id,
+    note
+  )
+  VALUES (
+    NEW.id,
+    NEW.part_name,
+    v_type,
+    v_before,
+    v_after,
+    v_after - v_before,
+    auth.uid(),
+    v_actor_name,
+    v_request_id,
+    v_return_id,
+    v_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_stock_return(
+  p_items jsonb,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_reason text := NULLIF(btrim(COALESCE(p_reason, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_return_id uuid;
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', grouped.part_id,
+      'partName', COALESCE(i.part_name, grouped.part_id),
+      'quantity', grouped.qty
+    ) ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id = v_uid
+    AND es.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+    )
+  ORDER BY es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.stock_returns (engineer_id, engineer_name, area_group, items, reason)
+  VALUES (v_uid, v_profile.name, v_profile.location, v_plan, v_reason)
+  RETURNING id INTO v_return_id;
+
+  FOR v_item IN
+    SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+    FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_uid
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      return_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      v_item.part_name,
+      v_new_qty + v_item.qty,
+      v_new_qty,
+      -v_item.qty,
+      'Retur ke gudang: ' || v_reason,
+      v_profile.location,
+      v_return_id,
+      v_now
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'return_id', v_return_id,
+    'items', v_plan
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_return(jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_return(jsonb, text) TO authenticated, service_role;
+
+-- receive: admin, credits the warehouse. reject: admin, cancel: the engineer while pending;
+-- both put the parts back into the engineer's stock.
+CREATE OR REPLACE FUNCTION public.process_stock_return(
+  p_return_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_return public.stock_returns%ROWTYPE;
+  v_now timestamptz := now();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('receive', 'reject', 'cancel') THEN
+    RAISE EXCEPTION 'Keputusan retur tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_return
+  FROM public.stock_returns
+  WHERE id = p_return_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF p_decision = 'cancel' THEN
+    IF v_return.engineer_id <> v_uid THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+    END IF;
+  ELSIF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses retur.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_return.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_return.status);
+  END IF;
+
+  IF p_decision = 'reject' AND v_note IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  IF p_decision = 'receive' THEN
+    PERFORM public.set_inventory_movement_context(
+      'return',
+      NULL,
+      'Retur dari ' || COALESCE(v_return.engineer_name, '-') || COALESCE(': ' || v_note, '')
+    );
+    PERFORM set_config('babypart.movement_return_id', v_return.id::text, true);
+
+    FOR v_item IN
+      SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+      FROM jsonb_to_recordset(v_return.items) AS d("partId" text, "partName" text, quantity int)
+      ORDER BY d."partId"
+    LOOP
+      INSERT INTO public.inventory AS i (id, part_name, total_stock, min_stock, last_updated)
+      VALUES (v_item.part_id, COALESCE(v_item.part_name, v_item.part_id), v_item.qty, 0, v_now)
+      ON CONFLICT (id) DO UPDATE
+        SET total_stock = i.total_stock + EXCLUDED.total_stock,
+            last_updated = EXCLUDED.last_updated;
+    END LOOP;
+
+    PERFORM set_config('babypart.movement_return_id', '', true);
+  ELSE
+    FOR v_item IN
+      SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+      FROM jsonb_to_recordset(v_return.items) AS d("partId" text, "partName" text, quantity int)
+      ORDER BY d."partId"
+    LOOP
+      INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+      VALUES (v_return.engineer_id, v_item.part_id, v_item.qty, v_now)
+      ON CONFLICT (engineer_id, part_id) DO UPDATE
+        SET quantity = es.quantity + EXCLUDED.quantity,
+            last_sync = EXCLUDED.last_sync
+      RETURNING es.quantity INTO v_new_qty;
+
+      INSERT INTO public.stock_adjustments (
+        engineer_id,
+        engineer_name,
+        part_id,
+        part_name,
+        previous_quantity,
+        new_quantity,
+        delta,
+        reason,
+        area_group,
+        return_id,
+        timestamp
+      )
+      VALUES (
+        v_return.engineer_id,
+        COALESCE(v_return.engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_new_qty - v_item.qty,
+        v_new_qty,
+        v_item.qty,
+        CASE WHEN p_decision = 'cancel' THEN 'Retur dibatalkan' ELSE 'Retur ditolak: ' || v_note END,
+        v_return.area_group,
+        v_return.id,
+        v_now
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_returns
+  SET status = CASE p_decision
+        WHEN 'receive' THEN 'received'
+        WHEN 'reject' THEN 'rejected'
+        ELSE 'cancelled'
+      END,
+      admin_note = CASE WHEN p_decision = 'cancel' THEN admin_note ELSE v_note END,
+      processed_by = v_uid,
+      processed_at = v_now
+  WHERE id = v_return.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', CASE p_decision
+      WHEN 'receive' THEN 'received'
+      WHEN 'reject' THEN 'rejected'
+      ELSE 'cancelled'
+    END,
+    'status', CASE p_decision
+      WHEN 'receive' THEN 'received'
+      WHEN 'reject' THEN 'rejected'
+      ELSE 'cancelled'
+    END,
+    'items', v_return.items
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.process_stock_return(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_stock_return(uuid, text, text) TO authenticated, service_role;
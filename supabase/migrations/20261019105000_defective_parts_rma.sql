@@ -0,0 +1,252 @@
+-- Defective part / RMA tracking.
+-- An engineer flags a part that was installed under one of their usage reports as defective,
+-- with the SO reference and the symptom. The physical part is then shipped back to the
+-- warehouse and the admin tracks the RMA with the vendor until it is replaced or scrapped.
+-- The part was already consumed by the usage report, so none of these steps touch stock.
+--
+-- Flow: awaiting_return -> shipped (engineer) -> received -> sent_to_vendor -> replaced | scrapped
+-- The admin may also receive a part that was handed over without a shipment, and scrap a
+-- part that never goes to the vendor.
+
+CREATE TABLE IF NOT EXISTS public.defective_parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  usage_report_id uuid REFERENCES public.usage_reports(id) ON DELETE SET NULL,
+  so_number text NOT NULL,
+  engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  engineer_name text,
+  area_group text,
+  part_id text NOT NULL,
+  part_name text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  symptom text NOT NULL,
+  status text NOT NULL DEFAULT 'awaiting_return'
+    CHECK (status IN ('awaiting_return', 'shipped', 'received', 'sent_to_vendor', 'replaced', 'scrapped')),
+  shipment_note text,
+  shipped_at timestamptz,
+  received_at timestamptz,
+  vendor_note text,
+  status_updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status_updated_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS defective_parts_engineer_idx
+  ON public.defective_parts (engineer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS defective_parts_report_idx
+  ON public.defective_parts (usage_report_id, part_id);
+
+CREATE INDEX IF NOT EXISTS defective_parts_open_idx
+  ON public.defective_parts (status, created_at)
+  WHERE status NOT IN ('replaced', 'scrapped');
+
+ALTER TABLE public.defective_parts ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.defective_parts TO authenticated;
+GRANT ALL ON TABLE public.defective_parts TO service_role;
+
+DROP POLICY IF EXISTS defective_parts_select_owner_or_admin ON public.defective_parts;
+CREATE POLICY defective_parts_select_owner_or_admin
+ON public.defective_parts
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR engineer_id = auth.uid()
+);
+
+-- Flag part of a usage report line as defective. The quantity is capped by what the report
+-- used minus what is already flagged for the same report and part.
+CREATE OR REPLACE FUNCTION public.report_defective_part(
+  p_usage_report_id uuid,
+  p_part_id text,
+  p_quantity integer,
+  p_symptom text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_report public.usage_reports%ROWTYPE;
+  v_symptom text := NULLIF(btrim(COALESCE(p_symptom, '')), '');
+  v_used integer;
+  v_part_name text;
+  v_flagged integer;
+  v_defect_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF v_symptom IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'symptom_required');
+  END IF;
+
+  SELECT * INTO v_report
+  FROM public.usage_reports
+  WHERE id = p_usage_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_report.engineer_id <> v_uid THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  SELECT
+    SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int,
+    MAX(item->>'partName')
+  INTO v_used, v_part_name
+  FROM jsonb_array_elements(COALESCE(v_report.items, '[]'::jsonb)) AS item
+  WHERE item->>'partId' = p_part_id;
+
+  IF COALESCE(v_used, 0) <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'part_not_in_report');
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0)::int INTO v_flagged
+  FROM public.defective_parts
+  WHERE usage_report_id = v_report.id
+    AND part_id = p_part_id;
+
+  IF v_flagged + p_quantity > v_used THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'quantity_exceeded',
+      'used', v_used,
+      'flagged', v_flagged
+    );
+  END IF;
+
+  IF v_part_name IS NULL THEN
+    SELECT part_name INTO v_part_name FROM public.inventory WHERE id = p_part_id;
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.defective_parts (
+    usage_report_id,
+    so_number,
+    engineer_id,
+    engineer_name,
+    area_group,
+    part_id,
+    part_name,
+    quantity,
+    symptom
+  )
+  VALUES (
+    v_report.id,
+    v_report.so_number,
+    v_uid,
+    v_profile.name,
+    v_profile.location,
+    p_part_id,
+    COALESCE(v_part_name, p_part_id),
+    p_quantity,
+    v_symptom
+  )
+  RETURNING id INTO v_defect_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'reported',
+    'defect_id', v_defect_id,
+    'status', 'awaiting_return'
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.report_defective_part(uuid, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.report_defective_part(uuid, text, integer, text) TO authenticated, service_role;
+
+-- Move an RMA forward. The engineer who flagged the part may only mark it shipped (or, while
+-- it is still awaiting return, withdraw the flag); every other step belongs to the admin.
+CREATE OR REPLACE FUNCTION public.update_defective_part_status(
+  p_defect_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_is_admin boolean := public.is_admin_user();
+  v_defect public.defective_parts%ROWTYPE;
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_allowed boolean;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status NOT IN ('shipped', 'received', 'sent_to_vendor', 'replaced', 'scrapped', 'withdrawn') THEN
+    RAISE EXCEPTION 'Status RMA tidak dikenal: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_defect
+  FROM public.defective_parts
+  WHERE id = p_defect_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (NOT v_is_admin AND v_defect.engineer_id <> v_uid) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF NOT v_is_admin AND p_status NOT IN ('shipped', 'withdrawn') THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+  END IF;
+
+  v_allowed := CASE p_status
+    WHEN 'shipped' THEN v_defect.status = 'awaiting_return'
+    WHEN 'withdrawn' THEN v_defect.status = 'awaiting_return'
+    WHEN 'received' THEN v_defect.status IN ('awaiting_return', 'shipped')
+    WHEN 'sent_to_vendor' THEN v_defect.status = 'received'
+    WHEN 'replaced' THEN v_defect.status = 'sent_to_vendor'
+    WHEN 'scrapped' THEN v_defect.status IN ('received', 'sent_to_vendor')
+    ELSE false
+  END;
+
+  IF NOT v_allowed THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_transition', 'status', v_defect.status);
+  END IF;
+
+  IF p_status = 'withdrawn' THEN
+    DELETE FROM public.defective_parts WHERE id = v_defect.id;
+    RETURN jsonb_build_object('ok', true, 'code', 'withdrawn');
+  END IF;
+
+  UPDATE public.defective_parts
+  SET status = p_status,
+      shipment_note = CASE WHEN p_status = 'shipped' THEN v_note ELSE shipment_note END,
+      shipped_at = CASE WHEN p_status = 'shipped' THEN v_now ELSE shipped_at END,
+      received_at = CASE WHEN p_status = 'received' THEN v_now ELSE received_at END,
+      vendor_note = CASE
+        WHEN p_status IN ('sent_to_vendor', 'replaced', 'scrapped') THEN COALESCE(v_note, vendor_note)
+        ELSE vendor_note
+      END,
+      status_updated_by = v_uid,
+      status_updated_at = v_now
+  WHERE id = v_defect.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'updated',
+    'status', p_status,
+    'previous_status', v_defect.status
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_defective_part_status(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_defective_part_status(uuid, text, text) TO authenticated, service_role;
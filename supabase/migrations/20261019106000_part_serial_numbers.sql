@@ -0,0 +1,1698 @@
+-- Serial number tracking for serialized parts (boards, modules).
+-- inventory.is_serialized flags a part whose units are traced one by one in part_serials:
+--   in_warehouse  -> captured on warehouse receipt (adjust_inventory_stock, mode 'add'), or
+--                    back from an engineer through a received stock return
+--   with_engineer -> assigned to the engineer by deliver_monthly_request, or moved to a peer
+--                    by an accepted stock transfer
+--   returning     -> named on a pending stock return; back to with_engineer if it is rejected
+--                    or cancelled
+--   installed     -> selected per unit in submit_usage_report, linked to the report and SO
+--   defective     -> an installed unit flagged by report_defective_part for RMA
+-- Counts stay in inventory.total_stock / engineer_stock.quantity as before; serials sit on top.
+-- Every unit of a serialized part moves with exactly one serial, so a part may only be flagged
+-- or unflagged while none of it is in stock, with an engineer or on a pending return.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS is_serialized boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.part_serials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_id text NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  serial_number text NOT NULL,
+  status text NOT NULL DEFAULT 'in_warehouse'
+    CHECK (status IN ('in_warehouse', 'with_engineer', 'returning', 'installed', 'defective')),
+  engineer_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  request_id uuid REFERENCES public.monthly_requests(id) ON DELETE SET NULL,
+  shipment_id uuid REFERENCES public.monthly_request_shipments(id) ON DELETE SET NULL,
+  transfer_id uuid REFERENCES public.stock_transfers(id) ON DELETE SET NULL,
+  return_id uuid REFERENCES public.stock_returns(id) ON DELETE SET NULL,
+  usage_report_id uuid REFERENCES public.usage_reports(id) ON DELETE SET NULL,
+  defective_part_id uuid REFERENCES public.defective_parts(id) ON DELETE SET NULL,
+  so_number text,
+  received_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  installed_at timestamptz,
+  UNIQUE (part_id, serial_number)
+);
+
+CREATE INDEX IF NOT EXISTS part_serials_part_status_idx
+  ON public.part_serials (part_id, status, serial_number);
+
+CREATE INDEX IF NOT EXISTS part_serials_engineer_idx
+  ON public.part_serials (engineer_id, status, part_id);
+
+CREATE INDEX IF NOT EXISTS part_serials_usage_report_idx
+  ON public.part_serials (usage_report_id);
+
+CREATE INDEX IF NOT EXISTS part_serials_return_idx
+  ON public.part_serials (return_id)
+  WHERE return_id IS NOT NULL;
+
+-- Serials of the units flagged in a defect report.
+ALTER TABLE public.defective_parts
+  ADD COLUMN IF NOT EXISTS serials text[] NOT NULL DEFAULT ARRAY[]::text[];
+
+ALTER TABLE public.part_serials ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.part_serials TO authenticated;
+GRANT ALL ON TABLE public.part_serials TO service_role;
+
+DROP POLICY IF EXISTS part_serials_select_owner_or_admin ON public.part_serials;
+CREATE POLICY part_serials_select_owner_or_admin
+ON public.part_serials
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR engineer_id = auth.uid()
+);
+
+-- A part may only switch is_serialized while none of it is in stock, so every unit of a
+-- serialized part in the warehouse, with an engineer or on its way back has a serial.
+CREATE OR REPLACE FUNCTION public.guard_inventory_serialized()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_serialized AND COALESCE(NEW.total_stock, 0) > 0 THEN
+      RAISE EXCEPTION 'Part serialized dimulai dari stok 0.' USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_serialized IS DISTINCT FROM OLD.is_serialized AND (
+    COALESCE(OLD.total_stock, 0) > 0
+    OR EXISTS (
+      SELECT 1
+      FROM public.engineer_stock es
+      WHERE es.part_id = OLD.id
+        AND es.quantity > 0
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.stock_returns sr
+      CROSS JOIN LATERAL jsonb_array_elements(sr.items) AS item
+      WHERE sr.status = 'pending'
+        AND item->>'partId' = OLD.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Status serialized hanya bisa diubah saat part ini tidak ada stoknya di gudang maupun di engineer.'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_guard_serialized ON public.inventory;
+CREATE TRIGGER inventory_guard_serialized
+BEFORE INSERT OR UPDATE OF is_serialized ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_inventory_serialized();
+
+-- Serials named for p_part_id across p_items ([{partId, serials: [..]}]), stored the same way
+-- as on receipt: trimmed, upper-cased, without duplicates.
+CREATE OR REPLACE FUNCTION public.item_serials(p_items jsonb, p_part_id text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(DISTINCT upper(btrim(s))), '[]'::jsonb)
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+  CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(item->'serials', '[]'::jsonb)) AS s
+  WHERE item->>'partId' = p_part_id
+    AND btrim(s) <> '';
+$$;
+
+REVOKE ALL ON FUNCTION public.item_serials(jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.item_serials(jsonb, text) TO service_role;
+
+-- Serialized parts of p_items ([{partId, partName, quantity, serials}]) that do not name
+-- exactly one serial per unit out of the serials p_engineer_id holds. Locks those serials.
+CREATE OR REPLACE FUNCTION public.held_serial_issues(p_engineer_id uuid, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_issues jsonb;
+BEGIN
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.engineer_id = p_engineer_id
+    AND ps.status = 'with_engineer'
+    AND ps.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(p_items) AS d("partId" text)
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', checked.part_id,
+      'partName', checked.part_name,
+      'required', checked.quantity,
+      'valid', checked.valid
+    ) ORDER BY checked.part_id), '[]'::jsonb)
+  INTO v_issues
+  FROM (
+    SELECT
+      d."partId" AS part_id,
+      COALESCE(d."partName", d."partId") AS part_name,
+      d.quantity,
+      (
+        SELECT COUNT(*)::int
+        FROM public.part_serials ps
+        WHERE ps.engineer_id = p_engineer_id
+          AND ps.status = 'with_engineer'
+          AND ps.part_id = d."partId"
+          AND to_jsonb(ps.serial_number) <@ COALESCE(d.serials, '[]'::jsonb)
+      ) AS valid,
+      jsonb_array_length(COALESCE(d.serials, '[]'::jsonb)) AS picked
+    FROM jsonb_to_recordset(p_items) AS d("partId" text, "partName" text, quantity int, serials jsonb)
+    JOIN public.inventory i ON i.id = d."partId" AND i.is_serialized
+  ) AS checked
+  WHERE checked.valid <> checked.quantity
+     OR checked.picked <> checked.quantity;
+
+  RETURN v_issues;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.held_serial_issues(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.held_serial_issues(uuid, jsonb) TO service_role;
+
+-- Same as before, plus p_serials: a receipt of a serialized part must list exactly one
+-- serial per unit. Serials are stored trimmed and upper-cased.
+DROP FUNCTION IF EXISTS public.adjust_inventory_stock(text, text, integer, integer, text);
+
+CREATE OR REPLACE FUNCTION public.adjust_inventory_stock(
+  p_part_id text,
+  p_mode text,
+  p_quantity integer,
+  p_expected_stock integer DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_serials text[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current integer;
+  v_next integer;
+  v_is_serialized boolean;
+  v_serials text[];
+  v_duplicates text[];
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mengubah stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode NOT IN ('add', 'adjust') THEN
+    RAISE EXCEPTION 'Mode stok tidak dikenal: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL
+    OR (p_mode = 'add' AND p_quantity <= 0)
+    OR (p_mode = 'adjust' AND p_quantity < 0) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  SELECT total_stock, is_serialized
+  INTO v_current, v_is_serialized
+  FROM public.inventory
+  WHERE id = p_part_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF p_expected_stock IS NOT NULL AND p_expected_stock <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_stock',
+      'current_stock', v_current
+    );
+  END IF;
+
+  IF p_mode = 'add' AND v_is_serialized THEN
+    SELECT COALESCE(array_agg(DISTINCT upper(btrim(s))), ARRAY[]::text[])
+    INTO v_serials
+    FROM unnest(COALESCE(p_serials, ARRAY[]::text[])) AS s
+    WHERE btrim(s) <> '';
+
+    IF cardinality(v_serials) <> p_quantity THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'serials_required',
+        'required', p_quantity,
+        'provided', cardinality(v_serials)
+      );
+    END IF;
+
+    SELECT COALESCE(array_agg(ps.serial_number ORDER BY ps.serial_number), ARRAY[]::text[])
+    INTO v_duplicates
+    FROM public.part_serials ps
+    WHERE ps.part_id = p_part_id
+      AND ps.serial_number = ANY(v_serials);
+
+    IF cardinality(v_duplicates) > 0 THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'duplicate_serials',
+        'serials', to_jsonb(v_duplicates)
+      );
+    END IF;
+
+    INSERT INTO public.part_serials (part_id, serial_number, received_by)
+    SELECT p_part_id, s, auth.uid()
+    FROM unnest(v_serials) AS s;
+  END IF;
+
+  v_next := CASE WHEN p_mode = 'add' THEN v_current + p_quantity ELSE p_quantity END;
+
+  PERFORM public.set_inventory_movement_context(
+    CASE WHEN p_mode = 'add' THEN 'receipt' ELSE 'correction' END,
+    NULL,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  );
+
+  UPDATE public.inventory
+  SET total_stock = v_next,
+      last_updated = now()
+  WHERE id = p_part_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'previous_stock', v_current,
+    'new_stock', v_next
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[]) TO authenticated, service_role;
+
+-- Same as before, plus p_serials ([{partId, serials: [..]}]): for a serialized part the
+-- shipment must name exactly one in-warehouse serial per unit. The chosen serials move to
+-- the engineer together with the shipment.
+DROP FUNCTION IF EXISTS public.deliver_monthly_request(uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_is_backorder boolean;
+  v_plan jsonb;
+  v_shipment_items jsonb;
+  v_backorder_items jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_serial_plan jsonb;
+  v_serial_issues jsonb;
+  v_is_adjusted boolean;
+  v_shipment_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  v_is_backorder := FOUND
+    AND v_request.status IN ('delivered', 'completed')
+    AND v_request.has_backorder;
+
+  IF NOT FOUND OR (v_request.status <> 'approved' AND NOT v_is_backorder) THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  -- Owed qty per part (full request or open backorder), capped by the admin adjustment.
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(
+      CASE WHEN v_is_backorder THEN v_request.backorder_items ELSE COALESCE(v_request.items, '[]'::jsonb) END
+    ) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(i.total_stock, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR i.total_stock < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  -- Serials picked for each serialized part, checked against the warehouse serials on hand.
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.status = 'in_warehouse'
+    AND ps.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+      JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+      WHERE d.deliver_qty > 0
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  WITH picked AS (
+    SELECT DISTINCT entry->>'partId' AS part_id, upper(btrim(s)) AS serial_number
+    FROM jsonb_array_elements(COALESCE(p_serials, '[]'::jsonb)) AS entry
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(entry->'serials', '[]'::jsonb)) AS s
+    WHERE btrim(s) <> ''
+  ),
+  serialized AS (
+    SELECT
+      d.part_id,
+      COALESCE(i.part_name, d.part_id) AS part_name,
+      d.deliver_qty,
+      (
+        SELECT COALESCE(jsonb_agg(ps.id), '[]'::jsonb)
+        FROM picked pk
+        JOIN public.part_serials ps
+          ON ps.part_id = pk.part_id
+         AND ps.serial_number = pk.serial_number
+         AND ps.status = 'in_warehouse'
+        WHERE pk.part_id = d.part_id
+      ) AS serial_ids,
+      (SELECT COUNT(*)::int FROM picked pk WHERE pk.part_id = d.part_id) AS picked_count
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+    WHERE d.deliver_qty > 0
+  )
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('part_id', part_id, 'serial_ids', serial_ids)), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'partId', part_id,
+        'partName', part_name,
+        'required', deliver_qty,
+        'valid', jsonb_array_length(serial_ids)
+      ) ORDER BY part_id) FILTER (
+        WHERE jsonb_array_length(serial_ids) <> deliver_qty
+          OR picked_count <> jsonb_array_length(serial_ids)
+      ), '[]'::jsonb)
+  INTO v_serial_plan, v_serial_issues
+  FROM serialized;
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'serials_required',
+      'serial_issues', v_serial_issues
+    );
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    'delivery',
+    p_request_id,
+    CASE WHEN v_is_backorder THEN 'Backorder' END
+  );
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', requested_qty - deliver_qty) ORDER BY part_id)
+      FILTER (WHERE requested_qty > deliver_qty),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_shipment_items, v_backorder_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('partId', totals.part_id, 'quantity', totals.qty) ORDER BY totals.part_id), '[]'::jsonb)
+  INTO v_delivered_items
+  FROM (
+    SELECT item->>'partId' AS part_id, SUM((item->>'quantity')::int)::int AS qty
+    FROM jsonb_array_elements(COALESCE(v_request.delivered_items, '[]'::jsonb) || v_shipment_items) AS item
+    GROUP BY item->>'partId'
+  ) AS totals;
+
+  INSERT INTO public.monthly_request_shipments (request_id, items, is_backorder, delivered_by, delivered_at)
+  VALUES (p_request_id, v_shipment_items, v_is_backorder, auth.uid(), v_now)
+  RETURNING id INTO v_shipment_id;
+
+  UPDATE public.part_serials ps
+  SET status = 'with_engineer',
+      engineer_id = v_request.engineer_id,
+      request_id = p_request_id,
+      shipment_id = v_shipment_id,
+      delivered_at = v_now
+  WHERE ps.id IN (
+    SELECT (serial_id #>> '{}')::uuid
+    FROM jsonb_to_recordset(v_serial_plan) AS sp(part_id text, serial_ids jsonb)
+    CROSS JOIN LATERAL jsonb_array_elements(sp.serial_ids) AS serial_id
+  );
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      delivered_items = v_delivered_items,
+      backorder_items = v_backorder_items,
+      confirmed_at = NULL,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'shipment_id', v_shipment_id,
+    'items', v_shipment_items,
+    'backorder_items', COALESCE(v_backorder_items, '[]'::jsonb),
+    'is_backorder', v_is_backorder,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb) TO authenticated, service_role;
+
+-- Same as before, plus serials per item: for a serialized part the engineer names the
+-- serial installed for each unit, out of the serials they hold. The serials are kept on the
+-- report line and marked installed against the report and SO.
+CREATE OR REPLACE FUNCTION public.submit_usage_report(
+  p_so_number text,
+  p_description text,
+  p_items jsonb,
+  p_client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_so_number text := btrim(COALESCE(p_so_number, ''));
+  v_client_ref text := NULLIF(btrim(COALESCE(p_client_ref, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_serial_issues jsonb;
+  v_report_id uuid;
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_client_ref IS NOT NULL THEN
+    -- Serialize replays of the same entry so the duplicate check below is reliable.
+    PERFORM pg_advisory_xact_lock(hashtext(v_uid::text || ':' || v_client_ref));
+
+    SELECT id
+    INTO v_report_id
+    FROM public.usage_reports
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'report_id', v_report_id
+      );
+    END IF;
+  END IF;
+
+  IF v_so_number !~ '^\d{8,20}$' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_so_number');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', grouped.part_id,
+      'part_name', COALESCE(i.part_name, grouped.part_name, grouped.part_id),
+      'qty', grouped.qty,
+      'is_serialized', COALESCE(i.is_serialized, false),
+      'serials', COALESCE((
+        SELECT jsonb_agg(DISTINCT upper(btrim(s)))
+        FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+        CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(item->'serials', '[]'::jsonb)) AS s
+        WHERE item->>'partId' = grouped.part_id
+          AND btrim(s) <> ''
+      ), '[]'::jsonb)
+    ) ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      MAX(item->>'partName') AS part_name,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  -- Lock the engineer's stock rows before checking availability.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id = v_uid
+    AND es.part_id IN (
+      SELECT d.part_id FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+    )
+  ORDER BY es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d.part_id
+  WHERE COALESCE(es.quantity, 0) < d.qty;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'shortages', v_shortages
+    );
+  END IF;
+
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.engineer_id = v_uid
+    AND ps.status = 'with_engineer'
+    AND ps.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean)
+      WHERE d.is_serialized
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', checked.part_id,
+      'partName', checked.part_name,
+      'required', checked.required,
+      'valid', checked.valid
+    ) ORDER BY checked.part_id), '[]'::jsonb)
+  INTO v_serial_issues
+  FROM (
+    SELECT
+      d.part_id,
+      d.part_name,
+      d.qty AS required,
+      (
+        SELECT COUNT(*)::int
+        FROM public.part_serials ps
+        WHERE ps.engineer_id = v_uid
+          AND ps.status = 'with_engineer'
+          AND ps.part_id = d.part_id
+          AND to_jsonb(ps.serial_number) <@ d.serials
+      ) AS valid,
+      jsonb_array_length(d.serials) AS picked
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb)
+    WHERE d.is_serialized
+  ) AS checked
+  WHERE checked.valid <> checked.required
+     OR checked.picked <> checked.valid;
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'serials_required',
+      'serial_issues', v_serial_issues
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.usage_reports (engineer_id, so_number, description, items, date, client_ref)
+  SELECT
+    v_uid,
+    v_so_number,
+    NULLIF(btrim(COALESCE(p_description, '')), ''),
+    jsonb_agg(
+      jsonb_build_object('partId', d.part_id, 'partName', d.part_name, 'quantity', d.qty)
+        || CASE WHEN d.is_serialized THEN jsonb_build_object('serials', d.serials) ELSE '{}'::jsonb END
+      ORDER BY d.part_id
+    ),
+    v_now,
+    v_client_ref
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb)
+  RETURNING id INTO v_report_id;
+
+  UPDATE public.part_serials ps
+  SET status = 'installed',
+      usage_report_id = v_report_id,
+      so_number = v_so_number,
+      installed_at = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean, serials jsonb)
+  WHERE d.is_serialized
+    AND ps.engineer_id = v_uid
+    AND ps.status = 'with_engineer'
+    AND ps.part_id = d.part_id
+    AND to_jsonb(ps.serial_number) <@ d.serials;
+
+  FOR v_item IN
+    SELECT d.part_id, d.part_name, d.qty
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_uid
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      usage_report_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      v_item.part_name,
+      v_new_qty + v_item.qty,
+      v_new_qty,
+      -v_item.qty,
+      'Pemakaian SO ' || v_so_number,
+      v_profile.location,
+      v_report_id,
+      v_now
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'report_id', v_report_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_usage_report(text, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_usage_report(text, text, jsonb, text) TO authenticated, service_role;
+
+-- Same as before, plus serials per item on an offer: the sender names one serial they hold
+-- for each unit of a serialized part. On a request the peer names them when accepting.
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(
+  p_peer_id uuid,
+  p_kind text,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_me public.profiles%ROWTYPE;
+  v_peer public.profiles%ROWTYPE;
+  v_from_id uuid;
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_serial_issues jsonb;
+  v_transfer_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_kind NOT IN ('offer', 'request') THEN
+    RAISE EXCEPTION 'Jenis transfer tidak dikenal: %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_me FROM public.profiles WHERE id = v_uid;
+  SELECT * INTO v_peer FROM public.profiles WHERE id = p_peer_id;
+
+  IF v_peer.id IS NULL OR v_peer.id = v_uid OR v_peer.role <> 'engineer' OR NOT COALESCE(v_peer.is_active, true) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_peer');
+  END IF;
+
+  IF btrim(COALESCE(v_me.location, '')) = ''
+    OR upper(btrim(COALESCE(v_peer.location, ''))) <> upper(btrim(v_me.location)) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'different_area');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', grouped.part_id,
+      'partName', COALESCE(i.part_name, grouped.part_id),
+      'quantity', grouped.qty
+    ) || CASE
+      WHEN p_kind = 'offer' AND COALESCE(i.is_serialized, false)
+        THEN jsonb_build_object('serials', public.item_serials(p_items, grouped.part_id))
+      ELSE '{}'::jsonb
+    END ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  v_from_id := CASE WHEN p_kind = 'offer' THEN v_uid ELSE v_peer.id END;
+
+  -- Early feedback only; stock is checked again (and locked) on accept.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_from_id
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  IF p_kind = 'offer' THEN
+    v_serial_issues := public.held_serial_issues(v_uid, v_plan);
+
+    IF jsonb_array_length(v_serial_issues) > 0 THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_transfers (
+    kind,
+    from_engineer_id,
+    from_engineer_name,
+    to_engineer_id,
+    to_engineer_name,
+    initiated_by,
+    area_group,
+    items,
+    note
+  )
+  VALUES (
+    p_kind,
+    v_from_id,
+    CASE WHEN p_kind = 'offer' THEN v_me.name ELSE v_peer.name END,
+    CASE WHEN p_kind = 'offer' THEN v_peer.id ELSE v_uid END,
+    CASE WHEN p_kind = 'offer' THEN v_peer.name ELSE v_me.name END,
+    v_uid,
+    v_me.location,
+    v_plan,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  )
+  RETURNING id INTO v_transfer_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'transfer_id', v_transfer_id,
+    'items', v_plan
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_stock_transfer(uuid, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_stock_transfer(uuid, text, jsonb, text) TO authenticated, service_role;
+
+-- Same as before, plus p_serials ([{partId, serials: [..]}]) when accepting a request: the
+-- sender names one serial they hold per unit of a serialized part. On accept the serials of
+-- the transfer move to the receiver and are kept on the transfer items.
+DROP FUNCTION IF EXISTS public.respond_stock_transfer(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.respond_stock_transfer(
+  p_transfer_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_shortages jsonb;
+  v_items jsonb;
+  v_serial_issues jsonb;
+  v_item record;
+  v_from_qty integer;
+  v_to_qty integer;
+  v_from_area text;
+  v_to_area text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('accept', 'reject', 'cancel') THEN
+    RAISE EXCEPTION 'Keputusan transfer tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_transfer
+  FROM public.stock_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_transfer.status);
+  END IF;
+
+  IF (p_decision = 'cancel' AND v_transfer.initiated_by <> v_uid)
+    OR (p_decision <> 'cancel' AND (
+      v_transfer.initiated_by = v_uid
+      OR v_uid NOT IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    )) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+  END IF;
+
+  IF p_decision <> 'accept' THEN
+    UPDATE public.stock_transfers
+    SET status = CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END,
+        response_note = v_note,
+        responded_by = v_uid,
+        responded_at = v_now
+    WHERE id = v_transfer.id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'code', CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END
+    );
+  END IF;
+
+  -- Lock both sides in a stable order before checking the sender's stock.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    AND es.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+    )
+  ORDER BY es.engineer_id, es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_transfer.from_engineer_id
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  -- An offer carries the sender's serials already; on a request the accepting sender names them.
+  IF v_transfer.kind = 'request' THEN
+    SELECT COALESCE(jsonb_agg(
+        item || CASE
+          WHEN COALESCE(i.is_serialized, false)
+            THEN jsonb_build_object('serials', public.item_serials(p_serials, item->>'partId'))
+          ELSE '{}'::jsonb
+        END ORDER BY item->>'partId'), '[]'::jsonb)
+    INTO v_items
+    FROM jsonb_array_elements(v_transfer.items) AS item
+    LEFT JOIN public.inventory i ON i.id = item->>'partId';
+  ELSE
+    v_items := v_transfer.items;
+  END IF;
+
+  v_serial_issues := public.held_serial_issues(v_transfer.from_engineer_id, v_items);
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+  END IF;
+
+  SELECT location INTO v_from_area FROM public.profiles WHERE id = v_transfer.from_engineer_id;
+  SELECT location INTO v_to_area FROM public.profiles WHERE id = v_transfer.to_engineer_id;
+
+  FOR v_item IN
+    SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+    FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_transfer.from_engineer_id
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_from_qty;
+
+    INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+    VALUES (v_transfer.to_engineer_id, v_item.part_id, v_item.qty, v_now)
+    ON CONFLICT (engineer_id, part_id) DO UPDATE
+      SET quantity = es.quantity + EXCLUDED.quantity,
+          last_sync = EXCLUDED.last_sync
+    RETURNING es.quantity INTO v_to_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      transfer_id,
+      timestamp
+    )
+    VALUES
+      (
+        v_transfer.from_engineer_id,
+        COALESCE(v_transfer.from_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_from_qty + v_item.qty,
+        v_from_qty,
+        -v_item.qty,
+        'Transfer ke ' || COALESCE(v_transfer.to_engineer_name, '-'),
+        v_from_area,
+        v_transfer.id,
+        v_now
+      ),
+      (
+        v_transfer.to_engineer_id,
+        COALESCE(v_transfer.to_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_to_qty - v_item.qty,
+        v_to_qty,
+        v_item.qty,
+        'Transfer dari ' || COALESCE(v_transfer.from_engineer_name, '-'),
+        v_to_area,
+        v_transfer.id,
+        v_now
+      );
+  END LOOP;
+
+  UPDATE public.part_serials ps
+  SET engineer_id = v_transfer.to_engineer_id,
+      transfer_id = v_transfer.id
+  FROM jsonb_to_recordset(v_items) AS d("partId" text, serials jsonb)
+  WHERE ps.engineer_id = v_transfer.from_engineer_id
+    AND ps.status = 'with_engineer'
+    AND ps.part_id = d."partId"
+    AND to_jsonb(ps.serial_number) <@ COALESCE(d.serials, '[]'::jsonb);
+
+  UPDATE public.stock_transfers
+  SET status = 'accepted',
+      items = v_items,
+      response_note = v_note,
+      responded_by = v_uid,
+      responded_at = v_now
+  WHERE id = v_transfer.id;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'accepted', 'items', v_items);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.respond_stock_transfer(uuid, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.respond_stock_transfer(uuid, text, text, jsonb) TO authenticated, service_role;
+
+-- Same as before, plus serials per item: a serialized part names one serial the engineer
+-- holds per unit. The serials travel with the return (status returning) until it is processed.
+CREATE OR REPLACE FUNCTION public.submit_stock_return(
+  p_items jsonb,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_reason text := NULLIF(btrim(COALESCE(p_reason, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_shortages jsonb;
+  v_serial_issues jsonb;
+  v_return_id uuid;
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', grouped.part_id,
+      'partName', COALESCE(i.part_name, grouped.part_id),
+      'quantity', grouped.qty
+    ) || CASE
+      WHEN COALESCE(i.is_serialized, false)
+        THEN jsonb_build_object('serials', public.item_serials(p_items, grouped.part_id))
+      ELSE '{}'::jsonb
+    END ORDER BY grouped.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id = v_uid
+    AND es.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+    )
+  ORDER BY es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  v_serial_issues := public.held_serial_issues(v_uid, v_plan);
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.stock_returns (engineer_id, engineer_name, area_group, items, reason)
+  VALUES (v_uid, v_profile.name, v_profile.location, v_plan, v_reason)
+  RETURNING id INTO v_return_id;
+
+  UPDATE public.part_serials ps
+  SET status = 'returning',
+      return_id = v_return_id
+  FROM jsonb_to_recordset(v_plan) AS d("partId" text, serials jsonb)
+  WHERE ps.engineer_id = v_uid
+    AND ps.status = 'with_engineer'
+    AND ps.part_id = d."partId"
+    AND to_jsonb(ps.serial_number) <@ COALESCE(d.serials, '[]'::jsonb);
+
+  FOR v_item IN
+    SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+    FROM jsonb_to_recordset(v_plan) AS d("partId" text, "partName" text, quantity int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_uid
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_new_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      return_id,
+      timestamp
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_item.part_id,
+      v_item.part_name,
+      v_new_qty + v_item.qty,
+      v_new_qty,
+      -v_item.qty,
+      'Retur ke gudang: ' || v_reason,
+      v_profile.location,
+      v_return_id,
+      v_now
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'return_id', v_return_id,
+    'items', v_plan
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_return(jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_return(jsonb, text) TO authenticated, service_role;
+
+-- Same as before, plus the serials of the return: back in the warehouse on receive, back with
+-- the engineer on reject or cancel.
+CREATE OR REPLACE FUNCTION public.process_stock_return(
+  p_return_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_return public.stock_returns%ROWTYPE;
+  v_now timestamptz := now();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_item record;
+  v_new_qty integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('receive', 'reject', 'cancel') THEN
+    RAISE EXCEPTION 'Keputusan retur tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_return
+  FROM public.stock_returns
+  WHERE id = p_return_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF p_decision = 'cancel' THEN
+    IF v_return.engineer_id <> v_uid THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+    END IF;
+  ELSIF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses retur.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_return.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_return.status);
+  END IF;
+
+  IF p_decision = 'reject' AND v_note IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  IF p_decision = 'receive' THEN
+    PERFORM public.set_inventory_movement_context(
+      'return',
+      NULL,
+      'Retur dari ' || COALESCE(v_return.engineer_name, '-') || COALESCE(': ' || v_note, '')
+    );
+    PERFORM set_config('babypart.movement_return_id', v_return.id::text, true);
+
+    FOR v_item IN
+      SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+      FROM jsonb_to_recordset(v_return.items) AS d("partId" text, "partName" text, quantity int)
+      ORDER BY d."partId"
+    LOOP
+      INSERT INTO public.inventory AS i (id, part_name, total_stock, min_stock, last_updated)
+      VALUES (v_item.part_id, COALESCE(v_item.part_name, v_item.part_id), v_item.qty, 0, v_now)
+      ON CONFLICT (id) DO UPDATE
+        SET total_stock = i.total_stock + EXCLUDED.total_stock,
+            last_updated = EXCLUDED.last_updated;
+    END LOOP;
+
+    PERFORM set_config('babypart.movement_return_id', '', true);
+  ELSE
+    FOR v_item IN
+      SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+      FROM jsonb_to_recordset(v_return.items) AS d("partId" text, "partName" text, quantity int)
+      ORDER BY d."partId"
+    LOOP
+      INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+      VALUES (v_return.engineer_id, v_item.part_id, v_item.qty, v_now)
+      ON CONFLICT (engineer_id, part_id) DO UPDATE
+        SET quantity = es.quantity + EXCLUDED.quantity,
+            last_sync = EXCLUDED.last_sync
+      RETURNING es.quantity INTO v_new_qty;
+
+      INSERT INTO public.stock_adjustments (
+        engineer_id,
+        engineer_name,
+        part_id,
+        part_name,
+        previous_quantity,
+        new_quantity,
+        delta,
+        reason,
+        area_group,
+        return_id,
+        timestamp
+      )
+      VALUES (
+        v_return.engineer_id,
+        COALESCE(v_return.engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_new_qty - v_item.qty,
+        v_new_qty,
+        v_item.qty,
+        CASE WHEN p_decision = 'cancel' THEN 'Retur dibatalkan' ELSE 'Retur ditolak: ' || v_note END,
+        v_return.area_group,
+        v_return.id,
+        v_now
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE public.part_serials
+  SET status = CASE WHEN p_decision = 'receive' THEN 'in_warehouse' ELSE 'with_engineer' END,
+      engineer_id = CASE WHEN p_decision = 'receive' THEN NULL ELSE engineer_id END
+  WHERE return_id = v_return.id
+    AND status = 'returning';
+
+  UPDATE public.stock_returns
+  SET status = CASE p_decision
+        WHEN 'receive' THEN 'received'
+        WHEN 'reject' THEN 'rejected'
+        ELSE 'cancelled'
+      END,
+      admin_note = CASE WHEN p_decision = 'cancel' THEN admin_note ELSE v_note END,
+      processed_by = v_uid,
+      processed_at = v_now
+  WHERE id = v_return.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', CASE p_decision
+      WHEN 'receive' THEN 'received'
+      WHEN 'reject' THEN 'rejected'
+      ELSE 'cancelled'
+    END,
+    'status', CASE p_decision
+      WHEN 'receive' THEN 'received'
+      WHEN 'reject' THEN 'rejected'
+      ELSE 'cancelled'
+    END,
+    'items', v_return.items
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.process_stock_return(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_stock_return(uuid, text, text) TO authenticated, service_role;
+
+-- Same as before, plus p_serials: when the report line was installed with serials, the
+-- engineer names the serial of each defective unit. Those serials are marked defective.
+DROP FUNCTION IF EXISTS public.report_defective_part(uuid, text, integer, text);
+
+CREATE OR REPLACE FUNCTION public.report_defective_part(
+  p_usage_report_id uuid,
+  p_part_id text,
+  p_quantity integer,
+  p_symptom text,
+  p_serials text[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_report public.usage_reports%ROWTYPE;
+  v_symptom text := NULLIF(btrim(COALESCE(p_symptom, '')), '');
+  v_used integer;
+  v_part_name text;
+  v_has_serials boolean;
+  v_serials text[] := ARRAY[]::text[];
+  v_valid integer;
+  v_flagged integer;
+  v_defect_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF v_symptom IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'symptom_required');
+  END IF;
+
+  SELECT * INTO v_report
+  FROM public.usage_reports
+  WHERE id = p_usage_report_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_report.engineer_id <> v_uid THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  SELECT
+    SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int,
+    MAX(item->>'partName'),
+    bool_or(jsonb_array_length(COALESCE(item->'serials', '[]'::jsonb)) > 0)
+  INTO v_used, v_part_name, v_has_serials
+  FROM jsonb_array_elements(COALESCE(v_report.items, '[]'::jsonb)) AS item
+  WHERE item->>'partId' = p_part_id;
+
+  IF COALESCE(v_used, 0) <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'part_not_in_report');
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0)::int INTO v_flagged
+  FROM public.defective_parts
+  WHERE usage_report_id = v_report.id
+    AND part_id = p_part_id;
+
+  IF v_flagged + p_quantity > v_used THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'quantity_exceeded',
+      'used', v_used,
+      'flagged', v_flagged
+    );
+  END IF;
+
+  -- A line installed with serials names the serial of every defective unit.
+  IF v_has_serials THEN
+    SELECT COALESCE(array_agg(DISTINCT upper(btrim(s))), ARRAY[]::text[])
+    INTO v_serials
+    FROM unnest(COALESCE(p_serials, ARRAY[]::text[])) AS s
+    WHERE btrim(s) <> '';
+
+    SELECT COUNT(*)::int
+    INTO v_valid
+    FROM public.part_serials ps
+    WHERE ps.usage_report_id = v_report.id
+      AND ps.part_id = p_part_id
+      AND ps.status = 'installed'
+      AND ps.serial_number = ANY(v_serials);
+
+    IF cardinality(v_serials) <> p_quantity OR v_valid <> p_quantity THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'serials_required',
+        'serial_issues', jsonb_build_array(jsonb_build_object(
+          'partId', p_part_id,
+          'partName', COALESCE(v_part_name, p_part_id),
+          'required', p_quantity,
+          'valid', v_valid
+        ))
+      );
+    END IF;
+  END IF;
+
+  IF v_part_name IS NULL THEN
+    SELECT part_name INTO v_part_name FROM public.inventory WHERE id = p_part_id;
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.defective_parts (
+    usage_report_id,
+    so_number,
+    engineer_id,
+    engineer_name,
+    area_group,
+    part_id,
+    part_name,
+    quantity,
+    symptom,
+    serials
+  )
+  VALUES (
+    v_report.id,
+    v_report.so_number,
+    v_uid,
+    v_profile.name,
+    v_profile.location,
+    p_part_id,
+    COALESCE(v_part_name, p_part_id),
+    p_quantity,
+    v_symptom,
+    v_serials
+  )
+  RETURNING id INTO v_defect_id;
+
+  UPDATE public.part_serials
+  SET status = 'defective',
+      defective_part_id = v_defect_id
+  WHERE usage_report_id = v_report.id
+    AND part_id = p_part_id
+    AND status = 'installed'
+    AND serial_number = ANY(v_serials);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'reported',
+    'defect_id', v_defect_id,
+    'status', 'awaiting_return'
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.report_defective_part(uuid, text, integer, text, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.report_defective_part(uuid, text, integer, text, text[]) TO authenticated, service_role;
+
+-- Same as before, plus withdrawing a flag puts its serials back to installed.
+CREATE OR REPLACE FUNCTION public.update_defective_part_status(
+  p_defect_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_is_admin boolean := public.is_admin_user();
+  v_defect public.defective_parts%ROWTYPE;
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_allowed boolean;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status NOT IN ('shipped', 'received', 'sent_to_vendor', 'replaced', 'scrapped', 'withdrawn') THEN
+    RAISE EXCEPTION 'Status RMA tidak dikenal: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_defect
+  FROM public.defective_parts
+  WHERE id = p_defect_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (NOT v_is_admin AND v_defect.engineer_id <> v_uid) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF NOT v_is_admin AND p_status NOT IN ('shipped', 'withdrawn') THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+  END IF;
+
+  v_allowed := CASE p_status
+    WHEN 'shipped' THEN v_defect.status = 'awaiting_return'
+    WHEN 'withdrawn' THEN v_defect.status = 'awaiting_return'
+    WHEN 'received' THEN v_defect.status IN ('awaiting_return', 'shipped')
+    WHEN 'sent_to_vendor' THEN v_defect.status = 'received'
+    WHEN 'replaced' THEN v_defect.status = 'sent_to_vendor'
+    WHEN 'scrapped' THEN v_defect.status IN ('received', 'sent_to_vendor')
+    ELSE false
+  END;
+
+  IF NOT v_allowed THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_transition', 'status', v_defect.status);
+  END IF;
+
+  IF p_status = 'withdrawn' THEN
+    UPDATE public.part_serials
+    SET status = 'installed',
+        defective_part_id = NULL
+    WHERE defective_part_id = v_defect.id;
+
+    DELETE FROM public.defective_parts WHERE id = v_defect.id;
+    RETURN jsonb_build_object('ok', true, 'code', 'withdrawn');
+  END IF;
+
+  UPDATE public.defective_parts
+  SET status = p_status,
+      shipment_note = CASE WHEN p_status = 'shipped' THEN v_note ELSE shipment_note END,
+      shipped_at = CASE WHEN p_status = 'shipped' THEN v_now ELSE shipped_at END,
+      received_at = CASE WHEN p_status = 'received' THEN v_now ELSE received_at END,
+      vendor_note = CASE
+        WHEN p_status IN ('sent_to_vendor', 'replaced', 'scrapped') THEN COALESCE(v_note, vendor_note)
+        ELSE vendor_note
+      END,
+      status_updated_by = v_uid,
+      status_updated_at = v_now
+  WHERE id = v_defect.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'updated',
+    'status', p_status,
+    'previous_status', v_defect.status
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_defective_part_status(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_defective_part_status(uuid, text, text) TO authenticated, service_role;
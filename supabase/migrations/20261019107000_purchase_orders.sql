@@ -0,0 +1,505 @@
+-- Purchase orders and goods receipt for the warehouse.
+-- A purchase order lists the parts ordered from a supplier with an expected date. Goods are
+-- received against its lines, possibly in several partial receipts; each receipt raises
+-- inventory.total_stock through the movement ledger as type 'receipt' tagged with
+-- purchase_order_id, and is kept in purchase_order_receipts. What is ordered but not yet
+-- received on open orders is the "on order" quantity of a part.
+--
+-- Flow: open -> partially_received -> received, or cancelled while anything is outstanding.
+
+CREATE SEQUENCE IF NOT EXISTS public.purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL UNIQUE,
+  supplier_name text NOT NULL,
+  expected_date date,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'partially_received', 'received', 'cancelled')),
+  note text,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx
+  ON public.purchase_orders (status, expected_date);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  part_id text NOT NULL,
+  part_name text,
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0
+    CHECK (quantity_received >= 0 AND quantity_received <= quantity_ordered),
+  UNIQUE (purchase_order_id, part_id)
+);
+
+CREATE INDEX IF NOT EXISTS purchase_order_lines_part_idx
+  ON public.purchase_order_lines (part_id);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  items jsonb NOT NULL,
+  note text,
+  received_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_order_receipts_order_idx
+  ON public.purchase_order_receipts (purchase_order_id, received_at);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.purchase_orders TO authenticated;
+GRANT SELECT ON TABLE public.purchase_order_lines TO authenticated;
+GRANT SELECT ON TABLE public.purchase_order_receipts TO authenticated;
+GRANT ALL ON TABLE public.purchase_orders TO service_role;
+GRANT ALL ON TABLE public.purchase_order_lines TO service_role;
+GRANT ALL ON TABLE public.purchase_order_receipts TO service_role;
+
+-- Read-only for admins; rows are only written by the RPCs below.
+DROP POLICY IF EXISTS purchase_orders_select_admin ON public.purchase_orders;
+CREATE POLICY purchase_orders_select_admin
+ON public.purchase_orders
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+DROP POLICY IF EXISTS purchase_order_lines_select_admin ON public.purchase_order_lines;
+CREATE POLICY purchase_order_lines_select_admin
+ON public.purchase_order_lines
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+DROP POLICY IF EXISTS purchase_order_receipts_select_admin ON public.purchase_order_receipts;
+CREATE POLICY purchase_order_receipts_select_admin
+ON public.purchase_order_receipts
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+ALTER TABLE public.inventory_movements
+  ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS inventory_movements_purchase_order_id_idx
+  ON public.inventory_movements (purchase_order_id);
+
+ALTER TABLE public.part_serials
+  ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+-- Same as before, plus the babypart.movement_purchase_order_id context key.
+CREATE OR REPLACE FUNCTION public.capture_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(current_setting('babypart.movement_type', true), '');
+  v_request_id uuid := NULLIF(current_setting('babypart.movement_request_id', true), '')::uuid;
+  v_return_id uuid := NULLIF(current_setting('babypart.movement_return_id', true), '')::uuid;
+  v_purchase_order_id uuid := NULLIF(current_setting('babypart.movement_purchase_order_id', true), '')::uuid;
+  v_note text := NULLIF(current_setting('babypart.movement_note', true), '');
+  v_before integer;
+  v_after integer := COALESCE(NEW.total_stock, 0);
+  v_actor_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_before := 0;
+  ELSE
+    v_before := COALESCE(OLD.total_stock, 0);
+  END IF;
+
+  IF v_before = v_after THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_type IS NULL THEN
+    v_type := CASE WHEN TG_OP = 'INSERT' THEN 'receipt' ELSE 'correction' END;
+  END IF;
+
+  SELECT p.name INTO v_actor_name FROM public.profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO public.inventory_movements (
+    part_id,
+    part_name,
+    movement_type,
+    quantity_before,
+    quantity_after,
+    delta,
+    actor_id,
+    actor_name,
+    request_id,
+    return_id,
+    purchase_order_id,
+    note
+  )
+  VALUES (
+    NEW.id,
+    NEW.part_name,
+    v_type,
+    v_before,
+    v_after,
+    v_after - v_before,
+    auth.uid(),
+    v_actor_name,
+    v_request_id,
+    v_return_id,
+    v_purchase_order_id,
+    v_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- p_items: [{partId, quantity}]. Parts must exist in inventory; repeated parts are summed.
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_name text,
+  p_expected_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplier text := NULLIF(btrim(COALESCE(p_supplier_name, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_unknown jsonb;
+  v_order_id uuid;
+  v_po_number text;
+  v_actor_name text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh membuat purchase order.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_supplier IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'supplier_required');
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'part_id', grouped.part_id,
+        'part_name', i.part_name,
+        'qty', grouped.qty
+      ) ORDER BY grouped.part_id) FILTER (WHERE i.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(jsonb_agg(grouped.part_id ORDER BY grouped.part_id) FILTER (WHERE i.id IS NULL), '[]'::jsonb)
+  INTO v_plan, v_unknown
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_unknown) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+  END IF;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  v_po_number := 'PO-' || to_char(v_now, 'YYMM') || '-' || lpad(nextval('public.purchase_order_number_seq')::text, 4, '0');
+
+  SELECT name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.purchase_orders (po_number, supplier_name, expected_date, note, created_by, created_by_name, created_at, updated_at)
+  VALUES (
+    v_po_number,
+    v_supplier,
+    p_expected_date,
+    NULLIF(btrim(COALESCE(p_note, '')), ''),
+    auth.uid(),
+    v_actor_name,
+    v_now,
+    v_now
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.purchase_order_lines (purchase_order_id, part_id, part_name, quantity_ordered)
+  SELECT v_order_id, d.part_id, d.part_name, d.qty
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'purchase_order_id', v_order_id,
+    'po_number', v_po_number
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_purchase_order(text, date, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(text, date, jsonb, text) TO authenticated, service_role;
+
+-- Receives goods against the lines of an open order. p_items: [{partId, quantity}], each
+-- capped by what is still outstanding on its line. Serialized parts need one new serial per
+-- unit in p_serials ([{partId, serials: [..]}]), as with adjust_inventory_stock.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb,
+  p_note text DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders%ROWTYPE;
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_exceeded jsonb;
+  v_serial_issues jsonb;
+  v_duplicates jsonb;
+  v_receipt_items jsonb;
+  v_receipt_id uuid;
+  v_status text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menerima barang.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_order
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_order.status NOT IN ('open', 'partially_received') THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_order.status);
+  END IF;
+
+  -- Quantity per part joined to its line; parts not on the order (or no longer in inventory)
+  -- have nothing outstanding.
+  WITH received AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  picked AS (
+    SELECT entry->>'partId' AS part_id, jsonb_agg(DISTINCT upper(btrim(s))) AS serials
+    FROM jsonb_array_elements(COALESCE(p_serials, '[]'::jsonb)) AS entry
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(entry->'serials', '[]'::jsonb)) AS s
+    WHERE btrim(s) <> ''
+    GROUP BY entry->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'part_name', COALESCE(l.part_name, r.part_id),
+      'qty', r.qty,
+      'outstanding', CASE WHEN i.id IS NULL THEN 0 ELSE COALESCE(l.quantity_ordered - l.quantity_received, 0) END,
+      'line_id', l.id,
+      'is_serialized', COALESCE(i.is_serialized, false),
+      'serials', COALESCE(pk.serials, '[]'::jsonb)
+    ) ORDER BY r.part_id), '[]'::jsonb)
+  INTO v_plan
+  FROM received r
+  LEFT JOIN public.purchase_order_lines l
+    ON l.purchase_order_id = v_order.id
+   AND l.part_id = r.part_id
+  LEFT JOIN public.inventory i ON i.id = r.part_id
+  LEFT JOIN picked pk ON pk.part_id = r.part_id
+  WHERE r.qty > 0;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'quantity', d.qty,
+      'outstanding', d.outstanding
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_exceeded
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, outstanding int)
+  WHERE d.qty > d.outstanding;
+
+  IF jsonb_array_length(v_exceeded) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'quantity_exceeded', 'lines', v_exceeded);
+  END IF;
+
+  -- Lock lines and inventory rows in a stable order.
+  PERFORM 1
+  FROM public.purchase_order_lines l
+  WHERE l.purchase_order_id = v_order.id
+  ORDER BY l.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (SELECT d.part_id FROM jsonb_to_recordset(v_plan) AS d(part_id text))
+  ORDER BY i.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'valid', jsonb_array_length(d.serials)
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_serial_issues
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb)
+  WHERE d.is_serialized
+    AND jsonb_array_length(d.serials) <> d.qty;
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(ps.serial_number ORDER BY ps.serial_number), '[]'::jsonb)
+  INTO v_duplicates
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean, serials jsonb)
+  JOIN public.part_serials ps
+    ON ps.part_id = d.part_id
+   AND to_jsonb(ps.serial_number) <@ d.serials
+  WHERE d.is_serialized;
+
+  IF jsonb_array_length(v_duplicates) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'duplicate_serials', 'serials', v_duplicates);
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    'receipt',
+    NULL,
+    'PO ' || v_order.po_number || ' - ' || v_order.supplier_name || COALESCE(': ' || v_note, '')
+  );
+  PERFORM set_config('babypart.movement_purchase_order_id', v_order.id::text, true);
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock + d.qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, qty int)
+  WHERE i.id = d.part_id;
+
+  PERFORM set_config('babypart.movement_purchase_order_id', '', true);
+
+  UPDATE public.purchase_order_lines l
+  SET quantity_received = l.quantity_received + d.qty
+  FROM jsonb_to_recordset(v_plan) AS d(line_id uuid, qty int)
+  WHERE l.id = d.line_id;
+
+  INSERT INTO public.part_serials (part_id, serial_number, received_by, received_at, purchase_order_id)
+  SELECT d.part_id, s, auth.uid(), v_now, v_order.id
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean, serials jsonb)
+  CROSS JOIN LATERAL jsonb_array_elements_text(d.serials) AS s
+  WHERE d.is_serialized;
+
+  SELECT jsonb_agg(
+      jsonb_build_object('partId', d.part_id, 'partName', d.part_name, 'quantity', d.qty)
+        || CASE WHEN d.is_serialized THEN jsonb_build_object('serials', d.serials) ELSE '{}'::jsonb END
+      ORDER BY d.part_id
+    )
+  INTO v_receipt_items
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb);
+
+  INSERT INTO public.purchase_order_receipts (purchase_order_id, items, note, received_by, received_at)
+  VALUES (v_order.id, v_receipt_items, v_note, auth.uid(), v_now)
+  RETURNING id INTO v_receipt_id;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.purchase_order_lines l
+      WHERE l.purchase_order_id = v_order.id
+        AND l.quantity_received < l.quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE public.purchase_orders
+  SET status = v_status,
+      updated_at = v_now,
+      closed_at = CASE WHEN v_status = 'received' THEN v_now ELSE closed_at END
+  WHERE id = v_order.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'received',
+    'status', v_status,
+    'receipt_id', v_receipt_id,
+    'items', v_receipt_items
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.receive_purchase_order(uuid, jsonb, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, text, jsonb) TO authenticated, service_role;
+
+-- Cancels whatever is still outstanding. Goods already received stay in stock.
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(
+  p_purchase_order_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders%ROWTYPE;
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh membatalkan purchase order.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_order
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_order.status NOT IN ('open', 'partially_received') THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_order.status);
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'cancelled',
+      note = CASE
+        WHEN v_note IS NULL THEN note
+        ELSE concat_ws(E'\n', note, 'Dibatalkan: ' || v_note)
+      END,
+      updated_at = v_now,
+      closed_at = v_now
+  WHERE id = v_order.id;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'cancelled', 'status', 'cancelled');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_purchase_order(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cancel_purchase_order(uuid, text) TO authenticated, service_role;
@@ -0,0 +1,253 @@
+-- Supplier master and lead-time-aware reorder points.
+-- suppliers holds who the warehouse buys from and their usual lead time; part_suppliers links a
+-- part to its suppliers with an optional per-part lead time and a minimum order quantity, one
+-- of them primary. The reorder point of a part is computed in the app from its warehouse
+-- outflow (inventory_outflow_summary) over the lead time, with inventory.min_stock kept as the
+-- safety stock on top. Purchase orders can now point at a supplier record.
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  contact_name text,
+  phone text,
+  email text,
+  lead_time_days integer NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  note text,
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_name_key
+  ON public.suppliers (upper(btrim(name)));
+
+CREATE TABLE IF NOT EXISTS public.part_suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  part_id text NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  lead_time_days integer CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  min_order_qty integer NOT NULL DEFAULT 1 CHECK (min_order_qty > 0),
+  is_primary boolean NOT NULL DEFAULT false,
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (part_id, supplier_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS part_suppliers_primary_key
+  ON public.part_suppliers (part_id)
+  WHERE is_primary;
+
+CREATE INDEX IF NOT EXISTS part_suppliers_supplier_idx
+  ON public.part_suppliers (supplier_id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.part_suppliers ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.suppliers TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.part_suppliers TO authenticated;
+GRANT ALL ON TABLE public.suppliers TO service_role;
+GRANT ALL ON TABLE public.part_suppliers TO service_role;
+
+DROP POLICY IF EXISTS suppliers_write_admin ON public.suppliers;
+CREATE POLICY suppliers_write_admin
+ON public.suppliers
+FOR ALL
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+DROP POLICY IF EXISTS part_suppliers_write_admin ON public.part_suppliers;
+CREATE POLICY part_suppliers_write_admin
+ON public.part_suppliers
+FOR ALL
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.suppliers_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS suppliers_touch ON public.suppliers;
+CREATE TRIGGER suppliers_touch
+BEFORE INSERT OR UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.suppliers_touch();
+
+-- Marking a link primary demotes the part's previous primary instead of failing on the index.
+CREATE OR REPLACE FUNCTION public.part_suppliers_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_primary THEN
+    UPDATE public.part_suppliers
+    SET is_primary = false
+    WHERE part_id = NEW.part_id
+      AND id <> NEW.id
+      AND is_primary;
+  END IF;
+
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_suppliers_touch ON public.part_suppliers;
+CREATE TRIGGER part_suppliers_touch
+BEFORE INSERT OR UPDATE ON public.part_suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.part_suppliers_touch();
+
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_idx
+  ON public.purchase_orders (supplier_id);
+
+-- Net warehouse outflow per part from deliveries over the last p_days; rolled back
+-- deliveries put stock back, so they count against the outflow.
+CREATE OR REPLACE FUNCTION public.inventory_outflow_summary(
+  p_days integer DEFAULT 90
+)
+RETURNS TABLE (part_id text, quantity integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh melihat riwayat stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.part_id,
+    GREATEST(-SUM(m.delta), 0)::integer
+  FROM public.inventory_movements m
+  WHERE m.movement_type IN ('delivery', 'rollback')
+    AND m.created_at >= now() - make_interval(days => GREATEST(COALESCE(p_days, 90), 1))
+  GROUP BY m.part_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_outflow_summary(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.inventory_outflow_summary(integer) TO authenticated, service_role;
+
+DROP FUNCTION IF EXISTS public.create_purchase_order(text, date, jsonb, text);
+
+-- Same as before, plus p_supplier_id: when given, the order is linked to that supplier and
+-- takes its name; p_supplier_name is then only a fallback for free-text suppliers.
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_name text,
+  p_expected_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplier text := NULLIF(btrim(COALESCE(p_supplier_name, '')), '');
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_unknown jsonb;
+  v_order_id uuid;
+  v_po_number text;
+  v_actor_name text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh membuat purchase order.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT s.name INTO v_supplier
+    FROM public.suppliers s
+    WHERE s.id = p_supplier_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'supplier_not_found');
+    END IF;
+  END IF;
+
+  IF v_supplier IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'supplier_required');
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'part_id', grouped.part_id,
+        'part_name', i.part_name,
+        'qty', grouped.qty
+      ) ORDER BY grouped.part_id) FILTER (WHERE i.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(jsonb_agg(grouped.part_id ORDER BY grouped.part_id) FILTER (WHERE i.id IS NULL), '[]'::jsonb)
+  INTO v_plan, v_unknown
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_unknown) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+  END IF;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  v_po_number := 'PO-' || to_char(v_now, 'YYMM') || '-' || lpad(nextval('public.purchase_order_number_seq')::text, 4, '0');
+
+  SELECT name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.purchase_orders (po_number, supplier_id, supplier_name, expected_date, note, created_by, created_by_name, created_at, updated_at)
+  VALUES (
+    v_po_number,
+    p_supplier_id,
+    v_supplier,
+    p_expected_date,
+    NULLIF(btrim(COALESCE(p_note, '')), ''),
+    auth.uid(),
+    v_actor_name,
+    v_now,
+    v_now
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.purchase_order_lines (purchase_order_id, part_id, part_name, quantity_ordered)
+  SELECT v_order_id, d.part_id, d.part_name, d.qty
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'purchase_order_id', v_order_id,
+    'po_number', v_po_number
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_purchase_order(text, date, jsonb, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(text, date, jsonb, text, uuid) TO authenticated, service_role;
@@ -0,0 +1,1116 @@
+-- Multiple warehouses / regional depots.
+-- Stock is now held per warehouse in warehouse_stock; inventory.total_stock stays the sum over
+-- all warehouses so engineer screens, reports and the movement ledger keep working unchanged.
+-- Every change of inventory.total_stock is applied to one warehouse by
+-- sync_warehouse_stock, picked from the movement context: babypart.movement_warehouse_id when
+-- set, else the warehouse of the purchase order being received, else the area warehouse of
+-- the stock return being received, else the default warehouse. Each warehouse serves the
+-- areas (profiles.location) listed in area_groups; deliveries default to the engineer's area
+-- warehouse. Transfers between warehouses move warehouse_stock only and are kept in
+-- warehouse_transfers. Existing stock and history are assigned to the default warehouse.
+--
+-- Serial numbers in the warehouse carry the warehouse that holds them (part_serials.warehouse_id):
+-- deliveries pick serials from the source warehouse and warehouse transfers move them along.
+
+CREATE TABLE IF NOT EXISTS public.warehouses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (btrim(code) <> ''),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  area_groups text[] NOT NULL DEFAULT ARRAY[]::text[],
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (is_active OR NOT is_default)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS warehouses_code_key
+  ON public.warehouses (upper(btrim(code)));
+
+CREATE UNIQUE INDEX IF NOT EXISTS warehouses_default_key
+  ON public.warehouses ((true))
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.warehouse_stock (
+  warehouse_id uuid NOT NULL REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  part_id text NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (warehouse_id, part_id)
+);
+
+CREATE INDEX IF NOT EXISTS warehouse_stock_part_idx
+  ON public.warehouse_stock (part_id);
+
+CREATE TABLE IF NOT EXISTS public.warehouse_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_warehouse_id uuid NOT NULL REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  to_warehouse_id uuid NOT NULL REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  items jsonb NOT NULL,
+  note text,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+CREATE INDEX IF NOT EXISTS warehouse_transfers_from_idx
+  ON public.warehouse_transfers (from_warehouse_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS warehouse_transfers_to_idx
+  ON public.warehouse_transfers (to_warehouse_id, created_at DESC);
+
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warehouse_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warehouse_transfers ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.warehouses TO authenticated;
+GRANT SELECT ON TABLE public.warehouse_stock TO authenticated;
+GRANT SELECT ON TABLE public.warehouse_transfers TO authenticated;
+GRANT ALL ON TABLE public.warehouses TO service_role;
+GRANT ALL ON TABLE public.warehouse_stock TO service_role;
+GRANT ALL ON TABLE public.warehouse_transfers TO service_role;
+
+DROP POLICY IF EXISTS warehouses_write_admin ON public.warehouses;
+CREATE POLICY warehouses_write_admin
+ON public.warehouses
+FOR ALL
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+DROP POLICY IF EXISTS warehouse_stock_select_admin ON public.warehouse_stock;
+CREATE POLICY warehouse_stock_select_admin
+ON public.warehouse_stock
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+DROP POLICY IF EXISTS warehouse_transfers_select_admin ON public.warehouse_transfers;
+CREATE POLICY warehouse_transfers_select_admin
+ON public.warehouse_transfers
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+-- Areas are stored like profiles are compared elsewhere: trimmed, upper-cased, no duplicates.
+-- Making a warehouse the default demotes the previous default.
+CREATE OR REPLACE FUNCTION public.warehouses_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.code := upper(btrim(NEW.code));
+  NEW.name := btrim(NEW.name);
+  NEW.area_groups := ARRAY(
+    SELECT DISTINCT upper(btrim(area))
+    FROM unnest(COALESCE(NEW.area_groups, ARRAY[]::text[])) AS area
+    WHERE btrim(area) <> ''
+    ORDER BY 1
+  );
+
+  IF NEW.is_default THEN
+    UPDATE public.warehouses
+    SET is_default = false
+    WHERE id <> NEW.id
+      AND is_default;
+  END IF;
+
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS warehouses_touch ON public.warehouses;
+CREATE TRIGGER warehouses_touch
+BEFORE INSERT OR UPDATE ON public.warehouses
+FOR EACH ROW
+EXECUTE FUNCTION public.warehouses_touch();
+
+INSERT INTO public.warehouses (code, name, is_default)
+SELECT 'PUSAT', 'Gudang Pusat', true
+WHERE NOT EXISTS (SELECT 1 FROM public.warehouses WHERE is_default);
+
+INSERT INTO public.warehouse_stock (warehouse_id, part_id, quantity)
+SELECT w.id, i.id, i.total_stock
+FROM public.inventory i
+CROSS JOIN public.warehouses w
+WHERE w.is_default
+  AND i.total_stock > 0
+ON CONFLICT (warehouse_id, part_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.default_warehouse_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.warehouses WHERE is_default LIMIT 1;
+$$;
+
+-- Active warehouse serving an area, else the default warehouse.
+CREATE OR REPLACE FUNCTION public.resolve_area_warehouse(p_area text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT w.id
+      FROM public.warehouses w
+      WHERE w.is_active
+        AND upper(btrim(COALESCE(p_area, ''))) = ANY(w.area_groups)
+      ORDER BY w.is_default DESC, w.name
+      LIMIT 1
+    ),
+    public.default_warehouse_id()
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.default_warehouse_id() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resolve_area_warehouse(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.default_warehouse_id() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_area_warehouse(text) TO authenticated, service_role;
+
+-- Warehouse the current inventory change belongs to (see the header for the order).
+CREATE OR REPLACE FUNCTION public.current_movement_warehouse_id()
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id uuid := NULLIF(current_setting('babypart.movement_warehouse_id', true), '')::uuid;
+  v_purchase_order_id uuid := NULLIF(current_setting('babypart.movement_purchase_order_id', true), '')::uuid;
+  v_return_id uuid := NULLIF(current_setting('babypart.movement_return_id', true), '')::uuid;
+BEGIN
+  IF v_warehouse_id IS NULL AND v_purchase_order_id IS NOT NULL THEN
+    SELECT po.warehouse_id INTO v_warehouse_id
+    FROM public.purchase_orders po
+    WHERE po.id = v_purchase_order_id;
+  END IF;
+
+  IF v_warehouse_id IS NULL AND v_return_id IS NOT NULL THEN
+    SELECT public.resolve_area_warehouse(sr.area_group) INTO v_warehouse_id
+    FROM public.stock_returns sr
+    WHERE sr.id = v_return_id;
+  END IF;
+
+  RETURN COALESCE(v_warehouse_id, public.default_warehouse_id());
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.current_movement_warehouse_id() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_movement_warehouse_id() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.sync_warehouse_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delta integer;
+  v_warehouse_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := COALESCE(NEW.total_stock, 0);
+  ELSE
+    v_delta := COALESCE(NEW.total_stock, 0) - COALESCE(OLD.total_stock, 0);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_warehouse_id := public.current_movement_warehouse_id();
+
+  -- A negative result fails the quantity check, so a warehouse can never go below zero.
+  INSERT INTO public.warehouse_stock (warehouse_id, part_id, quantity, updated_at)
+  VALUES (v_warehouse_id, NEW.id, v_delta, now())
+  ON CONFLICT (warehouse_id, part_id) DO UPDATE
+  SET quantity = public.warehouse_stock.quantity + EXCLUDED.quantity,
+      updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_sync_warehouse_stock ON public.inventory;
+CREATE TRIGGER inventory_sync_warehouse_stock
+AFTER INSERT OR UPDATE OF total_stock ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_warehouse_stock();
+
+ALTER TABLE public.inventory_movements
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS inventory_movements_warehouse_idx
+  ON public.inventory_movements (warehouse_id, part_id, created_at DESC);
+
+UPDATE public.inventory_movements
+SET warehouse_id = public.default_warehouse_id()
+WHERE warehouse_id IS NULL;
+
+ALTER TABLE public.monthly_request_shipments
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE SET NULL;
+
+ALTER TABLE public.purchase_orders
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE SET NULL;
+
+UPDATE public.purchase_orders
+SET warehouse_id = public.default_warehouse_id()
+WHERE warehouse_id IS NULL;
+
+ALTER TABLE public.part_serials
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS part_serials_warehouse_idx
+  ON public.part_serials (warehouse_id, part_id)
+  WHERE warehouse_id IS NOT NULL;
+
+UPDATE public.part_serials
+SET warehouse_id = public.default_warehouse_id()
+WHERE status = 'in_warehouse'
+  AND warehouse_id IS NULL;
+
+-- Only serials in the warehouse have a warehouse. A serial arriving without one goes where its
+-- stock went: the area warehouse of the return being received, else the warehouse of its
+-- purchase order, else the movement warehouse.
+CREATE OR REPLACE FUNCTION public.part_serials_set_warehouse()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'in_warehouse' THEN
+    NEW.warehouse_id := NULL;
+  ELSIF NEW.warehouse_id IS NULL OR (TG_OP = 'UPDATE' AND OLD.status <> 'in_warehouse') THEN
+    NEW.warehouse_id := COALESCE(
+      CASE WHEN TG_OP = 'UPDATE' THEN (
+        SELECT public.resolve_area_warehouse(sr.area_group)
+        FROM public.stock_returns sr
+        WHERE sr.id = NEW.return_id
+      ) END,
+      (
+        SELECT po.warehouse_id
+        FROM public.purchase_orders po
+        WHERE po.id = NEW.purchase_order_id
+      ),
+      public.current_movement_warehouse_id()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_serials_set_warehouse ON public.part_serials;
+CREATE TRIGGER part_serials_set_warehouse
+BEFORE INSERT OR UPDATE OF status, warehouse_id ON public.part_serials
+FOR EACH ROW
+EXECUTE FUNCTION public.part_serials_set_warehouse();
+
+-- Same as before, plus the warehouse of the change (current_movement_warehouse_id).
+CREATE OR REPLACE FUNCTION public.capture_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := NULLIF(current_setting('babypart.movement_type', true), '');
+  v_request_id uuid := NULLIF(current_setting('babypart.movement_request_id', true), '')::uuid;
+  v_return_id uuid := NULLIF(current_setting('babypart.movement_return_id', true), '')::uuid;
+  v_purchase_order_id uuid := NULLIF(current_setting('babypart.movement_purchase_order_id', true), '')::uuid;
+  v_note text := NULLIF(current_setting('babypart.movement_note', true), '');
+  v_before integer;
+  v_after integer := COALESCE(NEW.total_stock, 0);
+  v_actor_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_before := 0;
+  ELSE
+    v_before := COALESCE(OLD.total_stock, 0);
+  END IF;
+
+  IF v_before = v_after THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_type IS NULL THEN
+    v_type := CASE WHEN TG_OP = 'INSERT' THEN 'receipt' ELSE 'correction' END;
+  END IF;
+
+  SELECT p.name INTO v_actor_name FROM public.profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO public.inventory_movements (
+    part_id,
+    part_name,
+    movement_type,
+    quantity_before,
+    quantity_after,
+    delta,
+    actor_id,
+    actor_name,
+    request_id,
+    return_id,
+    purchase_order_id,
+    warehouse_id,
+    note
+  )
+  VALUES (
+    NEW.id,
+    NEW.part_name,
+    v_type,
+    v_before,
+    v_after,
+    v_after - v_before,
+    auth.uid(),
+    v_actor_name,
+    v_request_id,
+    v_return_id,
+    v_purchase_order_id,
+    public.current_movement_warehouse_id(),
+    v_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, plus p_warehouse_id (default warehouse when NULL): the stock read, checked
+-- against p_expected_stock and corrected is that warehouse's; the part total moves by the
+-- same delta.
+DROP FUNCTION IF EXISTS public.adjust_inventory_stock(text, text, integer, integer, text, text[]);
+
+CREATE OR REPLACE FUNCTION public.adjust_inventory_stock(
+  p_part_id text,
+  p_mode text,
+  p_quantity integer,
+  p_expected_stock integer DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_serials text[] DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id uuid := COALESCE(p_warehouse_id, public.default_warehouse_id());
+  v_current integer;
+  v_next integer;
+  v_is_serialized boolean;
+  v_serials text[];
+  v_duplicates text[];
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mengubah stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode NOT IN ('add', 'adjust') THEN
+    RAISE EXCEPTION 'Mode stok tidak dikenal: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL
+    OR (p_mode = 'add' AND p_quantity <= 0)
+    OR (p_mode = 'adjust' AND p_quantity < 0) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = v_warehouse_id AND is_active) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+  END IF;
+
+  SELECT is_serialized
+  INTO v_is_serialized
+  FROM public.inventory
+  WHERE id = p_part_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  SELECT COALESCE(
+    (
+      SELECT ws.quantity
+      FROM public.warehouse_stock ws
+      WHERE ws.warehouse_id = v_warehouse_id
+        AND ws.part_id = p_part_id
+      FOR UPDATE
+    ),
+    0
+  )
+  INTO v_current;
+
+  IF p_expected_stock IS NOT NULL AND p_expected_stock <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_stock',
+      'current_stock', v_current
+    );
+  END IF;
+
+  IF p_mode = 'add' AND v_is_serialized THEN
+    SELECT COALESCE(array_agg(DISTINCT upper(btrim(s))), ARRAY[]::text[])
+    INTO v_serials
+    FROM unnest(COALESCE(p_serials, ARRAY[]::text[])) AS s
+    WHERE btrim(s) <> '';
+
+    IF cardinality(v_serials) <> p_quantity THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'serials_required',
+        'required', p_quantity,
+        'provided', cardinality(v_serials)
+      );
+    END IF;
+
+    SELECT COALESCE(array_agg(ps.serial_number ORDER BY ps.serial_number), ARRAY[]::text[])
+    INTO v_duplicates
+    FROM public.part_serials ps
+    WHERE ps.part_id = p_part_id
+      AND ps.serial_number = ANY(v_serials);
+
+    IF cardinality(v_duplicates) > 0 THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'duplicate_serials',
+        'serials', to_jsonb(v_duplicates)
+      );
+    END IF;
+
+    INSERT INTO public.part_serials (part_id, serial_number, received_by, warehouse_id)
+    SELECT p_part_id, s, auth.uid(), v_warehouse_id
+    FROM unnest(v_serials) AS s;
+  END IF;
+
+  v_next := CASE WHEN p_mode = 'add' THEN v_current + p_quantity ELSE p_quantity END;
+
+  PERFORM public.set_inventory_movement_context(
+    CASE WHEN p_mode = 'add' THEN 'receipt' ELSE 'correction' END,
+    NULL,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  );
+  PERFORM set_config('babypart.movement_warehouse_id', v_warehouse_id::text, true);
+
+  UPDATE public.inventory
+  SET total_stock = total_stock + (v_next - v_current),
+      last_updated = now()
+  WHERE id = p_part_id;
+
+  PERFORM set_config('babypart.movement_warehouse_id', '', true);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'warehouse_id', v_warehouse_id,
+    'previous_stock', v_current,
+    'new_stock', v_next
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[], uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[], uuid) TO authenticated, service_role;
+
+-- Same as before, plus p_warehouse_id: the shipment is taken from that warehouse, or from the
+-- engineer's area warehouse when NULL. Stock shortages and picked serials are checked against
+-- that warehouse.
+DROP FUNCTION IF EXISTS public.deliver_monthly_request(uuid, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_is_backorder boolean;
+  v_warehouse_id uuid;
+  v_plan jsonb;
+  v_shipment_items jsonb;
+  v_backorder_items jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_serial_plan jsonb;
+  v_serial_issues jsonb;
+  v_is_adjusted boolean;
+  v_shipment_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  v_is_backorder := FOUND
+    AND v_request.status IN ('delivered', 'completed')
+    AND v_request.has_backorder;
+
+  IF NOT FOUND OR (v_request.status <> 'approved' AND NOT v_is_backorder) THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  IF p_warehouse_id IS NOT NULL THEN
+    SELECT w.id INTO v_warehouse_id
+    FROM public.warehouses w
+    WHERE w.id = p_warehouse_id
+      AND w.is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+    END IF;
+  ELSE
+    SELECT public.resolve_area_warehouse(p.location) INTO v_warehouse_id
+    FROM public.profiles p
+    WHERE p.id = v_request.engineer_id;
+
+    v_warehouse_id := COALESCE(v_warehouse_id, public.default_warehouse_id());
+  END IF;
+
+  -- Owed qty per part (full request or open backorder), capped by the admin adjustment.
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(
+      CASE WHEN v_is_backorder THEN v_request.backorder_items ELSE COALESCE(v_request.items, '[]'::jsonb) END
+    ) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.warehouse_stock ws
+  WHERE ws.warehouse_id = v_warehouse_id
+    AND ws.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+      WHERE d.deliver_qty > 0
+    )
+  ORDER BY ws.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(ws.quantity, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  LEFT JOIN public.warehouse_stock ws ON ws.warehouse_id = v_warehouse_id AND ws.part_id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR COALESCE(ws.quantity, 0) < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'warehouse_id', v_warehouse_id,
+      'shortages', v_shortages
+    );
+  END IF;
+
+  -- Serials picked for each serialized part, checked against the serials held by that warehouse.
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.status = 'in_warehouse'
+    AND ps.warehouse_id = v_warehouse_id
+    AND ps.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+      JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+      WHERE d.deliver_qty > 0
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  WITH picked AS (
+    SELECT DISTINCT entry->>'partId' AS part_id, upper(btrim(s)) AS serial_number
+    FROM jsonb_array_elements(COALESCE(p_serials, '[]'::jsonb)) AS entry
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(entry->'serials', '[]'::jsonb)) AS s
+    WHERE btrim(s) <> ''
+  ),
+  serialized AS (
+    SELECT
+      d.part_id,
+      COALESCE(i.part_name, d.part_id) AS part_name,
+      d.deliver_qty,
+      (
+        SELECT COUNT(*)::int
+        FROM public.part_serials ps
+        WHERE ps.part_id = d.part_id AND ps.status = 'in_warehouse'
+      ) AS on_hand,
+      (
+        SELECT COALESCE(jsonb_agg(ps.id), '[]'::jsonb)
+        FROM picked pk
+        JOIN public.part_serials ps
+          ON ps.part_id = pk.part_id
+         AND ps.serial_number = pk.serial_number
+         AND ps.status = 'in_warehouse'
+         AND ps.warehouse_id = v_warehouse_id
+        WHERE pk.part_id = d.part_id
+      ) AS serial_ids,
+      (SELECT COUNT(*)::int FROM picked pk WHERE pk.part_id = d.part_id) AS picked_count
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+    WHERE d.deliver_qty > 0
+  )
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('part_id', part_id, 'serial_ids', serial_ids)), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'partId', part_id,
+        'partName', part_name,
+        'required', LEAST(deliver_qty, on_hand),
+        'valid', jsonb_array_length(serial_ids)
+      ) ORDER BY part_id) FILTER (
+        WHERE jsonb_array_length(serial_ids) <> LEAST(deliver_qty, on_hand)
+          OR picked_count <> jsonb_array_length(serial_ids)
+      ), '[]'::jsonb)
+  INTO v_serial_plan, v_serial_issues
+  FROM serialized;
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'serials_required',
+      'serial_issues', v_serial_issues
+    );
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    'delivery',
+    p_request_id,
+    CASE WHEN v_is_backorder THEN 'Backorder' END
+  );
+  PERFORM set_config('babypart.movement_warehouse_id', v_warehouse_id::text, true);
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  PERFORM set_config('babypart.movement_warehouse_id', '', true);
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', requested_qty - deliver_qty) ORDER BY part_id)
+      FILTER (WHERE requested_qty > deliver_qty),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_shipment_items, v_backorder_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('partId', totals.part_id, 'quantity', totals.qty) ORDER BY totals.part_id), '[]'::jsonb)
+  INTO v_delivered_items
+  FROM (
+    SELECT item->>'partId' AS part_id, SUM((item->>'quantity')::int)::int AS qty
+    FROM jsonb_array_elements(COALESCE(v_request.delivered_items, '[]'::jsonb) || v_shipment_items) AS item
+    GROUP BY item->>'partId'
+  ) AS totals;
+
+  INSERT INTO public.monthly_request_shipments (request_id, items, is_backorder, warehouse_id, delivered_by, delivered_at)
+  VALUES (p_request_id, v_shipment_items, v_is_backorder, v_warehouse_id, auth.uid(), v_now)
+  RETURNING id INTO v_shipment_id;
+
+  UPDATE public.part_serials ps
+  SET status = 'with_engineer',
+      engineer_id = v_request.engineer_id,
+      request_id = p_request_id,
+      shipment_id = v_shipment_id,
+      delivered_at = v_now
+  WHERE ps.id IN (
+    SELECT (serial_id #>> '{}')::uuid
+    FROM jsonb_to_recordset(v_serial_plan) AS sp(part_id text, serial_ids jsonb)
+    CROSS JOIN LATERAL jsonb_array_elements(sp.serial_ids) AS serial_id
+  );
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      delivered_items = v_delivered_items,
+      backorder_items = v_backorder_items,
+      confirmed_at = NULL,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'shipment_id', v_shipment_id,
+    'warehouse_id', v_warehouse_id,
+    'items', v_shipment_items,
+    'backorder_items', COALESCE(v_backorder_items, '[]'::jsonb),
+    'is_backorder', v_is_backorder,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb, uuid) TO authenticated, service_role;
+
+DROP FUNCTION IF EXISTS public.create_purchase_order(text, date, jsonb, text, uuid);
+
+-- Same as before, plus p_warehouse_id: the warehouse the goods are received into (default
+-- warehouse when NULL).
+CREATE OR REPLACE FUNCTION public.create_purchase_order(
+  p_supplier_name text,
+  p_expected_date date,
+  p_items jsonb,
+  p_note text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplier text := NULLIF(btrim(COALESCE(p_supplier_name, '')), '');
+  v_warehouse_id uuid := COALESCE(p_warehouse_id, public.default_warehouse_id());
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_unknown jsonb;
+  v_order_id uuid;
+  v_po_number text;
+  v_actor_name text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh membuat purchase order.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT s.name INTO v_supplier
+    FROM public.suppliers s
+    WHERE s.id = p_supplier_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'supplier_not_found');
+    END IF;
+  END IF;
+
+  IF v_supplier IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'supplier_required');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = v_warehouse_id AND is_active) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'part_id', grouped.part_id,
+        'part_name', i.part_name,
+        'qty', grouped.qty
+      ) ORDER BY grouped.part_id) FILTER (WHERE i.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(jsonb_agg(grouped.part_id ORDER BY grouped.part_id) FILTER (WHERE i.id IS NULL), '[]'::jsonb)
+  INTO v_plan, v_unknown
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_unknown) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+  END IF;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  v_po_number := 'PO-' || to_char(v_now, 'YYMM') || '-' || lpad(nextval('public.purchase_order_number_seq')::text, 4, '0');
+
+  SELECT name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.purchase_orders (po_number, supplier_id, supplier_name, warehouse_id, expected_date, note, created_by, created_by_name, created_at, updated_at)
+  VALUES (
+    v_po_number,
+    p_supplier_id,
+    v_supplier,
+    v_warehouse_id,
+    p_expected_date,
+    NULLIF(btrim(COALESCE(p_note, '')), ''),
+    auth.uid(),
+    v_actor_name,
+    v_now,
+    v_now
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.purchase_order_lines (purchase_order_id, part_id, part_name, quantity_ordered)
+  SELECT v_order_id, d.part_id, d.part_name, d.qty
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'purchase_order_id', v_order_id,
+    'po_number', v_po_number
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_purchase_order(text, date, jsonb, text, uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(text, date, jsonb, text, uuid, uuid) TO authenticated, service_role;
+
+-- Moves stock between two warehouses. p_items: [{partId, quantity, serials?}], repeated parts
+-- summed. Serialized parts name exactly one source-warehouse serial per unit, and those serials
+-- move along. The part totals do not change, so no movement is logged; the transfer row is the
+-- record.
+CREATE OR REPLACE FUNCTION public.transfer_warehouse_stock(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id uuid,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_plan jsonb;
+  v_unknown jsonb;
+  v_shortages jsonb;
+  v_serial_issues jsonb;
+  v_transfer_id uuid;
+  v_actor_name text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memindahkan stok antar gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from_warehouse_id IS NULL OR p_from_warehouse_id = p_to_warehouse_id THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'same_warehouse');
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM public.warehouses
+    WHERE id IN (p_from_warehouse_id, p_to_warehouse_id)
+      AND is_active
+  ) <> 2 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'part_id', grouped.part_id,
+        'part_name', i.part_name,
+        'qty', grouped.qty,
+        'is_serialized', i.is_serialized,
+        'serials', CASE WHEN i.is_serialized THEN public.item_serials(p_items, grouped.part_id) ELSE '[]'::jsonb END
+      ) ORDER BY grouped.part_id) FILTER (WHERE i.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(jsonb_agg(grouped.part_id ORDER BY grouped.part_id) FILTER (WHERE i.id IS NULL), '[]'::jsonb)
+  INTO v_plan, v_unknown
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS grouped
+  LEFT JOIN public.inventory i ON i.id = grouped.part_id
+  WHERE grouped.qty > 0;
+
+  IF jsonb_array_length(v_unknown) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+  END IF;
+
+  IF jsonb_array_length(v_plan) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_items');
+  END IF;
+
+  -- Lock both sides in a stable order so opposite transfers cannot deadlock.
+  PERFORM 1
+  FROM public.warehouse_stock ws
+  WHERE ws.warehouse_id IN (p_from_warehouse_id, p_to_warehouse_id)
+    AND ws.part_id IN (SELECT d.part_id FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int))
+  ORDER BY ws.warehouse_id, ws.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'available', COALESCE(ws.quantity, 0)
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LEFT JOIN public.warehouse_stock ws ON ws.warehouse_id = p_from_warehouse_id AND ws.part_id = d.part_id
+  WHERE COALESCE(ws.quantity, 0) < d.qty;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.status = 'in_warehouse'
+    AND ps.warehouse_id = p_from_warehouse_id
+    AND ps.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean)
+      WHERE d.is_serialized
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', d.part_name,
+      'required', d.qty,
+      'valid', held.valid
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_serial_issues
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb)
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*)::int AS valid
+    FROM public.part_serials ps
+    WHERE ps.part_id = d.part_id
+      AND ps.status = 'in_warehouse'
+      AND ps.warehouse_id = p_from_warehouse_id
+      AND to_jsonb(ps.serial_number) <@ d.serials
+  ) AS held
+  WHERE d.is_serialized
+    AND (held.valid <> d.qty OR jsonb_array_length(d.serials) <> d.qty);
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+  END IF;
+
+  UPDATE public.warehouse_stock ws
+  SET quantity = ws.quantity - d.qty,
+      updated_at = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  WHERE ws.warehouse_id = p_from_warehouse_id
+    AND ws.part_id = d.part_id;
+
+  INSERT INTO public.warehouse_stock (warehouse_id, part_id, quantity, updated_at)
+  SELECT p_to_warehouse_id, d.part_id, d.qty, v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  ON CONFLICT (warehouse_id, part_id) DO UPDATE
+  SET quantity = public.warehouse_stock.quantity + EXCLUDED.quantity,
+      updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.part_serials ps
+  SET warehouse_id = p_to_warehouse_id
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, is_serialized boolean, serials jsonb)
+  WHERE d.is_serialized
+    AND ps.part_id = d.part_id
+    AND ps.status = 'in_warehouse'
+    AND ps.warehouse_id = p_from_warehouse_id
+    AND to_jsonb(ps.serial_number) <@ d.serials;
+
+  SELECT name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.warehouse_transfers (from_warehouse_id, to_warehouse_id, items, note, created_by, created_by_name, created_at)
+  SELECT
+    p_from_warehouse_id,
+    p_to_warehouse_id,
+    jsonb_agg(
+      jsonb_build_object('partId', d.part_id, 'partName', d.part_name, 'quantity', d.qty)
+        || CASE WHEN d.is_serialized THEN jsonb_build_object('serials', d.serials) ELSE '{}'::jsonb END
+      ORDER BY d.part_id
+    ),
+    NULLIF(btrim(COALESCE(p_note, '')), ''),
+    auth.uid(),
+    v_actor_name,
+    v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int, is_serialized boolean, serials jsonb)
+  RETURNING id INTO v_transfer_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'transferred',
+    'transfer_id', v_transfer_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transfer_warehouse_stock(uuid, uuid, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transfer_warehouse_stock(uuid, uuid, jsonb, text) TO authenticated, service_role;
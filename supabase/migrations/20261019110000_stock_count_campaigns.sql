@@ -0,0 +1,534 @@
+-- Scheduled stock-opname (cycle count) campaigns for engineer stock.
+-- An admin launches a campaign for all engineers or one area, optionally limited to selected
+-- parts, with a deadline. Every targeted engineer gets a stock_count_tasks row listing the
+-- parts to count: the campaign parts, else the parts they held at launch. Counts are blind:
+-- engineers submit quantities without being shown engineer_stock, and the system quantity and
+-- variance are only recorded at submission, in stock_count_lines, which engineers cannot read.
+-- Lines without variance are settled straight away; the admin approves or rejects the rest.
+-- Approving posts the variance to engineer_stock as a stock_adjustments row carrying
+-- campaign_id. It is applied as a delta, so usage synced after the count is kept.
+
+CREATE TABLE IF NOT EXISTS public.stock_count_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL CHECK (btrim(title) <> ''),
+  area_group text,
+  part_ids text[],
+  deadline date NOT NULL,
+  note text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS stock_count_campaigns_status_idx
+  ON public.stock_count_campaigns (status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.stock_count_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES public.stock_count_campaigns(id) ON DELETE CASCADE,
+  engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  engineer_name text,
+  area_group text,
+  part_ids text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'reviewed')),
+  submitted_at timestamptz,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, engineer_id)
+);
+
+CREATE INDEX IF NOT EXISTS stock_count_tasks_engineer_idx
+  ON public.stock_count_tasks (engineer_id, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.stock_count_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES public.stock_count_tasks(id) ON DELETE CASCADE,
+  campaign_id uuid NOT NULL REFERENCES public.stock_count_campaigns(id) ON DELETE CASCADE,
+  engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  part_id text NOT NULL,
+  part_name text,
+  counted_qty integer NOT NULL CHECK (counted_qty >= 0),
+  system_qty integer NOT NULL,
+  variance integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  adjustment_id uuid REFERENCES public.stock_adjustments(id) ON DELETE SET NULL,
+  review_note text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, part_id)
+);
+
+CREATE INDEX IF NOT EXISTS stock_count_lines_campaign_idx
+  ON public.stock_count_lines (campaign_id, status);
+
+ALTER TABLE public.stock_count_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_count_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.stock_count_campaigns TO authenticated;
+GRANT SELECT ON TABLE public.stock_count_tasks TO authenticated;
+GRANT SELECT ON TABLE public.stock_count_lines TO authenticated;
+GRANT ALL ON TABLE public.stock_count_campaigns TO service_role;
+GRANT ALL ON TABLE public.stock_count_tasks TO service_role;
+GRANT ALL ON TABLE public.stock_count_lines TO service_role;
+
+DROP POLICY IF EXISTS stock_count_campaigns_select_assigned_or_admin ON public.stock_count_campaigns;
+CREATE POLICY stock_count_campaigns_select_assigned_or_admin
+ON public.stock_count_campaigns
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR EXISTS (
+    SELECT 1
+    FROM public.stock_count_tasks t
+    WHERE t.campaign_id = stock_count_campaigns.id
+      AND t.engineer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS stock_count_tasks_select_own_or_admin ON public.stock_count_tasks;
+CREATE POLICY stock_count_tasks_select_own_or_admin
+ON public.stock_count_tasks
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR engineer_id = auth.uid()
+);
+
+-- System quantities and variances stay admin-only so counting remains blind.
+DROP POLICY IF EXISTS stock_count_lines_select_admin ON public.stock_count_lines;
+CREATE POLICY stock_count_lines_select_admin
+ON public.stock_count_lines
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES public.stock_count_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_adjustments_campaign_idx
+  ON public.stock_adjustments (campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- Launches a campaign. p_area_group NULL targets every active engineer; p_part_ids NULL
+-- counts whatever each engineer holds at launch.
+CREATE OR REPLACE FUNCTION public.create_stock_count_campaign(
+  p_title text,
+  p_deadline date,
+  p_area_group text DEFAULT NULL,
+  p_part_ids text[] DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title text := btrim(COALESCE(p_title, ''));
+  v_area text := NULLIF(upper(btrim(COALESCE(p_area_group, ''))), '');
+  v_part_ids text[];
+  v_unknown jsonb;
+  v_campaign_id uuid;
+  v_engineer_ids jsonb;
+  v_actor_name text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh membuat stock opname.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_title = '' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'title_required');
+  END IF;
+
+  IF p_deadline IS NULL OR p_deadline < current_date THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_deadline');
+  END IF;
+
+  IF COALESCE(array_length(p_part_ids, 1), 0) > 0 THEN
+    SELECT array_agg(DISTINCT btrim(part_id) ORDER BY btrim(part_id))
+    INTO v_part_ids
+    FROM unnest(p_part_ids) AS part_id
+    WHERE btrim(COALESCE(part_id, '')) <> '';
+
+    SELECT COALESCE(jsonb_agg(part_id ORDER BY part_id), '[]'::jsonb)
+    INTO v_unknown
+    FROM unnest(v_part_ids) AS part_id
+    WHERE NOT EXISTS (SELECT 1 FROM public.inventory i WHERE i.id = part_id);
+
+    IF jsonb_array_length(v_unknown) > 0 THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.role = 'engineer'
+      AND COALESCE(p.is_active, true) = true
+      AND (v_area IS NULL OR upper(btrim(COALESCE(p.location, ''))) = v_area)
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'no_engineers');
+  END IF;
+
+  SELECT name INTO v_actor_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.stock_count_campaigns (title, area_group, part_ids, deadline, note, created_by, created_by_name)
+  VALUES (
+    v_title,
+    v_area,
+    v_part_ids,
+    p_deadline,
+    NULLIF(btrim(COALESCE(p_note, '')), ''),
+    auth.uid(),
+    v_actor_name
+  )
+  RETURNING id INTO v_campaign_id;
+
+  INSERT INTO public.stock_count_tasks (campaign_id, engineer_id, engineer_name, area_group, part_ids)
+  SELECT
+    v_campaign_id,
+    p.id,
+    p.name,
+    NULLIF(upper(btrim(COALESCE(p.location, ''))), ''),
+    COALESCE(
+      v_part_ids,
+      ARRAY(
+        SELECT es.part_id
+        FROM public.engineer_stock es
+        WHERE es.engineer_id = p.id
+          AND es.quantity > 0
+        ORDER BY es.part_id
+      )
+    )
+  FROM public.profiles p
+  WHERE p.role = 'engineer'
+    AND COALESCE(p.is_active, true) = true
+    AND (v_area IS NULL OR upper(btrim(COALESCE(p.location, ''))) = v_area);
+
+  SELECT COALESCE(jsonb_agg(t.engineer_id), '[]'::jsonb)
+  INTO v_engineer_ids
+  FROM public.stock_count_tasks t
+  WHERE t.campaign_id = v_campaign_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'created',
+    'campaign_id', v_campaign_id,
+    'engineer_ids', v_engineer_ids
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_stock_count_campaign(text, date, text, text[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_stock_count_campaign(text, date, text, text[], text) TO authenticated, service_role;
+
+-- Blind count of the caller's task. p_counts: [{partId, quantity}]; every listed part must be
+-- counted, extra parts found on hand may be added. Counts after the deadline are accepted
+-- while the campaign is open (the tracker shows them as late).
+CREATE OR REPLACE FUNCTION public.submit_stock_count(
+  p_task_id uuid,
+  p_counts jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_task public.stock_count_tasks%ROWTYPE;
+  v_campaign_status text;
+  v_plan jsonb;
+  v_unknown jsonb;
+  v_missing jsonb;
+  v_now timestamptz := now();
+  v_pending integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_task
+  FROM public.stock_count_tasks
+  WHERE id = p_task_id
+    AND engineer_id = v_uid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_task.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'already_submitted');
+  END IF;
+
+  SELECT status INTO v_campaign_status
+  FROM public.stock_count_campaigns
+  WHERE id = v_task.campaign_id;
+
+  IF v_campaign_status <> 'open' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'campaign_closed');
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'part_id', counted.part_id,
+        'part_name', i.part_name,
+        'qty', counted.qty
+      ) ORDER BY counted.part_id) FILTER (WHERE i.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(jsonb_agg(counted.part_id ORDER BY counted.part_id) FILTER (WHERE i.id IS NULL), '[]'::jsonb)
+  INTO v_plan, v_unknown
+  FROM (
+    SELECT
+      item->>'partId' AS part_id,
+      MAX(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+    FROM jsonb_array_elements(COALESCE(p_counts, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ) AS counted
+  LEFT JOIN public.inventory i ON i.id = counted.part_id;
+
+  IF jsonb_array_length(v_unknown) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'unknown_parts', 'part_ids', v_unknown);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(listed.part_id ORDER BY listed.part_id), '[]'::jsonb)
+  INTO v_missing
+  FROM unnest(v_task.part_ids) AS listed(part_id)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+    WHERE d.part_id = listed.part_id
+  );
+
+  IF jsonb_array_length(v_missing) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'missing_counts', 'part_ids', v_missing);
+  END IF;
+
+  INSERT INTO public.stock_count_lines (
+    task_id,
+    campaign_id,
+    engineer_id,
+    part_id,
+    part_name,
+    counted_qty,
+    system_qty,
+    variance,
+    status,
+    reviewed_at,
+    created_at
+  )
+  SELECT
+    v_task.id,
+    v_task.campaign_id,
+    v_uid,
+    d.part_id,
+    d.part_name,
+    d.qty,
+    COALESCE(es.quantity, 0),
+    d.qty - COALESCE(es.quantity, 0),
+    CASE WHEN d.qty = COALESCE(es.quantity, 0) THEN 'approved' ELSE 'pending' END,
+    CASE WHEN d.qty = COALESCE(es.quantity, 0) THEN v_now END,
+    v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, part_name text, qty int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_uid
+   AND es.part_id = d.part_id;
+
+  SELECT COUNT(*) INTO v_pending
+  FROM public.stock_count_lines
+  WHERE task_id = v_task.id
+    AND status = 'pending';
+
+  UPDATE public.stock_count_tasks
+  SET status = CASE WHEN v_pending = 0 THEN 'reviewed' ELSE 'submitted' END,
+      submitted_at = v_now,
+      reviewed_at = CASE WHEN v_pending = 0 THEN v_now END
+  WHERE id = v_task.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'submitted',
+    'line_count', jsonb_array_length(v_plan)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_count(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_count(uuid, jsonb) TO authenticated, service_role;
+
+-- Approves or rejects pending variance lines. Approval adds the variance to the engineer's
+-- current stock (never below 0) and logs it in stock_adjustments with the campaign id.
+-- Lines already reviewed are skipped.
+CREATE OR REPLACE FUNCTION public.review_stock_count_lines(
+  p_line_ids uuid[],
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_line record;
+  v_current integer;
+  v_new_qty integer;
+  v_adjustment_id uuid;
+  v_reviewed integer := 0;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mereview stock opname.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Keputusan tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(array_length(p_line_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_selection');
+  END IF;
+
+  FOR v_line IN
+    SELECT l.*, c.title AS campaign_title, p.name AS engineer_name, p.location AS engineer_location
+    FROM public.stock_count_lines l
+    JOIN public.stock_count_campaigns c ON c.id = l.campaign_id
+    LEFT JOIN public.profiles p ON p.id = l.engineer_id
+    WHERE l.id = ANY(p_line_ids)
+      AND l.status = 'pending'
+    ORDER BY l.engineer_id, l.part_id
+    FOR UPDATE OF l
+  LOOP
+    v_adjustment_id := NULL;
+
+    IF p_decision = 'approve' THEN
+      SELECT quantity
+      INTO v_current
+      FROM public.engineer_stock
+      WHERE engineer_id = v_line.engineer_id
+        AND part_id = v_line.part_id
+      FOR UPDATE;
+
+      v_current := COALESCE(v_current, 0);
+      v_new_qty := GREATEST(v_current + v_line.variance, 0);
+
+      INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+      VALUES (v_line.engineer_id, v_line.part_id, v_new_qty, v_now)
+      ON CONFLICT (engineer_id, part_id) DO UPDATE
+        SET quantity = EXCLUDED.quantity,
+            last_sync = EXCLUDED.last_sync;
+
+      INSERT INTO public.stock_adjustments (
+        engineer_id,
+        engineer_name,
+        part_id,
+        part_name,
+        previous_quantity,
+        new_quantity,
+        delta,
+        reason,
+        area_group,
+        campaign_id,
+        timestamp
+      )
+      VALUES (
+        v_line.engineer_id,
+        COALESCE(v_line.engineer_name, ''),
+        v_line.part_id,
+        COALESCE(v_line.part_name, v_line.part_id),
+        v_current,
+        v_new_qty,
+        v_new_qty - v_current,
+        'Stock opname: ' || v_line.campaign_title || COALESCE(' - ' || v_note, ''),
+        v_line.engineer_location,
+        v_line.campaign_id,
+        v_now
+      )
+      RETURNING id INTO v_adjustment_id;
+    END IF;
+
+    UPDATE public.stock_count_lines
+    SET status = CASE WHEN p_decision = 'approve' THEN 'approved' ELSE 'rejected' END,
+        adjustment_id = v_adjustment_id,
+        review_note = v_note,
+        reviewed_by = v_uid,
+        reviewed_at = v_now
+    WHERE id = v_line.id;
+
+    v_reviewed := v_reviewed + 1;
+  END LOOP;
+
+  UPDATE public.stock_count_tasks t
+  SET status = 'reviewed',
+      reviewed_at = v_now
+  WHERE t.status = 'submitted'
+    AND t.id IN (SELECT l.task_id FROM public.stock_count_lines l WHERE l.id = ANY(p_line_ids))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.stock_count_lines l
+      WHERE l.task_id = t.id
+        AND l.status = 'pending'
+    );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'reviewed',
+    'reviewed', v_reviewed,
+    'skipped', COALESCE(array_length(p_line_ids, 1), 0) - v_reviewed
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_stock_count_lines(uuid[], text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_stock_count_lines(uuid[], text, text) TO authenticated, service_role;
+
+-- Stops accepting counts. Tasks not submitted stay pending (missed); submitted variances can
+-- still be reviewed.
+CREATE OR REPLACE FUNCTION public.close_stock_count_campaign(
+  p_campaign_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menutup stock opname.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO v_status
+  FROM public.stock_count_campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_status = 'closed' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'already_closed');
+  END IF;
+
+  UPDATE public.stock_count_campaigns
+  SET status = 'closed',
+      closed_at = now()
+  WHERE id = p_campaign_id;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'closed');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.close_stock_count_campaign(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.close_stock_count_campaign(uuid) TO authenticated, service_role;
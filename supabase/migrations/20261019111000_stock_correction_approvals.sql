@@ -0,0 +1,486 @@
+-- Admin approval for large engineer stock corrections.
+-- stock_correction_settings holds one row of thresholds: absolute delta, percent of the current
+-- quantity, and value (|delta| x inventory.unit_price). NULL disables a threshold. A correction
+-- exceeding any of them is stored in stock_correction_requests instead of being applied; the
+-- engineer's stock only changes when an admin approves it. The percent threshold is skipped
+-- when the current quantity is 0, and the value threshold for parts without a unit price.
+-- Approval applies the requested change as a delta on the stock at approval time, so usage
+-- synced while the request waited is kept.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS unit_price numeric(14, 2) CHECK (unit_price IS NULL OR unit_price >= 0);
+
+CREATE TABLE IF NOT EXISTS public.stock_correction_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  max_delta integer CHECK (max_delta IS NULL OR max_delta > 0),
+  max_percent numeric(6, 2) CHECK (max_percent IS NULL OR max_percent > 0),
+  max_value numeric(14, 2) CHECK (max_value IS NULL OR max_value > 0),
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.stock_correction_settings (id)
+VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.stock_correction_settings ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE ON TABLE public.stock_correction_settings TO authenticated;
+GRANT ALL ON TABLE public.stock_correction_settings TO service_role;
+
+DROP POLICY IF EXISTS stock_correction_settings_select_authenticated ON public.stock_correction_settings;
+CREATE POLICY stock_correction_settings_select_authenticated
+ON public.stock_correction_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS stock_correction_settings_write_admin ON public.stock_correction_settings;
+CREATE POLICY stock_correction_settings_write_admin
+ON public.stock_correction_settings
+FOR ALL
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.stock_correction_settings_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_correction_settings_touch ON public.stock_correction_settings;
+CREATE TRIGGER stock_correction_settings_touch
+BEFORE INSERT OR UPDATE ON public.stock_correction_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.stock_correction_settings_touch();
+
+CREATE TABLE IF NOT EXISTS public.stock_correction_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  engineer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  engineer_name text,
+  area_group text,
+  part_id text NOT NULL,
+  part_name text,
+  previous_quantity integer NOT NULL,
+  requested_quantity integer NOT NULL CHECK (requested_quantity >= 0),
+  delta integer NOT NULL,
+  reason text NOT NULL,
+  exceeded text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  client_ref text,
+  adjustment_id uuid REFERENCES public.stock_adjustments(id) ON DELETE SET NULL,
+  review_note text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_correction_requests_status_idx
+  ON public.stock_correction_requests (status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS stock_correction_requests_engineer_idx
+  ON public.stock_correction_requests (engineer_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_correction_requests_engineer_client_ref_key
+  ON public.stock_correction_requests (engineer_id, client_ref)
+  WHERE client_ref IS NOT NULL;
+
+-- One open request per engineer and part.
+CREATE UNIQUE INDEX IF NOT EXISTS stock_correction_requests_pending_key
+  ON public.stock_correction_requests (engineer_id, part_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.stock_correction_requests ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.stock_correction_requests TO authenticated;
+GRANT ALL ON TABLE public.stock_correction_requests TO service_role;
+
+DROP POLICY IF EXISTS stock_correction_requests_select_own_or_admin ON public.stock_correction_requests;
+CREATE POLICY stock_correction_requests_select_own_or_admin
+ON public.stock_correction_requests
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR engineer_id = auth.uid()
+);
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS correction_request_id uuid REFERENCES public.stock_correction_requests(id) ON DELETE SET NULL;
+
+-- Returns the thresholds a correction from p_previous to p_new exceeds ('delta', 'percent', 'value').
+CREATE OR REPLACE FUNCTION public.stock_correction_exceeded(
+  p_part_id text,
+  p_previous integer,
+  p_new integer
+)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.stock_correction_settings%ROWTYPE;
+  v_delta integer := abs(p_new - p_previous);
+  v_unit_price numeric;
+  v_exceeded text[] := '{}';
+BEGIN
+  SELECT * INTO v_settings FROM public.stock_correction_settings WHERE id;
+
+  IF NOT FOUND OR v_delta = 0 THEN
+    RETURN v_exceeded;
+  END IF;
+
+  IF v_settings.max_delta IS NOT NULL AND v_delta > v_settings.max_delta THEN
+    v_exceeded := v_exceeded || 'delta'::text;
+  END IF;
+
+  IF v_settings.max_percent IS NOT NULL
+    AND p_previous > 0
+    AND (v_delta::numeric * 100 / p_previous) > v_settings.max_percent THEN
+    v_exceeded := v_exceeded || 'percent'::text;
+  END IF;
+
+  IF v_settings.max_value IS NOT NULL THEN
+    SELECT unit_price INTO v_unit_price FROM public.inventory WHERE id = p_part_id;
+    IF v_unit_price IS NOT NULL AND v_delta * v_unit_price > v_settings.max_value THEN
+      v_exceeded := v_exceeded || 'value'::text;
+    END IF;
+  END IF;
+
+  RETURN v_exceeded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.stock_correction_exceeded(text, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.stock_correction_exceeded(text, integer, integer) TO authenticated, service_role;
+
+-- Same contract as before, plus code 'pending_approval' when a threshold is exceeded and
+-- 'pending_exists' while an earlier request for the part is still waiting.
+CREATE OR REPLACE FUNCTION public.submit_stock_correction(
+  p_part_id text,
+  p_new_quantity integer,
+  p_reason text,
+  p_expected_quantity integer DEFAULT NULL,
+  p_client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_client_ref text := NULLIF(btrim(COALESCE(p_client_ref, '')), '');
+  v_reason text := btrim(COALESCE(p_reason, ''));
+  v_now timestamptz := now();
+  v_current integer;
+  v_adjustment_id uuid;
+  v_request_id uuid;
+  v_exceeded text[];
+  v_part_name text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_client_ref IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_uid::text || ':' || v_client_ref));
+
+    SELECT id, new_quantity
+    INTO v_adjustment_id, v_current
+    FROM public.stock_adjustments
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'adjustment_id', v_adjustment_id,
+        'new_quantity', v_current
+      );
+    END IF;
+
+    SELECT id, requested_quantity
+    INTO v_request_id, v_current
+    FROM public.stock_correction_requests
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'correction_id', v_request_id,
+        'new_quantity', v_current
+      );
+    END IF;
+  END IF;
+
+  IF p_new_quantity IS NULL OR p_new_quantity < 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF v_reason = '' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  SELECT quantity
+  INTO v_current
+  FROM public.engineer_stock
+  WHERE engineer_id = v_uid
+    AND part_id = p_part_id
+  FOR UPDATE;
+
+  v_current := COALESCE(v_current, 0);
+
+  IF p_expected_quantity IS NOT NULL AND p_expected_quantity <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_quantity',
+      'current_quantity', v_current,
+      'expected_quantity', p_expected_quantity
+    );
+  END IF;
+
+  SELECT id
+  INTO v_request_id
+  FROM public.stock_correction_requests
+  WHERE engineer_id = v_uid
+    AND part_id = p_part_id
+    AND status = 'pending';
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'pending_exists',
+      'correction_id', v_request_id
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+  v_part_name := COALESCE((SELECT i.part_name FROM public.inventory i WHERE i.id = p_part_id), p_part_id);
+  v_exceeded := public.stock_correction_exceeded(p_part_id, v_current, p_new_quantity);
+
+  IF COALESCE(array_length(v_exceeded, 1), 0) > 0 THEN
+    INSERT INTO public.stock_correction_requests (
+      engineer_id,
+      engineer_name,
+      area_group,
+      part_id,
+      part_name,
+      previous_quantity,
+      requested_quantity,
+      delta,
+      reason,
+      exceeded,
+      client_ref,
+      created_at
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_profile.location,
+      p_part_id,
+      v_part_name,
+      v_current,
+      p_new_quantity,
+      p_new_quantity - v_current,
+      v_reason,
+      v_exceeded,
+      v_client_ref,
+      v_now
+    )
+    RETURNING id INTO v_request_id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'code', 'pending_approval',
+      'correction_id', v_request_id,
+      'previous_quantity', v_current,
+      'new_quantity', p_new_quantity,
+      'exceeded', to_jsonb(v_exceeded)
+    );
+  END IF;
+
+  INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+  VALUES (v_uid, p_part_id, p_new_quantity, v_now)
+  ON CONFLICT (engineer_id, part_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        last_sync = EXCLUDED.last_sync;
+
+  INSERT INTO public.stock_adjustments (
+    engineer_id,
+    engineer_name,
+    part_id,
+    part_name,
+    previous_quantity,
+    new_quantity,
+    delta,
+    reason,
+    area_group,
+    client_ref,
+    timestamp
+  )
+  VALUES (
+    v_uid,
+    COALESCE(v_profile.name, ''),
+    p_part_id,
+    v_part_name,
+    v_current,
+    p_new_quantity,
+    p_new_quantity - v_current,
+    v_reason,
+    v_profile.location,
+    v_client_ref,
+    v_now
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'adjustment_id', v_adjustment_id,
+    'previous_quantity', v_current,
+    'new_quantity', p_new_quantity
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) TO authenticated, service_role;
+
+-- Admin decision on a pending correction. Approving posts the requested delta to the
+-- engineer's current stock (floored at 0) as a stock_adjustments row.
+CREATE OR REPLACE FUNCTION public.review_stock_correction(
+  p_correction_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_request public.stock_correction_requests%ROWTYPE;
+  v_reviewer_name text;
+  v_current integer;
+  v_new_qty integer;
+  v_adjustment_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menyetujui koreksi stok.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Keputusan tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.stock_correction_requests
+  WHERE id = p_correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_request.status);
+  END IF;
+
+  SELECT name INTO v_reviewer_name FROM public.profiles WHERE id = v_uid;
+
+  IF p_decision = 'reject' THEN
+    UPDATE public.stock_correction_requests
+    SET status = 'rejected',
+        review_note = v_note,
+        reviewed_by = v_uid,
+        reviewed_by_name = v_reviewer_name,
+        reviewed_at = v_now
+    WHERE id = v_request.id;
+
+    RETURN jsonb_build_object('ok', true, 'code', 'rejected');
+  END IF;
+
+  SELECT quantity
+  INTO v_current
+  FROM public.engineer_stock
+  WHERE engineer_id = v_request.engineer_id
+    AND part_id = v_request.part_id
+  FOR UPDATE;
+
+  v_current := COALESCE(v_current, 0);
+  v_new_qty := GREATEST(v_current + v_request.delta, 0);
+
+  INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+  VALUES (v_request.engineer_id, v_request.part_id, v_new_qty, v_now)
+  ON CONFLICT (engineer_id, part_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        last_sync = EXCLUDED.last_sync;
+
+  INSERT INTO public.stock_adjustments (
+    engineer_id,
+    engineer_name,
+    part_id,
+    part_name,
+    previous_quantity,
+    new_quantity,
+    delta,
+    reason,
+    area_group,
+    correction_request_id,
+    timestamp
+  )
+  VALUES (
+    v_request.engineer_id,
+    v_request.engineer_name,
+    v_request.part_id,
+    v_request.part_name,
+    v_current,
+    v_new_qty,
+    v_new_qty - v_current,
+    v_request.reason || COALESCE(' (disetujui: ' || v_note || ')', ' (disetujui admin)'),
+    v_request.area_group,
+    v_request.id,
+    v_now
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  UPDATE public.stock_correction_requests
+  SET status = 'approved',
+      adjustment_id = v_adjustment_id,
+      review_note = v_note,
+      reviewed_by = v_uid,
+      reviewed_by_name = v_reviewer_name,
+      reviewed_at = v_now
+  WHERE id = v_request.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'approved',
+    'adjustment_id', v_adjustment_id,
+    'previous_quantity', v_current,
+    'new_quantity', v_new_qty
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_stock_correction(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_stock_correction(uuid, text, text) TO authenticated, service_role;
@@ -0,0 +1,336 @@
+-- Anomaly detection on engineer stock adjustments and usage.
+-- scan_stock_anomalies() scores recent activity against four patterns and upserts the hits into
+-- stock_anomalies, keyed by a fingerprint so rescans refresh an open flag instead of duplicating it:
+--   correction_before_request     >= 2 manual upward corrections in the 72h before a request
+--   usage_spike                   last 7 days of usage >= 3x the engineer's weekly norm (8 weeks prior)
+--   correction_after_confirmation manual correction of a delivered part within 24h of confirming receipt
+--   so_reused                     one SO number used by more than one usage report
+-- Manual corrections are stock_adjustments without a request, usage, transfer, return or opname
+-- source. evidence holds the ids of the underlying rows for drill-down. Admins confirm or dismiss
+-- flags; reviewed flags are left alone by later scans. The scan runs hourly when pg_cron is
+-- available and can also be started from the admin app.
+
+CREATE TABLE IF NOT EXISTS public.stock_anomalies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('correction_before_request', 'usage_spike', 'correction_after_confirmation', 'so_reused')),
+  fingerprint text NOT NULL UNIQUE,
+  engineer_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE,
+  engineer_name text,
+  area_group text,
+  score integer NOT NULL CHECK (score BETWEEN 0 AND 100),
+  summary text NOT NULL,
+  evidence jsonb NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  review_note text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_anomalies_status_idx
+  ON public.stock_anomalies (status, score DESC, occurred_at DESC);
+
+ALTER TABLE public.stock_anomalies ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.stock_anomalies TO authenticated;
+GRANT ALL ON TABLE public.stock_anomalies TO service_role;
+
+DROP POLICY IF EXISTS stock_anomalies_select_admin ON public.stock_anomalies;
+CREATE POLICY stock_anomalies_select_admin
+ON public.stock_anomalies
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+-- Scores the last p_days of activity. Callable by admins and by the scheduler (no session).
+CREATE OR REPLACE FUNCTION public.scan_stock_anomalies(
+  p_days integer DEFAULT 30
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_since timestamptz := now() - make_interval(days => GREATEST(COALESCE(p_days, 30), 1));
+  v_flags jsonb;
+  v_new integer := 0;
+  v_updated integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menjalankan deteksi anomali.' USING ERRCODE = '42501';
+  END IF;
+
+  WITH manual AS (
+    SELECT a.id, a.engineer_id, a.part_id, a.part_name, a.delta, a.timestamp
+    FROM public.stock_adjustments a
+    WHERE a.timestamp >= v_since - interval '72 hours'
+      AND a.engineer_id IS NOT NULL
+      AND a.delta <> 0
+      AND a.request_id IS NULL
+      AND a.usage_report_id IS NULL
+      AND a.transfer_id IS NULL
+      AND a.return_id IS NULL
+      AND a.campaign_id IS NULL
+  ),
+  before_request AS (
+    SELECT
+      r.id AS request_id,
+      r.engineer_id,
+      r.submitted_at,
+      count(*) AS hits,
+      sum(m.delta) AS total_delta,
+      jsonb_agg(m.id ORDER BY m.timestamp) AS adjustment_ids
+    FROM public.monthly_requests r
+    JOIN manual m
+      ON m.engineer_id = r.engineer_id
+     AND m.delta > 0
+     AND m.timestamp BETWEEN r.submitted_at - interval '72 hours' AND r.submitted_at
+    WHERE r.submitted_at >= v_since
+    GROUP BY r.id, r.engineer_id, r.submitted_at
+    HAVING count(*) >= 2
+  ),
+  after_confirmation AS (
+    SELECT DISTINCT ON (m.id)
+      m.id AS adjustment_id,
+      m.engineer_id,
+      m.part_id,
+      COALESCE(m.part_name, m.part_id) AS part_name,
+      m.delta,
+      m.timestamp,
+      r.id AS request_id,
+      r.confirmed_at
+    FROM manual m
+    JOIN public.monthly_requests r
+      ON r.engineer_id = m.engineer_id
+     AND r.confirmed_at IS NOT NULL
+     AND m.timestamp BETWEEN r.confirmed_at AND r.confirmed_at + interval '24 hours'
+    WHERE m.timestamp >= v_since
+      AND EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(r.delivered_items, r.items, '[]'::jsonb)) AS item
+        WHERE item->>'partId' = m.part_id
+      )
+    ORDER BY m.id, r.confirmed_at DESC
+  ),
+  usage_rows AS (
+    SELECT
+      ur.id,
+      ur.engineer_id,
+      ur.date,
+      SUM(GREATEST(COALESCE((item->>'quantity')::numeric, 0), 0)) AS qty
+    FROM public.usage_reports ur
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(ur.items, '[]'::jsonb)) AS item
+    WHERE ur.date >= v_now - interval '63 days'
+    GROUP BY ur.id, ur.engineer_id, ur.date
+  ),
+  usage_recent AS (
+    SELECT engineer_id, SUM(qty) AS qty, jsonb_agg(id ORDER BY date) AS usage_report_ids, MAX(date) AS last_date
+    FROM usage_rows
+    WHERE date >= v_now - interval '7 days'
+    GROUP BY engineer_id
+  ),
+  usage_baseline AS (
+    SELECT engineer_id, SUM(qty) / 8.0 AS weekly
+    FROM usage_rows
+    WHERE date < v_now - interval '7 days'
+    GROUP BY engineer_id
+  ),
+  usage_spike AS (
+    SELECT rc.engineer_id, rc.qty, b.weekly, rc.usage_report_ids, rc.last_date
+    FROM usage_recent rc
+    JOIN usage_baseline b ON b.engineer_id = rc.engineer_id
+    WHERE b.weekly > 0
+      AND rc.qty >= 10
+      AND rc.qty >= 3 * b.weekly
+  ),
+  so_reused AS (
+    SELECT
+      ur.so_number,
+      count(*) AS reports,
+      count(DISTINCT ur.engineer_id) AS engineers,
+      (array_agg(ur.engineer_id ORDER BY ur.date))[1] AS first_engineer_id,
+      jsonb_agg(ur.id ORDER BY ur.date) AS usage_report_ids,
+      MAX(ur.date) AS last_date
+    FROM public.usage_reports ur
+    WHERE ur.so_number IN (
+      SELECT recent.so_number FROM public.usage_reports recent WHERE recent.date >= v_since
+    )
+    GROUP BY ur.so_number
+    HAVING count(*) > 1
+  ),
+  flags AS (
+    SELECT
+      'correction_before_request' AS kind,
+      'correction_before_request:' || br.request_id AS fingerprint,
+      br.engineer_id,
+      LEAST(100, 30 + 20 * br.hits)::int AS score,
+      br.hits || ' koreksi naik (total +' || br.total_delta || ') dalam 72 jam sebelum request' AS summary,
+      jsonb_build_object('adjustment_ids', br.adjustment_ids, 'request_ids', jsonb_build_array(br.request_id)) AS evidence,
+      br.submitted_at AS occurred_at
+    FROM before_request br
+    UNION ALL
+    SELECT
+      'usage_spike',
+      'usage_spike:' || us.engineer_id || ':' || to_char(v_now, 'IYYY-IW'),
+      us.engineer_id,
+      LEAST(100, ROUND(20 * us.qty / us.weekly))::int,
+      'Pemakaian 7 hari ' || ROUND(us.qty) || ' unit, ' || ROUND(us.qty / us.weekly, 1) || 'x rata-rata mingguan (' || ROUND(us.weekly, 1) || ')',
+      jsonb_build_object('usage_report_ids', us.usage_report_ids),
+      us.last_date
+    FROM usage_spike us
+    UNION ALL
+    SELECT
+      'correction_after_confirmation',
+      'correction_after_confirmation:' || ac.adjustment_id,
+      ac.engineer_id,
+      LEAST(100, 40 + 5 * abs(ac.delta))::int,
+      'Koreksi ' || ac.part_name || ' (' || CASE WHEN ac.delta > 0 THEN '+' ELSE '' END || ac.delta || ') '
+        || ROUND(EXTRACT(EPOCH FROM (ac.timestamp - ac.confirmed_at)) / 3600.0, 1) || ' jam setelah konfirmasi terima',
+      jsonb_build_object('adjustment_ids', jsonb_build_array(ac.adjustment_id), 'request_ids', jsonb_build_array(ac.request_id)),
+      ac.timestamp
+    FROM after_confirmation ac
+    UNION ALL
+    SELECT
+      'so_reused',
+      'so_reused:' || sr.so_number,
+      CASE WHEN sr.engineers = 1 THEN sr.first_engineer_id END,
+      LEAST(100, 20 + 20 * sr.reports + CASE WHEN sr.engineers > 1 THEN 20 ELSE 0 END)::int,
+      'SO ' || sr.so_number || ' dipakai di ' || sr.reports || ' laporan'
+        || CASE WHEN sr.engineers > 1 THEN ' oleh ' || sr.engineers || ' engineer' ELSE '' END,
+      jsonb_build_object('usage_report_ids', sr.usage_report_ids),
+      sr.last_date
+    FROM so_reused sr
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(flags)), '[]'::jsonb)
+  INTO v_flags
+  FROM flags;
+
+  WITH upserted AS (
+    INSERT INTO public.stock_anomalies AS sa (
+      kind,
+      fingerprint,
+      engineer_id,
+      engineer_name,
+      area_group,
+      score,
+      summary,
+      evidence,
+      occurred_at,
+      detected_at,
+      updated_at
+    )
+    SELECT
+      f.kind,
+      f.fingerprint,
+      f.engineer_id,
+      p.name,
+      p.location,
+      f.score,
+      f.summary,
+      f.evidence,
+      f.occurred_at,
+      v_now,
+      v_now
+    FROM jsonb_to_recordset(v_flags) AS f(
+      kind text,
+      fingerprint text,
+      engineer_id uuid,
+      score int,
+      summary text,
+      evidence jsonb,
+      occurred_at timestamptz
+    )
+    LEFT JOIN public.profiles p ON p.id = f.engineer_id
+    ON CONFLICT (fingerprint) DO UPDATE
+      SET score = EXCLUDED.score,
+          summary = EXCLUDED.summary,
+          evidence = EXCLUDED.evidence,
+          occurred_at = EXCLUDED.occurred_at,
+          updated_at = EXCLUDED.updated_at
+      WHERE sa.status = 'open'
+        AND (sa.evidence IS DISTINCT FROM EXCLUDED.evidence OR sa.score <> EXCLUDED.score)
+    RETURNING (xmax = 0) AS inserted
+  )
+  SELECT
+    count(*) FILTER (WHERE inserted),
+    count(*) FILTER (WHERE NOT inserted)
+  INTO v_new, v_updated
+  FROM upserted;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'scanned',
+    'flagged', v_new,
+    'updated', v_updated
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.scan_stock_anomalies(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.scan_stock_anomalies(integer) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.review_stock_anomaly(
+  p_anomaly_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_status text;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mereview anomali.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'dismiss', 'reopen') THEN
+    RAISE EXCEPTION 'Keputusan tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT status
+  INTO v_status
+  FROM public.stock_anomalies
+  WHERE id = p_anomaly_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF (p_decision = 'reopen') = (v_status = 'open') THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_status);
+  END IF;
+
+  UPDATE public.stock_anomalies
+  SET status = CASE p_decision WHEN 'confirm' THEN 'confirmed' WHEN 'dismiss' THEN 'dismissed' ELSE 'open' END,
+      review_note = NULLIF(btrim(COALESCE(p_note, '')), ''),
+      reviewed_by = CASE WHEN p_decision = 'reopen' THEN NULL ELSE v_uid END,
+      reviewed_by_name = CASE WHEN p_decision = 'reopen' THEN NULL ELSE (SELECT name FROM public.profiles WHERE id = v_uid) END,
+      reviewed_at = CASE WHEN p_decision = 'reopen' THEN NULL ELSE now() END,
+      updated_at = now()
+  WHERE id = p_anomaly_id
+  RETURNING status INTO v_status;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'reviewed', 'status', v_status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_stock_anomaly(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_stock_anomaly(uuid, text, text) TO authenticated, service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('scan-stock-anomalies', '15 * * * *', $cron$SELECT public.scan_stock_anomalies(30)$cron$);
+  END IF;
+END;
+$$;
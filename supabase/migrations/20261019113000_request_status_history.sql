@@ -0,0 +1,192 @@
+-- Request status state machine enforced in the database, with a status history.
+-- Allowed transitions of monthly_requests.status:
+--   (new)     -> pending
+--   pending   -> approved | rejected | cancelled
+--   approved  -> delivered
+--   delivered -> completed
+--   completed -> delivered   (backorder shipped after the engineer confirmed the first part)
+-- rejected and cancelled are final. Any other change is refused by a BEFORE trigger, whichever
+-- path it comes from (RPC, direct table update). An AFTER trigger records every transition in
+-- request_status_history with the acting user, so the timeline no longer has to be pieced
+-- together from reviewed_at / delivered_at / confirmed_at. Legacy 'reject' / 'complete' values
+-- are normalized first, then the allowed values are pinned with a CHECK constraint.
+
+UPDATE public.monthly_requests
+SET status = CASE lower(btrim(status))
+    WHEN 'reject' THEN 'rejected'
+    WHEN 'complete' THEN 'completed'
+    ELSE lower(btrim(status))
+  END
+WHERE status IS DISTINCT FROM CASE lower(btrim(status))
+    WHEN 'reject' THEN 'rejected'
+    WHEN 'complete' THEN 'completed'
+    ELSE lower(btrim(status))
+  END;
+
+ALTER TABLE public.monthly_requests
+  DROP CONSTRAINT IF EXISTS monthly_requests_status_check;
+
+ALTER TABLE public.monthly_requests
+  ADD CONSTRAINT monthly_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'delivered', 'completed', 'cancelled'));
+
+CREATE TABLE IF NOT EXISTS public.request_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.monthly_requests(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  actor_name text,
+  note text,
+  -- clock_timestamp rather than now(), so entries written in one transaction still sort in order.
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS request_status_history_request_idx
+  ON public.request_status_history (request_id, created_at);
+
+ALTER TABLE public.request_status_history ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.request_status_history TO authenticated;
+GRANT ALL ON TABLE public.request_status_history TO service_role;
+
+-- Written only by the trigger below; engineers read the history of their own requests.
+DROP POLICY IF EXISTS request_status_history_select_own_or_admin ON public.request_status_history;
+CREATE POLICY request_status_history_select_own_or_admin
+ON public.request_status_history
+FOR SELECT
+TO authenticated
+USING (
+  public.is_admin_user()
+  OR EXISTS (
+    SELECT 1
+    FROM public.monthly_requests mr
+    WHERE mr.id = request_status_history.request_id
+      AND mr.engineer_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.request_status_transition_allowed(
+  p_from text,
+  p_to text
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from IS NULL THEN p_to = 'pending'
+    WHEN p_from = p_to THEN true
+    WHEN p_from = 'pending' THEN p_to IN ('approved', 'rejected', 'cancelled')
+    WHEN p_from = 'approved' THEN p_to = 'delivered'
+    WHEN p_from = 'delivered' THEN p_to = 'completed'
+    WHEN p_from = 'completed' THEN p_to = 'delivered'
+    ELSE false
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_status_transition_allowed(text, text) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_from text := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END;
+BEGIN
+  IF NOT public.request_status_transition_allowed(v_from, NEW.status) THEN
+    RAISE EXCEPTION 'Status request tidak bisa berubah dari % ke %.', COALESCE(v_from, '(baru)'), NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS monthly_requests_enforce_status_transition ON public.monthly_requests;
+CREATE TRIGGER monthly_requests_enforce_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.monthly_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_request_status_transition();
+
+CREATE OR REPLACE FUNCTION public.capture_request_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from text := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END;
+  v_actor_name text;
+BEGIN
+  IF v_from IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.name INTO v_actor_name FROM public.profiles p WHERE p.id = auth.uid();
+
+  INSERT INTO public.request_status_history (
+    request_id,
+    from_status,
+    to_status,
+    actor_id,
+    actor_name,
+    note
+  )
+  VALUES (
+    NEW.id,
+    v_from,
+    NEW.status,
+    auth.uid(),
+    v_actor_name,
+    CASE
+      WHEN NEW.status = 'rejected' THEN NULLIF(btrim(COALESCE(NEW.rejection_reason, '')), '')
+      WHEN NEW.status = 'delivered' AND NEW.has_backorder THEN 'Sebagian dikirim, sisa backorder'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS monthly_requests_capture_status_history ON public.monthly_requests;
+CREATE TRIGGER monthly_requests_capture_status_history
+AFTER INSERT OR UPDATE OF status ON public.monthly_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.capture_request_status_history();
+
+-- Backfill a best-effort timeline for existing requests from their timestamps.
+INSERT INTO public.request_status_history (request_id, from_status, to_status, actor_id, actor_name, note, created_at)
+SELECT steps.request_id, steps.from_status, steps.to_status, steps.actor_id, p.name, steps.note, steps.created_at
+FROM (
+  SELECT mr.id AS request_id, NULL::text AS from_status, 'pending'::text AS to_status,
+    mr.engineer_id AS actor_id, NULL::text AS note, mr.submitted_at AS created_at
+  FROM public.monthly_requests mr
+  UNION ALL
+  SELECT mr.id, 'pending', CASE WHEN mr.status = 'rejected' THEN 'rejected' ELSE 'approved' END,
+    mr.reviewed_by, CASE WHEN mr.status = 'rejected' THEN mr.rejection_reason END, mr.reviewed_at
+  FROM public.monthly_requests mr
+  WHERE mr.reviewed_at IS NOT NULL
+    AND mr.status IN ('approved', 'rejected', 'delivered', 'completed')
+  UNION ALL
+  SELECT mr.id, 'approved', 'delivered', mr.delivered_by, NULL, mr.delivered_at
+  FROM public.monthly_requests mr
+  WHERE mr.delivered_at IS NOT NULL
+    AND mr.status IN ('delivered', 'completed')
+  UNION ALL
+  SELECT mr.id, 'delivered', 'completed', mr.engineer_id, NULL, mr.confirmed_at
+  FROM public.monthly_requests mr
+  WHERE mr.confirmed_at IS NOT NULL
+    AND mr.status = 'completed'
+  UNION ALL
+  SELECT mr.id, 'pending', 'cancelled', mr.engineer_id, NULL, mr.cancelled_at
+  FROM public.monthly_requests mr
+  WHERE mr.cancelled_at IS NOT NULL
+    AND mr.status = 'cancelled'
+) AS steps
+LEFT JOIN public.profiles p ON p.id = steps.actor_id
+WHERE steps.created_at IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.request_status_history h WHERE h.request_id = steps.request_id
+  );
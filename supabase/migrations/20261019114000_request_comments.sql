@@ -0,0 +1,153 @@
+-- Comment thread on monthly requests between the requesting engineer and admins.
+-- A comment has text, an optional photo, or both. Photos live in the private storage bucket
+-- request-comment-photos under "<request_id>/<file>", so the same ownership check guards the
+-- table rows and the files: admins see every thread, engineers only their own requests.
+-- Comments are posted through post_request_comment(), which returns the engineer id so the
+-- client can notify the other party.
+
+CREATE TABLE IF NOT EXISTS public.request_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.monthly_requests(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  author_name text,
+  author_role text,
+  body text,
+  photo_path text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT request_comments_not_empty CHECK (
+    NULLIF(btrim(COALESCE(body, '')), '') IS NOT NULL OR photo_path IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS request_comments_request_idx
+  ON public.request_comments (request_id, created_at);
+
+ALTER TABLE public.request_comments ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.request_comments TO authenticated;
+GRANT ALL ON TABLE public.request_comments TO service_role;
+
+CREATE OR REPLACE FUNCTION public.can_access_monthly_request(p_request_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin_user()
+    OR EXISTS (
+      SELECT 1
+      FROM public.monthly_requests mr
+      WHERE mr.id = p_request_id
+        AND mr.engineer_id = auth.uid()
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_access_monthly_request(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_access_monthly_request(uuid) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS request_comments_select_own_or_admin ON public.request_comments;
+CREATE POLICY request_comments_select_own_or_admin
+ON public.request_comments
+FOR SELECT
+TO authenticated
+USING (public.can_access_monthly_request(request_id));
+
+-- Photo bucket. The first path segment is the request id.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('request-comment-photos', 'request-comment-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS request_comment_photos_select ON storage.objects;
+CREATE POLICY request_comment_photos_select
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'request-comment-photos'
+  AND (
+    public.is_admin_user()
+    OR EXISTS (
+      SELECT 1
+      FROM public.monthly_requests mr
+      WHERE mr.id::text = (storage.foldername(name))[1]
+        AND mr.engineer_id = auth.uid()
+    )
+  )
+);
+
+DROP POLICY IF EXISTS request_comment_photos_insert ON storage.objects;
+CREATE POLICY request_comment_photos_insert
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'request-comment-photos'
+  AND (
+    public.is_admin_user()
+    OR EXISTS (
+      SELECT 1
+      FROM public.monthly_requests mr
+      WHERE mr.id::text = (storage.foldername(name))[1]
+        AND mr.engineer_id = auth.uid()
+    )
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.post_request_comment(
+  p_request_id uuid,
+  p_body text,
+  p_photo_path text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_request public.monthly_requests%ROWTYPE;
+  v_body text := NULLIF(btrim(COALESCE(p_body, '')), '');
+  v_photo_path text := NULLIF(btrim(COALESCE(p_photo_path, '')), '');
+  v_comment_id uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_request FROM public.monthly_requests WHERE id = p_request_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF NOT public.is_admin_user() AND v_request.engineer_id <> v_uid THEN
+    RAISE EXCEPTION 'Hanya admin atau pemilik request yang bisa berkomentar.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_body IS NULL AND v_photo_path IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_comment');
+  END IF;
+
+  IF v_photo_path IS NOT NULL AND split_part(v_photo_path, '/', 1) <> p_request_id::text THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_photo');
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+
+  INSERT INTO public.request_comments (request_id, author_id, author_name, author_role, body, photo_path)
+  VALUES (p_request_id, v_uid, v_profile.name, v_profile.role, v_body, v_photo_path)
+  RETURNING id INTO v_comment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'posted',
+    'comment_id', v_comment_id,
+    'engineer_id', v_request.engineer_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.post_request_comment(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.post_request_comment(uuid, text, text) TO authenticated, service_role;
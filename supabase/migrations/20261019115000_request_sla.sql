@@ -0,0 +1,364 @@
+-- Server-side SLA tracking for open requests.
+-- request_sla_policies holds per-stage limits in hours, measured from the moment the request
+-- entered its current status (taken from request_status_history):
+--   pending   waiting for admin review
+--   approved  waiting for delivery
+--   delivered waiting for the engineer to confirm receipt
+-- Past reminder_hours the party who has to act gets a reminder; past breach_hours the request
+-- is recorded as breached and escalated to every admin. evaluate_request_slas() writes one
+-- request_sla_events row per request, stage episode and kind, so repeated runs never notify
+-- twice, and returns the new events for the sla-engine edge function to deliver. Events are
+-- marked resolved once the request leaves that stage. request_sla_compliance() reports, per
+-- admin and per area, how many finished stages stayed within breach_hours.
+
+CREATE TABLE IF NOT EXISTS public.request_sla_policies (
+  stage text PRIMARY KEY CHECK (stage IN ('pending', 'approved', 'delivered')),
+  reminder_hours integer NOT NULL CHECK (reminder_hours > 0),
+  breach_hours integer NOT NULL,
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT request_sla_policies_breach_after_reminder CHECK (breach_hours > reminder_hours)
+);
+
+INSERT INTO public.request_sla_policies (stage, reminder_hours, breach_hours)
+VALUES
+  ('pending', 24, 48),
+  ('approved', 24, 48),
+  ('delivered', 48, 96)
+ON CONFLICT (stage) DO NOTHING;
+
+ALTER TABLE public.request_sla_policies ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, UPDATE ON TABLE public.request_sla_policies TO authenticated;
+GRANT ALL ON TABLE public.request_sla_policies TO service_role;
+
+DROP POLICY IF EXISTS request_sla_policies_select_authenticated ON public.request_sla_policies;
+CREATE POLICY request_sla_policies_select_authenticated
+ON public.request_sla_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS request_sla_policies_update_admin ON public.request_sla_policies;
+CREATE POLICY request_sla_policies_update_admin
+ON public.request_sla_policies
+FOR UPDATE
+TO authenticated
+USING (public.is_admin_user())
+WITH CHECK (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.request_sla_policies_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS request_sla_policies_touch ON public.request_sla_policies;
+CREATE TRIGGER request_sla_policies_touch
+BEFORE INSERT OR UPDATE ON public.request_sla_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.request_sla_policies_touch();
+
+CREATE TABLE IF NOT EXISTS public.request_sla_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES public.monthly_requests(id) ON DELETE CASCADE,
+  stage text NOT NULL CHECK (stage IN ('pending', 'approved', 'delivered')),
+  kind text NOT NULL CHECK (kind IN ('reminder', 'breach')),
+  stage_started_at timestamptz NOT NULL,
+  hours_open numeric(8, 1) NOT NULL,
+  engineer_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  engineer_name text,
+  area_group text,
+  -- Admin who moved the request into this stage (approver / shipper); NULL for pending.
+  responsible_admin_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  notified_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (request_id, stage, stage_started_at, kind)
+);
+
+CREATE INDEX IF NOT EXISTS request_sla_events_open_idx
+  ON public.request_sla_events (created_at DESC)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE public.request_sla_events ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.request_sla_events TO authenticated;
+GRANT ALL ON TABLE public.request_sla_events TO service_role;
+
+DROP POLICY IF EXISTS request_sla_events_select_admin ON public.request_sla_events;
+CREATE POLICY request_sla_events_select_admin
+ON public.request_sla_events
+FOR SELECT
+TO authenticated
+USING (public.is_admin_user());
+
+CREATE OR REPLACE FUNCTION public.evaluate_request_slas()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_resolved integer := 0;
+  v_events jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menjalankan evaluasi SLA.' USING ERRCODE = '42501';
+  END IF;
+
+  -- Close events whose stage episode has ended.
+  UPDATE public.request_sla_events e
+  SET resolved_at = v_now
+  WHERE e.resolved_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.monthly_requests mr
+      WHERE mr.id = e.request_id
+        AND mr.status = e.stage
+        AND COALESCE((
+          SELECT max(h.created_at)
+          FROM public.request_status_history h
+          WHERE h.request_id = mr.id
+            AND h.to_status = mr.status
+        ), e.stage_started_at) = e.stage_started_at
+    );
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  WITH open_requests AS (
+    SELECT
+      mr.id AS request_id,
+      mr.status AS stage,
+      COALESCE(
+        (
+          SELECT max(h.created_at)
+          FROM public.request_status_history h
+          WHERE h.request_id = mr.id
+            AND h.to_status = mr.status
+        ),
+        CASE mr.status
+          WHEN 'pending' THEN mr.submitted_at
+          WHEN 'approved' THEN mr.reviewed_at
+          ELSE mr.delivered_at
+        END
+      ) AS stage_started_at,
+      mr.engineer_id,
+      p.name AS engineer_name,
+      p.location AS area_group,
+      CASE mr.status
+        WHEN 'approved' THEN mr.reviewed_by
+        WHEN 'delivered' THEN mr.delivered_by
+      END AS responsible_admin_id
+    FROM public.monthly_requests mr
+    LEFT JOIN public.profiles p ON p.id = mr.engineer_id
+    WHERE mr.status IN ('pending', 'approved', 'delivered')
+  ),
+  due AS (
+    SELECT
+      o.*,
+      kinds.kind,
+      round((extract(epoch FROM v_now - o.stage_started_at) / 3600)::numeric, 1) AS hours_open
+    FROM open_requests o
+    JOIN public.request_sla_policies sp ON sp.stage = o.stage
+    CROSS JOIN LATERAL (
+      VALUES ('reminder', sp.reminder_hours), ('breach', sp.breach_hours)
+    ) AS kinds(kind, limit_hours)
+    WHERE o.stage_started_at IS NOT NULL
+      AND o.stage_started_at <= v_now - make_interval(hours => kinds.limit_hours)
+  ),
+  inserted AS (
+    INSERT INTO public.request_sla_events (
+      request_id,
+      stage,
+      kind,
+      stage_started_at,
+      hours_open,
+      engineer_id,
+      engineer_name,
+      area_group,
+      responsible_admin_id
+    )
+    SELECT
+      d.request_id,
+      d.stage,
+      d.kind,
+      d.stage_started_at,
+      d.hours_open,
+      d.engineer_id,
+      d.engineer_name,
+      d.area_group,
+      d.responsible_admin_id
+    FROM due d
+    -- A request found already past breach_hours gets only the escalation, not a late reminder too.
+    WHERE d.kind = 'breach'
+      OR NOT EXISTS (
+        SELECT 1 FROM due b
+        WHERE b.request_id = d.request_id
+          AND b.kind = 'breach'
+      )
+    ON CONFLICT (request_id, stage, stage_started_at, kind) DO NOTHING
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'eventId', i.id,
+      'requestId', i.request_id,
+      'stage', i.stage,
+      'kind', i.kind,
+      'hoursOpen', i.hours_open,
+      'engineerId', i.engineer_id,
+      'engineerName', i.engineer_name,
+      'areaGroup', i.area_group,
+      'responsibleAdminId', i.responsible_admin_id
+    ) ORDER BY i.kind DESC, i.hours_open DESC), '[]'::jsonb)
+  INTO v_events
+  FROM inserted i;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'evaluated',
+    'resolved', v_resolved,
+    'events', v_events
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.evaluate_request_slas() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.evaluate_request_slas() TO authenticated, service_role;
+
+-- Called by the edge function after it has pushed the notifications for these events.
+CREATE OR REPLACE FUNCTION public.mark_request_sla_events_notified(
+  p_event_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh menandai notifikasi SLA.' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.request_sla_events
+  SET notified_at = now()
+  WHERE id = ANY(COALESCE(p_event_ids, '{}'))
+    AND notified_at IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'marked', 'marked', v_count);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_request_sla_events_notified(uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mark_request_sla_events_notified(uuid[]) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.request_sla_compliance(
+  p_days integer DEFAULT 30
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since timestamptz := now() - make_interval(days => GREATEST(COALESCE(p_days, 30), 1));
+  v_by_admin jsonb;
+  v_by_area jsonb;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh melihat laporan SLA.' USING ERRCODE = '42501';
+  END IF;
+
+  -- One row per stage episode: entered by a history entry, ended by the next one.
+  WITH episodes AS (
+    SELECT
+      ep.stage,
+      ep.exited_at,
+      ep.exit_actor_id,
+      ep.exit_actor_name,
+      extract(epoch FROM COALESCE(ep.exited_at, now()) - ep.entered_at) / 3600 AS hours_open,
+      p.location AS area_group,
+      COALESCE(ep.exited_at, now()) - ep.entered_at > make_interval(hours => sp.breach_hours) AS breached
+    FROM (
+      SELECT
+        h.request_id,
+        h.to_status AS stage,
+        h.created_at AS entered_at,
+        lead(h.created_at) OVER w AS exited_at,
+        lead(h.actor_id) OVER w AS exit_actor_id,
+        lead(h.actor_name) OVER w AS exit_actor_name
+      FROM public.request_status_history h
+      WINDOW w AS (PARTITION BY h.request_id ORDER BY h.created_at, h.id)
+    ) AS ep
+    JOIN public.request_sla_policies sp ON sp.stage = ep.stage
+    JOIN public.monthly_requests mr ON mr.id = ep.request_id
+    LEFT JOIN public.profiles p ON p.id = mr.engineer_id
+    WHERE ep.exited_at IS NULL
+      OR ep.exited_at >= v_since
+  ),
+  -- Admins are measured on the stages they close: review (pending) and shipping (approved).
+  by_admin AS (
+    SELECT
+      e.exit_actor_id,
+      max(e.exit_actor_name) AS admin_name,
+      count(*)::int AS handled,
+      count(*) FILTER (WHERE e.breached)::int AS breached,
+      round(avg(e.hours_open)::numeric, 1) AS avg_hours
+    FROM episodes e
+    WHERE e.exited_at IS NOT NULL
+      AND e.stage IN ('pending', 'approved')
+      AND e.exit_actor_id IS NOT NULL
+    GROUP BY e.exit_actor_id
+  ),
+  by_area AS (
+    SELECT
+      e.area_group,
+      count(*) FILTER (WHERE e.exited_at IS NOT NULL)::int AS handled,
+      count(*) FILTER (WHERE e.exited_at IS NOT NULL AND e.breached)::int AS breached,
+      count(*) FILTER (WHERE e.exited_at IS NULL AND e.breached)::int AS open_breaches
+    FROM episodes e
+    GROUP BY e.area_group
+  )
+  SELECT
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'adminId', a.exit_actor_id,
+          'adminName', COALESCE(a.admin_name, 'Tanpa nama'),
+          'handled', a.handled,
+          'breached', a.breached,
+          'avgHours', a.avg_hours
+        ) ORDER BY a.breached DESC, a.handled DESC), '[]'::jsonb)
+      FROM by_admin a
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'area', COALESCE(a.area_group, 'Unknown Area'),
+          'handled', a.handled,
+          'breached', a.breached,
+          'openBreaches', a.open_breaches
+        ) ORDER BY a.breached + a.open_breaches DESC, a.handled DESC), '[]'::jsonb)
+      FROM by_area a
+    )
+  INTO v_by_admin, v_by_area;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'report',
+    'days', GREATEST(COALESCE(p_days, 30), 1),
+    'by_admin', v_by_admin,
+    'by_area', v_by_area
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_sla_compliance(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.request_sla_compliance(integer) TO authenticated, service_role;
@@ -0,0 +1,213 @@
+-- Opt-in daily / weekly digest notifications.
+-- Each user may keep one notification_digest_settings row: frequency (off, daily or weekly), the
+-- local send time, the ISO weekday for weekly digests and the user's Indonesian time zone.
+-- collect_due_digests() returns the digests due at the moment of the call together with their
+-- content, computed per role:
+--   admin     requests pending review, deliveries awaiting confirmation, warehouse parts at or
+--             below inventory.min_stock
+--   engineer  own parts at or below their minimum (engineer_stock.min_stock, else
+--             inventory.min_stock, else 5, as on the Stok screen) and own open requests
+-- The notification-digest edge function runs on a schedule, sends each digest as one in-app
+-- notification plus push and then calls mark_digests_sent(), so a digest goes out at most once
+-- per local day.
+
+CREATE TABLE IF NOT EXISTS public.notification_digest_settings (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  frequency text NOT NULL DEFAULT 'off' CHECK (frequency IN ('off', 'daily', 'weekly')),
+  send_time time NOT NULL DEFAULT '07:00',
+  -- ISO weekday (1 = Monday) used by weekly digests.
+  weekday smallint NOT NULL DEFAULT 1 CHECK (weekday BETWEEN 1 AND 7),
+  timezone text NOT NULL DEFAULT 'Asia/Jakarta'
+    CHECK (timezone IN ('Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura')),
+  last_sent_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_digest_settings ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE ON TABLE public.notification_digest_settings TO authenticated;
+GRANT ALL ON TABLE public.notification_digest_settings TO service_role;
+
+DROP POLICY IF EXISTS notification_digest_settings_select_own ON public.notification_digest_settings;
+CREATE POLICY notification_digest_settings_select_own
+ON public.notification_digest_settings
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS notification_digest_settings_insert_own ON public.notification_digest_settings;
+CREATE POLICY notification_digest_settings_insert_own
+ON public.notification_digest_settings
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS notification_digest_settings_update_own ON public.notification_digest_settings;
+CREATE POLICY notification_digest_settings_update_own
+ON public.notification_digest_settings
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- last_sent_at is owned by mark_digests_sent(), which flags its session; other writes keep it.
+CREATE OR REPLACE FUNCTION public.notification_digest_settings_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF COALESCE(current_setting('babypart.digest_marking', true), '') <> 'on' THEN
+    NEW.last_sent_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.last_sent_at ELSE NULL END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notification_digest_settings_touch ON public.notification_digest_settings;
+CREATE TRIGGER notification_digest_settings_touch
+BEFORE INSERT OR UPDATE ON public.notification_digest_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.notification_digest_settings_touch();
+
+CREATE OR REPLACE FUNCTION public.collect_due_digests(p_now timestamptz DEFAULT now())
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pending_reviews integer;
+  v_awaiting_confirmation integer;
+  v_warehouse_low jsonb;
+  v_digests jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang bisa menjalankan digest.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'pending'),
+    COUNT(*) FILTER (WHERE status = 'delivered')
+  INTO v_pending_reviews, v_awaiting_confirmation
+  FROM public.monthly_requests;
+
+  SELECT jsonb_build_object(
+    'count', COUNT(*),
+    'parts', COALESCE(
+      (jsonb_agg(low.part_name ORDER BY low.shortfall DESC, low.part_name) FILTER (WHERE low.rank <= 3)),
+      '[]'::jsonb
+    )
+  )
+  INTO v_warehouse_low
+  FROM (
+    SELECT
+      i.part_name,
+      i.min_stock - i.total_stock AS shortfall,
+      row_number() OVER (ORDER BY i.min_stock - i.total_stock DESC, i.part_name) AS rank
+    FROM public.inventory i
+    WHERE i.min_stock > 0
+      AND i.total_stock <= i.min_stock
+  ) low;
+
+  WITH due AS (
+    SELECT s.user_id, s.frequency, p.role
+    FROM public.notification_digest_settings s
+    JOIN public.profiles p ON p.id = s.user_id
+    WHERE s.frequency <> 'off'
+      AND p.is_active
+      AND (p_now AT TIME ZONE s.timezone)::time >= s.send_time
+      AND (
+        s.last_sent_at IS NULL
+        OR (s.last_sent_at AT TIME ZONE s.timezone)::date < (p_now AT TIME ZONE s.timezone)::date
+      )
+      AND (
+        s.frequency = 'daily'
+        OR extract(isodow FROM p_now AT TIME ZONE s.timezone) = s.weekday
+      )
+  ),
+  engineer_low AS (
+    SELECT
+      es.engineer_id,
+      i.part_name,
+      row_number() OVER (
+        PARTITION BY es.engineer_id
+        ORDER BY COALESCE(es.min_stock, i.min_stock, 5) - es.quantity DESC, i.part_name
+      ) AS rank
+    FROM public.engineer_stock es
+    JOIN public.inventory i ON i.id = es.part_id
+    WHERE es.engineer_id IN (SELECT user_id FROM due WHERE role = 'engineer')
+      AND es.quantity <= COALESCE(es.min_stock, i.min_stock, 5)
+  ),
+  engineer_open AS (
+    SELECT mr.engineer_id, COUNT(*) AS open_requests
+    FROM public.monthly_requests mr
+    WHERE mr.engineer_id IN (SELECT user_id FROM due WHERE role = 'engineer')
+      AND mr.status IN ('pending', 'approved', 'delivered')
+    GROUP BY mr.engineer_id
+  )
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN d.role = 'admin' THEN
+      jsonb_build_object(
+        'userId', d.user_id,
+        'role', d.role,
+        'frequency', d.frequency,
+        'pendingReviews', v_pending_reviews,
+        'awaitingConfirmation', v_awaiting_confirmation,
+        'lowStockCount', (v_warehouse_low ->> 'count')::integer,
+        'lowStockParts', v_warehouse_low -> 'parts'
+      )
+    ELSE
+      jsonb_build_object(
+        'userId', d.user_id,
+        'role', d.role,
+        'frequency', d.frequency,
+        'openRequests', COALESCE((SELECT eo.open_requests FROM engineer_open eo WHERE eo.engineer_id = d.user_id), 0),
+        'lowStockCount', (SELECT COUNT(*) FROM engineer_low el WHERE el.engineer_id = d.user_id),
+        'lowStockParts', COALESCE(
+          (SELECT jsonb_agg(el.part_name ORDER BY el.rank) FROM engineer_low el WHERE el.engineer_id = d.user_id AND el.rank <= 3),
+          '[]'::jsonb
+        )
+      )
+    END
+  ), '[]'::jsonb)
+  INTO v_digests
+  FROM due d;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'collected', 'digests', v_digests);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.collect_due_digests(timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.collect_due_digests(timestamptz) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.mark_digests_sent(p_user_ids uuid[], p_sent_at timestamptz DEFAULT now())
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_marked integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang bisa menjalankan digest.' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('babypart.digest_marking', 'on', true);
+
+  UPDATE public.notification_digest_settings
+  SET last_sent_at = p_sent_at
+  WHERE user_id = ANY(COALESCE(p_user_ids, ARRAY[]::uuid[]));
+
+  GET DIAGNOSTICS v_marked = ROW_COUNT;
+
+  PERFORM set_config('babypart.digest_marking', '', true);
+
+  RETURN jsonb_build_object('ok', true, 'code', 'marked', 'marked', v_marked);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_digests_sent(uuid[], timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mark_digests_sent(uuid[], timestamptz) TO authenticated, service_role;
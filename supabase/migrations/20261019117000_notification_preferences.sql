@@ -0,0 +1,175 @@
+-- Per-user notification preferences by type and channel, plus quiet hours.
+-- notifications.type now carries the real notification type instead of always 'system'.
+-- notification_preferences holds one row per user and type with the channel to use:
+--   all      in-app list and push (also the default when there is no row)
+--   in_app   in-app list only
+--   push     push only
+--   muted    nothing
+-- notification_quiet_hours holds an optional local time window in which push is held back; the
+-- in-app row is still written. Both are enforced on the server: a trigger on notifications drops
+-- rows for recipients that do not want them in-app, and push-gateway narrows its external_id
+-- targets with notification_push_recipients() before calling OneSignal.
+
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'system',
+    'broadcast',
+    'request_progress',
+    'comment',
+    'sla',
+    'digest',
+    'stock_transfer',
+    'stock_return',
+    'stock_correction',
+    'stock_count',
+    'defective_part'
+  )) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'broadcast',
+    'request_progress',
+    'comment',
+    'sla',
+    'digest',
+    'stock_transfer',
+    'stock_return',
+    'stock_correction',
+    'stock_count',
+    'defective_part'
+  )),
+  channel text NOT NULL DEFAULT 'all' CHECK (channel IN ('all', 'in_app', 'push', 'muted')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+CREATE TABLE IF NOT EXISTS public.notification_quiet_hours (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  is_enabled boolean NOT NULL DEFAULT false,
+  -- A window with start_time > end_time runs past midnight (e.g. 22:00 - 06:00).
+  start_time time NOT NULL DEFAULT '22:00',
+  end_time time NOT NULL DEFAULT '06:00',
+  timezone text NOT NULL DEFAULT 'Asia/Jakarta'
+    CHECK (timezone IN ('Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT notification_quiet_hours_window CHECK (start_time <> end_time)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_quiet_hours ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.notification_preferences TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON TABLE public.notification_quiet_hours TO authenticated;
+GRANT ALL ON TABLE public.notification_preferences TO service_role;
+GRANT ALL ON TABLE public.notification_quiet_hours TO service_role;
+
+DROP POLICY IF EXISTS notification_preferences_own ON public.notification_preferences;
+CREATE POLICY notification_preferences_own
+ON public.notification_preferences
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS notification_quiet_hours_own ON public.notification_quiet_hours;
+CREATE POLICY notification_quiet_hours_own
+ON public.notification_quiet_hours
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.notification_preferences_touch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notification_preferences_touch ON public.notification_preferences;
+CREATE TRIGGER notification_preferences_touch
+BEFORE INSERT OR UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.notification_preferences_touch();
+
+DROP TRIGGER IF EXISTS notification_quiet_hours_touch ON public.notification_quiet_hours;
+CREATE TRIGGER notification_quiet_hours_touch
+BEFORE INSERT OR UPDATE ON public.notification_quiet_hours
+FOR EACH ROW
+EXECUTE FUNCTION public.notification_preferences_touch();
+
+-- Skip the in-app row when the recipient chose push-only or muted for this type.
+CREATE OR REPLACE FUNCTION public.notifications_apply_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.notification_preferences np
+    WHERE np.user_id = NEW.user_id
+      AND np.type = NEW.type
+      AND np.channel IN ('push', 'muted')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_apply_preferences ON public.notifications;
+CREATE TRIGGER notifications_apply_preferences
+BEFORE INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.notifications_apply_preferences();
+
+-- Recipients out of p_user_ids that should get a push of p_type right now.
+CREATE OR REPLACE FUNCTION public.notification_push_recipients(
+  p_user_ids uuid[],
+  p_type text,
+  p_now timestamptz DEFAULT now()
+)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(target.user_id), ARRAY[]::uuid[])
+  FROM unnest(COALESCE(p_user_ids, ARRAY[]::uuid[])) AS target(user_id)
+  WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.notification_preferences np
+      WHERE np.user_id = target.user_id
+        AND np.type = p_type
+        AND np.channel IN ('in_app', 'muted')
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.notification_quiet_hours qh
+      WHERE qh.user_id = target.user_id
+        AND qh.is_enabled
+        AND CASE
+          WHEN qh.start_time < qh.end_time THEN
+            (p_now AT TIME ZONE qh.timezone)::time >= qh.start_time
+            AND (p_now AT TIME ZONE qh.timezone)::time < qh.end_time
+          ELSE
+            (p_now AT TIME ZONE qh.timezone)::time >= qh.start_time
+            OR (p_now AT TIME ZONE qh.timezone)::time < qh.end_time
+        END
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.notification_push_recipients(uuid[], text, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.notification_push_recipients(uuid[], text, timestamptz) TO service_role;
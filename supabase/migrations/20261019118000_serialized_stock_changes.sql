@@ -0,0 +1,861 @@
+-- Every change to the count of a serialized part now goes through part_serials.
+--   adjust_inventory_stock   'adjust' on a serialized part needs one serial per unit of the
+--                            difference: new serials when the count goes up, serials in that
+--                            warehouse when it goes down (they become written_off).
+--   deliver_monthly_request  one serial per unit shipped, not capped by the warehouse count.
+--   submit_stock_correction  engineers cannot correct a serialized part by count; serials come
+--                            back through returns and defects instead.
+--   review_stock_count_lines approving a count line of a serialized part is skipped and the line
+--                            ids are returned, so the admin reconciles those serials by hand.
+-- Switching a part to or from serialized also waits for its pending stock corrections.
+
+ALTER TABLE public.part_serials
+  DROP CONSTRAINT IF EXISTS part_serials_status_check;
+ALTER TABLE public.part_serials
+  ADD CONSTRAINT part_serials_status_check
+  CHECK (status IN ('in_warehouse', 'with_engineer', 'returning', 'installed', 'defective', 'written_off'));
+
+-- Same as before, plus pending stock corrections of the part.
+CREATE OR REPLACE FUNCTION public.guard_inventory_serialized()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_serialized AND COALESCE(NEW.total_stock, 0) > 0 THEN
+      RAISE EXCEPTION 'Part serialized dimulai dari stok 0.' USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_serialized IS DISTINCT FROM OLD.is_serialized AND (
+    COALESCE(OLD.total_stock, 0) > 0
+    OR EXISTS (
+      SELECT 1
+      FROM public.engineer_stock es
+      WHERE es.part_id = OLD.id
+        AND es.quantity > 0
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.stock_returns sr
+      CROSS JOIN LATERAL jsonb_array_elements(sr.items) AS item
+      WHERE sr.status = 'pending'
+        AND item->>'partId' = OLD.id
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.stock_correction_requests scr
+      WHERE scr.status = 'pending'
+        AND scr.part_id = OLD.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Status serialized hanya bisa diubah saat part ini tidak ada stoknya di gudang maupun di engineer.'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, but every unit shipped needs a serial.
+CREATE OR REPLACE FUNCTION public.deliver_monthly_request(
+  p_request_id uuid,
+  p_items jsonb DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.monthly_requests%ROWTYPE;
+  v_now timestamptz := now();
+  v_is_backorder boolean;
+  v_warehouse_id uuid;
+  v_plan jsonb;
+  v_shipment_items jsonb;
+  v_backorder_items jsonb;
+  v_delivered_items jsonb;
+  v_shortages jsonb;
+  v_serial_plan jsonb;
+  v_serial_issues jsonb;
+  v_is_adjusted boolean;
+  v_shipment_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh memproses pengiriman.' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT *
+  INTO v_request
+  FROM public.monthly_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  v_is_backorder := FOUND
+    AND v_request.status IN ('delivered', 'completed')
+    AND v_request.has_backorder;
+
+  IF NOT FOUND OR (v_request.status <> 'approved' AND NOT v_is_backorder) THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'invalid_status',
+      'status', v_request.status
+    );
+  END IF;
+
+  IF p_warehouse_id IS NOT NULL THEN
+    SELECT w.id INTO v_warehouse_id
+    FROM public.warehouses w
+    WHERE w.id = p_warehouse_id
+      AND w.is_active;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+    END IF;
+  ELSE
+    SELECT public.resolve_area_warehouse(p.location) INTO v_warehouse_id
+    FROM public.profiles p
+    WHERE p.id = v_request.engineer_id;
+
+    v_warehouse_id := COALESCE(v_warehouse_id, public.default_warehouse_id());
+  END IF;
+
+  -- Owed qty per part (full request or open backorder), capped by the admin adjustment.
+  WITH requested AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS requested_qty
+    FROM jsonb_array_elements(
+      CASE WHEN v_is_backorder THEN v_request.backorder_items ELSE COALESCE(v_request.items, '[]'::jsonb) END
+    ) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  ),
+  planned AS (
+    SELECT
+      item->>'partId' AS part_id,
+      SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS planned_qty
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS item
+    WHERE COALESCE(item->>'partId', '') <> ''
+    GROUP BY item->>'partId'
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'part_id', r.part_id,
+      'requested_qty', r.requested_qty,
+      'deliver_qty', CASE
+        WHEN p_items IS NULL THEN r.requested_qty
+        ELSE LEAST(r.requested_qty, COALESCE(p.planned_qty, 0))
+      END
+    )), '[]'::jsonb)
+  INTO v_plan
+  FROM requested r
+  LEFT JOIN planned p ON p.part_id = r.part_id
+  WHERE r.requested_qty > 0;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_delivery');
+  END IF;
+
+  -- Lock inventory rows in a stable order so concurrent deliveries cannot deadlock.
+  PERFORM 1
+  FROM public.inventory i
+  WHERE i.id IN (
+    SELECT d.part_id
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    WHERE d.deliver_qty > 0
+  )
+  ORDER BY i.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.warehouse_stock ws
+  WHERE ws.warehouse_id = v_warehouse_id
+    AND ws.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+      WHERE d.deliver_qty > 0
+    )
+  ORDER BY ws.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d.part_id,
+      'partName', COALESCE(i.part_name, d.part_id),
+      'required', d.deliver_qty,
+      'available', COALESCE(ws.quantity, 0),
+      'missing', i.id IS NULL
+    ) ORDER BY d.part_id), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  LEFT JOIN public.inventory i ON i.id = d.part_id
+  LEFT JOIN public.warehouse_stock ws ON ws.warehouse_id = v_warehouse_id AND ws.part_id = d.part_id
+  WHERE d.deliver_qty > 0
+    AND (i.id IS NULL OR COALESCE(ws.quantity, 0) < d.deliver_qty);
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'insufficient_stock',
+      'warehouse_id', v_warehouse_id,
+      'shortages', v_shortages
+    );
+  END IF;
+
+  -- Serials picked for each serialized part, checked against the serials held by that warehouse.
+  PERFORM 1
+  FROM public.part_serials ps
+  WHERE ps.status = 'in_warehouse'
+    AND ps.warehouse_id = v_warehouse_id
+    AND ps.part_id IN (
+      SELECT d.part_id
+      FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+      JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+      WHERE d.deliver_qty > 0
+    )
+  ORDER BY ps.id
+  FOR UPDATE;
+
+  WITH picked AS (
+    SELECT DISTINCT entry->>'partId' AS part_id, upper(btrim(s)) AS serial_number
+    FROM jsonb_array_elements(COALESCE(p_serials, '[]'::jsonb)) AS entry
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(entry->'serials', '[]'::jsonb)) AS s
+    WHERE btrim(s) <> ''
+  ),
+  serialized AS (
+    SELECT
+      d.part_id,
+      COALESCE(i.part_name, d.part_id) AS part_name,
+      d.deliver_qty,
+      (
+        SELECT COALESCE(jsonb_agg(ps.id), '[]'::jsonb)
+        FROM picked pk
+        JOIN public.part_serials ps
+          ON ps.part_id = pk.part_id
+         AND ps.serial_number = pk.serial_number
+         AND ps.status = 'in_warehouse'
+         AND ps.warehouse_id = v_warehouse_id
+        WHERE pk.part_id = d.part_id
+      ) AS serial_ids,
+      (SELECT COUNT(*)::int FROM picked pk WHERE pk.part_id = d.part_id) AS picked_count
+    FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+    JOIN public.inventory i ON i.id = d.part_id AND i.is_serialized
+    WHERE d.deliver_qty > 0
+  )
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('part_id', part_id, 'serial_ids', serial_ids)), '[]'::jsonb),
+    COALESCE(jsonb_agg(jsonb_build_object(
+        'partId', part_id,
+        'partName', part_name,
+        'required', deliver_qty,
+        'valid', jsonb_array_length(serial_ids)
+      ) ORDER BY part_id) FILTER (
+        WHERE jsonb_array_length(serial_ids) <> deliver_qty
+          OR picked_count <> jsonb_array_length(serial_ids)
+      ), '[]'::jsonb)
+  INTO v_serial_plan, v_serial_issues
+  FROM serialized;
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'serials_required',
+      'serial_issues', v_serial_issues
+    );
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    'delivery',
+    p_request_id,
+    CASE WHEN v_is_backorder THEN 'Backorder' END
+  );
+  PERFORM set_config('babypart.movement_warehouse_id', v_warehouse_id::text, true);
+
+  UPDATE public.inventory i
+  SET total_stock = i.total_stock - d.deliver_qty,
+      last_updated = v_now
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int)
+  WHERE i.id = d.part_id
+    AND d.deliver_qty > 0;
+
+  PERFORM set_config('babypart.movement_warehouse_id', '', true);
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', deliver_qty) ORDER BY part_id)
+      FILTER (WHERE deliver_qty > 0), '[]'::jsonb),
+    jsonb_agg(jsonb_build_object('partId', part_id, 'quantity', requested_qty - deliver_qty) ORDER BY part_id)
+      FILTER (WHERE requested_qty > deliver_qty),
+    bool_or(deliver_qty <> requested_qty)
+  INTO v_shipment_items, v_backorder_items, v_is_adjusted
+  FROM jsonb_to_recordset(v_plan) AS d(part_id text, requested_qty int, deliver_qty int);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('partId', totals.part_id, 'quantity', totals.qty) ORDER BY totals.part_id), '[]'::jsonb)
+  INTO v_delivered_items
+  FROM (
+    SELECT item->>'partId' AS part_id, SUM((item->>'quantity')::int)::int AS qty
+    FROM jsonb_array_elements(COALESCE(v_request.delivered_items, '[]'::jsonb) || v_shipment_items) AS item
+    GROUP BY item->>'partId'
+  ) AS totals;
+
+  INSERT INTO public.monthly_request_shipments (request_id, items, is_backorder, warehouse_id, delivered_by, delivered_at)
+  VALUES (p_request_id, v_shipment_items, v_is_backorder, v_warehouse_id, auth.uid(), v_now)
+  RETURNING id INTO v_shipment_id;
+
+  UPDATE public.part_serials ps
+  SET status = 'with_engineer',
+      engineer_id = v_request.engineer_id,
+      request_id = p_request_id,
+      shipment_id = v_shipment_id,
+      delivered_at = v_now
+  WHERE ps.id IN (
+    SELECT (serial_id #>> '{}')::uuid
+    FROM jsonb_to_recordset(v_serial_plan) AS sp(part_id text, serial_ids jsonb)
+    CROSS JOIN LATERAL jsonb_array_elements(sp.serial_ids) AS serial_id
+  );
+
+  UPDATE public.monthly_requests
+  SET status = 'delivered',
+      delivered_by = auth.uid(),
+      delivered_at = v_now,
+      delivered_items = v_delivered_items,
+      backorder_items = v_backorder_items,
+      confirmed_at = NULL,
+      last_edited_by = CASE WHEN v_is_adjusted THEN auth.uid() ELSE last_edited_by END,
+      last_edited_at = CASE WHEN v_is_adjusted THEN v_now ELSE last_edited_at END
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'delivered',
+    'delivered_at', v_now,
+    'shipment_id', v_shipment_id,
+    'warehouse_id', v_warehouse_id,
+    'items', v_shipment_items,
+    'backorder_items', COALESCE(v_backorder_items, '[]'::jsonb),
+    'is_backorder', v_is_backorder,
+    'adjusted', v_is_adjusted
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_monthly_request(uuid, jsonb, jsonb, uuid) TO authenticated, service_role;
+
+-- Same as before, plus serials for 'adjust' on a serialized part.
+CREATE OR REPLACE FUNCTION public.adjust_inventory_stock(
+  p_part_id text,
+  p_mode text,
+  p_quantity integer,
+  p_expected_stock integer DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_serials text[] DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id uuid := COALESCE(p_warehouse_id, public.default_warehouse_id());
+  v_current integer;
+  v_next integer;
+  v_is_serialized boolean;
+  v_serials text[];
+  v_duplicates text[];
+  v_unknown text[];
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mengubah stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode NOT IN ('add', 'adjust') THEN
+    RAISE EXCEPTION 'Mode stok tidak dikenal: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL
+    OR (p_mode = 'add' AND p_quantity <= 0)
+    OR (p_mode = 'adjust' AND p_quantity < 0) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.warehouses WHERE id = v_warehouse_id AND is_active) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'warehouse_not_found');
+  END IF;
+
+  SELECT is_serialized
+  INTO v_is_serialized
+  FROM public.inventory
+  WHERE id = p_part_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  SELECT COALESCE(
+    (
+      SELECT ws.quantity
+      FROM public.warehouse_stock ws
+      WHERE ws.warehouse_id = v_warehouse_id
+        AND ws.part_id = p_part_id
+      FOR UPDATE
+    ),
+    0
+  )
+  INTO v_current;
+
+  IF p_expected_stock IS NOT NULL AND p_expected_stock <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_stock',
+      'current_stock', v_current
+    );
+  END IF;
+
+  v_next := CASE WHEN p_mode = 'add' THEN v_current + p_quantity ELSE p_quantity END;
+
+  -- A serialized part changes by named units: the serials received when the count goes up,
+  -- the serials of this warehouse written off when it goes down.
+  IF v_is_serialized AND v_next <> v_current THEN
+    SELECT COALESCE(array_agg(DISTINCT upper(btrim(s))), ARRAY[]::text[])
+    INTO v_serials
+    FROM unnest(COALESCE(p_serials, ARRAY[]::text[])) AS s
+    WHERE btrim(s) <> '';
+
+    IF cardinality(v_serials) <> abs(v_next - v_current) THEN
+      RETURN jsonb_build_object(
+        'ok', false,
+        'code', 'serials_required',
+        'required', abs(v_next - v_current),
+        'provided', cardinality(v_serials)
+      );
+    END IF;
+
+    IF v_next > v_current THEN
+      SELECT COALESCE(array_agg(ps.serial_number ORDER BY ps.serial_number), ARRAY[]::text[])
+      INTO v_duplicates
+      FROM public.part_serials ps
+      WHERE ps.part_id = p_part_id
+        AND ps.serial_number = ANY(v_serials);
+
+      IF cardinality(v_duplicates) > 0 THEN
+        RETURN jsonb_build_object(
+          'ok', false,
+          'code', 'duplicate_serials',
+          'serials', to_jsonb(v_duplicates)
+        );
+      END IF;
+
+      INSERT INTO public.part_serials (part_id, serial_number, received_by, warehouse_id)
+      SELECT p_part_id, s, auth.uid(), v_warehouse_id
+      FROM unnest(v_serials) AS s;
+    ELSE
+      PERFORM 1
+      FROM public.part_serials ps
+      WHERE ps.part_id = p_part_id
+        AND ps.serial_number = ANY(v_serials)
+      ORDER BY ps.id
+      FOR UPDATE;
+
+      SELECT COALESCE(array_agg(s ORDER BY s), ARRAY[]::text[])
+      INTO v_unknown
+      FROM unnest(v_serials) AS s
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM public.part_serials ps
+        WHERE ps.part_id = p_part_id
+          AND ps.serial_number = s
+          AND ps.status = 'in_warehouse'
+          AND ps.warehouse_id = v_warehouse_id
+      );
+
+      IF cardinality(v_unknown) > 0 THEN
+        RETURN jsonb_build_object(
+          'ok', false,
+          'code', 'unknown_serials',
+          'serials', to_jsonb(v_unknown)
+        );
+      END IF;
+
+      UPDATE public.part_serials
+      SET status = 'written_off'
+      WHERE part_id = p_part_id
+        AND serial_number = ANY(v_serials);
+    END IF;
+  END IF;
+
+  PERFORM public.set_inventory_movement_context(
+    CASE WHEN p_mode = 'add' THEN 'receipt' ELSE 'correction' END,
+    NULL,
+    NULLIF(btrim(COALESCE(p_note, '')), '')
+  );
+  PERFORM set_config('babypart.movement_warehouse_id', v_warehouse_id::text, true);
+
+  UPDATE public.inventory
+  SET total_stock = total_stock + (v_next - v_current),
+      last_updated = now()
+  WHERE id = p_part_id;
+
+  PERFORM set_config('babypart.movement_warehouse_id', '', true);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'warehouse_id', v_warehouse_id,
+    'previous_stock', v_current,
+    'new_stock', v_next
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[], uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.adjust_inventory_stock(text, text, integer, integer, text, text[], uuid) TO authenticated, service_role;
+
+-- Same as before, plus serialized_part for serialized parts.
+CREATE OR REPLACE FUNCTION public.submit_stock_correction(
+  p_part_id text,
+  p_new_quantity integer,
+  p_reason text,
+  p_expected_quantity integer DEFAULT NULL,
+  p_client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_profile public.profiles%ROWTYPE;
+  v_client_ref text := NULLIF(btrim(COALESCE(p_client_ref, '')), '');
+  v_reason text := btrim(COALESCE(p_reason, ''));
+  v_now timestamptz := now();
+  v_current integer;
+  v_adjustment_id uuid;
+  v_request_id uuid;
+  v_exceeded text[];
+  v_part_name text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_client_ref IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_uid::text || ':' || v_client_ref));
+
+    SELECT id, new_quantity
+    INTO v_adjustment_id, v_current
+    FROM public.stock_adjustments
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'adjustment_id', v_adjustment_id,
+        'new_quantity', v_current
+      );
+    END IF;
+
+    SELECT id, requested_quantity
+    INTO v_request_id, v_current
+    FROM public.stock_correction_requests
+    WHERE engineer_id = v_uid
+      AND client_ref = v_client_ref;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'ok', true,
+        'code', 'duplicate',
+        'correction_id', v_request_id,
+        'new_quantity', v_current
+      );
+    END IF;
+  END IF;
+
+  IF p_new_quantity IS NULL OR p_new_quantity < 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_quantity');
+  END IF;
+
+  IF v_reason = '' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'reason_required');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.inventory i WHERE i.id = p_part_id AND i.is_serialized) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serialized_part');
+  END IF;
+
+  SELECT quantity
+  INTO v_current
+  FROM public.engineer_stock
+  WHERE engineer_id = v_uid
+    AND part_id = p_part_id
+  FOR UPDATE;
+
+  v_current := COALESCE(v_current, 0);
+
+  IF p_expected_quantity IS NOT NULL AND p_expected_quantity <> v_current THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'stale_quantity',
+      'current_quantity', v_current,
+      'expected_quantity', p_expected_quantity
+    );
+  END IF;
+
+  SELECT id
+  INTO v_request_id
+  FROM public.stock_correction_requests
+  WHERE engineer_id = v_uid
+    AND part_id = p_part_id
+    AND status = 'pending';
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'code', 'pending_exists',
+      'correction_id', v_request_id
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE id = v_uid;
+  v_part_name := COALESCE((SELECT i.part_name FROM public.inventory i WHERE i.id = p_part_id), p_part_id);
+  v_exceeded := public.stock_correction_exceeded(p_part_id, v_current, p_new_quantity);
+
+  IF COALESCE(array_length(v_exceeded, 1), 0) > 0 THEN
+    INSERT INTO public.stock_correction_requests (
+      engineer_id,
+      engineer_name,
+      area_group,
+      part_id,
+      part_name,
+      previous_quantity,
+      requested_quantity,
+      delta,
+      reason,
+      exceeded,
+      client_ref,
+      created_at
+    )
+    VALUES (
+      v_uid,
+      COALESCE(v_profile.name, ''),
+      v_profile.location,
+      p_part_id,
+      v_part_name,
+      v_current,
+      p_new_quantity,
+      p_new_quantity - v_current,
+      v_reason,
+      v_exceeded,
+      v_client_ref,
+      v_now
+    )
+    RETURNING id INTO v_request_id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'code', 'pending_approval',
+      'correction_id', v_request_id,
+      'previous_quantity', v_current,
+      'new_quantity', p_new_quantity,
+      'exceeded', to_jsonb(v_exceeded)
+    );
+  END IF;
+
+  INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+  VALUES (v_uid, p_part_id, p_new_quantity, v_now)
+  ON CONFLICT (engineer_id, part_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+        last_sync = EXCLUDED.last_sync;
+
+  INSERT INTO public.stock_adjustments (
+    engineer_id,
+    engineer_name,
+    part_id,
+    part_name,
+    previous_quantity,
+    new_quantity,
+    delta,
+    reason,
+    area_group,
+    client_ref,
+    timestamp
+  )
+  VALUES (
+    v_uid,
+    COALESCE(v_profile.name, ''),
+    p_part_id,
+    v_part_name,
+    v_current,
+    p_new_quantity,
+    p_new_quantity - v_current,
+    v_reason,
+    v_profile.location,
+    v_client_ref,
+    v_now
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'applied',
+    'adjustment_id', v_adjustment_id,
+    'previous_quantity', v_current,
+    'new_quantity', p_new_quantity
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_stock_correction(text, integer, text, integer, text) TO authenticated, service_role;
+
+-- Same as before, but approval skips lines of serialized parts and reports them.
+CREATE OR REPLACE FUNCTION public.review_stock_count_lines(
+  p_line_ids uuid[],
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_now timestamptz := now();
+  v_line record;
+  v_current integer;
+  v_new_qty integer;
+  v_adjustment_id uuid;
+  v_reviewed integer := 0;
+  v_serialized uuid[] := ARRAY[]::uuid[];
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh mereview stock opname.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Keputusan tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(array_length(p_line_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'empty_selection');
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      l.*,
+      c.title AS campaign_title,
+      p.name AS engineer_name,
+      p.location AS engineer_location,
+      COALESCE(i.is_serialized, false) AS is_serialized
+    FROM public.stock_count_lines l
+    JOIN public.stock_count_campaigns c ON c.id = l.campaign_id
+    LEFT JOIN public.profiles p ON p.id = l.engineer_id
+    LEFT JOIN public.inventory i ON i.id = l.part_id
+    WHERE l.id = ANY(p_line_ids)
+      AND l.status = 'pending'
+    ORDER BY l.engineer_id, l.part_id
+    FOR UPDATE OF l
+  LOOP
+    v_adjustment_id := NULL;
+
+    IF p_decision = 'approve' AND v_line.is_serialized THEN
+      v_serialized := v_serialized || v_line.id;
+      CONTINUE;
+    END IF;
+
+    IF p_decision = 'approve' THEN
+      SELECT quantity
+      INTO v_current
+      FROM public.engineer_stock
+      WHERE engineer_id = v_line.engineer_id
+        AND part_id = v_line.part_id
+      FOR UPDATE;
+
+      v_current := COALESCE(v_current, 0);
+      v_new_qty := GREATEST(v_current + v_line.variance, 0);
+
+      INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+      VALUES (v_line.engineer_id, v_line.part_id, v_new_qty, v_now)
+      ON CONFLICT (engineer_id, part_id) DO UPDATE
+        SET quantity = EXCLUDED.quantity,
+            last_sync = EXCLUDED.last_sync;
+
+      INSERT INTO public.stock_adjustments (
+        engineer_id,
+        engineer_name,
+        part_id,
+        part_name,
+        previous_quantity,
+        new_quantity,
+        delta,
+        reason,
+        area_group,
+        campaign_id,
+        timestamp
+      )
+      VALUES (
+        v_line.engineer_id,
+        COALESCE(v_line.engineer_name, ''),
+        v_line.part_id,
+        COALESCE(v_line.part_name, v_line.part_id),
+        v_current,
+        v_new_qty,
+        v_new_qty - v_current,
+        'Stock opname: ' || v_line.campaign_title || COALESCE(' - ' || v_note, ''),
+        v_line.engineer_location,
+        v_line.campaign_id,
+        v_now
+      )
+      RETURNING id INTO v_adjustment_id;
+    END IF;
+
+    UPDATE public.stock_count_lines
+    SET status = CASE WHEN p_decision = 'approve' THEN 'approved' ELSE 'rejected' END,
+        adjustment_id = v_adjustment_id,
+        review_note = v_note,
+        reviewed_by = v_uid,
+        reviewed_at = v_now
+    WHERE id = v_line.id;
+
+    v_reviewed := v_reviewed + 1;
+  END LOOP;
+
+  UPDATE public.stock_count_tasks t
+  SET status = 'reviewed',
+      reviewed_at = v_now
+  WHERE t.status = 'submitted'
+    AND t.id IN (SELECT l.task_id FROM public.stock_count_lines l WHERE l.id = ANY(p_line_ids))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.stock_count_lines l
+      WHERE l.task_id = t.id
+        AND l.status = 'pending'
+    );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'code', 'reviewed',
+    'reviewed', v_reviewed,
+    'skipped', COALESCE(array_length(p_line_ids, 1), 0) - v_reviewed,
+    'serialized_line_ids', to_jsonb(v_serialized)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_stock_count_lines(uuid[], text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_stock_count_lines(uuid[], text, text) TO authenticated, service_role;
@@ -0,0 +1,71 @@
+-- Request status changes now depend on who makes them.
+-- Statements sent straight from the app run as the authenticated role; the request RPCs are
+-- SECURITY DEFINER and run as their owner. A non-admin writing monthly_requests directly may
+-- only create a pending request and cancel a pending one. approved, rejected, delivered and
+-- completed come from review_monthly_request, bulk_review_monthly_requests,
+-- deliver_monthly_request and confirm_monthly_request_receipt, or from an admin.
+-- Deleting a request directly is left to admins; engineers cancel instead, so the status history
+-- keeps the cancellation.
+
+CREATE OR REPLACE FUNCTION public.request_status_change_by_client_allowed(
+  p_from text,
+  p_to text
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from IS NULL THEN p_to = 'pending'
+    WHEN p_from = p_to THEN true
+    ELSE p_from = 'pending' AND p_to = 'cancelled'
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_status_change_by_client_allowed(text, text) TO authenticated, service_role;
+
+-- Same as before, plus the actor check for direct writes by non-admins.
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_from text := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END;
+BEGIN
+  IF NOT public.request_status_transition_allowed(v_from, NEW.status) THEN
+    RAISE EXCEPTION 'Status request tidak bisa berubah dari % ke %.', COALESCE(v_from, '(baru)'), NEW.status
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon')
+    AND NOT public.is_admin_user()
+    AND NOT public.request_status_change_by_client_allowed(v_from, NEW.status) THEN
+    RAISE EXCEPTION 'Engineer hanya bisa membatalkan request yang masih pending.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_monthly_request_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Request tidak bisa dihapus. Batalkan request yang masih pending.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS monthly_requests_guard_delete ON public.monthly_requests;
+CREATE TRIGGER monthly_requests_guard_delete
+BEFORE DELETE ON public.monthly_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_monthly_request_delete();
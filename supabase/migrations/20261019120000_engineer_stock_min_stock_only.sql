@@ -0,0 +1,8 @@
+-- Engineers write only min_stock on engineer_stock. Quantities change through the stock RPCs
+-- (submit_stock_correction, usage reports, transfers, returns, deliveries), which are
+-- SECURITY DEFINER and keep the thresholds, movements and serials in step. Direct inserts and
+-- quantity updates from the app are no longer allowed; admins still delete rows when removing
+-- an engineer.
+
+REVOKE INSERT, UPDATE ON TABLE public.engineer_stock FROM anon, authenticated;
+GRANT UPDATE (min_stock) ON TABLE public.engineer_stock TO authenticated;
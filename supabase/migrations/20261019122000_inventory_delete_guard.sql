@@ -0,0 +1,62 @@
+-- Stock no longer leaves the ledger without a movement.
+-- A part can only be deleted while it has no warehouse stock; stock is corrected to 0 first,
+-- which records a 'correction' movement. The 'rollback' movement type was never written and is
+-- dropped, and the outflow summary counts deliveries only.
+
+CREATE OR REPLACE FUNCTION public.guard_inventory_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.total_stock, 0) > 0 THEN
+    RAISE EXCEPTION 'Part masih punya stok gudang (% pcs). Koreksi stok ke 0 sebelum menghapus part.', OLD.total_stock
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_guard_delete ON public.inventory;
+CREATE TRIGGER inventory_guard_delete
+BEFORE DELETE ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_inventory_delete();
+
+ALTER TABLE public.inventory_movements
+  DROP CONSTRAINT IF EXISTS inventory_movements_movement_type_check;
+
+ALTER TABLE public.inventory_movements
+  ADD CONSTRAINT inventory_movements_movement_type_check
+  CHECK (movement_type IN ('receipt', 'correction', 'delivery', 'return'));
+
+-- Same as before, without the 'rollback' type.
+CREATE OR REPLACE FUNCTION public.inventory_outflow_summary(
+  p_days integer DEFAULT 90
+)
+RETURNS TABLE (part_id text, quantity integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Hanya admin yang boleh melihat riwayat stok gudang.' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.part_id,
+    GREATEST(-SUM(m.delta), 0)::integer
+  FROM public.inventory_movements m
+  WHERE m.movement_type = 'delivery'
+    AND m.created_at >= now() - make_interval(days => GREATEST(COALESCE(p_days, 90), 1))
+  GROUP BY m.part_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_outflow_summary(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.inventory_outflow_summary(integer) TO authenticated, service_role;
@@ -0,0 +1,39 @@
+-- Backfill notifications.type for rows written before it carried the real type, then validate
+-- notifications_type_check (added NOT VALID). Older rows take the type from data.type when it is
+-- a known one, as the app does for new rows; anything else becomes 'system'.
+
+UPDATE public.notifications
+SET type = data->>'type'
+WHERE COALESCE(type, 'system') = 'system'
+  AND data->>'type' IN (
+    'broadcast',
+    'request_progress',
+    'comment',
+    'sla',
+    'digest',
+    'stock_transfer',
+    'stock_return',
+    'stock_correction',
+    'stock_count',
+    'defective_part'
+  );
+
+UPDATE public.notifications
+SET type = 'system'
+WHERE type IS NULL
+  OR type NOT IN (
+    'system',
+    'broadcast',
+    'request_progress',
+    'comment',
+    'sla',
+    'digest',
+    'stock_transfer',
+    'stock_return',
+    'stock_correction',
+    'stock_count',
+    'defective_part'
+  );
+
+ALTER TABLE public.notifications
+  VALIDATE CONSTRAINT notifications_type_check;
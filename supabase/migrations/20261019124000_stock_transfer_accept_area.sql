@@ -0,0 +1,217 @@
+-- Accepting a stock transfer checks the area again. Both engineers had to share an area when the
+-- transfer was created, but either may have moved since; the accept is then refused with
+-- different_area and the transfer stays pending for the initiator to cancel or the other side
+-- to reject.
+
+-- Same as before, plus the area check on accept.
+CREATE OR REPLACE FUNCTION public.respond_stock_transfer(
+  p_transfer_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL,
+  p_serials jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_now timestamptz := now();
+  v_note text := NULLIF(btrim(COALESCE(p_note, '')), '');
+  v_shortages jsonb;
+  v_items jsonb;
+  v_serial_issues jsonb;
+  v_item record;
+  v_from_qty integer;
+  v_to_qty integer;
+  v_from_area text;
+  v_to_area text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Session tidak valid.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_decision NOT IN ('accept', 'reject', 'cancel') THEN
+    RAISE EXCEPTION 'Keputusan transfer tidak dikenal: %', p_decision USING ERRCODE = '22023';
+  END IF;
+
+  SELECT *
+  INTO v_transfer
+  FROM public.stock_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_found');
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'invalid_status', 'status', v_transfer.status);
+  END IF;
+
+  IF (p_decision = 'cancel' AND v_transfer.initiated_by <> v_uid)
+    OR (p_decision <> 'cancel' AND (
+      v_transfer.initiated_by = v_uid
+      OR v_uid NOT IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    )) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'not_allowed');
+  END IF;
+
+  IF p_decision <> 'accept' THEN
+    UPDATE public.stock_transfers
+    SET status = CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END,
+        response_note = v_note,
+        responded_by = v_uid,
+        responded_at = v_now
+    WHERE id = v_transfer.id;
+
+    RETURN jsonb_build_object(
+      'ok', true,
+      'code', CASE WHEN p_decision = 'cancel' THEN 'cancelled' ELSE 'rejected' END
+    );
+  END IF;
+
+  -- Either engineer may have moved to another area since the transfer was created.
+  SELECT location INTO v_from_area FROM public.profiles WHERE id = v_transfer.from_engineer_id;
+  SELECT location INTO v_to_area FROM public.profiles WHERE id = v_transfer.to_engineer_id;
+
+  IF btrim(COALESCE(v_from_area, '')) = ''
+    OR upper(btrim(COALESCE(v_to_area, ''))) <> upper(btrim(v_from_area)) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'different_area');
+  END IF;
+
+  -- Lock both sides in a stable order before checking the sender's stock.
+  PERFORM 1
+  FROM public.engineer_stock es
+  WHERE es.engineer_id IN (v_transfer.from_engineer_id, v_transfer.to_engineer_id)
+    AND es.part_id IN (
+      SELECT d."partId" FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+    )
+  ORDER BY es.engineer_id, es.part_id
+  FOR UPDATE;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'partId', d."partId",
+      'partName', d."partName",
+      'required', d.quantity,
+      'available', COALESCE(es.quantity, 0),
+      'missing', es.part_id IS NULL
+    ) ORDER BY d."partId"), '[]'::jsonb)
+  INTO v_shortages
+  FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LEFT JOIN public.engineer_stock es
+    ON es.engineer_id = v_transfer.from_engineer_id
+   AND es.part_id = d."partId"
+  WHERE COALESCE(es.quantity, 0) < d.quantity;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'insufficient_stock', 'shortages', v_shortages);
+  END IF;
+
+  -- An offer carries the sender's serials already; on a request the accepting sender names them.
+  IF v_transfer.kind = 'request' THEN
+    SELECT COALESCE(jsonb_agg(
+        item || CASE
+          WHEN COALESCE(i.is_serialized, false)
+            THEN jsonb_build_object('serials', public.item_serials(p_serials, item->>'partId'))
+          ELSE '{}'::jsonb
+        END ORDER BY item->>'partId'), '[]'::jsonb)
+    INTO v_items
+    FROM jsonb_array_elements(v_transfer.items) AS item
+    LEFT JOIN public.inventory i ON i.id = item->>'partId';
+  ELSE
+    v_items := v_transfer.items;
+  END IF;
+
+  v_serial_issues := public.held_serial_issues(v_transfer.from_engineer_id, v_items);
+
+  IF jsonb_array_length(v_serial_issues) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'serials_required', 'serial_issues', v_serial_issues);
+  END IF;
+
+
+  FOR v_item IN
+    SELECT d."partId" AS part_id, d."partName" AS part_name, d.quantity AS qty
+    FROM jsonb_to_recordset(v_transfer.items) AS d("partId" text, "partName" text, quantity int)
+  LOOP
+    UPDATE public.engineer_stock
+    SET quantity = quantity - v_item.qty,
+        last_sync = v_now
+    WHERE engineer_id = v_transfer.from_engineer_id
+      AND part_id = v_item.part_id
+    RETURNING quantity INTO v_from_qty;
+
+    INSERT INTO public.engineer_stock AS es (engineer_id, part_id, quantity, last_sync)
+    VALUES (v_transfer.to_engineer_id, v_item.part_id, v_item.qty, v_now)
+    ON CONFLICT (engineer_id, part_id) DO UPDATE
+      SET quantity = es.quantity + EXCLUDED.quantity,
+          last_sync = EXCLUDED.last_sync
+    RETURNING es.quantity INTO v_to_qty;
+
+    INSERT INTO public.stock_adjustments (
+      engineer_id,
+      engineer_name,
+      part_id,
+      part_name,
+      previous_quantity,
+      new_quantity,
+      delta,
+      reason,
+      area_group,
+      transfer_id,
+      timestamp
+    )
+    VALUES
+      (
+        v_transfer.from_engineer_id,
+        COALESCE(v_transfer.from_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_from_qty + v_item.qty,
+        v_from_qty,
+        -v_item.qty,
+        'Transfer ke ' || COALESCE(v_transfer.to_engineer_name, '-'),
+        v_from_area,
+        v_transfer.id,
+        v_now
+      ),
+      (
+        v_transfer.to_engineer_id,
+        COALESCE(v_transfer.to_engineer_name, ''),
+        v_item.part_id,
+        v_item.part_name,
+        v_to_qty - v_item.qty,
+        v_to_qty,
+        v_item.qty,
+        'Transfer dari ' || COALESCE(v_transfer.from_engineer_name, '-'),
+        v_to_area,
+        v_transfer.id,
+        v_now
+      );
+  END LOOP;
+
+  UPDATE public.part_serials ps
+  SET engineer_id = v_transfer.to_engineer_id,
+      transfer_id = v_transfer.id
+  FROM jsonb_to_recordset(v_items) AS d("partId" text, serials jsonb)
+  WHERE ps.engineer_id = v_transfer.from_engineer_id
+    AND ps.status = 'with_engineer'
+    AND ps.part_id = d."partId"
+    AND to_jsonb(ps.serial_number) <@ COALESCE(d.serials, '[]'::jsonb);
+
+  UPDATE public.stock_transfers
+  SET status = 'accepted',
+      items = v_items,
+      response_note = v_note,
+      responded_by = v_uid,
+      responded_at = v_now
+  WHERE id = v_transfer.id;
+
+  RETURN jsonb_build_object('ok', true, 'code', 'accepted', 'items', v_items);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.respond_stock_transfer(uuid, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.respond_stock_transfer(uuid, text, text, jsonb) TO authenticated, service_role;
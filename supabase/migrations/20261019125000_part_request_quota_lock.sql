@@ -0,0 +1,99 @@
+-- Monthly part quotas hold under concurrent submits. Two requests saved at the same time could
+-- each sum the month without seeing the other and both pass max_per_month; the rules trigger now
+-- takes a transaction-level advisory lock per engineer, part and month before summing.
+
+-- Same as before, plus the advisory lock before the monthly sum.
+CREATE OR REPLACE FUNCTION public.enforce_part_request_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_profile public.profiles%ROWTYPE;
+  v_area text;
+  v_line record;
+  v_month_used integer;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status = 'pending'
+    AND OLD.items IS NOT DISTINCT FROM NEW.items
+    AND OLD.month IS NOT DISTINCT FROM NEW.month
+    AND OLD.engineer_id IS NOT DISTINCT FROM NEW.engineer_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT *
+  INTO v_profile
+  FROM public.profiles
+  WHERE id = NEW.engineer_id;
+
+  v_area := NULLIF(upper(btrim(COALESCE(v_profile.location, ''))), '');
+
+  FOR v_line IN
+    WITH lines AS (
+      SELECT item->>'partId' AS part_id,
+        SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0))::int AS qty
+      FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb)) AS item
+      WHERE COALESCE(item->>'partId', '') <> ''
+      GROUP BY item->>'partId'
+    )
+    SELECT l.part_id,
+      l.qty,
+      COALESCE(i.part_name, l.part_id) AS part_name,
+      COALESCE(r.max_per_request, 10) AS max_per_request,
+      r.max_per_month,
+      r.allowed_roles
+    FROM lines l
+    LEFT JOIN public.inventory i ON i.id = l.part_id
+    LEFT JOIN LATERAL (
+      SELECT pr.*
+      FROM public.part_request_rules pr
+      WHERE pr.part_id = l.part_id
+        AND (pr.area_group IS NULL OR pr.area_group = v_area)
+      ORDER BY pr.area_group IS NULL
+      LIMIT 1
+    ) r ON true
+    ORDER BY l.part_id
+  LOOP
+    IF v_line.allowed_roles IS NOT NULL
+      AND NOT (COALESCE(v_profile.role::text, '') = ANY (v_line.allowed_roles)) THEN
+      RAISE EXCEPTION '% tidak bisa di-request oleh akun ini.', v_line.part_name
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_line.qty > v_line.max_per_request THEN
+      RAISE EXCEPTION '% maksimal % pcs per request.', v_line.part_name, v_line.max_per_request
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_line.max_per_month IS NOT NULL THEN
+      -- Concurrent requests of the same engineer, part and month wait here, so each one sums
+      -- the others' committed quantities. Lines come in part order, which keeps lock order stable.
+      PERFORM pg_advisory_xact_lock(hashtext(NEW.engineer_id::text || ':' || v_line.part_id || ':' || COALESCE(NEW.month::text, '')));
+
+      SELECT COALESCE(SUM(GREATEST(FLOOR(COALESCE((item->>'quantity')::numeric, 0)), 0)), 0)::int
+      INTO v_month_used
+      FROM public.monthly_requests mr,
+        jsonb_array_elements(COALESCE(mr.items, '[]'::jsonb)) AS item
+      WHERE mr.engineer_id = NEW.engineer_id
+        AND mr.month = NEW.month
+        AND mr.id <> NEW.id
+        AND mr.status NOT IN ('rejected', 'cancelled')
+        AND item->>'partId' = v_line.part_id;
+
+      IF v_month_used + v_line.qty > v_line.max_per_month THEN
+        RAISE EXCEPTION '% maksimal % pcs per bulan (sudah di-request % pcs).',
+          v_line.part_name, v_line.max_per_month, v_month_used
+          USING ERRCODE = '23514';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
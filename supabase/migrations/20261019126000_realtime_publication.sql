@@ -0,0 +1,45 @@
+-- Realtime for the tables added by the request, stock and warehouse migrations before this one.
+-- Their screens refresh through useSupabaseRealtimeRefresh, which only sees tables in the
+-- supabase_realtime publication. Tables already in it are skipped, so this can run again.
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'part_request_rules',
+    'stock_transfers',
+    'stock_returns',
+    'defective_parts',
+    'part_serials',
+    'purchase_orders',
+    'purchase_order_lines',
+    'suppliers',
+    'part_suppliers',
+    'warehouses',
+    'warehouse_stock',
+    'warehouse_transfers',
+    'stock_count_campaigns',
+    'stock_count_tasks',
+    'stock_count_lines',
+    'stock_correction_requests',
+    'stock_correction_settings',
+    'stock_anomalies',
+    'request_status_history',
+    'request_comments',
+    'request_sla_events',
+    'request_sla_policies'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;